@@ -0,0 +1,58 @@
+-- 0019: Structured multi-reviewer abstract review workflow
+-- abstract_reviews was never written to, so it is reshaped in place: reviewers
+-- are backoffice staff (not attendees), each submits one scored review per
+-- abstract. Old rows (attendee reviewers, no scores) have no place in the new
+-- shape, so the migration stops if there are any instead of dropping them.
+-- Organizer decisions are recorded in abstract_decisions.
+
+DO $$ BEGIN
+  CREATE TYPE "public"."abstract_review_recommendation" AS ENUM('accept', 'reject');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+  IF EXISTS (SELECT 1 FROM "abstract_reviews") THEN
+    RAISE EXCEPTION '0019: abstract_reviews holds % row(s) in the old shape; export and remove them before migrating',
+      (SELECT count(*) FROM "abstract_reviews");
+  END IF;
+END $$;
+--> statement-breakpoint
+ALTER TABLE "abstract_reviews" DROP CONSTRAINT IF EXISTS "abstract_reviews_reviewer_id_users_id_fk";
+--> statement-breakpoint
+ALTER TABLE "abstract_reviews" DROP CONSTRAINT IF EXISTS "abstract_reviews_abstract_id_abstracts_id_fk";
+--> statement-breakpoint
+ALTER TABLE "abstract_reviews" DROP COLUMN IF EXISTS "status";
+--> statement-breakpoint
+ALTER TABLE "abstract_reviews"
+  ADD COLUMN IF NOT EXISTS "originality_score" integer NOT NULL,
+  ADD COLUMN IF NOT EXISTS "methodology_score" integer NOT NULL,
+  ADD COLUMN IF NOT EXISTS "relevance_score" integer NOT NULL,
+  ADD COLUMN IF NOT EXISTS "clarity_score" integer NOT NULL,
+  ADD COLUMN IF NOT EXISTS "total_score" integer NOT NULL,
+  ADD COLUMN IF NOT EXISTS "recommendation" "abstract_review_recommendation" NOT NULL,
+  ADD COLUMN IF NOT EXISTS "updated_at" timestamp DEFAULT now() NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "abstract_reviews" ADD CONSTRAINT "abstract_reviews_abstract_id_abstracts_id_fk" FOREIGN KEY ("abstract_id") REFERENCES "public"."abstracts"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "abstract_reviews" ADD CONSTRAINT "abstract_reviews_reviewer_id_backoffice_users_id_fk" FOREIGN KEY ("reviewer_id") REFERENCES "public"."backoffice_users"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "abstract_reviews" ADD CONSTRAINT "abstract_reviews_abstract_reviewer_unique" UNIQUE ("abstract_id", "reviewer_id");
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "abstract_decisions" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "abstract_id" integer NOT NULL,
+  "previous_status" "abstract_status" NOT NULL,
+  "status" "abstract_status" NOT NULL,
+  "comment" text,
+  "review_count" integer DEFAULT 0 NOT NULL,
+  "average_score" numeric(5, 2),
+  "decided_by" integer,
+  "decided_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "abstract_decisions" ADD CONSTRAINT "abstract_decisions_abstract_id_abstracts_id_fk" FOREIGN KEY ("abstract_id") REFERENCES "public"."abstracts"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "abstract_decisions" ADD CONSTRAINT "abstract_decisions_decided_by_backoffice_users_id_fk" FOREIGN KEY ("decided_by") REFERENCES "public"."backoffice_users"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "abstract_decisions_abstract_id_idx" ON "abstract_decisions" ("abstract_id");
@@ -0,0 +1,24 @@
+-- 0020: Reviewer assignment engine
+-- backoffice_users.institution feeds conflict-of-interest detection; assignments
+-- are written by the auto-assignment engine or overridden/locked by organizers.
+
+ALTER TABLE "backoffice_users" ADD COLUMN IF NOT EXISTS "institution" varchar(255);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "abstract_reviewer_assignments" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "abstract_id" integer NOT NULL,
+  "reviewer_id" integer NOT NULL,
+  "source" varchar(20) DEFAULT 'auto' NOT NULL,
+  "is_locked" boolean DEFAULT false NOT NULL,
+  "assigned_by" integer,
+  "assigned_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "abstract_reviewer_assignments_abstract_reviewer_unique" UNIQUE("abstract_id", "reviewer_id")
+);
+--> statement-breakpoint
+ALTER TABLE "abstract_reviewer_assignments" ADD CONSTRAINT "abstract_reviewer_assignments_abstract_id_abstracts_id_fk" FOREIGN KEY ("abstract_id") REFERENCES "public"."abstracts"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "abstract_reviewer_assignments" ADD CONSTRAINT "abstract_reviewer_assignments_reviewer_id_backoffice_users_id_fk" FOREIGN KEY ("reviewer_id") REFERENCES "public"."backoffice_users"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "abstract_reviewer_assignments" ADD CONSTRAINT "abstract_reviewer_assignments_assigned_by_backoffice_users_id_fk" FOREIGN KEY ("assigned_by") REFERENCES "public"."backoffice_users"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "abstract_reviewer_assignments_reviewer_id_idx" ON "abstract_reviewer_assignments" ("reviewer_id");
@@ -0,0 +1,4 @@
+-- 0021: Double-blind review switch per event
+-- When true, reviewers do not see author names, emails, institutions or co-authors.
+
+ALTER TABLE "events" ADD COLUMN IF NOT EXISTS "blind_review" boolean DEFAULT false NOT NULL;
@@ -0,0 +1,51 @@
+-- 0022: Revision requests and versioned resubmission
+-- Adds the 'revision_requested' outcome, keeps a snapshot of every submitted
+-- version and scopes reviews to the version they were written against.
+
+ALTER TYPE "public"."abstract_status" ADD VALUE IF NOT EXISTS 'revision_requested';
+--> statement-breakpoint
+ALTER TYPE "public"."abstract_review_recommendation" ADD VALUE IF NOT EXISTS 'revise';
+--> statement-breakpoint
+ALTER TABLE "abstracts" ADD COLUMN IF NOT EXISTS "current_version" integer DEFAULT 1 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "abstract_reviews" ADD COLUMN IF NOT EXISTS "version" integer DEFAULT 1 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "abstract_reviews" DROP CONSTRAINT IF EXISTS "abstract_reviews_abstract_reviewer_unique";
+--> statement-breakpoint
+ALTER TABLE "abstract_reviews" ADD CONSTRAINT "abstract_reviews_abstract_reviewer_version_unique" UNIQUE ("abstract_id", "reviewer_id", "version");
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "abstract_versions" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "abstract_id" integer NOT NULL,
+  "version" integer NOT NULL,
+  "title" varchar(500) NOT NULL,
+  "category" "abstract_category" NOT NULL,
+  "presentation_type" "presentation_type" NOT NULL,
+  "keywords" varchar(255),
+  "background" text NOT NULL,
+  "objective" text NOT NULL,
+  "methods" text NOT NULL,
+  "results" text NOT NULL,
+  "conclusion" text NOT NULL,
+  "full_paper_url" varchar(500),
+  "co_authors" jsonb DEFAULT '[]'::jsonb,
+  "submitted_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "abstract_versions_abstract_version_unique" UNIQUE("abstract_id", "version")
+);
+--> statement-breakpoint
+ALTER TABLE "abstract_versions" ADD CONSTRAINT "abstract_versions_abstract_id_abstracts_id_fk" FOREIGN KEY ("abstract_id") REFERENCES "public"."abstracts"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+-- Backfill v1 snapshots for abstracts submitted before versioning
+INSERT INTO "abstract_versions" ("abstract_id", "version", "title", "category", "presentation_type", "keywords", "background", "objective", "methods", "results", "conclusion", "full_paper_url", "co_authors", "submitted_at")
+SELECT
+  a.id, 1, a.title, a.category, a.presentation_type, a.keywords, a.background, a.objective, a.methods, a.results, a.conclusion, a.full_paper_url,
+  COALESCE((
+    SELECT jsonb_agg(jsonb_build_object(
+      'firstName', ca.first_name, 'middleName', ca.middle_name, 'lastName', ca.last_name,
+      'email', ca.email, 'institution', ca.institution, 'country', ca.country
+    ) ORDER BY ca.sort_order)
+    FROM "abstract_co_authors" ca WHERE ca.abstract_id = a.id
+  ), '[]'::jsonb),
+  a.created_at
+FROM "abstracts" a
+ON CONFLICT ("abstract_id", "version") DO NOTHING;
@@ -0,0 +1,25 @@
+-- 0023: Abstract submission window exceptions and per-author limits
+
+ALTER TABLE "events" ADD COLUMN IF NOT EXISTS "max_abstracts_per_author" integer;
+--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN IF NOT EXISTS "max_oral_abstracts_per_author" integer;
+--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN IF NOT EXISTS "max_poster_abstracts_per_author" integer;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "abstract_submission_overrides" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "event_id" integer NOT NULL,
+  "user_id" integer NOT NULL,
+  "grace_until" timestamp NOT NULL,
+  "note" text,
+  "granted_by" integer,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "abstract_submission_overrides_event_user_unique" UNIQUE("event_id", "user_id")
+);
+--> statement-breakpoint
+ALTER TABLE "abstract_submission_overrides" ADD CONSTRAINT "abstract_submission_overrides_event_id_events_id_fk" FOREIGN KEY ("event_id") REFERENCES "public"."events"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "abstract_submission_overrides" ADD CONSTRAINT "abstract_submission_overrides_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "abstract_submission_overrides" ADD CONSTRAINT "abstract_submission_overrides_granted_by_backoffice_users_id_fk" FOREIGN KEY ("granted_by") REFERENCES "public"."backoffice_users"("id") ON DELETE set null ON UPDATE no action;
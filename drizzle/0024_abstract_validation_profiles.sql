@@ -0,0 +1,3 @@
+-- 0024: Per-event abstract validation profile (word limits, keywords, title length, banned characters)
+
+ALTER TABLE "events" ADD COLUMN IF NOT EXISTS "abstract_validation_profile" jsonb;
@@ -0,0 +1,25 @@
+-- 0025: Slot grids for the oral/poster presentation scheduler
+
+CREATE TABLE IF NOT EXISTS "presentation_schedule_blocks" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "event_id" integer NOT NULL,
+  "presentation_type" "presentation_type" NOT NULL,
+  "label" varchar(255),
+  "date" date NOT NULL,
+  "room" varchar(255),
+  "start_time" varchar(10) NOT NULL,
+  "end_time" varchar(10) NOT NULL,
+  "slot_minutes" integer,
+  "board_from" integer,
+  "board_to" integer,
+  "installation_start" varchar(10),
+  "installation_end" varchar(10),
+  "removal_start" varchar(10),
+  "removal_end" varchar(10),
+  "categories" jsonb DEFAULT '[]'::jsonb,
+  "sort_order" integer DEFAULT 0 NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "presentation_schedule_blocks" ADD CONSTRAINT "presentation_schedule_blocks_event_id_events_id_fk" FOREIGN KEY ("event_id") REFERENCES "public"."events"("id") ON DELETE cascade ON UPDATE no action;
@@ -0,0 +1,26 @@
+-- 0027: Seat holds for pending orders (prevents overselling between create-intent and payment)
+
+CREATE TABLE IF NOT EXISTS "seat_holds" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "order_id" integer NOT NULL,
+  "user_id" integer NOT NULL,
+  "event_id" integer NOT NULL,
+  "ticket_type_id" integer,
+  "session_id" integer,
+  "quantity" integer DEFAULT 1 NOT NULL,
+  "status" varchar(20) DEFAULT 'active' NOT NULL,
+  "expires_at" timestamp NOT NULL,
+  "released_at" timestamp,
+  "release_reason" varchar(20),
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "seat_holds" ADD CONSTRAINT "seat_holds_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "seat_holds" ADD CONSTRAINT "seat_holds_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "seat_holds" ADD CONSTRAINT "seat_holds_event_id_events_id_fk" FOREIGN KEY ("event_id") REFERENCES "public"."events"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "seat_holds" ADD CONSTRAINT "seat_holds_ticket_type_id_ticket_types_id_fk" FOREIGN KEY ("ticket_type_id") REFERENCES "public"."ticket_types"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "seat_holds" ADD CONSTRAINT "seat_holds_session_id_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE cascade ON UPDATE no action;
@@ -0,0 +1,29 @@
+-- 0028: Full / partial refunds of paid orders (Stripe API + manual Pay Solutions / KTB)
+
+ALTER TYPE "public"."order_status" ADD VALUE IF NOT EXISTS 'refunded';
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "refunds" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "order_id" integer NOT NULL,
+  "payment_id" integer NOT NULL,
+  "amount" numeric(10, 2) NOT NULL,
+  "currency" varchar(3) NOT NULL,
+  "payment_provider" varchar(30) NOT NULL,
+  "method" varchar(20) NOT NULL,
+  "status" varchar(20) DEFAULT 'succeeded' NOT NULL,
+  "provider_refund_id" varchar(255),
+  "reference" varchar(255),
+  "reason" text NOT NULL,
+  "registration_action" varchar(10) NOT NULL,
+  "order_item_ids" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "credit_note_number" varchar(50) NOT NULL,
+  "refunded_by" integer,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "refunds_credit_note_number_unique" UNIQUE("credit_note_number")
+);
+--> statement-breakpoint
+ALTER TABLE "refunds" ADD CONSTRAINT "refunds_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "refunds" ADD CONSTRAINT "refunds_payment_id_payments_id_fk" FOREIGN KEY ("payment_id") REFERENCES "public"."payments"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "refunds" ADD CONSTRAINT "refunds_refunded_by_backoffice_users_id_fk" FOREIGN KEY ("refunded_by") REFERENCES "public"."backoffice_users"("id") ON DELETE no action ON UPDATE no action;
@@ -0,0 +1,28 @@
+-- 0029: Registration transfers to another attendee (keeps orderId, re-issues regCode)
+
+CREATE TABLE IF NOT EXISTS "registration_transfers" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "registration_id" integer NOT NULL,
+  "from_user_id" integer,
+  "from_email" varchar(255) NOT NULL,
+  "from_name" varchar(310) NOT NULL,
+  "to_user_id" integer,
+  "to_email" varchar(255) NOT NULL,
+  "to_name" varchar(310) NOT NULL,
+  "previous_reg_code" varchar(50) NOT NULL,
+  "new_reg_code" varchar(50) NOT NULL,
+  "transferred_by" integer,
+  "requested_by_user_id" integer,
+  "note" text,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "registration_transfers" ADD CONSTRAINT "registration_transfers_registration_id_registrations_id_fk" FOREIGN KEY ("registration_id") REFERENCES "public"."registrations"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "registration_transfers" ADD CONSTRAINT "registration_transfers_from_user_id_users_id_fk" FOREIGN KEY ("from_user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "registration_transfers" ADD CONSTRAINT "registration_transfers_to_user_id_users_id_fk" FOREIGN KEY ("to_user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "registration_transfers" ADD CONSTRAINT "registration_transfers_transferred_by_backoffice_users_id_fk" FOREIGN KEY ("transferred_by") REFERENCES "public"."backoffice_users"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "registration_transfers" ADD CONSTRAINT "registration_transfers_requested_by_user_id_users_id_fk" FOREIGN KEY ("requested_by_user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
@@ -0,0 +1,29 @@
+-- 0030: Order audit trail (status transitions, source, provider payload reference, idempotency key)
+
+CREATE TABLE IF NOT EXISTS "order_events" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "order_id" integer NOT NULL,
+  "payment_id" integer,
+  "type" varchar(30) NOT NULL,
+  "from_status" varchar(20),
+  "to_status" varchar(20),
+  "payment_status" varchar(20),
+  "source" varchar(30) NOT NULL,
+  "staff_id" integer,
+  "user_id" integer,
+  "provider_ref" varchar(255),
+  "payload_ref" varchar(255),
+  "payload" jsonb,
+  "idempotency_key" varchar(255),
+  "note" text,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "order_events_idempotency_key_unique" UNIQUE("idempotency_key")
+);
+--> statement-breakpoint
+ALTER TABLE "order_events" ADD CONSTRAINT "order_events_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "order_events" ADD CONSTRAINT "order_events_payment_id_payments_id_fk" FOREIGN KEY ("payment_id") REFERENCES "public"."payments"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "order_events" ADD CONSTRAINT "order_events_staff_id_backoffice_users_id_fk" FOREIGN KEY ("staff_id") REFERENCES "public"."backoffice_users"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "order_events" ADD CONSTRAINT "order_events_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
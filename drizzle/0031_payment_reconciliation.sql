@@ -0,0 +1,43 @@
+-- 0031: Payment reconciliation runs and the mismatches they found
+
+CREATE TABLE IF NOT EXISTS "payment_reconciliation_runs" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "trigger" varchar(20) NOT NULL,
+  "triggered_by" integer,
+  "status" varchar(20) DEFAULT 'running' NOT NULL,
+  "auto_heal" boolean DEFAULT false NOT NULL,
+  "filters" jsonb,
+  "checked_count" integer DEFAULT 0 NOT NULL,
+  "mismatch_count" integer DEFAULT 0 NOT NULL,
+  "healed_count" integer DEFAULT 0 NOT NULL,
+  "error" text,
+  "started_at" timestamp DEFAULT now() NOT NULL,
+  "finished_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "payment_reconciliation_items" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "run_id" integer NOT NULL,
+  "payment_id" integer,
+  "order_id" integer,
+  "payment_provider" varchar(30) NOT NULL,
+  "provider_ref" varchar(255),
+  "kind" varchar(30) NOT NULL,
+  "local_status" varchar(20),
+  "provider_status" varchar(50),
+  "local_amount" numeric(10, 2),
+  "provider_amount" numeric(10, 2),
+  "currency" varchar(3),
+  "details" jsonb,
+  "healed" boolean DEFAULT false NOT NULL,
+  "heal_error" text,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "payment_reconciliation_runs" ADD CONSTRAINT "payment_reconciliation_runs_triggered_by_backoffice_users_id_fk" FOREIGN KEY ("triggered_by") REFERENCES "public"."backoffice_users"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "payment_reconciliation_items" ADD CONSTRAINT "payment_reconciliation_items_run_id_payment_reconciliation_runs_id_fk" FOREIGN KEY ("run_id") REFERENCES "public"."payment_reconciliation_runs"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "payment_reconciliation_items" ADD CONSTRAINT "payment_reconciliation_items_payment_id_payments_id_fk" FOREIGN KEY ("payment_id") REFERENCES "public"."payments"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "payment_reconciliation_items" ADD CONSTRAINT "payment_reconciliation_items_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE no action ON UPDATE no action;
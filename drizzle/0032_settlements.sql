@@ -0,0 +1,37 @@
+-- 0032: Provider settlement imports, matched to payments for the fee reconciliation report
+
+CREATE TABLE IF NOT EXISTS "settlement_imports" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "payment_provider" varchar(30) NOT NULL,
+  "file_name" varchar(255) NOT NULL,
+  "uploaded_by" integer,
+  "line_count" integer DEFAULT 0 NOT NULL,
+  "matched_count" integer DEFAULT 0 NOT NULL,
+  "unmatched_count" integer DEFAULT 0 NOT NULL,
+  "duplicate_count" integer DEFAULT 0 NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "settlement_lines" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "import_id" integer NOT NULL,
+  "payment_provider" varchar(30) NOT NULL,
+  "row_number" integer NOT NULL,
+  "reference" varchar(255) NOT NULL,
+  "transaction_date" timestamp,
+  "channel" varchar(50),
+  "currency" varchar(3),
+  "gross_amount" numeric(10, 2) NOT NULL,
+  "fee_amount" numeric(10, 2) NOT NULL,
+  "net_amount" numeric(10, 2) NOT NULL,
+  "payment_id" integer,
+  "match_status" varchar(20) NOT NULL,
+  "raw" jsonb,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "settlement_imports" ADD CONSTRAINT "settlement_imports_uploaded_by_backoffice_users_id_fk" FOREIGN KEY ("uploaded_by") REFERENCES "public"."backoffice_users"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "settlement_lines" ADD CONSTRAINT "settlement_lines_import_id_settlement_imports_id_fk" FOREIGN KEY ("import_id") REFERENCES "public"."settlement_imports"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "settlement_lines" ADD CONSTRAINT "settlement_lines_payment_id_payments_id_fk" FOREIGN KEY ("payment_id") REFERENCES "public"."payments"("id") ON DELETE no action ON UPDATE no action;
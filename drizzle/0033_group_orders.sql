@@ -0,0 +1,32 @@
+-- 0033: Group orders — N seats of one ticket type bought by an institution, assigned to attendees by email
+
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "is_group_order" boolean DEFAULT false NOT NULL;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "group_order_seats" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "order_id" integer NOT NULL,
+  "event_id" integer NOT NULL,
+  "ticket_type_id" integer NOT NULL,
+  "seat_number" integer NOT NULL,
+  "status" varchar(20) DEFAULT 'unassigned' NOT NULL,
+  "invite_email" varchar(255),
+  "invite_first_name" varchar(100),
+  "invite_last_name" varchar(100),
+  "invite_token" varchar(64),
+  "invited_at" timestamp,
+  "registration_id" integer,
+  "claimed_by_user_id" integer,
+  "claimed_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "group_order_seats_invite_token_unique" UNIQUE("invite_token")
+);
+--> statement-breakpoint
+ALTER TABLE "group_order_seats" ADD CONSTRAINT "group_order_seats_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "group_order_seats" ADD CONSTRAINT "group_order_seats_event_id_events_id_fk" FOREIGN KEY ("event_id") REFERENCES "public"."events"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "group_order_seats" ADD CONSTRAINT "group_order_seats_ticket_type_id_ticket_types_id_fk" FOREIGN KEY ("ticket_type_id") REFERENCES "public"."ticket_types"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "group_order_seats" ADD CONSTRAINT "group_order_seats_registration_id_registrations_id_fk" FOREIGN KEY ("registration_id") REFERENCES "public"."registrations"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "group_order_seats" ADD CONSTRAINT "group_order_seats_claimed_by_user_id_users_id_fk" FOREIGN KEY ("claimed_by_user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
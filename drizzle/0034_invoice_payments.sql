@@ -0,0 +1,3 @@
+-- 0034: Invoice / bank-transfer payments — due date of pending invoice orders
+
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "invoice_due_at" timestamp;
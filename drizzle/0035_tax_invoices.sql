@@ -0,0 +1,47 @@
+-- 0035: Full tax invoices and credit notes with sequential numbers per fiscal year
+
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "tax_branch_code" varchar(5);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "tax_invoices" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "order_id" integer NOT NULL,
+  "document_number" varchar(30) NOT NULL,
+  "fiscal_year" integer NOT NULL,
+  "status" varchar(20) DEFAULT 'issued' NOT NULL,
+  "buyer_name" varchar(200) NOT NULL,
+  "buyer_tax_id" varchar(50),
+  "buyer_branch_code" varchar(5),
+  "buyer_address" text,
+  "currency" varchar(3) NOT NULL,
+  "amount_before_vat" numeric(10, 2) NOT NULL,
+  "vat_rate" numeric(5, 2) NOT NULL,
+  "vat_amount" numeric(10, 2) NOT NULL,
+  "total_amount" numeric(10, 2) NOT NULL,
+  "replaces_invoice_id" integer,
+  "cancel_reason" text,
+  "cancelled_at" timestamp,
+  "issued_by" integer,
+  "issued_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "tax_invoices_document_number_unique" UNIQUE("document_number")
+);
+--> statement-breakpoint
+ALTER TABLE "tax_invoices" ADD CONSTRAINT "tax_invoices_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "tax_invoices" ADD CONSTRAINT "tax_invoices_replaces_invoice_id_tax_invoices_id_fk" FOREIGN KEY ("replaces_invoice_id") REFERENCES "public"."tax_invoices"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "tax_invoices" ADD CONSTRAINT "tax_invoices_issued_by_backoffice_users_id_fk" FOREIGN KEY ("issued_by") REFERENCES "public"."backoffice_users"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "tax_invoices_order_id_idx" ON "tax_invoices" ("order_id");
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "tax_document_sequences" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "document_type" varchar(20) NOT NULL,
+  "fiscal_year" integer NOT NULL,
+  "last_number" integer DEFAULT 0 NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "tax_document_sequences_type_year_unique" UNIQUE("document_type", "fiscal_year")
+);
+--> statement-breakpoint
+ALTER TABLE "refunds" ADD COLUMN IF NOT EXISTS "tax_invoice_id" integer;
+--> statement-breakpoint
+ALTER TABLE "refunds" ADD CONSTRAINT "refunds_tax_invoice_id_tax_invoices_id_fk" FOREIGN KEY ("tax_invoice_id") REFERENCES "public"."tax_invoices"("id") ON DELETE no action ON UPDATE no action;
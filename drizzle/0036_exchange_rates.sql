@@ -0,0 +1,35 @@
+-- 0036: Exchange rates with effective dates, per-event currencies and the rate used on each order
+
+CREATE TABLE IF NOT EXISTS "exchange_rates" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "base_currency" varchar(3) NOT NULL,
+  "quote_currency" varchar(3) NOT NULL,
+  "rate" numeric(12, 6) NOT NULL,
+  "effective_from" timestamp NOT NULL,
+  "note" text,
+  "created_by" integer,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "exchange_rates_pair_effective_from_unique" UNIQUE("base_currency", "quote_currency", "effective_from")
+);
+--> statement-breakpoint
+ALTER TABLE "exchange_rates" ADD CONSTRAINT "exchange_rates_created_by_backoffice_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."backoffice_users"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+-- The USD→THB rate that used to be hard-coded for Alipay
+INSERT INTO "exchange_rates" ("base_currency", "quote_currency", "rate", "effective_from", "note")
+VALUES ('USD', 'THB', 34, '2000-01-01 00:00:00', 'Rate previously hard-coded for Alipay')
+ON CONFLICT DO NOTHING;
+--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN IF NOT EXISTS "currencies" jsonb DEFAULT '["THB","USD"]'::jsonb NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "charge_currency" varchar(3);
+--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "exchange_rate" numeric(12, 6);
+--> statement-breakpoint
+-- Alipay orders so far were priced in USD and charged in THB at 34
+UPDATE "orders" SET "charge_currency" = 'THB', "exchange_rate" = 34
+FROM "payments"
+WHERE "payments"."order_id" = "orders"."id"
+  AND "orders"."currency" = 'USD'
+  AND "payments"."payment_details"->>'chargeCurrency' = 'THB'
+  AND "orders"."charge_currency" IS NULL;
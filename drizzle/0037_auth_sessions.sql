@@ -0,0 +1,26 @@
+-- 0037: Server-side login sessions with rotating refresh tokens
+
+CREATE TABLE IF NOT EXISTS "auth_sessions" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "audience" varchar(20) NOT NULL,
+  "user_id" integer,
+  "staff_id" integer,
+  "refresh_token_hash" varchar(64) NOT NULL,
+  "previous_refresh_token_hash" varchar(64),
+  "user_agent" varchar(500),
+  "ip_address" varchar(45),
+  "expires_at" timestamp NOT NULL,
+  "last_used_at" timestamp DEFAULT now() NOT NULL,
+  "revoked_at" timestamp,
+  "revoked_reason" varchar(30),
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "auth_sessions_refresh_token_hash_unique" UNIQUE("refresh_token_hash")
+);
+--> statement-breakpoint
+ALTER TABLE "auth_sessions" ADD CONSTRAINT "auth_sessions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "auth_sessions" ADD CONSTRAINT "auth_sessions_staff_id_backoffice_users_id_fk" FOREIGN KEY ("staff_id") REFERENCES "public"."backoffice_users"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS idx_auth_sessions_user_id ON auth_sessions(user_id);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS idx_auth_sessions_staff_id ON auth_sessions(staff_id);
@@ -0,0 +1,20 @@
+-- 0038: TOTP two-factor authentication for backoffice staff
+
+ALTER TABLE "backoffice_users" ADD COLUMN IF NOT EXISTS "totp_secret" text;
+--> statement-breakpoint
+ALTER TABLE "backoffice_users" ADD COLUMN IF NOT EXISTS "totp_enabled_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "backoffice_users" ADD COLUMN IF NOT EXISTS "totp_last_used_step" integer;
+--> statement-breakpoint
+ALTER TABLE "backoffice_users" ADD COLUMN IF NOT EXISTS "totp_recovery_codes" jsonb DEFAULT '[]'::jsonb;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "staff_two_factor_policies" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "role" "staff_role" NOT NULL,
+  "required" boolean DEFAULT false NOT NULL,
+  "updated_by" integer,
+  "updated_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "staff_two_factor_policies_role_unique" UNIQUE("role")
+);
+--> statement-breakpoint
+ALTER TABLE "staff_two_factor_policies" ADD CONSTRAINT "staff_two_factor_policies_updated_by_backoffice_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."backoffice_users"("id") ON DELETE set null ON UPDATE no action;
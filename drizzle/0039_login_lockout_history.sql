@@ -0,0 +1,37 @@
+-- 0039: Per-account login lockout and login history
+
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "failed_login_attempts" integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "lockout_count" integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "locked_until" timestamp;
+--> statement-breakpoint
+ALTER TABLE "backoffice_users" ADD COLUMN IF NOT EXISTS "failed_login_attempts" integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "backoffice_users" ADD COLUMN IF NOT EXISTS "lockout_count" integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "backoffice_users" ADD COLUMN IF NOT EXISTS "locked_until" timestamp;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "login_history" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "audience" varchar(20) NOT NULL,
+  "user_id" integer,
+  "staff_id" integer,
+  "identifier" varchar(255) NOT NULL,
+  "success" boolean NOT NULL,
+  "failure_reason" varchar(30),
+  "new_device" boolean DEFAULT false NOT NULL,
+  "ip_address" varchar(45),
+  "user_agent" varchar(500),
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "login_history" ADD CONSTRAINT "login_history_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "login_history" ADD CONSTRAINT "login_history_staff_id_backoffice_users_id_fk" FOREIGN KEY ("staff_id") REFERENCES "public"."backoffice_users"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS idx_login_history_user_id ON login_history(user_id);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS idx_login_history_staff_id ON login_history(staff_id);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS idx_login_history_ip_address ON login_history(ip_address);
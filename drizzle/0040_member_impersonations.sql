@@ -0,0 +1,35 @@
+-- 0040: Audited, time-boxed member impersonation
+
+CREATE TABLE IF NOT EXISTS "member_impersonations" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "staff_id" integer,
+  "staff_email" varchar(255) NOT NULL,
+  "user_id" integer,
+  "user_email" varchar(255) NOT NULL,
+  "reason" text NOT NULL,
+  "ip_address" varchar(45),
+  "started_at" timestamp,
+  "expires_at" timestamp NOT NULL,
+  "ended_at" timestamp,
+  "end_reason" varchar(20),
+  "ended_by" integer,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "member_impersonations" ADD CONSTRAINT "member_impersonations_staff_id_backoffice_users_id_fk" FOREIGN KEY ("staff_id") REFERENCES "public"."backoffice_users"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "member_impersonations" ADD CONSTRAINT "member_impersonations_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "member_impersonations" ADD CONSTRAINT "member_impersonations_ended_by_backoffice_users_id_fk" FOREIGN KEY ("ended_by") REFERENCES "public"."backoffice_users"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS idx_member_impersonations_staff_id ON member_impersonations(staff_id);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS idx_member_impersonations_user_id ON member_impersonations(user_id);
+--> statement-breakpoint
+ALTER TABLE "sso_tokens" ADD COLUMN IF NOT EXISTS "impersonation_id" integer;
+--> statement-breakpoint
+ALTER TABLE "sso_tokens" ADD CONSTRAINT "sso_tokens_impersonation_id_member_impersonations_id_fk" FOREIGN KEY ("impersonation_id") REFERENCES "public"."member_impersonations"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "auth_sessions" ADD COLUMN IF NOT EXISTS "impersonation_id" integer;
+--> statement-breakpoint
+ALTER TABLE "auth_sessions" ADD CONSTRAINT "auth_sessions_impersonation_id_member_impersonations_id_fk" FOREIGN KEY ("impersonation_id") REFERENCES "public"."member_impersonations"("id") ON DELETE set null ON UPDATE no action;
@@ -0,0 +1,5 @@
+-- 0041: Settlement lines keep their own provider id so re-uploads are recognised per line
+
+ALTER TABLE "settlement_lines" ADD COLUMN IF NOT EXISTS "line_reference" varchar(255);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS idx_settlement_lines_line_reference ON settlement_lines(line_reference);
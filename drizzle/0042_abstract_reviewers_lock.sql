@@ -0,0 +1,8 @@
+-- 0042: Reviewer assignment lock moves from the assignment rows to the abstract
+
+ALTER TABLE "abstracts" ADD COLUMN IF NOT EXISTS "reviewers_locked" boolean DEFAULT false NOT NULL;
+--> statement-breakpoint
+UPDATE "abstracts" SET "reviewers_locked" = true
+WHERE "id" IN (SELECT "abstract_id" FROM "abstract_reviewer_assignments" WHERE "is_locked" = true);
+--> statement-breakpoint
+ALTER TABLE "abstract_reviewer_assignments" DROP COLUMN IF EXISTS "is_locked";
@@ -0,0 +1,3 @@
+-- 0043: Single-use 2FA login challenges (the nonce of the open challenge per staff member)
+
+ALTER TABLE "backoffice_users" ADD COLUMN IF NOT EXISTS "login_challenge_nonce" varchar(64);
@@ -8,11 +8,42 @@
 export const BCRYPT_ROUNDS = 12;
 
 /**
- * JWT token expiration time
+ * Access token (JWT) expiration time. Kept short so revoking a session takes
+ * effect quickly; clients renew it with their refresh token.
  */
-export const JWT_EXPIRY = "7d";
+export const JWT_EXPIRY = "15m";
 
 /**
- * Session expiration time (in milliseconds)
+ * Session (refresh token) expiration time (in milliseconds), extended on every refresh
  */
 export const SESSION_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+/**
+ * Failed sign-in attempts (wrong password or 2FA code) before an account is locked
+ */
+export const LOGIN_MAX_FAILED_ATTEMPTS = 5;
+
+/**
+ * Lockout duration (in milliseconds). Doubles with every further lockout in a
+ * row, up to LOGIN_LOCKOUT_MAX_MS; a successful sign-in starts over.
+ */
+export const LOGIN_LOCKOUT_BASE_MS = 15 * 60 * 1000; // 15 minutes
+export const LOGIN_LOCKOUT_MAX_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+/**
+ * Length of a member impersonation (in minutes) when the staff member does
+ * not choose one, and the longest allowed. The attendee session ends with it.
+ */
+export const IMPERSONATION_DEFAULT_MINUTES = 30;
+export const IMPERSONATION_MAX_MINUTES = 120;
+
+/**
+ * JWT `aud` claim. Attendee and staff tokens share JWT_SECRET, so the audience
+ * is what keeps an attendee token out of the backoffice and vice versa.
+ */
+export const TOKEN_AUDIENCE = {
+  attendee: "attendee",
+  backoffice: "backoffice",
+} as const;
+
+export type TokenAudience = (typeof TOKEN_AUDIENCE)[keyof typeof TOKEN_AUDIENCE];
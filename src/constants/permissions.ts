@@ -0,0 +1,112 @@
+// Backoffice Permissions
+
+import type { StaffRole } from "../types/index.js";
+
+/**
+ * Every permission a backoffice route can require. Routes declare one in
+ * `config.permission`; see utils/authorization.ts for how it is enforced.
+ */
+export const PERMISSIONS = [
+  "events:read",
+  "events:write",
+  "sessions:read",
+  "speakers:read",
+  "speakers:write",
+  "tickets:read",
+  "registrations:read",
+  "registrations:write",
+  "abstracts:read",
+  "abstracts:review",
+  "abstracts:manage",
+  "checkins:read",
+  "checkins:write",
+  "members:read",
+  "members:write",
+  "members:impersonate",
+  "verifications:read",
+  "verifications:write",
+  "orders:read",
+  "orders:write",
+  "promo_codes:read",
+  "promo_codes:write",
+  "reports:read",
+  "emails:send",
+  "certificates:send",
+  "waitlist:manage",
+  "seat_holds:read",
+  "payments:reconcile",
+  "exchange_rates:read",
+  "exchange_rates:write",
+  "staff:manage",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+/**
+ * Permission matrix. Admins hold every permission and see every event; all
+ * other roles are further limited to the events in staff_event_assignments.
+ */
+export const ROLE_PERMISSIONS: Record<StaffRole, readonly Permission[]> = {
+  admin: PERMISSIONS,
+  organizer: PERMISSIONS.filter(
+    (permission) =>
+      permission !== "members:impersonate" &&
+      permission !== "payments:reconcile" &&
+      permission !== "exchange_rates:write" &&
+      permission !== "staff:manage"
+  ),
+  reviewer: ["events:read", "abstracts:read", "abstracts:review"],
+  staff: [
+    "events:read",
+    "sessions:read",
+    "speakers:read",
+    "tickets:read",
+    "registrations:read",
+    "checkins:read",
+    "checkins:write",
+    "members:read",
+    "orders:read",
+  ],
+  verifier: ["events:read", "members:read", "verifications:read", "verifications:write"],
+};
+
+export function hasPermission(role: string, permission: Permission): boolean {
+  const granted = ROLE_PERMISSIONS[role as StaffRole];
+  return granted ? granted.includes(permission) : false;
+}
+
+/** Roles that are not limited to their assigned events */
+export function seesAllEvents(role: string): boolean {
+  return role === "admin";
+}
+
+/**
+ * Permissions over data that belongs to one event. A backoffice route that
+ * requires one of these and addresses a resource by id must declare
+ * `config.eventOf` so the resource's event can be checked against the
+ * staff member's assignments.
+ */
+export const EVENT_SCOPED_PERMISSIONS: readonly Permission[] = [
+  "events:read",
+  "events:write",
+  "sessions:read",
+  "tickets:read",
+  "registrations:read",
+  "registrations:write",
+  "abstracts:read",
+  "abstracts:review",
+  "abstracts:manage",
+  "checkins:read",
+  "checkins:write",
+  "members:impersonate",
+  "orders:read",
+  "orders:write",
+  "promo_codes:read",
+  "promo_codes:write",
+  "waitlist:manage",
+  "seat_holds:read",
+];
+
+export function isEventScoped(permission: Permission): boolean {
+  return EVENT_SCOPED_PERMISSIONS.includes(permission);
+}
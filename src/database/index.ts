@@ -17,4 +17,7 @@ const client = postgres(connectionString, {
 });
 export const db = drizzle(client, { schema });
 
+/** The database or an open transaction, for helpers that run inside the caller's transaction */
+export type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
 export * from "./schema.js";
@@ -10,6 +10,8 @@ import {
   boolean,
   jsonb,
   pgEnum,
+  unique,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 
@@ -51,6 +53,7 @@ export const orderStatusEnum = pgEnum("order_status", [
   "pending",
   "paid",
   "cancelled",
+  "refunded",
 ]);
 export const orderItemTypeEnum = pgEnum("order_item_type", ["ticket", "addon"]);
 export const registrationStatusEnum = pgEnum("registration_status", [
@@ -73,7 +76,12 @@ export const abstractStatusEnum = pgEnum("abstract_status", [
   "pending",
   "accepted",
   "rejected",
+  "revision_requested",
 ]);
+export const abstractReviewRecommendationEnum = pgEnum(
+  "abstract_review_recommendation",
+  ["accept", "reject", "revise"],
+);
 export const speakerTypeEnum = pgEnum("speaker_type", [
   "keynote",
   "panelist",
@@ -118,6 +126,11 @@ export const users = pgTable("users", {
   status: accountStatusEnum("status").notNull().default("pending_approval"),
   rejectionReason: text("rejection_reason"),
   resubmissionCount: integer("resubmission_count").notNull().default(0),
+  // Login lockout: failures since the last successful sign-in, and how many
+  // lockouts in a row (each one lasts longer)
+  failedLoginAttempts: integer("failed_login_attempts").notNull().default(0),
+  lockoutCount: integer("lockout_count").notNull().default(0),
+  lockedUntil: timestamp("locked_until"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -149,6 +162,10 @@ export const ssoTokens = pgTable("sso_tokens", {
   used: boolean("used").default(false).notNull(),
   sourceApp: varchar("source_app", { length: 50 }).notNull(),
   targetApp: varchar("target_app", { length: 50 }),
+  // Set when the token was issued by a staff member to impersonate the user
+  impersonationId: integer("impersonation_id").references(() => memberImpersonations.id, {
+    onDelete: "cascade",
+  }),
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
 });
 
@@ -162,6 +179,8 @@ export const backofficeUsers = pgTable("backoffice_users", {
   role: staffRoleEnum("role").notNull(),
   firstName: varchar("first_name", { length: 100 }).notNull(),
   lastName: varchar("last_name", { length: 100 }).notNull(),
+  // Used for reviewer conflict-of-interest detection
+  institution: varchar("institution", { length: 255 }),
   conferenceCode: varchar("conference_code", { length: 100 }),
   // Categories that this reviewer is responsible for (only applicable for role = 'reviewer')
   assignedCategories: jsonb("assigned_categories")
@@ -171,7 +190,108 @@ export const backofficeUsers = pgTable("backoffice_users", {
     .$type<string[]>()
     .default([]),
   isActive: boolean("is_active").notNull().default(true),
+  // TOTP two-factor: secret is AES-GCM encrypted; set but not enabled while enrolment is pending
+  totpSecret: text("totp_secret"),
+  totpEnabledAt: timestamp("totp_enabled_at"),
+  // Last accepted time step, so a code cannot be replayed within its window
+  totpLastUsedStep: integer("totp_last_used_step"),
+  // SHA-256 hashes of the unused recovery codes
+  totpRecoveryCodes: jsonb("totp_recovery_codes")
+    .$type<string[]>()
+    .default([]),
+  // Nonce of the open login challenge; cleared when it is used, so a challenge signs in once
+  loginChallengeNonce: varchar("login_challenge_nonce", { length: 64 }),
+  // Login lockout: failures since the last successful sign-in, and how many
+  // lockouts in a row (each one lasts longer)
+  failedLoginAttempts: integer("failed_login_attempts").notNull().default(0),
+  lockoutCount: integer("lockout_count").notNull().default(0),
+  lockedUntil: timestamp("locked_until"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// --------------------------------------------------------------------------
+// 2C. AUTH SESSIONS (one per login; holds the rotating refresh token)
+// --------------------------------------------------------------------------
+export const authSessions = pgTable("auth_sessions", {
+  id: serial("id").primaryKey(),
+  // 'attendee' (userId set) | 'backoffice' (staffId set)
+  audience: varchar("audience", { length: 20 }).notNull(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
+  staffId: integer("staff_id").references(() => backofficeUsers.id, { onDelete: "cascade" }),
+  // SHA-256 of the current refresh token; the previous one is kept to detect reuse
+  refreshTokenHash: varchar("refresh_token_hash", { length: 64 }).notNull().unique(),
+  previousRefreshTokenHash: varchar("previous_refresh_token_hash", { length: 64 }),
+  userAgent: varchar("user_agent", { length: 500 }),
+  ipAddress: varchar("ip_address", { length: 45 }),
+  expiresAt: timestamp("expires_at").notNull(),
+  lastUsedAt: timestamp("last_used_at").notNull().defaultNow(),
+  revokedAt: timestamp("revoked_at"),
+  // 'logout' | 'logout_all' | 'revoked' | 'password_reset' | 'password_changed'
+  // | 'role_changed' | 'deactivated' | 'refresh_token_reused' | 'two_factor_reset'
+  // | 'impersonation_ended'
+  revokedReason: varchar("revoked_reason", { length: 30 }),
+  // Attendee session opened by a staff member impersonating the user (ends with the impersonation)
+  impersonationId: integer("impersonation_id").references(() => memberImpersonations.id, {
+    onDelete: "set null",
+  }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// --------------------------------------------------------------------------
+// 2C2. LOGIN HISTORY (every password sign-in attempt, attendee and staff)
+// --------------------------------------------------------------------------
+export const loginHistory = pgTable("login_history", {
+  id: serial("id").primaryKey(),
+  // 'attendee' (userId set when the account exists) | 'backoffice' (staffId set)
+  audience: varchar("audience", { length: 20 }).notNull(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
+  staffId: integer("staff_id").references(() => backofficeUsers.id, { onDelete: "cascade" }),
+  // Identifier typed at sign-in (email or pharmacy license ID)
+  identifier: varchar("identifier", { length: 255 }).notNull(),
+  success: boolean("success").notNull(),
+  // 'unknown_account' | 'invalid_password' | 'invalid_second_factor' | 'locked' | 'inactive'
+  failureReason: varchar("failure_reason", { length: 30 }),
+  // Successful sign-in from a user agent this account had not signed in with before
+  newDevice: boolean("new_device").notNull().default(false),
+  ipAddress: varchar("ip_address", { length: 45 }),
+  userAgent: varchar("user_agent", { length: 500 }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// --------------------------------------------------------------------------
+// 2C3. MEMBER IMPERSONATIONS (audit of staff signing in as an attendee)
+// --------------------------------------------------------------------------
+export const memberImpersonations = pgTable("member_impersonations", {
+  id: serial("id").primaryKey(),
+  // Emails are copied so the record survives deletion of either account
+  staffId: integer("staff_id").references(() => backofficeUsers.id, { onDelete: "set null" }),
+  staffEmail: varchar("staff_email", { length: 255 }).notNull(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+  userEmail: varchar("user_email", { length: 255 }).notNull(),
+  reason: text("reason").notNull(),
+  // Staff member's IP when the impersonation was requested
+  ipAddress: varchar("ip_address", { length: 45 }),
+  // Set when the one-time sign-in link is used
+  startedAt: timestamp("started_at"),
+  // Hard end of the time box; the attendee session cannot outlive it
+  expiresAt: timestamp("expires_at").notNull(),
+  // Set when ended early; otherwise the impersonation ends at expiresAt
+  endedAt: timestamp("ended_at"),
+  // 'ended_by_staff' | 'logout'
+  endReason: varchar("end_reason", { length: 20 }),
+  endedBy: integer("ended_by").references(() => backofficeUsers.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// --------------------------------------------------------------------------
+// 2D. STAFF TWO-FACTOR POLICIES (roles that must sign in with TOTP)
+// --------------------------------------------------------------------------
+export const staffTwoFactorPolicies = pgTable("staff_two_factor_policies", {
+  id: serial("id").primaryKey(),
+  role: staffRoleEnum("role").notNull().unique(),
+  required: boolean("required").notNull().default(false),
+  updatedBy: integer("updated_by").references(() => backofficeUsers.id, { onDelete: "set null" }),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
@@ -200,6 +320,27 @@ export const events = pgTable("events", {
   shortName: varchar("short_name", { length: 100 }),
   abstractStartDate: timestamp("abstract_start_date"),
   abstractEndDate: timestamp("abstract_end_date"),
+  // Per-author submission limits (null = unlimited)
+  maxAbstractsPerAuthor: integer("max_abstracts_per_author"),
+  maxOralAbstractsPerAuthor: integer("max_oral_abstracts_per_author"),
+  maxPosterAbstractsPerAuthor: integer("max_poster_abstracts_per_author"),
+  // Word-count / structure rules for abstract submissions (null = defaults,
+  // see resolveAbstractValidationProfile in schemas/abstracts.schema.ts)
+  abstractValidationProfile: jsonb("abstract_validation_profile").$type<{
+    maxTotalWords?: number | null;
+    sectionWordLimits?: Partial<
+      Record<"background" | "objective" | "methods" | "results" | "conclusion", number>
+    >;
+    minKeywords?: number | null;
+    maxKeywords?: number | null;
+    titleMinLength?: number | null;
+    titleMaxLength?: number | null;
+    bannedCharacters?: string[];
+  }>(),
+  // Double-blind review: hide author identity from reviewers
+  blindReview: boolean("blind_review").notNull().default(false),
+  // Currencies tickets of this event are priced and sold in
+  currencies: jsonb("currencies").$type<string[]>().notNull().default(["THB", "USD"]),
   documents: jsonb("documents")
     .$type<{ name: string; url: string }[]>()
     .default([]),
@@ -363,7 +504,7 @@ export const promoCodeUsages = pgTable("promo_code_usages", {
     .references(() => users.id),
   orderId: integer("order_id")
     .references(() => orders.id),
-  status: varchar("status", { length: 20 }).notNull().default("pending"), // 'pending' | 'used' | 'cancelled' | 'expired'
+  status: varchar("status", { length: 20 }).notNull().default("pending"), // 'pending' | 'used' | 'cancelled' | 'expired' | 'refunded'
   discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }),
   reservedAt: timestamp("reserved_at").notNull().defaultNow(),
   expiresAt: timestamp("expires_at").notNull(),
@@ -389,6 +530,10 @@ export const orders = pgTable("orders", {
   promoDiscountValue: decimal("promo_discount_value", { precision: 10, scale: 2 }),
   totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
   currency: varchar("currency", { length: 3 }).notNull().default("THB"),
+  // Currency the payment was actually charged in (null = same as currency) and
+  // the rate used: 1 unit of currency = exchangeRate units of chargeCurrency
+  chargeCurrency: varchar("charge_currency", { length: 3 }),
+  exchangeRate: decimal("exchange_rate", { precision: 12, scale: 6 }),
   status: orderStatusEnum("status").notNull().default("pending"),
   needTaxInvoice: boolean("need_tax_invoice").notNull().default(false),
   taxName: varchar("tax_name", { length: 200 }),
@@ -399,7 +544,13 @@ export const orders = pgTable("orders", {
   taxProvince: varchar("tax_province", { length: 100 }),
   taxPostalCode: varchar("tax_postal_code", { length: 20 }),
   taxFullAddress: text("tax_full_address"),
+  // Buyer's branch printed on the tax invoice: '00000' = head office
+  taxBranchCode: varchar("tax_branch_code", { length: 5 }),
   taxCreatedAt: timestamp("tax_created_at"),
+  // Group order: N seats of one ticket type, registrations created as seats are claimed
+  isGroupOrder: boolean("is_group_order").notNull().default(false),
+  // Invoice / bank transfer: unpaid orders past this date are cancelled and their seats released
+  invoiceDueAt: timestamp("invoice_due_at"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -451,6 +602,53 @@ export const registrationSessions = pgTable("registration_sessions", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// History of registrations handed over to another attendee. The registration
+// row keeps its id / orderId; regCode is re-issued so the old QR stops working.
+export const registrationTransfers = pgTable("registration_transfers", {
+  id: serial("id").primaryKey(),
+  registrationId: integer("registration_id")
+    .notNull()
+    .references(() => registrations.id, { onDelete: "cascade" }),
+  fromUserId: integer("from_user_id").references(() => users.id),
+  fromEmail: varchar("from_email", { length: 255 }).notNull(),
+  fromName: varchar("from_name", { length: 310 }).notNull(),
+  toUserId: integer("to_user_id").references(() => users.id),
+  toEmail: varchar("to_email", { length: 255 }).notNull(),
+  toName: varchar("to_name", { length: 310 }).notNull(),
+  previousRegCode: varchar("previous_reg_code", { length: 50 }).notNull(),
+  newRegCode: varchar("new_reg_code", { length: 50 }).notNull(),
+  transferredBy: integer("transferred_by").references(() => backofficeUsers.id), // staff transfer
+  requestedByUserId: integer("requested_by_user_id").references(() => users.id), // self-service transfer
+  note: text("note"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// One row per seat of a paid group order. The buyer invites an attendee by
+// email; the registration is created when the invitee claims the seat.
+export const groupOrderSeats = pgTable("group_order_seats", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id")
+    .notNull()
+    .references(() => orders.id, { onDelete: "cascade" }),
+  eventId: integer("event_id")
+    .notNull()
+    .references(() => events.id),
+  ticketTypeId: integer("ticket_type_id")
+    .notNull()
+    .references(() => ticketTypes.id),
+  seatNumber: integer("seat_number").notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("unassigned"), // 'unassigned' | 'invited' | 'claimed' | 'cancelled'
+  inviteEmail: varchar("invite_email", { length: 255 }),
+  inviteFirstName: varchar("invite_first_name", { length: 100 }),
+  inviteLastName: varchar("invite_last_name", { length: 100 }),
+  inviteToken: varchar("invite_token", { length: 64 }).unique(),
+  invitedAt: timestamp("invited_at"),
+  registrationId: integer("registration_id").references(() => registrations.id),
+  claimedByUserId: integer("claimed_by_user_id").references(() => users.id),
+  claimedAt: timestamp("claimed_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 export const orderItems = pgTable("order_items", {
   id: serial("id").primaryKey(),
   orderId: integer("order_id")
@@ -485,6 +683,202 @@ export const payments = pgTable("payments", {
   paidAt: timestamp("paid_at"),
 });
 
+// Full or partial refund of a paid order. Stripe refunds are issued through the
+// API; Pay Solutions / KTB refunds are done by bank transfer and recorded here.
+export const refunds = pgTable("refunds", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id")
+    .notNull()
+    .references(() => orders.id),
+  paymentId: integer("payment_id")
+    .notNull()
+    .references(() => payments.id),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  currency: varchar("currency", { length: 3 }).notNull(),
+  paymentProvider: varchar("payment_provider", { length: 30 }).notNull(),
+  method: varchar("method", { length: 20 }).notNull(), // 'stripe' | 'manual'
+  status: varchar("status", { length: 20 }).notNull().default("succeeded"), // 'pending' | 'succeeded' | 'failed'
+  providerRefundId: varchar("provider_refund_id", { length: 255 }),
+  reference: varchar("reference", { length: 255 }),
+  reason: text("reason").notNull(),
+  registrationAction: varchar("registration_action", { length: 10 }).notNull(), // 'cancel' | 'keep'
+  orderItemIds: jsonb("order_item_ids").$type<number[]>().notNull().default([]),
+  creditNoteNumber: varchar("credit_note_number", { length: 50 }).notNull().unique(),
+  // Tax invoice the credit note adjusts (null when none had been issued)
+  taxInvoiceId: integer("tax_invoice_id").references(() => taxInvoices.id),
+  refundedBy: integer("refunded_by").references(() => backofficeUsers.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Exchange rate between two currencies from effectiveFrom until the next row of
+// the same pair takes over: 1 baseCurrency = rate quoteCurrency.
+export const exchangeRates = pgTable(
+  "exchange_rates",
+  {
+    id: serial("id").primaryKey(),
+    baseCurrency: varchar("base_currency", { length: 3 }).notNull(),
+    quoteCurrency: varchar("quote_currency", { length: 3 }).notNull(),
+    rate: decimal("rate", { precision: 12, scale: 6 }).notNull(),
+    effectiveFrom: timestamp("effective_from").notNull(),
+    note: text("note"),
+    createdBy: integer("created_by").references(() => backofficeUsers.id),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => [
+    unique("exchange_rates_pair_effective_from_unique").on(
+      table.baseCurrency,
+      table.quoteCurrency,
+      table.effectiveFrom,
+    ),
+  ],
+);
+
+// Full tax invoice (ใบกำกับภาษีเต็มรูป) of a paid order. The buyer's details and
+// the VAT split are snapshotted at issue; a correction cancels the invoice and
+// issues a new number that references it (replacesInvoiceId).
+export const taxInvoices = pgTable("tax_invoices", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id")
+    .notNull()
+    .references(() => orders.id),
+  documentNumber: varchar("document_number", { length: 30 }).notNull().unique(),
+  fiscalYear: integer("fiscal_year").notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("issued"), // 'issued' | 'cancelled'
+  buyerName: varchar("buyer_name", { length: 200 }).notNull(),
+  buyerTaxId: varchar("buyer_tax_id", { length: 50 }),
+  buyerBranchCode: varchar("buyer_branch_code", { length: 5 }),
+  buyerAddress: text("buyer_address"),
+  currency: varchar("currency", { length: 3 }).notNull(),
+  amountBeforeVat: decimal("amount_before_vat", { precision: 10, scale: 2 }).notNull(),
+  vatRate: decimal("vat_rate", { precision: 5, scale: 2 }).notNull(),
+  vatAmount: decimal("vat_amount", { precision: 10, scale: 2 }).notNull(),
+  totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
+  replacesInvoiceId: integer("replaces_invoice_id").references((): AnyPgColumn => taxInvoices.id),
+  cancelReason: text("cancel_reason"),
+  cancelledAt: timestamp("cancelled_at"),
+  issuedBy: integer("issued_by").references(() => backofficeUsers.id),
+  issuedAt: timestamp("issued_at").notNull().defaultNow(),
+});
+
+// Last number handed out per document type and fiscal year. Numbers are taken
+// inside the issuing transaction, so a rollback does not leave a gap.
+export const taxDocumentSequences = pgTable(
+  "tax_document_sequences",
+  {
+    id: serial("id").primaryKey(),
+    documentType: varchar("document_type", { length: 20 }).notNull(), // 'tax_invoice' | 'credit_note'
+    fiscalYear: integer("fiscal_year").notNull(),
+    lastNumber: integer("last_number").notNull().default(0),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => [
+    unique("tax_document_sequences_type_year_unique").on(
+      table.documentType,
+      table.fiscalYear,
+    ),
+  ],
+);
+
+// Audit trail of an order: every status transition (and rejected attempt)
+// with where it came from. idempotencyKey de-duplicates provider callbacks.
+export const orderEvents = pgTable("order_events", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id")
+    .notNull()
+    .references(() => orders.id, { onDelete: "cascade" }),
+  paymentId: integer("payment_id").references(() => payments.id, { onDelete: "set null" }),
+  type: varchar("type", { length: 30 }).notNull(), // 'created' | 'status_changed' | 'transition_rejected' | 'note'
+  fromStatus: varchar("from_status", { length: 20 }),
+  toStatus: varchar("to_status", { length: 20 }),
+  paymentStatus: varchar("payment_status", { length: 20 }),
+  source: varchar("source", { length: 30 }).notNull(), // see OrderEventSource
+  staffId: integer("staff_id").references(() => backofficeUsers.id),
+  userId: integer("user_id").references(() => users.id),
+  providerRef: varchar("provider_ref", { length: 255 }),
+  payloadRef: varchar("payload_ref", { length: 255 }),
+  payload: jsonb("payload"),
+  idempotencyKey: varchar("idempotency_key", { length: 255 }).unique(),
+  note: text("note"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// One reconciliation pass comparing local payments with the providers' records.
+export const paymentReconciliationRuns = pgTable("payment_reconciliation_runs", {
+  id: serial("id").primaryKey(),
+  trigger: varchar("trigger", { length: 20 }).notNull(), // 'manual' | 'script'
+  triggeredBy: integer("triggered_by").references(() => backofficeUsers.id),
+  status: varchar("status", { length: 20 }).notNull().default("running"), // 'running' | 'completed' | 'failed'
+  autoHeal: boolean("auto_heal").notNull().default(false),
+  filters: jsonb("filters"),
+  checkedCount: integer("checked_count").notNull().default(0),
+  mismatchCount: integer("mismatch_count").notNull().default(0),
+  healedCount: integer("healed_count").notNull().default(0),
+  error: text("error"),
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  finishedAt: timestamp("finished_at"),
+});
+
+export const paymentReconciliationItems = pgTable("payment_reconciliation_items", {
+  id: serial("id").primaryKey(),
+  runId: integer("run_id")
+    .notNull()
+    .references(() => paymentReconciliationRuns.id, { onDelete: "cascade" }),
+  // Null for provider payments that have no local row (orphans)
+  paymentId: integer("payment_id").references(() => payments.id),
+  orderId: integer("order_id").references(() => orders.id),
+  paymentProvider: varchar("payment_provider", { length: 30 }).notNull(),
+  providerRef: varchar("provider_ref", { length: 255 }),
+  // 'paid_not_recorded' | 'status_mismatch' | 'amount_mismatch' | 'currency_mismatch'
+  // | 'missing_at_provider' | 'orphaned_provider_payment' | 'provider_error'
+  kind: varchar("kind", { length: 30 }).notNull(),
+  localStatus: varchar("local_status", { length: 20 }),
+  providerStatus: varchar("provider_status", { length: 50 }),
+  localAmount: decimal("local_amount", { precision: 10, scale: 2 }),
+  providerAmount: decimal("provider_amount", { precision: 10, scale: 2 }),
+  currency: varchar("currency", { length: 3 }),
+  details: jsonb("details"),
+  healed: boolean("healed").notNull().default(false),
+  healError: text("heal_error"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Settlement / payout CSV uploaded from a payment provider.
+export const settlementImports = pgTable("settlement_imports", {
+  id: serial("id").primaryKey(),
+  paymentProvider: varchar("payment_provider", { length: 30 }).notNull(), // 'stripe' | 'pay_solutions' | 'ktb_fastpay'
+  fileName: varchar("file_name", { length: 255 }).notNull(),
+  uploadedBy: integer("uploaded_by").references(() => backofficeUsers.id),
+  lineCount: integer("line_count").notNull().default(0),
+  matchedCount: integer("matched_count").notNull().default(0),
+  unmatchedCount: integer("unmatched_count").notNull().default(0),
+  duplicateCount: integer("duplicate_count").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const settlementLines = pgTable("settlement_lines", {
+  id: serial("id").primaryKey(),
+  importId: integer("import_id")
+    .notNull()
+    .references(() => settlementImports.id, { onDelete: "cascade" }),
+  paymentProvider: varchar("payment_provider", { length: 30 }).notNull(),
+  rowNumber: integer("row_number").notNull(),
+  reference: varchar("reference", { length: 255 }).notNull(),
+  // The line's own provider id (balance transaction / refund id), used to spot re-uploads
+  lineReference: varchar("line_reference", { length: 255 }),
+  transactionDate: timestamp("transaction_date"),
+  channel: varchar("channel", { length: 50 }),
+  currency: varchar("currency", { length: 3 }),
+  grossAmount: decimal("gross_amount", { precision: 10, scale: 2 }).notNull(),
+  feeAmount: decimal("fee_amount", { precision: 10, scale: 2 }).notNull(),
+  netAmount: decimal("net_amount", { precision: 10, scale: 2 }).notNull(),
+  paymentId: integer("payment_id").references(() => payments.id),
+  // 'matched' | 'unmatched' | 'duplicate' (payment already settled by an earlier line)
+  matchStatus: varchar("match_status", { length: 20 }).notNull(),
+  raw: jsonb("raw"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 export const registrationAddons = pgTable("registration_addons", {
   id: serial("id").primaryKey(),
   registrationId: integer("registration_id")
@@ -530,6 +924,57 @@ export const checkInScanLogs = pgTable("check_in_scan_logs", {
   scannedBy: integer("scanned_by").references(() => backofficeUsers.id),
 });
 
+/**
+ * Inventory held by a pending order between create-intent and payment, so
+ * concurrent checkouts cannot oversell. Active, unexpired holds count
+ * against ticketTypes.quota / sessions.maxCapacity.
+ */
+export const seatHolds = pgTable("seat_holds", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id")
+    .notNull()
+    .references(() => orders.id, { onDelete: "cascade" }),
+  userId: integer("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  eventId: integer("event_id")
+    .notNull()
+    .references(() => events.id, { onDelete: "cascade" }),
+  ticketTypeId: integer("ticket_type_id").references(() => ticketTypes.id, { onDelete: "cascade" }),
+  sessionId: integer("session_id").references(() => sessions.id, { onDelete: "cascade" }),
+  quantity: integer("quantity").notNull().default(1),
+  status: varchar("status", { length: 20 }).notNull().default("active"), // 'active' | 'converted' | 'released' | 'expired'
+  expiresAt: timestamp("expires_at").notNull(),
+  releasedAt: timestamp("released_at"),
+  releaseReason: varchar("release_reason", { length: 20 }), // 'cancelled' | 'failed' | 'superseded'
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+/**
+ * Queue for sold-out ticket types and full sessions (exactly one of
+ * ticketTypeId / sessionId is set). When a seat frees up the next waiting
+ * entry is "offered": a purchase hold until holdExpiresAt.
+ */
+export const waitlistEntries = pgTable("waitlist_entries", {
+  id: serial("id").primaryKey(),
+  eventId: integer("event_id")
+    .notNull()
+    .references(() => events.id, { onDelete: "cascade" }),
+  ticketTypeId: integer("ticket_type_id").references(() => ticketTypes.id, { onDelete: "cascade" }),
+  sessionId: integer("session_id").references(() => sessions.id, { onDelete: "cascade" }),
+  userId: integer("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("waiting"), // 'waiting' | 'offered' | 'purchased' | 'expired' | 'cancelled'
+  offeredAt: timestamp("offered_at"),
+  holdExpiresAt: timestamp("hold_expires_at"),
+  purchasedAt: timestamp("purchased_at"),
+  orderId: integer("order_id").references(() => orders.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
 // --------------------------------------------------------------------------
 // 7. ABSTRACTS & SPEAKERS
 // --------------------------------------------------------------------------
@@ -577,6 +1022,10 @@ export const abstracts = pgTable("abstracts", {
   conclusion: text("conclusion").notNull(),
   fullPaperUrl: varchar("full_paper_url", { length: 500 }),
   status: abstractStatusEnum("status").notNull().default("pending"),
+  // Bumped on every resubmission after a revision request (see abstract_versions)
+  currentVersion: integer("current_version").notNull().default(1),
+  // Reviewer assignments are frozen: the assignment engine and overrides leave them alone
+  reviewersLocked: boolean("reviewers_locked").notNull().default(false),
   presentationDate: date("presentation_date"),
   presentationRoom: varchar("presentation_room", { length: 255 }),
   presentationStartTime: varchar("presentation_start_time", { length: 10 }),
@@ -604,17 +1053,175 @@ export const abstractCoAuthors = pgTable("abstract_co_authors", {
   sortOrder: integer("sort_order").default(0),
 });
 
-export const abstractReviews = pgTable("abstract_reviews", {
+// One scored review per (abstract, reviewer, version). Scores are 1-5 per
+// criterion; totalScore is their sum and is what the organizer-facing summary
+// averages (current version only).
+export const abstractReviews = pgTable(
+  "abstract_reviews",
+  {
+    id: serial("id").primaryKey(),
+    abstractId: integer("abstract_id")
+      .notNull()
+      .references(() => abstracts.id, { onDelete: "cascade" }),
+    reviewerId: integer("reviewer_id")
+      .notNull()
+      .references(() => backofficeUsers.id, { onDelete: "cascade" }),
+    version: integer("version").notNull().default(1),
+    originalityScore: integer("originality_score").notNull(),
+    methodologyScore: integer("methodology_score").notNull(),
+    relevanceScore: integer("relevance_score").notNull(),
+    clarityScore: integer("clarity_score").notNull(),
+    totalScore: integer("total_score").notNull(),
+    recommendation: abstractReviewRecommendationEnum("recommendation").notNull(),
+    comment: text("comment"),
+    reviewedAt: timestamp("reviewed_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => [
+    unique("abstract_reviews_abstract_reviewer_version_unique").on(
+      table.abstractId,
+      table.reviewerId,
+      table.version,
+    ),
+  ],
+);
+
+// Snapshot of every submitted version of an abstract (v1 = original submission)
+export const abstractVersions = pgTable(
+  "abstract_versions",
+  {
+    id: serial("id").primaryKey(),
+    abstractId: integer("abstract_id")
+      .notNull()
+      .references(() => abstracts.id, { onDelete: "cascade" }),
+    version: integer("version").notNull(),
+    title: varchar("title", { length: 500 }).notNull(),
+    category: abstractCategoryEnum("category").notNull(),
+    presentationType: presentationTypeEnum("presentation_type").notNull(),
+    keywords: varchar("keywords", { length: 255 }),
+    background: text("background").notNull(),
+    objective: text("objective").notNull(),
+    methods: text("methods").notNull(),
+    results: text("results").notNull(),
+    conclusion: text("conclusion").notNull(),
+    fullPaperUrl: varchar("full_paper_url", { length: 500 }),
+    coAuthors: jsonb("co_authors")
+      .$type<
+        {
+          firstName: string;
+          middleName: string | null;
+          lastName: string;
+          email: string;
+          institution: string | null;
+          country: string | null;
+        }[]
+      >()
+      .default([]),
+    submittedAt: timestamp("submitted_at").notNull().defaultNow(),
+  },
+  (table) => [
+    unique("abstract_versions_abstract_version_unique").on(
+      table.abstractId,
+      table.version,
+    ),
+  ],
+);
+
+// Slot grid for the presentation scheduler. Each row is a block:
+// - oral:   one room on one date, cut into slotMinutes-long talks
+// - poster: a board number range shown on one date (with install/removal times)
+// `categories` restricts which abstract categories may go in (empty = any).
+export const presentationScheduleBlocks = pgTable("presentation_schedule_blocks", {
+  id: serial("id").primaryKey(),
+  eventId: integer("event_id")
+    .notNull()
+    .references(() => events.id, { onDelete: "cascade" }),
+  presentationType: presentationTypeEnum("presentation_type").notNull(),
+  label: varchar("label", { length: 255 }),
+  date: date("date").notNull(),
+  room: varchar("room", { length: 255 }),
+  startTime: varchar("start_time", { length: 10 }).notNull(),
+  endTime: varchar("end_time", { length: 10 }).notNull(),
+  slotMinutes: integer("slot_minutes"),
+  boardFrom: integer("board_from"),
+  boardTo: integer("board_to"),
+  installationStart: varchar("installation_start", { length: 10 }),
+  installationEnd: varchar("installation_end", { length: 10 }),
+  removalStart: varchar("removal_start", { length: 10 }),
+  removalEnd: varchar("removal_end", { length: 10 }),
+  categories: jsonb("categories").$type<string[]>().default([]),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Late-submission exception: lets one user submit until graceUntil even
+// though the event's abstract window is closed (or not yet open)
+export const abstractSubmissionOverrides = pgTable(
+  "abstract_submission_overrides",
+  {
+    id: serial("id").primaryKey(),
+    eventId: integer("event_id")
+      .notNull()
+      .references(() => events.id, { onDelete: "cascade" }),
+    userId: integer("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    graceUntil: timestamp("grace_until").notNull(),
+    note: text("note"),
+    grantedBy: integer("granted_by").references(() => backofficeUsers.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => [
+    unique("abstract_submission_overrides_event_user_unique").on(
+      table.eventId,
+      table.userId,
+    ),
+  ],
+);
+
+// Reviewers assigned to an abstract (auto-assigned or set by an organizer).
+// Assignments of abstracts with reviewersLocked are kept as-is when the
+// assignment engine is re-run.
+export const abstractReviewerAssignments = pgTable(
+  "abstract_reviewer_assignments",
+  {
+    id: serial("id").primaryKey(),
+    abstractId: integer("abstract_id")
+      .notNull()
+      .references(() => abstracts.id, { onDelete: "cascade" }),
+    reviewerId: integer("reviewer_id")
+      .notNull()
+      .references(() => backofficeUsers.id, { onDelete: "cascade" }),
+    source: varchar("source", { length: 20 }).notNull().default("auto"), // 'auto' | 'manual'
+    assignedBy: integer("assigned_by").references(() => backofficeUsers.id),
+    assignedAt: timestamp("assigned_at").notNull().defaultNow(),
+  },
+  (table) => [
+    unique("abstract_reviewer_assignments_abstract_reviewer_unique").on(
+      table.abstractId,
+      table.reviewerId,
+    ),
+  ],
+);
+
+// Final decisions taken by organizers/admins on an abstract (status history)
+export const abstractDecisions = pgTable("abstract_decisions", {
   id: serial("id").primaryKey(),
   abstractId: integer("abstract_id")
     .notNull()
-    .references(() => abstracts.id),
-  reviewerId: integer("reviewer_id")
-    .notNull()
-    .references(() => users.id),
+    .references(() => abstracts.id, { onDelete: "cascade" }),
+  previousStatus: abstractStatusEnum("previous_status").notNull(),
   status: abstractStatusEnum("status").notNull(),
   comment: text("comment"),
-  reviewedAt: timestamp("reviewed_at").notNull().defaultNow(),
+  // Snapshot of the review summary at the time of the decision
+  reviewCount: integer("review_count").notNull().default(0),
+  averageScore: decimal("average_score", { precision: 5, scale: 2 }),
+  decidedBy: integer("decided_by").references(() => backofficeUsers.id),
+  decidedAt: timestamp("decided_at").notNull().defaultNow(),
 });
 
 // --------------------------------------------------------------------------
@@ -651,6 +1258,31 @@ export type NewTicketType = typeof ticketTypes.$inferInsert;
 export type Order = typeof orders.$inferSelect;
 export type NewOrder = typeof orders.$inferInsert;
 
+export type Payment = typeof payments.$inferSelect;
+export type NewPayment = typeof payments.$inferInsert;
+
+export type Refund = typeof refunds.$inferSelect;
+export type NewRefund = typeof refunds.$inferInsert;
+
+export type ExchangeRate = typeof exchangeRates.$inferSelect;
+export type NewExchangeRate = typeof exchangeRates.$inferInsert;
+
+export type TaxInvoice = typeof taxInvoices.$inferSelect;
+export type NewTaxInvoice = typeof taxInvoices.$inferInsert;
+
+export type OrderEvent = typeof orderEvents.$inferSelect;
+export type NewOrderEvent = typeof orderEvents.$inferInsert;
+
+export type PaymentReconciliationRun = typeof paymentReconciliationRuns.$inferSelect;
+export type NewPaymentReconciliationRun = typeof paymentReconciliationRuns.$inferInsert;
+export type PaymentReconciliationItem = typeof paymentReconciliationItems.$inferSelect;
+export type NewPaymentReconciliationItem = typeof paymentReconciliationItems.$inferInsert;
+
+export type SettlementImport = typeof settlementImports.$inferSelect;
+export type NewSettlementImport = typeof settlementImports.$inferInsert;
+export type SettlementLine = typeof settlementLines.$inferSelect;
+export type NewSettlementLine = typeof settlementLines.$inferInsert;
+
 export type Registration = typeof registrations.$inferSelect;
 export type NewRegistration = typeof registrations.$inferInsert;
 
@@ -660,6 +1292,24 @@ export type NewSpeaker = typeof speakers.$inferInsert;
 export type Abstract = typeof abstracts.$inferSelect;
 export type NewAbstract = typeof abstracts.$inferInsert;
 
+export type AbstractReview = typeof abstractReviews.$inferSelect;
+export type NewAbstractReview = typeof abstractReviews.$inferInsert;
+
+export type AbstractVersion = typeof abstractVersions.$inferSelect;
+export type NewAbstractVersion = typeof abstractVersions.$inferInsert;
+
+export type PresentationScheduleBlock = typeof presentationScheduleBlocks.$inferSelect;
+export type NewPresentationScheduleBlock = typeof presentationScheduleBlocks.$inferInsert;
+
+export type AbstractSubmissionOverride = typeof abstractSubmissionOverrides.$inferSelect;
+export type NewAbstractSubmissionOverride = typeof abstractSubmissionOverrides.$inferInsert;
+
+export type AbstractReviewerAssignment = typeof abstractReviewerAssignments.$inferSelect;
+export type NewAbstractReviewerAssignment = typeof abstractReviewerAssignments.$inferInsert;
+
+export type AbstractDecision = typeof abstractDecisions.$inferSelect;
+export type NewAbstractDecision = typeof abstractDecisions.$inferInsert;
+
 export type BackofficeUser = typeof backofficeUsers.$inferSelect;
 export type NewBackofficeUser = typeof backofficeUsers.$inferInsert;
 
@@ -669,9 +1319,24 @@ export type NewStaffEventAssignment = typeof staffEventAssignments.$inferInsert;
 export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
 export type NewPasswordResetToken = typeof passwordResetTokens.$inferInsert;
 
+export type AuthSession = typeof authSessions.$inferSelect;
+export type NewAuthSession = typeof authSessions.$inferInsert;
+export type LoginHistoryEntry = typeof loginHistory.$inferSelect;
+export type NewLoginHistoryEntry = typeof loginHistory.$inferInsert;
+export type MemberImpersonation = typeof memberImpersonations.$inferSelect;
+export type NewMemberImpersonation = typeof memberImpersonations.$inferInsert;
+export type StaffTwoFactorPolicy = typeof staffTwoFactorPolicies.$inferSelect;
+export type NewStaffTwoFactorPolicy = typeof staffTwoFactorPolicies.$inferInsert;
+
 export type RegistrationSession = typeof registrationSessions.$inferSelect;
 export type NewRegistrationSession = typeof registrationSessions.$inferInsert;
 
+export type RegistrationTransfer = typeof registrationTransfers.$inferSelect;
+export type NewRegistrationTransfer = typeof registrationTransfers.$inferInsert;
+
+export type GroupOrderSeat = typeof groupOrderSeats.$inferSelect;
+export type NewGroupOrderSeat = typeof groupOrderSeats.$inferInsert;
+
 export type PromoCode = typeof promoCodes.$inferSelect;
 export type NewPromoCode = typeof promoCodes.$inferInsert;
 
@@ -681,6 +1346,12 @@ export type PromoCodeRuleItem = typeof promoCodeRuleItems.$inferSelect;
 export type PromoCodeUsage = typeof promoCodeUsages.$inferSelect;
 export type NewPromoCodeUsage = typeof promoCodeUsages.$inferInsert;
 
+export type SeatHold = typeof seatHolds.$inferSelect;
+export type NewSeatHold = typeof seatHolds.$inferInsert;
+
+export type WaitlistEntry = typeof waitlistEntries.$inferSelect;
+export type NewWaitlistEntry = typeof waitlistEntries.$inferInsert;
+
 // --------------------------------------------------------------------------
 // 8. RELATIONS
 // --------------------------------------------------------------------------
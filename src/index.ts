@@ -11,6 +11,9 @@ import path from "path";
 import { fileURLToPath } from "url";
 import fs from "fs";
 import { readThanompongSignaturePng, thanompongSignaturePublicPath } from "./services/emailAssets.js";
+import { TOKEN_AUDIENCE, type TokenAudience } from "./constants/auth.js";
+import { authorizeStaffRequest, requireRoutePermission } from "./utils/authorization.js";
+import { isSessionActive } from "./services/authSession.service.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -97,22 +100,40 @@ fastify.register(fastifyStatic, {
 // ============================================================================
 // Authentication Decorator
 // ============================================================================
-fastify.decorate("authenticate", async function (request: FastifyRequest, reply: FastifyReply) {
-  try {
-    await request.jwtVerify();
-  } catch (err) {
-    reply.status(401).send({
-      success: false,
-      code: "AUTH_UNAUTHORIZED",
-      error: "Unauthorized - Invalid or missing token",
-    });
-  }
-});
+// Tokens are only accepted by the audience they were issued for: attendee
+// routes reject staff tokens and the backoffice rejects attendee tokens.
+// The token's session must also still be active, so logout and revocation
+// take effect immediately rather than at token expiry.
+function verifyTokenFor(audience: TokenAudience) {
+  return async function (request: FastifyRequest, reply: FastifyReply) {
+    try {
+      await request.jwtVerify({ allowedAud: audience });
+    } catch (err) {
+      return reply.status(401).send({
+        success: false,
+        code: "AUTH_UNAUTHORIZED",
+        error: "Unauthorized - Invalid or missing token",
+      });
+    }
+
+    if (!(await isSessionActive(request.user.sid, audience))) {
+      return reply.status(401).send({
+        success: false,
+        code: "AUTH_SESSION_REVOKED",
+        error: "Session has ended - please sign in again",
+      });
+    }
+  };
+}
+
+fastify.decorate("authenticate", verifyTokenFor(TOKEN_AUDIENCE.attendee));
+fastify.decorate("authenticateStaff", verifyTokenFor(TOKEN_AUDIENCE.backoffice));
 
 // Extend Fastify types for TypeScript
 declare module "fastify" {
   interface FastifyInstance {
     authenticate: (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
+    authenticateStaff: (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
   }
 }
 
@@ -164,8 +185,10 @@ import forgotPasswordRoutes from "./routes/auth/forgot-password.js";
 import resetPasswordRoutes from "./routes/auth/reset-password.js";
 import resubmitDocumentRoutes from "./routes/auth/resubmit-document.js";
 import ssoRoutes from "./routes/auth/sso.js";
+import sessionRoutes from "./routes/auth/session.js";
 import { uploadRoutes } from "./routes/upload/index.js";
 import backofficeLoginRoutes from "./routes/backoffice/login.js";
+import backofficeTwoFactorRoutes from "./routes/backoffice/two-factor.js";
 import backofficeUsersRoutes from "./routes/backoffice/users.js";
 import backofficeVerificationsRoutes from "./routes/backoffice/verifications.js";
 import backofficeEventsRoutes from "./routes/backoffice/events.js";
@@ -183,7 +206,16 @@ import backofficeEmailRetrosendRoutes from "./routes/backoffice/email-retrosend.
 import backofficeEmailManualRoutes from "./routes/backoffice/email-manual.js";
 import backofficeInvitationLetterRoutes from "./routes/backoffice/invitation-letter.js";
 import backofficeAbstractAcceptLetterRoutes from "./routes/backoffice/abstract-accept-letter.js";
+import backofficeAbstractReviewerAssignmentsRoutes from "./routes/backoffice/abstract-reviewer-assignments.js";
+import backofficeAbstractSubmissionOverridesRoutes from "./routes/backoffice/abstract-submission-overrides.js";
+import backofficeAbstractScheduleRoutes from "./routes/backoffice/abstract-schedule.js";
 import backofficeCertificatesRoutes from "./routes/backoffice/certificates.js";
+import backofficeWaitlistRoutes from "./routes/backoffice/waitlist.js";
+import backofficeSeatHoldsRoutes from "./routes/backoffice/seat-holds.js";
+import backofficePaymentReconciliationRoutes from "./routes/backoffice/payment-reconciliation.js";
+import backofficeSettlementsRoutes from "./routes/backoffice/settlements.js";
+import backofficeExchangeRatesRoutes from "./routes/backoffice/exchange-rates.js";
+import backofficeImpersonationsRoutes from "./routes/backoffice/impersonations.js";
 import publicSpeakersRoutes from "./routes/public/speakers.js";
 import publicEventsRoutes from "./routes/public/events.js";
 import abstractSubmitRoutes from "./routes/public/abstracts/submit.js";
@@ -192,6 +224,8 @@ import userProfileRoutes from "./routes/public/users/profile.js";
 import userAbstractsRoutes from "./routes/public/abstracts/user.js";
 import publicWorkshopsRoutes from "./routes/public/workshops.js";
 import publicTicketsRoutes from "./routes/public/tickets.js";
+import publicWaitlistRoutes from "./routes/public/waitlist.js";
+import publicGroupOrderRoutes from "./routes/public/group-orders.js";
 import publicContactRoutes from "./routes/public/contact.js";
 import fileProxyRoutes from "./routes/public/files.js";
 import driveFolderRoutes from "./routes/public/drive-folder.js";
@@ -232,6 +266,9 @@ fastify.register(resetPasswordRoutes, { prefix: "/auth" });
 fastify.register(resubmitDocumentRoutes, { prefix: "/auth" });
 fastify.register(uploadRoutes, { prefix: "/api/upload" });
 fastify.register(backofficeLoginRoutes, { prefix: "/backoffice" });
+fastify.register(sessionRoutes, { prefix: "/auth", audience: TOKEN_AUDIENCE.attendee });
+fastify.register(sessionRoutes, { prefix: "/backoffice", audience: TOKEN_AUDIENCE.backoffice });
+fastify.register(backofficeTwoFactorRoutes, { prefix: "/backoffice/2fa" });
 
 // Public API routes
 fastify.register(publicEventsRoutes, { prefix: "/api/events" });
@@ -242,6 +279,8 @@ fastify.register(userProfileRoutes, { prefix: "/api/users" });
 fastify.register(userAbstractsRoutes, { prefix: "/api/abstracts/user" });
 fastify.register(publicWorkshopsRoutes, { prefix: "/api/workshops" });
 fastify.register(publicTicketsRoutes, { prefix: "/api/tickets" });
+fastify.register(publicWaitlistRoutes, { prefix: "/api/waitlist" });
+fastify.register(publicGroupOrderRoutes, { prefix: "/api/group-orders" });
 fastify.register(publicContactRoutes, { prefix: "/api/contact" });
 fastify.register(fileProxyRoutes, { prefix: "/api/files" });
 fastify.register(driveFolderRoutes, { prefix: "/api/drive-folder" });
@@ -253,8 +292,11 @@ fastify.register(freeRegistrationRoutes, { prefix: "/api/registrations" });
 // Protected Backoffice Routes (Auth Required)
 // ============================================================================
 fastify.register(async (protectedRoutes) => {
-  // Add authentication hook to all routes in this plugin
-  protectedRoutes.addHook("preHandler", fastify.authenticate);
+  // Every route must declare a permission (checked at startup); requests need
+  // a staff token, then the permission and event assignment are enforced here
+  protectedRoutes.addHook("onRoute", requireRoutePermission);
+  protectedRoutes.addHook("preHandler", fastify.authenticateStaff);
+  protectedRoutes.addHook("preHandler", authorizeStaffRequest);
 
   // Register all backoffice routes
   protectedRoutes.register(backofficeUsersRoutes, { prefix: "/users" });
@@ -264,13 +306,22 @@ fastify.register(async (protectedRoutes) => {
   protectedRoutes.register(backofficeRegistrationsRoutes, { prefix: "/registrations" });
   protectedRoutes.register(backofficeAbstractsRoutes, { prefix: "/abstracts" });
   protectedRoutes.register(backofficeAbstractAcceptLetterRoutes, { prefix: "/abstracts" });
+  protectedRoutes.register(backofficeAbstractReviewerAssignmentsRoutes, { prefix: "/abstracts" });
+  protectedRoutes.register(backofficeAbstractSubmissionOverridesRoutes, { prefix: "/abstracts" });
+  protectedRoutes.register(backofficeAbstractScheduleRoutes, { prefix: "/abstracts" });
   protectedRoutes.register(backofficeCheckinsRoutes, { prefix: "/checkins" });
   protectedRoutes.register(backofficeTicketsRoutes, { prefix: "/tickets" });
+  protectedRoutes.register(backofficeWaitlistRoutes, { prefix: "/waitlist" });
+  protectedRoutes.register(backofficeSeatHoldsRoutes, { prefix: "/seat-holds" });
   protectedRoutes.register(backofficeSessionsRoutes, { prefix: "/sessions" });
   protectedRoutes.register(backofficePromoCodesRoutes, { prefix: "/promo-codes" });
   protectedRoutes.register(backofficeMembersRoutes, { prefix: "/members" });
+  protectedRoutes.register(backofficeImpersonationsRoutes, { prefix: "/impersonations" });
   protectedRoutes.register(backofficeReportsRoutes, { prefix: "/reports" });
   protectedRoutes.register(backofficeOrdersRoutes, { prefix: "/orders" });
+  protectedRoutes.register(backofficePaymentReconciliationRoutes, { prefix: "/payment-reconciliation" });
+  protectedRoutes.register(backofficeSettlementsRoutes, { prefix: "/settlements" });
+  protectedRoutes.register(backofficeExchangeRatesRoutes, { prefix: "/exchange-rates" });
   protectedRoutes.register(backofficeInvitationLetterRoutes, { prefix: "/orders" });
   protectedRoutes.register(backofficeEmailRetrosendRoutes, { prefix: "/email-retrosend" });
   protectedRoutes.register(backofficeEmailManualRoutes, { prefix: "/email-manual" });
@@ -4,7 +4,14 @@ import { users } from "../../database/schema.js";
 import { loginBodySchema } from "../../schemas/auth.schema.js";
 import bcrypt from "bcryptjs";
 import { eq, sql } from "drizzle-orm";
-import { JWT_EXPIRY } from "../../constants/auth.js";
+import { TOKEN_AUDIENCE } from "../../constants/auth.js";
+import { startSession } from "../../services/authSession.service.js";
+import {
+  activeLockUntil,
+  recordLoginFailure,
+  recordLoginSuccess,
+  type LoginAccount,
+} from "../../services/loginProtection.service.js";
 import { getFullName } from "../../utils/name.js";
 
 export default async function (fastify: FastifyInstance) {
@@ -20,6 +27,7 @@ export default async function (fastify: FastifyInstance) {
     }
 
     const { email, pharmacyLicenseId, password } = result.data;
+    const identifier = email || pharmacyLicenseId || "";
 
     try {
       // 2. Find user (by email OR pharmacyLicenseId based on what is provided)
@@ -35,6 +43,7 @@ export default async function (fastify: FastifyInstance) {
       const userList = await userQuery.limit(1);
 
       if (userList.length === 0) {
+        await recordLoginFailure(request, TOKEN_AUDIENCE.attendee, identifier, null, "unknown_account");
         return reply.status(401).send({
           success: false,
           error: "Invalid email or password",
@@ -42,18 +51,45 @@ export default async function (fastify: FastifyInstance) {
       }
 
       const user = userList[0];
+      const account: LoginAccount = {
+        owner: { userId: user.id },
+        email: user.email,
+        firstName: user.firstName,
+      };
 
-      // 3. Verify password
+      // 3. Refuse locked accounts before looking at the password. The answer is
+      // the same as for a wrong password so it does not reveal that the email
+      // is registered; the owner learns of the lock from the lockout email.
+      if (activeLockUntil(user.lockedUntil)) {
+        await recordLoginFailure(request, TOKEN_AUDIENCE.attendee, identifier, account, "locked");
+        return reply.status(401).send({
+          success: false,
+          error: "Invalid email or password",
+        });
+      }
+
+      // 4. Verify password (repeated failures lock the account)
       const isPasswordValid = await bcrypt.compare(password, user.passwordHash);
 
       if (!isPasswordValid) {
+        await recordLoginFailure(
+          request,
+          TOKEN_AUDIENCE.attendee,
+          identifier,
+          account,
+          "invalid_password"
+        );
         return reply.status(401).send({
           success: false,
           error: "Invalid email or password",
         });
       }
 
-      // 4. Check account status
+      // 5. Check account status
+      if (user.status !== "active") {
+        await recordLoginFailure(request, TOKEN_AUDIENCE.attendee, identifier, account, "inactive");
+      }
+
       if (user.status === 'pending_approval') {
         return reply.status(403).send({
           success: false,
@@ -69,7 +105,7 @@ export default async function (fastify: FastifyInstance) {
         });
       }
 
-      // 5. Map delegate type
+      // 6. Map delegate type
       let delegateType = "";
       let isThai = false;
 
@@ -94,20 +130,24 @@ export default async function (fastify: FastifyInstance) {
           delegateType = "unknown";
       }
 
-      // 6. Sign JWT token
-      const token = fastify.jwt.sign(
+      // 7. Sign JWT token
+      await recordLoginSuccess(request, TOKEN_AUDIENCE.attendee, identifier, account);
+      const { token, refreshToken } = await startSession(
+        fastify,
+        request,
+        TOKEN_AUDIENCE.attendee,
         {
           id: user.id,
           email: user.email,
           role: user.role,
-        },
-        { expiresIn: JWT_EXPIRY }
+        }
       );
 
-      // 7. Return user data with token
+      // 8. Return user data with token
       return reply.send({
         success: true,
         token,
+        refreshToken,
         user: {
           id: user.id,
           email: user.email,
@@ -8,7 +8,8 @@ import { uploadToGoogleDrive } from "../../services/googleDrive.js";
 import { sendPendingApprovalEmail, sendSignupNotificationEmail } from "../../services/emailService.js";
 import { sendEventSignupNotificationEmail, sendEventPendingApprovalEmail } from "../../services/emailTemplates.js";
 import { buildEventEmailContext } from "../../services/emailTemplates.types.js";
-import { JWT_EXPIRY } from "../../constants/auth.js";
+import { TOKEN_AUDIENCE } from "../../constants/auth.js";
+import { startSession } from "../../services/authSession.service.js";
 
 const roleMapping = {
   thaiStudent: "thstd",
@@ -264,14 +265,17 @@ export async function authRoutes(fastify: FastifyInstance) {
       }
 
       // 9. Sign JWT token so client can auto-login without a separate /auth/login call
-      const token = fastify.jwt.sign(
-        { id: newUser.id, email: newUser.email, role: newUser.role },
-        { expiresIn: JWT_EXPIRY }
+      const { token, refreshToken } = await startSession(
+        fastify,
+        request,
+        TOKEN_AUDIENCE.attendee,
+        { id: newUser.id, email: newUser.email, role: newUser.role }
       );
 
       return reply.status(201).send({
         success: true,
         token,
+        refreshToken,
         user: {
           id: newUser.id,
           email: newUser.email,
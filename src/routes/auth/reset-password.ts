@@ -4,6 +4,7 @@ import { users, passwordResetTokens } from "../../database/schema.js";
 import { resetPasswordSchema } from "../../schemas/auth.schema.js";
 import { eq, and, isNull, gt } from "drizzle-orm";
 import bcrypt from "bcryptjs";
+import { revokeAllSessions } from "../../services/authSession.service.js";
 
 export default async function (fastify: FastifyInstance) {
   fastify.post("/reset-password", async (request, reply) => {
@@ -45,10 +46,10 @@ export default async function (fastify: FastifyInstance) {
       // 3. Hash new password
       const passwordHash = await bcrypt.hash(newPassword, 12);
 
-      // 4. Update user password
+      // 4. Update user password (proving access to the mailbox also lifts a lockout)
       await db
         .update(users)
-        .set({ passwordHash })
+        .set({ passwordHash, failedLoginAttempts: 0, lockoutCount: 0, lockedUntil: null })
         .where(eq(users.id, resetToken.userId));
 
       // 5. Mark token as used
@@ -57,6 +58,9 @@ export default async function (fastify: FastifyInstance) {
         .set({ usedAt: new Date() })
         .where(eq(passwordResetTokens.id, resetToken.id));
 
+      // 6. Sign out every device that used the old password
+      await revokeAllSessions({ userId: resetToken.userId }, "password_reset");
+
       return reply.send({
         success: true,
         message: "Password reset successfully",
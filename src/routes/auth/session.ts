@@ -0,0 +1,126 @@
+/**
+ * Session endpoints, registered once per token audience:
+ *
+ * POST   /auth/refresh          | /backoffice/refresh          new access token + rotated refresh token
+ * POST   /auth/logout           | /backoffice/logout           end this session ({ allDevices: true } ends all)
+ * GET    /auth/sessions         | /backoffice/sessions         active sessions of the signed-in account
+ * DELETE /auth/sessions/:id     | /backoffice/sessions/:id     sign out one of them
+ *
+ * A staff member impersonating an attendee can only log out, which ends the impersonation.
+ */
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { TOKEN_AUDIENCE, type TokenAudience } from "../../constants/auth.js";
+import { logoutSchema, refreshTokenSchema } from "../../schemas/auth.schema.js";
+import {
+  listActiveSessions,
+  refreshSession,
+  revokeAllSessions,
+  revokeSession,
+  type SessionOwner,
+} from "../../services/authSession.service.js";
+import { endImpersonation } from "../../services/impersonation.service.js";
+import { forbidImpersonation } from "../../utils/authorization.js";
+
+const REFRESH_ERRORS: Record<string, { status: number; error: string }> = {
+  REFRESH_TOKEN_INVALID: { status: 401, error: "Invalid refresh token - please sign in again" },
+  REFRESH_TOKEN_REUSED: { status: 401, error: "Refresh token was already used - please sign in again" },
+  SESSION_EXPIRED: { status: 401, error: "Session has expired - please sign in again" },
+  ACCOUNT_INACTIVE: { status: 403, error: "Account can no longer sign in" },
+};
+
+export interface SessionRoutesOptions {
+  audience: TokenAudience;
+}
+
+export default async function (fastify: FastifyInstance, options: SessionRoutesOptions) {
+  const { audience } = options;
+  const authenticate =
+    audience === TOKEN_AUDIENCE.backoffice ? fastify.authenticateStaff : fastify.authenticate;
+
+  const ownerOf = (request: FastifyRequest): SessionOwner =>
+    audience === TOKEN_AUDIENCE.backoffice
+      ? { staffId: request.user.id }
+      : { userId: request.user.id };
+
+  fastify.post("/refresh", async (request, reply) => {
+    const result = refreshTokenSchema.safeParse(request.body);
+    if (!result.success) {
+      return reply.status(400).send({
+        success: false,
+        error: "Invalid input",
+        details: result.error.flatten(),
+      });
+    }
+
+    try {
+      const tokens = await refreshSession(fastify, audience, result.data.refreshToken);
+      return reply.send({ success: true, ...tokens });
+    } catch (error) {
+      const code = error instanceof Error ? error.message : "";
+      const mapped = REFRESH_ERRORS[code];
+      if (mapped) {
+        return reply.status(mapped.status).send({ success: false, code, error: mapped.error });
+      }
+      fastify.log.error(error);
+      return reply.status(500).send({ success: false, error: "Internal server error" });
+    }
+  });
+
+  fastify.post("/logout", { preHandler: [authenticate] }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const result = logoutSchema.safeParse(request.body ?? {});
+    if (!result.success) {
+      return reply.status(400).send({
+        success: false,
+        error: "Invalid input",
+        details: result.error.flatten(),
+      });
+    }
+
+    try {
+      const { impersonatedBy } = request.user;
+      if (impersonatedBy) {
+        if (result.data.allDevices) return forbidImpersonation(request, reply);
+        await endImpersonation(impersonatedBy.impersonationId, "logout", null);
+        return reply.send({ success: true, revokedSessions: 1 });
+      }
+
+      if (result.data.allDevices) {
+        const revoked = await revokeAllSessions(ownerOf(request), "logout_all");
+        return reply.send({ success: true, revokedSessions: revoked });
+      }
+      await revokeSession(request.user.sid, "logout");
+      return reply.send({ success: true, revokedSessions: 1 });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ success: false, error: "Internal server error" });
+    }
+  });
+
+  fastify.get("/sessions", { preHandler: [authenticate] }, async (request, reply) => {
+    try {
+      const sessions = await listActiveSessions(ownerOf(request), request.user.sid);
+      return reply.send({ success: true, sessions });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ success: false, error: "Internal server error" });
+    }
+  });
+
+  fastify.delete("/sessions/:id", { preHandler: [authenticate, forbidImpersonation] }, async (request, reply) => {
+    const sessionId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(sessionId)) {
+      return reply.status(400).send({ success: false, error: "Invalid session ID" });
+    }
+
+    try {
+      const revoked = await revokeSession(sessionId, "revoked", ownerOf(request));
+      if (!revoked) {
+        return reply.status(404).send({ success: false, error: "Session not found" });
+      }
+      return reply.send({ success: true });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ success: false, error: "Internal server error" });
+    }
+  });
+}
@@ -3,7 +3,10 @@ import { db } from "../../database/index.js";
 import { ssoTokens, users, events } from "../../database/schema.js";
 import { eq, and, gt, lt } from "drizzle-orm";
 import { randomUUID } from "crypto";
-import { JWT_EXPIRY } from "../../constants/auth.js";
+import { TOKEN_AUDIENCE } from "../../constants/auth.js";
+import { startSession } from "../../services/authSession.service.js";
+import { beginImpersonatedSignIn } from "../../services/impersonation.service.js";
+import { forbidImpersonation } from "../../utils/authorization.js";
 import { getFullName } from "../../utils/name.js";
 
 const SSO_TOKEN_EXPIRY_MS = 60_000; // 60 seconds
@@ -17,7 +20,7 @@ export default async function (fastify: FastifyInstance) {
   // Query params: ?eventId=123 (optional)
   // Body: { targetApp?: string }
   // Returns: { success, ssoToken, targetUrl }
-  fastify.post("/sso-token", { preHandler: [fastify.authenticate] }, async (request, reply) => {
+  fastify.post("/sso-token", { preHandler: [fastify.authenticate, forbidImpersonation] }, async (request, reply) => {
     const body = request.body as { targetApp?: string } | undefined;
     const query = request.query as { eventId?: string };
     const eventId = query.eventId ? parseInt(query.eventId, 10) : null;
@@ -92,7 +95,11 @@ export default async function (fastify: FastifyInstance) {
           gt(ssoTokens.expiresAt, new Date()),
         )
       )
-      .returning({ userId: ssoTokens.userId, sourceApp: ssoTokens.sourceApp });
+      .returning({
+        userId: ssoTokens.userId,
+        sourceApp: ssoTokens.sourceApp,
+        impersonationId: ssoTokens.impersonationId,
+      });
 
     if (claimedRows.length === 0) {
       return reply.status(401).send({
@@ -101,7 +108,7 @@ export default async function (fastify: FastifyInstance) {
       });
     }
 
-    const { userId, sourceApp } = claimedRows[0];
+    const { userId, sourceApp, impersonationId } = claimedRows[0];
 
     // Get user data + ★ check account status
     const [user] = await db
@@ -139,6 +146,15 @@ export default async function (fastify: FastifyInstance) {
       });
     }
 
+    // ★ Impersonation link: the staff member may have ended it before it was used
+    const impersonatedBy = impersonationId ? await beginImpersonatedSignIn(impersonationId) : null;
+    if (impersonationId && !impersonatedBy) {
+      return reply.status(401).send({
+        success: false,
+        error: "Impersonation has ended",
+      });
+    }
+
     // Map delegate type (same logic as login.ts)
     let delegateType = "";
     let isThai = false;
@@ -165,19 +181,24 @@ export default async function (fastify: FastifyInstance) {
     }
 
     // Sign JWT
-    const jwt = fastify.jwt.sign(
+    const { token: jwt, refreshToken } = await startSession(
+      fastify,
+      request,
+      TOKEN_AUDIENCE.attendee,
       {
         id: user.id,
         email: user.email,
         role: user.role,
-      },
-      { expiresIn: JWT_EXPIRY }
+        ...(impersonatedBy ? { impersonatedBy } : {}),
+      }
     );
 
     return {
       success: true,
       token: jwt,
+      refreshToken,
       sourceApp: sourceApp || null,
+      impersonatedBy,
       user: {
         id: user.id,
         email: user.email,
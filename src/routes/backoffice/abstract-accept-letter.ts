@@ -12,12 +12,13 @@
  *
  * Only returns a letter for abstracts with status='accepted'. Reviewers may
  * only download letters for abstracts within their assigned categories /
- * presentation types.
+ * presentation types, and never for double-blind events (the letter names
+ * the author).
  */
 import { FastifyInstance } from "fastify";
 import { eq } from "drizzle-orm";
 import { db } from "../../database/index.js";
-import { abstracts, users } from "../../database/schema.js";
+import { abstracts, events, users } from "../../database/schema.js";
 import {
   renderAbstractAcceptDocx,
   renderAbstractAcceptPdf,
@@ -26,6 +27,7 @@ import {
   titleCasePresentationType,
   type AbstractAcceptData,
 } from "../../services/letter.service.js";
+import { eventOfAbstract } from "../../utils/authorization.js";
 
 type StaffUser = {
   id: number;
@@ -56,9 +58,11 @@ export default async function (fastify: FastifyInstance) {
         userFirstName: users.firstName,
         userMiddleName: users.middleName,
         userLastName: users.lastName,
+        blindReview: events.blindReview,
       })
       .from(abstracts)
       .leftJoin(users, eq(abstracts.userId, users.id))
+      .leftJoin(events, eq(abstracts.eventId, events.id))
       .where(eq(abstracts.id, abstractId))
       .limit(1);
 
@@ -89,6 +93,17 @@ export default async function (fastify: FastifyInstance) {
 
     // Reviewer access control: mirror the list endpoint's category / type scoping.
     if (staff && staff.role === "reviewer") {
+      if (row.blindReview) {
+        return {
+          ok: false,
+          status: 403,
+          body: {
+            success: false,
+            code: "FORBIDDEN",
+            error: "Author details are hidden during double-blind review",
+          },
+        };
+      }
       const cats = staff.assignedCategories ?? [];
       if (cats.length > 0 && !cats.includes(row.category)) {
         return {
@@ -161,7 +176,7 @@ export default async function (fastify: FastifyInstance) {
   fastify.get<{
     Params: { id: string };
     Querystring: { name?: string; date?: string; type?: string };
-  }>("/:id/accept-letter.pdf", async (request, reply) => {
+  }>("/:id/accept-letter.pdf", { config: { permission: "abstracts:read", eventOf: eventOfAbstract() } }, async (request, reply) => {
     const abstractId = Number(request.params.id);
     if (!abstractId || isNaN(abstractId)) {
       return reply.status(400).send({
@@ -203,7 +218,7 @@ export default async function (fastify: FastifyInstance) {
   fastify.get<{
     Params: { id: string };
     Querystring: { name?: string; date?: string; type?: string };
-  }>("/:id/accept-letter.docx", async (request, reply) => {
+  }>("/:id/accept-letter.docx", { config: { permission: "abstracts:read", eventOf: eventOfAbstract() } }, async (request, reply) => {
     const abstractId = Number(request.params.id);
     if (!abstractId || isNaN(abstractId)) {
       return reply.status(400).send({
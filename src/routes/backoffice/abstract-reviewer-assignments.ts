@@ -0,0 +1,381 @@
+/**
+ * Abstract reviewer assignment routes (admin / organizer only)
+ *
+ * POST  /api/backoffice/abstracts/reviewer-assignments/preview   dry-run of the engine
+ * POST  /api/backoffice/abstracts/reviewer-assignments/apply     run the engine and save
+ * GET   /api/backoffice/abstracts/reviewer-assignments/load      assignments per reviewer
+ * GET   /api/backoffice/abstracts/:id/reviewers                  assignments + COI report
+ * PUT   /api/backoffice/abstracts/:id/reviewers                  organizer override
+ * PATCH /api/backoffice/abstracts/:id/reviewers/lock             lock / unlock
+ *
+ * The engine gives each pending abstract N reviewers whose categories cover it,
+ * skipping reviewers who share an institution or institutional email domain
+ * with the submitter or any co-author, and always picking the least-loaded
+ * eligible reviewer. Locked abstracts are never touched by the engine.
+ */
+import { FastifyInstance } from "fastify";
+import { and, asc, count, eq, inArray } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "../../database/index.js";
+import {
+  abstracts,
+  abstractReviewerAssignments,
+  abstractReviews,
+  backofficeUsers,
+} from "../../database/schema.js";
+import {
+  autoAssignReviewersSchema,
+  lockAbstractReviewersSchema,
+  setAbstractReviewersSchema,
+} from "../../schemas/abstracts.schema.js";
+import {
+  applyAssignmentPlan,
+  detectConflicts,
+  loadAssignmentAbstracts,
+  loadAssignmentReviewers,
+  loadExistingAssignments,
+  planReviewerAssignments,
+  reviewerCoversAbstract,
+} from "../../services/reviewerAssignment.service.js";
+import { eventOfAbstract } from "../../utils/authorization.js";
+
+export default async function (fastify: FastifyInstance) {
+  async function buildPlan({
+    eventId,
+    reviewersPerAbstract,
+    abstractIds,
+  }: z.infer<typeof autoAssignReviewersSchema>) {
+    const conditions = [
+      eq(abstracts.eventId, eventId),
+      eq(abstracts.status, "pending"),
+    ];
+    if (abstractIds && abstractIds.length > 0) {
+      conditions.push(inArray(abstracts.id, abstractIds));
+    }
+
+    const pending = await db
+      .select({ id: abstracts.id })
+      .from(abstracts)
+      .where(and(...conditions));
+    const pendingIds = pending.map((a) => a.id);
+
+    const [abstractList, reviewers, existing] = await Promise.all([
+      loadAssignmentAbstracts(pendingIds),
+      loadAssignmentReviewers(),
+      loadExistingAssignments(pendingIds),
+    ]);
+
+    return planReviewerAssignments(
+      abstractList,
+      reviewers,
+      existing,
+      reviewersPerAbstract,
+    );
+  }
+
+  // Preview the engine's proposal without saving anything
+  fastify.post("/reviewer-assignments/preview", { config: { permission: "abstracts:manage" } }, async (request, reply) => {
+    const result = autoAssignReviewersSchema.safeParse(request.body);
+    if (!result.success) {
+      return reply
+        .status(400)
+        .send({ error: "Invalid input", details: result.error.flatten() });
+    }
+
+    try {
+      const plan = await buildPlan(result.data);
+      return reply.send({
+        plan,
+        unfilledAbstracts: plan.abstracts.filter((a) => a.shortfall > 0).length,
+      });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply
+        .status(500)
+        .send({ error: "Failed to preview reviewer assignments" });
+    }
+  });
+
+  // Run the engine and persist its proposal
+  fastify.post("/reviewer-assignments/apply", { config: { permission: "abstracts:manage" } }, async (request, reply) => {
+    const result = autoAssignReviewersSchema.safeParse(request.body);
+    if (!result.success) {
+      return reply
+        .status(400)
+        .send({ error: "Invalid input", details: result.error.flatten() });
+    }
+
+    try {
+      const plan = await buildPlan(result.data);
+      const { added, removed } = await applyAssignmentPlan(
+        plan,
+        request.user.id,
+      );
+
+      fastify.log.info(
+        `Reviewer assignments applied for event ${result.data.eventId} by staff ${request.user.id}: +${added} / -${removed}`,
+      );
+
+      return reply.send({
+        success: true,
+        added,
+        removed,
+        plan,
+        unfilledAbstracts: plan.abstracts.filter((a) => a.shortfall > 0).length,
+      });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply
+        .status(500)
+        .send({ error: "Failed to apply reviewer assignments" });
+    }
+  });
+
+  // Assignment load per reviewer (optionally limited to one event)
+  fastify.get("/reviewer-assignments/load", { config: { permission: "abstracts:manage" } }, async (request, reply) => {
+    const { eventId } = request.query as { eventId?: string };
+    const eventFilter = eventId
+      ? eq(abstracts.eventId, parseInt(eventId))
+      : undefined;
+
+    try {
+      const [assignedRows, reviewedRows, reviewers] = await Promise.all([
+        db
+          .select({
+            reviewerId: abstractReviewerAssignments.reviewerId,
+            total: count(),
+          })
+          .from(abstractReviewerAssignments)
+          .innerJoin(
+            abstracts,
+            eq(abstractReviewerAssignments.abstractId, abstracts.id),
+          )
+          .where(eventFilter)
+          .groupBy(abstractReviewerAssignments.reviewerId),
+        db
+          .select({ reviewerId: abstractReviews.reviewerId, total: count() })
+          .from(abstractReviews)
+          .innerJoin(abstracts, eq(abstractReviews.abstractId, abstracts.id))
+          .where(eventFilter)
+          .groupBy(abstractReviews.reviewerId),
+        loadAssignmentReviewers(),
+      ]);
+
+      const assigned = new Map(assignedRows.map((r) => [r.reviewerId, Number(r.total)]));
+      const reviewed = new Map(reviewedRows.map((r) => [r.reviewerId, Number(r.total)]));
+
+      return reply.send({
+        reviewers: reviewers.map((r) => ({
+          id: r.id,
+          firstName: r.firstName,
+          lastName: r.lastName,
+          email: r.email,
+          institution: r.institution,
+          assigned: assigned.get(r.id) ?? 0,
+          reviewed: reviewed.get(r.id) ?? 0,
+        })),
+      });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to fetch reviewer load" });
+    }
+  });
+
+  // Current assignments + every reviewer's eligibility / conflicts for one abstract
+  fastify.get("/:id/reviewers", { config: { permission: "abstracts:manage", eventOf: eventOfAbstract() } }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const abstractId = parseInt(id);
+
+    try {
+      const [abstractInfo] = await loadAssignmentAbstracts([abstractId]);
+      if (!abstractInfo) {
+        return reply.status(404).send({ error: "Abstract not found" });
+      }
+
+      const [assignments, reviewers] = await Promise.all([
+        db
+          .select({
+            reviewerId: abstractReviewerAssignments.reviewerId,
+            source: abstractReviewerAssignments.source,
+            assignedAt: abstractReviewerAssignments.assignedAt,
+            firstName: backofficeUsers.firstName,
+            lastName: backofficeUsers.lastName,
+            email: backofficeUsers.email,
+          })
+          .from(abstractReviewerAssignments)
+          .innerJoin(
+            backofficeUsers,
+            eq(abstractReviewerAssignments.reviewerId, backofficeUsers.id),
+          )
+          .where(eq(abstractReviewerAssignments.abstractId, abstractId))
+          .orderBy(asc(abstractReviewerAssignments.assignedAt)),
+        loadAssignmentReviewers(),
+      ]);
+
+      const candidates = reviewers.map((r) => {
+        const conflicts = detectConflicts(r, abstractInfo);
+        const coversAbstract = reviewerCoversAbstract(r, abstractInfo);
+        return {
+          id: r.id,
+          firstName: r.firstName,
+          lastName: r.lastName,
+          email: r.email,
+          institution: r.institution,
+          coversAbstract,
+          conflicts,
+          eligible: coversAbstract && conflicts.length === 0,
+        };
+      });
+
+      return reply.send({
+        locked: abstractInfo.reviewersLocked,
+        assignments,
+        candidates,
+      });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to fetch reviewers" });
+    }
+  });
+
+  // Organizer override: replace the reviewers of one abstract
+  fastify.put("/:id/reviewers", { config: { permission: "abstracts:manage", eventOf: eventOfAbstract() } }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const abstractId = parseInt(id);
+    const result = setAbstractReviewersSchema.safeParse(request.body);
+    if (!result.success) {
+      return reply
+        .status(400)
+        .send({ error: "Invalid input", details: result.error.flatten() });
+    }
+
+    const reviewerIds = [...new Set(result.data.reviewerIds)];
+    const { lock } = result.data;
+
+    try {
+      const [abstractInfo] = await loadAssignmentAbstracts([abstractId]);
+      if (!abstractInfo) {
+        return reply.status(404).send({ error: "Abstract not found" });
+      }
+
+      if (abstractInfo.reviewersLocked) {
+        return reply.status(409).send({
+          code: "ASSIGNMENTS_LOCKED",
+          error: "Reviewer assignments are locked. Unlock them first.",
+        });
+      }
+
+      const [existing, reviewers] = await Promise.all([
+        loadExistingAssignments([abstractId]),
+        loadAssignmentReviewers(),
+      ]);
+      const byId = new Map(reviewers.map((r) => [r.id, r]));
+
+      const unknown = reviewerIds.filter((rid) => !byId.has(rid));
+      if (unknown.length > 0) {
+        return reply.status(400).send({
+          code: "INVALID_REVIEWER",
+          error: "Some reviewers are not active reviewers",
+          details: { reviewerIds: unknown },
+        });
+      }
+
+      const outOfScope = reviewerIds.filter(
+        (rid) => !reviewerCoversAbstract(byId.get(rid)!, abstractInfo),
+      );
+      if (outOfScope.length > 0) {
+        return reply.status(400).send({
+          code: "REVIEWER_OUT_OF_SCOPE",
+          error: "Some reviewers are not assigned to this category / presentation type",
+          details: { reviewerIds: outOfScope },
+        });
+      }
+
+      const conflicted = reviewerIds
+        .map((rid) => ({
+          reviewerId: rid,
+          conflicts: detectConflicts(byId.get(rid)!, abstractInfo),
+        }))
+        .filter((c) => c.conflicts.length > 0);
+      if (conflicted.length > 0) {
+        return reply.status(409).send({
+          code: "REVIEWER_CONFLICT_OF_INTEREST",
+          error: "Some reviewers have a conflict of interest with this abstract",
+          details: conflicted,
+        });
+      }
+
+      // Reviewers who already submitted a review cannot be unassigned
+      const reviewedIds = existing
+        .filter((a) => a.hasReview && !reviewerIds.includes(a.reviewerId))
+        .map((a) => a.reviewerId);
+      if (reviewedIds.length > 0) {
+        return reply.status(409).send({
+          code: "REVIEWER_ALREADY_REVIEWED",
+          error: "Reviewers who already submitted a review cannot be removed",
+          details: { reviewerIds: reviewedIds },
+        });
+      }
+
+      await db.transaction(async (tx) => {
+        await tx
+          .delete(abstractReviewerAssignments)
+          .where(eq(abstractReviewerAssignments.abstractId, abstractId));
+
+        if (reviewerIds.length > 0) {
+          await tx.insert(abstractReviewerAssignments).values(
+            reviewerIds.map((reviewerId) => ({
+              abstractId,
+              reviewerId,
+              source: "manual",
+              assignedBy: request.user.id,
+            })),
+          );
+        }
+
+        await tx
+          .update(abstracts)
+          .set({ reviewersLocked: lock })
+          .where(eq(abstracts.id, abstractId));
+      });
+
+      fastify.log.info(
+        `Reviewers of abstract ${abstractId} set to [${reviewerIds.join(", ")}] by staff ${request.user.id}${lock ? " (locked)" : ""}`,
+      );
+
+      return reply.send({ success: true, reviewerIds, locked: lock });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to update reviewers" });
+    }
+  });
+
+  // Lock / unlock an abstract's assignments
+  fastify.patch("/:id/reviewers/lock", { config: { permission: "abstracts:manage", eventOf: eventOfAbstract() } }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const result = lockAbstractReviewersSchema.safeParse(request.body);
+    if (!result.success) {
+      return reply
+        .status(400)
+        .send({ error: "Invalid input", details: result.error.flatten() });
+    }
+
+    try {
+      // Locking works before any reviewer is assigned: the engine then skips the abstract
+      const updated = await db
+        .update(abstracts)
+        .set({ reviewersLocked: result.data.locked })
+        .where(eq(abstracts.id, parseInt(id)))
+        .returning({ id: abstracts.id });
+
+      if (updated.length === 0) {
+        return reply.status(404).send({ error: "Abstract not found" });
+      }
+
+      return reply.send({ success: true, locked: result.data.locked });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to update lock" });
+    }
+  });
+}
@@ -0,0 +1,262 @@
+/**
+ * Presentation scheduler (admin / organizer only)
+ *
+ * GET  /api/backoffice/abstracts/schedule/blocks?eventId=1    slot grid of an event
+ * PUT  /api/backoffice/abstracts/schedule/blocks              replace the slot grid
+ * POST /api/backoffice/abstracts/schedule/preview             dry-run of the engine
+ * POST /api/backoffice/abstracts/schedule/apply               run the engine and save
+ * GET  /api/backoffice/abstracts/schedule/conflicts?eventId=1 conflicts in the saved schedule
+ *
+ * The engine places accepted abstracts into oral slots (room/date/time) and
+ * poster boards from the grid, grouping by category and never booking a
+ * presenting author twice at the same time. It fills the presentation* /
+ * poster* columns; `notify` re-sends the schedule email only to presenters
+ * whose slot actually changed.
+ */
+import { FastifyInstance } from "fastify";
+import { eq } from "drizzle-orm";
+import { db } from "../../database/index.js";
+import { presentationScheduleBlocks } from "../../database/schema.js";
+import {
+  runPresentationScheduleSchema,
+  savePresentationScheduleBlocksSchema,
+} from "../../schemas/abstracts.schema.js";
+import {
+  applySchedulePlan,
+  detectScheduleConflicts,
+  hasPlacement,
+  loadPresenterContacts,
+  loadScheduleBlocks,
+  loadSchedulableAbstracts,
+  planPresentationSchedule,
+  validateScheduleBlocks,
+  type ScheduleAssignment,
+} from "../../services/presentationScheduler.service.js";
+import { sendPresentationScheduleNotificationEmail } from "../../services/emailService.js";
+import { loadPresentationSchedulePdf } from "../../services/presentationSchedulePdf.js";
+import { buildPresenterSlotAttachment } from "../../services/calendar.service.js";
+import { buildScheduleDetailLines } from "../../utils/abstractSchedule.js";
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export default async function (fastify: FastifyInstance) {
+  async function buildPlan(eventId: number, mode: "fill" | "rebuild") {
+    const [blocks, abstractList] = await Promise.all([
+      loadScheduleBlocks(eventId),
+      loadSchedulableAbstracts(eventId),
+    ]);
+    return {
+      blocks,
+      abstractList,
+      plan: planPresentationSchedule(abstractList, blocks, mode),
+    };
+  }
+
+  /** Send the schedule email to each changed presenter, one by one (rate limit). */
+  async function notifyChangedPresenters(changed: ScheduleAssignment[], titles: Map<number, string>) {
+    const withSlot = changed.filter((a) => a.after && a.userId != null);
+    const contacts = await loadPresenterContacts([
+      ...new Set(withSlot.map((a) => a.userId!)),
+    ]);
+
+    for (const assignment of withSlot) {
+      const contact = contacts.get(assignment.userId!);
+      if (!contact) continue;
+
+      const trackingLabel = assignment.trackingId ?? `#${assignment.abstractId}`;
+      try {
+        const attachment = loadPresentationSchedulePdf(assignment.presentationType);
+        const calendar = await buildPresenterSlotAttachment(assignment.abstractId);
+        await sendPresentationScheduleNotificationEmail(
+          contact.email,
+          contact.firstName,
+          contact.middleName,
+          contact.lastName,
+          trackingLabel,
+          titles.get(assignment.abstractId) ?? "",
+          assignment.presentationType,
+          buildScheduleDetailLines({
+            presentationType: assignment.presentationType,
+            ...assignment.after!,
+          }),
+          attachment ?? undefined,
+          calendar,
+        );
+        fastify.log.info(
+          `schedule: notification sent | ${trackingLabel} | ${contact.email}`,
+        );
+      } catch (error) {
+        fastify.log.error(
+          { err: error },
+          `schedule: failed to send notification | ${trackingLabel} | ${contact.email}`,
+        );
+      }
+      await delay(800);
+    }
+  }
+
+  // Slot grid of an event
+  fastify.get("/schedule/blocks", { config: { permission: "abstracts:manage" } }, async (request, reply) => {
+    const { eventId } = request.query as { eventId?: string };
+    if (!eventId || Number.isNaN(parseInt(eventId))) {
+      return reply.status(400).send({ error: "eventId is required" });
+    }
+
+    try {
+      const blocks = await loadScheduleBlocks(parseInt(eventId));
+      return reply.send({ blocks });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to fetch schedule blocks" });
+    }
+  });
+
+  // Replace the slot grid of an event
+  fastify.put("/schedule/blocks", { config: { permission: "abstracts:manage" } }, async (request, reply) => {
+    const result = savePresentationScheduleBlocksSchema.safeParse(request.body);
+    if (!result.success) {
+      return reply
+        .status(400)
+        .send({ error: "Invalid input", details: result.error.flatten() });
+    }
+
+    const { eventId, blocks } = result.data;
+    const rows = blocks.map((block, index) => ({
+      eventId,
+      presentationType: block.presentationType,
+      label: block.label ?? null,
+      date: block.date,
+      room: block.room ?? null,
+      startTime: block.startTime,
+      endTime: block.endTime,
+      slotMinutes: block.slotMinutes ?? null,
+      boardFrom: block.boardFrom ?? null,
+      boardTo: block.boardTo ?? null,
+      installationStart: block.installationStart ?? null,
+      installationEnd: block.installationEnd ?? null,
+      removalStart: block.removalStart ?? null,
+      removalEnd: block.removalEnd ?? null,
+      categories: block.categories,
+      sortOrder: index,
+    }));
+
+    const errors = validateScheduleBlocks(rows);
+    if (errors.length > 0) {
+      return reply.status(400).send({
+        code: "INVALID_SCHEDULE_GRID",
+        error: errors[0],
+        details: errors,
+      });
+    }
+
+    try {
+      const saved = await db.transaction(async (tx) => {
+        await tx
+          .delete(presentationScheduleBlocks)
+          .where(eq(presentationScheduleBlocks.eventId, eventId));
+        if (rows.length === 0) return [];
+        return tx.insert(presentationScheduleBlocks).values(rows).returning();
+      });
+
+      return reply.send({ blocks: saved });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to save schedule blocks" });
+    }
+  });
+
+  // Dry run
+  fastify.post("/schedule/preview", { config: { permission: "abstracts:manage" } }, async (request, reply) => {
+    const result = runPresentationScheduleSchema.safeParse(request.body);
+    if (!result.success) {
+      return reply
+        .status(400)
+        .send({ error: "Invalid input", details: result.error.flatten() });
+    }
+
+    try {
+      const { blocks, plan } = await buildPlan(result.data.eventId, result.data.mode);
+      if (blocks.length === 0) {
+        return reply.status(400).send({
+          code: "NO_SCHEDULE_GRID",
+          error: "Configure the slot grid for this event first",
+        });
+      }
+      return reply.send({ plan });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to preview schedule" });
+    }
+  });
+
+  // Run and save
+  fastify.post("/schedule/apply", { config: { permission: "abstracts:manage" } }, async (request, reply) => {
+    const result = runPresentationScheduleSchema.safeParse(request.body);
+    if (!result.success) {
+      return reply
+        .status(400)
+        .send({ error: "Invalid input", details: result.error.flatten() });
+    }
+
+    const { eventId, mode, notify } = result.data;
+
+    try {
+      const { blocks, abstractList, plan } = await buildPlan(eventId, mode);
+      if (blocks.length === 0) {
+        return reply.status(400).send({
+          code: "NO_SCHEDULE_GRID",
+          error: "Configure the slot grid for this event first",
+        });
+      }
+
+      const changed = await applySchedulePlan(plan);
+
+      fastify.log.info(
+        `schedule: event ${eventId} ${mode} by staff ${request.user.id} — ${plan.stats.scheduled} scheduled, ${plan.stats.unscheduled} unscheduled, ${changed.length} changed, ${plan.conflicts.length} conflicts`,
+      );
+
+      const notifiable = changed.filter((a) => a.after && a.userId != null);
+      if (notify && notifiable.length > 0) {
+        const titles = new Map(abstractList.map((a) => [a.id, a.title]));
+        // Emails go out in the background; the response does not wait for them
+        notifyChangedPresenters(notifiable, titles).catch((error) =>
+          fastify.log.error({ err: error }, "schedule: notification task failed"),
+        );
+      }
+
+      return reply.send({
+        plan,
+        changed: changed.length,
+        notified: notify ? notifiable.length : 0,
+      });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to apply schedule" });
+    }
+  });
+
+  // Conflicts in the saved schedule
+  fastify.get("/schedule/conflicts", { config: { permission: "abstracts:manage" } }, async (request, reply) => {
+    const { eventId } = request.query as { eventId?: string };
+    if (!eventId || Number.isNaN(parseInt(eventId))) {
+      return reply.status(400).send({ error: "eventId is required" });
+    }
+
+    try {
+      const abstractList = await loadSchedulableAbstracts(parseInt(eventId));
+      const conflicts = detectScheduleConflicts(
+        abstractList.filter(hasPlacement).map((a) => ({
+          abstractId: a.id,
+          trackingId: a.trackingId,
+          userId: a.userId,
+          presentationType: a.presentationType,
+          placement: a.placement!,
+        })),
+      );
+      return reply.send({ conflicts });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to check schedule conflicts" });
+    }
+  });
+}
@@ -0,0 +1,156 @@
+/**
+ * Abstract submission grace periods (admin / organizer only)
+ *
+ * GET    /api/backoffice/abstracts/submission-overrides?eventId=1
+ * PUT    /api/backoffice/abstracts/submission-overrides        grant / extend
+ * DELETE /api/backoffice/abstracts/submission-overrides/:overrideId
+ *
+ * An override lets one user submit until `graceUntil` even when the event's
+ * abstract window is closed. Per-author limits still apply.
+ */
+import { FastifyInstance } from "fastify";
+import { desc, eq, sql } from "drizzle-orm";
+import { db } from "../../database/index.js";
+import {
+  abstractSubmissionOverrides,
+  backofficeUsers,
+  events,
+  users,
+} from "../../database/schema.js";
+import { abstractSubmissionOverrideSchema } from "../../schemas/abstracts.schema.js";
+import { eventOfSubmissionOverride } from "../../utils/authorization.js";
+
+export default async function (fastify: FastifyInstance) {
+  // List overrides for an event
+  fastify.get("/submission-overrides", { config: { permission: "abstracts:manage" } }, async (request, reply) => {
+    const { eventId } = request.query as { eventId?: string };
+    if (!eventId || Number.isNaN(parseInt(eventId))) {
+      return reply.status(400).send({ error: "eventId is required" });
+    }
+
+    try {
+      const overrides = await db
+        .select({
+          id: abstractSubmissionOverrides.id,
+          eventId: abstractSubmissionOverrides.eventId,
+          graceUntil: abstractSubmissionOverrides.graceUntil,
+          note: abstractSubmissionOverrides.note,
+          createdAt: abstractSubmissionOverrides.createdAt,
+          updatedAt: abstractSubmissionOverrides.updatedAt,
+          user: {
+            id: users.id,
+            firstName: users.firstName,
+            lastName: users.lastName,
+            email: users.email,
+          },
+          grantedBy: {
+            id: backofficeUsers.id,
+            firstName: backofficeUsers.firstName,
+            lastName: backofficeUsers.lastName,
+          },
+        })
+        .from(abstractSubmissionOverrides)
+        .innerJoin(users, eq(abstractSubmissionOverrides.userId, users.id))
+        .leftJoin(
+          backofficeUsers,
+          eq(abstractSubmissionOverrides.grantedBy, backofficeUsers.id),
+        )
+        .where(eq(abstractSubmissionOverrides.eventId, parseInt(eventId)))
+        .orderBy(desc(abstractSubmissionOverrides.updatedAt));
+
+      const now = new Date();
+      return reply.send({
+        overrides: overrides.map((o) => ({ ...o, active: o.graceUntil > now })),
+      });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to fetch submission overrides" });
+    }
+  });
+
+  // Grant or extend a grace period
+  fastify.put("/submission-overrides", { config: { permission: "abstracts:manage" } }, async (request, reply) => {
+    const result = abstractSubmissionOverrideSchema.safeParse(request.body);
+    if (!result.success) {
+      return reply
+        .status(400)
+        .send({ error: "Invalid input", details: result.error.flatten() });
+    }
+
+    const { eventId, userId, email, graceUntil, note } = result.data;
+
+    try {
+      const [event] = await db
+        .select({ id: events.id })
+        .from(events)
+        .where(eq(events.id, eventId))
+        .limit(1);
+      if (!event) {
+        return reply.status(404).send({ error: "Event not found" });
+      }
+
+      const [user] = await db
+        .select({ id: users.id, email: users.email })
+        .from(users)
+        .where(
+          userId != null
+            ? eq(users.id, userId)
+            : sql`LOWER(${users.email}) = ${email!.toLowerCase()}`,
+        )
+        .limit(1);
+      if (!user) {
+        return reply.status(404).send({ error: "User not found" });
+      }
+
+      const now = new Date();
+      const values = {
+        graceUntil: new Date(graceUntil),
+        note: note ?? null,
+        grantedBy: request.user.id,
+        updatedAt: now,
+      };
+
+      const [override] = await db
+        .insert(abstractSubmissionOverrides)
+        .values({ eventId, userId: user.id, ...values })
+        .onConflictDoUpdate({
+          target: [
+            abstractSubmissionOverrides.eventId,
+            abstractSubmissionOverrides.userId,
+          ],
+          set: values,
+        })
+        .returning();
+
+      fastify.log.info(
+        `Abstract submission grace period for user ${user.id} (${user.email}) on event ${eventId} set until ${values.graceUntil.toISOString()} by staff ${request.user.id}`,
+      );
+
+      return reply.send({ override });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to save submission override" });
+    }
+  });
+
+  // Revoke a grace period
+  fastify.delete("/submission-overrides/:overrideId", { config: { permission: "abstracts:manage", eventOf: eventOfSubmissionOverride("overrideId") } }, async (request, reply) => {
+    const { overrideId } = request.params as { overrideId: string };
+
+    try {
+      const [deleted] = await db
+        .delete(abstractSubmissionOverrides)
+        .where(eq(abstractSubmissionOverrides.id, parseInt(overrideId)))
+        .returning();
+
+      if (!deleted) {
+        return reply.status(404).send({ error: "Override not found" });
+      }
+
+      return reply.send({ success: true });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to delete submission override" });
+    }
+  });
+}
@@ -3,18 +3,46 @@ import { db } from "../../database/index.js";
 import {
   abstracts,
   abstractCoAuthors,
+  abstractReviews,
+  abstractDecisions,
+  backofficeUsers,
   events,
   users,
 } from "../../database/schema.js";
 import {
   abstractListSchema,
   updateAbstractStatusSchema,
+  submitAbstractReviewSchema,
+  abstractVersionDiffSchema,
 } from "../../schemas/abstracts.schema.js";
 import { eq, desc, ilike, and, or, count, inArray } from "drizzle-orm";
+import {
+  computeTotalScore,
+  emptyReviewSummary,
+  getReviewSummaries,
+  getReviewSummary,
+  getReviewedAbstractIds,
+  type ReviewSummary,
+} from "../../services/abstractReview.service.js";
+import {
+  canStaffAccessAbstract,
+  visibleToReviewerCondition,
+} from "../../services/reviewerAssignment.service.js";
+import {
+  diffAbstractVersions,
+  getAbstractVersion,
+  getAbstractVersions,
+} from "../../services/abstractVersion.service.js";
+import {
+  blindFullPaperUrl,
+  isBlindReviewFor,
+  redactAbstractForBlindReview,
+} from "../../utils/blindReview.js";
 import {
   sendAbstractAcceptedPosterEmail,
   sendAbstractAcceptedOralEmail,
   sendAbstractRejectedEmail,
+  sendAbstractRevisionRequestedEmail,
 } from "../../services/emailService.js";
 import {
   buildParticipantName,
@@ -22,10 +50,65 @@ import {
   renderAbstractAcceptPdf,
   titleCasePresentationType,
 } from "../../services/letter.service.js";
+import { eventOfAbstract } from "../../utils/authorization.js";
+
+type VersionAccess =
+  | {
+      abstract: { id: number; currentVersion: number };
+      blind: boolean;
+      author: { firstName: string; lastName: string; email: string } | null;
+    }
+  | { status: number; error: { code?: string; error: string } };
+
+/** Load an abstract for the version endpoints, applying reviewer scope and blind review. */
+async function loadVersionAccess(
+  abstractId: number,
+  user: { id: number; role: string; assignedCategories?: string[]; assignedPresentationTypes?: string[] },
+): Promise<VersionAccess> {
+  const [row] = await db
+    .select({
+      id: abstracts.id,
+      currentVersion: abstracts.currentVersion,
+      category: abstracts.category,
+      presentationType: abstracts.presentationType,
+      blindReview: events.blindReview,
+      authorFirstName: users.firstName,
+      authorLastName: users.lastName,
+      authorEmail: users.email,
+    })
+    .from(abstracts)
+    .leftJoin(events, eq(abstracts.eventId, events.id))
+    .leftJoin(users, eq(abstracts.userId, users.id))
+    .where(eq(abstracts.id, abstractId))
+    .limit(1);
+
+  if (!row) {
+    return { status: 404, error: { error: "Abstract not found" } };
+  }
+
+  if (!(await canStaffAccessAbstract(user, row))) {
+    return {
+      status: 403,
+      error: { code: "FORBIDDEN", error: "Abstract is not assigned to you" },
+    };
+  }
+
+  return {
+    abstract: { id: row.id, currentVersion: row.currentVersion },
+    blind: isBlindReviewFor(user.role, { blindReview: row.blindReview }),
+    author: row.authorEmail
+      ? {
+          firstName: row.authorFirstName ?? "",
+          lastName: row.authorLastName ?? "",
+          email: row.authorEmail,
+        }
+      : null,
+  };
+}
 
 export default async function (fastify: FastifyInstance) {
   // List Abstracts
-  fastify.get("", async (request, reply) => {
+  fastify.get("", { config: { permission: "abstracts:read" } }, async (request, reply) => {
     const queryResult = abstractListSchema.safeParse(request.query);
     if (!queryResult.success) {
       return reply
@@ -107,6 +190,9 @@ export default async function (fastify: FastifyInstance) {
           }
         }
         // If no presentation types assigned, reviewer can see all presentation types
+
+        // Once an abstract has assigned reviewers, only they can see it
+        conditions.push(visibleToReviewerCondition(user.id));
       }
       // Admin and other roles see all abstracts (no category filter applied)
 
@@ -116,13 +202,19 @@ export default async function (fastify: FastifyInstance) {
       if (presentationType)
         conditions.push(eq(abstracts.presentationType, presentationType));
       if (search) {
+        const authorMatch = or(
+          ilike(users.firstName, `%${search}%`),
+          ilike(users.middleName, `%${search}%`),
+          ilike(users.lastName, `%${search}%`),
+          ilike(users.email, `%${search}%`),
+        );
         conditions.push(
           or(
             ilike(abstracts.title, `%${search}%`),
-            ilike(users.firstName, `%${search}%`),
-            ilike(users.middleName, `%${search}%`),
-            ilike(users.lastName, `%${search}%`),
-            ilike(users.email, `%${search}%`),
+            // Reviewers must not be able to find blind-reviewed abstracts by author
+            user.role === "reviewer"
+              ? and(eq(events.blindReview, false), authorMatch)
+              : authorMatch,
           ),
         );
       }
@@ -135,6 +227,7 @@ export default async function (fastify: FastifyInstance) {
         .select({ totalCount: count() })
         .from(abstracts)
         .leftJoin(users, eq(abstracts.userId, users.id))
+        .leftJoin(events, eq(abstracts.eventId, events.id))
         .where(whereClause);
 
       // Fetch data
@@ -152,6 +245,7 @@ export default async function (fastify: FastifyInstance) {
           results: abstracts.results,
           conclusion: abstracts.conclusion,
           status: abstracts.status,
+          currentVersion: abstracts.currentVersion,
           fullPaperUrl: abstracts.fullPaperUrl,
           createdAt: abstracts.createdAt,
           author: {
@@ -166,6 +260,7 @@ export default async function (fastify: FastifyInstance) {
           event: {
             name: events.eventName,
             code: events.eventCode,
+            blindReview: events.blindReview,
           },
         })
         .from(abstracts)
@@ -186,11 +281,32 @@ export default async function (fastify: FastifyInstance) {
               .where(inArray(abstractCoAuthors.abstractId, abstractIds))
           : [];
 
-      // Merge co-authors with abstracts
-      const abstractsWithCoAuthors = abstractList.map((abs) => ({
-        ...abs,
-        coAuthors: coAuthorsList.filter((ca) => ca.abstractId === abs.id),
-      }));
+      // Reviewers only learn whether they have reviewed an abstract themselves;
+      // organizers/admins get the aggregated scores of all reviewers.
+      const isReviewer = user.role === "reviewer";
+      const reviewedIds = isReviewer
+        ? await getReviewedAbstractIds(user.id, abstractIds)
+        : new Set<number>();
+      const reviewSummaries = isReviewer
+        ? new Map<number, ReviewSummary>()
+        : await getReviewSummaries(abstractIds);
+
+      // Merge co-authors with abstracts (redacted for double-blind events)
+      const abstractsWithCoAuthors = abstractList.map((abs) => {
+        const merged = {
+          ...abs,
+          coAuthors: coAuthorsList.filter((ca) => ca.abstractId === abs.id),
+          ...(isReviewer
+            ? { reviewedByMe: reviewedIds.has(abs.id) }
+            : {
+                reviewSummary:
+                  reviewSummaries.get(abs.id) ?? emptyReviewSummary(),
+              }),
+        };
+        return isBlindReviewFor(user.role, abs.event)
+          ? redactAbstractForBlindReview(merged)
+          : merged;
+      });
 
       return reply.send({
         abstracts: abstractsWithCoAuthors,
@@ -208,7 +324,7 @@ export default async function (fastify: FastifyInstance) {
   });
 
   // Get Single Abstract by ID
-  fastify.get("/:id", async (request, reply) => {
+  fastify.get("/:id", { config: { permission: "abstracts:read", eventOf: eventOfAbstract() } }, async (request, reply) => {
     const { id } = request.params as { id: string };
 
     try {
@@ -226,6 +342,7 @@ export default async function (fastify: FastifyInstance) {
           results: abstracts.results,
           conclusion: abstracts.conclusion,
           status: abstracts.status,
+          currentVersion: abstracts.currentVersion,
           fullPaperUrl: abstracts.fullPaperUrl,
           createdAt: abstracts.createdAt,
           author: {
@@ -240,6 +357,7 @@ export default async function (fastify: FastifyInstance) {
           event: {
             name: events.eventName,
             code: events.eventCode,
+            blindReview: events.blindReview,
           },
         })
         .from(abstracts)
@@ -251,17 +369,49 @@ export default async function (fastify: FastifyInstance) {
         return reply.status(404).send({ error: "Abstract not found" });
       }
 
+      const user = request.user;
+      if (!(await canStaffAccessAbstract(user, abstractData))) {
+        return reply.status(403).send({
+          code: "FORBIDDEN",
+          error: "Abstract is not assigned to you",
+        });
+      }
+
       // Fetch co-authors for this abstract
       const coAuthors = await db
         .select()
         .from(abstractCoAuthors)
         .where(eq(abstractCoAuthors.abstractId, parseInt(id)));
 
+      // Reviewers see their own review; organizers/admins see the aggregate
+      let reviewFields = {};
+      if (user.role === "reviewer") {
+        const [myReview] = await db
+          .select()
+          .from(abstractReviews)
+          .where(
+            and(
+              eq(abstractReviews.abstractId, abstractData.id),
+              eq(abstractReviews.reviewerId, user.id),
+              eq(abstractReviews.version, abstractData.currentVersion),
+            ),
+          )
+          .limit(1);
+        reviewFields = { myReview: myReview ?? null };
+      } else {
+        reviewFields = { reviewSummary: await getReviewSummary(abstractData.id) };
+      }
+
+      const abstractPayload = {
+        ...abstractData,
+        coAuthors,
+        ...reviewFields,
+      };
+
       return reply.send({
-        abstract: {
-          ...abstractData,
-          coAuthors,
-        },
+        abstract: isBlindReviewFor(user.role, abstractData.event)
+          ? redactAbstractForBlindReview(abstractPayload)
+          : abstractPayload,
       });
     } catch (error) {
       fastify.log.error(error);
@@ -269,9 +419,291 @@ export default async function (fastify: FastifyInstance) {
     }
   });
 
-  // Update Abstract Status
-  fastify.patch("/:id/status", async (request, reply) => {
+  // List reviews of an abstract
+  // Organizers/admins see every review + the aggregate; reviewers only their own.
+  fastify.get("/:id/reviews", { config: { permission: "abstracts:read", eventOf: eventOfAbstract() } }, async (request, reply) => {
     const { id } = request.params as { id: string };
+    const abstractId = parseInt(id);
+    const user = request.user;
+
+    try {
+      const [abstractRow] = await db
+        .select({
+          id: abstracts.id,
+          category: abstracts.category,
+          presentationType: abstracts.presentationType,
+        })
+        .from(abstracts)
+        .where(eq(abstracts.id, abstractId))
+        .limit(1);
+
+      if (!abstractRow) {
+        return reply.status(404).send({ error: "Abstract not found" });
+      }
+
+      if (!(await canStaffAccessAbstract(user, abstractRow))) {
+        return reply.status(403).send({
+          code: "FORBIDDEN",
+          error: "Abstract is not assigned to you",
+        });
+      }
+
+      const conditions = [eq(abstractReviews.abstractId, abstractId)];
+      if (user.role === "reviewer") {
+        conditions.push(eq(abstractReviews.reviewerId, user.id));
+      }
+
+      const reviews = await db
+        .select({
+          id: abstractReviews.id,
+          version: abstractReviews.version,
+          originalityScore: abstractReviews.originalityScore,
+          methodologyScore: abstractReviews.methodologyScore,
+          relevanceScore: abstractReviews.relevanceScore,
+          clarityScore: abstractReviews.clarityScore,
+          totalScore: abstractReviews.totalScore,
+          recommendation: abstractReviews.recommendation,
+          comment: abstractReviews.comment,
+          reviewedAt: abstractReviews.reviewedAt,
+          updatedAt: abstractReviews.updatedAt,
+          reviewer: {
+            id: backofficeUsers.id,
+            firstName: backofficeUsers.firstName,
+            lastName: backofficeUsers.lastName,
+            email: backofficeUsers.email,
+          },
+        })
+        .from(abstractReviews)
+        .innerJoin(backofficeUsers, eq(abstractReviews.reviewerId, backofficeUsers.id))
+        .where(and(...conditions))
+        .orderBy(desc(abstractReviews.version), desc(abstractReviews.reviewedAt));
+
+      return reply.send({
+        reviews,
+        ...(user.role === "reviewer"
+          ? {}
+          : { summary: await getReviewSummary(abstractId) }),
+      });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to fetch reviews" });
+    }
+  });
+
+  // Submit (or update) the current reviewer's review
+  fastify.put("/:id/reviews", { config: { permission: "abstracts:review", eventOf: eventOfAbstract() } }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const abstractId = parseInt(id);
+    const user = request.user;
+
+    if (user.role !== "reviewer") {
+      return reply.status(403).send({
+        code: "FORBIDDEN",
+        error: "Only reviewers can submit abstract reviews",
+      });
+    }
+
+    const result = submitAbstractReviewSchema.safeParse(request.body);
+    if (!result.success) {
+      return reply
+        .status(400)
+        .send({ error: "Invalid input", details: result.error.flatten() });
+    }
+
+    const { recommendation, comment, ...scores } = result.data;
+
+    try {
+      const [abstractRow] = await db
+        .select({
+          id: abstracts.id,
+          status: abstracts.status,
+          currentVersion: abstracts.currentVersion,
+          category: abstracts.category,
+          presentationType: abstracts.presentationType,
+        })
+        .from(abstracts)
+        .where(eq(abstracts.id, abstractId))
+        .limit(1);
+
+      if (!abstractRow) {
+        return reply.status(404).send({ error: "Abstract not found" });
+      }
+
+      if (!(await canStaffAccessAbstract(user, abstractRow))) {
+        return reply.status(403).send({
+          code: "FORBIDDEN",
+          error: "Abstract is not assigned to you",
+        });
+      }
+
+      if (abstractRow.status === "revision_requested") {
+        return reply.status(409).send({
+          code: "ABSTRACT_AWAITING_REVISION",
+          error: "This abstract is waiting for the author's revised version",
+        });
+      }
+
+      if (abstractRow.status !== "pending") {
+        return reply.status(409).send({
+          code: "ABSTRACT_ALREADY_DECIDED",
+          error: "A final decision has already been made on this abstract",
+        });
+      }
+
+      const now = new Date();
+      const values = {
+        ...scores,
+        totalScore: computeTotalScore(scores),
+        recommendation,
+        comment: comment ?? null,
+        updatedAt: now,
+      };
+
+      const [review] = await db
+        .insert(abstractReviews)
+        .values({
+          abstractId,
+          reviewerId: user.id,
+          version: abstractRow.currentVersion,
+          ...values,
+        })
+        .onConflictDoUpdate({
+          target: [
+            abstractReviews.abstractId,
+            abstractReviews.reviewerId,
+            abstractReviews.version,
+          ],
+          set: values,
+        })
+        .returning();
+
+      return reply.send({ review });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to save review" });
+    }
+  });
+
+  // Submitted versions of an abstract (v1 = original submission)
+  fastify.get("/:id/versions", { config: { permission: "abstracts:read", eventOf: eventOfAbstract() } }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const abstractId = parseInt(id);
+    const user = request.user;
+
+    try {
+      const access = await loadVersionAccess(abstractId, user);
+      if ("error" in access) {
+        return reply.status(access.status).send(access.error);
+      }
+
+      const versions = await getAbstractVersions(abstractId);
+
+      return reply.send({
+        currentVersion: access.abstract.currentVersion,
+        versions: access.blind
+          ? versions.map(({ coAuthors, ...version }) => ({
+              ...version,
+              coAuthors: [],
+              fullPaperUrl: blindFullPaperUrl(version.fullPaperUrl, [
+                ...(access.author ? [access.author] : []),
+                ...(coAuthors ?? []),
+              ]),
+            }))
+          : versions,
+      });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to fetch abstract versions" });
+    }
+  });
+
+  // Word-level diff between two versions
+  // GET /:id/versions/diff?from=1&to=2
+  fastify.get("/:id/versions/diff", { config: { permission: "abstracts:read", eventOf: eventOfAbstract() } }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const abstractId = parseInt(id);
+    const user = request.user;
+
+    const queryResult = abstractVersionDiffSchema.safeParse(request.query);
+    if (!queryResult.success) {
+      return reply
+        .status(400)
+        .send({ error: "Invalid query", details: queryResult.error.flatten() });
+    }
+    const { from, to } = queryResult.data;
+
+    try {
+      const access = await loadVersionAccess(abstractId, user);
+      if ("error" in access) {
+        return reply.status(access.status).send(access.error);
+      }
+
+      const [fromVersion, toVersion] = await Promise.all([
+        getAbstractVersion(abstractId, from),
+        getAbstractVersion(abstractId, to),
+      ]);
+      if (!fromVersion || !toVersion) {
+        return reply.status(404).send({ error: "Abstract version not found" });
+      }
+
+      const diff = diffAbstractVersions(fromVersion, toVersion);
+      if (access.blind) {
+        // Co-author names would reveal identity; only say whether they changed
+        diff.coAuthors = { changed: diff.coAuthors.changed, added: [], removed: [] };
+      }
+
+      return reply.send({ diff });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to compare abstract versions" });
+    }
+  });
+
+  // Decision history for an abstract
+  fastify.get("/:id/decisions", { config: { permission: "abstracts:read", eventOf: eventOfAbstract() } }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    if (request.user.role === "reviewer") {
+      return reply.status(403).send({
+        code: "FORBIDDEN",
+        error: "Only organizers can view decision history",
+      });
+    }
+
+    try {
+      const decisions = await db
+        .select({
+          id: abstractDecisions.id,
+          previousStatus: abstractDecisions.previousStatus,
+          status: abstractDecisions.status,
+          comment: abstractDecisions.comment,
+          reviewCount: abstractDecisions.reviewCount,
+          averageScore: abstractDecisions.averageScore,
+          decidedAt: abstractDecisions.decidedAt,
+          decidedBy: {
+            id: backofficeUsers.id,
+            firstName: backofficeUsers.firstName,
+            lastName: backofficeUsers.lastName,
+            email: backofficeUsers.email,
+          },
+        })
+        .from(abstractDecisions)
+        .leftJoin(backofficeUsers, eq(abstractDecisions.decidedBy, backofficeUsers.id))
+        .where(eq(abstractDecisions.abstractId, parseInt(id)))
+        .orderBy(desc(abstractDecisions.decidedAt));
+
+      return reply.send({ decisions });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to fetch decision history" });
+    }
+  });
+
+  // Update Abstract Status (final decision — admin/organizer only)
+  fastify.patch("/:id/status", { config: { permission: "abstracts:manage", eventOf: eventOfAbstract() } }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const staff = request.user;
+
     const result = updateAbstractStatusSchema.safeParse(request.body);
 
     if (!result.success) {
@@ -283,14 +715,47 @@ export default async function (fastify: FastifyInstance) {
     const { status, comment } = result.data;
 
     try {
-      const [updatedAbstract] = await db
-        .update(abstracts)
-        .set({ status, updatedAt: new Date() })
-        .where(eq(abstracts.id, parseInt(id)))
-        .returning();
+      const abstractId = parseInt(id);
+
+      const decided = await db.transaction(async (tx) => {
+        const [current] = await tx
+          .select({ status: abstracts.status })
+          .from(abstracts)
+          .where(eq(abstracts.id, abstractId))
+          .for("update");
+
+        if (!current) return null;
+
+        // The decision records the reviews as they stand when it commits
+        const summary = await getReviewSummary(abstractId, tx);
+
+        const [updated] = await tx
+          .update(abstracts)
+          .set({ status, updatedAt: new Date() })
+          .where(eq(abstracts.id, abstractId))
+          .returning();
+
+        await tx.insert(abstractDecisions).values({
+          abstractId,
+          previousStatus: current.status,
+          status,
+          comment: comment ?? null,
+          reviewCount: summary.reviewCount,
+          averageScore:
+            summary.averageScore == null ? null : String(summary.averageScore),
+          decidedBy: staff.id,
+        });
+
+        return { updatedAbstract: updated, summary };
+      });
 
-      if (!updatedAbstract)
+      if (!decided)
         return reply.status(404).send({ error: "Abstract not found" });
+      const { updatedAbstract, summary } = decided;
+
+      fastify.log.info(
+        `Abstract ${id} (${updatedAbstract.trackingId || "no-tracking-id"}) set to ${status} by staff ${staff.id} (${summary.reviewCount} reviews, avg ${summary.averageScore ?? "n/a"})`,
+      );
 
       // Get author information for email (skip if no userId)
       let author = null;
@@ -392,6 +857,34 @@ export default async function (fastify: FastifyInstance) {
               comment,
             );
             fastify.log.info(`Abstract rejected email sent to ${author.email}`);
+          } else if (status === "revision_requested") {
+            // Reviewer comments on the version being revised, sent anonymously
+            const reviewerComments = await db
+              .select({ comment: abstractReviews.comment })
+              .from(abstractReviews)
+              .where(
+                and(
+                  eq(abstractReviews.abstractId, updatedAbstract.id),
+                  eq(abstractReviews.version, updatedAbstract.currentVersion),
+                ),
+              )
+              .orderBy(abstractReviews.reviewedAt);
+
+            await sendAbstractRevisionRequestedEmail(
+              author.email,
+              author.firstName,
+              author.middleName,
+              author.lastName,
+              updatedAbstract.trackingId || String(updatedAbstract.id),
+              updatedAbstract.title,
+              comment,
+              reviewerComments
+                .map((r) => r.comment?.trim())
+                .filter((text): text is string => Boolean(text)),
+            );
+            fastify.log.info(
+              `Abstract revision requested email sent to ${author.email}`,
+            );
           }
         } catch (emailError) {
           fastify.log.error(
@@ -401,7 +894,7 @@ export default async function (fastify: FastifyInstance) {
         }
       }
 
-      return reply.send({ abstract: updatedAbstract });
+      return reply.send({ abstract: updatedAbstract, reviewSummary: summary });
     } catch (error) {
       fastify.log.error(error);
       return reply.status(500).send({ error: "Failed to update abstract" });
@@ -42,7 +42,7 @@ function validateRecipientsForGenerate(
 }
 
 export default async function (fastify: FastifyInstance) {
-  fastify.get("/templates", async (_request, reply) => {
+  fastify.get("/templates", { config: { permission: "certificates:send" } }, async (_request, reply) => {
     const templates = loadCertificateTemplates().map((template) => ({
       code: template.code,
       name: template.name,
@@ -55,7 +55,7 @@ export default async function (fastify: FastifyInstance) {
     return reply.send({ success: true, data: templates });
   });
 
-  fastify.post("/recipients/parse-upload", async (request, reply) => {
+  fastify.post("/recipients/parse-upload", { config: { permission: "certificates:send" } }, async (request, reply) => {
     const data = await request.file();
     if (!data) {
       return reply.status(400).send({
@@ -96,7 +96,7 @@ export default async function (fastify: FastifyInstance) {
     });
   });
 
-  fastify.post("/recipients/resolve", async (request, reply) => {
+  fastify.post("/recipients/resolve", { config: { permission: "certificates:send" } }, async (request, reply) => {
     const parsed = certificateResolveSchema.safeParse(request.body);
     if (!parsed.success) {
       return reply.status(400).send({
@@ -157,7 +157,7 @@ export default async function (fastify: FastifyInstance) {
     });
   });
 
-  fastify.post("/preview", async (request, reply) => {
+  fastify.post("/preview", { config: { permission: "certificates:send" } }, async (request, reply) => {
     const parsed = certificatePreviewSchema.safeParse(request.body);
     if (!parsed.success) {
       return reply.status(400).send({
@@ -181,7 +181,7 @@ export default async function (fastify: FastifyInstance) {
     return reply.send({ success: true, data: { recipients } });
   });
 
-  fastify.get("/preview/:templateCode/sample.pdf", async (request, reply) => {
+  fastify.get("/preview/:templateCode/sample.pdf", { config: { permission: "certificates:send" } }, async (request, reply) => {
     const { templateCode } = request.params as { templateCode: string };
     const { name } = request.query as { name?: string };
     const template = getCertificateTemplate(templateCode);
@@ -206,7 +206,7 @@ export default async function (fastify: FastifyInstance) {
       .send(pdf);
   });
 
-  fastify.post("/generate", async (request, reply) => {
+  fastify.post("/generate", { config: { permission: "certificates:send" } }, async (request, reply) => {
     const parsed = certificateGenerateSchema.safeParse(request.body);
     if (!parsed.success) {
       return reply.status(400).send({
@@ -259,7 +259,7 @@ export default async function (fastify: FastifyInstance) {
     }
   });
 
-  fastify.post("/send-email", async (request, reply) => {
+  fastify.post("/send-email", { config: { permission: "certificates:send" } }, async (request, reply) => {
     const parsed = certificateSendEmailSchema.safeParse(request.body);
     if (!parsed.success) {
       return reply.status(400).send({
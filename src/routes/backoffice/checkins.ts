@@ -25,7 +25,7 @@ const EARLY_CHECKIN_MINUTES = 60;
 
 export default async function (fastify: FastifyInstance) {
     // List Check-ins (reads from registration_sessions WHERE checkedInAt IS NOT NULL)
-    fastify.get("", async (request, reply) => {
+    fastify.get("", { config: { permission: "checkins:read" } }, async (request, reply) => {
         const queryResult = checkinListSchema.safeParse(request.query);
         if (!queryResult.success) {
             return reply.status(400).send({ error: "Invalid query", details: queryResult.error.flatten() });
@@ -104,7 +104,7 @@ export default async function (fastify: FastifyInstance) {
 
     // Check-in Stats (total registered vs checked-in, filterable by event/session)
     // When eventId is provided, also returns per-session breakdown
-    fastify.get("/stats", async (request, reply) => {
+    fastify.get("/stats", { config: { permission: "checkins:read" } }, async (request, reply) => {
         const queryResult = checkinStatsSchema.safeParse(request.query);
         if (!queryResult.success) {
             return reply.status(400).send({ error: "Invalid query", details: queryResult.error.flatten() });
@@ -203,7 +203,7 @@ export default async function (fastify: FastifyInstance) {
     //   2. { regCode, sessionId } → check-in specific session
     //   3. { regCode, checkInAll: true } → check-in all sessions at once
     //   4. { regCode, assignedSessionId } → staff-assigned fast scan (auto check-in)
-    fastify.post("", async (request, reply) => {
+    fastify.post("", { config: { permission: "checkins:write" } }, async (request, reply) => {
         const bodyResult = createCheckinSchema.safeParse(request.body);
         if (!bodyResult.success) {
             return reply.status(400).send({ error: "Invalid body", details: bodyResult.error.flatten() });
@@ -505,7 +505,7 @@ export default async function (fastify: FastifyInstance) {
     });
 
     // Undo Check-in (clear checked_in_at and checked_in_by)
-    fastify.post("/undo", async (request, reply) => {
+    fastify.post("/undo", { config: { permission: "checkins:write" } }, async (request, reply) => {
         const bodyResult = undoCheckinSchema.safeParse(request.body);
         if (!bodyResult.success) {
             return reply.status(400).send({ error: "Invalid body", details: bodyResult.error.flatten() });
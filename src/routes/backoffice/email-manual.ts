@@ -67,6 +67,7 @@ import {
   titleCasePresentationType,
 } from "../../services/letter.service.js";
 import { generateCertificatePdf } from "../../services/certificatePdf.service.js";
+import { buildPresenterSlotAttachment } from "../../services/calendar.service.js";
 import { buildCertificateFilename, formatCertificateName, sanitizeCertificateFilenamePart } from "../../utils/certificateName.js";
 import {
   parseAwardCertificateCsv,
@@ -594,7 +595,7 @@ async function getAbstractScheduleContext(abstractId: number) {
 export default async function emailManualRoutes(fastify: FastifyInstance) {
 
   // GET /templates — list all templates with metadata
-  fastify.get("/templates", async (_request, reply) => {
+  fastify.get("/templates", { config: { permission: "emails:send" } }, async (_request, reply) => {
     return reply.send({
       success: true,
       templates: Object.entries(TEMPLATE_CONFIG).map(([id, cfg]) => ({ id, ...cfg })),
@@ -604,6 +605,7 @@ export default async function emailManualRoutes(fastify: FastifyInstance) {
   // GET /participation-certificate/:id.pdf — preview personalized PDF (auth required)
   fastify.get<{ Params: { id: string } }>(
     "/participation-certificate/:id.pdf",
+    { config: { permission: "emails:send" } },
     async (request, reply) => {
       const numId = parseInt(request.params.id, 10);
       if (isNaN(numId)) {
@@ -678,7 +680,7 @@ export default async function emailManualRoutes(fastify: FastifyInstance) {
   );
 
   // POST /parse-upload — parse 2-column CSV (Fullname, Email) for award certificate templates
-  fastify.post("/parse-upload", async (request, reply) => {
+  fastify.post("/parse-upload", { config: { permission: "emails:send" } }, async (request, reply) => {
     const { template } = request.query as { template?: string };
     if (!template) {
       return reply.status(400).send({ success: false, error: "template query parameter is required" });
@@ -738,6 +740,7 @@ export default async function emailManualRoutes(fastify: FastifyInstance) {
   // GET /upload-certificate/:template/preview.pdf?fullName=... — preview upload CSV certificate PDF
   fastify.get<{ Params: { template: string }; Querystring: { fullName?: string } }>(
     "/upload-certificate/:template/preview.pdf",
+    { config: { permission: "emails:send" } },
     async (request, reply) => {
       const { template } = request.params;
       const fullName = (request.query.fullName ?? "").trim();
@@ -777,7 +780,7 @@ export default async function emailManualRoutes(fastify: FastifyInstance) {
   );
 
   // GET /search?type=user|order|registration|abstract&q=<search>
-  fastify.get("/search", async (request, reply) => {
+  fastify.get("/search", { config: { permission: "emails:send" } }, async (request, reply) => {
     const { type, q } = request.query as { type?: string; q?: string };
     const term = (q ?? "").trim();
     if (!type || term.length < 1) {
@@ -905,7 +908,7 @@ export default async function emailManualRoutes(fastify: FastifyInstance) {
 
   // GET /recipients?template=...&q=...
   // Returns all recipients pre-filtered for the given template
-  fastify.get("/recipients", async (request, reply) => {
+  fastify.get("/recipients", { config: { permission: "emails:send" } }, async (request, reply) => {
     const { template, q } = request.query as { template?: string; q?: string };
     if (!template) return reply.status(400).send({ success: false, error: "template is required" });
     const cfg = TEMPLATE_CONFIG[template as TemplateId];
@@ -1148,7 +1151,7 @@ export default async function emailManualRoutes(fastify: FastifyInstance) {
   });
 
   // GET /render?template=...&id=...&comment=...&fullName=...&email=... (fullName/email for CSV award templates)
-  fastify.get("/render", async (request, reply) => {
+  fastify.get("/render", { config: { permission: "emails:send" } }, async (request, reply) => {
     const { template, id, comment, fullName, email } = request.query as {
       template?: string;
       id?: string;
@@ -1532,7 +1535,7 @@ export default async function emailManualRoutes(fastify: FastifyInstance) {
   });
 
   // POST / — { template, recipientIds, dryRun, comment?, uploadRecipients? }
-  fastify.post("/", async (request, reply) => {
+  fastify.post("/", { config: { permission: "emails:send" } }, async (request, reply) => {
     const body = request.body as {
       template: string;
       recipientIds: number[];
@@ -1934,6 +1937,7 @@ export default async function emailManualRoutes(fastify: FastifyInstance) {
                 ctx.presentationType,
                 ctx.scheduleLines,
                 attachment ?? undefined,
+                await buildPresenterSlotAttachment(ctx.ab.id),
               );
 
               fastify.log.info(
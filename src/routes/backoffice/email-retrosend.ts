@@ -446,7 +446,7 @@ export default async function (fastify: FastifyInstance) {
    *   toDate?: string              (ISO, for type=signup | abstract-submission)
    *   abstractIds?: number[]       (for type=abstract-status)
    */
-  fastify.post("", async (request, reply) => {
+  fastify.post("", { config: { permission: "emails:send" } }, async (request, reply) => {
     const body = request.body as {
       type: RetrosendType;
       dryRun?: boolean;
@@ -512,7 +512,7 @@ export default async function (fastify: FastifyInstance) {
    * GET /api/backoffice/email-retrosend/render?type=payment&id=207
    * Returns rendered email HTML for preview (does NOT send any email)
    */
-  fastify.get("/render", async (request, reply) => {
+  fastify.get("/render", { config: { permission: "emails:send" } }, async (request, reply) => {
     const { type, id } = request.query as { type: string; id: string };
     const numId = parseInt(id);
 
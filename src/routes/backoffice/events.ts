@@ -89,7 +89,7 @@ export default async function (fastify: FastifyInstance) {
   // ============================================================================
 
   // List Events with pagination and filters
-  fastify.get("", async (request, reply) => {
+  fastify.get("", { config: { permission: "events:read" } }, async (request, reply) => {
     const queryResult = eventQuerySchema.safeParse(request.query);
     if (!queryResult.success) {
       return reply
@@ -176,7 +176,7 @@ export default async function (fastify: FastifyInstance) {
   });
 
   // Get Single Event by ID (with sessions and tickets)
-  fastify.get("/:id", async (request, reply) => {
+  fastify.get("/:id", { config: { permission: "events:read", eventParam: "id" } }, async (request, reply) => {
     const { id } = request.params as { id: string };
 
     try {
@@ -277,7 +277,7 @@ export default async function (fastify: FastifyInstance) {
   });
 
   // Create Event
-  fastify.post("", async (request, reply) => {
+  fastify.post("", { config: { permission: "events:write" } }, async (request, reply) => {
     const result = createEventSchema.safeParse(request.body);
     if (!result.success) {
       return reply
@@ -326,6 +326,12 @@ export default async function (fastify: FastifyInstance) {
           abstractEndDate: data.abstractEndDate
             ? new Date(new Date(data.abstractEndDate).setHours(0, 0, 0, 0))
             : null,
+          blindReview: data.blindReview,
+          currencies: data.currencies ? [...new Set(data.currencies)] : undefined,
+          maxAbstractsPerAuthor: data.maxAbstractsPerAuthor ?? null,
+          maxOralAbstractsPerAuthor: data.maxOralAbstractsPerAuthor ?? null,
+          maxPosterAbstractsPerAuthor: data.maxPosterAbstractsPerAuthor ?? null,
+          abstractValidationProfile: data.abstractValidationProfile ?? null,
           documents: data.documents,
         })
         .returning();
@@ -338,7 +344,7 @@ export default async function (fastify: FastifyInstance) {
   });
 
   // Update Event
-  fastify.patch("/:id", async (request, reply) => {
+  fastify.patch("/:id", { config: { permission: "events:write", eventParam: "id" } }, async (request, reply) => {
     const { id } = request.params as { id: string };
     const result = updateEventSchema.safeParse(request.body);
     if (!result.success) {
@@ -405,7 +411,7 @@ export default async function (fastify: FastifyInstance) {
   });
 
   // Delete Event
-  fastify.delete("/:id", async (request, reply) => {
+  fastify.delete("/:id", { config: { permission: "events:write", eventParam: "id" } }, async (request, reply) => {
     const { id } = request.params as { id: string };
     const eventId = parseInt(id);
 
@@ -459,7 +465,7 @@ export default async function (fastify: FastifyInstance) {
   // ============================================================================
 
   // List Sessions for an Event
-  fastify.get("/:eventId/sessions", async (request, reply) => {
+  fastify.get("/:eventId/sessions", { config: { permission: "events:read" } }, async (request, reply) => {
     const { eventId } = request.params as { eventId: string };
 
     try {
@@ -508,7 +514,7 @@ export default async function (fastify: FastifyInstance) {
   });
 
   // Create Session
-  fastify.post("/:eventId/sessions", async (request, reply) => {
+  fastify.post("/:eventId/sessions", { config: { permission: "events:write" } }, async (request, reply) => {
     const { eventId } = request.params as { eventId: string };
     const result = createSessionSchema.safeParse(request.body);
     if (!result.success) {
@@ -574,7 +580,7 @@ export default async function (fastify: FastifyInstance) {
   });
 
   // Update Session
-  fastify.patch("/:eventId/sessions/:sessionId", async (request, reply) => {
+  fastify.patch("/:eventId/sessions/:sessionId", { config: { permission: "events:write" } }, async (request, reply) => {
     const { eventId, sessionId } = request.params as {
       eventId: string;
       sessionId: string;
@@ -639,7 +645,7 @@ export default async function (fastify: FastifyInstance) {
   });
 
   // Delete Session
-  fastify.delete("/:eventId/sessions/:sessionId", async (request, reply) => {
+  fastify.delete("/:eventId/sessions/:sessionId", { config: { permission: "events:write" } }, async (request, reply) => {
     const { sessionId } = request.params as {
       eventId: string;
       sessionId: string;
@@ -665,6 +671,7 @@ export default async function (fastify: FastifyInstance) {
   // Get Session Enrollments (people registered for this session)
   fastify.get(
     "/:eventId/sessions/:sessionId/enrollments",
+    { config: { permission: "events:read" } },
     async (request, reply) => {
       const { sessionId } = request.params as {
         eventId: string;
@@ -715,7 +722,7 @@ export default async function (fastify: FastifyInstance) {
   // ============================================================================
 
   // List Ticket Types for an Event
-  fastify.get("/:eventId/tickets", async (request, reply) => {
+  fastify.get("/:eventId/tickets", { config: { permission: "events:read" } }, async (request, reply) => {
     const { eventId } = request.params as { eventId: string };
 
     try {
@@ -757,7 +764,7 @@ export default async function (fastify: FastifyInstance) {
   });
 
   // Create Ticket Type
-  fastify.post("/:eventId/tickets", async (request, reply) => {
+  fastify.post("/:eventId/tickets", { config: { permission: "events:write" } }, async (request, reply) => {
     const { eventId } = request.params as { eventId: string };
     const result = createTicketTypeSchema.safeParse(request.body);
     if (!result.success) {
@@ -838,7 +845,7 @@ export default async function (fastify: FastifyInstance) {
   });
 
   // Update Ticket Type
-  fastify.patch("/:eventId/tickets/:ticketId", async (request, reply) => {
+  fastify.patch("/:eventId/tickets/:ticketId", { config: { permission: "events:write" } }, async (request, reply) => {
     const { ticketId } = request.params as {
       eventId: string;
       ticketId: string;
@@ -947,7 +954,7 @@ export default async function (fastify: FastifyInstance) {
   });
 
   // Delete Ticket Type
-  fastify.delete("/:eventId/tickets/:ticketId", async (request, reply) => {
+  fastify.delete("/:eventId/tickets/:ticketId", { config: { permission: "events:write" } }, async (request, reply) => {
     const { ticketId } = request.params as {
       eventId: string;
       ticketId: string;
@@ -975,7 +982,7 @@ export default async function (fastify: FastifyInstance) {
   // ============================================================================
 
   // Add venue image
-  fastify.post("/:eventId/images", async (request, reply) => {
+  fastify.post("/:eventId/images", { config: { permission: "events:write" } }, async (request, reply) => {
     const { eventId } = request.params as { eventId: string };
     const {
       imageUrl,
@@ -1021,7 +1028,7 @@ export default async function (fastify: FastifyInstance) {
   });
 
   // Delete venue image
-  fastify.delete("/:eventId/images/:imageId", async (request, reply) => {
+  fastify.delete("/:eventId/images/:imageId", { config: { permission: "events:write" } }, async (request, reply) => {
     const { imageId } = request.params as { eventId: string; imageId: string };
 
     try {
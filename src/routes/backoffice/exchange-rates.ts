@@ -0,0 +1,139 @@
+/**
+ * Exchange rates used to charge orders in another currency than they are priced in
+ *
+ * GET    /api/backoffice/exchange-rates?base=USD&quote=THB   every rate entered, newest first
+ * GET    /api/backoffice/exchange-rates/current               the rate in force for each pair
+ * POST   /api/backoffice/exchange-rates                       enter a rate (admin only)
+ * PATCH  /api/backoffice/exchange-rates/:id                   change a rate not yet in force (admin only)
+ * DELETE /api/backoffice/exchange-rates/:id                   withdraw a rate not yet in force (admin only)
+ *
+ * Orders keep the rate they were charged at, so a new rate never changes past orders.
+ */
+import { FastifyInstance, FastifyReply } from "fastify";
+import {
+    createExchangeRateSchema,
+    exchangeRateQuerySchema,
+    updateExchangeRateSchema,
+} from "../../schemas/exchangeRate.schema.js";
+import {
+    createExchangeRate,
+    deleteExchangeRate,
+    getCurrentExchangeRates,
+    listExchangeRates,
+    updateExchangeRate,
+} from "../../services/exchangeRate.service.js";
+
+const EXCHANGE_RATE_ERRORS: Record<string, { status: number; error: string }> = {
+    EXCHANGE_RATE_NOT_FOUND: { status: 404, error: "Exchange rate not found" },
+    EXCHANGE_RATE_DUPLICATE: { status: 409, error: "A rate for this pair already starts at that time" },
+    EXCHANGE_RATE_ALREADY_EFFECTIVE: {
+        status: 409,
+        error: "This rate is already in force. Enter a new rate instead.",
+    },
+};
+
+function sendExchangeRateError(reply: FastifyReply, error: unknown): boolean {
+    const code = error instanceof Error ? error.message : "";
+    const mapped = EXCHANGE_RATE_ERRORS[code];
+    if (!mapped) return false;
+    reply.status(mapped.status).send({ code, error: mapped.error });
+    return true;
+}
+
+export default async function (fastify: FastifyInstance) {
+    fastify.get("", { config: { permission: "exchange_rates:read" } }, async (request, reply) => {
+        const queryResult = exchangeRateQuerySchema.safeParse(request.query);
+        if (!queryResult.success) {
+            return reply
+                .status(400)
+                .send({ error: "Invalid query", details: queryResult.error.flatten() });
+        }
+
+        try {
+            const rates = await listExchangeRates({
+                baseCurrency: queryResult.data.base,
+                quoteCurrency: queryResult.data.quote,
+            });
+            return reply.send({ rates });
+        } catch (error) {
+            fastify.log.error(error);
+            return reply.status(500).send({ error: "Failed to fetch exchange rates" });
+        }
+    });
+
+    fastify.get("/current", { config: { permission: "exchange_rates:read" } }, async (_request, reply) => {
+        try {
+            const rates = await getCurrentExchangeRates();
+            return reply.send({ rates });
+        } catch (error) {
+            fastify.log.error(error);
+            return reply.status(500).send({ error: "Failed to fetch exchange rates" });
+        }
+    });
+
+    fastify.post("", { config: { permission: "exchange_rates:write" } }, async (request, reply) => {
+        const result = createExchangeRateSchema.safeParse(request.body);
+        if (!result.success) {
+            return reply
+                .status(400)
+                .send({ error: "Invalid input", details: result.error.flatten() });
+        }
+
+        try {
+            const rate = await createExchangeRate({
+                ...result.data,
+                effectiveFrom: result.data.effectiveFrom ?? new Date(),
+                staffId: request.user.id,
+            });
+            fastify.log.info(
+                `exchange rate: 1 ${rate.baseCurrency} = ${rate.rate} ${rate.quoteCurrency} from ${rate.effectiveFrom.toISOString()} by staff ${request.user.id}`
+            );
+            return reply.status(201).send({ rate });
+        } catch (error) {
+            if (sendExchangeRateError(reply, error)) return reply;
+            fastify.log.error(error);
+            return reply.status(500).send({ error: "Failed to create exchange rate" });
+        }
+    });
+
+    fastify.patch("/:id", { config: { permission: "exchange_rates:write" } }, async (request, reply) => {
+        const rateId = parseInt((request.params as { id: string }).id, 10);
+        if (isNaN(rateId)) {
+            return reply.status(400).send({ error: "Invalid exchange rate ID" });
+        }
+
+        const result = updateExchangeRateSchema.safeParse(request.body);
+        if (!result.success) {
+            return reply
+                .status(400)
+                .send({ error: "Invalid input", details: result.error.flatten() });
+        }
+
+        try {
+            const rate = await updateExchangeRate(rateId, result.data);
+            fastify.log.info(`exchange rate: ${rateId} updated by staff ${request.user.id}`);
+            return reply.send({ rate });
+        } catch (error) {
+            if (sendExchangeRateError(reply, error)) return reply;
+            fastify.log.error(error);
+            return reply.status(500).send({ error: "Failed to update exchange rate" });
+        }
+    });
+
+    fastify.delete("/:id", { config: { permission: "exchange_rates:write" } }, async (request, reply) => {
+        const rateId = parseInt((request.params as { id: string }).id, 10);
+        if (isNaN(rateId)) {
+            return reply.status(400).send({ error: "Invalid exchange rate ID" });
+        }
+
+        try {
+            await deleteExchangeRate(rateId);
+            fastify.log.info(`exchange rate: ${rateId} deleted by staff ${request.user.id}`);
+            return reply.send({ success: true });
+        } catch (error) {
+            if (sendExchangeRateError(reply, error)) return reply;
+            fastify.log.error(error);
+            return reply.status(500).send({ error: "Failed to delete exchange rate" });
+        }
+    });
+}
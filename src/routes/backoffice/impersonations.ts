@@ -0,0 +1,66 @@
+/**
+ * Audit trail of staff signing in as members (see POST /members/:id/impersonate)
+ *
+ * GET  /api/backoffice/impersonations?staffId=&userId=&page=&limit=   newest first, with status
+ * POST /api/backoffice/impersonations/:id/end                        end one early and sign out its session
+ */
+import { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { endImpersonation, listImpersonations } from "../../services/impersonation.service.js";
+import { eventOfImpersonation } from "../../utils/authorization.js";
+
+const listImpersonationsQuerySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  staffId: z.coerce.number().int().positive().optional(),
+  userId: z.coerce.number().int().positive().optional(),
+});
+
+export default async function (fastify: FastifyInstance) {
+  fastify.get("", { config: { permission: "members:impersonate" } }, async (request, reply) => {
+    const queryResult = listImpersonationsQuerySchema.safeParse(request.query);
+    if (!queryResult.success) {
+      return reply
+        .status(400)
+        .send({ success: false, error: "Invalid query", details: queryResult.error.flatten() });
+    }
+
+    const { page, limit, staffId, userId } = queryResult.data;
+
+    try {
+      const { impersonations, total } = await listImpersonations({ page, limit, staffId, userId });
+      return reply.send({
+        success: true,
+        impersonations,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ success: false, error: "Failed to fetch impersonations" });
+    }
+  });
+
+  fastify.post("/:id/end", { config: { permission: "members:impersonate", eventOf: eventOfImpersonation() } }, async (request, reply) => {
+    const impersonationId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(impersonationId)) {
+      return reply.status(400).send({ success: false, error: "Invalid impersonation ID" });
+    }
+
+    try {
+      const impersonation = await endImpersonation(impersonationId, "ended_by_staff", request.user.id);
+      if (!impersonation) {
+        return reply.status(404).send({ success: false, error: "Impersonation not found" });
+      }
+      fastify.log.info(`impersonation: ${impersonationId} ended by staff ${request.user.id}`);
+      return reply.send({ success: true, impersonation });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ success: false, error: "Failed to end impersonation" });
+    }
+  });
+}
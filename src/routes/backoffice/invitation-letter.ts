@@ -26,6 +26,7 @@ import {
   formatIssueDate,
   type LetterData,
 } from "../../services/letter.service.js";
+import { eventOfOrder } from "../../utils/authorization.js";
 
 export default async function (fastify: FastifyInstance) {
   async function loadOrderAndBuildData(
@@ -154,7 +155,7 @@ export default async function (fastify: FastifyInstance) {
   fastify.get<{
     Params: { orderId: string };
     Querystring: { name?: string; date?: string };
-  }>("/:orderId/invitation-letter.pdf", async (request, reply) => {
+  }>("/:orderId/invitation-letter.pdf", { config: { permission: "orders:read", eventOf: eventOfOrder("orderId") } }, async (request, reply) => {
     const orderId = Number(request.params.orderId);
     if (!orderId || isNaN(orderId)) {
       return reply
@@ -195,7 +196,7 @@ export default async function (fastify: FastifyInstance) {
   fastify.get<{
     Params: { orderId: string };
     Querystring: { name?: string; date?: string };
-  }>("/:orderId/invitation-letter.docx", async (request, reply) => {
+  }>("/:orderId/invitation-letter.docx", { config: { permission: "orders:read", eventOf: eventOfOrder("orderId") } }, async (request, reply) => {
     const orderId = Number(request.params.orderId);
     if (!orderId || isNaN(orderId)) {
       return reply
@@ -1,4 +1,4 @@
-import { FastifyInstance } from "fastify";
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
 import { db } from "../../database/index.js";
 import {
   backofficeUsers,
@@ -6,10 +6,235 @@ import {
   events,
   sessions,
 } from "../../database/schema.js";
-import { backofficeLoginSchema } from "../../schemas/backoffice.schema.js";
+import {
+  backofficeLoginSchema,
+  twoFactorChallengeSchema,
+  twoFactorLoginSchema,
+  twoFactorSetupConfirmSchema,
+} from "../../schemas/backoffice.schema.js";
 import bcrypt from "bcryptjs";
 import { eq, sql } from "drizzle-orm";
-import { JWT_EXPIRY } from "../../constants/auth.js";
+import { TOKEN_AUDIENCE } from "../../constants/auth.js";
+import { startSession } from "../../services/authSession.service.js";
+import {
+  beginEnrolment,
+  confirmEnrolment,
+  consumeLoginChallenge,
+  createLoginChallenge,
+  isTwoFactorRequired,
+  readLoginChallenge,
+  verifySecondFactor,
+} from "../../services/twoFactor.service.js";
+import {
+  activeLockUntil,
+  recordLoginFailure,
+  recordLoginSuccess,
+  type LoginAccount,
+} from "../../services/loginProtection.service.js";
+
+const TWO_FACTOR_ERRORS: Record<string, { status: number; error: string }> = {
+  TWO_FACTOR_CODE_INVALID: { status: 401, error: "Invalid or already used code" },
+  TWO_FACTOR_NOT_ENABLED: { status: 409, error: "Two-factor authentication is not set up for this account" },
+  TWO_FACTOR_ALREADY_ENABLED: { status: 409, error: "Two-factor authentication is already set up" },
+  TWO_FACTOR_NOT_STARTED: { status: 409, error: "Start two-factor setup first" },
+};
+
+function sendTwoFactorError(reply: FastifyReply, error: unknown): boolean {
+  const code = error instanceof Error ? error.message : "";
+  const mapped = TWO_FACTOR_ERRORS[code];
+  if (!mapped) return false;
+  reply.status(mapped.status).send({ success: false, code, error: mapped.error });
+  return true;
+}
+
+// Second-step attempts are limited per account (the staff id leads the challenge token)
+const secondStepRateLimit = {
+  max: 5,
+  timeWindow: "1 minute",
+  keyGenerator: (request: FastifyRequest) => {
+    const body = request.body as { challengeToken?: string } | undefined;
+    const staffId = body?.challengeToken?.split(".")[0];
+    return staffId ? `staff-2fa:${staffId}` : request.ip;
+  },
+};
+
+type StaffAccount = typeof backofficeUsers.$inferSelect;
+
+/**
+ * Active staff member behind an open login challenge, or null when it is
+ * invalid, expired, already used or replaced by a newer sign-in
+ */
+async function loadChallengedStaff(challengeToken: string): Promise<StaffAccount | null> {
+  const challenge = readLoginChallenge(challengeToken);
+  if (!challenge) return null;
+
+  const [staff] = await db
+    .select()
+    .from(backofficeUsers)
+    .where(eq(backofficeUsers.id, challenge.staffId))
+    .limit(1);
+  if (!staff || !staff.isActive || staff.loginChallengeNonce !== challenge.nonce) return null;
+  return staff;
+}
+
+function loginAccountOf(staff: StaffAccount): LoginAccount {
+  return { owner: { staffId: staff.id }, email: staff.email, firstName: staff.firstName };
+}
+
+/**
+ * Locked accounts get the same answer as a wrong password so the response does
+ * not reveal which emails have an account; the lockout email tells the owner.
+ */
+function sendInvalidCredentials(reply: FastifyReply) {
+  return reply.status(401).send({
+    success: false,
+    error: "Invalid email or password",
+  });
+}
+
+/**
+ * Run a code check for a challenged staff member. It is refused while the
+ * account is locked, and wrong codes count towards the lockout like wrong
+ * passwords. Returns null when the account is (or has just become) locked.
+ */
+async function checkChallengeCode<T>(
+  request: FastifyRequest,
+  staff: StaffAccount,
+  check: () => Promise<T>
+): Promise<{ value: T } | null> {
+  const account = loginAccountOf(staff);
+  if (activeLockUntil(staff.lockedUntil)) {
+    await recordLoginFailure(request, TOKEN_AUDIENCE.backoffice, staff.email, account, "locked");
+    return null;
+  }
+
+  try {
+    return { value: await check() };
+  } catch (error) {
+    if (error instanceof Error && error.message === "TWO_FACTOR_CODE_INVALID") {
+      const lockedNow = await recordLoginFailure(
+        request,
+        TOKEN_AUDIENCE.backoffice,
+        staff.email,
+        account,
+        "invalid_second_factor"
+      );
+      if (lockedNow) return null;
+    }
+    throw error;
+  }
+}
+
+function sendChallengeExpired(reply: FastifyReply) {
+  return reply.status(401).send({
+    success: false,
+    code: "TWO_FACTOR_CHALLENGE_INVALID",
+    error: "Sign-in expired - please enter your password again",
+  });
+}
+
+/** Start the staff session once every login step has passed */
+async function completeLogin(
+  fastify: FastifyInstance,
+  request: FastifyRequest,
+  staff: StaffAccount
+) {
+  await recordLoginSuccess(request, TOKEN_AUDIENCE.backoffice, staff.email, loginAccountOf(staff));
+
+  // Assigned events + sessions (skip for admin)
+  let assignedEvents: { id: number; code: string; name: string }[] = [];
+  let assignedSessions: {
+    eventId: number;
+    sessionId: number;
+    sessionName: string;
+    sessionType: string | null;
+    room: string | null;
+    startTime: Date;
+    endTime: Date;
+  }[] = [];
+
+  if (staff.role !== "admin") {
+    const rawAssignments = await db
+      .select({
+        eventId: events.id,
+        eventCode: events.eventCode,
+        eventName: events.eventName,
+        sessionId: staffEventAssignments.sessionId,
+      })
+      .from(staffEventAssignments)
+      .innerJoin(events, eq(staffEventAssignments.eventId, events.id))
+      .where(eq(staffEventAssignments.staffId, staff.id));
+
+    // Deduplicate events
+    const eventMap = new Map<number, { id: number; code: string; name: string }>();
+    const sessionIdsToFetch: number[] = [];
+    for (const a of rawAssignments) {
+      if (!eventMap.has(a.eventId)) {
+        eventMap.set(a.eventId, { id: a.eventId, code: a.eventCode, name: a.eventName });
+      }
+      if (a.sessionId) sessionIdsToFetch.push(a.sessionId);
+    }
+    assignedEvents = Array.from(eventMap.values());
+
+    // Fetch session details if any session-level assignments exist
+    if (sessionIdsToFetch.length > 0) {
+      const { inArray } = await import("drizzle-orm");
+      const sessionRows = await db
+        .select({
+          id: sessions.id,
+          eventId: sessions.eventId,
+          sessionName: sessions.sessionName,
+          sessionType: sessions.sessionType,
+          room: sessions.room,
+          startTime: sessions.startTime,
+          endTime: sessions.endTime,
+        })
+        .from(sessions)
+        .where(inArray(sessions.id, sessionIdsToFetch));
+
+      assignedSessions = sessionRows.map((s) => ({
+        eventId: s.eventId,
+        sessionId: s.id,
+        sessionName: s.sessionName,
+        sessionType: s.sessionType,
+        room: s.room,
+        startTime: s.startTime,
+        endTime: s.endTime,
+      }));
+    }
+  }
+
+  // Sign JWT (include assignedCategories and assignedPresentationTypes for reviewers)
+  const { token, refreshToken } = await startSession(
+    fastify,
+    request,
+    TOKEN_AUDIENCE.backoffice,
+    {
+      id: staff.id,
+      email: staff.email,
+      role: staff.role,
+      assignedCategories: staff.assignedCategories || [],
+      assignedPresentationTypes: staff.assignedPresentationTypes || [],
+    }
+  );
+
+  return {
+    success: true,
+    token,
+    refreshToken,
+    user: {
+      id: staff.id,
+      email: staff.email,
+      firstName: staff.firstName,
+      lastName: staff.lastName,
+      role: staff.role,
+      assignedEvents,
+      assignedSessions,
+      assignedCategories: staff.assignedCategories || [],
+      assignedPresentationTypes: staff.assignedPresentationTypes || [],
+    },
+  };
+}
 
 export default async function (fastify: FastifyInstance) {
   fastify.post("/login", async (request, reply) => {
@@ -43,124 +268,148 @@ export default async function (fastify: FastifyInstance) {
 
 
       if (staffList.length === 0) {
-        return reply.status(401).send({
-          success: false,
-          error: "Invalid email or password",
-        });
+        await recordLoginFailure(request, TOKEN_AUDIENCE.backoffice, email, null, "unknown_account");
+        return sendInvalidCredentials(reply);
       }
 
       const staff = staffList[0];
 
-      // 3. Check active status
+      const account = loginAccountOf(staff);
+
+      // 3. Check active status and lockout
       if (!staff.isActive) {
+        await recordLoginFailure(request, TOKEN_AUDIENCE.backoffice, email, account, "inactive");
         return reply.status(403).send({
           success: false,
           error: "Account is disabled",
         });
       }
 
-      // 4. Verify password
+      if (activeLockUntil(staff.lockedUntil)) {
+        await recordLoginFailure(request, TOKEN_AUDIENCE.backoffice, email, account, "locked");
+        return sendInvalidCredentials(reply);
+      }
+
+      // 4. Verify password (repeated failures lock the account)
       const isValid = await bcrypt.compare(password, staff.passwordHash);
 
       if (!isValid) {
-        return reply.status(401).send({
-          success: false,
-          error: "Invalid email or password",
+        await recordLoginFailure(request, TOKEN_AUDIENCE.backoffice, email, account, "invalid_password");
+        return sendInvalidCredentials(reply);
+      }
+
+      // 5. Second factor: enrolled staff, or staff whose role requires it, continue at /login/2fa
+      if (staff.totpEnabledAt || (await isTwoFactorRequired(staff.role))) {
+        return reply.send({
+          success: true,
+          twoFactorRequired: !!staff.totpEnabledAt,
+          twoFactorSetupRequired: !staff.totpEnabledAt,
+          challengeToken: await createLoginChallenge(staff.id),
         });
       }
 
-      // 5. Get assigned events + sessions (skip for admin)
-      let assignedEvents: { id: number; code: string; name: string }[] = [];
-      let assignedSessions: {
-        eventId: number;
-        sessionId: number;
-        sessionName: string;
-        sessionType: string | null;
-        room: string | null;
-        startTime: Date;
-        endTime: Date;
-      }[] = [];
-
-      if (staff.role !== "admin") {
-        const rawAssignments = await db
-          .select({
-            eventId: events.id,
-            eventCode: events.eventCode,
-            eventName: events.eventName,
-            sessionId: staffEventAssignments.sessionId,
-          })
-          .from(staffEventAssignments)
-          .innerJoin(events, eq(staffEventAssignments.eventId, events.id))
-          .where(eq(staffEventAssignments.staffId, staff.id));
-
-        // Deduplicate events
-        const eventMap = new Map<number, { id: number; code: string; name: string }>();
-        const sessionIdsToFetch: number[] = [];
-        for (const a of rawAssignments) {
-          if (!eventMap.has(a.eventId)) {
-            eventMap.set(a.eventId, { id: a.eventId, code: a.eventCode, name: a.eventName });
-          }
-          if (a.sessionId) sessionIdsToFetch.push(a.sessionId);
-        }
-        assignedEvents = Array.from(eventMap.values());
-
-        // Fetch session details if any session-level assignments exist
-        if (sessionIdsToFetch.length > 0) {
-          const { inArray } = await import("drizzle-orm");
-          const sessionRows = await db
-            .select({
-              id: sessions.id,
-              eventId: sessions.eventId,
-              sessionName: sessions.sessionName,
-              sessionType: sessions.sessionType,
-              room: sessions.room,
-              startTime: sessions.startTime,
-              endTime: sessions.endTime,
-            })
-            .from(sessions)
-            .where(inArray(sessions.id, sessionIdsToFetch));
-
-          assignedSessions = sessionRows.map((s) => ({
-            eventId: s.eventId,
-            sessionId: s.id,
-            sessionName: s.sessionName,
-            sessionType: s.sessionType,
-            room: s.room,
-            startTime: s.startTime,
-            endTime: s.endTime,
-          }));
-        }
+      // 6. Sign in
+      return reply.send(await completeLogin(fastify, request, staff));
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  });
+
+  // Second step: authenticator code or recovery code
+  fastify.post("/login/2fa", { config: { rateLimit: secondStepRateLimit } }, async (request, reply) => {
+    const result = twoFactorLoginSchema.safeParse(request.body);
+    if (!result.success) {
+      return reply.status(400).send({
+        success: false,
+        code: "VALIDATION_ERROR",
+        error: "Invalid input",
+        details: result.error.flatten(),
+      });
+    }
+
+    try {
+      const staff = await loadChallengedStaff(result.data.challengeToken);
+      if (!staff) return sendChallengeExpired(reply);
+
+      // A locked account starts over at the password step, which answers like a wrong password
+      const checked = await checkChallengeCode(request, staff, () => verifySecondFactor(staff.id, result.data));
+      if (!checked) return sendChallengeExpired(reply);
+      const method = checked.value;
+
+      // One sign-in per challenge, even for a replayed request with a valid code
+      if (!(await consumeLoginChallenge(staff.id, staff.loginChallengeNonce!))) return sendChallengeExpired(reply);
+
+      if (method === "recovery_code") {
+        fastify.log.info(`2fa: staff ${staff.id} signed in with a recovery code`);
       }
+      return reply.send(await completeLogin(fastify, request, staff));
+    } catch (error) {
+      if (sendTwoFactorError(reply, error)) return reply;
+      fastify.log.error(error);
+      return reply.status(500).send({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  });
 
-      // 6. Sign JWT (include assignedCategories and assignedPresentationTypes for reviewers)
-      const token = fastify.jwt.sign(
-        {
-          id: staff.id,
-          email: staff.email,
-          role: staff.role,
-          assignedCategories: staff.assignedCategories || [],
-          assignedPresentationTypes: staff.assignedPresentationTypes || [],
-        },
-        { expiresIn: JWT_EXPIRY }
-      );
+  // Forced enrolment (role requires 2FA): secret + QR code for the authenticator app
+  fastify.post("/login/2fa/setup", { config: { rateLimit: secondStepRateLimit } }, async (request, reply) => {
+    const result = twoFactorChallengeSchema.safeParse(request.body);
+    if (!result.success) {
+      return reply.status(400).send({
+        success: false,
+        code: "VALIDATION_ERROR",
+        error: "Invalid input",
+        details: result.error.flatten(),
+      });
+    }
+
+    try {
+      const staff = await loadChallengedStaff(result.data.challengeToken);
+      if (!staff || activeLockUntil(staff.lockedUntil)) return sendChallengeExpired(reply);
+
+      const enrolment = await beginEnrolment(staff.id);
+      return reply.send({ success: true, ...enrolment });
+    } catch (error) {
+      if (sendTwoFactorError(reply, error)) return reply;
+      fastify.log.error(error);
+      return reply.status(500).send({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  });
 
-      // 7. Return
-      return reply.send({
-        success: true,
-        token,
-        user: {
-          id: staff.id,
-          email: staff.email,
-          firstName: staff.firstName,
-          lastName: staff.lastName,
-          role: staff.role,
-          assignedEvents,
-          assignedSessions,
-          assignedCategories: staff.assignedCategories || [],
-          assignedPresentationTypes: staff.assignedPresentationTypes || [],
-        },
+  // Forced enrolment: first code turns 2FA on, signs in and returns the recovery codes once
+  fastify.post("/login/2fa/setup/confirm", { config: { rateLimit: secondStepRateLimit } }, async (request, reply) => {
+    const result = twoFactorSetupConfirmSchema.safeParse(request.body);
+    if (!result.success) {
+      return reply.status(400).send({
+        success: false,
+        code: "VALIDATION_ERROR",
+        error: "Invalid input",
+        details: result.error.flatten(),
       });
+    }
+
+    try {
+      const staff = await loadChallengedStaff(result.data.challengeToken);
+      if (!staff) return sendChallengeExpired(reply);
+
+      const checked = await checkChallengeCode(request, staff, () => confirmEnrolment(staff.id, result.data.code));
+      if (!checked) return sendChallengeExpired(reply);
+      const recoveryCodes = checked.value;
+
+      if (!(await consumeLoginChallenge(staff.id, staff.loginChallengeNonce!))) return sendChallengeExpired(reply);
+      fastify.log.info(`2fa: staff ${staff.id} enrolled at sign-in`);
+      return reply.send({ ...(await completeLogin(fastify, request, staff)), recoveryCodes });
     } catch (error) {
+      if (sendTwoFactorError(reply, error)) return reply;
       fastify.log.error(error);
       return reply.status(500).send({
         success: false,
@@ -13,21 +13,30 @@ import {
   abstractReviews,
   passwordResetTokens,
   verificationRejectionHistory,
-  ssoTokens,
   ticketTypes,
 } from "../../database/schema.js";
-import { eq, desc, ilike, or, count, and, SQL, inArray, exists, notExists, ne, lt, sql } from "drizzle-orm";
+import { eq, desc, ilike, or, count, and, SQL, inArray, exists, notExists, ne, sql } from "drizzle-orm";
 import { z } from "zod";
 import bcrypt from "bcryptjs";
-import { randomUUID } from "crypto";
-import { BCRYPT_ROUNDS } from "../../constants/auth.js";
-
-// One-time SSO token expiry for impersonation (60 seconds)
-const IMPERSONATE_TOKEN_EXPIRY_MS = 60_000;
+import { BCRYPT_ROUNDS, IMPERSONATION_MAX_MINUTES } from "../../constants/auth.js";
+import {
+  listActiveSessions,
+  revokeAllSessions,
+  type SessionRevokeReason,
+} from "../../services/authSession.service.js";
+import { listLoginHistory, unlockAccount } from "../../services/loginProtection.service.js";
+import { startImpersonation } from "../../services/impersonation.service.js";
+import { eventOfMember } from "../../utils/authorization.js";
 
 // Default target URL when redirecting impersonated admin to the public web app (accp-web)
 const DEFAULT_WEB_URL = process.env.BASE_URL || "http://localhost:3000";
 
+// Body for starting an impersonation; the reason is kept in member_impersonations
+const impersonateMemberSchema = z.object({
+  reason: z.string().trim().min(10, "Please describe why you need to sign in as this member").max(1000),
+  durationMinutes: z.number().int().min(5).max(IMPERSONATION_MAX_MINUTES).optional(),
+});
+
 // Query schema for listing members
 const listMembersQuerySchema = z.object({
   page: z.coerce.number().min(1).default(1),
@@ -41,7 +50,7 @@ const listMembersQuerySchema = z.object({
 
 export default async function (fastify: FastifyInstance) {
   // List Members (users from users table)
-  fastify.get("", async (request, reply) => {
+  fastify.get("", { config: { permission: "members:read" } }, async (request, reply) => {
     const queryResult = listMembersQuerySchema.safeParse(request.query);
     if (!queryResult.success) {
       return reply.status(400).send({ error: "Invalid query", details: queryResult.error.flatten() });
@@ -140,7 +149,7 @@ export default async function (fastify: FastifyInstance) {
   });
 
   // Get single member by ID
-  fastify.get("/:id", async (request, reply) => {
+  fastify.get("/:id", { config: { permission: "members:read" } }, async (request, reply) => {
     const { id } = request.params as { id: string };
 
     try {
@@ -162,6 +171,7 @@ export default async function (fastify: FastifyInstance) {
           verificationDocUrl: users.verificationDocUrl,
           rejectionReason: users.rejectionReason,
           resubmissionCount: users.resubmissionCount,
+          lockedUntil: users.lockedUntil,
           createdAt: users.createdAt,
         })
         .from(users)
@@ -179,7 +189,7 @@ export default async function (fastify: FastifyInstance) {
   });
 
   // Get member statistics
-  fastify.get("/stats/summary", async (request, reply) => {
+  fastify.get("/stats/summary", { config: { permission: "members:read" } }, async (request, reply) => {
     try {
       // Count by role
       const roleStats = await db
@@ -217,7 +227,7 @@ export default async function (fastify: FastifyInstance) {
 
   // ── Stats: Members WITHOUT primary ticket grouped by Country ──
   // Returns members who have NOT purchased a confirmed primary ticket for the given event
-  fastify.get("/stats/by-country/no-primary-ticket", async (request, reply) => {
+  fastify.get("/stats/by-country/no-primary-ticket", { config: { permission: "members:read" } }, async (request, reply) => {
     const querySchema = z.object({
       eventId: z.coerce.number().int().positive(),
       role: z.enum(["thstd", "interstd", "thpro", "interpro", "general", "admin"]).optional(),
@@ -285,7 +295,7 @@ export default async function (fastify: FastifyInstance) {
   });
 
   // ── Stats: Members grouped by Country ───────────
-  fastify.get("/stats/by-country", async (request, reply) => {
+  fastify.get("/stats/by-country", { config: { permission: "members:read" } }, async (request, reply) => {
     const querySchema = z.object({
       role: z.enum(["thstd", "interstd", "thpro", "interpro", "general", "admin"]).optional(),
       status: z.enum(["pending_approval", "active", "rejected"]).optional(),
@@ -342,7 +352,7 @@ export default async function (fastify: FastifyInstance) {
   });
 
   // Create Member
-  fastify.post("", async (request, reply) => {
+  fastify.post("", { config: { permission: "members:write" } }, async (request, reply) => {
     const createSchema = z.object({
       email: z
         .string()
@@ -414,7 +424,7 @@ export default async function (fastify: FastifyInstance) {
   });
 
   // Update Member
-  fastify.patch("/:id", async (request, reply) => {
+  fastify.patch("/:id", { config: { permission: "members:write" } }, async (request, reply) => {
     const { id } = request.params as { id: string };
     const userId = parseInt(id);
 
@@ -446,7 +456,10 @@ export default async function (fastify: FastifyInstance) {
 
     try {
       // Check if user exists
-      const [existing] = await db.select({ id: users.id }).from(users).where(eq(users.id, userId));
+      const [existing] = await db
+        .select({ id: users.id, role: users.role, status: users.status })
+        .from(users)
+        .where(eq(users.id, userId));
       if (!existing) {
         return reply.status(404).send({ error: "Member not found" });
       }
@@ -491,6 +504,19 @@ export default async function (fastify: FastifyInstance) {
           createdAt: users.createdAt,
         });
 
+      // Signed-in devices still carry the old role or password; end their sessions
+      const revokeReason: SessionRevokeReason | null =
+        existing.status !== "rejected" && member.status === "rejected"
+          ? "deactivated"
+          : existing.role !== member.role
+            ? "role_changed"
+            : password
+              ? "password_changed"
+              : null;
+      if (revokeReason) {
+        await revokeAllSessions({ userId }, revokeReason);
+      }
+
       return reply.send({ member });
     } catch (error) {
       fastify.log.error(error);
@@ -502,7 +528,7 @@ export default async function (fastify: FastifyInstance) {
   // Used when a user signed up with the wrong role (e.g. as Professional but should be Student).
   // Atomically: change role -> student, status -> rejected, clear verificationDocUrl,
   // log to verification_rejection_history, and email the user a resubmit link.
-  fastify.post("/:id/request-verification", async (request, reply) => {
+  fastify.post("/:id/request-verification", { config: { permission: "members:write" } }, async (request, reply) => {
     const { id } = request.params as { id: string };
     const userId = parseInt(id);
 
@@ -597,6 +623,8 @@ export default async function (fastify: FastifyInstance) {
         return [updated];
       });
 
+      await revokeAllSessions({ userId }, "role_changed");
+
       // Always use the site's default locale (/en) for the resubmit link.
       // The website itself lets users switch language after landing.
       const targetLocale: "th" | "en" = "en";
@@ -658,16 +686,79 @@ export default async function (fastify: FastifyInstance) {
     }
   });
 
-  // Impersonate Member (Admin only)
-  // Generates a one-time SSO token so an admin can log into the public web app as the target user.
-  fastify.post("/:id/impersonate", async (request, reply) => {
-    if (request.user.role !== "admin") {
-      return reply.status(403).send({
-        success: false,
-        error: "Only admins can impersonate users",
-      });
+  // Active sign-in sessions of a member
+  fastify.get("/:id/sessions", { config: { permission: "members:read" } }, async (request, reply) => {
+    const userId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(userId)) {
+      return reply.status(400).send({ success: false, error: "Invalid member ID" });
+    }
+
+    try {
+      const sessions = await listActiveSessions({ userId });
+      return reply.send({ success: true, sessions });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ success: false, error: "Failed to fetch sessions" });
+    }
+  });
+
+  // Sign a member out everywhere
+  fastify.delete("/:id/sessions", { config: { permission: "members:write" } }, async (request, reply) => {
+    const userId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(userId)) {
+      return reply.status(400).send({ success: false, error: "Invalid member ID" });
+    }
+
+    try {
+      const revokedSessions = await revokeAllSessions({ userId }, "revoked");
+      fastify.log.info(`sessions: ${revokedSessions} of member ${userId} revoked by staff ${request.user.id}`);
+      return reply.send({ success: true, revokedSessions });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ success: false, error: "Failed to revoke sessions" });
+    }
+  });
+
+  // Recent sign-in attempts of a member (IP, device, outcome)
+  fastify.get("/:id/login-history", { config: { permission: "members:read" } }, async (request, reply) => {
+    const userId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(userId)) {
+      return reply.status(400).send({ success: false, error: "Invalid member ID" });
+    }
+
+    try {
+      const history = await listLoginHistory({ userId });
+      return reply.send({ success: true, history });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ success: false, error: "Failed to fetch login history" });
     }
+  });
+
+  // Lift a lockout after too many failed sign-ins
+  fastify.post("/:id/unlock", { config: { permission: "members:write" } }, async (request, reply) => {
+    const userId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(userId)) {
+      return reply.status(400).send({ success: false, error: "Invalid member ID" });
+    }
+
+    try {
+      const unlocked = await unlockAccount({ userId });
+      if (!unlocked) {
+        return reply.status(404).send({ success: false, error: "Member not found" });
+      }
+      fastify.log.info(`login: member ${userId} unlocked by staff ${request.user.id}`);
+      return reply.send({ success: true });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ success: false, error: "Failed to unlock member" });
+    }
+  });
 
+  // Impersonate Member (Admin only)
+  // Records the impersonation (reason required, time-boxed) and issues a one-time SSO token
+  // so the staff member can sign into the public web app as the target user.
+  fastify.post("/:id/impersonate", { config: { permission: "members:impersonate", eventOf: eventOfMember() } }, async (request, reply) => {
     const { id } = request.params as { id: string };
     const userId = parseInt(id);
 
@@ -678,67 +769,44 @@ export default async function (fastify: FastifyInstance) {
       });
     }
 
-    try {
-      const [target] = await db
-        .select({
-          id: users.id,
-          email: users.email,
-          firstName: users.firstName,
-          lastName: users.lastName,
-          status: users.status,
-        })
-        .from(users)
-        .where(eq(users.id, userId))
-        .limit(1);
-
-      if (!target) {
-        return reply.status(404).send({
-          success: false,
-          error: "User not found",
-        });
-      }
-
-      if (target.status !== "active") {
-        return reply.status(400).send({
-          success: false,
-          error: "Target user account is not active",
-        });
-      }
-
-      // Cleanup expired tokens (best-effort)
-      try {
-        await db.delete(ssoTokens).where(lt(ssoTokens.expiresAt, new Date()));
-      } catch (cleanupErr) {
-        fastify.log.warn({ err: cleanupErr }, "SSO token cleanup failed (non-fatal)");
-      }
-
-      const token = randomUUID();
-      const expiresAt = new Date(Date.now() + IMPERSONATE_TOKEN_EXPIRY_MS);
+    const result = impersonateMemberSchema.safeParse(request.body);
+    if (!result.success) {
+      return reply.status(400).send({
+        success: false,
+        error: "Invalid input",
+        details: result.error.flatten(),
+      });
+    }
 
-      await db.insert(ssoTokens).values({
-        token,
-        userId: target.id,
-        eventId: null,
-        expiresAt,
-        sourceApp: "backoffice-impersonate",
-        targetApp: "accp-web",
+    try {
+      const { impersonation, target, ssoToken, linkExpiresAt } = await startImpersonation({
+        staffId: request.user.id,
+        staffEmail: request.user.email,
+        userId,
+        reason: result.data.reason,
+        durationMinutes: result.data.durationMinutes,
+        ipAddress: request.ip,
       });
 
       fastify.log.info(
         {
+          impersonationId: impersonation.id,
           adminId: request.user.id,
           adminEmail: request.user.email,
           targetUserId: target.id,
           targetEmail: target.email,
+          expiresAt: impersonation.expiresAt,
         },
-        "Admin impersonation SSO token issued"
+        "Admin impersonation started"
       );
 
       return reply.send({
         success: true,
-        ssoToken: token,
+        impersonationId: impersonation.id,
+        ssoToken,
         targetUrl: DEFAULT_WEB_URL,
-        expiresInSeconds: Math.floor(IMPERSONATE_TOKEN_EXPIRY_MS / 1000),
+        expiresInSeconds: Math.floor((linkExpiresAt.getTime() - Date.now()) / 1000),
+        impersonationExpiresAt: impersonation.expiresAt,
         user: {
           id: target.id,
           email: target.email,
@@ -747,6 +815,19 @@ export default async function (fastify: FastifyInstance) {
         },
       });
     } catch (error) {
+      const code = error instanceof Error ? error.message : "";
+      if (code === "USER_NOT_FOUND") {
+        return reply.status(404).send({
+          success: false,
+          error: "User not found",
+        });
+      }
+      if (code === "USER_NOT_ACTIVE") {
+        return reply.status(400).send({
+          success: false,
+          error: "Target user account is not active",
+        });
+      }
       fastify.log.error(error);
       return reply.status(500).send({
         success: false,
@@ -756,7 +837,7 @@ export default async function (fastify: FastifyInstance) {
   });
 
   // Delete Member
-  fastify.delete("/:id", async (request, reply) => {
+  fastify.delete("/:id", { config: { permission: "members:write" } }, async (request, reply) => {
     const { id } = request.params as { id: string };
     const userId = parseInt(id);
 
@@ -779,10 +860,8 @@ export default async function (fastify: FastifyInstance) {
         // 2. Password reset tokens
         await tx.delete(passwordResetTokens).where(eq(passwordResetTokens.userId, userId));
 
-        // 3. Abstract reviews (where user is REVIEWER)
-        await tx.delete(abstractReviews).where(eq(abstractReviews.reviewerId, userId));
-
-        // 3.1. Delete reviews ON user's abstracts (where user is AUTHOR)
+        // 3. Delete reviews ON user's abstracts (where user is AUTHOR)
+        // Reviewers are backoffice staff, so members never own reviews themselves.
         const userAbstracts = await tx
           .select({ id: abstracts.id })
           .from(abstracts)
@@ -12,9 +12,88 @@ import {
   sessions,
   staffEventAssignments,
 } from "../../database/schema.js";
-import { orderListQuerySchema } from "../../schemas/orders.schema.js";
+import {
+  confirmInvoicePaymentSchema,
+  inviteGroupSeatsSchema,
+  issueTaxInvoiceSchema,
+  openGroupSeatsQuerySchema,
+  orderListQuerySchema,
+  pendingInvoicesQuerySchema,
+  refundOrderSchema,
+  reissueTaxInvoiceSchema,
+} from "../../schemas/orders.schema.js";
+import {
+  buildRefundCreditNote,
+  getOrderRefundSummary,
+  listOrderRefunds,
+  refundOrder,
+  sendRefundConfirmation,
+} from "../../services/refund.service.js";
+import { getOrderTimeline } from "../../services/orderEvents.service.js";
+import {
+  getGroupOrderSeats,
+  inviteGroupSeats,
+  listGroupOrdersWithOpenSeats,
+  revokeGroupSeatInvite,
+  sendGroupSeatInviteEmails,
+} from "../../services/groupOrder.service.js";
+import {
+  confirmInvoicePayment,
+  listPendingInvoices,
+  sendInvoiceEmail,
+} from "../../services/invoice.service.js";
+import {
+  buildTaxInvoicePdf,
+  issueTaxInvoiceForOrder,
+  listOrderTaxInvoices,
+  reissueTaxInvoice,
+  sendTaxInvoice,
+} from "../../services/taxInvoice.service.js";
+import { sendOrderReceiptEmail } from "../../services/manualOfflineOrder.js";
 import { generateReceiptToken } from "../../utils/receiptToken.js";
 import { eq, desc, and, or, ilike, count, sql, inArray } from "drizzle-orm";
+import { eventOfOrder } from "../../utils/authorization.js";
+
+const REFUND_ERRORS: Record<string, { status: number; error: string }> = {
+  ORDER_NOT_FOUND: { status: 404, error: "Order not found" },
+  ORDER_NOT_REFUNDABLE: { status: 400, error: "Only paid orders can be refunded" },
+  PAYMENT_NOT_FOUND: { status: 400, error: "No paid payment found for this order" },
+  NOTHING_TO_REFUND: { status: 400, error: "This order has already been fully refunded" },
+  REFUND_EXCEEDS_PAID: { status: 400, error: "Refund amount exceeds the refundable amount" },
+  MANUAL_REFERENCE_REQUIRED: { status: 400, error: "A bank transfer reference is required for manual refunds" },
+  INVALID_ORDER_ITEMS: { status: 400, error: "Some items do not belong to this order" },
+  ITEM_ALREADY_REFUNDED: { status: 409, error: "Some items have already been refunded" },
+  STRIPE_REFUND_FAILED: { status: 502, error: "Stripe refused the refund" },
+};
+
+const GROUP_SEAT_ERRORS: Record<string, { status: number; error: string }> = {
+  GROUP_ORDER_NOT_FOUND: { status: 404, error: "Group order not found" },
+  GROUP_ORDER_NOT_PAID: { status: 400, error: "Seats can only be assigned once the order is paid" },
+  GROUP_SEAT_DUPLICATE_EMAIL: { status: 400, error: "The same email is listed more than once" },
+  GROUP_SEAT_ALREADY_INVITED: { status: 409, error: "Some attendees already have a seat in this order" },
+  GROUP_SEATS_EXHAUSTED: { status: 409, error: "Not enough unassigned seats left in this order" },
+  GROUP_SEAT_NOT_FOUND: { status: 404, error: "Seat not found" },
+  GROUP_SEAT_CLAIMED: { status: 409, error: "This seat has already been claimed" },
+  GROUP_SEAT_NOT_INVITED: { status: 400, error: "This seat has no pending invitation" },
+};
+
+const INVOICE_ERRORS: Record<string, { status: number; error: string }> = {
+  INVOICE_NOT_FOUND: { status: 404, error: "No bank-transfer invoice found for this order" },
+  INVOICE_NOT_PENDING: { status: 409, error: "This invoice is no longer awaiting payment" },
+  INVOICE_SLIP_UPLOAD_FAILED: { status: 502, error: "Failed to store the transfer slip. Please try again." },
+};
+
+const TAX_INVOICE_ERRORS: Record<string, { status: number; error: string }> = {
+  ORDER_NOT_FOUND: { status: 404, error: "Order not found" },
+  TAX_INVOICE_ORDER_NOT_PAID: { status: 400, error: "Tax invoices can only be issued for paid orders" },
+  TAX_INVOICE_NOT_REQUESTED: { status: 400, error: "This order has no tax invoice details" },
+  TAX_INVOICE_ZERO_AMOUNT: { status: 400, error: "Nothing was paid on this order" },
+  TAX_INVOICE_NOT_FOUND: { status: 404, error: "No tax invoice has been issued for this order" },
+  TAX_SELLER_NOT_CONFIGURED: { status: 503, error: "Seller tax details (TAX_SELLER_*) are not configured" },
+};
+
+const SLIP_MIME_TYPES = ["application/pdf", "image/jpeg", "image/png", "image/webp"];
+const MAX_SLIP_BYTES = 10 * 1024 * 1024;
 
 function getPublicApiBaseUrl(): string {
   const raw = (process.env.API_BASE_URL || "http://localhost:3002")
@@ -25,7 +104,7 @@ function getPublicApiBaseUrl(): string {
 
 export default async function (fastify: FastifyInstance) {
   // ── List Paid Orders ───────────────────────────────────
-  fastify.get("", async (request, reply) => {
+  fastify.get("", { config: { permission: "orders:read" } }, async (request, reply) => {
     const queryResult = orderListQuerySchema.safeParse(request.query);
     if (!queryResult.success) {
       return reply
@@ -368,4 +447,461 @@ export default async function (fastify: FastifyInstance) {
       return reply.status(500).send({ error: "Failed to fetch orders" });
     }
   });
+
+  // ── Audit timeline of an order ─────────────────────────
+  fastify.get("/:id/timeline", { config: { permission: "orders:read", eventOf: eventOfOrder() } }, async (request, reply) => {
+    const orderId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(orderId)) {
+      return reply.status(400).send({ error: "Invalid order ID" });
+    }
+
+    try {
+      const [order] = await db
+        .select({ id: orders.id, orderNumber: orders.orderNumber, status: orders.status })
+        .from(orders)
+        .where(eq(orders.id, orderId))
+        .limit(1);
+      if (!order) return reply.status(404).send({ error: "Order not found" });
+
+      const events = await getOrderTimeline(orderId);
+      return reply.send({ order, events });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to fetch order timeline" });
+    }
+  });
+
+  // ── Group orders with seats nobody has claimed yet ────
+  fastify.get("/group-seats/open", { config: { permission: "orders:read" } }, async (request, reply) => {
+    const queryResult = openGroupSeatsQuerySchema.safeParse(request.query);
+    if (!queryResult.success) {
+      return reply
+        .status(400)
+        .send({ error: "Invalid query", details: queryResult.error.flatten() });
+    }
+
+    try {
+      const groupOrders = await listGroupOrdersWithOpenSeats(queryResult.data.eventId);
+      return reply.send({ orders: groupOrders });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to fetch group orders" });
+    }
+  });
+
+  // ── Seats of a group order ─────────────────────────────
+  fastify.get("/:id/seats", { config: { permission: "orders:read", eventOf: eventOfOrder() } }, async (request, reply) => {
+    const orderId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(orderId)) {
+      return reply.status(400).send({ error: "Invalid order ID" });
+    }
+
+    try {
+      return reply.send(await getGroupOrderSeats(orderId));
+    } catch (error) {
+      const mapped = error instanceof Error ? GROUP_SEAT_ERRORS[error.message] : undefined;
+      if (mapped) {
+        return reply
+          .status(mapped.status)
+          .send({ code: (error as Error).message, error: mapped.error });
+      }
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to fetch group order seats" });
+    }
+  });
+
+  // ── Assign seats on the buyer's behalf ─────────────────
+  fastify.post("/:id/seats/invite", { config: { permission: "orders:write", eventOf: eventOfOrder() } }, async (request, reply) => {
+    const staff = (request as any).user;
+    const orderId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(orderId)) {
+      return reply.status(400).send({ error: "Invalid order ID" });
+    }
+
+    const result = inviteGroupSeatsSchema.safeParse(request.body);
+    if (!result.success) {
+      return reply
+        .status(400)
+        .send({ error: "Invalid input", details: result.error.flatten() });
+    }
+
+    try {
+      const seats = await inviteGroupSeats({ orderId, invites: result.data.invites });
+      fastify.log.info(`group-order: ${seats.length} seats of order ${orderId} invited by staff ${staff.id}`);
+
+      if (result.data.sendEmail) {
+        sendGroupSeatInviteEmails(fastify, orderId, seats).catch((error) =>
+          fastify.log.error({ err: error }, `group-order: invite emails failed for order ${orderId}`),
+        );
+      }
+
+      return reply.status(201).send({ seats });
+    } catch (error) {
+      const mapped = error instanceof Error ? GROUP_SEAT_ERRORS[error.message] : undefined;
+      if (mapped) {
+        return reply
+          .status(mapped.status)
+          .send({ code: (error as Error).message, error: mapped.error });
+      }
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to invite attendees" });
+    }
+  });
+
+  // ── Take back a pending seat invitation ────────────────
+  fastify.delete("/:id/seats/:seatId/invite", { config: { permission: "orders:write", eventOf: eventOfOrder() } }, async (request, reply) => {
+    const { id, seatId } = request.params as { id: string; seatId: string };
+    const orderId = parseInt(id, 10);
+    const groupSeatId = parseInt(seatId, 10);
+    if (isNaN(orderId) || isNaN(groupSeatId)) {
+      return reply.status(400).send({ error: "Invalid order or seat ID" });
+    }
+
+    try {
+      const seat = await revokeGroupSeatInvite({ orderId, seatId: groupSeatId });
+      return reply.send({ seat });
+    } catch (error) {
+      const mapped = error instanceof Error ? GROUP_SEAT_ERRORS[error.message] : undefined;
+      if (mapped) {
+        return reply
+          .status(mapped.status)
+          .send({ code: (error as Error).message, error: mapped.error });
+      }
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to revoke seat invitation" });
+    }
+  });
+
+  // ── Bank-transfer invoices awaiting payment ────────────
+  fastify.get("/invoices/pending", { config: { permission: "orders:read" } }, async (request, reply) => {
+    const queryResult = pendingInvoicesQuerySchema.safeParse(request.query);
+    if (!queryResult.success) {
+      return reply
+        .status(400)
+        .send({ error: "Invalid query", details: queryResult.error.flatten() });
+    }
+
+    try {
+      const invoices = await listPendingInvoices(queryResult.data);
+      return reply.send({ invoices });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to fetch pending invoices" });
+    }
+  });
+
+  // ── Send the proforma invoice again ────────────────────
+  fastify.post("/:id/invoice/resend", { config: { permission: "orders:write", eventOf: eventOfOrder() } }, async (request, reply) => {
+    const orderId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(orderId)) {
+      return reply.status(400).send({ error: "Invalid order ID" });
+    }
+
+    try {
+      await sendInvoiceEmail(orderId);
+      return reply.send({ success: true });
+    } catch (error) {
+      const mapped = error instanceof Error ? INVOICE_ERRORS[error.message] : undefined;
+      if (mapped) {
+        return reply
+          .status(mapped.status)
+          .send({ code: (error as Error).message, error: mapped.error });
+      }
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to send invoice" });
+    }
+  });
+
+  // ── Confirm a bank transfer with its slip (multipart) ──
+  // Replaces POST /registrations/:id/offline-payment for transfers
+  fastify.post("/:id/invoice/confirm", { config: { permission: "orders:write", eventOf: eventOfOrder() } }, async (request, reply) => {
+    const staff = (request as any).user;
+    const orderId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(orderId)) {
+      return reply.status(400).send({ error: "Invalid order ID" });
+    }
+
+    const fields: Record<string, string> = {};
+    let slip: { buffer: Buffer; fileName: string; mimeType: string } | null = null;
+    for await (const part of request.parts()) {
+      if (part.type === "file") {
+        if (part.fieldname !== "slip") {
+          await part.toBuffer();
+          continue;
+        }
+        if (!SLIP_MIME_TYPES.includes(part.mimetype)) {
+          return reply.status(400).send({
+            code: "INVOICE_SLIP_INVALID_TYPE",
+            error: "The slip must be a PDF, JPG, PNG or WEBP file",
+          });
+        }
+        const buffer = await part.toBuffer();
+        if (buffer.length > MAX_SLIP_BYTES) {
+          return reply.status(400).send({
+            code: "INVOICE_SLIP_TOO_LARGE",
+            error: "Slip exceeds 10 MB limit",
+          });
+        }
+        slip = { buffer, fileName: part.filename, mimeType: part.mimetype };
+      } else {
+        fields[part.fieldname] = String(part.value);
+      }
+    }
+
+    if (!slip) {
+      return reply
+        .status(400)
+        .send({ code: "INVOICE_SLIP_REQUIRED", error: "A transfer slip is required" });
+    }
+
+    const result = confirmInvoicePaymentSchema.safeParse(fields);
+    if (!result.success) {
+      return reply
+        .status(400)
+        .send({ error: "Invalid input", details: result.error.flatten() });
+    }
+
+    try {
+      const confirmed = await confirmInvoicePayment(fastify, {
+        orderId,
+        staffId: staff.id,
+        slip,
+        paidAt: result.data.paidAt,
+        bankReference: result.data.bankReference,
+        note: result.data.note,
+      });
+      fastify.log.info(`invoice: order ${orderId} (${confirmed.orderNumber}) confirmed paid by staff ${staff.id}`);
+
+      if (result.data.sendReceipt) {
+        sendOrderReceiptEmail(orderId, confirmed.regCode || null).catch((error) =>
+          fastify.log.error({ err: error }, `invoice: receipt email failed for order ${orderId}`),
+        );
+      }
+
+      return reply.send({ success: true, ...confirmed });
+    } catch (error) {
+      const mapped = error instanceof Error ? INVOICE_ERRORS[error.message] : undefined;
+      if (mapped) {
+        return reply
+          .status(mapped.status)
+          .send({ code: (error as Error).message, error: mapped.error });
+      }
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to confirm invoice payment" });
+    }
+  });
+
+  // ── Tax invoices of an order (cancelled ones included) ─
+  fastify.get("/:id/tax-invoices", { config: { permission: "orders:read", eventOf: eventOfOrder() } }, async (request, reply) => {
+    const orderId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(orderId)) {
+      return reply.status(400).send({ error: "Invalid order ID" });
+    }
+
+    try {
+      const taxInvoices = await listOrderTaxInvoices(orderId);
+      return reply.send({ taxInvoices });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to fetch tax invoices" });
+    }
+  });
+
+  // ── Issue the tax invoice of a paid order ──────────────
+  // Normally issued when the payment is recorded; this covers older orders
+  fastify.post("/:id/tax-invoices", { config: { permission: "orders:write", eventOf: eventOfOrder() } }, async (request, reply) => {
+    const staff = (request as any).user;
+    const orderId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(orderId)) {
+      return reply.status(400).send({ error: "Invalid order ID" });
+    }
+
+    const result = issueTaxInvoiceSchema.safeParse(request.body ?? {});
+    if (!result.success) {
+      return reply
+        .status(400)
+        .send({ error: "Invalid input", details: result.error.flatten() });
+    }
+
+    try {
+      const taxInvoice = await issueTaxInvoiceForOrder(orderId, staff.id);
+      fastify.log.info(`tax invoice: ${taxInvoice.documentNumber} for order ${orderId} by staff ${staff.id}`);
+
+      if (result.data.sendEmail) {
+        sendTaxInvoice(taxInvoice.id).catch((error) =>
+          fastify.log.error({ err: error }, `tax invoice: email failed for invoice ${taxInvoice.id}`),
+        );
+      }
+
+      return reply.status(201).send({ taxInvoice });
+    } catch (error) {
+      const mapped = error instanceof Error ? TAX_INVOICE_ERRORS[error.message] : undefined;
+      if (mapped) {
+        return reply
+          .status(mapped.status)
+          .send({ code: (error as Error).message, error: mapped.error });
+      }
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to issue tax invoice" });
+    }
+  });
+
+  // ── Cancel and reissue with corrected buyer details ────
+  fastify.post("/:id/tax-invoices/reissue", { config: { permission: "orders:write", eventOf: eventOfOrder() } }, async (request, reply) => {
+    const staff = (request as any).user;
+    const orderId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(orderId)) {
+      return reply.status(400).send({ error: "Invalid order ID" });
+    }
+
+    const result = reissueTaxInvoiceSchema.safeParse(request.body);
+    if (!result.success) {
+      return reply
+        .status(400)
+        .send({ error: "Invalid input", details: result.error.flatten() });
+    }
+
+    const { reason, sendEmail, ...correction } = result.data;
+
+    try {
+      const { previous, invoice } = await reissueTaxInvoice({
+        orderId,
+        staffId: staff.id,
+        reason,
+        correction,
+      });
+      fastify.log.info(
+        `tax invoice: ${previous.documentNumber} replaced by ${invoice.documentNumber} for order ${orderId} by staff ${staff.id}`,
+      );
+
+      if (sendEmail) {
+        sendTaxInvoice(invoice.id).catch((error) =>
+          fastify.log.error({ err: error }, `tax invoice: email failed for invoice ${invoice.id}`),
+        );
+      }
+
+      return reply.status(201).send({ taxInvoice: invoice, replaced: previous });
+    } catch (error) {
+      const mapped = error instanceof Error ? TAX_INVOICE_ERRORS[error.message] : undefined;
+      if (mapped) {
+        return reply
+          .status(mapped.status)
+          .send({ code: (error as Error).message, error: mapped.error });
+      }
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to reissue tax invoice" });
+    }
+  });
+
+  // ── Tax invoice PDF (marked as a copy) ─────────────────
+  fastify.get("/:id/tax-invoices/:invoiceId/pdf", { config: { permission: "orders:read", eventOf: eventOfOrder() } }, async (request, reply) => {
+    const { id, invoiceId } = request.params as { id: string; invoiceId: string };
+
+    try {
+      const built = await buildTaxInvoicePdf(parseInt(invoiceId, 10), "copy");
+      if (!built || built.invoice.orderId !== parseInt(id, 10)) {
+        return reply.status(404).send({ error: "Tax invoice not found" });
+      }
+
+      return reply
+        .header("Content-Type", "application/pdf")
+        .header(
+          "Content-Disposition",
+          `attachment; filename="ACCP2026-${built.invoice.documentNumber}-copy.pdf"`,
+        )
+        .send(built.pdf);
+    } catch (error) {
+      const mapped = error instanceof Error ? TAX_INVOICE_ERRORS[error.message] : undefined;
+      if (mapped) {
+        return reply
+          .status(mapped.status)
+          .send({ code: (error as Error).message, error: mapped.error });
+      }
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to generate tax invoice" });
+    }
+  });
+
+  // ── Refunds of an order ────────────────────────────────
+  fastify.get("/:id/refunds", { config: { permission: "orders:read", eventOf: eventOfOrder() } }, async (request, reply) => {
+    const orderId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(orderId)) {
+      return reply.status(400).send({ error: "Invalid order ID" });
+    }
+
+    try {
+      const summary = await getOrderRefundSummary(orderId);
+      if (!summary) return reply.status(404).send({ error: "Order not found" });
+      const refunds = await listOrderRefunds(orderId);
+      return reply.send({ refunds, ...summary });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to fetch refunds" });
+    }
+  });
+
+  // ── Refund an order (full or partial) ──────────────────
+  fastify.post("/:id/refunds", { config: { permission: "orders:write", eventOf: eventOfOrder() } }, async (request, reply) => {
+    const staff = (request as any).user;
+    const orderId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(orderId)) {
+      return reply.status(400).send({ error: "Invalid order ID" });
+    }
+
+    const result = refundOrderSchema.safeParse(request.body);
+    if (!result.success) {
+      return reply
+        .status(400)
+        .send({ error: "Invalid input", details: result.error.flatten() });
+    }
+
+    const { sendEmail, ...input } = result.data;
+
+    try {
+      const { refund, orderStatus } = await refundOrder(fastify, { ...input, orderId, staffId: staff.id });
+      fastify.log.info(
+        `refund: ${refund.creditNoteNumber} (${refund.amount} ${refund.currency}, ${refund.method}) for order ${orderId} by staff ${staff.id}`,
+      );
+
+      if (sendEmail) {
+        sendRefundConfirmation(refund.id).catch((error) =>
+          fastify.log.error({ err: error }, `refund: confirmation email failed for refund ${refund.id}`),
+        );
+      }
+
+      return reply.status(201).send({ refund, orderStatus });
+    } catch (error) {
+      const mapped = error instanceof Error ? REFUND_ERRORS[error.message] : undefined;
+      if (mapped) {
+        return reply
+          .status(mapped.status)
+          .send({ code: (error as Error).message, error: mapped.error });
+      }
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to refund order" });
+    }
+  });
+
+  // ── Credit note PDF of a refund (marked as a copy) ─────
+  fastify.get("/:id/refunds/:refundId/credit-note", { config: { permission: "orders:read", eventOf: eventOfOrder() } }, async (request, reply) => {
+    const { id, refundId } = request.params as { id: string; refundId: string };
+
+    try {
+      const creditNote = await buildRefundCreditNote(parseInt(refundId, 10), "copy");
+      if (!creditNote || creditNote.refund.orderId !== parseInt(id, 10)) {
+        return reply.status(404).send({ error: "Refund not found" });
+      }
+
+      return reply
+        .header("Content-Type", "application/pdf")
+        .header(
+          "Content-Disposition",
+          `attachment; filename="ACCP2026-${creditNote.refund.creditNoteNumber}.pdf"`,
+        )
+        .send(creditNote.pdf);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to generate credit note" });
+    }
+  });
 }
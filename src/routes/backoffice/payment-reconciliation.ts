@@ -0,0 +1,108 @@
+/**
+* Payment reconciliation against Stripe, Pay Solutions and KTB (admin only)
+*
+* GET  /api/backoffice/payment-reconciliation                     recent runs
+* POST /api/backoffice/payment-reconciliation                     start a run (runs in the background)
+* GET  /api/backoffice/payment-reconciliation/:id                 run report with every mismatch
+* POST /api/backoffice/payment-reconciliation/items/:itemId/heal  process a payment captured at the provider
+*/
+import { FastifyInstance } from "fastify";
+import {
+  reconciliationRunListSchema,
+  startReconciliationSchema,
+} from "../../schemas/reconciliation.schema.js";
+import {
+  executeReconciliationRun,
+  getReconciliationRun,
+  healReconciliationItem,
+  listReconciliationRuns,
+  startReconciliationRun,
+} from "../../services/paymentReconciliation.service.js";
+
+const HEAL_ERRORS: Record<string, { status: number; error: string }> = {
+  ITEM_NOT_FOUND: { status: 404, error: "Reconciliation item not found" },
+  ITEM_ALREADY_HEALED: { status: 409, error: "This payment has already been healed" },
+  ITEM_NOT_HEALABLE: { status: 400, error: "Only payments paid at the provider for the recorded amount can be healed" },
+  PAYMENT_ALREADY_PAID: { status: 409, error: "The payment is already recorded as paid" },
+  PROVIDER_NOT_PAID: { status: 409, error: "The provider no longer reports this payment as paid" },
+  ORDER_NOT_HEALABLE: { status: 409, error: "The order cannot be moved to paid" },
+};
+
+export default async function (fastify: FastifyInstance) {
+  fastify.get("", { config: { permission: "payments:reconcile" } }, async (request, reply) => {
+    const queryResult = reconciliationRunListSchema.safeParse(request.query);
+    if (!queryResult.success) {
+      return reply
+        .status(400)
+        .send({ error: "Invalid query", details: queryResult.error.flatten() });
+    }
+
+    try {
+      const runs = await listReconciliationRuns(queryResult.data.limit);
+      return reply.send({ runs });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to fetch reconciliation runs" });
+    }
+  });
+
+  fastify.post("", { config: { permission: "payments:reconcile" } }, async (request, reply) => {
+    const result = startReconciliationSchema.safeParse(request.body ?? {});
+    if (!result.success) {
+      return reply
+        .status(400)
+        .send({ error: "Invalid input", details: result.error.flatten() });
+    }
+
+    try {
+      const run = await startReconciliationRun(result.data, "manual", request.user.id);
+
+      // Provider inquiries are slow; the report is read back with GET /:id
+      executeReconciliationRun(fastify, run, result.data).catch((error) =>
+        fastify.log.error(error, `[RECONCILIATION] Run ${run.id} crashed`)
+      );
+
+      return reply.status(202).send({ run });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to start reconciliation" });
+    }
+  });
+
+  fastify.get("/:id", { config: { permission: "payments:reconcile" } }, async (request, reply) => {
+    const runId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(runId)) {
+      return reply.status(400).send({ error: "Invalid run ID" });
+    }
+
+    try {
+      const report = await getReconciliationRun(runId);
+      if (!report) return reply.status(404).send({ error: "Reconciliation run not found" });
+      return reply.send(report);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to fetch reconciliation run" });
+    }
+  });
+
+  fastify.post("/items/:itemId/heal", { config: { permission: "payments:reconcile" } }, async (request, reply) => {
+    const itemId = parseInt((request.params as { itemId: string }).itemId, 10);
+    if (isNaN(itemId)) {
+      return reply.status(400).send({ error: "Invalid item ID" });
+    }
+
+    try {
+      const item = await healReconciliationItem(fastify, itemId);
+      return reply.send({ item });
+    } catch (error) {
+      const mapped = error instanceof Error ? HEAL_ERRORS[error.message] : undefined;
+      if (mapped) {
+        return reply
+          .status(mapped.status)
+          .send({ code: (error as Error).message, error: mapped.error });
+      }
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to heal payment" });
+    }
+  });
+}
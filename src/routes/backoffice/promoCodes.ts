@@ -3,6 +3,7 @@ import { db } from "../../database/index.js";
 import { promoCodes, events, staffEventAssignments, promoCodeRuleSets, promoCodeRuleItems, ticketTypes } from "../../database/schema.js";
 import { eq, desc, ilike, and, count, inArray, or } from "drizzle-orm";
 import { z } from "zod";
+import { eventOfPromoCode } from "../../utils/authorization.js";
 
 const promoQuerySchema = z.object({
     page: z.coerce.number().min(1).default(1),
@@ -39,7 +40,7 @@ const updatePromoSchema = createPromoSchema.partial();
 
 export default async function (fastify: FastifyInstance) {
     // List All Promo Codes
-    fastify.get("", async (request, reply) => {
+    fastify.get("", { config: { permission: "promo_codes:read" } }, async (request, reply) => {
         const queryResult = promoQuerySchema.safeParse(request.query);
         if (!queryResult.success) {
             return reply.status(400).send({ error: "Invalid query", details: queryResult.error.flatten() });
@@ -157,7 +158,7 @@ export default async function (fastify: FastifyInstance) {
     });
 
     // Get Single Promo Code (with rule sets)
-    fastify.get("/:id", async (request, reply) => {
+    fastify.get("/:id", { config: { permission: "promo_codes:read", eventOf: eventOfPromoCode() } }, async (request, reply) => {
         const { id } = request.params as { id: string };
 
         try {
@@ -203,7 +204,7 @@ export default async function (fastify: FastifyInstance) {
     });
 
     // Create Promo Code
-    fastify.post("", async (request, reply) => {
+    fastify.post("", { config: { permission: "promo_codes:write" } }, async (request, reply) => {
         const parseResult = createPromoSchema.safeParse(request.body);
         if (!parseResult.success) {
             return reply.status(400).send({ error: "Invalid data", details: parseResult.error.flatten() });
@@ -265,7 +266,7 @@ export default async function (fastify: FastifyInstance) {
     });
 
     // Update Promo Code
-    fastify.put("/:id", async (request, reply) => {
+    fastify.put("/:id", { config: { permission: "promo_codes:write", eventOf: eventOfPromoCode() } }, async (request, reply) => {
         const { id } = request.params as { id: string };
         const parseResult = updatePromoSchema.safeParse(request.body);
         if (!parseResult.success) {
@@ -339,7 +340,7 @@ export default async function (fastify: FastifyInstance) {
     });
 
     // Delete Promo Code
-    fastify.delete("/:id", async (request, reply) => {
+    fastify.delete("/:id", { config: { permission: "promo_codes:write", eventOf: eventOfPromoCode() } }, async (request, reply) => {
         const { id } = request.params as { id: string };
 
         try {
@@ -369,7 +370,7 @@ export default async function (fastify: FastifyInstance) {
     });
 
     // Toggle Active Status
-    fastify.patch("/:id/toggle", async (request, reply) => {
+    fastify.patch("/:id/toggle", { config: { permission: "promo_codes:write", eventOf: eventOfPromoCode() } }, async (request, reply) => {
         const { id } = request.params as { id: string };
 
         try {
@@ -10,7 +10,7 @@ import {
     manualRegistrationSchema, addSessionsSchema,
     batchManualRegistrationSchema, checkRegisteredUsersSchema,
     registrationStatsByCountrySchema, registrationStatsByAddonSchema,
-    recordRegistrationOfflinePaymentSchema,
+    recordRegistrationOfflinePaymentSchema, transferRegistrationSchema,
 } from "../../schemas/registrations.schema.js";
 import { eq, desc, ilike, and, count, sql, or, inArray, exists, notExists } from "drizzle-orm";
 import {
@@ -20,6 +20,23 @@ import {
     buildReceiptUrl,
     type ManualOrderTicketLine,
 } from "../../services/manualOfflineOrder.js";
+import { releaseWaitlistSeats } from "../../services/waitlist.service.js";
+import {
+    listRegistrationTransfers,
+    sendRegistrationTransferEmails,
+    transferRegistration,
+} from "../../services/registrationTransfer.service.js";
+import { eventOfRegistration } from "../../utils/authorization.js";
+
+const TRANSFER_ERRORS: Record<string, { status: number; error: string }> = {
+    REGISTRATION_NOT_FOUND: { status: 404, error: "Registration not found" },
+    REGISTRATION_NOT_ACTIVE: { status: 400, error: "Only confirmed registrations can be transferred" },
+    REGISTRATION_CHECKED_IN: { status: 409, error: "Registration has already been checked in" },
+    TARGET_USER_NOT_FOUND: { status: 404, error: "Target user not found" },
+    TARGET_NAME_REQUIRED: { status: 400, error: "First and last name are required for a new attendee" },
+    TARGET_ALREADY_REGISTERED: { status: 409, error: "Target attendee is already registered for this event" },
+    TRANSFER_SAME_ATTENDEE: { status: 400, error: "Registration already belongs to this attendee" },
+};
 
 function generateRegCode(): string {
     const ts = Date.now().toString(36).toUpperCase();
@@ -284,7 +301,7 @@ async function getRelatedAddonTicketIds(tx: any, addonTicketTypeIds: number[]):
 
 export default async function (fastify: FastifyInstance) {
     // List Registrations
-    fastify.get("", async (request, reply) => {
+    fastify.get("", { config: { permission: "registrations:read" } }, async (request, reply) => {
         const queryResult = registrationListSchema.safeParse(request.query);
         if (!queryResult.success) {
             return reply.status(400).send({ error: "Invalid query", details: queryResult.error.flatten() });
@@ -396,7 +413,7 @@ export default async function (fastify: FastifyInstance) {
     });
 
     // Get Registration Detail
-    fastify.get("/:id", async (request, reply) => {
+    fastify.get("/:id", { config: { permission: "registrations:read", eventOf: eventOfRegistration() } }, async (request, reply) => {
         const { id } = request.params as { id: string };
 
         try {
@@ -514,7 +531,7 @@ export default async function (fastify: FastifyInstance) {
     });
 
     // Update Registration
-    fastify.patch("/:id", async (request, reply) => {
+    fastify.patch("/:id", { config: { permission: "registrations:write", eventOf: eventOfRegistration() } }, async (request, reply) => {
         const { id } = request.params as { id: string };
         const result = updateRegistrationSchema.safeParse(request.body);
 
@@ -530,6 +547,19 @@ export default async function (fastify: FastifyInstance) {
                 .returning();
 
             if (!updatedReg) return reply.status(404).send({ error: "Registration not found" });
+
+            // A cancelled registration frees its session seats for the waitlist
+            if (result.data.status === "cancelled") {
+                const links = await db
+                    .select({ sessionId: registrationSessions.sessionId })
+                    .from(registrationSessions)
+                    .where(eq(registrationSessions.registrationId, updatedReg.id));
+                releaseWaitlistSeats(fastify, [
+                    { ticketTypeId: updatedReg.ticketTypeId },
+                    ...links.map((link) => ({ sessionId: link.sessionId })),
+                ]).catch((error) => fastify.log.error({ err: error }, "waitlist: release after cancellation failed"));
+            }
+
             return reply.send({ registration: updatedReg });
         } catch (error) {
             fastify.log.error(error);
@@ -537,8 +567,64 @@ export default async function (fastify: FastifyInstance) {
         }
     });
 
+    // ── Transfer registration to another attendee ──
+    fastify.post("/:id/transfer", { config: { permission: "registrations:write", eventOf: eventOfRegistration() } }, async (request, reply) => {
+        const staffUser = (request as any).user;
+        const { id } = request.params as { id: string };
+        const result = transferRegistrationSchema.safeParse(request.body);
+
+        if (!result.success) {
+            return reply.status(400).send({ error: "Invalid input", details: result.error.flatten() });
+        }
+
+        const { userId, email, firstName, middleName, lastName, note, sendEmail } = result.data;
+
+        try {
+            const { registration, transfer } = await transferRegistration({
+                registrationId: parseInt(id),
+                target: userId != null ? { userId } : { email: email!, firstName, middleName, lastName },
+                staffId: staffUser.id,
+                note,
+            });
+            fastify.log.info(
+                `transfer: registration ${registration.id} ${transfer.previousRegCode} → ${transfer.newRegCode} (${transfer.fromEmail} → ${transfer.toEmail}) by staff ${staffUser.id}`
+            );
+
+            if (sendEmail) {
+                sendRegistrationTransferEmails(fastify, transfer).catch((error) =>
+                    fastify.log.error({ err: error }, "transfer: email task failed")
+                );
+            }
+
+            return reply.send({ registration, transfer });
+        } catch (error) {
+            const mapped = error instanceof Error ? TRANSFER_ERRORS[error.message] : undefined;
+            if (mapped) {
+                return reply.status(mapped.status).send({ code: (error as Error).message, error: mapped.error });
+            }
+            fastify.log.error(error);
+            return reply.status(500).send({ error: "Failed to transfer registration" });
+        }
+    });
+
+    // ── Transfer history of a registration ──
+    fastify.get("/:id/transfers", { config: { permission: "registrations:read", eventOf: eventOfRegistration() } }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+        try {
+            const transfers = await listRegistrationTransfers(parseInt(id));
+            return reply.send({ transfers });
+        } catch (error) {
+            fastify.log.error(error);
+            return reply.status(500).send({ error: "Failed to fetch transfers" });
+        }
+    });
+
     // ── Record offline payment & issue receipt for existing registration ──
-    fastify.post("/:id/offline-payment", async (request, reply) => {
+    // Deprecated: bank transfers go through the invoice flow
+    // (create-intent with paymentMethod "invoice", then POST /orders/:id/invoice/confirm)
+    fastify.post("/:id/offline-payment", { config: { permission: "registrations:write", eventOf: eventOfRegistration() } }, async (request, reply) => {
+        reply.header("Deprecation", "true");
+        reply.header("Link", '</api/backoffice/orders/{id}/invoice/confirm>; rel="successor-version"');
         const staffUser = (request as any).user;
         const { id } = request.params as { id: string };
         const registrationId = parseInt(id);
@@ -640,7 +726,7 @@ export default async function (fastify: FastifyInstance) {
     });
 
     // ── Manual Add Registration ──────────────────────────
-    fastify.post("/manual", async (request, reply) => {
+    fastify.post("/manual", { config: { permission: "registrations:write" } }, async (request, reply) => {
         const staffUser = (request as any).user;
         const result = manualRegistrationSchema.safeParse(request.body);
         if (!result.success) {
@@ -966,7 +1052,7 @@ export default async function (fastify: FastifyInstance) {
     });
 
     // ── Add Sessions to Existing Registration ────────────
-    fastify.post("/:id/sessions", async (request, reply) => {
+    fastify.post("/:id/sessions", { config: { permission: "registrations:write", eventOf: eventOfRegistration() } }, async (request, reply) => {
         const staffUser = (request as any).user;
         const { id } = request.params as { id: string };
         const result = addSessionsSchema.safeParse(request.body);
@@ -1041,7 +1127,7 @@ export default async function (fastify: FastifyInstance) {
     // ── Stats: Registrations grouped by Country ───────────
     // Returns count of registrations per country (default: confirmed only).
     // Restricts to staff-assigned events when not admin.
-    fastify.get("/stats/by-country", async (request, reply) => {
+    fastify.get("/stats/by-country", { config: { permission: "registrations:read" } }, async (request, reply) => {
         const queryResult = registrationStatsByCountrySchema.safeParse(request.query);
         if (!queryResult.success) {
             return reply.status(400).send({ error: "Invalid query", details: queryResult.error.flatten() });
@@ -1115,7 +1201,7 @@ export default async function (fastify: FastifyInstance) {
     //   - workshop:   has at least one confirmed Workshop add-on
     //   - ticketOnly: has NO add-on at all (primary ticket only)
     //   - total:      total confirmed registrations for the event
-    fastify.get("/stats/by-addon", async (request, reply) => {
+    fastify.get("/stats/by-addon", { config: { permission: "registrations:read" } }, async (request, reply) => {
         const queryResult = registrationStatsByAddonSchema.safeParse(request.query);
         if (!queryResult.success) {
             return reply.status(400).send({ error: "Invalid query", details: queryResult.error.flatten() });
@@ -1200,7 +1286,7 @@ export default async function (fastify: FastifyInstance) {
     // ── Get Registered User IDs for Event/Ticket ──────────
     // Primary tickets: block if user has ANY primary ticket for this event
     // Add-on tickets: block only if user has this specific ticket
-    fastify.get("/registered-users", async (request, reply) => {
+    fastify.get("/registered-users", { config: { permission: "registrations:read" } }, async (request, reply) => {
         const queryResult = checkRegisteredUsersSchema.safeParse(request.query);
         if (!queryResult.success) {
             return reply.status(400).send({ error: "Invalid query", details: queryResult.error.flatten() });
@@ -1303,7 +1389,7 @@ export default async function (fastify: FastifyInstance) {
     });
 
     // ── Batch Manual Add Registration ─────────────────────
-    fastify.post("/manual/batch", async (request, reply) => {
+    fastify.post("/manual/batch", { config: { permission: "registrations:write" } }, async (request, reply) => {
         const staffUser = (request as any).user;
         const result = batchManualRegistrationSchema.safeParse(request.body);
         if (!result.success) {
@@ -12,7 +12,6 @@ import {
     ticketTypes,
     abstracts,
     backofficeUsers,
-    staffEventAssignments,
 } from "../../database/schema.js";
 import {
     reportsEventQuerySchema,
@@ -61,23 +60,6 @@ function sendCsv(
         .send(csv);
 }
 
-async function getAssignedEventIds(staffId: number): Promise<number[]> {
-    const assignments = await db
-        .select({ eventId: staffEventAssignments.eventId })
-        .from(staffEventAssignments)
-        .where(eq(staffEventAssignments.staffId, staffId));
-    return assignments.map((a) => a.eventId);
-}
-
-async function assertEventAccess(
-    staff: { id: number; role: string } | undefined,
-    eventId: number
-): Promise<boolean> {
-    if (!staff || staff.role === "admin") return true;
-    const assigned = await getAssignedEventIds(staff.id);
-    return assigned.includes(eventId);
-}
-
 async function fetchCountryStats(eventId: number) {
     const rows = await db
         .select({ country: users.country, count: count() })
@@ -257,18 +239,46 @@ async function fetchAbstractStats(eventId: number) {
     };
 }
 
+interface CurrencyRevenue {
+    /** Currency the order was priced in */
+    currency: string;
+    /** Currency the payment was taken in */
+    chargeCurrency: string;
+    orderCount: number;
+    presentedAmount: number;
+    chargedAmount: number;
+}
+
+function round2(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+/** Charged total expressed in the order currency, using the rate stored on the order */
+function toPresentedAmount(chargedAmount: number, exchangeRate: string | null): number {
+    const rate = Number(exchangeRate);
+    return rate > 0 ? round2(chargedAmount / rate) : chargedAmount;
+}
+
 async function fetchFinanceStats(eventId: number) {
     const paidOrders = await db
         .select({
             id: orders.id,
             totalAmount: orders.totalAmount,
             currency: orders.currency,
+            chargeCurrency: orders.chargeCurrency,
+            exchangeRate: orders.exchangeRate,
         })
         .from(orders)
         .where(and(eq(orders.eventId, eventId), eq(orders.status, "paid")));
 
     if (paidOrders.length === 0) {
-        return { totalRevenue: 0, orderCount: 0, currency: "THB", byTicket: [] as { ticketName: string; count: number; amount: number }[] };
+        return {
+            totalRevenue: 0,
+            orderCount: 0,
+            currency: "THB",
+            byCurrency: [] as CurrencyRevenue[],
+            byTicket: [] as { ticketName: string; count: number; amount: number }[],
+        };
     }
 
     const orderIds = paidOrders.map((o) => o.id);
@@ -285,8 +295,25 @@ async function fetchFinanceStats(eventId: number) {
     const ticketMap = new Map<string, { count: number; amount: number }>();
     let totalRevenue = 0;
 
+    const currencyMap = new Map<string, CurrencyRevenue>();
+
     for (const order of paidOrders) {
-        totalRevenue += parseFloat(order.totalAmount) || 0;
+        const charged = parseFloat(order.totalAmount) || 0;
+        const chargeCurrency = order.chargeCurrency || order.currency;
+        totalRevenue += charged;
+
+        const key = `${order.currency}/${chargeCurrency}`;
+        const existing = currencyMap.get(key) || {
+            currency: order.currency,
+            chargeCurrency,
+            orderCount: 0,
+            presentedAmount: 0,
+            chargedAmount: 0,
+        };
+        existing.orderCount += 1;
+        existing.presentedAmount = round2(existing.presentedAmount + toPresentedAmount(charged, order.exchangeRate));
+        existing.chargedAmount = round2(existing.chargedAmount + charged);
+        currencyMap.set(key, existing);
     }
 
     for (const item of itemRows) {
@@ -303,6 +330,7 @@ async function fetchFinanceStats(eventId: number) {
         totalRevenue,
         orderCount: paidOrders.length,
         currency: paidOrders[0]?.currency || "THB",
+        byCurrency: Array.from(currencyMap.values()),
         byTicket: Array.from(ticketMap.entries())
             .map(([ticketName, data]) => ({ ticketName, ...data }))
             .sort((a, b) => b.amount - a.amount),
@@ -339,18 +367,13 @@ async function fetchRegistrationTrend(eventId: number, from?: Date, to?: Date) {
 
 export default async function (fastify: FastifyInstance) {
     // GET /reports/overview?eventId=
-    fastify.get("/overview", async (request, reply) => {
+    fastify.get("/overview", { config: { permission: "reports:read" } }, async (request, reply) => {
         const queryResult = reportsEventQuerySchema.safeParse(request.query);
         if (!queryResult.success) {
             return reply.status(400).send({ error: "Invalid query", details: queryResult.error.flatten() });
         }
 
         const { eventId } = queryResult.data;
-        const staff = (request as any).user;
-
-        if (!(await assertEventAccess(staff, eventId))) {
-            return reply.status(403).send({ error: "Access denied for this event" });
-        }
 
         try {
             const [countryStats, addonStats, checkinStats, memberStats, abstractStats, financeStats, registrationTrend] =
@@ -385,18 +408,13 @@ export default async function (fastify: FastifyInstance) {
     });
 
     // GET /reports/revenue/by-ticket?eventId=
-    fastify.get("/revenue/by-ticket", async (request, reply) => {
+    fastify.get("/revenue/by-ticket", { config: { permission: "reports:read" } }, async (request, reply) => {
         const queryResult = reportsEventQuerySchema.safeParse(request.query);
         if (!queryResult.success) {
             return reply.status(400).send({ error: "Invalid query", details: queryResult.error.flatten() });
         }
 
         const { eventId } = queryResult.data;
-        const staff = (request as any).user;
-
-        if (!(await assertEventAccess(staff, eventId))) {
-            return reply.status(403).send({ error: "Access denied for this event" });
-        }
 
         try {
             const financeStats = await fetchFinanceStats(eventId);
@@ -416,18 +434,13 @@ export default async function (fastify: FastifyInstance) {
     });
 
     // GET /reports/registrations/trend?eventId=&from=&to=
-    fastify.get("/registrations/trend", async (request, reply) => {
+    fastify.get("/registrations/trend", { config: { permission: "reports:read" } }, async (request, reply) => {
         const queryResult = reportsTrendQuerySchema.safeParse(request.query);
         if (!queryResult.success) {
             return reply.status(400).send({ error: "Invalid query", details: queryResult.error.flatten() });
         }
 
         const { eventId, from, to } = queryResult.data;
-        const staff = (request as any).user;
-
-        if (!(await assertEventAccess(staff, eventId))) {
-            return reply.status(403).send({ error: "Access denied for this event" });
-        }
 
         try {
             const points = await fetchRegistrationTrend(
@@ -447,7 +460,7 @@ export default async function (fastify: FastifyInstance) {
     });
 
     // GET /reports/exports/:type?eventId=&sessionId=&format=csv
-    fastify.get("/exports/:type", async (request, reply) => {
+    fastify.get("/exports/:type", { config: { permission: "reports:read" } }, async (request, reply) => {
         const typeResult = reportsExportTypeSchema.safeParse(
             (request.params as { type: string }).type
         );
@@ -462,7 +475,6 @@ export default async function (fastify: FastifyInstance) {
 
         const exportType = typeResult.data;
         const { eventId, sessionId, format, status, presentationType } = queryResult.data;
-        const staff = (request as any).user;
 
         if (format !== "csv") {
             return reply.status(400).send({ error: "Only csv format is supported" });
@@ -482,10 +494,6 @@ export default async function (fastify: FastifyInstance) {
             return reply.status(400).send({ error: "sessionId is required for session export" });
         }
 
-        if (eventId && !(await assertEventAccess(staff, eventId))) {
-            return reply.status(403).send({ error: "Access denied for this event" });
-        }
-
         try {
             switch (exportType) {
                 case "registrations": {
@@ -555,6 +563,8 @@ export default async function (fastify: FastifyInstance) {
                             orderNumber: orders.orderNumber,
                             totalAmount: orders.totalAmount,
                             currency: orders.currency,
+                            chargeCurrency: orders.chargeCurrency,
+                            exchangeRate: orders.exchangeRate,
                             status: orders.status,
                             promoCode: orders.promoCode,
                             createdAt: orders.createdAt,
@@ -620,14 +630,18 @@ export default async function (fastify: FastifyInstance) {
                         reply,
                         `orders_${event?.eventCode || eventId}.csv`,
                         [
-                            "Order Number", "Total Amount", "Currency", "Status", "Promo Code",
+                            "Order Number", "Total Amount", "Currency",
+                            "Charged Amount", "Charged Currency", "Exchange Rate", "Status", "Promo Code",
                             "User Name", "Email", "Country", "Institution",
                             "Payment Channel", "Paid At", "Items", "Created At",
                         ],
                         orderRows.map((o) => [
                             o.orderNumber,
-                            o.totalAmount,
+                            toPresentedAmount(parseFloat(o.totalAmount) || 0, o.exchangeRate).toFixed(2),
                             o.currency,
+                            o.totalAmount,
+                            o.chargeCurrency || o.currency,
+                            o.exchangeRate ? Number(o.exchangeRate) : "",
                             o.status,
                             o.promoCode,
                             getFullName(o.userFirstName, o.userMiddleName, o.userLastName),
@@ -0,0 +1,48 @@
+/**
+ * Seat holds of pending orders (admin / organizer only)
+ *
+ * GET /api/backoffice/seat-holds?eventId=1&ticketTypeId=&sessionId=&status=active
+ *     who is holding seats, plus held seats per ticket type / session
+ */
+import { FastifyInstance } from "fastify";
+import { seatHoldListSchema } from "../../schemas/seatHold.schema.js";
+import { listSeatHolds } from "../../services/seatHold.service.js";
+import { releaseWaitlistSeats } from "../../services/waitlist.service.js";
+
+export default async function (fastify: FastifyInstance) {
+  fastify.get("", { config: { permission: "seat_holds:read" } }, async (request, reply) => {
+    const queryResult = seatHoldListSchema.safeParse(request.query);
+    if (!queryResult.success) {
+      return reply
+        .status(400)
+        .send({ error: "Invalid query", details: queryResult.error.flatten() });
+    }
+
+    try {
+      // Lapsed holds are expired (and their seats offered to the waitlist) first
+      await releaseWaitlistSeats(fastify);
+      const holds = await listSeatHolds(queryResult.data);
+
+      const summary = new Map<
+        string,
+        { ticketTypeId: number | null; sessionId: number | null; name: string | null; held: number }
+      >();
+      for (const hold of holds) {
+        const key = hold.ticketTypeId != null ? `ticket:${hold.ticketTypeId}` : `session:${hold.sessionId}`;
+        const row = summary.get(key) ?? {
+          ticketTypeId: hold.ticketTypeId,
+          sessionId: hold.sessionId,
+          name: hold.ticketName ?? hold.sessionName,
+          held: 0,
+        };
+        row.held += hold.quantity;
+        summary.set(key, row);
+      }
+
+      return reply.send({ holds, summary: [...summary.values()], total: holds.length });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to fetch seat holds" });
+    }
+  });
+}
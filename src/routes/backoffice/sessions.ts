@@ -3,6 +3,7 @@ import { db } from "../../database/index.js";
 import { sessions, events, staffEventAssignments, speakers, eventSpeakers, registrations, registrationSessions, ticketTypes, users } from "../../database/schema.js";
 import { eq, desc, ilike, and, count, inArray } from "drizzle-orm";
 import { z } from "zod";
+import { eventOfSession } from "../../utils/authorization.js";
 
 const sessionQuerySchema = z.object({
     page: z.coerce.number().min(1).default(1),
@@ -13,7 +14,7 @@ const sessionQuerySchema = z.object({
 
 export default async function (fastify: FastifyInstance) {
     // List All Sessions (Global View)
-    fastify.get("", async (request, reply) => {
+    fastify.get("", { config: { permission: "sessions:read" } }, async (request, reply) => {
         const queryResult = sessionQuerySchema.safeParse(request.query);
         if (!queryResult.success) {
             return reply.status(400).send({ error: "Invalid query", details: queryResult.error.flatten() });
@@ -153,7 +154,7 @@ export default async function (fastify: FastifyInstance) {
     });
 
     // GET /sessions/:id/export — download participant list as CSV
-    fastify.get("/:id/export", async (request, reply) => {
+    fastify.get("/:id/export", { config: { permission: "sessions:read", eventOf: eventOfSession() } }, async (request, reply) => {
         const { id } = request.params as { id: string };
         const sessionId = Number(id);
         if (isNaN(sessionId)) return reply.status(400).send({ error: "Invalid session id" });
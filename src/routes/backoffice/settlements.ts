@@ -0,0 +1,202 @@
+/**
+ * Provider settlement imports and fee reconciliation (admin only)
+ *
+ * POST   /api/backoffice/settlements/imports?provider=stripe   upload a settlement / payout CSV (multipart "file")
+ * GET    /api/backoffice/settlements/imports                   uploaded files
+ * GET    /api/backoffice/settlements/imports/:id               lines of one file with their match status
+ * DELETE /api/backoffice/settlements/imports/:id               remove a wrongly uploaded file
+ * GET    /api/backoffice/settlements/report?provider=&from=&to=&format=json|csv
+ *        gross / expected fee / actual fee / net per day and channel, plus unmatched lines
+ */
+import { FastifyInstance, FastifyReply } from "fastify";
+import {
+    settlementImportQuerySchema,
+    settlementReportQuerySchema,
+} from "../../schemas/settlement.schema.js";
+import { parseSettlementCsv } from "../../utils/settlementCsv.js";
+import {
+    deleteSettlementImport,
+    getSettlementImport,
+    getSettlementReport,
+    importSettlementLines,
+    listSettlementImports,
+} from "../../services/settlement.service.js";
+
+const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+
+function csvEscape(v: string | number | null | undefined): string {
+    const s = String(v ?? "");
+    return s.includes(",") || s.includes('"') || s.includes("\n")
+        ? `"${s.replace(/"/g, '""')}"`
+        : s;
+}
+
+function sendCsv(
+    reply: FastifyReply,
+    filename: string,
+    headers: string[],
+    rows: (string | number | null | undefined)[][]
+) {
+    const lines = [
+        headers.join(","),
+        ...rows.map((r) => r.map(csvEscape).join(",")),
+    ];
+    const csv = "\uFEFF" + lines.join("\r\n");
+    return reply
+        .header("Content-Type", "text/csv; charset=utf-8")
+        .header("Content-Disposition", `attachment; filename="${filename}"`)
+        .send(csv);
+}
+
+export default async function (fastify: FastifyInstance) {
+    fastify.post("/imports", { config: { permission: "payments:reconcile" } }, async (request, reply) => {
+        const queryResult = settlementImportQuerySchema.safeParse(request.query);
+        if (!queryResult.success) {
+            return reply
+                .status(400)
+                .send({ error: "Invalid query", details: queryResult.error.flatten() });
+        }
+
+        const data = await request.file();
+        if (!data) {
+            return reply.status(400).send({ code: "SETTLEMENT_FILE_REQUIRED", error: "No file uploaded" });
+        }
+        if (!data.filename.toLowerCase().endsWith(".csv")) {
+            return reply
+                .status(400)
+                .send({ code: "SETTLEMENT_INVALID_FORMAT", error: "Only CSV uploads are supported" });
+        }
+
+        const buffer = await data.toBuffer();
+        if (buffer.length > MAX_UPLOAD_BYTES) {
+            return reply
+                .status(400)
+                .send({ code: "SETTLEMENT_FILE_TOO_LARGE", error: "Upload exceeds 5 MB limit" });
+        }
+
+        const { provider } = queryResult.data;
+        const parsed = parseSettlementCsv(buffer.toString("utf8"), provider);
+        if (parsed.lines.length === 0) {
+            return reply.status(400).send({
+                code: "SETTLEMENT_NO_LINES",
+                error: "No settlement lines could be read from the file",
+                details: parsed.errors,
+            });
+        }
+
+        try {
+            const settlementImport = await importSettlementLines({
+                provider,
+                fileName: data.filename,
+                lines: parsed.lines,
+                staffId: request.user.id,
+            });
+            fastify.log.info(
+                `settlement: ${provider} file "${data.filename}" imported by staff ${request.user.id} (${settlementImport.matchedCount}/${settlementImport.lineCount} matched)`
+            );
+            return reply.status(201).send({ import: settlementImport, errors: parsed.errors });
+        } catch (error) {
+            fastify.log.error(error);
+            return reply.status(500).send({ error: "Failed to import settlement file" });
+        }
+    });
+
+    fastify.get("/imports", { config: { permission: "payments:reconcile" } }, async (_request, reply) => {
+        try {
+            const imports = await listSettlementImports();
+            return reply.send({ imports });
+        } catch (error) {
+            fastify.log.error(error);
+            return reply.status(500).send({ error: "Failed to fetch settlement imports" });
+        }
+    });
+
+    fastify.get("/imports/:id", { config: { permission: "payments:reconcile" } }, async (request, reply) => {
+        const importId = parseInt((request.params as { id: string }).id, 10);
+        if (isNaN(importId)) {
+            return reply.status(400).send({ error: "Invalid import ID" });
+        }
+
+        try {
+            const result = await getSettlementImport(importId);
+            if (!result) return reply.status(404).send({ error: "Settlement import not found" });
+            return reply.send(result);
+        } catch (error) {
+            fastify.log.error(error);
+            return reply.status(500).send({ error: "Failed to fetch settlement import" });
+        }
+    });
+
+    fastify.delete("/imports/:id", { config: { permission: "payments:reconcile" } }, async (request, reply) => {
+        const importId = parseInt((request.params as { id: string }).id, 10);
+        if (isNaN(importId)) {
+            return reply.status(400).send({ error: "Invalid import ID" });
+        }
+
+        try {
+            const deleted = await deleteSettlementImport(importId);
+            if (!deleted) return reply.status(404).send({ error: "Settlement import not found" });
+            fastify.log.info(`settlement: import ${importId} deleted by staff ${request.user.id}`);
+            return reply.send({ success: true });
+        } catch (error) {
+            fastify.log.error(error);
+            return reply.status(500).send({ error: "Failed to delete settlement import" });
+        }
+    });
+
+    fastify.get("/report", { config: { permission: "payments:reconcile" } }, async (request, reply) => {
+        const queryResult = settlementReportQuerySchema.safeParse(request.query);
+        if (!queryResult.success) {
+            return reply
+                .status(400)
+                .send({ error: "Invalid query", details: queryResult.error.flatten() });
+        }
+
+        const { format, ...filters } = queryResult.data;
+        try {
+            const report = await getSettlementReport(filters);
+            if (format === "json") return reply.send(report);
+
+            const toDate = (d: Date | null) =>
+                d ? d.toLocaleDateString("en-CA", { timeZone: "Asia/Bangkok" }) : "";
+            return sendCsv(
+                reply,
+                `settlement_report_${filters.provider ?? "all"}.csv`,
+                ["Type", "Date", "Provider", "Channel", "Currency", "Reference", "Transactions", "Gross", "Expected Fee", "Actual Fee", "Fee Difference", "Net"],
+                [
+                    ...report.rows.map((row) => [
+                        "summary",
+                        row.date,
+                        row.provider,
+                        row.channel,
+                        row.currency,
+                        "",
+                        row.count,
+                        row.gross.toFixed(2),
+                        row.expectedFee.toFixed(2),
+                        row.actualFee.toFixed(2),
+                        row.feeDifference.toFixed(2),
+                        row.net.toFixed(2),
+                    ]),
+                    ...report.unmatched.map((line) => [
+                        "unmatched",
+                        toDate(line.transactionDate),
+                        line.paymentProvider,
+                        line.channel,
+                        line.currency,
+                        line.reference,
+                        1,
+                        line.grossAmount,
+                        "",
+                        line.feeAmount,
+                        "",
+                        line.netAmount,
+                    ]),
+                ]
+            );
+        } catch (error) {
+            fastify.log.error(error);
+            return reply.status(500).send({ error: "Failed to build settlement report" });
+        }
+    });
+}
@@ -12,7 +12,7 @@ const speakerQuerySchema = z.object({
 
 export default async function (fastify: FastifyInstance) {
     // List Speakers
-    fastify.get("", async (request, reply) => {
+    fastify.get("", { config: { permission: "speakers:read" } }, async (request, reply) => {
         // Get user from request (set by auth middleware)
         const user = (request as any).user;
 
@@ -84,7 +84,7 @@ export default async function (fastify: FastifyInstance) {
     });
 
     // Create Speaker
-    fastify.post("", async (request, reply) => {
+    fastify.post("", { config: { permission: "speakers:write" } }, async (request, reply) => {
         const result = createSpeakerSchema.safeParse(request.body);
         if (!result.success) {
             return reply.status(400).send({ error: "Invalid input", details: result.error.flatten() });
@@ -100,7 +100,7 @@ export default async function (fastify: FastifyInstance) {
     });
 
     // Update Speaker
-    fastify.patch("/:id", async (request, reply) => {
+    fastify.patch("/:id", { config: { permission: "speakers:write" } }, async (request, reply) => {
         const { id } = request.params as { id: string };
         const result = updateSpeakerSchema.safeParse(request.body);
         if (!result.success) {
@@ -123,7 +123,7 @@ export default async function (fastify: FastifyInstance) {
     });
 
     // Delete Speaker
-    fastify.delete("/:id", async (request, reply) => {
+    fastify.delete("/:id", { config: { permission: "speakers:write" } }, async (request, reply) => {
         const { id } = request.params as { id: string };
         try {
             // Delete related event assignments first (Foreign Key Constraint)
@@ -145,7 +145,7 @@ export default async function (fastify: FastifyInstance) {
     });
 
     // Assign Speaker to Events
-    fastify.post("/:id/events", async (request, reply) => {
+    fastify.post("/:id/events", { config: { permission: "speakers:write" } }, async (request, reply) => {
         const { id } = request.params as { id: string };
         const speakerId = parseInt(id);
 
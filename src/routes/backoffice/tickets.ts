@@ -15,7 +15,7 @@ const ticketQuerySchema = z.object({
 
 export default async function (fastify: FastifyInstance) {
     // List All Tickets (Global View)
-    fastify.get("", async (request, reply) => {
+    fastify.get("", { config: { permission: "tickets:read" } }, async (request, reply) => {
         const queryResult = ticketQuerySchema.safeParse(request.query);
         if (!queryResult.success) {
             return reply.status(400).send({ error: "Invalid query", details: queryResult.error.flatten() });
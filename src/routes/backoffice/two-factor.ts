@@ -0,0 +1,165 @@
+/**
+ * Two-factor (TOTP) settings of the signed-in staff member
+ *
+ * GET  /backoffice/2fa                  status (enabled, required by role, recovery codes left)
+ * POST /backoffice/2fa/setup            new secret + otpauth URI + QR code for the authenticator app
+ * POST /backoffice/2fa/enable           confirm with a first code; returns the recovery codes once
+ * POST /backoffice/2fa/recovery-codes   replace the recovery codes (needs a current code)
+ * POST /backoffice/2fa/disable          turn 2FA off (code or recovery code; not when the role requires it)
+ *
+ * Signing in with 2FA is handled by /backoffice/login/2fa (see login.ts).
+ * Wrong codes here count towards the account lockout just like at sign-in.
+ */
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { eq } from "drizzle-orm";
+import { db } from "../../database/index.js";
+import { backofficeUsers } from "../../database/schema.js";
+import { TOKEN_AUDIENCE } from "../../constants/auth.js";
+import { twoFactorCodeSchema, twoFactorDisableSchema } from "../../schemas/backoffice.schema.js";
+import { activeLockUntil, recordLoginFailure } from "../../services/loginProtection.service.js";
+import {
+  beginEnrolment,
+  confirmEnrolment,
+  disableTwoFactor,
+  getTwoFactorStatus,
+  regenerateRecoveryCodes,
+} from "../../services/twoFactor.service.js";
+
+const TWO_FACTOR_ERRORS: Record<string, { status: number; error: string }> = {
+  STAFF_NOT_FOUND: { status: 404, error: "Account not found" },
+  ACCOUNT_LOCKED: { status: 423, error: "Too many wrong codes - please try again later" },
+  TWO_FACTOR_CODE_INVALID: { status: 401, error: "Invalid or already used code" },
+  TWO_FACTOR_NOT_ENABLED: { status: 409, error: "Two-factor authentication is not enabled" },
+  TWO_FACTOR_ALREADY_ENABLED: { status: 409, error: "Two-factor authentication is already enabled" },
+  TWO_FACTOR_NOT_STARTED: { status: 409, error: "Start two-factor setup first" },
+  TWO_FACTOR_REQUIRED_BY_ROLE: {
+    status: 403,
+    error: "Two-factor authentication is required for your role and cannot be turned off",
+  },
+};
+
+function sendTwoFactorError(reply: FastifyReply, error: unknown): boolean {
+  const code = error instanceof Error ? error.message : "";
+  const mapped = TWO_FACTOR_ERRORS[code];
+  if (!mapped) return false;
+  reply.status(mapped.status).send({ success: false, code, error: mapped.error });
+  return true;
+}
+
+/** Run a code check for the signed-in staff member, counting wrong codes towards the lockout */
+async function withCodeAttempt<T>(request: FastifyRequest, check: () => Promise<T>): Promise<T> {
+  const [staff] = await db
+    .select({
+      id: backofficeUsers.id,
+      email: backofficeUsers.email,
+      firstName: backofficeUsers.firstName,
+      lockedUntil: backofficeUsers.lockedUntil,
+    })
+    .from(backofficeUsers)
+    .where(eq(backofficeUsers.id, request.user.id))
+    .limit(1);
+  if (!staff) throw new Error("STAFF_NOT_FOUND");
+  if (activeLockUntil(staff.lockedUntil)) throw new Error("ACCOUNT_LOCKED");
+
+  try {
+    return await check();
+  } catch (error) {
+    if (error instanceof Error && error.message === "TWO_FACTOR_CODE_INVALID") {
+      const account = { owner: { staffId: staff.id }, email: staff.email, firstName: staff.firstName };
+      await recordLoginFailure(request, TOKEN_AUDIENCE.backoffice, staff.email, account, "invalid_second_factor");
+    }
+    throw error;
+  }
+}
+
+export default async function (fastify: FastifyInstance) {
+  fastify.addHook("preHandler", fastify.authenticateStaff);
+
+  fastify.get("", async (request, reply) => {
+    try {
+      const status = await getTwoFactorStatus(request.user.id);
+      return reply.send({ success: true, ...status });
+    } catch (error) {
+      if (sendTwoFactorError(reply, error)) return reply;
+      fastify.log.error(error);
+      return reply.status(500).send({ success: false, error: "Internal server error" });
+    }
+  });
+
+  fastify.post("/setup", async (request, reply) => {
+    try {
+      const enrolment = await beginEnrolment(request.user.id);
+      return reply.send({ success: true, ...enrolment });
+    } catch (error) {
+      if (sendTwoFactorError(reply, error)) return reply;
+      fastify.log.error(error);
+      return reply.status(500).send({ success: false, error: "Internal server error" });
+    }
+  });
+
+  fastify.post("/enable", async (request, reply) => {
+    const result = twoFactorCodeSchema.safeParse(request.body);
+    if (!result.success) {
+      return reply.status(400).send({
+        success: false,
+        error: "Invalid input",
+        details: result.error.flatten(),
+      });
+    }
+
+    try {
+      const recoveryCodes = await withCodeAttempt(request, () =>
+        confirmEnrolment(request.user.id, result.data.code),
+      );
+      fastify.log.info(`2fa: staff ${request.user.id} enabled two-factor authentication`);
+      return reply.send({ success: true, recoveryCodes });
+    } catch (error) {
+      if (sendTwoFactorError(reply, error)) return reply;
+      fastify.log.error(error);
+      return reply.status(500).send({ success: false, error: "Internal server error" });
+    }
+  });
+
+  fastify.post("/recovery-codes", async (request, reply) => {
+    const result = twoFactorCodeSchema.safeParse(request.body);
+    if (!result.success) {
+      return reply.status(400).send({
+        success: false,
+        error: "Invalid input",
+        details: result.error.flatten(),
+      });
+    }
+
+    try {
+      const recoveryCodes = await withCodeAttempt(request, () =>
+        regenerateRecoveryCodes(request.user.id, result.data.code),
+      );
+      return reply.send({ success: true, recoveryCodes });
+    } catch (error) {
+      if (sendTwoFactorError(reply, error)) return reply;
+      fastify.log.error(error);
+      return reply.status(500).send({ success: false, error: "Internal server error" });
+    }
+  });
+
+  fastify.post("/disable", async (request, reply) => {
+    const result = twoFactorDisableSchema.safeParse(request.body);
+    if (!result.success) {
+      return reply.status(400).send({
+        success: false,
+        error: "Invalid input",
+        details: result.error.flatten(),
+      });
+    }
+
+    try {
+      await withCodeAttempt(request, () => disableTwoFactor(request.user.id, result.data));
+      fastify.log.info(`2fa: staff ${request.user.id} disabled two-factor authentication`);
+      return reply.send({ success: true });
+    } catch (error) {
+      if (sendTwoFactorError(reply, error)) return reply;
+      fastify.log.error(error);
+      return reply.status(500).send({ success: false, error: "Internal server error" });
+    }
+  });
+}
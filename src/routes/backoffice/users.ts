@@ -5,6 +5,7 @@ import {
   staffEventAssignments,
   events,
   sessions,
+  staffRoleEnum,
 } from "../../database/schema.js";
 import {
   createUserSchema,
@@ -15,6 +16,18 @@ import {
 import bcrypt from "bcryptjs";
 import { eq, desc, ne, and, ilike, or, count, SQL, sql } from "drizzle-orm";
 import { BCRYPT_ROUNDS } from "../../constants/auth.js";
+import {
+  listActiveSessions,
+  revokeAllSessions,
+  type SessionRevokeReason,
+} from "../../services/authSession.service.js";
+import {
+  listTwoFactorPolicies,
+  resetTwoFactor,
+  setTwoFactorPolicy,
+} from "../../services/twoFactor.service.js";
+import { listLoginHistory, unlockAccount } from "../../services/loginProtection.service.js";
+import { twoFactorPolicySchema } from "../../schemas/backoffice.schema.js";
 import { z } from "zod";
 
 // Query schema for listing users
@@ -27,7 +40,7 @@ const listUsersQuerySchema = z.object({
 
 export default async function (fastify: FastifyInstance) {
   // List Users (with pagination)
-  fastify.get("", async (request, reply) => {
+  fastify.get("", { config: { permission: "staff:manage" } }, async (request, reply) => {
     const queryResult = listUsersQuerySchema.safeParse(request.query);
     if (!queryResult.success) {
       return reply.status(400).send({ error: "Invalid query", details: queryResult.error.flatten() });
@@ -71,7 +84,10 @@ export default async function (fastify: FastifyInstance) {
           firstName: backofficeUsers.firstName,
           lastName: backofficeUsers.lastName,
           role: backofficeUsers.role,
+          institution: backofficeUsers.institution,
           isActive: backofficeUsers.isActive,
+          twoFactorEnabled: sql<boolean>`${backofficeUsers.totpEnabledAt} IS NOT NULL`,
+          lockedUntil: backofficeUsers.lockedUntil,
           assignedCategories: backofficeUsers.assignedCategories,
           assignedPresentationTypes: backofficeUsers.assignedPresentationTypes,
           createdAt: backofficeUsers.createdAt,
@@ -134,7 +150,7 @@ export default async function (fastify: FastifyInstance) {
   });
 
   // Create User
-  fastify.post("", async (request, reply) => {
+  fastify.post("", { config: { permission: "staff:manage" } }, async (request, reply) => {
     const result = createUserSchema.safeParse(request.body);
     if (!result.success) {
       return reply
@@ -148,6 +164,7 @@ export default async function (fastify: FastifyInstance) {
       firstName,
       lastName,
       role,
+      institution,
       assignedCategories,
       assignedPresentationTypes,
     } = result.data;
@@ -172,6 +189,7 @@ export default async function (fastify: FastifyInstance) {
           firstName,
           lastName,
           role,
+          institution: institution || null,
           isActive: true,
           assignedCategories: assignedCategories || [],
           assignedPresentationTypes: assignedPresentationTypes || [],
@@ -186,7 +204,7 @@ export default async function (fastify: FastifyInstance) {
   });
 
   // Update User
-  fastify.patch("/:id", async (request, reply) => {
+  fastify.patch("/:id", { config: { permission: "staff:manage" } }, async (request, reply) => {
     const { id } = request.params as { id: string };
     const result = updateUserSchema.safeParse(request.body);
     if (!result.success) {
@@ -227,6 +245,16 @@ export default async function (fastify: FastifyInstance) {
     updates.updatedAt = new Date();
 
     try {
+      const [current] = await db
+        .select({ role: backofficeUsers.role, isActive: backofficeUsers.isActive })
+        .from(backofficeUsers)
+        .where(eq(backofficeUsers.id, parseInt(id)))
+        .limit(1);
+
+      if (!current) {
+        return reply.status(404).send({ error: "User not found" });
+      }
+
       const [updatedUser] = await db
         .update(backofficeUsers)
         .set(updates)
@@ -237,7 +265,21 @@ export default async function (fastify: FastifyInstance) {
         return reply.status(404).send({ error: "User not found" });
       }
 
-      return reply.send({ user: updatedUser });
+      // Signed-in devices still carry the old role or password; end their sessions
+      const revokeReason: SessionRevokeReason | null =
+        current.isActive && !updatedUser.isActive
+          ? "deactivated"
+          : current.role !== updatedUser.role
+            ? "role_changed"
+            : updates.passwordHash
+              ? "password_changed"
+              : null;
+      if (revokeReason) {
+        await revokeAllSessions({ staffId: updatedUser.id }, revokeReason);
+      }
+
+      const { totpSecret, totpRecoveryCodes, totpLastUsedStep, ...user } = updatedUser;
+      return reply.send({ user });
     } catch (error) {
       fastify.log.error(error);
       return reply.status(500).send({ error: "Failed to update user" });
@@ -245,7 +287,7 @@ export default async function (fastify: FastifyInstance) {
   });
 
   // Delete User
-  fastify.delete("/:id", async (request, reply) => {
+  fastify.delete("/:id", { config: { permission: "staff:manage" } }, async (request, reply) => {
     const { id } = request.params as { id: string };
 
     try {
@@ -266,8 +308,134 @@ export default async function (fastify: FastifyInstance) {
     }
   });
 
+  // Active sign-in sessions of a staff member
+  fastify.get("/:id/sessions", { config: { permission: "staff:manage" } }, async (request, reply) => {
+    const staffId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(staffId)) {
+      return reply.status(400).send({ error: "Invalid user ID" });
+    }
+
+    try {
+      const sessions = await listActiveSessions({ staffId });
+      return reply.send({ sessions });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to fetch sessions" });
+    }
+  });
+
+  // Sign a staff member out everywhere
+  fastify.delete("/:id/sessions", { config: { permission: "staff:manage" } }, async (request, reply) => {
+    const staffId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(staffId)) {
+      return reply.status(400).send({ error: "Invalid user ID" });
+    }
+
+    try {
+      const revokedSessions = await revokeAllSessions({ staffId }, "revoked");
+      fastify.log.info(`sessions: ${revokedSessions} of staff ${staffId} revoked by staff ${request.user.id}`);
+      return reply.send({ success: true, revokedSessions });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to revoke sessions" });
+    }
+  });
+
+  // Recent sign-in attempts of a staff member
+  fastify.get("/:id/login-history", { config: { permission: "staff:manage" } }, async (request, reply) => {
+    const staffId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(staffId)) {
+      return reply.status(400).send({ error: "Invalid user ID" });
+    }
+
+    try {
+      const history = await listLoginHistory({ staffId });
+      return reply.send({ history });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to fetch login history" });
+    }
+  });
+
+  // Lift a lockout after too many failed sign-ins
+  fastify.post("/:id/unlock", { config: { permission: "staff:manage" } }, async (request, reply) => {
+    const staffId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(staffId)) {
+      return reply.status(400).send({ error: "Invalid user ID" });
+    }
+
+    try {
+      const unlocked = await unlockAccount({ staffId });
+      if (!unlocked) {
+        return reply.status(404).send({ error: "User not found" });
+      }
+      fastify.log.info(`login: staff ${staffId} unlocked by staff ${request.user.id}`);
+      return reply.send({ success: true });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to unlock user" });
+    }
+  });
+
+  // Roles that must sign in with an authenticator app
+  fastify.get("/two-factor-policies", { config: { permission: "staff:manage" } }, async (_request, reply) => {
+    try {
+      const policies = await listTwoFactorPolicies();
+      return reply.send({ policies });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to fetch two-factor policies" });
+    }
+  });
+
+  fastify.put("/two-factor-policies/:role", { config: { permission: "staff:manage" } }, async (request, reply) => {
+    const roleResult = z.enum(staffRoleEnum.enumValues).safeParse((request.params as { role: string }).role);
+    if (!roleResult.success) {
+      return reply.status(400).send({ error: "Invalid role" });
+    }
+
+    const result = twoFactorPolicySchema.safeParse(request.body);
+    if (!result.success) {
+      return reply
+        .status(400)
+        .send({ error: "Invalid input", details: result.error.flatten() });
+    }
+
+    try {
+      const policy = await setTwoFactorPolicy(roleResult.data, result.data.required, request.user.id);
+      fastify.log.info(
+        `2fa: ${result.data.required ? "required" : "optional"} for role ${roleResult.data} by staff ${request.user.id}`
+      );
+      return reply.send({ policy });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to update two-factor policy" });
+    }
+  });
+
+  // Reset 2FA for a staff member who lost their authenticator; signs them out everywhere
+  fastify.delete("/:id/two-factor", { config: { permission: "staff:manage" } }, async (request, reply) => {
+    const staffId = parseInt((request.params as { id: string }).id, 10);
+    if (isNaN(staffId)) {
+      return reply.status(400).send({ error: "Invalid user ID" });
+    }
+
+    try {
+      const wasEnabled = await resetTwoFactor(staffId);
+      const revokedSessions = await revokeAllSessions({ staffId }, "two_factor_reset");
+      fastify.log.info(`2fa: reset for staff ${staffId} by staff ${request.user.id}`);
+      return reply.send({ success: true, wasEnabled, revokedSessions });
+    } catch (error) {
+      if (error instanceof Error && error.message === "STAFF_NOT_FOUND") {
+        return reply.status(404).send({ error: "User not found" });
+      }
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to reset two-factor authentication" });
+    }
+  });
+
   // Assign Events (legacy — event-level only)
-  fastify.post("/:id/assignments", async (request, reply) => {
+  fastify.post("/:id/assignments", { config: { permission: "staff:manage" } }, async (request, reply) => {
     const { id } = request.params as { id: string };
     const result = assignEventSchema.safeParse(request.body);
     if (!result.success) {
@@ -305,7 +473,7 @@ export default async function (fastify: FastifyInstance) {
   });
 
   // Assign Events + Sessions (new — supports session-level granularity)
-  fastify.put("/:id/assignments", async (request, reply) => {
+  fastify.put("/:id/assignments", { config: { permission: "staff:manage" } }, async (request, reply) => {
     const { id } = request.params as { id: string };
     const result = assignEventsAndSessionsSchema.safeParse(request.body);
     if (!result.success) {
@@ -5,6 +5,7 @@ import { eq, desc, isNotNull, ilike, or, count, and, SQL } from "drizzle-orm";
 import z from "zod";
 import { sendVerificationApprovedEmail, sendVerificationRejectedEmail } from "../../services/emailService.js";
 import { getFullName } from "../../utils/name.js";
+import { revokeAllSessions } from "../../services/authSession.service.js";
 
 const rejectSchema = z.object({
   reason: z.string().min(1, "Reason is required"),
@@ -24,7 +25,7 @@ const listVerificationsQuerySchema = z.object({
 
 export default async function (fastify: FastifyInstance) {
   // List all verifications (with pagination)
-  fastify.get("", async (request, reply) => {
+  fastify.get("", { config: { permission: "verifications:read" } }, async (request, reply) => {
     const queryResult = listVerificationsQuerySchema.safeParse(request.query);
     if (!queryResult.success) {
       return reply.status(400).send({ error: "Invalid query", details: queryResult.error.flatten() });
@@ -114,7 +115,7 @@ export default async function (fastify: FastifyInstance) {
   });
 
   // Approve User
-  fastify.post("/:id/approve", async (request, reply) => {
+  fastify.post("/:id/approve", { config: { permission: "verifications:write" } }, async (request, reply) => {
     const { id } = request.params as { id: string };
     const bodyResult = approveSchema.safeParse(request.body);
     const comment = bodyResult.success ? bodyResult.data.comment : undefined;
@@ -145,7 +146,7 @@ export default async function (fastify: FastifyInstance) {
   });
 
   // Reject User
-  fastify.post("/:id/reject", async (request, reply) => {
+  fastify.post("/:id/reject", { config: { permission: "verifications:write" } }, async (request, reply) => {
     const { id } = request.params as { id: string };
     const result = rejectSchema.safeParse(request.body);
 
@@ -170,6 +171,8 @@ export default async function (fastify: FastifyInstance) {
         return reply.status(404).send({ error: "User not found" });
       }
 
+      await revokeAllSessions({ userId: updatedUser.id }, "deactivated");
+
       // Save rejection history with the backoffice user who rejected
       const backofficeUser = request.user as { id: number } | undefined;
       await db.insert(verificationRejectionHistory).values({
@@ -200,7 +203,7 @@ export default async function (fastify: FastifyInstance) {
   });
 
   // Get rejection history for a user
-  fastify.get("/:id/rejection-history", async (request, reply) => {
+  fastify.get("/:id/rejection-history", { config: { permission: "verifications:read" } }, async (request, reply) => {
     const { id } = request.params as { id: string };
 
     try {
@@ -0,0 +1,144 @@
+/**
+ * Waitlist management (admin / organizer only)
+ *
+ * GET    /api/backoffice/waitlist?eventId=1&ticketTypeId=&sessionId=&status=
+ * PUT    /api/backoffice/waitlist/order       reorder the waiting queue of a ticket / session
+ * POST   /api/backoffice/waitlist/release     offer every free seat to the next in line
+ * POST   /api/backoffice/waitlist/:id/offer   give one entry a purchase hold now
+ * DELETE /api/backoffice/waitlist/:id         remove an entry (a released hold moves on)
+ */
+import { FastifyInstance } from "fastify";
+import {
+  releaseWaitlistSchema,
+  reorderWaitlistSchema,
+  waitlistListSchema,
+} from "../../schemas/waitlist.schema.js";
+import {
+  expireWaitlistHolds,
+  listWaitlist,
+  offerWaitlistEntry,
+  releaseWaitlistSeats,
+  removeWaitlistEntry,
+  reorderWaitlist,
+  sendWaitlistOfferEmails,
+  toWaitlistTarget,
+} from "../../services/waitlist.service.js";
+import { eventOfWaitlistEntry } from "../../utils/authorization.js";
+
+export default async function (fastify: FastifyInstance) {
+  fastify.get("", { config: { permission: "waitlist:manage" } }, async (request, reply) => {
+    const queryResult = waitlistListSchema.safeParse(request.query);
+    if (!queryResult.success) {
+      return reply
+        .status(400)
+        .send({ error: "Invalid query", details: queryResult.error.flatten() });
+    }
+
+    try {
+      await expireWaitlistHolds();
+      const entries = await listWaitlist(queryResult.data);
+      return reply.send({ entries, total: entries.length });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to fetch waitlist" });
+    }
+  });
+
+  fastify.put("/order", { config: { permission: "waitlist:manage" } }, async (request, reply) => {
+    const result = reorderWaitlistSchema.safeParse(request.body);
+    if (!result.success) {
+      return reply
+        .status(400)
+        .send({ error: "Invalid input", details: result.error.flatten() });
+    }
+
+    try {
+      const target = toWaitlistTarget(result.data);
+      await reorderWaitlist(target, result.data.entryIds);
+      fastify.log.info(
+        `waitlist: ${JSON.stringify(target)} reordered by staff ${request.user.id}`,
+      );
+      return reply.send({ entries: await listWaitlist({ ...target, status: "waiting" }) });
+    } catch (error) {
+      if (error instanceof Error && error.message === "WAITLIST_ORDER_MISMATCH") {
+        return reply.status(409).send({
+          code: "WAITLIST_ORDER_MISMATCH",
+          error: "entryIds must list every waiting entry of this queue exactly once",
+        });
+      }
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to reorder waitlist" });
+    }
+  });
+
+  fastify.post("/release", { config: { permission: "waitlist:manage" } }, async (request, reply) => {
+    const result = releaseWaitlistSchema.safeParse(request.body);
+    if (!result.success) {
+      return reply
+        .status(400)
+        .send({ error: "Invalid input", details: result.error.flatten() });
+    }
+
+    try {
+      const offers = await releaseWaitlistSeats(fastify, [toWaitlistTarget(result.data)]);
+      return reply.send({
+        offered: offers.map((o) => ({
+          entryId: o.entryId,
+          email: o.email,
+          holdExpiresAt: o.holdExpiresAt,
+        })),
+      });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to release seats" });
+    }
+  });
+
+  fastify.post("/:id/offer", { config: { permission: "waitlist:manage", eventOf: eventOfWaitlistEntry() } }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const entryId = parseInt(id, 10);
+    if (Number.isNaN(entryId)) {
+      return reply.status(400).send({ error: "Invalid waitlist entry ID" });
+    }
+
+    try {
+      const offer = await offerWaitlistEntry(entryId);
+      fastify.log.info(`waitlist: entry ${entryId} offered by staff ${request.user.id}`);
+      // Email goes out in the background; the response does not wait for it
+      sendWaitlistOfferEmails(fastify, [offer]).catch((error) =>
+        fastify.log.error({ err: error }, "waitlist: offer email task failed"),
+      );
+      return reply.send({ entryId, holdExpiresAt: offer.holdExpiresAt });
+    } catch (error) {
+      const code = error instanceof Error ? error.message : "";
+      if (code === "WAITLIST_ENTRY_NOT_FOUND") {
+        return reply.status(404).send({ code, error: "Waitlist entry not found" });
+      }
+      if (code === "WAITLIST_ENTRY_NOT_WAITING") {
+        return reply.status(409).send({ code, error: "Only waiting entries can be offered a seat" });
+      }
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to offer seat" });
+    }
+  });
+
+  fastify.delete("/:id", { config: { permission: "waitlist:manage", eventOf: eventOfWaitlistEntry() } }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const entryId = parseInt(id, 10);
+    if (Number.isNaN(entryId)) {
+      return reply.status(400).send({ error: "Invalid waitlist entry ID" });
+    }
+
+    try {
+      await removeWaitlistEntry(fastify, entryId);
+      fastify.log.info(`waitlist: entry ${entryId} removed by staff ${request.user.id}`);
+      return reply.send({ success: true });
+    } catch (error) {
+      if (error instanceof Error && error.message === "WAITLIST_ENTRY_NOT_FOUND") {
+        return reply.status(404).send({ code: "WAITLIST_ENTRY_NOT_FOUND", error: "Waitlist entry not found" });
+      }
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to remove waitlist entry" });
+    }
+  });
+}
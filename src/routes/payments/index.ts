@@ -16,7 +16,7 @@ import {
   promoCodeUsages,
   events,
 } from "../../database/schema.js";
-import { eq, and, sql, inArray, count, desc } from "drizzle-orm";
+import { eq, and, sql, inArray, desc } from "drizzle-orm";
 import { createPaymentIntentSchema } from "../../schemas/payment.schema.js";
 import type Stripe from "stripe";
 import {
@@ -46,13 +46,35 @@ import {
   calculatePaySolutionsFeeExact,
   resolvePaySolutionsChannel,
   resolvePaySolutionsFeeMethod,
+  type PaySolutionsFeeMethod,
 } from "../../utils/paySolutionsFee.js";
 import { buildChargeNote, convertUsdDiscountToThb, convertUsdToThb, isInternationalRole, resolveChargeDisplay } from "../../utils/alipayCharge.js";
+import { findExchangeRate } from "../../services/exchangeRate.service.js";
 import { generateReceiptToken, verifyReceiptToken } from "../../utils/receiptToken.js";
 import { generateReceiptPdf, resolveReceiptPaymentChannel } from "../../services/receiptPdf.js";
 import { sendPaymentReceiptEmail } from "../../services/emailService.js";
 import { getFullName } from "../../utils/name.js";
-import { validatePromoCode, reservePromoUsage, settlePromoUsageSuccess, cancelPromoUsage } from "../../utils/promoEngine.js";
+import { validatePromoCode, reservePromoUsage, settlePromoUsageSuccess } from "../../utils/promoEngine.js";
+import {
+  getSeatAvailability,
+  releaseWaitlistSeats,
+  reserveOrderSeats,
+  type WaitlistTarget,
+} from "../../services/waitlist.service.js";
+import { applyProviderRefund, updateStripeRefundStatus } from "../../services/refund.service.js";
+import { recordOrderEvent, transitionOrder } from "../../services/orderEvents.service.js";
+import {
+  buildInvoiceUrl,
+  generateOrderProformaInvoice,
+  getInvoiceDueDate,
+  sendInvoiceEmail,
+} from "../../services/invoice.service.js";
+import {
+  parseWorkshopSessionIdFromDetails,
+  processSuccessfulPayment,
+  releaseOrderReservations,
+} from "../../services/paymentProcessing.js";
+import { forbidImpersonation } from "../../utils/authorization.js";
 
 // ─────────────────────────────────────────────────────
 // Helpers
@@ -64,12 +86,6 @@ function generateOrderNumber(): string {
   return `ACCP2026-${ts}-${rand}`;
 }
 
-function generateRegCode(): string {
-  const ts = Date.now().toString(36).toUpperCase();
-  const rand = Math.random().toString(36).substring(2, 8).toUpperCase();
-  return `REG-${ts}${rand}`;
-}
-
 const PAY_SOLUTIONS_REFNO_PROD_MIN = 300000000001;
 const PAY_SOLUTIONS_REFNO_PROD_MAX = 399999999999;
 
@@ -243,20 +259,6 @@ function parsePostbackBody(body: unknown): Record<string, unknown> {
   return {};
 }
 
-function parseWorkshopSessionIdFromDetails(details: unknown): number | null {
-  if (!details || typeof details !== "object" || Array.isArray(details)) {
-    return null;
-  }
-
-  const raw = (details as Record<string, unknown>).workshopSessionId;
-  if (raw === undefined || raw === null || raw === "") {
-    return null;
-  }
-
-  const parsed = typeof raw === "number" ? raw : parseInt(String(raw), 10);
-  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
-}
-
 function sortOrderItemsPrimaryFirst<T extends { itemType?: string; type?: string }>(items: T[]): T[] {
   return [...items].sort((a, b) => {
     const aRank = (a.itemType ?? a.type) === "ticket" ? 0 : 1;
@@ -274,6 +276,7 @@ interface TaxInvoiceInfo {
   taxDistrict: string | null;
   taxProvince: string | null;
   taxPostalCode: string | null;
+  taxBranchCode: string | null;
   taxFullAddress: string | null;
 }
 
@@ -310,6 +313,7 @@ function buildTaxInvoiceInfo(data: {
   taxDistrict?: string;
   taxProvince?: string;
   taxPostalCode?: string;
+  taxBranchCode?: string;
 }): TaxInvoiceInfo {
   if (!data.needTaxInvoice) {
     return {
@@ -321,6 +325,7 @@ function buildTaxInvoiceInfo(data: {
       taxDistrict: null,
       taxProvince: null,
       taxPostalCode: null,
+      taxBranchCode: null,
       taxFullAddress: null,
     };
   }
@@ -340,6 +345,8 @@ function buildTaxInvoiceInfo(data: {
     taxDistrict,
     taxProvince,
     taxPostalCode,
+    // Head office unless the buyer named a branch
+    taxBranchCode: normalizeOptionalText(data.taxBranchCode) ?? "00000",
     taxFullAddress: buildTaxFullAddress({
       taxAddress,
       taxSubDistrict,
@@ -433,6 +440,7 @@ async function resolveTicketId(
 }
 
 interface AlipayChargeContext {
+  exchangeRate: number;
   thbSubtotal: number;
   thbDiscount: number;
   thbNet: number;
@@ -442,10 +450,11 @@ interface AlipayChargeContext {
 
 function buildAlipayChargeContext(
   usdSubtotal: number,
-  usdDiscount: number
+  usdDiscount: number,
+  exchangeRate: number
 ): AlipayChargeContext {
-  const thbSubtotal = convertUsdToThb(usdSubtotal);
-  const thbDiscount = convertUsdDiscountToThb(usdDiscount);
+  const thbSubtotal = convertUsdToThb(usdSubtotal, exchangeRate);
+  const thbDiscount = convertUsdDiscountToThb(usdDiscount, exchangeRate);
   const thbNet = Math.round((thbSubtotal - thbDiscount) * 100) / 100;
   const feeBreakdown =
     thbNet > 0
@@ -462,6 +471,7 @@ function buildAlipayChargeContext(
         };
 
   return {
+    exchangeRate,
     thbSubtotal,
     thbDiscount,
     thbNet,
@@ -470,6 +480,28 @@ function buildAlipayChargeContext(
   };
 }
 
+/** Currencies the event is sold in; null when the event does not exist. */
+async function getEventCurrencies(eventId: number): Promise<string[] | null> {
+  const [event] = await db
+    .select({ currencies: events.currencies })
+    .from(events)
+    .where(eq(events.id, eventId))
+    .limit(1);
+  return event ? event.currencies : null;
+}
+
+const CURRENCY_NOT_OFFERED_ERROR = {
+  success: false,
+  code: "CURRENCY_NOT_OFFERED",
+  error: "This event is not sold in the selected currency",
+};
+
+const EXCHANGE_RATE_UNAVAILABLE_ERROR = {
+  success: false,
+  code: "EXCHANGE_RATE_UNAVAILABLE",
+  error: "No exchange rate is configured for this payment method",
+};
+
 interface PurchaseSnapshot {
   hasPrimaryTicket: boolean;
   primaryTicketName: string | null;
@@ -495,7 +527,8 @@ function parsePositiveEventId(value: unknown): number | null {
 }
 
 async function getPaidPurchaseSnapshot(userId: number, eventId?: number): Promise<PurchaseSnapshot> {
-  const orderConditions = [eq(orders.userId, userId), eq(orders.status, "paid")];
+  // Seats bought for others in a group order do not count as the buyer's own ticket
+  const orderConditions = [eq(orders.userId, userId), eq(orders.status, "paid"), eq(orders.isGroupOrder, false)];
   if (typeof eventId === "number") {
     orderConditions.push(eq(orders.eventId, eventId));
   }
@@ -593,408 +626,6 @@ async function getPaidPurchaseSnapshot(userId: number, eventId?: number): Promis
   };
 }
 
-async function findConfirmedRegistrationForEvent(
-  tx: any,
-  userId: number,
-  eventId: number,
-  logger?: { warn?: (...args: any[]) => void }
-) {
-  const existingRegistrations = await tx
-    .select({
-      id: registrations.id,
-      regCode: registrations.regCode,
-      eventId: registrations.eventId,
-    })
-    .from(registrations)
-    .where(
-      and(
-        eq(registrations.userId, userId),
-        eq(registrations.eventId, eventId),
-        eq(registrations.status, "confirmed")
-      )
-    )
-    .orderBy(desc(registrations.id))
-    .limit(2);
-
-  if (existingRegistrations.length > 1) {
-    logger?.warn?.(
-      `[PAYMENTS] Multiple confirmed registrations found for user=${userId}, event=${eventId}; using latest registrationId=${existingRegistrations[0].id}`
-    );
-  }
-
-  return existingRegistrations[0] || null;
-}
-
-async function resolveOrderEventId(tx: any, order: { id: number; eventId: number | null }) {
-  if (order.eventId) {
-    return order.eventId;
-  }
-
-  const [primaryTicket] = await tx
-    .select({ eventId: ticketTypes.eventId })
-    .from(orderItems)
-    .innerJoin(ticketTypes, eq(orderItems.ticketTypeId, ticketTypes.id))
-    .where(and(eq(orderItems.orderId, order.id), eq(orderItems.itemType, "ticket")))
-    .limit(1);
-
-  if (primaryTicket?.eventId) {
-    return primaryTicket.eventId;
-  }
-
-  const [registrationEvent] = await tx
-    .select({ eventId: registrations.eventId })
-    .from(registrations)
-    .where(eq(registrations.orderId, order.id))
-    .orderBy(desc(registrations.id))
-    .limit(1);
-
-  if (registrationEvent?.eventId) {
-    return registrationEvent.eventId;
-  }
-
-  const legacyOrderEvents = await tx
-    .select({ eventId: ticketTypes.eventId })
-    .from(orderItems)
-    .innerJoin(ticketTypes, eq(orderItems.ticketTypeId, ticketTypes.id))
-    .where(eq(orderItems.orderId, order.id))
-    .groupBy(ticketTypes.eventId)
-    .limit(2);
-
-  return legacyOrderEvents.length === 1 ? legacyOrderEvents[0].eventId : null;
-}
-
-async function countConfirmedWorkshopEnrollments(eventId: number, sessionId: number) {
-  const [row] = await db
-    .select({ count: count() })
-    .from(registrationSessions)
-    .innerJoin(registrations, eq(registrationSessions.registrationId, registrations.id))
-    .where(
-      and(
-        eq(registrationSessions.sessionId, sessionId),
-        eq(registrations.eventId, eventId),
-        eq(registrations.status, "confirmed")
-      )
-    );
-
-  let enrolled = row?.count ?? 0;
-
-  // Retrieve the session code to check if it matches WORKSHOP-01 (or ID 12)
-  const [session] = await db
-    .select({ sessionCode: sessions.sessionCode })
-    .from(sessions)
-    .where(eq(sessions.id, sessionId))
-    .limit(1);
-
-  if (session && (session.sessionCode === "WORKSHOP-01" || sessionId === 12)) {
-    enrolled += 20;
-  }
-
-  return enrolled;
-}
-
-// ─────────────────────────────────────────────────────
-// Shared: process a successful payment
-// ─────────────────────────────────────────────────────
-
-/**
- * Process a successful payment: create registrations for ALL items + update soldCount.
- * Used by both webhook and verify endpoint.
- * Returns { order, user } for email sending, or null if order not found.
- */
-async function processSuccessfulPayment(
-  fastify: {
-    log: {
-      info: (...args: any[]) => void;
-      error: (...args: any[]) => void;
-      warn?: (...args: any[]) => void;
-    };
-  },
-  orderId: number,
-  providerRef: string,
-  workshopSessionId: number | null,
-  receiptUrl: string | null,
-  paymentChannel: string,
-  paymentProvider: "stripe" | "pay_solutions" | "ktb_fastpay" = "stripe",
-  providerStatus: string = "PAID",
-  paymentDetails: Record<string, unknown> | null = null,
-): Promise<{
-  order: {
-    id: number;
-    userId: number;
-    orderNumber: string;
-    totalAmount: string;
-    currency: string;
-    status: string;
-    discountAmount: string | null;
-    promoCode: string | null;
-    needTaxInvoice: boolean;
-    taxName: string | null;
-    taxId: string | null;
-    taxAddress: string | null;
-    taxSubDistrict: string | null;
-    taxDistrict: string | null;
-    taxProvince: string | null;
-    taxPostalCode: string | null;
-    taxFullAddress: string | null;
-  };
-  user: { email: string; firstName: string; middleName: string | null; lastName: string };
-  regCode: string;
-} | null> {
-  return await db.transaction(async (tx) => {
-    // Update order status
-    const [order] = await tx
-      .select()
-      .from(orders)
-      .where(eq(orders.id, orderId))
-      .limit(1);
-
-    if (!order) return null;
-
-    if (order.status !== "paid") {
-      await tx
-        .update(orders)
-        .set({ status: "paid" })
-        .where(eq(orders.id, orderId));
-    }
-
-    // Update payment record
-    await tx
-      .update(payments)
-      .set({
-        status: "paid",
-        paymentChannel,
-        paymentProvider,
-        providerRef,
-        providerStatus,
-        paySolutionsChannel: paymentProvider === "pay_solutions" ? paymentChannel : undefined,
-        stripeReceiptUrl: paymentProvider === "stripe" ? receiptUrl : null,
-        paymentDetails: paymentDetails || undefined,
-        paidAt: new Date(),
-      })
-      .where(eq(payments.orderId, orderId));
-
-    // Get user info
-    const [user] = await tx
-      .select({
-        email: users.email,
-        firstName: users.firstName,
-        middleName: users.middleName,
-        lastName: users.lastName,
-      })
-      .from(users)
-      .where(eq(users.id, order.userId))
-      .limit(1);
-
-    if (!user) return null;
-
-    // Get order items
-    const items = await tx
-      .select({
-        id: orderItems.id,
-        itemType: orderItems.itemType,
-        ticketTypeId: orderItems.ticketTypeId,
-        price: orderItems.price,
-        quantity: orderItems.quantity,
-      })
-      .from(orderItems)
-      .where(eq(orderItems.orderId, orderId));
-
-    // Duplicate guard: check if registration already exists for this order
-    const existingRegCount = await tx
-      .select({ count: count() })
-      .from(registrations)
-      .where(eq(registrations.orderId, orderId));
-
-    if (existingRegCount[0].count > 0) {
-      fastify.log.info(`Registration already exists for order ${orderId}, skipping creation`);
-      const [existingReg] = await tx
-        .select({ regCode: registrations.regCode })
-        .from(registrations)
-        .where(eq(registrations.orderId, orderId))
-        .limit(1);
-      return { order: { ...order, status: "paid" as string }, user, regCode: existingReg?.regCode || "" };
-    }
-
-    const orderEventId = await resolveOrderEventId(tx, order);
-    if (!orderEventId) {
-      fastify.log.error(`Unable to resolve event scope for order ${orderId}`);
-      return null;
-    }
-
-    if (!order.eventId) {
-      fastify.log.warn?.(
-        `Order ${orderId} is missing eventId; using derived eventId=${orderEventId} for legacy compatibility`
-      );
-    }
-
-    // Find primary (ticket) item to determine whether this is a full order or addon-only order
-    const primaryItem = items.find(i => i.itemType === "ticket");
-    const isAddonOnlyOrder = !primaryItem;
-
-    let registration: { id: number };
-    let regCode: string;
-
-    if (isAddonOnlyOrder) {
-      // ── Addon-only order: use existing registration ────
-      const existingReg = await findConfirmedRegistrationForEvent(
-        tx,
-        order.userId,
-        orderEventId,
-        fastify.log
-      );
-
-      if (!existingReg) {
-        fastify.log.error(
-          `Addon-only order ${orderId} but no confirmed registration exists for user ${order.userId} in event ${orderEventId}`
-        );
-        return null;
-      }
-
-      registration = { id: existingReg.id };
-      regCode = existingReg.regCode;
-      fastify.log.info(`Addon-only order ${orderId}: using existing registration ${existingReg.id}`);
-    } else {
-      // ── Full order: create new registration ────────────
-      const [primaryTicket] = await tx
-        .select({ eventId: ticketTypes.eventId })
-        .from(ticketTypes)
-        .where(eq(ticketTypes.id, primaryItem.ticketTypeId))
-        .limit(1);
-
-      if (!primaryTicket?.eventId || primaryTicket.eventId !== orderEventId) {
-        fastify.log.error(
-          `Primary ticket event mismatch for order ${orderId}: orderEventId=${orderEventId}, ticketEventId=${primaryTicket?.eventId ?? "null"}`
-        );
-        return null;
-      }
-
-      regCode = generateRegCode();
-      const [newReg] = await tx.insert(registrations).values({
-        regCode,
-        orderId,
-        eventId: orderEventId,
-        ticketTypeId: primaryItem.ticketTypeId,
-        userId: order.userId,
-        email: user.email,
-        firstName: user.firstName,
-        middleName: user.middleName,
-        lastName: user.lastName,
-        status: "confirmed",
-      }).returning();
-
-      registration = { id: newReg.id };
-    }
-
-    // Create registration_sessions for each order item
-    let totalSessionLinks = 0;
-    for (const item of items) {
-      const [ticket] = await tx
-        .select({ groupName: ticketTypes.groupName, eventId: ticketTypes.eventId })
-        .from(ticketTypes)
-        .where(eq(ticketTypes.id, item.ticketTypeId))
-        .limit(1);
-
-      if (!ticket || ticket.eventId !== orderEventId) {
-        fastify.log.error(
-          `[PROCESS-PAYMENT] Skipping item: ticket ${item.ticketTypeId} is outside order event scope (order ${orderId}, orderEventId=${orderEventId}, ticketEventId=${ticket?.eventId ?? "null"})`
-        );
-        continue;
-      }
-
-      // Determine which session(s) to link
-      let sessionIdsToLink: number[] = [];
-
-      // Check if this addon item is THE workshop the user chose.
-      // Use ticketSessions junction as source of truth (more reliable than groupName string match).
-      let isUserChosenWorkshop = false;
-      if (item.itemType === "addon" && workshopSessionId) {
-        const [linkedWorkshop] = await tx
-          .select({ id: ticketSessions.id })
-          .from(ticketSessions)
-          .innerJoin(sessions, eq(ticketSessions.sessionId, sessions.id))
-          .where(
-            and(
-              eq(ticketSessions.ticketTypeId, item.ticketTypeId),
-              eq(ticketSessions.sessionId, workshopSessionId),
-              eq(sessions.eventId, orderEventId)
-            )
-          )
-          .limit(1);
-        isUserChosenWorkshop = !!linkedWorkshop;
-      }
-
-      if (isUserChosenWorkshop) {
-        // User explicitly chose this workshop session at checkout
-        sessionIdsToLink = [workshopSessionId!];
-        fastify.log.info(
-          `[PROCESS-PAYMENT] Order ${orderId} item ${item.id} (ticket ${item.ticketTypeId}) → linking user-chosen workshop session ${workshopSessionId}`
-        );
-      } else {
-        // Primary or other addon → lookup sessions from ticketSessions junction
-        const linkedSessions = await tx
-          .select({ sessionId: ticketSessions.sessionId })
-          .from(ticketSessions)
-          .innerJoin(sessions, eq(ticketSessions.sessionId, sessions.id))
-          .where(
-            and(
-              eq(ticketSessions.ticketTypeId, item.ticketTypeId),
-              eq(sessions.eventId, orderEventId)
-            )
-          );
-
-        sessionIdsToLink = linkedSessions.map(ls => ls.sessionId);
-
-        // Fallback for primary tickets: if no ticket_sessions rows, auto-link to main session(s)
-        if (sessionIdsToLink.length === 0 && item.itemType === "ticket") {
-          const mainSessions = await tx
-            .select({ id: sessions.id })
-            .from(sessions)
-            .where(
-              and(
-                eq(sessions.eventId, orderEventId),
-                eq(sessions.isMainSession, true)
-              )
-            );
-          sessionIdsToLink = mainSessions.map(s => s.id);
-
-          // Backfill ticket_sessions so future lookups work
-          if (sessionIdsToLink.length > 0) {
-            await tx.insert(ticketSessions).values(
-              sessionIdsToLink.map(sid => ({
-                ticketTypeId: item.ticketTypeId,
-                sessionId: sid,
-              }))
-            );
-            fastify.log.info(`Backfilled ticket_sessions for primary ticket ${item.ticketTypeId} → ${sessionIdsToLink.length} main sessions`);
-          }
-        }
-      }
-
-      // Insert registration_sessions rows
-      for (const sid of sessionIdsToLink) {
-        await tx.insert(registrationSessions).values({
-          registrationId: registration.id,
-          sessionId: sid,
-          ticketTypeId: item.ticketTypeId,
-        });
-        totalSessionLinks++;
-      }
-
-      // Update soldCount (unchanged)
-      await tx
-        .update(ticketTypes)
-        .set({
-          soldCount: sql`${ticketTypes.soldCount} + ${item.quantity}`,
-        })
-        .where(eq(ticketTypes.id, item.ticketTypeId));
-    }
-
-    fastify.log.info(`${isAddonOnlyOrder ? "Addon-only" : "Created 1 registration"} + ${totalSessionLinks} session links + updated soldCount for order ${orderId}`);
-
-    return { order: { ...order, status: "paid" as string }, user, regCode };
-  });
-}
-
 // ─────────────────────────────────────────────────────
 // Routes
 // ─────────────────────────────────────────────────────
@@ -1168,6 +799,13 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
               "ktb_fastpay",
               "SUCCESS",
               mergedDetails,
+              {
+                source: "ktb_datafeed",
+                paymentId: payment.id,
+                payloadRef: payload.orderRef,
+                payload: payload.raw,
+                idempotencyKey: `ktb:${payload.orderRef}:${payload.successcode}`,
+              },
             );
 
             if (txResult) {
@@ -1242,6 +880,22 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
               ? "CANCELLED"
               : "FAILED";
 
+            const transition = await transitionOrder(db, payment.orderId, "cancelled", {
+              source: "ktb_datafeed",
+              paymentId: payment.id,
+              paymentStatus: nextStatus,
+              providerRef: payment.providerRef,
+              payloadRef: payload.orderRef,
+              payload: payload.raw,
+              idempotencyKey: `ktb:${payload.orderRef}:${payload.successcode}`,
+            });
+            if (!transition.allowed) {
+              fastify.log.warn(
+                `[KTB-DATAFEED] Ignored successcode=${payload.successcode} for orderRef=${payload.orderRef} (${transition.reason})`
+              );
+              return;
+            }
+
             await db
               .update(payments)
               .set({
@@ -1252,12 +906,7 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
               })
               .where(eq(payments.id, payment.id));
 
-            await db
-              .update(orders)
-              .set({ status: "cancelled" })
-              .where(eq(orders.id, payment.orderId));
-
-            await cancelPromoUsage(payment.orderId);
+            await releaseOrderReservations(fastify, payment.orderId, nextStatus);
 
             fastify.log.info(
               `[KTB-DATAFEED] Marked ${nextStatus} for orderRef=${payload.orderRef}, successcode=${payload.successcode}`
@@ -1600,6 +1249,11 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
       }
 
       try {
+        const eventCurrencies = await getEventCurrencies(eventId);
+        if (eventCurrencies && !eventCurrencies.includes(currency)) {
+          return reply.status(400).send(CURRENCY_NOT_OFFERED_ERROR);
+        }
+
         // Resolve primary ticket
         let primaryTicket: ResolvedTicket | null = null;
         if (!isAddonOnly) {
@@ -1650,19 +1304,26 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
 
         const netAmount = Math.round((subtotal - discountAmount) * 100) / 100;
 
-        let feeMethod = resolvePaySolutionsFeeMethod(paymentMethod, currency);
+        // Bank transfers carry no gateway fee
+        let feeMethod: PaySolutionsFeeMethod | null =
+          paymentMethod === "invoice" ? null : resolvePaySolutionsFeeMethod(paymentMethod, currency);
         let feeBreakdown =
-          netAmount > 0
+          netAmount > 0 && feeMethod
             ? calculatePaySolutionsFeeExact(netAmount, feeMethod)
-            : { fee: 0, total: 0, processingFee: 0, processingVat: 0 };
+            : { fee: 0, total: Math.max(netAmount, 0), processingFee: 0, processingVat: 0 };
 
         let chargeCurrency: "THB" | "USD" = currency;
         let chargeTotal = feeBreakdown.total;
         let chargeFee = feeBreakdown.fee;
         let chargeNet = netAmount;
+        let exchangeRate: number | null = null;
 
         if (paymentMethod === "alipay") {
-          const alipayCharge = buildAlipayChargeContext(subtotal, discountAmount);
+          exchangeRate = await findExchangeRate(currency, "THB");
+          if (!exchangeRate) {
+            return reply.status(503).send(EXCHANGE_RATE_UNAVAILABLE_ERROR);
+          }
+          const alipayCharge = buildAlipayChargeContext(subtotal, discountAmount, exchangeRate);
           feeMethod = "alipay";
           feeBreakdown = alipayCharge.feeBreakdown;
           chargeCurrency = "THB";
@@ -1684,6 +1345,7 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
             currency,
             chargeCurrency,
             chargeNet,
+            exchangeRate,
             feeMethod,
             promoValid,
             promoError,
@@ -1701,7 +1363,7 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
   // ─────────────────────────────────────────────────────
   fastify.post(
     "/create-intent",
-    { preHandler: [fastify.authenticate] },
+    { preHandler: [fastify.authenticate, forbidImpersonation] },
     async (request: FastifyRequest, reply: FastifyReply) => {
       // 1. Validate request body with Zod
       const rawBody = parsePostbackBody(request.body);
@@ -1730,6 +1392,7 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
         paymentMethod,
         promoCode,
         workshopSessionId,
+        quantity,
         needTaxInvoice,
         taxName,
         taxId,
@@ -1738,10 +1401,14 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
         taxDistrict,
         taxProvince,
         taxPostalCode,
+        taxBranchCode,
       } = parsed.data;
       const userId = request.user.id;
       const userRole = String(request.user.role || "");
       const isAddonOnly = !packageId || packageId === "";
+      // The buyer of a group order does not need to attend, so their own tickets are not checked
+      const isGroupOrder = quantity > 1;
+      const isInvoicePayment = paymentMethod === "invoice";
 
       if (paymentMethod === "alipay") {
         if (!isInternationalRole(userRole)) {
@@ -1769,20 +1436,26 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
         taxDistrict,
         taxProvince,
         taxPostalCode,
+        taxBranchCode,
       });
 
       fastify.log.info(
-        `[CREATE-INTENT] eventId=${eventId}, paymentMethod=${paymentMethod}, currency=${currency}, packageId=${packageId || "(addon-only)"}, isAddonOnly=${isAddonOnly}`
+        `[CREATE-INTENT] eventId=${eventId}, paymentMethod=${paymentMethod}, currency=${currency}, packageId=${packageId || "(addon-only)"}, isAddonOnly=${isAddonOnly}, quantity=${quantity}`
       );
 
       try {
+        const eventCurrencies = await getEventCurrencies(eventId);
+        if (eventCurrencies && !eventCurrencies.includes(currency)) {
+          return reply.status(400).send(CURRENCY_NOT_OFFERED_ERROR);
+        }
+
         // ── Duplicate / addon-only guard ─────────────────────
         const purchaseSnapshot = await getPaidPurchaseSnapshot(userId, eventId);
         const userHasPrimary = purchaseSnapshot.hasPrimaryTicket;
         const userPurchasedAddOns = purchaseSnapshot.purchasedAddOns;
 
         // Block duplicate primary ticket purchase
-        if (!isAddonOnly && userHasPrimary) {
+        if (!isAddonOnly && !isGroupOrder && userHasPrimary) {
           return reply.status(400).send({
             success: false,
             error: "You already have a registration ticket for this event. Use add-on purchase instead.",
@@ -1862,8 +1535,6 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
           // Check availability and sale period
           const [currentTicket] = await db
             .select({
-              quota: ticketTypes.quota,
-              soldCount: ticketTypes.soldCount,
               saleStartDate: ticketTypes.saleStartDate,
               saleEndDate: ticketTypes.saleEndDate,
             })
@@ -1893,17 +1564,32 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
               });
             }
 
-            if (currentTicket.quota > 0 && currentTicket.soldCount >= currentTicket.quota) {
-              return reply.status(400).send({
-                success: false,
-                error: "Ticket sold out",
-              });
-            }
+          }
+
+          // Freed seats go to the waitlist first; sold out for this user
+          // unless they hold a waitlist offer
+          await releaseWaitlistSeats(fastify, [{ ticketTypeId: primaryTicket.id }]);
+          const availability = await getSeatAvailability({ ticketTypeId: primaryTicket.id }, userId);
+          if (availability && !availability.canPurchase) {
+            return reply.status(400).send({
+              success: false,
+              error: "Ticket sold out",
+              code: "TICKET_SOLD_OUT",
+              waitlist: { ticketTypeId: primaryTicket.id },
+            });
+          }
+          if (isGroupOrder && availability?.remaining != null && availability.remaining < quantity) {
+            return reply.status(400).send({
+              success: false,
+              error: `Only ${availability.remaining} seats left for this ticket`,
+              code: "GROUP_SEATS_UNAVAILABLE",
+              remaining: availability.remaining,
+            });
           }
         }
 
         // ── Resolve add-ons ─────────────────────────────────
-        let totalAmount = primaryTicket ? Number(primaryTicket.price) : 0;
+        let totalAmount = primaryTicket ? Number(primaryTicket.price) * quantity : 0;
         const resolvedAddOns: ResolvedTicket[] = [];
 
         for (const addOnId of addOnIds) {
@@ -1970,12 +1656,15 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
               });
             }
 
-            const enrollCount = await countConfirmedWorkshopEnrollments(eventId, workshopSessionId);
+            await releaseWaitlistSeats(fastify, [{ sessionId: workshopSessionId }]);
+            const sessionAvailability = await getSeatAvailability({ sessionId: workshopSessionId }, userId);
 
-            if (sessionData.maxCapacity && enrollCount >= sessionData.maxCapacity) {
+            if (sessionAvailability && !sessionAvailability.canPurchase) {
               return reply.status(400).send({
                 success: false,
                 error: "Selected workshop session is full",
+                code: "SESSION_FULL",
+                waitlist: { sessionId: workshopSessionId },
               });
             }
           }
@@ -2044,19 +1733,24 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
           fastify.log.info(`[CREATE-INTENT] Promo "${promoCode}" applied: discount=${discountAmount}, net=${totalAmount}`);
         }
 
-        // 6. Calculate Pay Solutions fee (pass-through to buyer)
+        // 6. Calculate Pay Solutions fee (pass-through to buyer); bank transfers carry none
         const isAlipayPayment = paymentMethod === "alipay";
-        let feeMethod = resolvePaySolutionsFeeMethod(paymentMethod, currency);
+        let feeMethod: PaySolutionsFeeMethod | null =
+          isInvoicePayment ? null : resolvePaySolutionsFeeMethod(paymentMethod, currency);
         let feeBreakdown =
-          totalAmount > 0
+          totalAmount > 0 && feeMethod
             ? calculatePaySolutionsFeeExact(totalAmount, feeMethod)
-            : { fee: 0, total: 0, processingFee: 0, processingVat: 0 };
+            : { fee: 0, total: Math.max(totalAmount, 0), processingFee: 0, processingVat: 0 };
         let chargeAmount = feeBreakdown.total;
         let chargeCurrency: "THB" | "USD" = currency;
         let alipayCharge: AlipayChargeContext | null = null;
 
         if (isAlipayPayment) {
-          alipayCharge = buildAlipayChargeContext(subtotalBeforeDiscount, discountAmount);
+          const exchangeRate = await findExchangeRate(currency, "THB");
+          if (!exchangeRate) {
+            return reply.status(503).send(EXCHANGE_RATE_UNAVAILABLE_ERROR);
+          }
+          alipayCharge = buildAlipayChargeContext(subtotalBeforeDiscount, discountAmount, exchangeRate);
           feeMethod = "alipay";
           feeBreakdown = alipayCharge.feeBreakdown;
           chargeAmount = alipayCharge.chargeAmount;
@@ -2065,6 +1759,7 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
 
         // 7. Create Order record (with orderNumber + promo info)
         const orderNumber = generateOrderNumber();
+        const invoiceDueAt = isInvoicePayment ? getInvoiceDueDate() : null;
         const [order] = await db
           .insert(orders)
           .values({
@@ -2079,6 +1774,8 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
             promoDiscountValue: promoResult.discountValue != null ? String(promoResult.discountValue) : null,
             totalAmount: String(chargeAmount),
             currency,
+            chargeCurrency: alipayCharge ? chargeCurrency : null,
+            exchangeRate: alipayCharge ? String(alipayCharge.exchangeRate) : null,
             status: "pending",
             needTaxInvoice: taxInvoice.needTaxInvoice,
             taxName: taxInvoice.taxName,
@@ -2088,11 +1785,20 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
             taxDistrict: taxInvoice.taxDistrict,
             taxProvince: taxInvoice.taxProvince,
             taxPostalCode: taxInvoice.taxPostalCode,
+            taxBranchCode: taxInvoice.taxBranchCode,
             taxFullAddress: taxInvoice.taxFullAddress,
             taxCreatedAt: taxInvoice.needTaxInvoice ? new Date() : null,
+            isGroupOrder,
+            invoiceDueAt,
           })
           .returning();
 
+        await recordOrderEvent(db, order.id, { type: "created", toStatus: "pending" }, {
+          source: "checkout",
+          userId,
+          note: isGroupOrder ? `Group order: ${quantity} seats` : null,
+        });
+
         // 8. Create OrderItems
         if (primaryTicket) {
           await db.insert(orderItems).values({
@@ -2100,7 +1806,7 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
             itemType: "ticket",
             ticketTypeId: primaryTicket.id,
             price: primaryTicket.price,
-            quantity: 1,
+            quantity,
           });
         }
 
@@ -2114,16 +1820,47 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
           });
         }
 
+        // 8b. Hold the seats until the order is paid, cancelled or the hold expires
+        // (invoice orders: until the due date)
+        const holdTargets: WaitlistTarget[] = [
+          ...(primaryTicket ? [{ ticketTypeId: primaryTicket.id }] : []),
+          ...resolvedAddOns.map((addon) => ({ ticketTypeId: addon.id })),
+          ...(workshopSessionId && addOnIds.includes("workshop") ? [{ sessionId: workshopSessionId }] : []),
+        ];
+        try {
+          const freedTargets = await reserveOrderSeats(
+            { orderId: order.id, userId, eventId, quantity, holdUntil: invoiceDueAt ?? undefined },
+            holdTargets
+          );
+          if (freedTargets.length > 0) {
+            releaseWaitlistSeats(fastify, freedTargets).catch((error) =>
+              fastify.log.error(`[CREATE-INTENT] Waitlist release failed after order ${order.id}: ${error}`)
+            );
+          }
+        } catch (error) {
+          if (error instanceof Error && error.message === "SEAT_UNAVAILABLE") {
+            await transitionOrder(db, order.id, "cancelled", {
+              source: "checkout",
+              userId,
+              note: "Seats taken by a concurrent checkout",
+            });
+            fastify.log.info(`[CREATE-INTENT] Seats taken by a concurrent checkout, order ${order.id} cancelled`);
+            return reply.status(409).send({
+              success: false,
+              error: "Ticket sold out",
+              code: "TICKET_SOLD_OUT",
+            });
+          }
+          throw error;
+        }
+
         // ── FREE REGISTRATION PATH ──────────────────────────
         // If chargeAmount is 0 (free ticket or 100% promo), process immediately
         if (chargeAmount === 0) {
           fastify.log.info(`[CREATE-INTENT] chargeAmount=0, processing free registration for order ${order.id}`);
 
-          // Mark order as paid immediately
-          await db.update(orders).set({ status: "paid" }).where(eq(orders.id, order.id));
-
           // Create a payment record for auditing
-          await db.insert(payments).values({
+          const [freePayment] = await db.insert(payments).values({
             orderId: order.id,
             amount: "0",
             status: "paid",
@@ -2140,7 +1877,7 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
               processingVat: 0,
               freeReason: discountAmount > 0 ? "promo_100_percent" : "free_ticket",
             },
-          });
+          }).returning({ id: payments.id });
 
           // Settle promo usage
           if (promoResult.promoCodeId) {
@@ -2149,7 +1886,7 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
             fastify.log.info(`[CREATE-INTENT] Promo settled for free order ${order.id}`);
           }
 
-          // Process registration (reuse shared helper)
+          // Mark order as paid and process registration (reuse shared helper)
           const result = await processSuccessfulPayment(
             fastify,
             order.id,
@@ -2160,6 +1897,7 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
             "pay_solutions",
             "PAID",
             { freeRegistration: true },
+            { source: "checkout", userId, paymentId: freePayment.id, note: "Free registration" },
           );
 
           const regCode = result?.regCode || "";
@@ -2238,6 +1976,67 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
           });
         }
 
+        // ── INVOICE PATH (bank transfer) ─────────────────────
+        // The order stays pending until staff confirm the transfer slip
+        // or the due date passes (cancel-overdue-invoices job)
+        if (isInvoicePayment) {
+          const dueDate = invoiceDueAt!.toISOString();
+          await db.insert(payments).values({
+            orderId: order.id,
+            amount: String(chargeAmount),
+            status: "pending",
+            paymentChannel: "bank_transfer",
+            paymentProvider: "invoice",
+            providerRef: `INV-${order.orderNumber}`,
+            providerStatus: "AWAITING_TRANSFER",
+            paymentDetails: {
+              requestedMethod: paymentMethod,
+              workshopSessionId: workshopSessionId || null,
+              processingFee: 0,
+              processingVat: 0,
+              dueDate: dueDate,
+            },
+          });
+
+          if (promoResult.promoCodeId) {
+            await reservePromoUsage(promoResult.promoCodeId, userId, order.id, discountAmount);
+            fastify.log.info(`[CREATE-INTENT] Reserved promo usage for order ${order.id}, promoId=${promoResult.promoCodeId}`);
+          }
+
+          sendInvoiceEmail(order.id).catch((error) =>
+            fastify.log.error(`[CREATE-INTENT] Failed to send invoice email for order ${order.id}: ${error}`)
+          );
+
+          fastify.log.info(
+            `[CREATE-INTENT] flow=invoice order=${order.id}, amount=${chargeAmount}, due=${dueDate}`
+          );
+
+          return reply.send({
+            success: true,
+            data: {
+              free: false,
+              gateway: "invoice",
+              redirectForm: null,
+              refno: null,
+              orderRef: null,
+              orderId: order.id,
+              orderNumber,
+              subtotal: subtotalBeforeDiscount,
+              discountAmount,
+              discountType: promoResult.discountType || null,
+              discountValue: promoResult.discountValue || null,
+              netAmount: totalAmount,
+              fee: 0,
+              total: chargeAmount,
+              currency,
+              feeMethod: null,
+              paymentChannel: "bank_transfer",
+              invoiceDueAt: dueDate,
+              invoiceUrl: buildInvoiceUrl(order.id),
+            },
+          });
+        }
+
         // ── PAID FLOW (chargeAmount > 0) ─────────────────────
 
         // Build order detail for Pay Solutions redirect
@@ -2255,7 +2054,8 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
 
         const descLines = [`ACCP2026 ${orderNumber}${isAddonOnly ? " Add-on" : ""}`];
         if (primaryTicket) {
-          descLines.push(`${nameMap.get(primaryTicket.id) || packageId}: ${currency === "THB" ? "THB" : "USD"} ${Number(primaryTicket.price).toLocaleString()}`);
+          const seatLabel = isGroupOrder ? ` x ${quantity}` : "";
+          descLines.push(`${nameMap.get(primaryTicket.id) || packageId}${seatLabel}: ${currency === "THB" ? "THB" : "USD"} ${(Number(primaryTicket.price) * quantity).toLocaleString()}`);
         }
         for (const addon of resolvedAddOns) {
           descLines.push(`${nameMap.get(addon.id) || "Add-on"}: ${currency === "THB" ? "THB" : "USD"} ${Number(addon.price).toLocaleString()}`);
@@ -2400,10 +2200,11 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
             `[CREATE-INTENT] flow=form_submit actionUrl=${formSubmitPayload.actionUrl}, channel=${paySolutionsChannel}, amount=${chargeAmount}, refno=${paySolutionsRefno}, customerName="${customerFullName}", fields=${JSON.stringify(Object.keys(formSubmitPayload.fields))}`
           );
         } catch (formSubmitErr) {
-          await db
-            .update(orders)
-            .set({ status: "cancelled" })
-            .where(eq(orders.id, order.id));
+          await transitionOrder(db, order.id, "cancelled", {
+            source: "checkout",
+            userId,
+            note: "Failed to build Pay Solutions form",
+          });
           throw formSubmitErr;
         }
 
@@ -2432,6 +2233,7 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
             netAmountUsd: totalAmount,
             ...(alipayCharge
               ? {
+                  exchangeRate: alipayCharge.exchangeRate,
                   alipayCharge: {
                     thbSubtotal: alipayCharge.thbSubtotal,
                     thbDiscount: alipayCharge.thbDiscount,
@@ -2491,7 +2293,7 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
   // ─────────────────────────────────────────────────────
   fastify.post(
     "/cancel-intent",
-    { preHandler: [fastify.authenticate] },
+    { preHandler: [fastify.authenticate, forbidImpersonation] },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const { orderId } = request.body as { orderId: number };
       const userId = request.user.id;
@@ -2537,11 +2339,19 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
           }
         }
 
-        // Update order status to cancelled
-        await db
-          .update(orders)
-          .set({ status: "cancelled" })
-          .where(eq(orders.id, orderId));
+        // Update order status to cancelled (a webhook may have marked it paid meanwhile)
+        const transition = await transitionOrder(db, orderId, "cancelled", {
+          source: "cancel_intent",
+          userId,
+          paymentId: payment?.id ?? null,
+          paymentStatus: payment ? "cancelled" : null,
+        });
+        if (!transition.allowed) {
+          return reply.status(400).send({
+            success: false,
+            error: `Cannot cancel order with status "${transition.from}"`,
+          });
+        }
 
         // Update payment status to cancelled
         if (payment) {
@@ -2554,8 +2364,8 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
             .where(eq(payments.id, payment.id));
         }
 
-        // Cancel promo usage reservation
-        await cancelPromoUsage(orderId);
+        // Cancel promo usage reservation and seat holds
+        await releaseOrderReservations(fastify, orderId, "cancelled");
 
         fastify.log.info(`[CANCEL-INTENT] Order ${orderId} cancelled by user ${userId}`);
 
@@ -2630,20 +2440,27 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
         // Handle refund events even if payment is already paid
         if (isPaySolutionsRefundStatus(normalized.status, normalized.statusName)) {
           const refundProviderStatus = normalized.status || normalized.statusName || "RF";
-          await db
-            .update(payments)
-            .set({
-              status: "refunded",
-              providerStatus: refundProviderStatus,
-              paymentDetails: mergedDetails,
-            })
-            .where(eq(payments.id, payment.id));
-
-          // orders.status enum only allows pending/paid/cancelled — use cancelled for refunds
-          await db
-            .update(orders)
-            .set({ status: "cancelled" })
-            .where(eq(orders.id, payment.orderId));
+          const { transition, freed } = await applyProviderRefund(
+            payment.orderId,
+            payment.id,
+            { providerStatus: refundProviderStatus, paymentDetails: mergedDetails },
+            {
+              source: "pay_solutions_postback",
+              providerRef: normalized.orderNo || normalized.referenceNo,
+              payloadRef: normalized.referenceNo,
+              payload: normalized.raw,
+              idempotencyKey: `ps:${normalized.referenceNo}:${refundProviderStatus}`,
+            },
+          );
+          if (!transition.allowed) {
+            fastify.log.warn(`[PAYSOLUTIONS-POSTBACK] Refund ignored for refno=${normalized.referenceNo} (${transition.reason})`);
+            return reply.send({ received: true, ignored: true });
+          }
+          if (freed.length > 0) {
+            releaseWaitlistSeats(fastify, freed).catch((error) =>
+              fastify.log.error(`[PAYSOLUTIONS-POSTBACK] Waitlist release failed for order ${payment.orderId}: ${error}`)
+            );
+          }
 
           fastify.log.info(`[PAYSOLUTIONS-POSTBACK] Refund processed for refno=${normalized.referenceNo}, status=${refundProviderStatus}`);
           return reply.send({ received: true, status: "refunded" });
@@ -2667,6 +2484,13 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
             "pay_solutions",
             normalized.status || normalized.statusName || "CP",
             mergedDetails,
+            {
+              source: "pay_solutions_postback",
+              paymentId: payment.id,
+              payloadRef: normalized.referenceNo,
+              payload: normalized.raw,
+              idempotencyKey: `ps:${normalized.referenceNo}:${normalized.status || normalized.statusName || "CP"}`,
+            },
           );
 
           if (txResult) {
@@ -2742,22 +2566,32 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
         }
 
         if (isPaySolutionsFailedStatus(normalized.status, normalized.statusName)) {
-          await db
-            .update(orders)
-            .set({ status: "cancelled" })
-            .where(eq(orders.id, payment.orderId));
+          const failedProviderStatus = normalized.status || normalized.statusName || "FAILED";
+          const transition = await transitionOrder(db, payment.orderId, "cancelled", {
+            source: "pay_solutions_postback",
+            paymentId: payment.id,
+            paymentStatus: "failed",
+            providerRef: normalized.orderNo || normalized.referenceNo,
+            payloadRef: normalized.referenceNo,
+            payload: normalized.raw,
+            idempotencyKey: `ps:${normalized.referenceNo}:${failedProviderStatus}`,
+          });
+          if (!transition.allowed) {
+            fastify.log.warn(`[PAYSOLUTIONS-POSTBACK] Failure ignored for refno=${normalized.referenceNo} (${transition.reason})`);
+            return reply.send({ received: true, ignored: true });
+          }
 
           await db
             .update(payments)
             .set({
               status: "failed",
-              providerStatus: normalized.status || normalized.statusName || "FAILED",
+              providerStatus: failedProviderStatus,
               paymentChannel: postbackChannel,
               paymentDetails: mergedDetails,
             })
             .where(eq(payments.id, payment.id));
 
-          await cancelPromoUsage(payment.orderId);
+          await releaseOrderReservations(fastify, payment.orderId);
 
           return reply.send({ received: true, status: "failed" });
         }
@@ -2869,6 +2703,14 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
             workshopSessionId,
             receiptUrl,
             paymentChannel,
+            "stripe",
+            "PAID",
+            null,
+            {
+              source: "stripe_webhook",
+              payloadRef: event.id,
+              idempotencyKey: `stripe:${event.id}`,
+            },
           );
 
           // Settle promo usage on success
@@ -2948,17 +2790,24 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
           const orderId = parseInt(paymentIntent.metadata.orderId);
           if (isNaN(orderId)) break;
 
-          await db
-            .update(orders)
-            .set({ status: "cancelled" })
-            .where(eq(orders.id, orderId));
+          const transition = await transitionOrder(db, orderId, "cancelled", {
+            source: "stripe_webhook",
+            paymentStatus: "failed",
+            providerRef: paymentIntent.id,
+            payloadRef: event.id,
+            idempotencyKey: `stripe:${event.id}`,
+          });
+          if (!transition.allowed) {
+            fastify.log.warn(`Ignored ${event.type} for order ${orderId} (${transition.reason})`);
+            break;
+          }
 
           await db
             .update(payments)
             .set({ status: "failed" })
             .where(eq(payments.stripeSessionId, paymentIntent.id));
 
-          await cancelPromoUsage(orderId);
+          await releaseOrderReservations(fastify, orderId);
 
           fastify.log.warn(`Payment failed for order ${orderId}`);
           break;
@@ -2969,21 +2818,36 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
           const orderId = parseInt(paymentIntent.metadata.orderId);
           if (isNaN(orderId)) break;
 
-          await db
-            .update(orders)
-            .set({ status: "cancelled" })
-            .where(eq(orders.id, orderId));
+          const transition = await transitionOrder(db, orderId, "cancelled", {
+            source: "stripe_webhook",
+            paymentStatus: "cancelled",
+            providerRef: paymentIntent.id,
+            payloadRef: event.id,
+            idempotencyKey: `stripe:${event.id}`,
+          });
+          if (!transition.allowed) {
+            fastify.log.warn(`Ignored ${event.type} for order ${orderId} (${transition.reason})`);
+            break;
+          }
 
           await db
             .update(payments)
             .set({ status: "cancelled" })
             .where(eq(payments.stripeSessionId, paymentIntent.id));
 
-          await cancelPromoUsage(orderId);
+          await releaseOrderReservations(fastify, orderId, "cancelled");
 
           fastify.log.info(`Payment canceled for order ${orderId}`);
           break;
         }
+
+        case "charge.refund.updated": {
+          // Asynchronous refunds issued from the backoffice settle here
+          const refund = event.data.object as Stripe.Refund;
+          await updateStripeRefundStatus(fastify, refund);
+          fastify.log.info(`Refund ${refund.id} is now ${refund.status}`);
+          break;
+        }
       }
 
       return reply.send({ received: true });
@@ -3100,6 +2964,10 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
                 workshopSessionId,
                 receiptUrl,
                 verifyPaymentChannel,
+                "stripe",
+                "PAID",
+                null,
+                { source: "verify", userId, paymentId: payment.id, payloadRef: pi.id },
               );
 
               if (verifyResult) {
@@ -3117,11 +2985,23 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
                 await settlePromoUsageSuccess(order.id);
               }
             } else if (pi.status === "canceled" || pi.status === "requires_payment_method") {
-              await db.update(orders).set({ status: "cancelled" }).where(eq(orders.id, order.id));
-              await db.update(payments).set({ status: "failed" }).where(eq(payments.id, payment.id));
-              await cancelPromoUsage(order.id);
-              orderStatus = "cancelled";
-              paymentData = { ...paymentData, status: "failed", providerStatus: "FAILED" };
+              const transition = await transitionOrder(db, order.id, "cancelled", {
+                source: "verify",
+                userId,
+                paymentId: payment.id,
+                paymentStatus: "failed",
+                providerRef: pi.id,
+                payloadRef: pi.id,
+                note: `PaymentIntent ${pi.status}`,
+              });
+              if (transition.allowed) {
+                await db.update(payments).set({ status: "failed" }).where(eq(payments.id, payment.id));
+                await releaseOrderReservations(fastify, order.id);
+                orderStatus = "cancelled";
+                paymentData = { ...paymentData, status: "failed", providerStatus: "FAILED" };
+              } else {
+                fastify.log.warn(`[VERIFY] Cancellation ignored for order ${order.id} (${transition.reason})`);
+              }
             }
           } catch (err) {
             fastify.log.error(`[VERIFY] Stripe API error: ${err}`);
@@ -3158,6 +3038,14 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
                   "pay_solutions",
                   normalized.status || normalized.statusName || "CP",
                   mergedDetails,
+                  {
+                    source: "verify",
+                    userId,
+                    paymentId: payment.id,
+                    payloadRef: payment.paySolutionsRefno,
+                    payload: normalized.raw,
+                    idempotencyKey: `ps:${payment.paySolutionsRefno}:${normalized.status || normalized.statusName || "CP"}`,
+                  },
                 );
 
                 if (verifyResult) {
@@ -3174,37 +3062,66 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
                   await settlePromoUsageSuccess(order.id);
                 }
               } else if (isPaySolutionsFailedStatus(normalized.status, normalized.statusName)) {
-                await db.update(orders).set({ status: "cancelled" }).where(eq(orders.id, order.id));
-                await db.update(payments).set({
-                  status: "failed",
-                  providerStatus: normalized.status || normalized.statusName || "FAILED",
-                  paymentChannel: verifyChannel,
-                  paymentDetails: mergedDetails,
-                }).where(eq(payments.id, payment.id));
-                await cancelPromoUsage(order.id);
-                orderStatus = "cancelled";
-                paymentData = {
-                  ...paymentData,
-                  status: "failed",
-                  providerStatus: normalized.status || normalized.statusName || "FAILED",
-                  paymentChannel: verifyChannel,
-                };
+                const failedProviderStatus = normalized.status || normalized.statusName || "FAILED";
+                const transition = await transitionOrder(db, order.id, "cancelled", {
+                  source: "verify",
+                  userId,
+                  paymentId: payment.id,
+                  paymentStatus: "failed",
+                  providerRef: normalized.orderNo || payment.paySolutionsRefno,
+                  payloadRef: payment.paySolutionsRefno,
+                  payload: normalized.raw,
+                  idempotencyKey: `ps:${payment.paySolutionsRefno}:${failedProviderStatus}`,
+                });
+                if (transition.allowed) {
+                  await db.update(payments).set({
+                    status: "failed",
+                    providerStatus: failedProviderStatus,
+                    paymentChannel: verifyChannel,
+                    paymentDetails: mergedDetails,
+                  }).where(eq(payments.id, payment.id));
+                  await releaseOrderReservations(fastify, order.id);
+                  orderStatus = "cancelled";
+                  paymentData = {
+                    ...paymentData,
+                    status: "failed",
+                    providerStatus: failedProviderStatus,
+                    paymentChannel: verifyChannel,
+                  };
+                } else {
+                  fastify.log.warn(`[VERIFY] Cancellation ignored for order ${order.id} (${transition.reason})`);
+                }
               } else if (isPaySolutionsRefundStatus(normalized.status, normalized.statusName)) {
                 const refundProviderStatus = normalized.status || normalized.statusName || "RF";
-                await db.update(orders).set({ status: "cancelled" }).where(eq(orders.id, order.id));
-                await db.update(payments).set({
-                  status: "refunded",
-                  providerStatus: refundProviderStatus,
-                  paymentChannel: verifyChannel,
-                  paymentDetails: mergedDetails,
-                }).where(eq(payments.id, payment.id));
-                orderStatus = "cancelled";
-                paymentData = {
-                  ...paymentData,
-                  status: "refunded",
-                  providerStatus: refundProviderStatus,
-                  paymentChannel: verifyChannel,
-                };
+                const { transition, freed } = await applyProviderRefund(
+                  order.id,
+                  payment.id,
+                  { providerStatus: refundProviderStatus, paymentChannel: verifyChannel, paymentDetails: mergedDetails },
+                  {
+                    source: "verify",
+                    userId,
+                    providerRef: normalized.orderNo || payment.paySolutionsRefno,
+                    payloadRef: payment.paySolutionsRefno,
+                    payload: normalized.raw,
+                    idempotencyKey: `ps:${payment.paySolutionsRefno}:${refundProviderStatus}`,
+                  },
+                );
+                if (freed.length > 0) {
+                  releaseWaitlistSeats(fastify, freed).catch((error) =>
+                    fastify.log.error(`[VERIFY] Waitlist release failed for order ${order.id}: ${error}`)
+                  );
+                }
+                if (!transition.allowed) {
+                  fastify.log.warn(`[VERIFY] Refund ignored for order ${order.id} (${transition.reason})`);
+                } else {
+                  orderStatus = "refunded";
+                  paymentData = {
+                    ...paymentData,
+                    status: "refunded",
+                    providerStatus: refundProviderStatus,
+                    paymentChannel: verifyChannel,
+                  };
+                }
               } else {
                 await db.update(payments).set({
                   providerStatus: normalized.status || normalized.statusName || "PENDING",
@@ -3448,34 +3365,52 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
               const statusPaymentChannel = pi.payment_method_types?.[0] || "card";
 
               // Process payment: create registrations + update soldCount
-              await processSuccessfulPayment(
+              const statusResult = await processSuccessfulPayment(
                 fastify,
                 order.id,
                 payment.stripeSessionId,
                 wsSessionId,
                 receiptUrl,
                 statusPaymentChannel,
+                "stripe",
+                "PAID",
+                null,
+                { source: "status_poll", userId, paymentId: payment.id, payloadRef: pi.id },
               );
 
-              // Refresh response data
-              orderStatus = "paid";
-              payment = {
-                ...payment,
-                status: "paid",
-                paymentChannel: statusPaymentChannel,
-                stripeReceiptUrl: receiptUrl,
-                paidAt: new Date(),
-                providerStatus: "PAID",
-              };
+              if (statusResult) {
+                // Refresh response data
+                orderStatus = "paid";
+                payment = {
+                  ...payment,
+                  status: "paid",
+                  paymentChannel: statusPaymentChannel,
+                  stripeReceiptUrl: receiptUrl,
+                  paidAt: new Date(),
+                  providerStatus: "PAID",
+                };
 
-              await settlePromoUsageSuccess(order.id);
-              fastify.log.info(`Fallback: updated order ${order.id} to paid via Stripe API check`);
+                await settlePromoUsageSuccess(order.id);
+                fastify.log.info(`Fallback: updated order ${order.id} to paid via Stripe API check`);
+              }
             } else if (pi.status === "canceled" || pi.status === "requires_payment_method") {
-              await db.update(orders).set({ status: "cancelled" }).where(eq(orders.id, order.id));
-              await db.update(payments).set({ status: "failed" }).where(eq(payments.id, payment.id));
-              await cancelPromoUsage(order.id);
-              orderStatus = "cancelled";
-              payment = { ...payment, status: "failed", providerStatus: "FAILED" };
+              const transition = await transitionOrder(db, order.id, "cancelled", {
+                source: "status_poll",
+                userId,
+                paymentId: payment.id,
+                paymentStatus: "failed",
+                providerRef: pi.id,
+                payloadRef: pi.id,
+                note: `PaymentIntent ${pi.status}`,
+              });
+              if (transition.allowed) {
+                await db.update(payments).set({ status: "failed" }).where(eq(payments.id, payment.id));
+                await releaseOrderReservations(fastify, order.id);
+                orderStatus = "cancelled";
+                payment = { ...payment, status: "failed", providerStatus: "FAILED" };
+              } else {
+                fastify.log.warn(`[STATUS] Cancellation ignored for order ${order.id} (${transition.reason})`);
+              }
             }
           } catch (err) {
             fastify.log.error(`Stripe API fallback error for order ${order.id}: ${err}`);
@@ -3502,7 +3437,7 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
               const wsSessionId = parseWorkshopSessionIdFromDetails(payment.paymentDetails);
 
               if (isPaySolutionsPaidStatus(normalized.status, normalized.statusName)) {
-                await processSuccessfulPayment(
+                const statusResult = await processSuccessfulPayment(
                   fastify,
                   order.id,
                   normalized.orderNo || normalized.referenceNo || payment.paySolutionsRefno,
@@ -3512,36 +3447,60 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
                   "pay_solutions",
                   normalized.status || normalized.statusName || "CP",
                   mergedDetails,
+                  {
+                    source: "status_poll",
+                    userId,
+                    paymentId: payment.id,
+                    payloadRef: payment.paySolutionsRefno,
+                    payload: normalized.raw,
+                    idempotencyKey: `ps:${payment.paySolutionsRefno}:${normalized.status || normalized.statusName || "CP"}`,
+                  },
                 );
 
-                orderStatus = "paid";
-                payment = {
-                  ...payment,
-                  status: "paid",
-                  paymentChannel: statusPaymentChannel,
-                  providerStatus: normalized.status || normalized.statusName || "CP",
-                  paidAt: new Date(),
-                  paySolutionsOrderNo: normalized.orderNo || payment.paySolutionsOrderNo,
-                };
+                if (statusResult) {
+                  orderStatus = "paid";
+                  payment = {
+                    ...payment,
+                    status: "paid",
+                    paymentChannel: statusPaymentChannel,
+                    providerStatus: normalized.status || normalized.statusName || "CP",
+                    paidAt: new Date(),
+                    paySolutionsOrderNo: normalized.orderNo || payment.paySolutionsOrderNo,
+                  };
 
-                await settlePromoUsageSuccess(order.id);
-                fastify.log.info(`Fallback: updated order ${order.id} to paid via Pay Solutions inquiry`);
+                  await settlePromoUsageSuccess(order.id);
+                  fastify.log.info(`Fallback: updated order ${order.id} to paid via Pay Solutions inquiry`);
+                }
               } else if (isPaySolutionsFailedStatus(normalized.status, normalized.statusName)) {
-                await db.update(orders).set({ status: "cancelled" }).where(eq(orders.id, order.id));
-                await db.update(payments).set({
-                  status: "failed",
-                  providerStatus: normalized.status || normalized.statusName || "FAILED",
-                  paymentChannel: statusPaymentChannel,
-                  paymentDetails: mergedDetails,
-                }).where(eq(payments.id, payment.id));
-                await cancelPromoUsage(order.id);
-                orderStatus = "cancelled";
-                payment = {
-                  ...payment,
-                  status: "failed",
-                  providerStatus: normalized.status || normalized.statusName || "FAILED",
-                  paymentChannel: statusPaymentChannel,
-                };
+                const failedProviderStatus = normalized.status || normalized.statusName || "FAILED";
+                const transition = await transitionOrder(db, order.id, "cancelled", {
+                  source: "status_poll",
+                  userId,
+                  paymentId: payment.id,
+                  paymentStatus: "failed",
+                  providerRef: normalized.orderNo || payment.paySolutionsRefno,
+                  payloadRef: payment.paySolutionsRefno,
+                  payload: normalized.raw,
+                  idempotencyKey: `ps:${payment.paySolutionsRefno}:${failedProviderStatus}`,
+                });
+                if (transition.allowed) {
+                  await db.update(payments).set({
+                    status: "failed",
+                    providerStatus: failedProviderStatus,
+                    paymentChannel: statusPaymentChannel,
+                    paymentDetails: mergedDetails,
+                  }).where(eq(payments.id, payment.id));
+                  await releaseOrderReservations(fastify, order.id);
+                  orderStatus = "cancelled";
+                  payment = {
+                    ...payment,
+                    status: "failed",
+                    providerStatus: failedProviderStatus,
+                    paymentChannel: statusPaymentChannel,
+                  };
+                } else {
+                  fastify.log.warn(`[STATUS] Cancellation ignored for order ${order.id} (${transition.reason})`);
+                }
               } else {
                 await db.update(payments).set({
                   providerStatus: normalized.status || normalized.statusName || "PENDING",
@@ -3577,6 +3536,50 @@ export default async function paymentRoutes(fastify: FastifyInstance) {
     }
   );
 
+  // ─────────────────────────────────────────────────────
+  // GET /payments/invoice/:token (NO JWT — signed token auth)
+  // Proforma invoice of a bank-transfer order awaiting payment
+  // ─────────────────────────────────────────────────────
+  fastify.get(
+    "/invoice/:token",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { token } = request.params as { token: string };
+
+      const orderId = verifyReceiptToken(token);
+      if (orderId === null) {
+        return reply.status(401).send({
+          success: false,
+          error: "Invalid or malformed invoice token",
+        });
+      }
+
+      try {
+        const { order, pdf } = await generateOrderProformaInvoice(orderId);
+
+        reply.header("Content-Type", "application/pdf");
+        reply.header("Content-Disposition", `attachment; filename="ACCP2026-invoice-${order.orderNumber}.pdf"`);
+        reply.header("Cache-Control", "no-store, no-cache, must-revalidate, proxy-revalidate");
+        return reply.send(pdf);
+      } catch (error) {
+        const code = error instanceof Error ? error.message : "";
+        if (code === "INVOICE_NOT_FOUND") {
+          return reply.status(404).send({ success: false, error: "Invoice not found" });
+        }
+        if (code === "INVOICE_NOT_PENDING") {
+          return reply.status(400).send({
+            success: false,
+            error: "This invoice is no longer awaiting payment",
+          });
+        }
+        fastify.log.error(error);
+        return reply.status(500).send({
+          success: false,
+          error: "Failed to generate invoice",
+        });
+      }
+    }
+  );
+
   // ─────────────────────────────────────────────────────
   // GET /payments/receipt/:token (NO JWT — signed token auth)
   // Downloads a PDF receipt generated on-the-fly
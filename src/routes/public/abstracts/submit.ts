@@ -1,9 +1,14 @@
-import { FastifyInstance } from "fastify";
-import { abstractSubmissionSchema } from "../../../schemas/abstracts.schema.js";
+import { FastifyInstance, FastifyRequest } from "fastify";
+import {
+  abstractSubmissionSchema,
+  buildAbstractResubmissionSchema,
+  buildAbstractSubmissionSchema,
+} from "../../../schemas/abstracts.schema.js";
 import { db } from "../../../database/index.js";
 import {
   abstracts,
   abstractCoAuthors,
+  users,
 } from "../../../database/schema.js";
 import {
   uploadToGoogleDrive,
@@ -14,6 +19,16 @@ import {
 } from "../../../services/googleDrive.js";
 import { eq, and, sql } from "drizzle-orm";
 import { getFullName } from "../../../utils/name.js";
+import { snapshotAbstractVersion } from "../../../services/abstractVersion.service.js";
+import {
+  checkAbstractSubmissionPolicy,
+  evaluateSubmissionWindow,
+  getSubmissionWindow,
+  loadAbstractValidationProfile,
+  loadSubmissionPolicyState,
+  lockAuthorSubmissions,
+} from "../../../services/abstractSubmissionPolicy.service.js";
+import { forbidImpersonation } from "../../../utils/authorization.js";
 
 // Allowed file types for abstract documents
 const ALLOWED_MIME_TYPES = ["application/pdf"];
@@ -24,99 +39,176 @@ const MAX_FILE_SIZE = 30 * 1024 * 1024;
 // Default event ID for ACCP 2026 (adjust this based on your actual event ID)
 const DEFAULT_EVENT_ID = 1;
 
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+type UploadedAbstractFile = {
+  buffer: Buffer;
+  fileName: string;
+  mimeType: string;
+};
+
+type AbstractForm =
+  | {
+      ok: true;
+      formFields: Record<string, string>;
+      coAuthorsData: any[];
+      file: UploadedAbstractFile | null;
+    }
+  | { ok: false; error: string };
+
 /**
- * Helper function to count words in text
+ * Parse the abstract multipart form (fields, JSON coAuthors and the
+ * optional "abstractFile" PDF) shared by submit and resubmit.
  */
-function countWords(text: string): number {
-  return text
-    .trim()
-    .split(/\s+/)
-    .filter((word) => word.length > 0).length;
+async function readAbstractForm(request: FastifyRequest): Promise<AbstractForm> {
+  const parts = request.parts();
+  const formFields: Record<string, string> = {};
+  let file: UploadedAbstractFile | null = null;
+  let coAuthorsData: any[] = [];
+
+  for await (const part of parts) {
+    if (part.type === "file" && part.fieldname === "abstractFile") {
+      // Validate file type
+      if (!ALLOWED_MIME_TYPES.includes(part.mimetype)) {
+        return { ok: false, error: "Invalid file type. Only PDF files are allowed." };
+      }
+
+      // Read file into buffer
+      const chunks: Buffer[] = [];
+      for await (const chunk of part.file) {
+        chunks.push(chunk);
+      }
+      const buffer = Buffer.concat(chunks);
+
+      // Validate file size
+      if (buffer.length > MAX_FILE_SIZE) {
+        return { ok: false, error: "File too large. Maximum size is 10MB." };
+      }
+
+      file = { buffer, fileName: part.filename, mimeType: part.mimetype };
+    } else if (part.type === "field") {
+      // Handle special case for coAuthors (JSON string)
+      if (part.fieldname === "coAuthors") {
+        try {
+          const value = part.value as string;
+          if (value && value.trim()) {
+            coAuthorsData = JSON.parse(value);
+          }
+        } catch (e) {
+          return { ok: false, error: "Invalid co-authors data format" };
+        }
+      } else {
+        formFields[part.fieldname] = part.value as string;
+      }
+    }
+  }
+
+  return { ok: true, formFields, coAuthorsData, file };
 }
 
 /**
- * Validate total word count for abstract sections
+ * Upload an abstract PDF to Google Drive.
+ * Files are organized into: ABSTRACT/{Presentation Type}/{Category}
  */
-function validateWordCount(
-  background: string,
-  objective: string,
-  methods: string,
-  results: string,
-  conclusion: string,
-): { valid: boolean; count: number } {
-  const totalText = [background, objective, methods, results, conclusion].join(" ");
-  const wordCount = countWords(totalText);
-
-  // Word count should be max 250 words
-  return {
-    valid: wordCount <= 250,
-    count: wordCount,
-  };
+async function uploadAbstractFile(
+  file: UploadedAbstractFile,
+  presentationType: PresentationType,
+  category: AbstractCategory,
+): Promise<string> {
+  return uploadToGoogleDrive(
+    file.buffer,
+    file.fileName,
+    file.mimeType,
+    "abstracts",
+    getPresentationTypeFolderName(presentationType), // First subfolder: "Poster presentation" or "Oral presentation"
+    getCategoryFolderName(category), // Nested subfolder: "1. Clinical Pharmacy", etc.
+    presentationType, // For direct ENV lookup (fast path)
+    category, // For direct ENV lookup (fast path)
+  );
 }
 
-const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
-
 export default async function (fastify: FastifyInstance) {
+  /**
+   * Validation profile of an event (public)
+   * GET /api/abstracts/validation-profile?eventId=1
+   * Same limits the submit route enforces, so the form can show them.
+   */
+  fastify.get("/validation-profile", async (request, reply) => {
+    const { eventId } = request.query as { eventId?: string };
+    const finalEventId = eventId ? parseInt(eventId) : DEFAULT_EVENT_ID;
+    if (Number.isNaN(finalEventId)) {
+      return reply.status(400).send({ success: false, error: "Invalid eventId" });
+    }
+
+    try {
+      const profile = await loadAbstractValidationProfile(finalEventId);
+      if (!profile) {
+        return reply.status(404).send({ success: false, code: "EVENT_NOT_FOUND", error: "Event not found" });
+      }
+
+      return reply.send({ success: true, eventId: finalEventId, profile });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ success: false, error: "Internal server error" });
+    }
+  });
+
+  /**
+   * Submission status for the current user
+   * GET /api/abstracts/submission-status?eventId=1
+   * Lets the form show whether submission is open and how many slots are left.
+   */
+  fastify.get("/submission-status", { preHandler: [fastify.authenticate] }, async (request, reply) => {
+    const { eventId } = request.query as { eventId?: string };
+    const finalEventId = eventId ? parseInt(eventId) : DEFAULT_EVENT_ID;
+    if (Number.isNaN(finalEventId)) {
+      return reply.status(400).send({ success: false, error: "Invalid eventId" });
+    }
+
+    try {
+      const state = await loadSubmissionPolicyState(request.user.id, finalEventId);
+      if (!state) {
+        return reply.status(404).send({ success: false, code: "EVENT_NOT_FOUND", error: "Event not found" });
+      }
+
+      const { opensAt, closesAt } = getSubmissionWindow(state.event);
+      const windowViolation = evaluateSubmissionWindow(state.event, state.override, new Date());
+      const graceUntil =
+        state.override && state.override.graceUntil > new Date() ? state.override.graceUntil : null;
+
+      return reply.send({
+        success: true,
+        eventId: finalEventId,
+        open: !windowViolation,
+        code: windowViolation?.code ?? null,
+        opensAt,
+        closesAt,
+        graceUntil,
+        limits: {
+          perAuthor: state.event.maxAbstractsPerAuthor,
+          oral: state.event.maxOralAbstractsPerAuthor,
+          poster: state.event.maxPosterAbstractsPerAuthor,
+        },
+        submitted: state.counts,
+      });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ success: false, error: "Internal server error" });
+    }
+  });
+
   /**
    * Submit Abstract
    * POST /api/abstracts/submit
    * * Accepts multipart/form-data with abstract information and PDF file
    */
-  fastify.post("/submit", { preHandler: [fastify.authenticate] }, async (request, reply) => {
+  fastify.post("/submit", { preHandler: [fastify.authenticate, forbidImpersonation] }, async (request, reply) => {
     try {
-      // Parse multipart form data
-      const parts = request.parts();
-      const formFields: Record<string, string> = {};
-      let fileBuffer: Buffer | null = null;
-      let fileName: string = "";
-      let mimeType: string = "";
-      let coAuthorsData: any[] = [];
-
-      for await (const part of parts) {
-        if (part.type === "file" && part.fieldname === "abstractFile") {
-          // Validate file type
-          if (!ALLOWED_MIME_TYPES.includes(part.mimetype)) {
-            return reply.status(400).send({
-              success: false,
-              error: "Invalid file type. Only PDF files are allowed.",
-            });
-          }
-
-          // Read file into buffer
-          const chunks: Buffer[] = [];
-          for await (const chunk of part.file) {
-            chunks.push(chunk);
-          }
-          fileBuffer = Buffer.concat(chunks);
-          fileName = part.filename;
-          mimeType = part.mimetype;
-
-          // Validate file size
-          if (fileBuffer.length > MAX_FILE_SIZE) {
-            return reply.status(400).send({
-              success: false,
-              error: "File too large. Maximum size is 10MB.",
-            });
-          }
-        } else if (part.type === "field") {
-          // Handle special case for coAuthors (JSON string)
-          if (part.fieldname === "coAuthors") {
-            try {
-              const value = part.value as string;
-              if (value && value.trim()) {
-                coAuthorsData = JSON.parse(value);
-              }
-            } catch (e) {
-              return reply.status(400).send({
-                success: false,
-                error: "Invalid co-authors data format",
-              });
-            }
-          } else {
-            formFields[part.fieldname] = part.value as string;
-          }
-        }
+      const form = await readAbstractForm(request);
+      if (!form.ok) {
+        return reply.status(400).send({ success: false, error: form.error });
       }
+      const { formFields, coAuthorsData, file } = form;
 
       // Add co-authors to form fields for validation
       const dataToValidate = {
@@ -124,8 +216,22 @@ export default async function (fastify: FastifyInstance) {
         coAuthors: coAuthorsData,
       };
 
-      // Validate form fields using schema
-      const result = abstractSubmissionSchema.safeParse(dataToValidate);
+      // The event decides the validation profile (an invalid eventId is
+      // reported by the full schema below)
+      const eventIdResult = abstractSubmissionSchema.shape.eventId.safeParse(formFields.eventId);
+      const finalEventId = (eventIdResult.success && eventIdResult.data) || DEFAULT_EVENT_ID;
+
+      const profile = await loadAbstractValidationProfile(finalEventId);
+      if (!profile) {
+        return reply.status(404).send({
+          success: false,
+          code: "EVENT_NOT_FOUND",
+          error: "Event not found",
+        });
+      }
+
+      // Validate form fields using the event's schema
+      const result = buildAbstractSubmissionSchema(profile).safeParse(dataToValidate);
       if (!result.success) {
         return reply.status(400).send({
           success: false,
@@ -152,26 +258,25 @@ export default async function (fastify: FastifyInstance) {
         results,
         conclusion,
         coAuthors,
-        eventId,
       } = result.data;
 
-      // Validate word count
-      const wordValidation = validateWordCount(
-        background,
-        objective,
-        methods,
-        results,
-        conclusion,
+      // Submission window + per-author limits (checked before the upload)
+      const violation = await checkAbstractSubmissionPolicy(
+        request.user.id,
+        finalEventId,
+        presentationType,
       );
-      if (!wordValidation.valid) {
-        return reply.status(400).send({
+      if (violation) {
+        return reply.status(violation.status).send({
           success: false,
-          error: `Abstract word count must not exceed 250 words. Current: ${wordValidation.count} words`,
+          code: violation.code,
+          error: violation.error,
+          ...(violation.details ? { details: violation.details } : {}),
         });
       }
 
       // Check if file was uploaded
-      if (!fileBuffer) {
+      if (!file) {
         return reply.status(400).send({
           success: false,
           error: "Abstract file (PDF) is required",
@@ -179,25 +284,13 @@ export default async function (fastify: FastifyInstance) {
       }
 
       // Upload file to Google Drive (BLOCKING - Keep this to ensure file safety)
-      // Files are organized into: ABSTRACT/{Presentation Type}/{Category}
       let fullPaperUrl: string;
       try {
-        const presentationFolderName = getPresentationTypeFolderName(
+        fullPaperUrl = await uploadAbstractFile(
+          file,
           presentationType as PresentationType,
-        );
-        const categoryFolderName = getCategoryFolderName(
           category as AbstractCategory,
         );
-        fullPaperUrl = await uploadToGoogleDrive(
-          fileBuffer,
-          fileName,
-          mimeType,
-          "abstracts",
-          presentationFolderName, // First subfolder: "Poster presentation" or "Oral presentation"
-          categoryFolderName, // Nested subfolder: "1. Clinical Pharmacy", etc.
-          presentationType as PresentationType, // For direct ENV lookup (fast path)
-          category as AbstractCategory, // For direct ENV lookup (fast path)
-        );
       } catch (error) {
         fastify.log.error({ err: error }, "Google Drive upload failed");
         return reply.status(500).send({
@@ -206,8 +299,6 @@ export default async function (fastify: FastifyInstance) {
         });
       }
 
-      const finalEventId = eventId || DEFAULT_EVENT_ID;
-
       // Prepare abstract data (userId from JWT token)
       const abstractData: any = {
         eventId: finalEventId,
@@ -225,47 +316,76 @@ export default async function (fastify: FastifyInstance) {
         status: "pending" as const,
       };
 
-      // Insert abstract
-      const [newAbstract] = await db
-        .insert(abstracts)
-        .values(abstractData)
-        .returning();
-
-      // Generate tracking ID based on presentation type
-      const prefix = process.env.TRACKING_ID_PREFIX || "ACCP2026";
-      const padLength = parseInt(process.env.TRACKING_ID_PAD_LENGTH || "3", 10);
-      const typePrefix = presentationType === "oral" ? "O" : "P";
-      
-      // Count existing abstracts of same presentation type to get running number
-      const countResult = await db
-        .select({ count: sql<number>`count(*)::int` })
-        .from(abstracts)
-        .where(eq(abstracts.presentationType, presentationType as "oral" | "poster"));
-      
-      const runningNumber = (countResult[0]?.count || 0);
-      const trackingId = `${prefix}-${typePrefix}${String(runningNumber).padStart(padLength, "0")}`;
-      
-      // Update abstract with tracking ID
-      await db
-        .update(abstracts)
-        .set({ trackingId })
-        .where(eq(abstracts.id, newAbstract.id));
-
-      // Insert co-authors if any
-      if (coAuthors && coAuthors.length > 0) {
-        const coAuthorsToInsert = coAuthors.map((coAuthor, index) => ({
-          abstractId: newAbstract.id,
-          firstName: coAuthor.firstName,
-          middleName: coAuthor.middleName || null,
-          lastName: coAuthor.lastName,
-          email: coAuthor.email,
-          institution: coAuthor.institution,
-          country: coAuthor.country,
-          sortOrder: index,
-        }));
-
-        await db.insert(abstractCoAuthors).values(coAuthorsToInsert);
+      // Insert abstract, tracking ID, co-authors and version 1 together; the
+      // limits are checked again under the author's lock so parallel
+      // submissions cannot both pass
+      const submitted = await db.transaction(async (tx) => {
+        await lockAuthorSubmissions(tx, request.user.id, finalEventId);
+        const lockedViolation = await checkAbstractSubmissionPolicy(
+          request.user.id,
+          finalEventId,
+          presentationType,
+          new Date(),
+          tx,
+        );
+        if (lockedViolation) return { violation: lockedViolation };
+
+        const [inserted] = await tx
+          .insert(abstracts)
+          .values(abstractData)
+          .returning();
+
+        // Generate tracking ID based on presentation type
+        const prefix = process.env.TRACKING_ID_PREFIX || "ACCP2026";
+        const padLength = parseInt(process.env.TRACKING_ID_PAD_LENGTH || "3", 10);
+        const typePrefix = presentationType === "oral" ? "O" : "P";
+
+        // Count existing abstracts of same presentation type to get running number
+        const countResult = await tx
+          .select({ count: sql<number>`count(*)::int` })
+          .from(abstracts)
+          .where(eq(abstracts.presentationType, presentationType as "oral" | "poster"));
+
+        const runningNumber = (countResult[0]?.count || 0);
+        const trackingId = `${prefix}-${typePrefix}${String(runningNumber).padStart(padLength, "0")}`;
+
+        // Update abstract with tracking ID
+        await tx
+          .update(abstracts)
+          .set({ trackingId })
+          .where(eq(abstracts.id, inserted.id));
+
+        // Insert co-authors if any
+        if (coAuthors && coAuthors.length > 0) {
+          const coAuthorsToInsert = coAuthors.map((coAuthor, index) => ({
+            abstractId: inserted.id,
+            firstName: coAuthor.firstName,
+            middleName: coAuthor.middleName || null,
+            lastName: coAuthor.lastName,
+            email: coAuthor.email,
+            institution: coAuthor.institution,
+            country: coAuthor.country,
+            sortOrder: index,
+          }));
+
+          await tx.insert(abstractCoAuthors).values(coAuthorsToInsert);
+        }
+
+        // Keep the original submission as version 1
+        await snapshotAbstractVersion(tx, inserted.id, 1);
+
+        return { abstract: inserted, trackingId };
+      });
+      if (submitted.violation) {
+        const { violation } = submitted;
+        return reply.status(violation.status).send({
+          success: false,
+          code: violation.code,
+          error: violation.error,
+          ...(violation.details ? { details: violation.details } : {}),
+        });
       }
+      const { abstract: newAbstract, trackingId } = submitted;
 
       // -----------------------------------------------------------------------
       // Email Sending
@@ -349,4 +469,190 @@ export default async function (fastify: FastifyInstance) {
       });
     }
   });
+
+  /**
+   * Resubmit Abstract after a revision request
+   * POST /api/abstracts/:id/resubmit
+   * Same multipart form as /submit (content fields + coAuthors); the PDF is
+   * optional and the previous file is kept when omitted. The tracking ID,
+   * event and presentation type never change.
+   */
+  fastify.post("/:id/resubmit", { preHandler: [fastify.authenticate, forbidImpersonation] }, async (request, reply) => {
+    const abstractId = parseInt((request.params as { id: string }).id, 10);
+    if (Number.isNaN(abstractId)) {
+      return reply.status(400).send({ success: false, error: "Invalid abstract ID" });
+    }
+
+    try {
+      const form = await readAbstractForm(request);
+      if (!form.ok) {
+        return reply.status(400).send({ success: false, error: form.error });
+      }
+      const { formFields, coAuthorsData, file } = form;
+
+      const [existing] = await db
+        .select()
+        .from(abstracts)
+        .where(and(eq(abstracts.id, abstractId), eq(abstracts.userId, request.user.id)))
+        .limit(1);
+
+      if (!existing) {
+        return reply.status(404).send({ success: false, error: "Abstract not found" });
+      }
+
+      if (existing.status !== "revision_requested") {
+        return reply.status(409).send({
+          success: false,
+          code: "ABSTRACT_NOT_AWAITING_REVISION",
+          error: "This abstract is not awaiting revision",
+        });
+      }
+
+      const profile = await loadAbstractValidationProfile(existing.eventId);
+      if (!profile) {
+        return reply.status(404).send({
+          success: false,
+          code: "EVENT_NOT_FOUND",
+          error: "Event not found",
+        });
+      }
+
+      const result = buildAbstractResubmissionSchema(profile).safeParse({
+        ...formFields,
+        coAuthors: coAuthorsData,
+      });
+      if (!result.success) {
+        return reply.status(400).send({
+          success: false,
+          error: result.error.errors[0].message,
+          details: result.error.errors,
+        });
+      }
+
+      const { title, keywords, background, objective, methods, results, conclusion, coAuthors } =
+        result.data;
+
+      let fullPaperUrl = existing.fullPaperUrl;
+      if (file) {
+        try {
+          fullPaperUrl = await uploadAbstractFile(
+            file,
+            existing.presentationType as PresentationType,
+            existing.category as AbstractCategory,
+          );
+        } catch (error) {
+          fastify.log.error({ err: error }, "Google Drive upload failed");
+          return reply.status(500).send({
+            success: false,
+            error: "Failed to upload abstract file. Please try again.",
+          });
+        }
+      }
+
+      const version = existing.currentVersion + 1;
+
+      const updated = await db.transaction(async (tx) => {
+        // Status guard makes concurrent resubmissions of the same revision a no-op
+        const [row] = await tx
+          .update(abstracts)
+          .set({
+            title,
+            keywords,
+            background,
+            objective,
+            methods,
+            results,
+            conclusion,
+            fullPaperUrl,
+            status: "pending",
+            currentVersion: version,
+            updatedAt: new Date(),
+          })
+          .where(and(eq(abstracts.id, abstractId), eq(abstracts.status, "revision_requested")))
+          .returning();
+
+        if (!row) return null;
+
+        await tx.delete(abstractCoAuthors).where(eq(abstractCoAuthors.abstractId, abstractId));
+        if (coAuthors && coAuthors.length > 0) {
+          await tx.insert(abstractCoAuthors).values(
+            coAuthors.map((coAuthor, index) => ({
+              abstractId,
+              firstName: coAuthor.firstName,
+              middleName: coAuthor.middleName || null,
+              lastName: coAuthor.lastName,
+              email: coAuthor.email,
+              institution: coAuthor.institution,
+              country: coAuthor.country,
+              sortOrder: index,
+            })),
+          );
+        }
+
+        await snapshotAbstractVersion(tx, abstractId, version);
+        return row;
+      });
+
+      if (!updated) {
+        return reply.status(409).send({
+          success: false,
+          code: "ABSTRACT_NOT_AWAITING_REVISION",
+          error: "This abstract is not awaiting revision",
+        });
+      }
+
+      fastify.log.info(
+        `Abstract ${abstractId} (${updated.trackingId || "no-tracking-id"}) resubmitted as version ${version} by user ${request.user.id}`,
+      );
+
+      const [author] = await db
+        .select({ firstName: users.firstName, lastName: users.lastName, email: users.email })
+        .from(users)
+        .where(eq(users.id, request.user.id))
+        .limit(1);
+
+      if (author) {
+        const runEmailTaskInBackground = async () => {
+          try {
+            const { sendAbstractResubmissionEmail } = await import(
+              "../../../services/emailService.js"
+            );
+            await sendAbstractResubmissionEmail(
+              author.email,
+              author.firstName,
+              author.lastName,
+              updated.trackingId || String(updated.id),
+              updated.title,
+              version,
+            );
+          } catch (emailError) {
+            fastify.log.error(
+              { err: emailError },
+              `Failed to send resubmission email to ${author.email}`,
+            );
+          }
+        };
+        runEmailTaskInBackground();
+      }
+
+      return reply.send({
+        success: true,
+        abstract: {
+          id: updated.id,
+          trackingId: updated.trackingId,
+          title: updated.title,
+          status: updated.status,
+          version: updated.currentVersion,
+          resubmittedAt: updated.updatedAt,
+        },
+        message: "Abstract resubmitted successfully",
+      });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        success: false,
+        error: "Internal server error",
+      });
+    }
+  });
 }
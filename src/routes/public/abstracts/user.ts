@@ -1,7 +1,8 @@
 import { FastifyInstance } from "fastify";
 import { db } from "../../../database/index.js";
-import { abstracts, abstractCoAuthors, users } from "../../../database/schema.js";
-import { eq, desc } from "drizzle-orm";
+import { abstracts, abstractCoAuthors, abstractDecisions, users } from "../../../database/schema.js";
+import { and, eq, desc } from "drizzle-orm";
+import { buildPresenterSlotCalendar } from "../../../services/calendar.service.js";
 
 export default async function (fastify: FastifyInstance) {
     // Get current user's abstracts (JWT-protected)
@@ -18,6 +19,7 @@ export default async function (fastify: FastifyInstance) {
                     category: abstracts.category,
                     presentationType: abstracts.presentationType,
                     status: abstracts.status,
+                    currentVersion: abstracts.currentVersion,
                     keywords: abstracts.keywords,
                     background: abstracts.background,
                     methods: abstracts.methods,
@@ -55,9 +57,27 @@ export default async function (fastify: FastifyInstance) {
                         .from(abstractCoAuthors)
                         .where(eq(abstractCoAuthors.abstractId, abstract.id));
 
+                    // Committee comment attached to an open revision request
+                    let revisionComment: string | null = null;
+                    if (abstract.status === "revision_requested") {
+                        const [decision] = await db
+                            .select({ comment: abstractDecisions.comment })
+                            .from(abstractDecisions)
+                            .where(
+                                and(
+                                    eq(abstractDecisions.abstractId, abstract.id),
+                                    eq(abstractDecisions.status, "revision_requested")
+                                )
+                            )
+                            .orderBy(desc(abstractDecisions.decidedAt))
+                            .limit(1);
+                        revisionComment = decision?.comment ?? null;
+                    }
+
                     return {
                         ...abstract,
                         coAuthors,
+                        revisionComment,
                     };
                 })
             );
@@ -71,4 +91,35 @@ export default async function (fastify: FastifyInstance) {
             return reply.status(500).send({ error: "Failed to fetch abstracts" });
         }
     });
+
+    // Presenter's own slot as an iCalendar file (JWT-protected, owner only)
+    fastify.get("/:id/calendar.ics", { preHandler: [fastify.authenticate] }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const abstractId = parseInt(id, 10);
+        if (Number.isNaN(abstractId)) {
+            return reply.status(400).send({ success: false, error: "Invalid abstract ID" });
+        }
+
+        try {
+            const calendar = await buildPresenterSlotCalendar(abstractId);
+            if (!calendar || calendar.userId !== request.user.id) {
+                return reply.status(404).send({ success: false, error: "Abstract not found" });
+            }
+            if (calendar.count === 0) {
+                return reply.status(404).send({
+                    success: false,
+                    code: "ABSTRACT_NOT_SCHEDULED",
+                    error: "This abstract has no scheduled presentation slot yet",
+                });
+            }
+
+            return reply
+                .header("Content-Type", "text/calendar; charset=utf-8")
+                .header("Content-Disposition", 'attachment; filename="presentation-slot.ics"')
+                .send(calendar.ics);
+        } catch (error) {
+            fastify.log.error(error);
+            return reply.status(500).send({ success: false, error: "Failed to export presentation slot" });
+        }
+    });
 }
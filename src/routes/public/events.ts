@@ -10,6 +10,9 @@ import {
   users,
 } from "../../database/schema.js";
 import { eq, desc, min, asc, sql, and, inArray } from "drizzle-orm";
+import { programmeQuerySchema } from "../../schemas/events.schema.js";
+import { buildEventProgramme } from "../../services/programme.service.js";
+import { buildProgrammeCalendar } from "../../services/calendar.service.js";
 
 export default async function publicEventsRoutes(fastify: FastifyInstance) {
   // List all published events (public, no auth required)
@@ -68,6 +71,110 @@ export default async function publicEventsRoutes(fastify: FastifyInstance) {
     }
   });
 
+  // Conference programme: day -> room -> time slot (public)
+  // Merges sessions (with agenda + speakers) and scheduled accepted abstracts.
+  // GET /api/events/:id/programme?day=2026-07-10&room=...&track=clinical_pharmacy,workshop&type=session,oral
+  fastify.get("/:id/programme", async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const queryResult = programmeQuerySchema.safeParse(request.query);
+    if (!queryResult.success) {
+      return reply
+        .status(400)
+        .send({ error: "Invalid query", details: queryResult.error.flatten() });
+    }
+
+    try {
+      const isNumeric = /^\d+$/.test(id);
+
+      const [event] = await db
+        .select({
+          id: events.id,
+          eventCode: events.eventCode,
+          eventName: events.eventName,
+          startDate: events.startDate,
+          endDate: events.endDate,
+          status: events.status,
+        })
+        .from(events)
+        .where(isNumeric ? eq(events.id, parseInt(id, 10)) : eq(events.eventCode, id))
+        .limit(1);
+
+      if (!event || event.status !== "published") {
+        return reply.status(404).send({ error: "Event not found" });
+      }
+
+      const { day, room, track, type } = queryResult.data;
+      const programme = await buildEventProgramme(event.id, {
+        day,
+        room,
+        tracks: track,
+        types: type,
+      });
+
+      return reply.send({
+        event: {
+          id: event.id,
+          eventCode: event.eventCode,
+          eventName: event.eventName,
+          startDate: event.startDate,
+          endDate: event.endDate,
+        },
+        ...programme,
+      });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to fetch programme" });
+    }
+  });
+
+  // Conference programme as an iCalendar feed (same filters as /programme)
+  // GET /api/events/:id/programme.ics?day=...&room=...&track=...&type=...
+  fastify.get("/:id/programme.ics", async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const queryResult = programmeQuerySchema.safeParse(request.query);
+    if (!queryResult.success) {
+      return reply
+        .status(400)
+        .send({ error: "Invalid query", details: queryResult.error.flatten() });
+    }
+
+    try {
+      const isNumeric = /^\d+$/.test(id);
+
+      const [event] = await db
+        .select({
+          id: events.id,
+          eventCode: events.eventCode,
+          eventName: events.eventName,
+          location: events.location,
+          status: events.status,
+        })
+        .from(events)
+        .where(isNumeric ? eq(events.id, parseInt(id, 10)) : eq(events.eventCode, id))
+        .limit(1);
+
+      if (!event || event.status !== "published") {
+        return reply.status(404).send({ error: "Event not found" });
+      }
+
+      const { day, room, track, type } = queryResult.data;
+      const ics = await buildProgrammeCalendar(event, {
+        day,
+        room,
+        tracks: track,
+        types: type,
+      });
+
+      return reply
+        .header("Content-Type", "text/calendar; charset=utf-8")
+        .header("Content-Disposition", `attachment; filename="${event.eventCode}-programme.ics"`)
+        .send(ics);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({ error: "Failed to export programme" });
+    }
+  });
+
   // Get single event by ID or code (public)
   fastify.get("/:id/university-stats", async (request, reply) => {
     const { id } = request.params as { id: string };
@@ -0,0 +1,170 @@
+/**
+ * Group orders — seats bought by an institution for its attendees
+ *
+ * GET    /api/group-orders                             my group orders with seat counts (JWT)
+ * GET    /api/group-orders/:id/seats                   seats of one of my group orders (JWT)
+ * POST   /api/group-orders/:id/seats/invite            invite attendees by email to unassigned seats (JWT)
+ * DELETE /api/group-orders/:id/seats/:seatId/invite    take back an invitation not yet claimed (JWT)
+ * GET    /api/group-orders/invites/:token              what an invite link is for (no auth)
+ * POST   /api/group-orders/invites/:token/claim        claim the seat as the invited user (JWT)
+ *
+ * Group orders are bought through /api/payments/create-intent with quantity > 1.
+ */
+import { FastifyInstance, FastifyReply } from "fastify";
+import { inviteGroupSeatsSchema } from "../../schemas/orders.schema.js";
+import {
+    claimGroupSeat,
+    getGroupOrderSeats,
+    getGroupSeatInvite,
+    inviteGroupSeats,
+    listUserGroupOrders,
+    revokeGroupSeatInvite,
+    sendGroupSeatClaimedEmails,
+    sendGroupSeatInviteEmails,
+} from "../../services/groupOrder.service.js";
+import { forbidImpersonation } from "../../utils/authorization.js";
+
+const GROUP_SEAT_ERRORS: Record<string, { status: number; error: string }> = {
+    GROUP_ORDER_NOT_FOUND: { status: 404, error: "Group order not found" },
+    GROUP_ORDER_NOT_PAID: { status: 400, error: "Seats can only be assigned once the order is paid" },
+    GROUP_SEAT_DUPLICATE_EMAIL: { status: 400, error: "The same email is listed more than once" },
+    GROUP_SEAT_ALREADY_INVITED: { status: 409, error: "Some attendees already have a seat in this order" },
+    GROUP_SEATS_EXHAUSTED: { status: 409, error: "Not enough unassigned seats left in this order" },
+    GROUP_SEAT_NOT_FOUND: { status: 404, error: "Seat not found" },
+    GROUP_SEAT_CLAIMED: { status: 409, error: "This seat has already been claimed" },
+    GROUP_SEAT_NOT_INVITED: { status: 400, error: "This seat has no pending invitation" },
+    GROUP_SEAT_INVITE_INVALID: { status: 404, error: "This invitation is no longer valid" },
+    GROUP_SEAT_EMAIL_MISMATCH: {
+        status: 403,
+        error: "This invitation was sent to a different email address. Please log in with the invited email.",
+    },
+    GROUP_SEAT_ALREADY_REGISTERED: { status: 409, error: "You are already registered for this event" },
+};
+
+function sendGroupSeatError(reply: FastifyReply, error: unknown): boolean {
+    const code = error instanceof Error ? error.message : "";
+    const mapped = GROUP_SEAT_ERRORS[code];
+    if (!mapped) return false;
+    reply.status(mapped.status).send({ success: false, code, error: mapped.error });
+    return true;
+}
+
+export default async function publicGroupOrderRoutes(fastify: FastifyInstance) {
+    fastify.get("", { preHandler: [fastify.authenticate] }, async (request, reply) => {
+        try {
+            const groupOrders = await listUserGroupOrders(request.user.id);
+            return reply.send({ success: true, data: groupOrders });
+        } catch (error) {
+            fastify.log.error(error);
+            return reply.status(500).send({ success: false, error: "Failed to fetch group orders" });
+        }
+    });
+
+    fastify.get("/:id/seats", { preHandler: [fastify.authenticate] }, async (request, reply) => {
+        const orderId = parseInt((request.params as { id: string }).id, 10);
+        if (Number.isNaN(orderId)) {
+            return reply.status(400).send({ success: false, error: "Invalid order ID" });
+        }
+
+        try {
+            const result = await getGroupOrderSeats(orderId, request.user.id);
+            return reply.send({ success: true, data: result });
+        } catch (error) {
+            if (sendGroupSeatError(reply, error)) return reply;
+            fastify.log.error(error);
+            return reply.status(500).send({ success: false, error: "Failed to fetch seats" });
+        }
+    });
+
+    fastify.post("/:id/seats/invite", { preHandler: [fastify.authenticate, forbidImpersonation] }, async (request, reply) => {
+        const orderId = parseInt((request.params as { id: string }).id, 10);
+        if (Number.isNaN(orderId)) {
+            return reply.status(400).send({ success: false, error: "Invalid order ID" });
+        }
+
+        const result = inviteGroupSeatsSchema.safeParse(request.body);
+        if (!result.success) {
+            return reply.status(400).send({
+                success: false,
+                error: "Invalid input",
+                details: result.error.flatten(),
+            });
+        }
+
+        try {
+            const seats = await inviteGroupSeats({
+                orderId,
+                buyerUserId: request.user.id,
+                invites: result.data.invites,
+            });
+            fastify.log.info(`[GROUP-ORDER] ${seats.length} seats of order ${orderId} invited by user ${request.user.id}`);
+
+            if (result.data.sendEmail) {
+                sendGroupSeatInviteEmails(fastify, orderId, seats).catch((error) =>
+                    fastify.log.error(`[GROUP-ORDER] Invite email task failed for order ${orderId}: ${error}`)
+                );
+            }
+
+            return reply.status(201).send({ success: true, data: seats });
+        } catch (error) {
+            if (sendGroupSeatError(reply, error)) return reply;
+            fastify.log.error(error);
+            return reply.status(500).send({ success: false, error: "Failed to invite attendees" });
+        }
+    });
+
+    fastify.delete("/:id/seats/:seatId/invite", { preHandler: [fastify.authenticate, forbidImpersonation] }, async (request, reply) => {
+        const { id, seatId } = request.params as { id: string; seatId: string };
+        const orderId = parseInt(id, 10);
+        const groupSeatId = parseInt(seatId, 10);
+        if (Number.isNaN(orderId) || Number.isNaN(groupSeatId)) {
+            return reply.status(400).send({ success: false, error: "Invalid order or seat ID" });
+        }
+
+        try {
+            const seat = await revokeGroupSeatInvite({ orderId, seatId: groupSeatId, buyerUserId: request.user.id });
+            return reply.send({ success: true, data: seat });
+        } catch (error) {
+            if (sendGroupSeatError(reply, error)) return reply;
+            fastify.log.error(error);
+            return reply.status(500).send({ success: false, error: "Failed to revoke invitation" });
+        }
+    });
+
+    fastify.get("/invites/:token", async (request, reply) => {
+        const { token } = request.params as { token: string };
+
+        try {
+            const invite = await getGroupSeatInvite(token);
+            return reply.send({ success: true, data: invite });
+        } catch (error) {
+            if (sendGroupSeatError(reply, error)) return reply;
+            fastify.log.error(error);
+            return reply.status(500).send({ success: false, error: "Failed to fetch invitation" });
+        }
+    });
+
+    fastify.post("/invites/:token/claim", { preHandler: [fastify.authenticate, forbidImpersonation] }, async (request, reply) => {
+        const { token } = request.params as { token: string };
+
+        try {
+            const { registration, seat } = await claimGroupSeat({ token, userId: request.user.id });
+            fastify.log.info(
+                `[GROUP-ORDER] Seat ${seat.id} of order ${seat.orderId} claimed by user ${request.user.id} (registration ${registration.id})`
+            );
+
+            sendGroupSeatClaimedEmails(fastify, registration).catch((error) =>
+                fastify.log.error(`[GROUP-ORDER] Confirmation email task failed for registration ${registration.id}: ${error}`)
+            );
+
+            return reply.status(201).send({
+                success: true,
+                data: { registrationId: registration.id, regCode: registration.regCode },
+            });
+        } catch (error) {
+            if (sendGroupSeatError(reply, error)) return reply;
+            fastify.log.error(error);
+            return reply.status(500).send({ success: false, error: "Failed to claim seat" });
+        }
+    });
+}
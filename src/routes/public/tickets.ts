@@ -2,6 +2,7 @@ import { FastifyInstance } from "fastify";
 import { db } from "../../database/index.js";
 import { ticketTypes, events, ticketSessions, sessions, registrations, registrationSessions } from "../../database/schema.js";
 import { eq, and, or, isNull, gt, sql, inArray, count } from "drizzle-orm";
+import { loadActiveSeatHoldCounts } from "../../services/seatHold.service.js";
 
 // Query params interface
 interface TicketQuery {
@@ -22,6 +23,8 @@ interface LinkedSession {
     sessionName: string;
     maxCapacity: number;
     enrolledCount: number;
+    /** Seats held by unpaid orders */
+    heldCount: number;
     isFull: boolean;
 }
 
@@ -43,6 +46,8 @@ interface TicketWithAvailability {
     allowedRoles: string | null;
     quota: number;
     soldCount: number;
+    /** Seats held by unpaid orders */
+    heldCount: number;
     isAvailable: boolean;
     saleStartDate: string | null;
     saleEndDate: string | null;
@@ -103,6 +108,13 @@ export default async function publicTicketsRoutes(fastify: FastifyInstance) {
                 .where(and(...conditions))
                 .orderBy(ticketTypes.displayOrder);
 
+            // Seats held by pending checkouts count against the quota
+            const { byTicketType: ticketHolds } = await loadActiveSeatHoldCounts(
+                tickets.map(t => t.id),
+                [],
+                now
+            );
+
             // Compute availability and format response
             const formattedTickets: TicketWithAvailability[] = tickets.map(ticket => {
                 const saleStart = ticket.saleStartDate ? new Date(ticket.saleStartDate) : null;
@@ -110,13 +122,15 @@ export default async function publicTicketsRoutes(fastify: FastifyInstance) {
                 
                 // Check if ticket is available
                 const isInSalePeriod = (!saleStart || now >= saleStart) && (!saleEnd || now <= saleEnd);
-                const hasQuota = ticket.quota === 0 || ticket.quota > ticket.soldCount;
+                const heldCount = ticketHolds.get(ticket.id) || 0;
+                const hasQuota = ticket.quota === 0 || ticket.quota > ticket.soldCount + heldCount;
                 const isAvailable = isInSalePeriod && hasQuota;
 
                 return {
                     ...ticket,
                     displayOrder: ticket.displayOrder ?? 0,
                     features: ticket.features || [],
+                    heldCount,
                     isAvailable,
                     saleStartDate: ticket.saleStartDate?.toISOString() || null,
                     saleEndDate: ticket.saleEndDate?.toISOString() || null,
@@ -172,6 +186,7 @@ export default async function publicTicketsRoutes(fastify: FastifyInstance) {
                     const enrollMap = new Map(
                         enrollCounts.map(r => [r.sessionId, r.count])
                     );
+                    const { bySession: sessionHolds } = await loadActiveSeatHoldCounts([], sessionIds, now);
 
                     // Attach sessions to tickets
                     const ticketSessionMap = new Map<number, LinkedSession[]>();
@@ -181,12 +196,14 @@ export default async function publicTicketsRoutes(fastify: FastifyInstance) {
                             enrolled += 20;
                         }
                         const capacity = row.maxCapacity || 0;
+                        const held = sessionHolds.get(row.sessionId) || 0;
                         const session: LinkedSession = {
                             sessionId: row.sessionId,
                             sessionName: row.sessionName,
                             maxCapacity: capacity,
                             enrolledCount: enrolled,
-                            isFull: capacity > 0 && enrolled >= capacity,
+                            heldCount: held,
+                            isFull: capacity > 0 && enrolled + held >= capacity,
                         };
                         const arr = ticketSessionMap.get(row.ticketTypeId) || [];
                         arr.push(session);
@@ -0,0 +1,91 @@
+/**
+ * Waitlist for sold-out ticket types and full sessions (JWT-protected)
+ *
+ * POST   /api/waitlist        join the queue of a ticket type or session
+ * GET    /api/waitlist/me     my entries, place in line and active holds
+ * DELETE /api/waitlist/:id    leave the queue / give back a hold
+ *
+ * When a seat frees up the next person gets a time-limited purchase hold
+ * and an email; create-intent lets the holder buy while the hold lasts.
+ */
+import { FastifyInstance } from "fastify";
+import { joinWaitlistSchema } from "../../schemas/waitlist.schema.js";
+import {
+    joinWaitlist,
+    leaveWaitlist,
+    listUserWaitlist,
+    releaseWaitlistSeats,
+    toWaitlistTarget,
+} from "../../services/waitlist.service.js";
+import { forbidImpersonation } from "../../utils/authorization.js";
+
+export default async function publicWaitlistRoutes(fastify: FastifyInstance) {
+    fastify.post("", { preHandler: [fastify.authenticate, forbidImpersonation] }, async (request, reply) => {
+        const result = joinWaitlistSchema.safeParse(request.body);
+        if (!result.success) {
+            return reply.status(400).send({
+                success: false,
+                error: "Invalid input",
+                details: result.error.flatten(),
+            });
+        }
+
+        try {
+            // Lapsed holds may have freed a seat for this very user
+            await releaseWaitlistSeats(fastify);
+            const entry = await joinWaitlist(request.user.id, toWaitlistTarget(result.data));
+            return reply.status(201).send({ success: true, data: entry });
+        } catch (error) {
+            const code = error instanceof Error ? error.message : "";
+            if (code === "WAITLIST_TARGET_NOT_FOUND") {
+                return reply.status(404).send({ success: false, code, error: "Ticket or session not found" });
+            }
+            if (code === "WAITLIST_ALREADY_JOINED") {
+                return reply.status(409).send({ success: false, code, error: "You are already on this waitlist" });
+            }
+            if (code === "WAITLIST_SEATS_AVAILABLE") {
+                return reply.status(409).send({
+                    success: false,
+                    code,
+                    error: "Seats are still available — you can purchase directly",
+                });
+            }
+            fastify.log.error(error);
+            return reply.status(500).send({ success: false, error: "Failed to join waitlist" });
+        }
+    });
+
+    fastify.get("/me", { preHandler: [fastify.authenticate] }, async (request, reply) => {
+        try {
+            await releaseWaitlistSeats(fastify);
+            const entries = await listUserWaitlist(request.user.id);
+            return reply.send({ success: true, data: entries });
+        } catch (error) {
+            fastify.log.error(error);
+            return reply.status(500).send({ success: false, error: "Failed to fetch waitlist" });
+        }
+    });
+
+    fastify.delete("/:id", { preHandler: [fastify.authenticate, forbidImpersonation] }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const entryId = parseInt(id, 10);
+        if (Number.isNaN(entryId)) {
+            return reply.status(400).send({ success: false, error: "Invalid waitlist entry ID" });
+        }
+
+        try {
+            await leaveWaitlist(fastify, request.user.id, entryId);
+            return reply.send({ success: true });
+        } catch (error) {
+            if (error instanceof Error && error.message === "WAITLIST_ENTRY_NOT_FOUND") {
+                return reply.status(404).send({
+                    success: false,
+                    code: "WAITLIST_ENTRY_NOT_FOUND",
+                    error: "Waitlist entry not found",
+                });
+            }
+            fastify.log.error(error);
+            return reply.status(500).send({ success: false, error: "Failed to leave waitlist" });
+        }
+    });
+}
@@ -11,6 +11,13 @@ import {
 } from "../../database/schema.js";
 import { eq, and, sql, desc, count } from "drizzle-orm";
 import { freeRegistrationSchema } from "../../schemas/freeRegistration.schema.js";
+import { selfTransferRegistrationSchema } from "../../schemas/registrations.schema.js";
+import { buildRegisteredSessionsCalendar } from "../../services/calendar.service.js";
+import {
+  sendRegistrationTransferEmails,
+  transferRegistration,
+} from "../../services/registrationTransfer.service.js";
+import { forbidImpersonation } from "../../utils/authorization.js";
 
 // ─────────────────────────────────────────────────────
 // Helpers
@@ -91,6 +98,14 @@ async function resolveFreeTicket(
   return { id: ticket.id, price: ticket.price, eventId: ticket.eventId, name: ticket.name };
 }
 
+const SELF_TRANSFER_ERRORS: Record<string, { status: number; error: string }> = {
+  REGISTRATION_NOT_FOUND: { status: 404, error: "Registration not found" },
+  REGISTRATION_NOT_ACTIVE: { status: 400, error: "Only confirmed registrations can be transferred" },
+  REGISTRATION_CHECKED_IN: { status: 409, error: "Registration has already been checked in" },
+  TARGET_ALREADY_REGISTERED: { status: 409, error: "This person is already registered for the event" },
+  TRANSFER_SAME_ATTENDEE: { status: 400, error: "Registration already belongs to this person" },
+};
+
 // ─────────────────────────────────────────────────────
 // Route
 // ─────────────────────────────────────────────────────
@@ -148,6 +163,45 @@ export default async function freeRegistrationRoutes(fastify: FastifyInstance) {
     }
   );
 
+  /**
+   * GET /registrations/calendar.ics?eventId=X
+   *
+   * iCalendar file of the sessions the current user is registered for
+   * (registration_sessions of confirmed registrations). eventId is optional.
+   */
+  fastify.get(
+    "/calendar.ics",
+    { preHandler: [fastify.authenticate] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { eventId } = request.query as { eventId?: string };
+
+      if (eventId !== undefined && !/^\d+$/.test(eventId)) {
+        return reply.status(400).send({
+          success: false,
+          error: "eventId must be numeric",
+        });
+      }
+
+      try {
+        const { ics } = await buildRegisteredSessionsCalendar({
+          userId: request.user.id,
+          eventId: eventId ? parseInt(eventId, 10) : undefined,
+        });
+
+        return reply
+          .header("Content-Type", "text/calendar; charset=utf-8")
+          .header("Content-Disposition", 'attachment; filename="my-sessions.ics"')
+          .send(ics);
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          success: false,
+          error: "Failed to export registered sessions",
+        });
+      }
+    }
+  );
+
   /**
    * POST /registrations/free
    *
@@ -156,7 +210,7 @@ export default async function freeRegistrationRoutes(fastify: FastifyInstance) {
    */
   fastify.post(
     "/free",
-    { preHandler: [fastify.authenticate] },
+    { preHandler: [fastify.authenticate, forbidImpersonation] },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const parsed = freeRegistrationSchema.safeParse(request.body);
       if (!parsed.success) {
@@ -474,4 +528,64 @@ export default async function freeRegistrationRoutes(fastify: FastifyInstance) {
       }
     }
   );
+
+  /**
+   * POST /registrations/:id/transfer
+   *
+   * Give your own (not yet checked-in) registration to a colleague.
+   * The new attendee gets a new registration code; yours stops working.
+   */
+  fastify.post(
+    "/:id/transfer",
+    { preHandler: [fastify.authenticate, forbidImpersonation] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { id } = request.params as { id: string };
+      if (!/^\d+$/.test(id)) {
+        return reply.status(400).send({ success: false, error: "Invalid registration ID" });
+      }
+
+      const parsed = selfTransferRegistrationSchema.safeParse(request.body);
+      if (!parsed.success) {
+        return reply.status(400).send({
+          success: false,
+          error: "Invalid input",
+          details: parsed.error.flatten(),
+        });
+      }
+
+      try {
+        const { transfer } = await transferRegistration({
+          registrationId: parseInt(id, 10),
+          target: parsed.data,
+          requestedByUserId: request.user.id,
+        });
+        fastify.log.info(
+          `[TRANSFER] Registration ${transfer.registrationId} transferred by user ${request.user.id} to ${transfer.toEmail}`
+        );
+
+        sendRegistrationTransferEmails(fastify, transfer).catch((error) =>
+          fastify.log.error({ err: error }, "[TRANSFER] email task failed")
+        );
+
+        return reply.send({
+          success: true,
+          data: { registrationId: transfer.registrationId, toEmail: transfer.toEmail, toName: transfer.toName },
+        });
+      } catch (error) {
+        const mapped = error instanceof Error ? SELF_TRANSFER_ERRORS[error.message] : undefined;
+        if (mapped) {
+          return reply.status(mapped.status).send({
+            success: false,
+            code: (error as Error).message,
+            error: mapped.error,
+          });
+        }
+        fastify.log.error(error);
+        return reply.status(500).send({
+          success: false,
+          error: "Failed to transfer registration",
+        });
+      }
+    }
+  );
 }
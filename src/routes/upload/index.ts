@@ -173,7 +173,7 @@ export async function uploadRoutes(fastify: FastifyInstance) {
    * POST /upload/event-image
    * Upload event thumbnail/cover to Google Drive (event_images folder)
    */
-  fastify.post("/event-image", { preHandler: [fastify.authenticate] }, async (request, reply) => {
+  fastify.post("/event-image", { preHandler: [fastify.authenticateStaff] }, async (request, reply) => {
     try {
       const result = await handleFileUpload(request, "event_images");
       return reply.status(result.status).send(result);
@@ -190,7 +190,7 @@ export async function uploadRoutes(fastify: FastifyInstance) {
    * POST /upload/venue-image
    * Upload venue image to Google Drive (venue_images folder)
    */
-  fastify.post("/venue-image", { preHandler: [fastify.authenticate] }, async (request, reply) => {
+  fastify.post("/venue-image", { preHandler: [fastify.authenticateStaff] }, async (request, reply) => {
     try {
       const result = await handleFileUpload(request, "venue_images");
       return reply.status(result.status).send(result);
@@ -207,7 +207,7 @@ export async function uploadRoutes(fastify: FastifyInstance) {
    * POST /upload/event-document
    * Upload event document to Google Drive (event_documents folder)
    */
-  fastify.post("/event-document", { preHandler: [fastify.authenticate] }, async (request, reply) => {
+  fastify.post("/event-document", { preHandler: [fastify.authenticateStaff] }, async (request, reply) => {
     try {
       const result = await handleFileUpload(request, "event_documents");
       return reply.status(result.status).send(result);
@@ -288,7 +288,7 @@ export async function uploadRoutes(fastify: FastifyInstance) {
    * POST /upload/session-document
    * Upload session document (workshop materials) to Google Drive (session_documents folder)
    */
-  fastify.post("/session-document", { preHandler: [fastify.authenticate] }, async (request, reply) => {
+  fastify.post("/session-document", { preHandler: [fastify.authenticateStaff] }, async (request, reply) => {
     try {
       const result = await handleFileUpload(request, "session_documents");
       return reply.status(result.status).send(result);
@@ -313,7 +313,7 @@ export async function uploadRoutes(fastify: FastifyInstance) {
    *   - mediaType: "thumbnail" | "cover_img" | "cover_vdo" | "venue" | "document"
    *   - sortOrder: (optional) sort order for venue images
    */
-  fastify.post("/event-media", { preHandler: [fastify.authenticate] }, async (request, reply) => {
+  fastify.post("/event-media", { preHandler: [fastify.authenticateStaff] }, async (request, reply) => {
     try {
       const parts = request.parts();
       let fileBuffer: Buffer | null = null;
@@ -420,7 +420,7 @@ export async function uploadRoutes(fastify: FastifyInstance) {
    * POST /upload
    * Generic upload (defaults to speakers for now)
    */
-  fastify.post("/", { preHandler: [fastify.authenticate] }, async (request, reply) => {
+  fastify.post("/", { preHandler: [fastify.authenticateStaff] }, async (request, reply) => {
     try {
       // Defaulting to "speakers" as generic upload type for this route
       const result = await handleFileUpload(request, "speakers");
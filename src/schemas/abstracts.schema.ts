@@ -22,7 +22,8 @@ export const abstractSubmissionSchema = z.object({
     phone: z.string().optional(),
 
     // Abstract Details
-    title: z.string().min(10, 'Title must be at least 10 characters').max(500, 'Title too long'),
+    // Length limits come from the event's validation profile
+    title: z.string().min(1, 'Title is required').max(500, 'Title too long'),
     category: z.enum(['clinical_pharmacy', 'social_administrative', 'community_pharmacy', 'pharmacology_toxicology', 'pharmacy_education', 'digital_pharmacy']),
     presentationType: z.enum(['oral', 'poster']),
     keywords: z.string().min(1, 'Keywords are required'),
@@ -41,19 +42,316 @@ export const abstractSubmissionSchema = z.object({
     eventId: z.coerce.number().optional(),
 });
 
+// Resubmission after a revision request. Author details, event and
+// presentation type are fixed by the original submission (the tracking ID
+// encodes the presentation type), so only the abstract content can change.
+export const abstractResubmissionSchema = abstractSubmissionSchema.pick({
+    title: true,
+    keywords: true,
+    background: true,
+    objective: true,
+    methods: true,
+    results: true,
+    conclusion: true,
+    coAuthors: true,
+});
+
+// ---------------------------------------------------------------------------
+// Per-event validation profiles
+// ---------------------------------------------------------------------------
+
+export const ABSTRACT_SECTIONS = ['background', 'objective', 'methods', 'results', 'conclusion'] as const;
+
+const positiveInt = z.number().int().min(1);
+
+// Stored on events.abstract_validation_profile; every rule is optional
+export const abstractValidationProfileSchema = z.object({
+    maxTotalWords: positiveInt.nullable().optional(),
+    sectionWordLimits: z.object({
+        background: positiveInt.optional(),
+        objective: positiveInt.optional(),
+        methods: positiveInt.optional(),
+        results: positiveInt.optional(),
+        conclusion: positiveInt.optional(),
+    }).optional(),
+    minKeywords: positiveInt.nullable().optional(),
+    maxKeywords: positiveInt.nullable().optional(),
+    titleMinLength: positiveInt.nullable().optional(),
+    titleMaxLength: positiveInt.max(500).nullable().optional(),
+    bannedCharacters: z.array(z.string().min(1).max(8)).max(50).optional(),
+}).superRefine((profile, ctx) => {
+    // Ranges are checked after merging over the defaults, so a minimum set on
+    // its own cannot exceed the default maximum either
+    const resolved = resolveAbstractValidationProfile(profile);
+    if (resolved.titleMinLength > resolved.titleMaxLength) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['titleMinLength'],
+            message: `Title minimum length cannot exceed the maximum (${resolved.titleMaxLength})`,
+        });
+    }
+    if (resolved.maxKeywords != null && resolved.minKeywords > resolved.maxKeywords) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['minKeywords'],
+            message: `Minimum keywords cannot exceed the maximum (${resolved.maxKeywords})`,
+        });
+    }
+    if (resolved.maxTotalWords != null) {
+        for (const section of ABSTRACT_SECTIONS) {
+            const limit = resolved.sectionWordLimits[section];
+            if (limit != null && limit > resolved.maxTotalWords) {
+                ctx.addIssue({
+                    code: z.ZodIssueCode.custom,
+                    path: ['sectionWordLimits', section],
+                    message: `The ${section} word limit cannot exceed the total word limit (${resolved.maxTotalWords})`,
+                });
+            }
+        }
+    }
+});
+
+export type AbstractValidationProfile = z.infer<typeof abstractValidationProfileSchema>;
+
+export interface ResolvedAbstractValidationProfile {
+    maxTotalWords: number | null;
+    sectionWordLimits: Partial<Record<(typeof ABSTRACT_SECTIONS)[number], number>>;
+    minKeywords: number;
+    maxKeywords: number | null;
+    titleMinLength: number;
+    titleMaxLength: number;
+    bannedCharacters: string[];
+}
+
+// Used when an event has no profile (matches the original 250-word call)
+export const DEFAULT_ABSTRACT_VALIDATION_PROFILE: ResolvedAbstractValidationProfile = {
+    maxTotalWords: 250,
+    sectionWordLimits: {},
+    minKeywords: 1,
+    maxKeywords: null,
+    titleMinLength: 10,
+    titleMaxLength: 500,
+    bannedCharacters: [],
+};
+
+export function resolveAbstractValidationProfile(
+    profile: AbstractValidationProfile | null | undefined
+): ResolvedAbstractValidationProfile {
+    const d = DEFAULT_ABSTRACT_VALIDATION_PROFILE;
+    if (!profile) return d;
+    return {
+        maxTotalWords: profile.maxTotalWords === undefined ? d.maxTotalWords : profile.maxTotalWords,
+        sectionWordLimits: profile.sectionWordLimits ?? d.sectionWordLimits,
+        minKeywords: profile.minKeywords ?? d.minKeywords,
+        maxKeywords: profile.maxKeywords ?? d.maxKeywords,
+        titleMinLength: profile.titleMinLength ?? d.titleMinLength,
+        titleMaxLength: profile.titleMaxLength ?? d.titleMaxLength,
+        bannedCharacters: profile.bannedCharacters ?? d.bannedCharacters,
+    };
+}
+
+export function countWords(text: string): number {
+    return text
+        .trim()
+        .split(/\s+/)
+        .filter((word) => word.length > 0).length;
+}
+
+/** Keywords are entered as one comma/semicolon separated string. */
+export function splitKeywords(keywords: string): string[] {
+    return keywords
+        .split(/[,;]/)
+        .map((k) => k.trim())
+        .filter((k) => k.length > 0);
+}
+
+type AbstractContent = {
+    title: string;
+    keywords: string;
+} & Record<(typeof ABSTRACT_SECTIONS)[number], string>;
+
+function sectionLabel(section: string): string {
+    return section.charAt(0).toUpperCase() + section.slice(1);
+}
+
+/** Apply a resolved profile to already shape-validated abstract content. */
+function applyValidationProfile(
+    data: AbstractContent,
+    ctx: z.RefinementCtx,
+    profile: ResolvedAbstractValidationProfile
+) {
+    const title = data.title.trim();
+    if (title.length < profile.titleMinLength) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['title'],
+            message: `Title must be at least ${profile.titleMinLength} characters`,
+        });
+    }
+    if (title.length > profile.titleMaxLength) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['title'],
+            message: `Title must not exceed ${profile.titleMaxLength} characters. Current: ${title.length}`,
+        });
+    }
+
+    const keywordCount = splitKeywords(data.keywords).length;
+    if (keywordCount < profile.minKeywords) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['keywords'],
+            message: `At least ${profile.minKeywords} keyword(s) are required`,
+        });
+    }
+    if (profile.maxKeywords != null && keywordCount > profile.maxKeywords) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['keywords'],
+            message: `No more than ${profile.maxKeywords} keywords are allowed. Current: ${keywordCount}`,
+        });
+    }
+
+    let totalWords = 0;
+    for (const section of ABSTRACT_SECTIONS) {
+        const words = countWords(data[section]);
+        totalWords += words;
+        const limit = profile.sectionWordLimits[section];
+        if (limit != null && words > limit) {
+            ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                path: [section],
+                message: `${sectionLabel(section)} must not exceed ${limit} words. Current: ${words} words`,
+            });
+        }
+    }
+    if (profile.maxTotalWords != null && totalWords > profile.maxTotalWords) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['background'],
+            message: `Abstract word count must not exceed ${profile.maxTotalWords} words. Current: ${totalWords} words`,
+        });
+    }
+
+    if (profile.bannedCharacters.length > 0) {
+        for (const field of ['title', 'keywords', ...ABSTRACT_SECTIONS] as const) {
+            const found = profile.bannedCharacters.filter((ch) => data[field].includes(ch));
+            if (found.length > 0) {
+                ctx.addIssue({
+                    code: z.ZodIssueCode.custom,
+                    path: [field],
+                    message: `${sectionLabel(field)} contains characters that are not allowed: ${found.join(' ')}`,
+                });
+            }
+        }
+    }
+}
+
+/** Submission schema with the event's validation profile applied. */
+export function buildAbstractSubmissionSchema(profile: ResolvedAbstractValidationProfile) {
+    return abstractSubmissionSchema.superRefine((data, ctx) => applyValidationProfile(data, ctx, profile));
+}
+
+/** Resubmission schema with the event's validation profile applied. */
+export function buildAbstractResubmissionSchema(profile: ResolvedAbstractValidationProfile) {
+    return abstractResubmissionSchema.superRefine((data, ctx) => applyValidationProfile(data, ctx, profile));
+}
+
 // Backoffice: List abstracts
 export const abstractListSchema = z.object({
     page: z.coerce.number().min(1).default(1),
     limit: z.coerce.number().min(1).max(1000).default(10),
     search: z.string().optional(),
     eventId: z.coerce.number().optional(),
-    status: z.enum(['pending', 'accepted', 'rejected']).optional(),
+    status: z.enum(['pending', 'accepted', 'rejected', 'revision_requested']).optional(),
     category: z.enum(['clinical_pharmacy', 'social_administrative', 'community_pharmacy', 'pharmacology_toxicology', 'pharmacy_education', 'digital_pharmacy']).optional(),
     presentationType: z.enum(['oral', 'poster']).optional(),
 });
 
 // Backoffice: Update abstract status
 export const updateAbstractStatusSchema = z.object({
-    status: z.enum(['pending', 'accepted', 'rejected']),
+    status: z.enum(['pending', 'accepted', 'rejected', 'revision_requested']),
     comment: z.string().optional(), // For review comment
 });
+
+// Backoffice: Reviewer submits (or updates) their scored review
+const reviewScore = z.coerce.number().int().min(1, 'Score must be between 1 and 5').max(5, 'Score must be between 1 and 5');
+
+export const submitAbstractReviewSchema = z.object({
+    originalityScore: reviewScore,
+    methodologyScore: reviewScore,
+    relevanceScore: reviewScore,
+    clarityScore: reviewScore,
+    recommendation: z.enum(['accept', 'reject', 'revise']),
+    comment: z.string().max(5000).optional(),
+});
+
+// Backoffice: Compare two versions of an abstract
+export const abstractVersionDiffSchema = z.object({
+    from: z.coerce.number().int().min(1),
+    to: z.coerce.number().int().min(1),
+});
+
+// Backoffice: Grant a user a late-submission grace period for an event
+export const abstractSubmissionOverrideSchema = z.object({
+    eventId: z.coerce.number(),
+    userId: z.coerce.number().optional(),
+    email: z.string().email().optional(),
+    graceUntil: z.string().datetime(),
+    note: z.string().max(1000).optional(),
+}).refine((data) => data.userId != null || data.email != null, {
+    message: 'userId or email is required',
+    path: ['userId'],
+});
+
+// Backoffice: Presentation scheduler slot grid
+const scheduleTime = z.string().regex(/^\d{2}:\d{2}$/, 'Time must be HH:MM');
+const abstractCategoryValues = ['clinical_pharmacy', 'social_administrative', 'community_pharmacy', 'pharmacology_toxicology', 'pharmacy_education', 'digital_pharmacy'] as const;
+
+export const presentationScheduleBlockSchema = z.object({
+    presentationType: z.enum(['oral', 'poster']),
+    label: z.string().max(255).optional().nullable(),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD'),
+    room: z.string().max(255).optional().nullable(),
+    startTime: scheduleTime,
+    endTime: scheduleTime,
+    slotMinutes: z.number().int().min(5).max(240).optional().nullable(),
+    boardFrom: z.number().int().min(1).optional().nullable(),
+    boardTo: z.number().int().min(1).optional().nullable(),
+    installationStart: scheduleTime.optional().nullable(),
+    installationEnd: scheduleTime.optional().nullable(),
+    removalStart: scheduleTime.optional().nullable(),
+    removalEnd: scheduleTime.optional().nullable(),
+    categories: z.array(z.enum(abstractCategoryValues)).optional().default([]),
+});
+
+export const savePresentationScheduleBlocksSchema = z.object({
+    eventId: z.coerce.number(),
+    blocks: z.array(presentationScheduleBlockSchema).max(500),
+});
+
+export const runPresentationScheduleSchema = z.object({
+    eventId: z.coerce.number(),
+    mode: z.enum(['fill', 'rebuild']).default('fill'),
+    // apply only: re-send the schedule email to presenters whose slot changed
+    notify: z.boolean().optional().default(false),
+});
+
+// Backoffice: Auto-assign reviewers (preview or apply)
+export const autoAssignReviewersSchema = z.object({
+    eventId: z.coerce.number(),
+    reviewersPerAbstract: z.coerce.number().int().min(1).max(10).default(2),
+    // Limit the run to specific abstracts (defaults to every pending abstract of the event)
+    abstractIds: z.array(z.number()).optional(),
+});
+
+// Backoffice: Organizer override of an abstract's reviewers
+export const setAbstractReviewersSchema = z.object({
+    reviewerIds: z.array(z.number()).max(10),
+    lock: z.boolean().optional().default(false),
+});
+
+// Backoffice: Lock / unlock an abstract's reviewer assignments
+export const lockAbstractReviewersSchema = z.object({
+    locked: z.boolean(),
+});
@@ -26,6 +26,8 @@ export const createUserSchema = z.object({
   firstName: z.string().min(1),
   lastName: z.string().min(1),
   role: z.enum(["admin", "organizer", "reviewer", "staff", "verifier"]),
+  // Reviewer's home institution (used for conflict-of-interest detection)
+  institution: z.string().max(255).optional(),
   // For reviewers: categories they can review
   assignedCategories: z.array(abstractCategoryEnum).optional(),
   // For reviewers: presentation types they can review
@@ -41,6 +43,7 @@ export const updateUserSchema = z.object({
   isActive: z.boolean().optional(),
   password: z.string().min(6).optional(),
   email: emailField.optional(),
+  institution: z.string().max(255).nullable().optional(),
   // For reviewers: categories they can review
   assignedCategories: z.array(abstractCategoryEnum).optional(),
   // For reviewers: presentation types they can review
@@ -9,3 +9,46 @@ export const backofficeLoginSchema = z.object({
 });
 
 export type BackofficeLoginInput = z.infer<typeof backofficeLoginSchema>;
+
+// Two-factor (TOTP) Schemas
+const totpCodeSchema = z
+  .string()
+  .trim()
+  .regex(/^\d{6}$/, "Code must be 6 digits");
+
+const recoveryCodeSchema = z.string().trim().min(1, "Recovery code is required");
+
+// Either an authenticator code or one of the recovery codes
+const secondFactorFields = {
+  code: totpCodeSchema.optional(),
+  recoveryCode: recoveryCodeSchema.optional(),
+};
+
+const hasOneSecondFactor = (data: { code?: string; recoveryCode?: string }) =>
+  !!data.code !== !!data.recoveryCode;
+
+const oneSecondFactorMessage = { message: "Provide either code or recoveryCode" };
+
+export const twoFactorChallengeSchema = z.object({
+  challengeToken: z.string().min(1, "Challenge token is required"),
+});
+
+export const twoFactorLoginSchema = twoFactorChallengeSchema
+  .extend(secondFactorFields)
+  .refine(hasOneSecondFactor, oneSecondFactorMessage);
+
+export const twoFactorSetupConfirmSchema = twoFactorChallengeSchema.extend({
+  code: totpCodeSchema,
+});
+
+export const twoFactorCodeSchema = z.object({
+  code: totpCodeSchema,
+});
+
+export const twoFactorDisableSchema = z
+  .object(secondFactorFields)
+  .refine(hasOneSecondFactor, oneSecondFactorMessage);
+
+export const twoFactorPolicySchema = z.object({
+  required: z.boolean(),
+});
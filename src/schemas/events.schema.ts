@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { abstractValidationProfileSchema } from "./abstracts.schema.js";
 
 // Create Event Schema
 export const createEventSchema = z.object({
@@ -21,6 +22,14 @@ export const createEventSchema = z.object({
     websiteUrl: z.preprocess((val) => val === "" ? undefined : val, z.string().url().max(500).optional()),
     abstractStartDate: z.string().datetime().optional(),
     abstractEndDate: z.string().datetime().optional(),
+    blindReview: z.boolean().optional(),
+    // Currencies tickets are sold in (defaults to THB and USD)
+    currencies: z.array(z.enum(["THB", "USD"])).min(1).optional(),
+    // Per-author abstract limits (null = unlimited)
+    maxAbstractsPerAuthor: z.number().int().min(1).nullable().optional(),
+    maxOralAbstractsPerAuthor: z.number().int().min(0).nullable().optional(),
+    maxPosterAbstractsPerAuthor: z.number().int().min(0).nullable().optional(),
+    abstractValidationProfile: abstractValidationProfileSchema.nullable().optional(),
     documents: z.array(z.object({
         name: z.string().min(1),
         url: z.string().url()
@@ -30,6 +39,21 @@ export const createEventSchema = z.object({
 // Update Event Schema
 export const updateEventSchema = createEventSchema.partial();
 
+// Public programme filters (comma-separated lists for track/type)
+const commaList = z.preprocess(
+    (val) => typeof val === "string" && val.trim() !== ""
+        ? val.split(",").map((v) => v.trim()).filter(Boolean)
+        : undefined,
+    z.array(z.string()).optional(),
+);
+
+export const programmeQuerySchema = z.object({
+    day: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "day must be YYYY-MM-DD").optional(),
+    room: z.string().max(255).optional(),
+    track: commaList,
+    type: commaList.pipe(z.array(z.enum(["session", "oral", "poster"])).optional()),
+});
+
 // Create Session Schema (for multi-session events)
 export const createSessionSchema = z.object({
     sessionCode: z.string().min(1).max(50),
@@ -0,0 +1,32 @@
+import { z } from "zod";
+
+const currencyCodeSchema = z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z]{3}$/, "Must be a 3-letter ISO 4217 currency code");
+
+export const exchangeRateQuerySchema = z.object({
+    base: currencyCodeSchema.optional(),
+    quote: currencyCodeSchema.optional(),
+});
+
+export const createExchangeRateSchema = z
+    .object({
+        baseCurrency: currencyCodeSchema,
+        quoteCurrency: currencyCodeSchema,
+        rate: z.number().positive(),
+        // Defaults to now; a future date schedules the change
+        effectiveFrom: z.coerce.date().optional(),
+        note: z.string().trim().max(500).optional(),
+    })
+    .refine((data) => data.baseCurrency !== data.quoteCurrency, {
+        message: "Base and quote currency must differ",
+        path: ["quoteCurrency"],
+    });
+
+export const updateExchangeRateSchema = z.object({
+    rate: z.number().positive().optional(),
+    effectiveFrom: z.coerce.date().optional(),
+    note: z.string().trim().max(500).optional(),
+});
@@ -5,3 +5,72 @@ export const orderListQuerySchema = z.object({
   limit: z.coerce.number().min(1).max(100).default(20),
   search: z.string().optional(),
 });
+
+export const refundOrderSchema = z.object({
+  // Omit for a full refund of whatever has not been refunded yet
+  amount: z.number().positive().optional(),
+  orderItemIds: z.array(z.number().int().positive()).optional(),
+  registrationAction: z.enum(["cancel", "keep"]).default("cancel"),
+  reason: z.string().trim().min(1).max(1000),
+  reference: z.string().trim().max(255).optional(),
+  sendEmail: z.boolean().default(true),
+});
+
+export const inviteGroupSeatsSchema = z.object({
+  invites: z
+    .array(
+      z.object({
+        email: z.string().trim().toLowerCase().email(),
+        firstName: z.string().trim().max(100).optional(),
+        lastName: z.string().trim().max(100).optional(),
+      })
+    )
+    .min(1, "At least one attendee is required")
+    .max(200),
+  sendEmail: z.boolean().default(true),
+});
+
+export const openGroupSeatsQuerySchema = z.object({
+  eventId: z.coerce.number().int().positive().optional(),
+});
+
+export const pendingInvoicesQuerySchema = z.object({
+  eventId: z.coerce.number().int().positive().optional(),
+  overdue: z
+    .enum(["true", "false"])
+    .transform((value) => value === "true")
+    .optional(),
+});
+
+// Text fields of the multipart confirm request (the slip is the "file" part)
+export const confirmInvoicePaymentSchema = z.object({
+  paidAt: z.coerce.date().optional(),
+  bankReference: z.string().trim().max(255).optional(),
+  note: z.string().trim().max(1000).optional(),
+  sendReceipt: z
+    .enum(["true", "false"])
+    .default("true")
+    .transform((value) => value === "true"),
+});
+
+export const issueTaxInvoiceSchema = z.object({
+  sendEmail: z.boolean().default(true),
+});
+
+// Buyer details to correct on a reissued tax invoice; omitted fields are kept
+export const reissueTaxInvoiceSchema = z
+  .object({
+    taxName: z.string().trim().min(1).max(200).optional(),
+    taxId: z.string().trim().min(1).max(50).optional(),
+    taxBranchCode: z.string().trim().regex(/^\d{5}$/, "Branch code must be 5 digits").optional(),
+    taxAddress: z.string().trim().min(1).max(500).optional(),
+    taxSubDistrict: z.string().trim().min(1).max(100).optional(),
+    taxDistrict: z.string().trim().min(1).max(100).optional(),
+    taxProvince: z.string().trim().min(1).max(100).optional(),
+    taxPostalCode: z.string().trim().min(1).max(20).optional(),
+    reason: z.string().trim().min(1).max(1000),
+    sendEmail: z.boolean().default(true),
+  })
+  .refine(({ reason: _reason, sendEmail: _sendEmail, ...correction }) => Object.values(correction).some(Boolean), {
+    message: "At least one buyer detail must be corrected",
+  });
@@ -5,9 +5,12 @@ export const createPaymentIntentSchema = z.object({
   packageId: z.string().optional().default(""),
   addOnIds: z.array(z.string()).optional().default([]),
   currency: z.enum(["THB", "USD"]),
-  paymentMethod: z.enum(["qr", "card", "alipay"]).optional().default("card"),
+  // "invoice" = bank transfer against a proforma invoice, confirmed by staff
+  paymentMethod: z.enum(["qr", "card", "alipay", "invoice"]).optional().default("card"),
   promoCode: z.string().optional(),
   workshopSessionId: z.number().int().positive().optional(),
+  // > 1 = group order: seats of the primary ticket assigned to attendees after payment
+  quantity: z.coerce.number().int().min(1).max(200).optional().default(1),
   needTaxInvoice: z.boolean().optional().default(false),
   taxName: z.string().trim().max(200).optional(),
   taxId: z.string().trim().min(1).max(50).optional(),
@@ -16,7 +19,27 @@ export const createPaymentIntentSchema = z.object({
   taxDistrict: z.string().trim().max(100).optional(),
   taxProvince: z.string().trim().max(100).optional(),
   taxPostalCode: z.string().trim().min(1).max(20).optional(),
+  // Buyer's branch on the tax invoice: "00000" = head office
+  taxBranchCode: z.string().trim().regex(/^\d{5}$/, "Branch code must be 5 digits").optional(),
 }).superRefine((data, ctx) => {
+  if (data.quantity > 1) {
+    if (!data.packageId) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["packageId"],
+        message: "Group orders require a registration ticket",
+      });
+    }
+
+    if (data.addOnIds.length > 0 || data.workshopSessionId) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["addOnIds"],
+        message: "Add-ons cannot be bought in a group order",
+      });
+    }
+  }
+
   if (!data.needTaxInvoice) return;
 
   if (!data.taxName?.trim()) {
@@ -0,0 +1,20 @@
+import { z } from "zod";
+
+export const startReconciliationSchema = z
+    .object({
+        // Orders created in this window are checked (default: the last 30 days)
+        since: z.coerce.date().optional(),
+        until: z.coerce.date().optional(),
+        providers: z.array(z.enum(["stripe", "pay_solutions", "ktb_fastpay"])).min(1).optional(),
+        autoHeal: z.boolean().default(false),
+    })
+    .refine((data) => !data.since || !data.until || data.since <= data.until, {
+        message: "since must be before until",
+        path: ["until"],
+    });
+
+export const reconciliationRunListSchema = z.object({
+    limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export type StartReconciliationInput = z.infer<typeof startReconciliationSchema>;
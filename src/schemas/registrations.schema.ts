@@ -7,7 +7,7 @@ export const registrationListSchema = z.object({
     eventId: z.coerce.number().optional(),
     status: z.enum(['confirmed', 'cancelled']).optional(),
     ticketTypeId: z.coerce.number().optional(),
-    source: z.enum(['purchase', 'manual', 'free']).optional(),
+    source: z.enum(['purchase', 'manual', 'free', 'group']).optional(),
     country: z.string().optional(),
 });
 
@@ -78,3 +78,27 @@ export const checkRegisteredUsersSchema = z.object({
     eventId: z.coerce.number().min(1),
     ticketTypeId: z.coerce.number().optional(),
 });
+
+// Transfer to an existing user (userId) or to an email; names are required
+// when the email does not belong to a user account yet
+export const transferRegistrationSchema = z
+    .object({
+        userId: z.number().int().positive().optional(),
+        email: z.string().trim().toLowerCase().email().optional(),
+        firstName: z.string().trim().min(1).max(100).optional(),
+        middleName: z.string().trim().max(100).optional(),
+        lastName: z.string().trim().min(1).max(100).optional(),
+        note: z.string().trim().max(1000).optional(),
+        sendEmail: z.boolean().default(true),
+    })
+    .refine((data) => data.userId != null || data.email != null, {
+        message: "Provide either userId or email",
+        path: ["email"],
+    });
+
+export const selfTransferRegistrationSchema = z.object({
+    email: z.string().trim().toLowerCase().email(),
+    firstName: z.string().trim().min(1).max(100),
+    middleName: z.string().trim().max(100).optional(),
+    lastName: z.string().trim().min(1).max(100),
+});
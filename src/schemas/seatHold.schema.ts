@@ -0,0 +1,10 @@
+import { z } from "zod";
+
+export const seatHoldListSchema = z.object({
+    eventId: z.coerce.number().int().positive().optional(),
+    ticketTypeId: z.coerce.number().int().positive().optional(),
+    sessionId: z.coerce.number().int().positive().optional(),
+    status: z.enum(["active", "converted", "released", "expired"]).optional(),
+});
+
+export type SeatHoldListQuery = z.infer<typeof seatHoldListSchema>;
@@ -0,0 +1,16 @@
+import { z } from "zod";
+
+const settlementProviderSchema = z.enum(["stripe", "pay_solutions", "ktb_fastpay"]);
+
+export const settlementImportQuerySchema = z.object({
+    provider: settlementProviderSchema,
+});
+
+export const settlementReportQuerySchema = z.object({
+    provider: settlementProviderSchema.optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    format: z.enum(["json", "csv"]).default("json"),
+});
+
+export type SettlementReportQuery = z.infer<typeof settlementReportQuerySchema>;
@@ -0,0 +1,30 @@
+import { z } from "zod";
+
+// A waitlist belongs to exactly one ticket type or session
+const waitlistTargetSchema = z
+    .object({
+        ticketTypeId: z.coerce.number().int().positive().optional(),
+        sessionId: z.coerce.number().int().positive().optional(),
+    })
+    .refine((data) => (data.ticketTypeId == null) !== (data.sessionId == null), {
+        message: "Provide either ticketTypeId or sessionId",
+        path: ["ticketTypeId"],
+    });
+
+export const joinWaitlistSchema = waitlistTargetSchema;
+
+export const waitlistListSchema = z.object({
+    eventId: z.coerce.number().int().positive().optional(),
+    ticketTypeId: z.coerce.number().int().positive().optional(),
+    sessionId: z.coerce.number().int().positive().optional(),
+    status: z.enum(["waiting", "offered", "purchased", "expired", "cancelled"]).optional(),
+});
+
+export const reorderWaitlistSchema = z.intersection(
+    waitlistTargetSchema,
+    z.object({ entryIds: z.array(z.number().int().positive()) })
+);
+
+export const releaseWaitlistSchema = waitlistTargetSchema;
+
+export type WaitlistTargetInput = z.infer<typeof waitlistTargetSchema>;
@@ -0,0 +1,51 @@
+/**
+ * Overdue Invoice Cancellation Job
+ *
+ * PURPOSE:
+ *   Cancel bank-transfer (invoice) orders still unpaid after their due date,
+ *   release their seat holds to the waitlist and email the buyer. Meant to be
+ *   run from cron, e.g. hourly.
+ *
+ * USAGE:
+ *   npx tsx src/scripts/cancel-overdue-invoices.ts [--dry-run]
+ *
+ * FLAGS:
+ *   --dry-run    List the overdue invoices without cancelling them
+ *
+ * EXIT CODE: 0 on success, 1 when the run failed.
+ *
+ * RUN FROM: accp-api/ directory
+ */
+
+import * as dotenv from "dotenv";
+dotenv.config();
+
+import { cancelOverdueInvoices, listPendingInvoices } from "../services/invoice.service.js";
+
+const args = process.argv.slice(2);
+
+async function main() {
+  if (args.includes("--dry-run")) {
+    const overdue = await listPendingInvoices({ overdue: true });
+    console.log(`Overdue invoices: ${overdue.length}`);
+    for (const invoice of overdue) {
+      console.log(
+        `  ${invoice.orderNumber} order=${invoice.orderId} due=${invoice.invoiceDueAt?.toISOString() ?? "-"} ${invoice.currency} ${invoice.totalAmount} ${invoice.user.email}`
+      );
+    }
+    process.exit(0);
+  }
+
+  const cancelled = await cancelOverdueInvoices({ log: console });
+  console.log(`Cancelled overdue invoices: ${cancelled.length}`);
+  for (const invoice of cancelled) {
+    console.log(`  ${invoice.orderNumber} order=${invoice.orderId}`);
+  }
+
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error("Unexpected error:", err);
+  process.exit(1);
+});
@@ -0,0 +1,40 @@
+/**
+ * Waitlist Processing Job
+ *
+ * PURPOSE:
+ *   Expire lapsed waitlist offers and seat holds of unpaid orders, offer the
+ *   seats that came free to the next people in line and email them. Seats
+ *   are otherwise only released when someone happens to hit an API route, so
+ *   this is meant to be run from cron, e.g. every 5 minutes.
+ *
+ * USAGE:
+ *   npx tsx src/scripts/process-waitlist.ts
+ *
+ * EXIT CODE: 0 on success, 1 when the run failed.
+ *
+ * RUN FROM: accp-api/ directory
+ */
+
+import * as dotenv from "dotenv";
+dotenv.config();
+
+import { releaseWaitlistSeats, sendWaitlistOfferEmails } from "../services/waitlist.service.js";
+
+const logContext = { log: console };
+
+async function main() {
+  const offers = await releaseWaitlistSeats(logContext, [], { sendEmails: false });
+  console.log(`Waitlist offers made: ${offers.length}`);
+  for (const offer of offers) {
+    console.log(`  entry=${offer.entryId} ${offer.email} ${offer.itemName} (hold until ${offer.holdExpiresAt.toISOString()})`);
+  }
+
+  // Send before exiting; the API sends them in the background instead
+  await sendWaitlistOfferEmails(logContext, offers);
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error("Unexpected error:", err);
+  process.exit(1);
+});
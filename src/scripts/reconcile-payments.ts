@@ -0,0 +1,95 @@
+/**
+ * Payment Reconciliation Job
+ *
+ * PURPOSE:
+ *   Compare pending and paid payments with Stripe, Pay Solutions and the stored
+ *   KTB datafeeds, and record every mismatch as a reconciliation run (visible in
+ *   the backoffice under /payment-reconciliation). Meant to be run from cron.
+ *
+ * USAGE:
+ *   npx tsx src/scripts/reconcile-payments.ts [--since=2026-05-01] [--until=2026-05-31]
+ *                                             [--provider=stripe,pay_solutions,ktb_fastpay] [--auto-heal]
+ *
+ * FLAGS:
+ *   --since=<date>       Orders created from this date (default: 30 days ago)
+ *   --until=<date>       Orders created up to this date
+ *   --provider=<list>    Comma-separated providers to check (default: all)
+ *   --auto-heal          Process payments captured at the provider but still pending here
+ *
+ * EXIT CODE: 0 when nothing was found, 2 when mismatches remain, 1 when the run failed.
+ *
+ * RUN FROM: accp-api/ directory
+ */
+
+import * as dotenv from "dotenv";
+dotenv.config();
+
+import {
+  runPaymentReconciliation,
+  getReconciliationRun,
+  type ReconciliationProvider,
+} from "../services/paymentReconciliation.service.js";
+
+const PROVIDERS: ReconciliationProvider[] = ["stripe", "pay_solutions", "ktb_fastpay"];
+
+const args = process.argv.slice(2);
+const argValue = (name: string) => args.find((a) => a.startsWith(`--${name}=`))?.replace(`--${name}=`, "");
+
+function parseDateArg(name: string): Date | undefined {
+  const raw = argValue(name);
+  if (!raw) return undefined;
+  const date = new Date(raw);
+  if (isNaN(date.getTime())) {
+    console.error(`Invalid --${name}: ${raw}`);
+    process.exit(1);
+  }
+  return date;
+}
+
+async function main() {
+  const providerArg = argValue("provider");
+  const providers = providerArg
+    ? (providerArg.split(",").map((p) => p.trim()) as ReconciliationProvider[])
+    : undefined;
+  const unknown = providers?.filter((p) => !PROVIDERS.includes(p)) ?? [];
+  if (unknown.length > 0) {
+    console.error(`Unknown provider(s): ${unknown.join(", ")}`);
+    process.exit(1);
+  }
+
+  const run = await runPaymentReconciliation(
+    { log: console },
+    {
+      since: parseDateArg("since"),
+      until: parseDateArg("until"),
+      providers,
+      autoHeal: args.includes("--auto-heal"),
+    },
+    "script"
+  );
+
+  console.log(`Reconciliation run #${run.id}: ${run.status}`);
+  console.log(`  Checked    : ${run.checkedCount}`);
+  console.log(`  Mismatches : ${run.mismatchCount}`);
+  console.log(`  Healed     : ${run.healedCount}`);
+
+  if (run.status === "failed") {
+    console.error(`  Error      : ${run.error}`);
+    process.exit(1);
+  }
+
+  const report = await getReconciliationRun(run.id);
+  const open = report?.items.filter((item) => !item.healed) ?? [];
+  for (const item of open) {
+    console.log(
+      `  [${item.kind}] ${item.paymentProvider} ${item.providerRef ?? "-"} order=${item.orderId ?? "-"} local=${item.localStatus ?? "-"} provider=${item.providerStatus ?? "-"}`
+    );
+  }
+
+  process.exit(open.length > 0 ? 2 : 0);
+}
+
+main().catch((err) => {
+  console.error("Unexpected error:", err);
+  process.exit(1);
+});
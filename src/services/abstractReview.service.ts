@@ -0,0 +1,108 @@
+import { db, type DbExecutor } from "../database/index.js";
+import { abstractReviews, abstracts } from "../database/schema.js";
+import { and, avg, count, eq, inArray, sql } from "drizzle-orm";
+
+/** Per-criterion score fields on abstract_reviews (each scored 1-5). */
+export const REVIEW_SCORE_FIELDS = [
+    "originalityScore",
+    "methodologyScore",
+    "relevanceScore",
+    "clarityScore",
+] as const;
+
+export type ReviewScores = Record<(typeof REVIEW_SCORE_FIELDS)[number], number>;
+
+export interface ReviewSummary {
+    reviewCount: number;
+    averageScore: number | null;
+    recommendations: { accept: number; reject: number; revise: number };
+}
+
+type ReviewScopeStaff = {
+    role: string;
+    assignedCategories?: string[];
+    assignedPresentationTypes?: string[];
+};
+
+export function emptyReviewSummary(): ReviewSummary {
+    return { reviewCount: 0, averageScore: null, recommendations: { accept: 0, reject: 0, revise: 0 } };
+}
+
+export function computeTotalScore(scores: ReviewScores): number {
+    return REVIEW_SCORE_FIELDS.reduce((sum, field) => sum + scores[field], 0);
+}
+
+/**
+ * Whether a reviewer may see/review an abstract.
+ * Mirrors the list endpoint: no assigned categories = nothing,
+ * no assigned presentation types = all presentation types.
+ */
+export function isAbstractInReviewerScope(
+    staff: ReviewScopeStaff,
+    abstract: { category: string; presentationType: string }
+): boolean {
+    if (staff.role !== "reviewer") return true;
+    const categories = staff.assignedCategories ?? [];
+    if (!categories.includes(abstract.category)) return false;
+    const types = staff.assignedPresentationTypes ?? [];
+    return types.length === 0 || types.includes(abstract.presentationType);
+}
+
+/** Reviews written against the abstract's current version (earlier versions are history). */
+export const currentVersionReviewCondition = sql`${abstractReviews.version} = (select ${abstracts.currentVersion} from ${abstracts} where ${abstracts.id} = ${abstractReviews.abstractId})`;
+
+/** Aggregate review scores/recommendations for a set of abstracts (current version only). */
+export async function getReviewSummaries(
+    abstractIds: number[],
+    executor: DbExecutor = db
+): Promise<Map<number, ReviewSummary>> {
+    const summaries = new Map<number, ReviewSummary>();
+    if (abstractIds.length === 0) return summaries;
+
+    const rows = await executor
+        .select({
+            abstractId: abstractReviews.abstractId,
+            reviewCount: count(),
+            averageScore: avg(abstractReviews.totalScore),
+            acceptCount: sql<number>`count(*) filter (where ${abstractReviews.recommendation} = 'accept')::int`,
+            rejectCount: sql<number>`count(*) filter (where ${abstractReviews.recommendation} = 'reject')::int`,
+            reviseCount: sql<number>`count(*) filter (where ${abstractReviews.recommendation} = 'revise')::int`,
+        })
+        .from(abstractReviews)
+        .where(and(inArray(abstractReviews.abstractId, abstractIds), currentVersionReviewCondition))
+        .groupBy(abstractReviews.abstractId);
+
+    for (const row of rows) {
+        summaries.set(row.abstractId, {
+            reviewCount: Number(row.reviewCount),
+            averageScore: row.averageScore == null ? null : Math.round(Number(row.averageScore) * 100) / 100,
+            recommendations: {
+                accept: Number(row.acceptCount),
+                reject: Number(row.rejectCount),
+                revise: Number(row.reviseCount),
+            },
+        });
+    }
+    return summaries;
+}
+
+export async function getReviewSummary(abstractId: number, executor: DbExecutor = db): Promise<ReviewSummary> {
+    const summaries = await getReviewSummaries([abstractId], executor);
+    return summaries.get(abstractId) ?? emptyReviewSummary();
+}
+
+/** IDs (within abstractIds) whose current version the given reviewer has already reviewed. */
+export async function getReviewedAbstractIds(reviewerId: number, abstractIds: number[]): Promise<Set<number>> {
+    if (abstractIds.length === 0) return new Set();
+    const rows = await db
+        .select({ abstractId: abstractReviews.abstractId })
+        .from(abstractReviews)
+        .where(
+            and(
+                eq(abstractReviews.reviewerId, reviewerId),
+                inArray(abstractReviews.abstractId, abstractIds),
+                currentVersionReviewCondition
+            )
+        );
+    return new Set(rows.map((r) => r.abstractId));
+}
@@ -0,0 +1,209 @@
+import { db, type DbExecutor } from "../database/index.js";
+import {
+    abstracts,
+    abstractSubmissionOverrides,
+    events,
+    type AbstractSubmissionOverride,
+} from "../database/schema.js";
+import { and, eq, ne, sql } from "drizzle-orm";
+import {
+    resolveAbstractValidationProfile,
+    type ResolvedAbstractValidationProfile,
+} from "../schemas/abstracts.schema.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type PolicyEvent = {
+    abstractStartDate: Date | null;
+    abstractEndDate: Date | null;
+    maxAbstractsPerAuthor: number | null;
+    maxOralAbstractsPerAuthor: number | null;
+    maxPosterAbstractsPerAuthor: number | null;
+};
+
+export interface AuthorAbstractCounts {
+    total: number;
+    oral: number;
+    poster: number;
+}
+
+export interface SubmissionPolicyViolation {
+    status: 403 | 404 | 409;
+    code: string;
+    error: string;
+    details?: Record<string, unknown>;
+}
+
+export interface SubmissionPolicyState {
+    event: PolicyEvent;
+    override: AbstractSubmissionOverride | null;
+    counts: AuthorAbstractCounts;
+}
+
+/**
+ * Submission window of an event. Start/end dates are stored as midnight of
+ * the day (see events routes), so the end day itself is still open.
+ */
+export function getSubmissionWindow(event: PolicyEvent): { opensAt: Date | null; closesAt: Date | null } {
+    return {
+        opensAt: event.abstractStartDate,
+        closesAt: event.abstractEndDate ? new Date(event.abstractEndDate.getTime() + DAY_MS) : null,
+    };
+}
+
+/** Window check; an unexpired grace override wins over both ends of the window. */
+export function evaluateSubmissionWindow(
+    event: PolicyEvent,
+    override: Pick<AbstractSubmissionOverride, "graceUntil"> | null,
+    now: Date
+): SubmissionPolicyViolation | null {
+    if (override && override.graceUntil > now) return null;
+
+    const { opensAt, closesAt } = getSubmissionWindow(event);
+    if (opensAt && now < opensAt) {
+        return {
+            status: 403,
+            code: "ABSTRACT_SUBMISSION_NOT_OPEN",
+            error: "Abstract submission is not open yet",
+            details: { opensAt },
+        };
+    }
+    if (closesAt && now >= closesAt) {
+        return {
+            status: 403,
+            code: "ABSTRACT_SUBMISSION_CLOSED",
+            error: "Abstract submission is closed",
+            details: { closedAt: closesAt },
+        };
+    }
+    return null;
+}
+
+/** Per-author limits; counts exclude rejected abstracts. */
+export function evaluateSubmissionLimits(
+    event: PolicyEvent,
+    counts: AuthorAbstractCounts,
+    presentationType: "oral" | "poster"
+): SubmissionPolicyViolation | null {
+    if (event.maxAbstractsPerAuthor != null && counts.total >= event.maxAbstractsPerAuthor) {
+        return {
+            status: 409,
+            code: "ABSTRACT_LIMIT_REACHED",
+            error: `You can submit at most ${event.maxAbstractsPerAuthor} abstract(s) for this event`,
+            details: { limit: event.maxAbstractsPerAuthor, submitted: counts.total },
+        };
+    }
+
+    const typeLimit =
+        presentationType === "oral" ? event.maxOralAbstractsPerAuthor : event.maxPosterAbstractsPerAuthor;
+    if (typeLimit != null && counts[presentationType] >= typeLimit) {
+        return {
+            status: 409,
+            code: "ABSTRACT_TYPE_LIMIT_REACHED",
+            error: `You can submit at most ${typeLimit} ${presentationType} abstract(s) for this event`,
+            details: { presentationType, limit: typeLimit, submitted: counts[presentationType] },
+        };
+    }
+    return null;
+}
+
+/** The event's validation profile merged over the defaults; null if the event does not exist. */
+export async function loadAbstractValidationProfile(
+    eventId: number
+): Promise<ResolvedAbstractValidationProfile | null> {
+    const [event] = await db
+        .select({ profile: events.abstractValidationProfile })
+        .from(events)
+        .where(eq(events.id, eventId))
+        .limit(1);
+
+    return event ? resolveAbstractValidationProfile(event.profile) : null;
+}
+
+export async function loadSubmissionPolicyState(
+    userId: number,
+    eventId: number,
+    executor: DbExecutor = db
+): Promise<SubmissionPolicyState | null> {
+    const [event] = await executor
+        .select({
+            abstractStartDate: events.abstractStartDate,
+            abstractEndDate: events.abstractEndDate,
+            maxAbstractsPerAuthor: events.maxAbstractsPerAuthor,
+            maxOralAbstractsPerAuthor: events.maxOralAbstractsPerAuthor,
+            maxPosterAbstractsPerAuthor: events.maxPosterAbstractsPerAuthor,
+        })
+        .from(events)
+        .where(eq(events.id, eventId))
+        .limit(1);
+
+    if (!event) return null;
+
+    const [[override], [counts]] = await Promise.all([
+        executor
+            .select()
+            .from(abstractSubmissionOverrides)
+            .where(
+                and(
+                    eq(abstractSubmissionOverrides.eventId, eventId),
+                    eq(abstractSubmissionOverrides.userId, userId)
+                )
+            )
+            .limit(1),
+        executor
+            .select({
+                total: sql<number>`count(*)::int`,
+                oral: sql<number>`count(*) filter (where ${abstracts.presentationType} = 'oral')::int`,
+                poster: sql<number>`count(*) filter (where ${abstracts.presentationType} = 'poster')::int`,
+            })
+            .from(abstracts)
+            .where(
+                and(
+                    eq(abstracts.eventId, eventId),
+                    eq(abstracts.userId, userId),
+                    ne(abstracts.status, "rejected")
+                )
+            ),
+    ]);
+
+    return {
+        event,
+        override: override ?? null,
+        counts: {
+            total: Number(counts?.total ?? 0),
+            oral: Number(counts?.oral ?? 0),
+            poster: Number(counts?.poster ?? 0),
+        },
+    };
+}
+
+/**
+ * Serialise submissions of one author to one event until the transaction
+ * ends, so the limits checked inside it still hold when the abstract is inserted.
+ */
+export async function lockAuthorSubmissions(tx: DbExecutor, userId: number, eventId: number): Promise<void> {
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`abstract-submission:${eventId}:${userId}`}))`);
+}
+
+/**
+ * Everything the submit route must enforce before accepting a new abstract.
+ * To rely on the limits, call it with a transaction holding
+ * lockAuthorSubmissions and insert in that same transaction.
+ */
+export async function checkAbstractSubmissionPolicy(
+    userId: number,
+    eventId: number,
+    presentationType: "oral" | "poster",
+    now: Date = new Date(),
+    executor: DbExecutor = db
+): Promise<SubmissionPolicyViolation | null> {
+    const state = await loadSubmissionPolicyState(userId, eventId, executor);
+    if (!state) {
+        return { status: 404, code: "EVENT_NOT_FOUND", error: "Event not found" };
+    }
+
+    return (
+        evaluateSubmissionWindow(state.event, state.override, now) ??
+        evaluateSubmissionLimits(state.event, state.counts, presentationType)
+    );
+}
@@ -0,0 +1,123 @@
+import { db, type DbExecutor } from "../database/index.js";
+import {
+    abstracts,
+    abstractCoAuthors,
+    abstractVersions,
+    type AbstractVersion,
+} from "../database/schema.js";
+import { and, asc, eq } from "drizzle-orm";
+import { diffWords, hasChanges, type DiffSegment } from "../utils/textDiff.js";
+
+/** Content fields compared between versions (in display order). */
+export const ABSTRACT_VERSION_TEXT_FIELDS = [
+    "title",
+    "keywords",
+    "background",
+    "objective",
+    "methods",
+    "results",
+    "conclusion",
+] as const;
+
+type VersionTextField = (typeof ABSTRACT_VERSION_TEXT_FIELDS)[number];
+
+export interface AbstractVersionDiff {
+    from: number;
+    to: number;
+    fields: Record<VersionTextField, { changed: boolean; segments: DiffSegment[] }>;
+    coAuthors: {
+        changed: boolean;
+        added: string[];
+        removed: string[];
+    };
+    fullPaperChanged: boolean;
+}
+
+/**
+ * Store the abstract's current content as `abstract_versions` row `version`.
+ * Must be called inside the transaction that wrote the content.
+ */
+export async function snapshotAbstractVersion(
+    tx: DbExecutor,
+    abstractId: number,
+    version: number
+): Promise<AbstractVersion> {
+    const [abstract] = await tx.select().from(abstracts).where(eq(abstracts.id, abstractId)).limit(1);
+    if (!abstract) throw new Error("ABSTRACT_NOT_FOUND");
+
+    const coAuthors = await tx
+        .select()
+        .from(abstractCoAuthors)
+        .where(eq(abstractCoAuthors.abstractId, abstractId))
+        .orderBy(asc(abstractCoAuthors.sortOrder));
+
+    const [snapshot] = await tx
+        .insert(abstractVersions)
+        .values({
+            abstractId,
+            version,
+            title: abstract.title,
+            category: abstract.category,
+            presentationType: abstract.presentationType,
+            keywords: abstract.keywords,
+            background: abstract.background,
+            objective: abstract.objective,
+            methods: abstract.methods,
+            results: abstract.results,
+            conclusion: abstract.conclusion,
+            fullPaperUrl: abstract.fullPaperUrl,
+            coAuthors: coAuthors.map((c) => ({
+                firstName: c.firstName,
+                middleName: c.middleName,
+                lastName: c.lastName,
+                email: c.email,
+                institution: c.institution,
+                country: c.country,
+            })),
+        })
+        .returning();
+    return snapshot;
+}
+
+export async function getAbstractVersions(abstractId: number): Promise<AbstractVersion[]> {
+    return db
+        .select()
+        .from(abstractVersions)
+        .where(eq(abstractVersions.abstractId, abstractId))
+        .orderBy(asc(abstractVersions.version));
+}
+
+export async function getAbstractVersion(abstractId: number, version: number): Promise<AbstractVersion | null> {
+    const [row] = await db
+        .select()
+        .from(abstractVersions)
+        .where(and(eq(abstractVersions.abstractId, abstractId), eq(abstractVersions.version, version)))
+        .limit(1);
+    return row ?? null;
+}
+
+function coAuthorLabel(c: { firstName: string; lastName: string; email: string }): string {
+    return `${c.firstName} ${c.lastName} <${c.email}>`;
+}
+
+/** Field-by-field word diff between two stored versions. */
+export function diffAbstractVersions(from: AbstractVersion, to: AbstractVersion): AbstractVersionDiff {
+    const fields = {} as AbstractVersionDiff["fields"];
+    for (const field of ABSTRACT_VERSION_TEXT_FIELDS) {
+        const segments = diffWords(from[field], to[field]);
+        fields[field] = { changed: hasChanges(segments), segments };
+    }
+
+    const before = new Set((from.coAuthors ?? []).map(coAuthorLabel));
+    const after = new Set((to.coAuthors ?? []).map(coAuthorLabel));
+    const added = [...after].filter((label) => !before.has(label));
+    const removed = [...before].filter((label) => !after.has(label));
+
+    return {
+        from: from.version,
+        to: to.version,
+        fields,
+        coAuthors: { changed: added.length > 0 || removed.length > 0, added, removed },
+        fullPaperChanged: (from.fullPaperUrl ?? null) !== (to.fullPaperUrl ?? null),
+    };
+}
@@ -0,0 +1,330 @@
+import crypto from "crypto";
+import type { FastifyInstance, FastifyRequest } from "fastify";
+import { db } from "../database/index.js";
+import {
+    authSessions,
+    backofficeUsers,
+    memberImpersonations,
+    users,
+    type AuthSession,
+} from "../database/schema.js";
+import { and, desc, eq, gt, isNull, ne } from "drizzle-orm";
+import { JWT_EXPIRY, SESSION_EXPIRY_MS, TOKEN_AUDIENCE, type TokenAudience } from "../constants/auth.js";
+import type { ImpersonatedBy } from "../types/index.js";
+
+export type SessionOwner = { userId: number } | { staffId: number };
+
+export type SessionRevokeReason =
+    | "logout"
+    | "logout_all"
+    | "revoked"
+    | "password_reset"
+    | "password_changed"
+    | "role_changed"
+    | "deactivated"
+    | "refresh_token_reused"
+    | "two_factor_reset"
+    | "impersonation_ended";
+
+export interface SessionTokens {
+    token: string;
+    refreshToken: string;
+    refreshTokenExpiresAt: Date;
+}
+
+interface AccessClaims {
+    id: number;
+    email: string;
+    role: string;
+    assignedCategories?: string[];
+    assignedPresentationTypes?: string[];
+    impersonatedBy?: ImpersonatedBy;
+}
+
+function hashRefreshToken(refreshToken: string): string {
+    return crypto.createHash("sha256").update(refreshToken).digest("hex");
+}
+
+function generateRefreshToken(): string {
+    return crypto.randomBytes(32).toString("base64url");
+}
+
+function ownerCondition(owner: SessionOwner) {
+    return "userId" in owner
+        ? eq(authSessions.userId, owner.userId)
+        : eq(authSessions.staffId, owner.staffId);
+}
+
+function activeCondition() {
+    return and(isNull(authSessions.revokedAt), gt(authSessions.expiresAt, new Date()));
+}
+
+function signAccessToken(fastify: FastifyInstance, audience: TokenAudience, sessionId: number, claims: AccessClaims) {
+    return fastify.jwt.sign({ ...claims, sid: sessionId }, { expiresIn: JWT_EXPIRY, aud: audience });
+}
+
+/** Refresh token lifetime from now, cut short at the end of an impersonation */
+function sessionExpiry(impersonatedBy?: ImpersonatedBy): Date {
+    const expiresAt = new Date(Date.now() + SESSION_EXPIRY_MS);
+    if (!impersonatedBy) return expiresAt;
+    const impersonationEnd = new Date(impersonatedBy.expiresAt);
+    return impersonationEnd < expiresAt ? impersonationEnd : expiresAt;
+}
+
+/** Claim for a running impersonation, or null once it has ended or run out */
+export async function getImpersonatedBy(impersonationId: number): Promise<ImpersonatedBy | null> {
+    const [row] = await db
+        .select({
+            id: memberImpersonations.id,
+            staffId: memberImpersonations.staffId,
+            staffEmail: memberImpersonations.staffEmail,
+            firstName: backofficeUsers.firstName,
+            lastName: backofficeUsers.lastName,
+            expiresAt: memberImpersonations.expiresAt,
+        })
+        .from(memberImpersonations)
+        .leftJoin(backofficeUsers, eq(memberImpersonations.staffId, backofficeUsers.id))
+        .where(
+            and(
+                eq(memberImpersonations.id, impersonationId),
+                isNull(memberImpersonations.endedAt),
+                gt(memberImpersonations.expiresAt, new Date())
+            )
+        )
+        .limit(1);
+    if (!row || !row.staffId) return null;
+    return {
+        impersonationId: row.id,
+        staffId: row.staffId,
+        staffEmail: row.staffEmail,
+        staffName: [row.firstName, row.lastName].filter(Boolean).join(" ") || row.staffEmail,
+        expiresAt: row.expiresAt.toISOString(),
+    };
+}
+
+/**
+ * Current token claims of the session's account, or null when the account
+ * can no longer use it (attendee rejected, staff deactivated, or deleted).
+ */
+async function loadAccessClaims(session: AuthSession): Promise<AccessClaims | null> {
+    if (session.audience === TOKEN_AUDIENCE.backoffice && session.staffId) {
+        const [staff] = await db
+            .select({
+                id: backofficeUsers.id,
+                email: backofficeUsers.email,
+                role: backofficeUsers.role,
+                isActive: backofficeUsers.isActive,
+                assignedCategories: backofficeUsers.assignedCategories,
+                assignedPresentationTypes: backofficeUsers.assignedPresentationTypes,
+            })
+            .from(backofficeUsers)
+            .where(eq(backofficeUsers.id, session.staffId))
+            .limit(1);
+        if (!staff || !staff.isActive) return null;
+        return {
+            id: staff.id,
+            email: staff.email,
+            role: staff.role,
+            assignedCategories: staff.assignedCategories || [],
+            assignedPresentationTypes: staff.assignedPresentationTypes || [],
+        };
+    }
+
+    if (session.audience === TOKEN_AUDIENCE.attendee && session.userId) {
+        const [user] = await db
+            .select({ id: users.id, email: users.email, role: users.role, status: users.status })
+            .from(users)
+            .where(eq(users.id, session.userId))
+            .limit(1);
+        // Pending accounts keep the session they got at registration
+        if (!user || user.status === "rejected") return null;
+        if (session.impersonationId) {
+            const impersonatedBy = await getImpersonatedBy(session.impersonationId);
+            if (!impersonatedBy) return null;
+            return { id: user.id, email: user.email, role: user.role, impersonatedBy };
+        }
+        return { id: user.id, email: user.email, role: user.role };
+    }
+
+    return null;
+}
+
+/** Start a session at login and issue its first access / refresh token pair */
+export async function startSession(
+    fastify: FastifyInstance,
+    request: FastifyRequest,
+    audience: TokenAudience,
+    claims: AccessClaims
+): Promise<SessionTokens> {
+    const refreshToken = generateRefreshToken();
+    const refreshTokenExpiresAt = sessionExpiry(claims.impersonatedBy);
+
+    const [session] = await db
+        .insert(authSessions)
+        .values({
+            audience,
+            userId: audience === TOKEN_AUDIENCE.attendee ? claims.id : null,
+            staffId: audience === TOKEN_AUDIENCE.backoffice ? claims.id : null,
+            impersonationId: claims.impersonatedBy?.impersonationId ?? null,
+            refreshTokenHash: hashRefreshToken(refreshToken),
+            userAgent: request.headers["user-agent"]?.slice(0, 500) ?? null,
+            ipAddress: request.ip,
+            expiresAt: refreshTokenExpiresAt,
+        })
+        .returning({ id: authSessions.id });
+
+    return {
+        token: signAccessToken(fastify, audience, session.id, claims),
+        refreshToken,
+        refreshTokenExpiresAt,
+    };
+}
+
+/**
+ * Exchange a refresh token for a new pair. The refresh token rotates on every
+ * use; presenting the one just replaced means it was copied, so the session
+ * is revoked.
+ */
+export async function refreshSession(
+    fastify: FastifyInstance,
+    audience: TokenAudience,
+    refreshToken: string
+): Promise<SessionTokens> {
+    const presentedHash = hashRefreshToken(refreshToken);
+
+    const [session] = await db
+        .select()
+        .from(authSessions)
+        .where(eq(authSessions.refreshTokenHash, presentedHash))
+        .limit(1);
+
+    if (!session) {
+        const [replaced] = await db
+            .select({ id: authSessions.id, revokedAt: authSessions.revokedAt })
+            .from(authSessions)
+            .where(eq(authSessions.previousRefreshTokenHash, presentedHash))
+            .limit(1);
+        if (replaced && !replaced.revokedAt) {
+            await revokeSession(replaced.id, "refresh_token_reused");
+            throw new Error("REFRESH_TOKEN_REUSED");
+        }
+        throw new Error("REFRESH_TOKEN_INVALID");
+    }
+
+    if (session.audience !== audience || session.revokedAt) throw new Error("REFRESH_TOKEN_INVALID");
+    if (session.expiresAt <= new Date()) throw new Error("SESSION_EXPIRED");
+
+    const claims = await loadAccessClaims(session);
+    if (!claims) {
+        if (session.impersonationId) {
+            await revokeSession(session.id, "impersonation_ended");
+            throw new Error("SESSION_EXPIRED");
+        }
+        await revokeSession(session.id, "deactivated");
+        throw new Error("ACCOUNT_INACTIVE");
+    }
+
+    const nextRefreshToken = generateRefreshToken();
+    const refreshTokenExpiresAt = sessionExpiry(claims.impersonatedBy);
+
+    // Matching on the presented hash makes two concurrent refreshes race for one rotation
+    const [rotated] = await db
+        .update(authSessions)
+        .set({
+            refreshTokenHash: hashRefreshToken(nextRefreshToken),
+            previousRefreshTokenHash: presentedHash,
+            expiresAt: refreshTokenExpiresAt,
+            lastUsedAt: new Date(),
+        })
+        .where(and(eq(authSessions.id, session.id), eq(authSessions.refreshTokenHash, presentedHash)))
+        .returning({ id: authSessions.id });
+    if (!rotated) throw new Error("REFRESH_TOKEN_INVALID");
+
+    return {
+        token: signAccessToken(fastify, audience, session.id, claims),
+        refreshToken: nextRefreshToken,
+        refreshTokenExpiresAt,
+    };
+}
+
+/** Whether an access token's session is still usable (checked on every request) */
+export async function isSessionActive(sessionId: number | undefined, audience: TokenAudience): Promise<boolean> {
+    if (!sessionId) return false;
+    const [session] = await db
+        .select({ id: authSessions.id })
+        .from(authSessions)
+        .where(and(eq(authSessions.id, sessionId), eq(authSessions.audience, audience), activeCondition()))
+        .limit(1);
+    return !!session;
+}
+
+/**
+ * Revoke one session. With `owner`, only a session belonging to that account
+ * is revoked. Returns false when nothing active matched.
+ */
+export async function revokeSession(
+    sessionId: number,
+    reason: SessionRevokeReason,
+    owner?: SessionOwner
+): Promise<boolean> {
+    const revoked = await db
+        .update(authSessions)
+        .set({ revokedAt: new Date(), revokedReason: reason })
+        .where(
+            and(
+                eq(authSessions.id, sessionId),
+                isNull(authSessions.revokedAt),
+                owner ? ownerCondition(owner) : undefined
+            )
+        )
+        .returning({ id: authSessions.id });
+    return revoked.length > 0;
+}
+
+/** Revoke every active session of an account, optionally keeping the current one */
+export async function revokeAllSessions(
+    owner: SessionOwner,
+    reason: SessionRevokeReason,
+    exceptSessionId?: number
+): Promise<number> {
+    const revoked = await db
+        .update(authSessions)
+        .set({ revokedAt: new Date(), revokedReason: reason })
+        .where(
+            and(
+                ownerCondition(owner),
+                isNull(authSessions.revokedAt),
+                exceptSessionId ? ne(authSessions.id, exceptSessionId) : undefined
+            )
+        )
+        .returning({ id: authSessions.id });
+    return revoked.length;
+}
+
+/** Sign out the attendee session(s) opened through an impersonation */
+export async function revokeImpersonationSessions(impersonationId: number): Promise<number> {
+    const revoked = await db
+        .update(authSessions)
+        .set({ revokedAt: new Date(), revokedReason: "impersonation_ended" })
+        .where(and(eq(authSessions.impersonationId, impersonationId), isNull(authSessions.revokedAt)))
+        .returning({ id: authSessions.id });
+    return revoked.length;
+}
+
+/** Active sessions of an account, most recently used first */
+export async function listActiveSessions(owner: SessionOwner, currentSessionId?: number) {
+    const rows = await db
+        .select({
+            id: authSessions.id,
+            userAgent: authSessions.userAgent,
+            ipAddress: authSessions.ipAddress,
+            createdAt: authSessions.createdAt,
+            lastUsedAt: authSessions.lastUsedAt,
+            expiresAt: authSessions.expiresAt,
+        })
+        .from(authSessions)
+        .where(and(ownerCondition(owner), activeCondition()))
+        .orderBy(desc(authSessions.lastUsedAt));
+
+    return rows.map((row) => ({ ...row, current: row.id === currentSessionId }));
+}
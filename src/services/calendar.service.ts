@@ -0,0 +1,241 @@
+import { db } from "../database/index.js";
+import { abstracts, events, registrations, registrationSessions, sessions } from "../database/schema.js";
+import { and, asc, eq } from "drizzle-orm";
+import type { EmailAttachment } from "./emailService.js";
+import {
+    filterProgrammeItems,
+    loadProgrammeItems,
+    POSTER_ROOM_LABEL,
+    type ProgrammeFilters,
+    type ProgrammeItem,
+} from "./programme.service.js";
+import { buildAbstractScheduleResponse } from "../utils/abstractSchedule.js";
+import { bangkokDateTime, buildIcsCalendar, type IcsEvent } from "../utils/ics.js";
+
+const UID_DOMAIN = (() => {
+    try {
+        return new URL(process.env.BASE_URL || "https://accp2026.com").hostname;
+    } catch {
+        return "accp2026.com";
+    }
+})();
+
+type CalendarEvent = { id: number; eventName: string; location: string | null };
+
+export const calendarUid = (kind: string, id: number | string) => `${kind}-${id}@${UID_DOMAIN}`;
+
+export function toCalendarAttachment(ics: string, fileName: string): EmailAttachment {
+    return { content: Buffer.from(ics, "utf8"), fileName };
+}
+
+/** Slot of a programme item; items without a date and start/end time cannot go in a calendar. */
+function programmeItemToIcsEvent(item: ProgrammeItem, event: CalendarEvent): IcsEvent | null {
+    if (!item.date || !item.startTime || !item.endTime) return null;
+    const start = bangkokDateTime(item.date, item.startTime);
+    const end = bangkokDateTime(item.date, item.endTime);
+    if (!start || !end) return null;
+
+    if (item.type === "session") {
+        const speakerNames = item.speakers.map((s) => s.name).filter(Boolean);
+        return {
+            uid: calendarUid("session", item.id),
+            summary: item.title,
+            start,
+            end,
+            room: item.room,
+            location: event.location,
+            description: [
+                item.description,
+                speakerNames.length > 0 ? `Speakers: ${speakerNames.join(", ")}` : null,
+            ]
+                .filter(Boolean)
+                .join("\n\n"),
+            categories: item.track ? [item.track] : undefined,
+        };
+    }
+
+    const room = item.type === "poster" && item.boardNumber
+        ? `${POSTER_ROOM_LABEL} – Board #${item.boardNumber}`
+        : item.room;
+    return {
+        uid: calendarUid("abstract", item.id),
+        summary: `${item.trackingId ? `${item.trackingId} ` : ""}${item.title}`,
+        start,
+        end,
+        room,
+        location: event.location,
+        description: [
+            `${item.type === "oral" ? "Oral" : "Poster"} presentation`,
+            item.presenterName ? `Presenter: ${item.presenterName}` : null,
+        ]
+            .filter(Boolean)
+            .join("\n"),
+        categories: item.track ? [item.track] : undefined,
+    };
+}
+
+/** Full (optionally filtered) programme of an event. */
+export async function buildProgrammeCalendar(event: CalendarEvent, filters: ProgrammeFilters = {}): Promise<string> {
+    const { items } = await loadProgrammeItems(event.id);
+    const icsEvents = filterProgrammeItems(items, filters)
+        .map((item) => programmeItemToIcsEvent(item, event))
+        .filter((e): e is IcsEvent => e !== null);
+
+    return buildIcsCalendar(`${event.eventName} – Programme`, icsEvents);
+}
+
+/**
+ * Sessions a registrant has access to (registration_sessions of confirmed
+ * registrations), either for one registration or all of a user's.
+ */
+export async function buildRegisteredSessionsCalendar(
+    filter: { registrationId: number } | { userId: number; eventId?: number }
+): Promise<{ ics: string; count: number }> {
+    const conditions = [eq(registrations.status, "confirmed"), eq(sessions.isActive, true)];
+    if ("registrationId" in filter) {
+        conditions.push(eq(registrations.id, filter.registrationId));
+    } else {
+        conditions.push(eq(registrations.userId, filter.userId));
+        if (filter.eventId) conditions.push(eq(registrations.eventId, filter.eventId));
+    }
+
+    const rows = await db
+        .select({
+            sessionId: sessions.id,
+            sessionName: sessions.sessionName,
+            sessionType: sessions.sessionType,
+            description: sessions.description,
+            room: sessions.room,
+            startTime: sessions.startTime,
+            endTime: sessions.endTime,
+            eventName: events.eventName,
+            location: events.location,
+        })
+        .from(registrationSessions)
+        .innerJoin(registrations, eq(registrationSessions.registrationId, registrations.id))
+        .innerJoin(sessions, eq(registrationSessions.sessionId, sessions.id))
+        .innerJoin(events, eq(sessions.eventId, events.id))
+        .where(and(...conditions))
+        .orderBy(asc(sessions.startTime));
+
+    // A user may hold the same session through several registrations
+    const seen = new Set<number>();
+    const icsEvents: IcsEvent[] = [];
+    for (const row of rows) {
+        if (seen.has(row.sessionId)) continue;
+        seen.add(row.sessionId);
+        icsEvents.push({
+            uid: calendarUid("session", row.sessionId),
+            summary: row.sessionName,
+            start: row.startTime,
+            end: row.endTime,
+            room: row.room?.trim() || null,
+            location: row.location,
+            description: row.description,
+            categories: row.sessionType ? [row.sessionType] : undefined,
+        });
+    }
+
+    const calendarName = rows.length > 0 ? `${rows[0].eventName} – My Sessions` : "My Sessions";
+    return { ics: buildIcsCalendar(calendarName, icsEvents), count: icsEvents.length };
+}
+
+type PresenterSlotRow = Parameters<typeof buildAbstractScheduleResponse>[0] & {
+    id: number;
+    trackingId: string | null;
+    title: string;
+};
+
+/**
+ * VEVENTs of a presenter's own slot: the oral talk, or the poster session
+ * plus installation / removal windows on the presentation day.
+ */
+export function buildPresenterSlotEvents(row: PresenterSlotRow, venue: string | null): IcsEvent[] {
+    const schedule = buildAbstractScheduleResponse(row);
+    if (!schedule?.date) return [];
+
+    const label = row.trackingId ?? `#${row.id}`;
+    const isOral = row.presentationType === "oral";
+    const room = isOral
+        ? schedule.room
+        : schedule.boardNumber
+          ? `${POSTER_ROOM_LABEL} – Board #${schedule.boardNumber}`
+          : POSTER_ROOM_LABEL;
+
+    const windows: { kind: string; title: string; range: { start: string; end: string } | null }[] = [
+        { kind: "presentation", title: `${isOral ? "Oral" : "Poster"} presentation ${label}: ${row.title}`, range: schedule.presentation },
+        { kind: "installation", title: `Poster installation ${label}`, range: schedule.installation },
+        { kind: "removal", title: `Poster removal ${label}`, range: schedule.removal },
+    ];
+
+    const icsEvents: IcsEvent[] = [];
+    for (const window of windows) {
+        if (!window.range) continue;
+        const start = bangkokDateTime(schedule.date, window.range.start);
+        const end = bangkokDateTime(schedule.date, window.range.end);
+        if (!start || !end) continue;
+        icsEvents.push({
+            uid: calendarUid(`abstract-${window.kind}`, row.id),
+            summary: window.title,
+            start,
+            end,
+            room,
+            location: venue,
+        });
+    }
+    return icsEvents;
+}
+
+/** Calendar of one abstract's slot; null if the abstract does not exist. */
+export async function buildPresenterSlotCalendar(
+    abstractId: number
+): Promise<{ ics: string; count: number; userId: number | null } | null> {
+    const [row] = await db
+        .select({
+            id: abstracts.id,
+            userId: abstracts.userId,
+            trackingId: abstracts.trackingId,
+            title: abstracts.title,
+            status: abstracts.status,
+            presentationType: abstracts.presentationType,
+            presentationDate: abstracts.presentationDate,
+            presentationRoom: abstracts.presentationRoom,
+            presentationStartTime: abstracts.presentationStartTime,
+            presentationEndTime: abstracts.presentationEndTime,
+            posterBoardNumber: abstracts.posterBoardNumber,
+            posterInstallationStart: abstracts.posterInstallationStart,
+            posterInstallationEnd: abstracts.posterInstallationEnd,
+            posterRemovalStart: abstracts.posterRemovalStart,
+            posterRemovalEnd: abstracts.posterRemovalEnd,
+            eventName: events.eventName,
+            location: events.location,
+        })
+        .from(abstracts)
+        .innerJoin(events, eq(abstracts.eventId, events.id))
+        .where(eq(abstracts.id, abstractId))
+        .limit(1);
+
+    if (!row) return null;
+
+    const icsEvents = row.status === "accepted" ? buildPresenterSlotEvents(row, row.location) : [];
+    return {
+        ics: buildIcsCalendar(`${row.eventName} – ${row.trackingId ?? "My Presentation"}`, icsEvents),
+        count: icsEvents.length,
+        userId: row.userId,
+    };
+}
+
+/** Presenter-slot .ics for the schedule email; undefined when there is nothing to put in a calendar. */
+export async function buildPresenterSlotAttachment(abstractId: number): Promise<EmailAttachment | undefined> {
+    const calendar = await buildPresenterSlotCalendar(abstractId);
+    if (!calendar || calendar.count === 0) return undefined;
+    return toCalendarAttachment(calendar.ics, "presentation-slot.ics");
+}
+
+/** Registered-sessions .ics for the registration confirmation email. */
+export async function buildRegistrationCalendarAttachment(
+    registrationId: number
+): Promise<EmailAttachment | undefined> {
+    const { ics, count } = await buildRegisteredSessionsCalendar({ registrationId });
+    return count > 0 ? toCalendarAttachment(ics, "my-sessions.ics") : undefined;
+}
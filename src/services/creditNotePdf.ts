@@ -0,0 +1,251 @@
+import PDFDocument from "pdfkit";
+import path from "path";
+import {
+  taxBranchLabel,
+  taxMarkingLabel,
+  type TaxDocumentMarking,
+  type TaxSellerInfo,
+} from "./taxInvoicePdf.js";
+
+export interface CreditNoteItem {
+  name: string;
+  price: number;
+  quantity: number;
+}
+
+export interface CreditNoteData {
+  creditNoteNumber: string;
+  orderNumber: string;
+  issuedAt: Date;
+  marking: TaxDocumentMarking;
+  /** Printed when TAX_SELLER_* is configured */
+  seller: TaxSellerInfo | null;
+  /** Tax invoice this credit note adjusts; null when the order never had one */
+  originalInvoice: { documentNumber: string; issuedAt: Date; total: number } | null;
+  currency: string;
+  /** Items whose access was withdrawn by this refund (may be empty for a goodwill refund) */
+  items: CreditNoteItem[];
+  originalTotal: number;
+  refundAmount: number;
+  /** VAT split of refundAmount (prices are VAT inclusive) */
+  refundBeforeVat: number;
+  vatRate: number;
+  refundVat: number;
+  /** Refunded by earlier credit notes of the same order */
+  previouslyRefunded: number;
+  reason: string;
+  refundMethod: string;
+  customerName: string;
+  customerEmail: string;
+  taxName?: string | null;
+  taxId?: string | null;
+  taxFullAddress?: string | null;
+  taxBranchCode?: string | null;
+}
+
+function fmtMoney(amount: number, currency: string): string {
+  const sym = currency === "THB" ? "THB " : "USD ";
+  return `${sym}${amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function fmtDate(d: Date): string {
+  return d.toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric", timeZone: "Asia/Bangkok" });
+}
+
+/**
+ * Render a credit note for a refund via PDFKit (same look as the payment receipt).
+ * Returns the whole file — credit notes are small and only ever emailed.
+ */
+export async function generateCreditNotePdf(data: CreditNoteData): Promise<Buffer> {
+  const doc = new PDFDocument({
+    size: "A4",
+    margin: 0,
+    info: {
+      Title: `ACCP 2026 Credit Note - ${data.creditNoteNumber}`,
+      Author: "ACCP 2026 Conference",
+    },
+  });
+
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const fontDir = path.join(process.cwd(), "public", "Font", "sarabun");
+  doc.registerFont("Sarabun", path.join(fontDir, "Sarabun-Regular.ttf"));
+  doc.registerFont("Sarabun-Bold", path.join(fontDir, "Sarabun-Bold.ttf"));
+
+  const PAGE_W = doc.page.width;
+  const PAGE_H = doc.page.height;
+  const MARGIN_X = 48;
+  const CONTENT_W = PAGE_W - MARGIN_X * 2;
+  const C_BLACK = "#000000";
+  const C_BODY = "#333333";
+  const C_MUTED = "#555555";
+  const C_FOOTER = "#666666";
+  const C_BORDER_LIGHT = "#cccccc";
+  const C_BORDER_FAINT = "#eeeeee";
+
+  // ── Original / copy marking (top right) ───────────────────────────────
+  const markW = 130;
+  doc.strokeColor(C_BLACK).lineWidth(1);
+  doc.rect(MARGIN_X + CONTENT_W - markW, 24, markW, 22).stroke();
+  doc.font("Sarabun-Bold").fontSize(10).fillColor(C_BLACK);
+  doc.text(taxMarkingLabel(data.marking), MARGIN_X + CONTENT_W - markW, 29, { width: markW, align: "center" });
+
+  let y = 40;
+
+  // ── Header ────────────────────────────────────────────────────────────
+  doc.font("Sarabun-Bold").fontSize(22).fillColor(C_BLACK);
+  doc.text("ACCP 2026", MARGIN_X, y, { width: CONTENT_W, align: "center" });
+  y = doc.y + 4;
+  doc.font("Sarabun").fontSize(16).fillColor(C_BLACK);
+  doc.text("25th Asian Conference on Clinical Pharmacy", MARGIN_X, y, { width: CONTENT_W, align: "center" });
+  y = doc.y + 4;
+  doc.font("Sarabun").fontSize(10).fillColor(C_BODY);
+  doc.text("July 9-11, 2026 | Centara Grand, Bangkok, Thailand", MARGIN_X, y, { width: CONTENT_W, align: "center" });
+  y = doc.y + 22;
+
+  doc.font("Sarabun-Bold").fontSize(13).fillColor(C_BLACK);
+  doc.text("CREDIT NOTE", MARGIN_X, y, { width: CONTENT_W, align: "center", characterSpacing: 1 });
+  y = doc.y + 2;
+  doc.font("Sarabun-Bold").fontSize(12).fillColor(C_BLACK);
+  doc.text("ใบลดหนี้", MARGIN_X, y, { width: CONTENT_W, align: "center" });
+  y = doc.y + 18;
+
+  // ── Information grid ──────────────────────────────────────────────────
+  const colGap = 20;
+  const colW = (CONTENT_W - colGap) / 2;
+  const leftX = MARGIN_X;
+  const rightX = MARGIN_X + colW + colGap;
+
+  const drawLabel = (text: string, x: number, yy: number) => {
+    doc.font("Sarabun-Bold").fontSize(10).fillColor(C_BLACK);
+    doc.text(text, x, yy, { width: colW });
+    return doc.y;
+  };
+  const drawValue = (text: string, x: number, yy: number) => {
+    doc.font("Sarabun").fontSize(10).fillColor(C_MUTED);
+    doc.text(text, x, yy, { width: colW });
+    return doc.y;
+  };
+
+  let leftY = y;
+  if (data.seller) {
+    leftY = drawLabel("SELLER / ผู้ขาย", leftX, leftY) + 3;
+    leftY = drawValue(data.seller.name, leftX, leftY);
+    leftY = drawValue(data.seller.address, leftX, leftY);
+    leftY = drawValue(`Tax ID: ${data.seller.taxId}`, leftX, leftY);
+    leftY = drawValue(taxBranchLabel(data.seller.branchCode), leftX, leftY) + 15;
+  }
+  leftY = drawLabel("CUSTOMER / ผู้ซื้อ", leftX, leftY) + 3;
+  leftY = drawValue(data.taxName || data.customerName, leftX, leftY);
+  if (data.taxFullAddress) leftY = drawValue(data.taxFullAddress, leftX, leftY);
+  if (data.taxId) leftY = drawValue(`Tax ID: ${data.taxId}`, leftX, leftY);
+  if (data.taxId) leftY = drawValue(taxBranchLabel(data.taxBranchCode), leftX, leftY);
+  leftY = drawValue(data.customerEmail, leftX, leftY);
+
+  let rightY = y;
+  rightY = drawLabel("CREDIT NOTE NUMBER / เลขที่", rightX, rightY) + 3;
+  rightY = drawValue(data.creditNoteNumber, rightX, rightY) + 15;
+  rightY = drawLabel("DATE ISSUED / วันที่", rightX, rightY) + 3;
+  rightY = drawValue(fmtDate(data.issuedAt), rightX, rightY) + 15;
+  if (data.originalInvoice) {
+    rightY = drawLabel("ORIGINAL TAX INVOICE / อ้างอิงใบกำกับภาษี", rightX, rightY) + 3;
+    rightY = drawValue(`${data.originalInvoice.documentNumber} dated ${fmtDate(data.originalInvoice.issuedAt)}`, rightX, rightY) + 15;
+  }
+  rightY = drawLabel("ORIGINAL ORDER", rightX, rightY) + 3;
+  rightY = drawValue(data.orderNumber, rightX, rightY) + 15;
+  rightY = drawLabel("REFUND METHOD", rightX, rightY) + 3;
+  rightY = drawValue(data.refundMethod, rightX, rightY);
+
+  y = Math.max(leftY, rightY) + 30;
+
+  // ── Cancelled items ───────────────────────────────────────────────────
+  if (data.items.length > 0) {
+    const descW = CONTENT_W * 0.6;
+    const qtyX = MARGIN_X + descW;
+    const qtyW = CONTENT_W * 0.15;
+    const amountX = qtyX + qtyW;
+    const amountW = CONTENT_W * 0.25;
+
+    doc.font("Sarabun-Bold").fontSize(10).fillColor(C_BLACK);
+    doc.text("CANCELLED ITEM", MARGIN_X, y, { width: descW });
+    doc.text("QTY", qtyX, y, { width: qtyW, align: "center" });
+    doc.text("AMOUNT", amountX, y, { width: amountW, align: "right" });
+    y = doc.y + 7;
+    doc.strokeColor(C_BLACK).lineWidth(1.5);
+    doc.moveTo(MARGIN_X, y).lineTo(MARGIN_X + CONTENT_W, y).stroke();
+    y += 10;
+
+    doc.font("Sarabun").fontSize(10).fillColor(C_BLACK);
+    for (const item of data.items) {
+      const rowY = y;
+      doc.text(item.name, MARGIN_X, rowY, { width: descW - 5 });
+      const descEndY = doc.y;
+      doc.text(String(item.quantity), qtyX, rowY, { width: qtyW, align: "center" });
+      doc.text(fmtMoney(item.price * item.quantity, data.currency), amountX, rowY, { width: amountW, align: "right" });
+      y = descEndY + 12;
+    }
+
+    doc.strokeColor(C_BORDER_LIGHT).lineWidth(0.5);
+    doc.moveTo(MARGIN_X, y).lineTo(MARGIN_X + CONTENT_W, y).stroke();
+    y += 15;
+  }
+
+  // ── Totals ────────────────────────────────────────────────────────────
+  const labelW = CONTENT_W * 0.7;
+  const valueX = MARGIN_X + labelW;
+  const valueW = CONTENT_W * 0.3;
+  const printRow = (label: string, value: string, isTotal = false) => {
+    doc.font(isTotal ? "Sarabun-Bold" : "Sarabun").fontSize(isTotal ? 12 : 10).fillColor(C_BLACK);
+    const rowY = y;
+    doc.text(label, MARGIN_X, rowY, { width: labelW, align: "right" });
+    doc.text(value, valueX, rowY, { width: valueW, align: "right" });
+    y = doc.y + (isTotal ? 7 : 4);
+  };
+
+  printRow(
+    data.originalInvoice ? "Value on Original Tax Invoice" : "Original Amount Paid",
+    fmtMoney(data.originalInvoice?.total ?? data.originalTotal, data.currency),
+  );
+  if (data.previouslyRefunded > 0) {
+    printRow("Previously Credited", `-${fmtMoney(data.previouslyRefunded, data.currency)}`);
+  }
+  printRow("Credited Amount before VAT / มูลค่าที่ลดก่อนภาษี", fmtMoney(data.refundBeforeVat, data.currency));
+  printRow(`VAT ${data.vatRate}% / ภาษีมูลค่าเพิ่ม`, fmtMoney(data.refundVat, data.currency));
+  y += 4;
+  doc.strokeColor(C_BLACK).lineWidth(1);
+  doc.moveTo(valueX, y).lineTo(MARGIN_X + CONTENT_W, y).stroke();
+  y += 8;
+  printRow("Amount Refunded / รวมยอดลดหนี้", fmtMoney(data.refundAmount, data.currency), true);
+
+  y += 16;
+  doc.font("Sarabun-Bold").fontSize(10).fillColor(C_BLACK);
+  doc.text("REASON", MARGIN_X, y, { width: CONTENT_W });
+  doc.font("Sarabun").fontSize(10).fillColor(C_MUTED);
+  doc.text(data.reason, MARGIN_X, doc.y + 3, { width: CONTENT_W });
+
+  // ── Footer ────────────────────────────────────────────────────────────
+  const footerY = PAGE_H - 70;
+  doc.strokeColor(C_BORDER_FAINT).lineWidth(0.5);
+  doc.moveTo(MARGIN_X, footerY).lineTo(MARGIN_X + CONTENT_W, footerY).stroke();
+  doc.font("Sarabun").fontSize(9).fillColor(C_FOOTER);
+  doc.text("This credit note was generated by the ACCP 2026 Conference System.", MARGIN_X, footerY + 12, {
+    width: CONTENT_W,
+    align: "center",
+  });
+  doc.text("For questions, contact accpbangkok2026@gmail.com", MARGIN_X, doc.y + 2, {
+    width: CONTENT_W,
+    align: "center",
+  });
+  doc.text("25th Asian Conference on Clinical Pharmacy | Bangkok, Thailand", MARGIN_X, doc.y + 2, {
+    width: CONTENT_W,
+    align: "center",
+  });
+
+  doc.end();
+  return done;
+}
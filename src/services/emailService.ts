@@ -19,6 +19,8 @@ export function formatPaymentChannelLabel(channel: string): string {
       return "PromptPay (QR)";
     case "alipay":
       return "Alipay";
+    case "bank_transfer":
+      return "Bank Transfer";
     case "card":
     case "full":
       return "Credit/Debit Card";
@@ -321,6 +323,231 @@ Bangkok Thailand
   }
 }
 
+// ============================================
+// REGISTRATION TRANSFER EMAILS
+// ============================================
+
+/**
+ * Send the new attendee their confirmation (new registration code + QR) after a transfer
+ */
+export async function sendRegistrationTransferEmail(
+  email: string,
+  firstName: string,
+  middleName: string | null,
+  lastName: string,
+  regCode: string,
+  eventName: string,
+  ticketName: string,
+  previousAttendeeName: string,
+  sessions: { sessionName: string; startTime: Date; endTime: Date }[]
+): Promise<void> {
+  const contactEmail = getContactEmail();
+  const websiteUrl = getWebsiteUrl();
+
+  const sessionLines = sessions.length > 0
+    ? sessions
+        .map((s) => {
+          const date = s.startTime.toLocaleDateString("en-US", { month: "long", day: "numeric", year: "numeric", timeZone: "Asia/Bangkok" });
+          const timeFrom = s.startTime.toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit", timeZone: "Asia/Bangkok" });
+          const timeTo = s.endTime.toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit", timeZone: "Asia/Bangkok" });
+          return `  - ${s.sessionName} (${date}, ${timeFrom} - ${timeTo})`;
+        })
+        .join("\n")
+    : "  - (No sessions)";
+
+  const plainText = `
+Dear ${getFullName(firstName, middleName, lastName)},
+
+A registration for the 25th ASIAN CONFERENCE ON CLINICAL PHARMACY has been transferred to you from ${previousAttendeeName}. The meeting will take place July 9-11, 2026, at Centara Grand & Bangkok Convention Centre at CentralWorld Bangkok, Thailand.
+
+Registration Code: ${regCode}
+Event: ${eventName}
+Ticket: ${ticketName}
+
+Registered Sessions:
+${sessionLines}
+
+Please present this registration code (or scan the QR code below) at the registration desk on the day of the event.
+
+For more information and details about the conference, go to ${websiteUrl}
+
+If you have any questions, please contact ${contactEmail}
+
+See you soon at ACCP 2026, Bangkok, Thailand.
+
+Sincerely,
+25th ACCP committee
+Bangkok Thailand
+  `.trim();
+
+  let htmlContent = plainText.replace(/\n/g, "<br>\n");
+
+  const qrUrl = `https://api.qrserver.com/v1/create-qr-code/?size=200x200&data=${encodeURIComponent(regCode)}`;
+  const qrHtml = `<br><div style="text-align:center;margin:20px 0;"><img src="${qrUrl}" alt="QR Code: ${regCode}" width="200" height="200" style="display:block;margin:0 auto;" /><p style="font-size:13px;color:#6b7280;margin-top:8px;">Scan this QR code at the registration desk for fast check-in</p></div>`;
+
+  htmlContent = htmlContent.replace(
+    `Registration Code: ${regCode}`,
+    `Registration Code: <strong>${regCode}</strong>${qrHtml}`
+  );
+
+  try {
+    await sendNipaMailHtml(email, "Registration Transferred to You - 25th ACCP 2026", htmlContent);
+    console.log(`Registration transfer email sent to ${email} [${regCode}]`);
+  } catch (error) {
+    console.error("Error sending registration transfer email:", error);
+    throw error;
+  }
+}
+
+/**
+ * Tell the previous attendee their registration (and its QR code) is no longer valid
+ */
+export async function sendRegistrationTransferredAwayEmail(
+  email: string,
+  fullName: string,
+  previousRegCode: string,
+  eventName: string,
+  newAttendeeName: string
+): Promise<void> {
+  const contactEmail = getContactEmail();
+
+  const plainText = `
+Dear ${fullName},
+
+Your registration ${previousRegCode} for ${eventName} has been transferred to ${newAttendeeName}. The registration code and QR code previously sent to you are no longer valid for check-in.
+
+If you did not request this transfer, please contact ${contactEmail} as soon as possible.
+
+Sincerely,
+25th ACCP committee
+Bangkok Thailand
+  `.trim();
+
+  try {
+    await sendNipaMailEmail(email, "Your Registration Has Been Transferred - 25th ACCP 2026", plainText);
+    console.log(`Registration transferred-away email sent to ${email} [${previousRegCode}]`);
+  } catch (error) {
+    console.error("Error sending registration transferred-away email:", error);
+    throw error;
+  }
+}
+
+// ============================================
+// GROUP ORDER EMAILS
+// ============================================
+
+/**
+ * Invite an attendee to claim a seat of a group order (link to log in / sign up and claim)
+ */
+export async function sendGroupSeatInviteEmail(
+  email: string,
+  firstName: string | null,
+  lastName: string | null,
+  eventName: string,
+  purchasedBy: string,
+  inviteToken: string
+): Promise<void> {
+  const contactEmail = getContactEmail();
+  const claimUrl = `${getWebsiteUrl()}/group-seats/claim?token=${inviteToken}`;
+  const greeting = firstName ? getFullName(firstName, null, lastName || "") : "Delegate";
+
+  const plainText = `
+Dear ${greeting},
+
+${purchasedBy} has reserved a seat for you at ${eventName}, the 25th ASIAN CONFERENCE ON CLINICAL PHARMACY. The meeting will take place July 9-11, 2026, at Centara Grand & Bangkok Convention Centre at CentralWorld Bangkok, Thailand.
+
+To confirm your registration, log in (or create an account) with this email address and claim your seat here:
+${claimUrl}
+
+Your registration code and QR code will be sent to you once the seat is claimed.
+
+If you have any questions, please contact ${contactEmail}
+
+Sincerely,
+25th ACCP committee
+Bangkok Thailand
+  `.trim();
+
+  try {
+    await sendNipaMailEmail(email, "You Have Been Registered by Your Institution - 25th ACCP 2026", plainText);
+    console.log(`Group seat invite email sent to ${email}`);
+  } catch (error) {
+    console.error("Error sending group seat invite email:", error);
+    throw error;
+  }
+}
+
+/**
+ * Send the attendee their confirmation (registration code + QR) after claiming a group seat
+ */
+export async function sendGroupSeatClaimedEmail(
+  email: string,
+  firstName: string,
+  middleName: string | null,
+  lastName: string,
+  regCode: string,
+  eventName: string,
+  ticketName: string,
+  sessions: { sessionName: string; startTime: Date; endTime: Date }[]
+): Promise<void> {
+  const contactEmail = getContactEmail();
+  const websiteUrl = getWebsiteUrl();
+
+  const sessionLines = sessions.length > 0
+    ? sessions
+        .map((s) => {
+          const date = s.startTime.toLocaleDateString("en-US", { month: "long", day: "numeric", year: "numeric", timeZone: "Asia/Bangkok" });
+          const timeFrom = s.startTime.toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit", timeZone: "Asia/Bangkok" });
+          const timeTo = s.endTime.toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit", timeZone: "Asia/Bangkok" });
+          return `  - ${s.sessionName} (${date}, ${timeFrom} - ${timeTo})`;
+        })
+        .join("\n")
+    : "  - (No sessions)";
+
+  const plainText = `
+Dear ${getFullName(firstName, middleName, lastName)},
+
+Your registration for the 25th ASIAN CONFERENCE ON CLINICAL PHARMACY has been confirmed. The meeting will take place July 9-11, 2026, at Centara Grand & Bangkok Convention Centre at CentralWorld Bangkok, Thailand.
+
+Registration Code: ${regCode}
+Event: ${eventName}
+Ticket: ${ticketName}
+
+Registered Sessions:
+${sessionLines}
+
+Please present this registration code (or scan the QR code below) at the registration desk on the day of the event.
+
+For more information and details about the conference, go to ${websiteUrl}
+
+If you have any questions, please contact ${contactEmail}
+
+See you soon at ACCP 2026, Bangkok, Thailand.
+
+Sincerely,
+25th ACCP committee
+Bangkok Thailand
+  `.trim();
+
+  let htmlContent = plainText.replace(/\n/g, "<br>\n");
+
+  const qrUrl = `https://api.qrserver.com/v1/create-qr-code/?size=200x200&data=${encodeURIComponent(regCode)}`;
+  const qrHtml = `<br><div style="text-align:center;margin:20px 0;"><img src="${qrUrl}" alt="QR Code: ${regCode}" width="200" height="200" style="display:block;margin:0 auto;" /><p style="font-size:13px;color:#6b7280;margin-top:8px;">Scan this QR code at the registration desk for fast check-in</p></div>`;
+
+  htmlContent = htmlContent.replace(
+    `Registration Code: ${regCode}`,
+    `Registration Code: <strong>${regCode}</strong>${qrHtml}`
+  );
+
+  try {
+    await sendNipaMailHtml(email, "Registration Confirmed - 25th ACCP 2026", htmlContent);
+    console.log(`Group seat confirmation email sent to ${email} [${regCode}]`);
+  } catch (error) {
+    console.error("Error sending group seat confirmation email:", error);
+    throw error;
+  }
+}
+
 // ============================================
 // ABSTRACT EMAILS
 // ============================================
@@ -681,6 +908,92 @@ Bangkok Thailand
   }
 }
 
+/**
+ * Send abstract revision requested email
+ * Reviewer comments are listed anonymously (Reviewer 1, Reviewer 2, ...)
+ */
+export async function sendAbstractRevisionRequestedEmail(
+  email: string,
+  firstName: string,
+  middleName: string | null,
+  lastName: string,
+  trackingId: string,
+  abstractTitle: string,
+  comment: string | undefined,
+  reviewerComments: string[]
+): Promise<void> {
+  const contactEmail = getContactEmail();
+  const commentText = comment ? `\nComment from the committee:\n${comment}\n` : '';
+  const reviewerText = reviewerComments.length > 0
+    ? `\nReviewer comments:\n${reviewerComments
+        .map((text, index) => `Reviewer ${index + 1}:\n${text}`)
+        .join('\n\n')}\n`
+    : '';
+
+  const plainText = `
+Dear ${getFullName(firstName, middleName, lastName)},
+
+Thank you for submitting your abstract to the 25th ASIAN CONFERENCE ON CLINICAL PHARMACY. After review, the committee would like to ask you to revise your abstract before a final decision is made.
+
+Tracking ID: ${trackingId}
+Abstract Title: ${abstractTitle}
+${commentText}${reviewerText}
+Please log in to the conference website and resubmit your revised abstract. Your tracking ID will remain the same.
+
+If you have any questions, please get in touch with ${contactEmail}
+
+Sincerely,
+25th ACCP committee
+Bangkok Thailand
+  `.trim();
+
+  try {
+    await sendNipaMailEmail(email, "Abstract Revision Requested - 25th ACCP 2026", plainText);
+    console.log(`Abstract revision requested email sent to ${email}`);
+  } catch (error) {
+    console.error("Error sending abstract revision requested email:", error);
+    throw error;
+  }
+}
+
+/**
+ * Send abstract resubmission confirmation to the main author
+ */
+export async function sendAbstractResubmissionEmail(
+  email: string,
+  firstName: string,
+  lastName: string,
+  trackingId: string,
+  abstractTitle: string,
+  version: number
+): Promise<void> {
+  const contactEmail = getContactEmail();
+
+  const plainText = `
+Thank you for resubmitting your abstract for the 25th ASIAN CONFERENCE ON CLINICAL PHARMACY.
+
+We have received the revised version of your abstract and will notify you of the result after it has been reviewed again.
+
+Tracking ID: ${trackingId}
+Abstract Title: ${abstractTitle}
+Version: ${version}
+
+If you have any questions, please get in touch with ${contactEmail}
+
+Sincerely,
+25th ACCP committee
+Bangkok Thailand
+  `.trim();
+
+  try {
+    await sendNipaMailEmail(email, "Revised Abstract Received - 25th ACCP 2026", plainText);
+    console.log(`Abstract resubmission email sent to ${email} (${firstName} ${lastName})`);
+  } catch (error) {
+    console.error("Error sending abstract resubmission email:", error);
+    throw error;
+  }
+}
+
 // ============================================
 // STUDENT/USER REGISTRATION EMAILS
 // ============================================
@@ -930,9 +1243,13 @@ export async function sendRegistrationConfirmationEmail(
   email: string,
   firstName: string,
   middleName: string | null,
-  lastName: string
+  lastName: string,
+  calendar?: EmailAttachment
 ): Promise<void> {
   const websiteUrl = getWebsiteUrl();
+  const calendarNote = calendar
+    ? "\nThe sessions you registered for are attached as a calendar file (.ics) that you can add to your calendar.\n"
+    : "";
 
   const plainText = `
 Dear ${getFullName(firstName, middleName, lastName)},
@@ -940,7 +1257,7 @@ Dear ${getFullName(firstName, middleName, lastName)},
 Thank you for your registration for the 25th ASIAN CONFERENCE ON CLINICAL PHARMACY. The meeting will take place July 9-11, 2026, at Centara Grand & Bangkok Convention Centre at CentralWorld Bangkok, Thailand.
 
 For more information and details about the conference, go to ${websiteUrl}
-
+${calendarNote}
 After the process, we will send the receipt to you again by email.
 
 See you soon at ACCP 2026, Bangkok, Thailand.
@@ -951,7 +1268,12 @@ Bangkok Thailand
   `.trim();
 
   try {
-    await sendNipaMailEmail(email, "Registration Confirmed - 25th ACCP 2026", plainText);
+    await sendNipaMailEmail(
+      email,
+      "Registration Confirmed - 25th ACCP 2026",
+      plainText,
+      calendar ? [calendar] : undefined
+    );
     console.log(`Registration confirmation email sent to ${email}`);
   } catch (error) {
     console.error("Error sending registration confirmation email:", error);
@@ -959,6 +1281,198 @@ Bangkok Thailand
   }
 }
 
+// ============================================
+// WAITLIST EMAILS
+// ============================================
+
+/**
+ * Send waitlist offer email: a seat is held for the user until holdExpiresAt
+ */
+export async function sendWaitlistOfferEmail(
+  email: string,
+  firstName: string,
+  middleName: string | null,
+  lastName: string,
+  itemName: string,
+  eventName: string,
+  holdExpiresAt: Date
+): Promise<void> {
+  const websiteUrl = getWebsiteUrl();
+  const deadline = holdExpiresAt.toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone: "Asia/Bangkok",
+  });
+
+  const plainText = `
+Dear ${getFullName(firstName, middleName, lastName)},
+
+Good news! A seat has become available for "${itemName}" (${eventName}), and you are next on the waitlist.
+
+We are holding this seat for you until ${deadline} (Bangkok time). Please log in at ${websiteUrl} and complete your purchase before then. After this time the seat will be offered to the next person on the waitlist.
+
+Sincerely,
+25th ACCP committee
+Bangkok Thailand
+  `.trim();
+
+  try {
+    await sendNipaMailEmail(email, "A Seat Is Available for You - 25th ACCP 2026", plainText);
+    console.log(`Waitlist offer email sent to ${email} (${itemName})`);
+  } catch (error) {
+    console.error("Error sending waitlist offer email:", error);
+    throw error;
+  }
+}
+
+// ============================================
+// INVOICE EMAILS
+// ============================================
+
+/**
+ * Send the proforma invoice of a bank-transfer order (PDF attached)
+ */
+export async function sendProformaInvoiceEmail(
+  email: string,
+  firstName: string,
+  middleName: string | null,
+  lastName: string,
+  orderNumber: string,
+  total: number,
+  currency: string,
+  dueAt: Date,
+  invoiceDownloadUrl: string,
+  invoicePdf: Buffer
+): Promise<void> {
+  const contactEmail = getContactEmail();
+  const currencySymbol = currency === "THB" ? "\u0E3F" : "$";
+  const dueDate = dueAt.toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    timeZone: "Asia/Bangkok",
+  });
+
+  const plainText = `
+Dear ${getFullName(firstName, middleName, lastName)},
+
+Thank you for your order for the 25th ASIAN CONFERENCE ON CLINICAL PHARMACY. Please find attached the proforma invoice for payment by bank transfer.
+
+Invoice Number: ${orderNumber}
+Amount Due: ${currencySymbol}${total.toLocaleString()}
+Due Date: ${dueDate}
+
+Please quote ${orderNumber} as the transfer reference. Your seats are reserved until the due date; if the transfer has not been received by then, the order is cancelled automatically.
+
+Once the conference secretariat has confirmed your transfer, you will receive a receipt and your registration confirmation by email.
+
+Download the invoice (PDF): ${invoiceDownloadUrl}
+
+If you have any questions, please contact ${contactEmail}
+
+Sincerely,
+25th ACCP committee
+Bangkok Thailand
+  `.trim();
+
+  try {
+    await sendNipaMailEmail(email, `Proforma Invoice ${orderNumber} - 25th ACCP 2026`, plainText, [
+      { content: invoicePdf, fileName: `ACCP2026-invoice-${orderNumber}.pdf` },
+    ]);
+    console.log(`Proforma invoice email sent to ${email} (${orderNumber})`);
+  } catch (error) {
+    console.error("Error sending proforma invoice email:", error);
+    throw error;
+  }
+}
+
+/**
+ * Send notice that an unpaid invoice passed its due date and was cancelled
+ */
+export async function sendInvoiceCancelledEmail(
+  email: string,
+  firstName: string,
+  middleName: string | null,
+  lastName: string,
+  orderNumber: string,
+  dueAt: Date
+): Promise<void> {
+  const contactEmail = getContactEmail();
+  const websiteUrl = getWebsiteUrl();
+  const dueDate = dueAt.toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    timeZone: "Asia/Bangkok",
+  });
+
+  const plainText = `
+Dear ${getFullName(firstName, middleName, lastName)},
+
+We have not received the bank transfer for invoice ${orderNumber}, which was due on ${dueDate}. The order has been cancelled and the reserved seats have been released.
+
+If you have already made the transfer, please send the transfer slip to ${contactEmail}. You can also place a new order at ${websiteUrl}.
+
+Sincerely,
+25th ACCP committee
+Bangkok Thailand
+  `.trim();
+
+  try {
+    await sendNipaMailEmail(email, `Invoice ${orderNumber} Cancelled - 25th ACCP 2026`, plainText);
+    console.log(`Invoice cancellation email sent to ${email} (${orderNumber})`);
+  } catch (error) {
+    console.error("Error sending invoice cancellation email:", error);
+    throw error;
+  }
+}
+
+/**
+ * Send the original of a full tax invoice (PDF attached), or of the
+ * corrected invoice that replaces a cancelled one
+ */
+export async function sendTaxInvoiceEmail(
+  email: string,
+  firstName: string,
+  middleName: string | null,
+  lastName: string,
+  orderNumber: string,
+  documentNumber: string,
+  replacesDocumentNumber: string | null,
+  taxInvoice: EmailAttachment
+): Promise<void> {
+  const contactEmail = getContactEmail();
+
+  const intro = replacesDocumentNumber
+    ? `Please find attached the corrected tax invoice for your order ${orderNumber}. It replaces tax invoice ${replacesDocumentNumber}, which has been cancelled and should no longer be used.`
+    : `Please find attached the tax invoice / receipt for your order ${orderNumber} for the 25th ASIAN CONFERENCE ON CLINICAL PHARMACY.`;
+
+  const plainText = `
+Dear ${getFullName(firstName, middleName, lastName)},
+
+${intro}
+
+Tax Invoice Number: ${documentNumber}
+
+The attached PDF is the original of the tax invoice. If any of the buyer details are incorrect, please contact ${contactEmail} and we will issue a corrected invoice.
+
+Sincerely,
+25th ACCP committee
+Bangkok Thailand
+  `.trim();
+
+  try {
+    await sendNipaMailEmail(email, `Tax Invoice ${documentNumber} - ${orderNumber} | 25th ACCP 2026`, plainText, [taxInvoice]);
+    console.log(`Tax invoice email sent to ${email} for order ${orderNumber} (${documentNumber})`);
+  } catch (error) {
+    console.error("Error sending tax invoice email:", error);
+    throw error;
+  }
+}
+
 // ============================================
 // PASSWORD RESET EMAIL
 // ============================================
@@ -997,6 +1511,93 @@ Bangkok Thailand
   }
 }
 
+// ============================================
+// ACCOUNT SECURITY EMAILS
+// ============================================
+
+function formatBangkokDateTime(date: Date): string {
+  return date.toLocaleString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone: "Asia/Bangkok",
+  });
+}
+
+/**
+ * Tell the account owner their account was locked after repeated failed
+ * sign-in attempts. Backoffice accounts have no self-service reset.
+ */
+export async function sendAccountLockedEmail(
+  email: string,
+  firstName: string,
+  lockedUntil: Date,
+  isStaffAccount: boolean
+): Promise<void> {
+  const advice = isStaffAccount
+    ? `If this wasn't you, please contact an administrator so your password can be changed.`
+    : `If this wasn't you, we recommend resetting your password at ${getWebsiteUrl()}/forgot-password once the lock has expired.`;
+
+  const plainText = `
+Dear ${firstName},
+
+Your 25th ACCP 2026 account has been temporarily locked after several unsuccessful sign-in attempts.
+
+You can sign in again after ${formatBangkokDateTime(lockedUntil)} (Bangkok time).
+
+${advice}
+
+Sincerely,
+25th ACCP committee
+Bangkok Thailand
+  `.trim();
+
+  try {
+    await sendNipaMailEmail(email, "Account Temporarily Locked - 25th ACCP 2026", plainText);
+    console.log(`Account locked email sent to ${email}`);
+  } catch (error) {
+    console.error("Error sending account locked email:", error);
+    throw error;
+  }
+}
+
+/**
+ * Tell the account owner about a sign-in from a device not seen before
+ */
+export async function sendNewDeviceLoginEmail(
+  email: string,
+  firstName: string,
+  signedInAt: Date,
+  ipAddress: string | null,
+  userAgent: string | null
+): Promise<void> {
+  const plainText = `
+Dear ${firstName},
+
+Your 25th ACCP 2026 account was just signed in to from a new device.
+
+Time: ${formatBangkokDateTime(signedInAt)} (Bangkok time)
+IP address: ${ipAddress || "unknown"}
+Device: ${userAgent || "unknown"}
+
+If this was you, no action is needed. If not, please change your password right away and contact ${getContactEmail()}.
+
+Sincerely,
+25th ACCP committee
+Bangkok Thailand
+  `.trim();
+
+  try {
+    await sendNipaMailEmail(email, "New Sign-in to Your Account - 25th ACCP 2026", plainText);
+    console.log(`New device sign-in email sent to ${email}`);
+  } catch (error) {
+    console.error("Error sending new device sign-in email:", error);
+    throw error;
+  }
+}
+
 // ============================================
 // PAYMENT RECEIPT EMAIL
 // ============================================
@@ -1170,6 +1771,53 @@ Bangkok Thailand
   }
 }
 
+// ============================================
+// REFUND CONFIRMATION EMAIL
+// ============================================
+
+/**
+ * Send refund confirmation email with the credit note PDF attached
+ */
+export async function sendRefundConfirmationEmail(
+  email: string,
+  firstName: string,
+  middleName: string | null,
+  lastName: string,
+  orderNumber: string,
+  creditNoteNumber: string,
+  refundAmount: number,
+  currency: string,
+  registrationCancelled: boolean,
+  creditNote: EmailAttachment
+): Promise<void> {
+  const contactEmail = getContactEmail();
+  const currencySymbol = currency === "THB" ? "฿" : "$";
+
+  const plainText = `
+Dear ${getFullName(firstName, middleName, lastName)},
+
+We have processed a refund of ${currencySymbol}${refundAmount.toLocaleString("en-US", { minimumFractionDigits: 2 })} for your order ${orderNumber} for the 25th ASIAN CONFERENCE ON CLINICAL PHARMACY.
+
+Credit Note Number: ${creditNoteNumber}
+${registrationCancelled ? "\nThe registration items covered by this refund have been cancelled.\n" : ""}
+Please find the credit note attached to this email. Depending on your bank or card issuer, it may take 5-10 business days for the refund to appear on your statement.
+
+If you have any questions, please contact ${contactEmail}
+
+Sincerely,
+25th ACCP committee
+Bangkok Thailand
+  `.trim();
+
+  try {
+    await sendNipaMailEmail(email, `Refund Confirmation - ${orderNumber} | 25th ACCP 2026`, plainText, [creditNote]);
+    console.log(`Refund confirmation email sent to ${email} for order ${orderNumber} (${creditNoteNumber})`);
+  } catch (error) {
+    console.error("Error sending refund confirmation email:", error);
+    throw error;
+  }
+}
+
 // ============================================
 // CONTACT FORM EMAIL
 // ============================================
@@ -1508,6 +2156,7 @@ export async function sendPresentationScheduleNotificationEmail(
   presentationType: "oral" | "poster",
   scheduleLines: string[],
   attachment?: { pdf: Buffer; fileName: string },
+  calendar?: EmailAttachment,
 ): Promise<void> {
   const { subject, html } = buildPresentationScheduleNotificationEmailContent(
     firstName,
@@ -1518,9 +2167,10 @@ export async function sendPresentationScheduleNotificationEmail(
     presentationType,
     scheduleLines,
   );
-  const attachments: EmailAttachment[] | undefined = attachment
-    ? [{ content: attachment.pdf, fileName: attachment.fileName }]
-    : undefined;
+  const attachments: EmailAttachment[] = [
+    ...(attachment ? [{ content: attachment.pdf, fileName: attachment.fileName }] : []),
+    ...(calendar ? [calendar] : []),
+  ];
 
   try {
     await sendNipaMailHtml(email, subject, html, attachments);
@@ -1528,7 +2178,7 @@ export async function sendPresentationScheduleNotificationEmail(
       ? `PDF attached successfully (${attachment.fileName}, ${attachment.pdf.length} bytes)`
       : "PDF not attached";
     console.log(
-      `[presentation-schedule] sent to ${email} | ${trackingId} | ${pdfLog}`,
+      `[presentation-schedule] sent to ${email} | ${trackingId} | ${pdfLog}${calendar ? " | .ics attached" : ""}`,
     );
   } catch (error) {
     const pdfLog = attachment
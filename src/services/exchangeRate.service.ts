@@ -0,0 +1,141 @@
+import { db } from "../database/index.js";
+import { exchangeRates, type ExchangeRate } from "../database/schema.js";
+import { and, asc, desc, eq, lte } from "drizzle-orm";
+
+export interface ExchangeRateInput {
+    baseCurrency: string;
+    quoteCurrency: string;
+    rate: number;
+    effectiveFrom: Date;
+    note?: string;
+}
+
+const round6 = (value: number) => Math.round(value * 1_000_000) / 1_000_000;
+
+async function findPairRate(executor: any, baseCurrency: string, quoteCurrency: string, at: Date) {
+    const [row] = await executor
+        .select({ rate: exchangeRates.rate })
+        .from(exchangeRates)
+        .where(
+            and(
+                eq(exchangeRates.baseCurrency, baseCurrency),
+                eq(exchangeRates.quoteCurrency, quoteCurrency),
+                lte(exchangeRates.effectiveFrom, at)
+            )
+        )
+        .orderBy(desc(exchangeRates.effectiveFrom))
+        .limit(1);
+    return row ? Number(row.rate) : null;
+}
+
+/**
+ * Rate in force at `at`: 1 baseCurrency = rate quoteCurrency. Falls back to
+ * the inverse of the opposite pair; null when neither has been entered.
+ */
+export async function findExchangeRate(
+    baseCurrency: string,
+    quoteCurrency: string,
+    at: Date = new Date(),
+    executor: any = db
+): Promise<number | null> {
+    if (baseCurrency === quoteCurrency) return 1;
+
+    const direct = await findPairRate(executor, baseCurrency, quoteCurrency, at);
+    if (direct !== null) return direct;
+
+    const inverse = await findPairRate(executor, quoteCurrency, baseCurrency, at);
+    return inverse ? round6(1 / inverse) : null;
+}
+
+/** Every rate entered, newest first (optionally for one pair). */
+export async function listExchangeRates(filters: { baseCurrency?: string; quoteCurrency?: string }) {
+    return db
+        .select()
+        .from(exchangeRates)
+        .where(
+            and(
+                filters.baseCurrency ? eq(exchangeRates.baseCurrency, filters.baseCurrency) : undefined,
+                filters.quoteCurrency ? eq(exchangeRates.quoteCurrency, filters.quoteCurrency) : undefined
+            )
+        )
+        .orderBy(asc(exchangeRates.baseCurrency), asc(exchangeRates.quoteCurrency), desc(exchangeRates.effectiveFrom));
+}
+
+/** The rate in force right now for each pair. */
+export async function getCurrentExchangeRates(): Promise<ExchangeRate[]> {
+    return db
+        .selectDistinctOn([exchangeRates.baseCurrency, exchangeRates.quoteCurrency])
+        .from(exchangeRates)
+        .where(lte(exchangeRates.effectiveFrom, new Date()))
+        .orderBy(asc(exchangeRates.baseCurrency), asc(exchangeRates.quoteCurrency), desc(exchangeRates.effectiveFrom));
+}
+
+async function assertNoRateAt(pair: { baseCurrency: string; quoteCurrency: string; effectiveFrom: Date }, exceptId?: number) {
+    const [clash] = await db
+        .select({ id: exchangeRates.id })
+        .from(exchangeRates)
+        .where(
+            and(
+                eq(exchangeRates.baseCurrency, pair.baseCurrency),
+                eq(exchangeRates.quoteCurrency, pair.quoteCurrency),
+                eq(exchangeRates.effectiveFrom, pair.effectiveFrom)
+            )
+        )
+        .limit(1);
+    if (clash && clash.id !== exceptId) throw new Error("EXCHANGE_RATE_DUPLICATE");
+}
+
+export async function createExchangeRate(input: ExchangeRateInput & { staffId: number }): Promise<ExchangeRate> {
+    await assertNoRateAt(input);
+
+    const [rate] = await db
+        .insert(exchangeRates)
+        .values({
+            baseCurrency: input.baseCurrency,
+            quoteCurrency: input.quoteCurrency,
+            rate: String(input.rate),
+            effectiveFrom: input.effectiveFrom,
+            note: input.note ?? null,
+            createdBy: input.staffId,
+        })
+        .returning();
+    return rate;
+}
+
+/**
+ * A rate can be changed or withdrawn until it takes effect; after that orders
+ * may have been charged with it, so a correction is entered as a new rate.
+ */
+async function findEditableRate(id: number): Promise<ExchangeRate> {
+    const [rate] = await db.select().from(exchangeRates).where(eq(exchangeRates.id, id)).limit(1);
+    if (!rate) throw new Error("EXCHANGE_RATE_NOT_FOUND");
+    if (rate.effectiveFrom <= new Date()) throw new Error("EXCHANGE_RATE_ALREADY_EFFECTIVE");
+    return rate;
+}
+
+export async function updateExchangeRate(
+    id: number,
+    changes: Partial<Pick<ExchangeRateInput, "rate" | "effectiveFrom" | "note">>
+): Promise<ExchangeRate> {
+    const current = await findEditableRate(id);
+    if (changes.effectiveFrom) {
+        await assertNoRateAt({ ...current, effectiveFrom: changes.effectiveFrom }, id);
+    }
+
+    const [rate] = await db
+        .update(exchangeRates)
+        .set({
+            rate: changes.rate !== undefined ? String(changes.rate) : undefined,
+            effectiveFrom: changes.effectiveFrom,
+            note: changes.note,
+            updatedAt: new Date(),
+        })
+        .where(eq(exchangeRates.id, id))
+        .returning();
+    return rate;
+}
+
+export async function deleteExchangeRate(id: number): Promise<void> {
+    await findEditableRate(id);
+    await db.delete(exchangeRates).where(eq(exchangeRates.id, id));
+}
@@ -25,7 +25,7 @@ function getDriveClient() {
 }
 
 // Folder type mapping
-export type UploadFolderType = "student_docs" | "abstracts" | "speakers" | "venue_images" | "event_images" | "event_documents" | "session_documents";
+export type UploadFolderType = "student_docs" | "abstracts" | "speakers" | "venue_images" | "event_images" | "event_documents" | "session_documents" | "payment_slips";
 
 const FOLDER_ENV_MAP: Record<UploadFolderType, string> = {
   student_docs: "GOOGLE_DRIVE_FOLDER_STUDENT_DOCS",
@@ -35,6 +35,7 @@ const FOLDER_ENV_MAP: Record<UploadFolderType, string> = {
   event_images: "GOOGLE_DRIVE_FOLDER_EVENT_IMAGES",
   event_documents: "GOOGLE_DRIVE_FOLDER_EVENT_DOCUMENTS",
   session_documents: "GOOGLE_DRIVE_FOLDER_SESSION_DOCUMENTS",
+  payment_slips: "GOOGLE_DRIVE_FOLDER_PAYMENT_SLIPS",
 };
 
 // Abstract category type (matches database enum)
@@ -0,0 +1,511 @@
+import crypto from "crypto";
+import { db } from "../database/index.js";
+import {
+    events,
+    groupOrderSeats,
+    orders,
+    registrations,
+    registrationSessions,
+    sessions,
+    ticketSessions,
+    ticketTypes,
+    users,
+    type GroupOrderSeat,
+    type Registration,
+} from "../database/schema.js";
+import { and, asc, desc, eq, inArray, sql } from "drizzle-orm";
+import { getFullName } from "../utils/name.js";
+import { sendGroupSeatClaimedEmail, sendGroupSeatInviteEmail } from "./emailService.js";
+import type { LogContext } from "../types/index.js";
+
+// Seats that can still be handed out (or taken back) by the buyer
+const OPEN_SEAT_STATUSES = ["unassigned", "invited"];
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function generateRegCode(): string {
+    const ts = Date.now().toString(36).toUpperCase();
+    const rand = Math.random().toString(36).substring(2, 8).toUpperCase();
+    return `REG-${ts}${rand}`;
+}
+
+export interface GroupSeatInvite {
+    email: string;
+    firstName?: string;
+    lastName?: string;
+}
+
+export interface GroupSeatSummary {
+    total: number;
+    unassigned: number;
+    invited: number;
+    claimed: number;
+    cancelled: number;
+}
+
+function summarizeSeats(seats: Pick<GroupOrderSeat, "status">[]): GroupSeatSummary {
+    const summary: GroupSeatSummary = { total: 0, unassigned: 0, invited: 0, claimed: 0, cancelled: 0 };
+    for (const seat of seats) {
+        summary.total++;
+        if (seat.status in summary) summary[seat.status as keyof Omit<GroupSeatSummary, "total">]++;
+    }
+    return summary;
+}
+
+/**
+ * Payment of a group order succeeded: open one unassigned seat per ticket
+ * bought. Runs inside processSuccessfulPayment's transaction; a replay finds
+ * the seats already there and does nothing.
+ */
+export async function createGroupOrderSeats(
+    tx: any,
+    order: { id: number; eventId: number },
+    item: { ticketTypeId: number; quantity: number }
+): Promise<number> {
+    const [existing] = await tx
+        .select({ id: groupOrderSeats.id })
+        .from(groupOrderSeats)
+        .where(eq(groupOrderSeats.orderId, order.id))
+        .limit(1);
+    if (existing) return 0;
+
+    await tx.insert(groupOrderSeats).values(
+        Array.from({ length: item.quantity }, (_, i) => ({
+            orderId: order.id,
+            eventId: order.eventId,
+            ticketTypeId: item.ticketTypeId,
+            seatNumber: i + 1,
+        }))
+    );
+    return item.quantity;
+}
+
+/** Refund of the group ticket: seats nobody has claimed yet can no longer be claimed. */
+export async function cancelOpenGroupSeats(tx: any, orderId: number): Promise<void> {
+    await tx
+        .update(groupOrderSeats)
+        .set({ status: "cancelled", inviteToken: null })
+        .where(and(eq(groupOrderSeats.orderId, orderId), inArray(groupOrderSeats.status, OPEN_SEAT_STATUSES)));
+}
+
+async function loadGroupOrder(orderId: number, buyerUserId?: number) {
+    const [order] = await db
+        .select({
+            id: orders.id,
+            userId: orders.userId,
+            eventId: orders.eventId,
+            orderNumber: orders.orderNumber,
+            status: orders.status,
+            totalAmount: orders.totalAmount,
+            currency: orders.currency,
+            needTaxInvoice: orders.needTaxInvoice,
+            taxName: orders.taxName,
+            taxId: orders.taxId,
+            createdAt: orders.createdAt,
+        })
+        .from(orders)
+        .where(and(eq(orders.id, orderId), eq(orders.isGroupOrder, true)))
+        .limit(1);
+    if (!order) throw new Error("GROUP_ORDER_NOT_FOUND");
+    if (buyerUserId != null && order.userId !== buyerUserId) throw new Error("GROUP_ORDER_NOT_FOUND");
+    return order;
+}
+
+/** The buyer's group orders with how many seats are still unassigned. */
+export async function listUserGroupOrders(userId: number) {
+    const rows = await db
+        .select({
+            id: orders.id,
+            orderNumber: orders.orderNumber,
+            eventId: orders.eventId,
+            eventName: events.eventName,
+            status: orders.status,
+            totalAmount: orders.totalAmount,
+            currency: orders.currency,
+            createdAt: orders.createdAt,
+        })
+        .from(orders)
+        .leftJoin(events, eq(orders.eventId, events.id))
+        .where(and(eq(orders.userId, userId), eq(orders.isGroupOrder, true)))
+        .orderBy(desc(orders.createdAt));
+    if (rows.length === 0) return [];
+
+    const seats = await db
+        .select({ orderId: groupOrderSeats.orderId, status: groupOrderSeats.status })
+        .from(groupOrderSeats)
+        .where(inArray(groupOrderSeats.orderId, rows.map((r) => r.id)));
+
+    return rows.map((row) => ({
+        ...row,
+        seats: summarizeSeats(seats.filter((s) => s.orderId === row.id)),
+    }));
+}
+
+/**
+ * Seats of a group order. Pass buyerUserId to restrict to the buyer's own
+ * orders; the backoffice omits it.
+ */
+export async function getGroupOrderSeats(orderId: number, buyerUserId?: number) {
+    const order = await loadGroupOrder(orderId, buyerUserId);
+
+    const seats = await db
+        .select({
+            id: groupOrderSeats.id,
+            seatNumber: groupOrderSeats.seatNumber,
+            ticketTypeId: groupOrderSeats.ticketTypeId,
+            ticketName: ticketTypes.name,
+            status: groupOrderSeats.status,
+            inviteEmail: groupOrderSeats.inviteEmail,
+            inviteFirstName: groupOrderSeats.inviteFirstName,
+            inviteLastName: groupOrderSeats.inviteLastName,
+            invitedAt: groupOrderSeats.invitedAt,
+            registrationId: groupOrderSeats.registrationId,
+            regCode: registrations.regCode,
+            claimedAt: groupOrderSeats.claimedAt,
+        })
+        .from(groupOrderSeats)
+        .innerJoin(ticketTypes, eq(groupOrderSeats.ticketTypeId, ticketTypes.id))
+        .leftJoin(registrations, eq(groupOrderSeats.registrationId, registrations.id))
+        .where(eq(groupOrderSeats.orderId, orderId))
+        .orderBy(asc(groupOrderSeats.seatNumber));
+
+    return { order, summary: summarizeSeats(seats), seats };
+}
+
+/** Backoffice tracking: paid group orders that still have seats nobody has claimed. */
+export async function listGroupOrdersWithOpenSeats(eventId?: number) {
+    return db
+        .select({
+            orderId: orders.id,
+            orderNumber: orders.orderNumber,
+            eventId: orders.eventId,
+            status: orders.status,
+            taxName: orders.taxName,
+            buyer: {
+                id: users.id,
+                email: users.email,
+                firstName: users.firstName,
+                lastName: users.lastName,
+            },
+            total: sql<number>`count(*)::int`,
+            unassigned: sql<number>`count(*) filter (where ${groupOrderSeats.status} = 'unassigned')::int`,
+            invited: sql<number>`count(*) filter (where ${groupOrderSeats.status} = 'invited')::int`,
+            claimed: sql<number>`count(*) filter (where ${groupOrderSeats.status} = 'claimed')::int`,
+        })
+        .from(groupOrderSeats)
+        .innerJoin(orders, eq(groupOrderSeats.orderId, orders.id))
+        .innerJoin(users, eq(orders.userId, users.id))
+        .where(and(eq(orders.status, "paid"), eventId ? eq(orders.eventId, eventId) : undefined))
+        .groupBy(orders.id, users.id)
+        .having(sql`count(*) filter (where ${groupOrderSeats.status} in ('unassigned', 'invited')) > 0`)
+        .orderBy(desc(orders.createdAt));
+}
+
+/**
+ * Hand unassigned seats to attendees by email, lowest seat numbers first.
+ * Each invitee gets a claim link; the registration is created on claim.
+ */
+export async function inviteGroupSeats(input: {
+    orderId: number;
+    buyerUserId?: number;
+    invites: GroupSeatInvite[];
+}): Promise<GroupOrderSeat[]> {
+    const order = await loadGroupOrder(input.orderId, input.buyerUserId);
+    if (order.status !== "paid") throw new Error("GROUP_ORDER_NOT_PAID");
+
+    const emails = input.invites.map((invite) => invite.email.toLowerCase());
+    if (new Set(emails).size !== emails.length) throw new Error("GROUP_SEAT_DUPLICATE_EMAIL");
+
+    return db.transaction(async (tx) => {
+        const seats = await tx
+            .select()
+            .from(groupOrderSeats)
+            .where(eq(groupOrderSeats.orderId, order.id))
+            .orderBy(asc(groupOrderSeats.seatNumber))
+            .for("update");
+
+        const taken = new Set(
+            seats
+                .filter((seat) => seat.status === "invited" || seat.status === "claimed")
+                .map((seat) => seat.inviteEmail?.toLowerCase())
+        );
+        if (emails.some((email) => taken.has(email))) throw new Error("GROUP_SEAT_ALREADY_INVITED");
+
+        const free = seats.filter((seat) => seat.status === "unassigned");
+        if (free.length < input.invites.length) throw new Error("GROUP_SEATS_EXHAUSTED");
+
+        const now = new Date();
+        const invited: GroupOrderSeat[] = [];
+        for (const [i, invite] of input.invites.entries()) {
+            const [seat] = await tx
+                .update(groupOrderSeats)
+                .set({
+                    status: "invited",
+                    inviteEmail: invite.email.toLowerCase(),
+                    inviteFirstName: invite.firstName || null,
+                    inviteLastName: invite.lastName || null,
+                    inviteToken: crypto.randomBytes(24).toString("hex"),
+                    invitedAt: now,
+                })
+                .where(eq(groupOrderSeats.id, free[i].id))
+                .returning();
+            invited.push(seat);
+        }
+        return invited;
+    });
+}
+
+/** Take an invitation back before it is claimed; the seat becomes unassigned again. */
+export async function revokeGroupSeatInvite(input: {
+    orderId: number;
+    seatId: number;
+    buyerUserId?: number;
+}): Promise<GroupOrderSeat> {
+    await loadGroupOrder(input.orderId, input.buyerUserId);
+
+    const [seat] = await db
+        .select({ status: groupOrderSeats.status })
+        .from(groupOrderSeats)
+        .where(and(eq(groupOrderSeats.id, input.seatId), eq(groupOrderSeats.orderId, input.orderId)))
+        .limit(1);
+    if (!seat) throw new Error("GROUP_SEAT_NOT_FOUND");
+    if (seat.status === "claimed") throw new Error("GROUP_SEAT_CLAIMED");
+    if (seat.status !== "invited") throw new Error("GROUP_SEAT_NOT_INVITED");
+
+    const [updated] = await db
+        .update(groupOrderSeats)
+        .set({
+            status: "unassigned",
+            inviteEmail: null,
+            inviteFirstName: null,
+            inviteLastName: null,
+            inviteToken: null,
+            invitedAt: null,
+        })
+        .where(and(eq(groupOrderSeats.id, input.seatId), eq(groupOrderSeats.status, "invited")))
+        .returning();
+    if (!updated) throw new Error("GROUP_SEAT_CLAIMED");
+    return updated;
+}
+
+/** What an invite link is for, shown before the invitee claims it. */
+export async function getGroupSeatInvite(token: string) {
+    const [row] = await db
+        .select({
+            seatId: groupOrderSeats.id,
+            status: groupOrderSeats.status,
+            inviteEmail: groupOrderSeats.inviteEmail,
+            eventName: events.eventName,
+            ticketName: ticketTypes.name,
+            orderStatus: orders.status,
+            taxName: orders.taxName,
+            buyerFirstName: users.firstName,
+            buyerMiddleName: users.middleName,
+            buyerLastName: users.lastName,
+        })
+        .from(groupOrderSeats)
+        .innerJoin(orders, eq(groupOrderSeats.orderId, orders.id))
+        .innerJoin(users, eq(orders.userId, users.id))
+        .innerJoin(events, eq(groupOrderSeats.eventId, events.id))
+        .innerJoin(ticketTypes, eq(groupOrderSeats.ticketTypeId, ticketTypes.id))
+        .where(eq(groupOrderSeats.inviteToken, token))
+        .limit(1);
+    if (!row || row.status !== "invited" || row.orderStatus !== "paid") {
+        throw new Error("GROUP_SEAT_INVITE_INVALID");
+    }
+
+    return {
+        seatId: row.seatId,
+        inviteEmail: row.inviteEmail,
+        eventName: row.eventName,
+        ticketName: row.ticketName,
+        purchasedBy: row.taxName || getFullName(row.buyerFirstName, row.buyerMiddleName, row.buyerLastName),
+    };
+}
+
+/** Sessions a ticket type gives access to; primary tickets without links fall back to the main sessions. */
+async function resolveTicketSessionIds(tx: any, ticketTypeId: number, eventId: number): Promise<number[]> {
+    const linked = await tx
+        .select({ sessionId: ticketSessions.sessionId })
+        .from(ticketSessions)
+        .innerJoin(sessions, eq(ticketSessions.sessionId, sessions.id))
+        .where(and(eq(ticketSessions.ticketTypeId, ticketTypeId), eq(sessions.eventId, eventId)));
+    if (linked.length > 0) return linked.map((row: { sessionId: number }) => row.sessionId);
+
+    const mainSessions = await tx
+        .select({ id: sessions.id })
+        .from(sessions)
+        .where(and(eq(sessions.eventId, eventId), eq(sessions.isMainSession, true)));
+    return mainSessions.map((row: { id: number }) => row.id);
+}
+
+/**
+ * The invitee (logged in with the invited email) takes the seat: a confirmed
+ * registration is created on the group order, with the ticket's sessions.
+ */
+export async function claimGroupSeat(input: {
+    token: string;
+    userId: number;
+}): Promise<{ registration: Registration; seat: GroupOrderSeat }> {
+    const [user] = await db
+        .select({
+            id: users.id,
+            email: users.email,
+            firstName: users.firstName,
+            middleName: users.middleName,
+            lastName: users.lastName,
+        })
+        .from(users)
+        .where(eq(users.id, input.userId))
+        .limit(1);
+    if (!user) throw new Error("GROUP_SEAT_INVITE_INVALID");
+
+    return db.transaction(async (tx) => {
+        const [seat] = await tx
+            .select()
+            .from(groupOrderSeats)
+            .where(eq(groupOrderSeats.inviteToken, input.token))
+            .for("update");
+        if (!seat || seat.status !== "invited") throw new Error("GROUP_SEAT_INVITE_INVALID");
+
+        const [order] = await tx
+            .select({ status: orders.status })
+            .from(orders)
+            .where(eq(orders.id, seat.orderId))
+            .limit(1);
+        if (order?.status !== "paid") throw new Error("GROUP_SEAT_INVITE_INVALID");
+
+        if (seat.inviteEmail?.toLowerCase() !== user.email.toLowerCase()) {
+            throw new Error("GROUP_SEAT_EMAIL_MISMATCH");
+        }
+
+        const [existing] = await tx
+            .select({ id: registrations.id })
+            .from(registrations)
+            .where(
+                and(
+                    eq(registrations.userId, user.id),
+                    eq(registrations.eventId, seat.eventId),
+                    eq(registrations.status, "confirmed")
+                )
+            )
+            .limit(1);
+        if (existing) throw new Error("GROUP_SEAT_ALREADY_REGISTERED");
+
+        const [registration] = await tx
+            .insert(registrations)
+            .values({
+                regCode: generateRegCode(),
+                orderId: seat.orderId,
+                eventId: seat.eventId,
+                ticketTypeId: seat.ticketTypeId,
+                userId: user.id,
+                email: user.email,
+                firstName: user.firstName,
+                middleName: user.middleName,
+                lastName: user.lastName,
+                status: "confirmed",
+                source: "group",
+            })
+            .returning();
+
+        const sessionIds = await resolveTicketSessionIds(tx, seat.ticketTypeId, seat.eventId);
+        if (sessionIds.length > 0) {
+            await tx.insert(registrationSessions).values(
+                sessionIds.map((sessionId) => ({
+                    registrationId: registration.id,
+                    sessionId,
+                    ticketTypeId: seat.ticketTypeId,
+                    source: "group",
+                }))
+            );
+        }
+
+        const [claimed] = await tx
+            .update(groupOrderSeats)
+            .set({
+                status: "claimed",
+                registrationId: registration.id,
+                claimedByUserId: user.id,
+                claimedAt: new Date(),
+                inviteToken: null,
+            })
+            .where(eq(groupOrderSeats.id, seat.id))
+            .returning();
+
+        return { registration, seat: claimed };
+    });
+}
+
+/** Claim links to the invitees, one email at a time. */
+export async function sendGroupSeatInviteEmails(
+    fastify: LogContext,
+    orderId: number,
+    seats: GroupOrderSeat[]
+): Promise<void> {
+    const [row] = await db
+        .select({
+            eventName: events.eventName,
+            taxName: orders.taxName,
+            buyerFirstName: users.firstName,
+            buyerMiddleName: users.middleName,
+            buyerLastName: users.lastName,
+        })
+        .from(orders)
+        .innerJoin(users, eq(orders.userId, users.id))
+        .innerJoin(events, eq(orders.eventId, events.id))
+        .where(eq(orders.id, orderId))
+        .limit(1);
+    if (!row) return;
+
+    const purchasedBy = row.taxName || getFullName(row.buyerFirstName, row.buyerMiddleName, row.buyerLastName);
+    for (const [i, seat] of seats.entries()) {
+        if (!seat.inviteEmail || !seat.inviteToken) continue;
+        if (i > 0) await delay(800);
+        try {
+            await sendGroupSeatInviteEmail(
+                seat.inviteEmail,
+                seat.inviteFirstName,
+                seat.inviteLastName,
+                row.eventName,
+                purchasedBy,
+                seat.inviteToken
+            );
+        } catch (error) {
+            fastify.log.error(`[GROUP-ORDER] Failed to email invite for seat ${seat.id}: ${error}`);
+        }
+    }
+}
+
+/** Confirmation with the registration code and QR after a seat is claimed. */
+export async function sendGroupSeatClaimedEmails(fastify: LogContext, registration: Registration): Promise<void> {
+    const [row] = await db
+        .select({ eventName: events.eventName, ticketName: ticketTypes.name })
+        .from(events)
+        .innerJoin(ticketTypes, eq(ticketTypes.id, registration.ticketTypeId))
+        .where(eq(events.id, registration.eventId))
+        .limit(1);
+    if (!row) return;
+
+    const sessionRows = await db
+        .select({ sessionName: sessions.sessionName, startTime: sessions.startTime, endTime: sessions.endTime })
+        .from(registrationSessions)
+        .innerJoin(sessions, eq(registrationSessions.sessionId, sessions.id))
+        .where(eq(registrationSessions.registrationId, registration.id))
+        .orderBy(asc(sessions.startTime));
+
+    try {
+        await sendGroupSeatClaimedEmail(
+            registration.email,
+            registration.firstName,
+            registration.middleName,
+            registration.lastName,
+            registration.regCode,
+            row.eventName,
+            row.ticketName,
+            sessionRows
+        );
+    } catch (error) {
+        fastify.log.error(`[GROUP-ORDER] Failed to email confirmation for registration ${registration.id}: ${error}`);
+    }
+}
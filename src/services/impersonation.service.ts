@@ -0,0 +1,170 @@
+import { randomUUID } from "crypto";
+import { and, count, desc, eq, gt, isNull, lt, type SQL } from "drizzle-orm";
+import { db } from "../database/index.js";
+import { memberImpersonations, ssoTokens, users, type MemberImpersonation } from "../database/schema.js";
+import { IMPERSONATION_DEFAULT_MINUTES } from "../constants/auth.js";
+import type { ImpersonatedBy } from "../types/index.js";
+import { getImpersonatedBy, revokeImpersonationSessions } from "./authSession.service.js";
+
+// One-time sign-in link lifetime (the impersonation itself lasts longer)
+const IMPERSONATION_LINK_EXPIRY_MS = 60_000;
+
+export type ImpersonationEndReason = "ended_by_staff" | "logout";
+
+export type ImpersonationStatus = "pending" | "unused" | "active" | "ended" | "expired";
+
+export interface StartImpersonationInput {
+    staffId: number;
+    staffEmail: string;
+    userId: number;
+    reason: string;
+    durationMinutes?: number;
+    ipAddress: string | null;
+}
+
+export interface ImpersonationListFilters {
+    staffId?: number;
+    userId?: number;
+    page: number;
+    limit: number;
+}
+
+function impersonationStatus(impersonation: MemberImpersonation, now = new Date()): ImpersonationStatus {
+    if (impersonation.endedAt) return "ended";
+    if (impersonation.startedAt) return impersonation.expiresAt > now ? "active" : "expired";
+    const linkExpiresAt = new Date(impersonation.createdAt.getTime() + IMPERSONATION_LINK_EXPIRY_MS);
+    return linkExpiresAt > now ? "pending" : "unused";
+}
+
+/**
+ * Record the impersonation and issue the one-time SSO token the staff member
+ * opens the web app with. The time box starts now, not when the link is used.
+ */
+export async function startImpersonation(input: StartImpersonationInput) {
+    const [target] = await db
+        .select({
+            id: users.id,
+            email: users.email,
+            firstName: users.firstName,
+            lastName: users.lastName,
+            status: users.status,
+        })
+        .from(users)
+        .where(eq(users.id, input.userId))
+        .limit(1);
+
+    if (!target) throw new Error("USER_NOT_FOUND");
+    if (target.status !== "active") throw new Error("USER_NOT_ACTIVE");
+
+    // Cleanup expired tokens (best-effort)
+    await db
+        .delete(ssoTokens)
+        .where(lt(ssoTokens.expiresAt, new Date()))
+        .catch(() => undefined);
+
+    const durationMinutes = input.durationMinutes ?? IMPERSONATION_DEFAULT_MINUTES;
+    const ssoToken = randomUUID();
+    const linkExpiresAt = new Date(Date.now() + IMPERSONATION_LINK_EXPIRY_MS);
+
+    const impersonation = await db.transaction(async (tx) => {
+        const [created] = await tx
+            .insert(memberImpersonations)
+            .values({
+                staffId: input.staffId,
+                staffEmail: input.staffEmail,
+                userId: target.id,
+                userEmail: target.email,
+                reason: input.reason,
+                ipAddress: input.ipAddress,
+                expiresAt: new Date(Date.now() + durationMinutes * 60_000),
+            })
+            .returning();
+
+        await tx.insert(ssoTokens).values({
+            token: ssoToken,
+            userId: target.id,
+            eventId: null,
+            expiresAt: linkExpiresAt,
+            sourceApp: "backoffice-impersonate",
+            targetApp: "accp-web",
+            impersonationId: created.id,
+        });
+
+        return created;
+    });
+
+    return { impersonation, target, ssoToken, linkExpiresAt };
+}
+
+/**
+ * The SSO token of an impersonation was exchanged: mark it started and return
+ * the claim for the attendee token, or null when it was ended or ran out first.
+ */
+export async function beginImpersonatedSignIn(impersonationId: number): Promise<ImpersonatedBy | null> {
+    await db
+        .update(memberImpersonations)
+        .set({ startedAt: new Date() })
+        .where(and(eq(memberImpersonations.id, impersonationId), isNull(memberImpersonations.startedAt)));
+    return getImpersonatedBy(impersonationId);
+}
+
+/**
+ * End an impersonation early and sign out its attendee session. Returns null
+ * when it does not exist; an impersonation that already ended is returned as is.
+ */
+export async function endImpersonation(
+    impersonationId: number,
+    reason: ImpersonationEndReason,
+    endedBy: number | null
+): Promise<MemberImpersonation | null> {
+    const [ended] = await db
+        .update(memberImpersonations)
+        .set({ endedAt: new Date(), endReason: reason, endedBy })
+        .where(
+            and(
+                eq(memberImpersonations.id, impersonationId),
+                isNull(memberImpersonations.endedAt),
+                gt(memberImpersonations.expiresAt, new Date())
+            )
+        )
+        .returning();
+
+    if (ended) {
+        await revokeImpersonationSessions(impersonationId);
+        return ended;
+    }
+
+    const [existing] = await db
+        .select()
+        .from(memberImpersonations)
+        .where(eq(memberImpersonations.id, impersonationId))
+        .limit(1);
+    return existing ?? null;
+}
+
+/** Impersonation records, newest first */
+export async function listImpersonations(filters: ImpersonationListFilters) {
+    const conditions: SQL[] = [];
+    if (filters.staffId) conditions.push(eq(memberImpersonations.staffId, filters.staffId));
+    if (filters.userId) conditions.push(eq(memberImpersonations.userId, filters.userId));
+    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [{ total }] = await db
+        .select({ total: count() })
+        .from(memberImpersonations)
+        .where(whereClause);
+
+    const rows = await db
+        .select()
+        .from(memberImpersonations)
+        .where(whereClause)
+        .orderBy(desc(memberImpersonations.createdAt))
+        .limit(filters.limit)
+        .offset((filters.page - 1) * filters.limit);
+
+    const now = new Date();
+    return {
+        impersonations: rows.map((row) => ({ ...row, status: impersonationStatus(row, now) })),
+        total,
+    };
+}
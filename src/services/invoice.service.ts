@@ -0,0 +1,354 @@
+import { PassThrough } from "stream";
+import { db } from "../database/index.js";
+import { events, orderItems, orders, payments, ticketTypes, users } from "../database/schema.js";
+import { and, asc, eq, gte, lt } from "drizzle-orm";
+import { generateReceiptToken } from "../utils/receiptToken.js";
+import { getFullName } from "../utils/name.js";
+import { settlePromoUsageSuccess } from "../utils/promoEngine.js";
+import {
+    generateProformaInvoicePdf,
+    type InvoiceBankAccount,
+} from "./receiptPdf.js";
+import { sendInvoiceCancelledEmail, sendProformaInvoiceEmail } from "./emailService.js";
+import { uploadToGoogleDrive } from "./googleDrive.js";
+import { transitionOrder } from "./orderEvents.service.js";
+import {
+    parseWorkshopSessionIdFromDetails,
+    processSuccessfulPayment,
+    releaseOrderReservations,
+} from "./paymentProcessing.js";
+import type { LogContext } from "../types/index.js";
+
+// Days an institution has to transfer the amount of a proforma invoice (configurable via env, default 14)
+export const INVOICE_DUE_DAYS = parseInt(process.env.INVOICE_DUE_DAYS || "14", 10);
+
+export const INVOICE_PAYMENT_PROVIDER = "invoice" as const;
+
+export function getInvoiceDueDate(now: Date = new Date()): Date {
+    return new Date(now.getTime() + INVOICE_DUE_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/** Account printed on proforma invoices; null until INVOICE_BANK_* is configured. */
+export function getInvoiceBankAccount(): InvoiceBankAccount | null {
+    const bankName = process.env.INVOICE_BANK_NAME?.trim();
+    const accountName = process.env.INVOICE_BANK_ACCOUNT_NAME?.trim();
+    const accountNumber = process.env.INVOICE_BANK_ACCOUNT_NUMBER?.trim();
+    if (!bankName || !accountName || !accountNumber) return null;
+
+    return {
+        bankName,
+        accountName,
+        accountNumber,
+        branch: process.env.INVOICE_BANK_BRANCH?.trim() || null,
+        swiftCode: process.env.INVOICE_BANK_SWIFT?.trim() || null,
+    };
+}
+
+function getPublicApiBaseUrl(): string {
+    const raw = (process.env.API_BASE_URL || "http://localhost:3002")
+        .trim()
+        .replace(/^['"]|['"]$/g, "");
+    return raw.replace(/\/+$/, "");
+}
+
+/** Download link of the proforma invoice; signed with the order's receipt token. */
+export function buildInvoiceUrl(orderId: number): string {
+    return `${getPublicApiBaseUrl()}/api/payments/invoice/${generateReceiptToken(orderId)}`;
+}
+
+function toPlainObject(value: unknown): Record<string, unknown> {
+    return value && typeof value === "object" && !Array.isArray(value)
+        ? (value as Record<string, unknown>)
+        : {};
+}
+
+async function streamToBuffer(stream: PassThrough): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) chunks.push(chunk as Buffer);
+    return Buffer.concat(chunks);
+}
+
+/** A bank-transfer order with its payment row. */
+async function findInvoiceOrder(orderId: number) {
+    const [row] = await db
+        .select({ order: orders, payment: payments })
+        .from(orders)
+        .innerJoin(payments, eq(payments.orderId, orders.id))
+        .where(and(eq(orders.id, orderId), eq(payments.paymentProvider, INVOICE_PAYMENT_PROVIDER)))
+        .limit(1);
+    return row ?? null;
+}
+
+/**
+ * Render the proforma invoice of a bank-transfer order that is still awaiting
+ * payment. Paid orders get a receipt instead.
+ */
+export async function generateOrderProformaInvoice(orderId: number) {
+    const row = await findInvoiceOrder(orderId);
+    if (!row) throw new Error("INVOICE_NOT_FOUND");
+    const { order, payment } = row;
+    if (order.status !== "pending") throw new Error("INVOICE_NOT_PENDING");
+
+    const [user] = await db
+        .select({
+            email: users.email,
+            firstName: users.firstName,
+            middleName: users.middleName,
+            lastName: users.lastName,
+        })
+        .from(users)
+        .where(eq(users.id, order.userId))
+        .limit(1);
+    if (!user) throw new Error("INVOICE_NOT_FOUND");
+
+    const items = await db
+        .select({
+            name: ticketTypes.name,
+            type: orderItems.itemType,
+            price: orderItems.price,
+            quantity: orderItems.quantity,
+        })
+        .from(orderItems)
+        .innerJoin(ticketTypes, eq(orderItems.ticketTypeId, ticketTypes.id))
+        .where(eq(orderItems.orderId, orderId))
+        .orderBy(asc(orderItems.id));
+
+    const [event] = order.eventId
+        ? await db.select({ eventName: events.eventName }).from(events).where(eq(events.id, order.eventId)).limit(1)
+        : [];
+
+    const subtotal = items.reduce((sum, item) => sum + Number(item.price) * item.quantity, 0);
+    const total = Number(order.totalAmount);
+    const dueAt = order.invoiceDueAt ?? getInvoiceDueDate(order.createdAt);
+
+    const pdf = await generateProformaInvoicePdf({
+        orderNumber: order.orderNumber,
+        issuedAt: order.createdAt,
+        dueAt,
+        bankAccount: getInvoiceBankAccount(),
+        currency: order.currency,
+        eventName: event?.eventName || undefined,
+        items: items.map((item) => ({
+            name: item.name,
+            type: item.type as "ticket" | "addon",
+            price: Number(item.price),
+            quantity: item.quantity,
+        })),
+        subtotal,
+        discount: Number(order.discountAmount || 0),
+        promoCode: order.promoCode,
+        fee: 0,
+        total,
+        customerName: getFullName(user.firstName, user.middleName, user.lastName),
+        customerEmail: user.email,
+        taxInvoice: order.needTaxInvoice
+            ? { taxName: order.taxName, taxId: order.taxId, taxFullAddress: order.taxFullAddress }
+            : undefined,
+    });
+
+    return { order, payment, user, dueAt, total, pdf };
+}
+
+/** Email the proforma invoice (PDF attached) to the buyer. */
+export async function sendInvoiceEmail(orderId: number): Promise<void> {
+    const { order, user, dueAt, total, pdf } = await generateOrderProformaInvoice(orderId);
+    const invoicePdf = await streamToBuffer(pdf);
+
+    await sendProformaInvoiceEmail(
+        user.email,
+        user.firstName,
+        user.middleName,
+        user.lastName,
+        order.orderNumber,
+        total,
+        order.currency,
+        dueAt,
+        buildInvoiceUrl(order.id),
+        invoicePdf
+    );
+}
+
+/** Backoffice list of invoices awaiting a transfer, earliest due first. */
+export async function listPendingInvoices(filters: { eventId?: number; overdue?: boolean }) {
+    const now = new Date();
+    return db
+        .select({
+            orderId: orders.id,
+            orderNumber: orders.orderNumber,
+            eventId: orders.eventId,
+            totalAmount: orders.totalAmount,
+            currency: orders.currency,
+            isGroupOrder: orders.isGroupOrder,
+            invoiceDueAt: orders.invoiceDueAt,
+            createdAt: orders.createdAt,
+            paymentId: payments.id,
+            providerRef: payments.providerRef,
+            user: {
+                id: users.id,
+                email: users.email,
+                firstName: users.firstName,
+                middleName: users.middleName,
+                lastName: users.lastName,
+            },
+            taxName: orders.taxName,
+        })
+        .from(orders)
+        .innerJoin(payments, eq(payments.orderId, orders.id))
+        .innerJoin(users, eq(orders.userId, users.id))
+        .where(
+            and(
+                eq(orders.status, "pending"),
+                eq(payments.paymentProvider, INVOICE_PAYMENT_PROVIDER),
+                filters.eventId ? eq(orders.eventId, filters.eventId) : undefined,
+                filters.overdue === true ? lt(orders.invoiceDueAt, now) : undefined,
+                filters.overdue === false ? gte(orders.invoiceDueAt, now) : undefined
+            )
+        )
+        .orderBy(asc(orders.invoiceDueAt));
+}
+
+/**
+ * Staff confirm that the transfer of an invoice arrived. The slip is uploaded
+ * to Drive and kept on the payment row, and the order goes through the same
+ * paid path as a gateway payment (registrations or group seats, sold counts,
+ * seat holds).
+ */
+export async function confirmInvoicePayment(
+    fastify: Parameters<typeof processSuccessfulPayment>[0],
+    input: {
+        orderId: number;
+        staffId: number;
+        slip: { buffer: Buffer; fileName: string; mimeType: string };
+        paidAt?: Date;
+        bankReference?: string | null;
+        note?: string | null;
+    }
+) {
+    const row = await findInvoiceOrder(input.orderId);
+    if (!row) throw new Error("INVOICE_NOT_FOUND");
+    const { order, payment } = row;
+    if (order.status !== "pending") throw new Error("INVOICE_NOT_PENDING");
+
+    let slipUrl: string;
+    try {
+        slipUrl = await uploadToGoogleDrive(
+            input.slip.buffer,
+            `${order.orderNumber}-${input.slip.fileName}`,
+            input.slip.mimeType,
+            "payment_slips"
+        );
+    } catch (error) {
+        fastify.log.error(`[INVOICE] Slip upload failed for order ${order.id}: ${error}`);
+        throw new Error("INVOICE_SLIP_UPLOAD_FAILED");
+    }
+
+    const paidAt = input.paidAt ?? new Date();
+    const details = {
+        ...toPlainObject(payment.paymentDetails),
+        transferSlip: {
+            url: slipUrl,
+            fileName: input.slip.fileName,
+            uploadedBy: input.staffId,
+            uploadedAt: new Date().toISOString(),
+        },
+        bankReference: input.bankReference || null,
+        transferredAt: paidAt.toISOString(),
+        confirmedBy: input.staffId,
+        confirmNote: input.note || null,
+    };
+
+    const result = await processSuccessfulPayment(
+        fastify,
+        order.id,
+        payment.providerRef || `INV-${order.orderNumber}`,
+        parseWorkshopSessionIdFromDetails(payment.paymentDetails),
+        null,
+        "bank_transfer",
+        INVOICE_PAYMENT_PROVIDER,
+        "PAID",
+        details,
+        {
+            source: "staff",
+            staffId: input.staffId,
+            paymentId: payment.id,
+            note: input.note || "Bank transfer confirmed",
+        }
+    );
+    if (!result) throw new Error("INVOICE_NOT_PENDING");
+
+    // The transfer date from the slip, not the moment staff got to it
+    if (input.paidAt) {
+        await db.update(payments).set({ paidAt }).where(eq(payments.id, payment.id));
+    }
+    await settlePromoUsageSuccess(order.id);
+
+    return { orderId: order.id, orderNumber: order.orderNumber, regCode: result.regCode };
+}
+
+/**
+ * Cancel invoice orders still unpaid after their due date and give their
+ * seats back (waitlist first). Run from cron via
+ * src/scripts/cancel-overdue-invoices.ts.
+ */
+export async function cancelOverdueInvoices(fastify: LogContext, now: Date = new Date()) {
+    const overdue = await db
+        .select({
+            orderId: orders.id,
+            orderNumber: orders.orderNumber,
+            invoiceDueAt: orders.invoiceDueAt,
+            paymentId: payments.id,
+            email: users.email,
+            firstName: users.firstName,
+            middleName: users.middleName,
+            lastName: users.lastName,
+        })
+        .from(orders)
+        .innerJoin(payments, eq(payments.orderId, orders.id))
+        .innerJoin(users, eq(orders.userId, users.id))
+        .where(
+            and(
+                eq(orders.status, "pending"),
+                eq(payments.paymentProvider, INVOICE_PAYMENT_PROVIDER),
+                lt(orders.invoiceDueAt, now)
+            )
+        )
+        .orderBy(asc(orders.invoiceDueAt));
+
+    const cancelled: { orderId: number; orderNumber: string }[] = [];
+    for (const invoice of overdue) {
+        const applied = await db.transaction(async (tx) => {
+            const transition = await transitionOrder(tx, invoice.orderId, "cancelled", {
+                source: "system",
+                paymentId: invoice.paymentId,
+                paymentStatus: "cancelled",
+                note: "Invoice overdue",
+            });
+            if (!transition.applied) return false;
+
+            await tx
+                .update(payments)
+                .set({ status: "cancelled", providerStatus: "OVERDUE" })
+                .where(eq(payments.id, invoice.paymentId));
+            return true;
+        });
+        if (!applied) continue;
+
+        await releaseOrderReservations(fastify, invoice.orderId, "cancelled");
+        cancelled.push({ orderId: invoice.orderId, orderNumber: invoice.orderNumber });
+
+        try {
+            await sendInvoiceCancelledEmail(
+                invoice.email,
+                invoice.firstName,
+                invoice.middleName,
+                invoice.lastName,
+                invoice.orderNumber,
+                invoice.invoiceDueAt!
+            );
+        } catch (error) {
+            fastify.log.error(`[INVOICE] Failed to send cancellation email for order ${invoice.orderId}: ${error}`);
+        }
+    }
+
+    return cancelled;
+}
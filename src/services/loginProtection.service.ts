@@ -0,0 +1,205 @@
+import type { FastifyRequest } from "fastify";
+import { and, count, desc, eq, sql } from "drizzle-orm";
+import { db } from "../database/index.js";
+import { backofficeUsers, loginHistory, users } from "../database/schema.js";
+import {
+    LOGIN_LOCKOUT_BASE_MS,
+    LOGIN_LOCKOUT_MAX_MS,
+    LOGIN_MAX_FAILED_ATTEMPTS,
+    type TokenAudience,
+} from "../constants/auth.js";
+import type { SessionOwner } from "./authSession.service.js";
+import { sendAccountLockedEmail, sendNewDeviceLoginEmail } from "./emailService.js";
+
+export type LoginFailureReason =
+    | "unknown_account"
+    | "invalid_password"
+    | "invalid_second_factor"
+    | "locked"
+    | "inactive";
+
+/** The account a sign-in attempt was made against (for counters and notifications) */
+export interface LoginAccount {
+    owner: SessionOwner;
+    email: string;
+    firstName: string;
+}
+
+interface LockState {
+    failedLoginAttempts: number;
+    lockoutCount: number;
+    lockedUntil: Date | null;
+}
+
+// Wrong credentials count towards a lockout; refusals of a locked or inactive account do not
+const COUNTED_FAILURES: LoginFailureReason[] = ["invalid_password", "invalid_second_factor"];
+
+function historyOwnerCondition(owner: SessionOwner) {
+    return "userId" in owner
+        ? eq(loginHistory.userId, owner.userId)
+        : eq(loginHistory.staffId, owner.staffId);
+}
+
+function requestDevice(request: FastifyRequest) {
+    return {
+        ipAddress: request.ip,
+        userAgent: request.headers["user-agent"]?.slice(0, 500) ?? null,
+    };
+}
+
+async function insertHistory(
+    request: FastifyRequest,
+    audience: TokenAudience,
+    identifier: string,
+    owner: SessionOwner | null,
+    outcome: { success: boolean; failureReason?: LoginFailureReason; newDevice?: boolean }
+) {
+    await db.insert(loginHistory).values({
+        audience,
+        userId: owner && "userId" in owner ? owner.userId : null,
+        staffId: owner && "staffId" in owner ? owner.staffId : null,
+        identifier: identifier.slice(0, 255),
+        success: outcome.success,
+        failureReason: outcome.failureReason ?? null,
+        newDevice: outcome.newDevice ?? false,
+        ...requestDevice(request),
+    });
+}
+
+async function incrementFailedAttempts(owner: SessionOwner): Promise<LockState | undefined> {
+    if ("userId" in owner) {
+        const [row] = await db
+            .update(users)
+            .set({ failedLoginAttempts: sql`${users.failedLoginAttempts} + 1` })
+            .where(eq(users.id, owner.userId))
+            .returning({
+                failedLoginAttempts: users.failedLoginAttempts,
+                lockoutCount: users.lockoutCount,
+                lockedUntil: users.lockedUntil,
+            });
+        return row;
+    }
+    const [row] = await db
+        .update(backofficeUsers)
+        .set({ failedLoginAttempts: sql`${backofficeUsers.failedLoginAttempts} + 1` })
+        .where(eq(backofficeUsers.id, owner.staffId))
+        .returning({
+            failedLoginAttempts: backofficeUsers.failedLoginAttempts,
+            lockoutCount: backofficeUsers.lockoutCount,
+            lockedUntil: backofficeUsers.lockedUntil,
+        });
+    return row;
+}
+
+async function setLockState(owner: SessionOwner, state: LockState): Promise<boolean> {
+    const updated =
+        "userId" in owner
+            ? await db.update(users).set(state).where(eq(users.id, owner.userId)).returning({ id: users.id })
+            : await db
+                  .update(backofficeUsers)
+                  .set(state)
+                  .where(eq(backofficeUsers.id, owner.staffId))
+                  .returning({ id: backofficeUsers.id });
+    return updated.length > 0;
+}
+
+/** Lockout length for the next lockout after `lockoutCount` earlier ones in a row */
+function lockoutDurationMs(lockoutCount: number): number {
+    return Math.min(LOGIN_LOCKOUT_BASE_MS * 2 ** lockoutCount, LOGIN_LOCKOUT_MAX_MS);
+}
+
+/** When the account's lock expires, or null if it is not locked */
+export function activeLockUntil(lockedUntil: Date | null): Date | null {
+    return lockedUntil && lockedUntil > new Date() ? lockedUntil : null;
+}
+
+/**
+ * Record a failed sign-in. Wrong passwords and 2FA codes count towards a
+ * lockout; the attempt that reaches LOGIN_MAX_FAILED_ATTEMPTS locks the
+ * account and emails the owner. Returns the lock expiry when this attempt
+ * locked the account.
+ */
+export async function recordLoginFailure(
+    request: FastifyRequest,
+    audience: TokenAudience,
+    identifier: string,
+    account: LoginAccount | null,
+    reason: LoginFailureReason
+): Promise<Date | null> {
+    await insertHistory(request, audience, identifier, account?.owner ?? null, {
+        success: false,
+        failureReason: reason,
+    });
+    if (!account || !COUNTED_FAILURES.includes(reason)) return null;
+
+    const state = await incrementFailedAttempts(account.owner);
+    if (!state || state.failedLoginAttempts < LOGIN_MAX_FAILED_ATTEMPTS) return null;
+
+    const lockedUntil = new Date(Date.now() + lockoutDurationMs(state.lockoutCount));
+    await setLockState(account.owner, {
+        failedLoginAttempts: 0,
+        lockoutCount: state.lockoutCount + 1,
+        lockedUntil,
+    });
+
+    sendAccountLockedEmail(account.email, account.firstName, lockedUntil, "staffId" in account.owner).catch(
+        (error) => request.log.error(`[LOGIN] Lockout email failed for ${account.email}: ${error}`)
+    );
+    return lockedUntil;
+}
+
+/**
+ * Record a successful sign-in: clears the failure counters and, when the
+ * user agent has not signed in to this account before, emails the owner.
+ * The very first sign-in of an account is not reported.
+ */
+export async function recordLoginSuccess(
+    request: FastifyRequest,
+    audience: TokenAudience,
+    identifier: string,
+    account: LoginAccount
+): Promise<void> {
+    const { ipAddress, userAgent } = requestDevice(request);
+
+    const sameDevice = sql`${loginHistory.userAgent} is not distinct from ${userAgent}`;
+    const [seen] = await db
+        .select({
+            signIns: count(),
+            fromDevice: sql<number>`count(*) filter (where ${sameDevice})`.mapWith(Number),
+        })
+        .from(loginHistory)
+        .where(and(historyOwnerCondition(account.owner), eq(loginHistory.success, true)));
+    const newDevice = seen.signIns > 0 && seen.fromDevice === 0;
+
+    await setLockState(account.owner, { failedLoginAttempts: 0, lockoutCount: 0, lockedUntil: null });
+    await insertHistory(request, audience, identifier, account.owner, { success: true, newDevice });
+
+    if (newDevice) {
+        sendNewDeviceLoginEmail(account.email, account.firstName, new Date(), ipAddress, userAgent).catch((error) =>
+            request.log.error(`[LOGIN] New device email failed for ${account.email}: ${error}`)
+        );
+    }
+}
+
+/** Lift a lockout and clear the counters. Returns false when the account does not exist. */
+export async function unlockAccount(owner: SessionOwner): Promise<boolean> {
+    return setLockState(owner, { failedLoginAttempts: 0, lockoutCount: 0, lockedUntil: null });
+}
+
+/** Sign-in attempts of an account, newest first */
+export async function listLoginHistory(owner: SessionOwner, limit = 50) {
+    return db
+        .select({
+            id: loginHistory.id,
+            success: loginHistory.success,
+            failureReason: loginHistory.failureReason,
+            newDevice: loginHistory.newDevice,
+            ipAddress: loginHistory.ipAddress,
+            userAgent: loginHistory.userAgent,
+            createdAt: loginHistory.createdAt,
+        })
+        .from(loginHistory)
+        .where(historyOwnerCondition(owner))
+        .orderBy(desc(loginHistory.createdAt))
+        .limit(limit);
+}
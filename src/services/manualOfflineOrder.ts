@@ -11,6 +11,7 @@ import {
 import { sendPaymentReceiptEmail } from "./emailService.js";
 import { generateReceiptToken } from "../utils/receiptToken.js";
 import { buildChargeNote, resolveChargeDisplay } from "../utils/alipayCharge.js";
+import { recordOrderEvent } from "./orderEvents.service.js";
 
 export type OfflinePaymentChannel = "card" | "alipay" | "promptpay";
 
@@ -127,7 +128,7 @@ export async function createManualOfflineOrder(
     });
   }
 
-  await tx.insert(payments).values({
+  const [payment] = await tx.insert(payments).values({
     orderId: order.id,
     amount: String(totalAmount),
     status: "paid",
@@ -144,6 +145,15 @@ export async function createManualOfflineOrder(
       manualAmount: totalAmount,
       manualCurrency: OFFLINE_PAYMENT_CURRENCY,
     },
+  }).returning({ id: payments.id });
+
+  await recordOrderEvent(tx, order.id, { type: "created", toStatus: "paid" }, {
+    source: "staff",
+    staffId,
+    paymentId: payment.id,
+    paymentStatus: "paid",
+    providerRef: `MANUAL-${order.orderNumber}`,
+    note: note || `Offline ${offlinePayment.channel} payment`,
   });
 
   return {
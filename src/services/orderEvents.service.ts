@@ -0,0 +1,185 @@
+import { db } from "../database/index.js";
+import { backofficeUsers, orderEvents, orders, orderStatusEnum, users } from "../database/schema.js";
+import { and, asc, eq } from "drizzle-orm";
+
+export type OrderStatus = (typeof orderStatusEnum.enumValues)[number];
+
+/** Where a change came from. */
+export type OrderEventSource =
+    | "checkout"
+    | "cancel_intent"
+    | "stripe_webhook"
+    | "pay_solutions_postback"
+    | "ktb_datafeed"
+    | "verify"
+    | "status_poll"
+    | "browser_return"
+    | "staff"
+    | "refund"
+    | "reconciliation"
+    | "system";
+
+export interface OrderEventContext {
+    source: OrderEventSource;
+    staffId?: number | null;
+    userId?: number | null;
+    paymentId?: number | null;
+    /** Payment row status written together with this change */
+    paymentStatus?: string | null;
+    providerRef?: string | null;
+    /** Reference to the raw provider payload (Stripe event id, Pay Solutions refno, KTB orderRef, …) */
+    payloadRef?: string | null;
+    payload?: unknown;
+    /** Callbacks carrying a key that was already recorded are not applied again */
+    idempotencyKey?: string | null;
+    note?: string | null;
+}
+
+export interface OrderTransitionResult {
+    /** The status was changed by this call */
+    applied: boolean;
+    /** applied, or the order already had the target status — callers may go on with side effects */
+    allowed: boolean;
+    from: OrderStatus | null;
+    reason?: "not_found" | "unchanged" | "illegal" | "duplicate" | "conflict";
+}
+
+/**
+ * Legal order moves. A cancelled order may still become paid: providers can
+ * confirm a capture after the intent was cancelled or timed out.
+ */
+const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+    pending: ["paid", "cancelled"],
+    cancelled: ["paid"],
+    paid: ["refunded"],
+    refunded: [],
+};
+
+export const canTransitionOrder = (from: OrderStatus, to: OrderStatus): boolean =>
+    ORDER_TRANSITIONS[from].includes(to);
+
+export async function recordOrderEvent(
+    executor: any,
+    orderId: number,
+    event: { type: string; fromStatus?: string | null; toStatus?: string | null },
+    context: OrderEventContext
+): Promise<void> {
+    await executor
+        .insert(orderEvents)
+        .values({
+            orderId,
+            paymentId: context.paymentId ?? null,
+            type: event.type,
+            fromStatus: event.fromStatus ?? null,
+            toStatus: event.toStatus ?? null,
+            paymentStatus: context.paymentStatus ?? null,
+            source: context.source,
+            staffId: context.staffId ?? null,
+            userId: context.userId ?? null,
+            providerRef: context.providerRef ?? null,
+            payloadRef: context.payloadRef ?? null,
+            payload: context.payload ?? null,
+            idempotencyKey: context.idempotencyKey ?? null,
+            note: context.note ?? null,
+        })
+        .onConflictDoNothing({ target: orderEvents.idempotencyKey });
+}
+
+/**
+ * Move an order to a new status if the state machine allows it, and log the
+ * transition. Illegal moves (e.g. paid → pending) are not applied but logged
+ * as transition_rejected so they show up in the timeline; the reason is
+ * returned for the caller to log.
+ *
+ * The write only applies while the order still has the status it was checked
+ * against, so concurrent callers (webhooks, polls, returns) outside a
+ * transaction cannot both move it; the loser gets reason "conflict".
+ */
+export async function transitionOrder(
+    executor: any,
+    orderId: number,
+    to: OrderStatus,
+    context: OrderEventContext
+): Promise<OrderTransitionResult> {
+    const [order] = await executor
+        .select({ status: orders.status })
+        .from(orders)
+        .where(eq(orders.id, orderId))
+        .for("update");
+    if (!order) return { applied: false, allowed: false, from: null, reason: "not_found" };
+
+    const from = order.status as OrderStatus;
+
+    if (context.idempotencyKey) {
+        const [seen] = await executor
+            .select({ id: orderEvents.id })
+            .from(orderEvents)
+            .where(eq(orderEvents.idempotencyKey, context.idempotencyKey))
+            .limit(1);
+        if (seen) return { applied: false, allowed: false, from, reason: "duplicate" };
+    }
+
+    if (from === to) return { applied: false, allowed: true, from, reason: "unchanged" };
+
+    if (!canTransitionOrder(from, to)) {
+        await recordOrderEvent(
+            executor,
+            orderId,
+            { type: "transition_rejected", fromStatus: from, toStatus: to },
+            { ...context, idempotencyKey: null }
+        );
+        return { applied: false, allowed: false, from, reason: "illegal" };
+    }
+
+    const updated = await executor
+        .update(orders)
+        .set({ status: to })
+        .where(and(eq(orders.id, orderId), eq(orders.status, from)))
+        .returning({ id: orders.id });
+    if (updated.length === 0) {
+        await recordOrderEvent(
+            executor,
+            orderId,
+            { type: "transition_rejected", fromStatus: from, toStatus: to },
+            { ...context, idempotencyKey: null, note: context.note ?? "Order status changed concurrently" }
+        );
+        return { applied: false, allowed: false, from, reason: "conflict" };
+    }
+    await recordOrderEvent(executor, orderId, { type: "status_changed", fromStatus: from, toStatus: to }, context);
+    return { applied: true, allowed: true, from };
+}
+
+/** Backoffice timeline of an order, oldest first. */
+export async function getOrderTimeline(orderId: number) {
+    return db
+        .select({
+            id: orderEvents.id,
+            type: orderEvents.type,
+            fromStatus: orderEvents.fromStatus,
+            toStatus: orderEvents.toStatus,
+            paymentId: orderEvents.paymentId,
+            paymentStatus: orderEvents.paymentStatus,
+            source: orderEvents.source,
+            providerRef: orderEvents.providerRef,
+            payloadRef: orderEvents.payloadRef,
+            payload: orderEvents.payload,
+            idempotencyKey: orderEvents.idempotencyKey,
+            note: orderEvents.note,
+            createdAt: orderEvents.createdAt,
+            staff: {
+                id: backofficeUsers.id,
+                email: backofficeUsers.email,
+                firstName: backofficeUsers.firstName,
+                lastName: backofficeUsers.lastName,
+            },
+            user: {
+                id: users.id,
+                email: users.email,
+            },
+        })
+        .from(orderEvents)
+        .leftJoin(backofficeUsers, eq(orderEvents.staffId, backofficeUsers.id))
+        .leftJoin(users, eq(orderEvents.userId, users.id))
+        .where(eq(orderEvents.orderId, orderId))
+        .orderBy(asc(orderEvents.createdAt), asc(orderEvents.id));
+}
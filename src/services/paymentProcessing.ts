@@ -0,0 +1,509 @@
+import { db } from "../database/index.js";
+import {
+  orders,
+  orderItems,
+  payments,
+  ticketTypes,
+  registrations,
+  registrationSessions,
+  users,
+  sessions,
+  ticketSessions,
+} from "../database/schema.js";
+import { eq, and, sql, count, desc } from "drizzle-orm";
+import { cancelPromoUsage } from "../utils/promoEngine.js";
+import { markWaitlistPurchased, releaseWaitlistSeats, type WaitlistTarget } from "./waitlist.service.js";
+import { convertOrderSeatHolds, releaseOrderSeatHolds, type SeatHoldReleaseReason } from "./seatHold.service.js";
+import { transitionOrder, type OrderEventContext } from "./orderEvents.service.js";
+import { createGroupOrderSeats } from "./groupOrder.service.js";
+import { issuePaidOrderTaxInvoice, sendTaxInvoice } from "./taxInvoice.service.js";
+import type { LogContext } from "../types/index.js";
+
+// Shared order/payment processing used by the provider callbacks (webhook,
+// postbacks, datafeed), the verify/status endpoints and payment reconciliation.
+
+function generateRegCode(): string {
+  const ts = Date.now().toString(36).toUpperCase();
+  const rand = Math.random().toString(36).substring(2, 8).toUpperCase();
+  return `REG-${ts}${rand}`;
+}
+
+export function parseWorkshopSessionIdFromDetails(details: unknown): number | null {
+  if (!details || typeof details !== "object" || Array.isArray(details)) {
+    return null;
+  }
+
+  const raw = (details as Record<string, unknown>).workshopSessionId;
+  if (raw === undefined || raw === null || raw === "") {
+    return null;
+  }
+
+  const parsed = typeof raw === "number" ? raw : parseInt(String(raw), 10);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
+
+async function findConfirmedRegistrationForEvent(
+  tx: any,
+  userId: number,
+  eventId: number,
+  logger?: { warn?: (...args: any[]) => void }
+) {
+  const existingRegistrations = await tx
+    .select({
+      id: registrations.id,
+      regCode: registrations.regCode,
+      eventId: registrations.eventId,
+    })
+    .from(registrations)
+    .where(
+      and(
+        eq(registrations.userId, userId),
+        eq(registrations.eventId, eventId),
+        eq(registrations.status, "confirmed")
+      )
+    )
+    .orderBy(desc(registrations.id))
+    .limit(2);
+
+  if (existingRegistrations.length > 1) {
+    logger?.warn?.(
+      `[PAYMENTS] Multiple confirmed registrations found for user=${userId}, event=${eventId}; using latest registrationId=${existingRegistrations[0].id}`
+    );
+  }
+
+  return existingRegistrations[0] || null;
+}
+
+async function resolveOrderEventId(tx: any, order: { id: number; eventId: number | null }) {
+  if (order.eventId) {
+    return order.eventId;
+  }
+
+  const [primaryTicket] = await tx
+    .select({ eventId: ticketTypes.eventId })
+    .from(orderItems)
+    .innerJoin(ticketTypes, eq(orderItems.ticketTypeId, ticketTypes.id))
+    .where(and(eq(orderItems.orderId, order.id), eq(orderItems.itemType, "ticket")))
+    .limit(1);
+
+  if (primaryTicket?.eventId) {
+    return primaryTicket.eventId;
+  }
+
+  const [registrationEvent] = await tx
+    .select({ eventId: registrations.eventId })
+    .from(registrations)
+    .where(eq(registrations.orderId, order.id))
+    .orderBy(desc(registrations.id))
+    .limit(1);
+
+  if (registrationEvent?.eventId) {
+    return registrationEvent.eventId;
+  }
+
+  const legacyOrderEvents = await tx
+    .select({ eventId: ticketTypes.eventId })
+    .from(orderItems)
+    .innerJoin(ticketTypes, eq(orderItems.ticketTypeId, ticketTypes.id))
+    .where(eq(orderItems.orderId, order.id))
+    .groupBy(ticketTypes.eventId)
+    .limit(2);
+
+  return legacyOrderEvents.length === 1 ? legacyOrderEvents[0].eventId : null;
+}
+
+/**
+ * A pending order was cancelled or failed: give back its promo reservation and
+ * seat holds, and offer the seats it was competing for to the waitlist.
+ */
+export async function releaseOrderReservations(
+  fastify: LogContext,
+  orderId: number,
+  reason: SeatHoldReleaseReason = "failed"
+) {
+  await cancelPromoUsage(orderId);
+
+  try {
+    await releaseOrderSeatHolds(orderId, reason);
+
+
+    const [items, [payment]] = await Promise.all([
+      db
+        .select({ ticketTypeId: orderItems.ticketTypeId })
+        .from(orderItems)
+        .where(eq(orderItems.orderId, orderId)),
+      db
+        .select({ paymentDetails: payments.paymentDetails })
+        .from(payments)
+        .where(eq(payments.orderId, orderId))
+        .limit(1),
+    ]);
+
+    const workshopSessionId = parseWorkshopSessionIdFromDetails(payment?.paymentDetails);
+    const targets: WaitlistTarget[] = [
+      ...items.map((item) => ({ ticketTypeId: item.ticketTypeId })),
+      ...(workshopSessionId ? [{ sessionId: workshopSessionId }] : []),
+    ];
+    await releaseWaitlistSeats(fastify, targets);
+  } catch (error) {
+    fastify.log.error(`[WAITLIST] Failed to release seats for order ${orderId}: ${error}`);
+  }
+}
+
+/**
+ * Process a successful payment: create registrations for ALL items + update soldCount.
+ * Group orders get unassigned seats instead of a registration.
+ * Orders that asked for a tax invoice get it issued and emailed once the payment
+ * is committed; a failure there is logged and does not undo the payment.
+ * Used by both webhook and verify endpoint.
+ * Returns { order, user } for email sending, or null if order not found or the
+ * paid transition was rejected / already recorded for this callback.
+ */
+export async function processSuccessfulPayment(
+  fastify: {
+    log: {
+      info: (...args: any[]) => void;
+      error: (...args: any[]) => void;
+      warn?: (...args: any[]) => void;
+    };
+  },
+  orderId: number,
+  providerRef: string,
+  workshopSessionId: number | null,
+  receiptUrl: string | null,
+  paymentChannel: string,
+  paymentProvider: "stripe" | "pay_solutions" | "ktb_fastpay" | "invoice" = "stripe",
+  providerStatus: string = "PAID",
+  paymentDetails: Record<string, unknown> | null = null,
+  eventContext: OrderEventContext = { source: "system" },
+): Promise<{
+  order: {
+    id: number;
+    userId: number;
+    orderNumber: string;
+    totalAmount: string;
+    currency: string;
+    status: string;
+    discountAmount: string | null;
+    promoCode: string | null;
+    needTaxInvoice: boolean;
+    taxName: string | null;
+    taxId: string | null;
+    taxAddress: string | null;
+    taxSubDistrict: string | null;
+    taxDistrict: string | null;
+    taxProvince: string | null;
+    taxPostalCode: string | null;
+    taxFullAddress: string | null;
+  };
+  user: { email: string; firstName: string; middleName: string | null; lastName: string };
+  regCode: string;
+} | null> {
+  const result = await db.transaction(async (tx) => {
+    // Update order status
+    const [order] = await tx
+      .select()
+      .from(orders)
+      .where(eq(orders.id, orderId))
+      .limit(1);
+
+    if (!order) return null;
+
+    // Replayed callbacks and illegal moves (e.g. a refunded order) are not processed again
+    const transition = await transitionOrder(tx, orderId, "paid", {
+      providerRef,
+      paymentStatus: "paid",
+      ...eventContext,
+    });
+    if (!transition.allowed) {
+      fastify.log.info(`Order ${orderId} not marked paid (${transition.reason}), skipping`);
+      return null;
+    }
+
+    // Update payment record
+    await tx
+      .update(payments)
+      .set({
+        status: "paid",
+        paymentChannel,
+        paymentProvider,
+        providerRef,
+        providerStatus,
+        paySolutionsChannel: paymentProvider === "pay_solutions" ? paymentChannel : undefined,
+        stripeReceiptUrl: paymentProvider === "stripe" ? receiptUrl : null,
+        paymentDetails: paymentDetails || undefined,
+        paidAt: new Date(),
+      })
+      .where(eq(payments.orderId, orderId));
+
+    // Get user info
+    const [user] = await tx
+      .select({
+        email: users.email,
+        firstName: users.firstName,
+        middleName: users.middleName,
+        lastName: users.lastName,
+      })
+      .from(users)
+      .where(eq(users.id, order.userId))
+      .limit(1);
+
+    if (!user) return null;
+
+    // Get order items
+    const items = await tx
+      .select({
+        id: orderItems.id,
+        itemType: orderItems.itemType,
+        ticketTypeId: orderItems.ticketTypeId,
+        price: orderItems.price,
+        quantity: orderItems.quantity,
+      })
+      .from(orderItems)
+      .where(eq(orderItems.orderId, orderId));
+
+    // ── Group order: open N seats, registrations are created as seats are claimed
+    if (order.isGroupOrder) {
+      const groupItem = items.find(i => i.itemType === "ticket");
+      const groupEventId = await resolveOrderEventId(tx, order);
+      if (!groupItem || !groupEventId) {
+        fastify.log.error(`Group order ${orderId} has no ticket item or event scope`);
+        return null;
+      }
+
+      const opened = await createGroupOrderSeats(tx, { id: orderId, eventId: groupEventId }, groupItem);
+      if (opened > 0) {
+        await tx
+          .update(ticketTypes)
+          .set({ soldCount: sql`${ticketTypes.soldCount} + ${groupItem.quantity}` })
+          .where(eq(ticketTypes.id, groupItem.ticketTypeId));
+      }
+      await convertOrderSeatHolds(tx, orderId);
+
+      fastify.log.info(`Group order ${orderId}: opened ${opened} seats of ticket ${groupItem.ticketTypeId}`);
+      return { order: { ...order, status: "paid" as string }, user, regCode: "" };
+    }
+
+    // Duplicate guard: check if registration already exists for this order
+    const existingRegCount = await tx
+      .select({ count: count() })
+      .from(registrations)
+      .where(eq(registrations.orderId, orderId));
+
+    if (existingRegCount[0].count > 0) {
+      fastify.log.info(`Registration already exists for order ${orderId}, skipping creation`);
+      const [existingReg] = await tx
+        .select({ regCode: registrations.regCode })
+        .from(registrations)
+        .where(eq(registrations.orderId, orderId))
+        .limit(1);
+      return { order: { ...order, status: "paid" as string }, user, regCode: existingReg?.regCode || "" };
+    }
+
+    const orderEventId = await resolveOrderEventId(tx, order);
+    if (!orderEventId) {
+      fastify.log.error(`Unable to resolve event scope for order ${orderId}`);
+      return null;
+    }
+
+    if (!order.eventId) {
+      fastify.log.warn?.(
+        `Order ${orderId} is missing eventId; using derived eventId=${orderEventId} for legacy compatibility`
+      );
+    }
+
+    // Find primary (ticket) item to determine whether this is a full order or addon-only order
+    const primaryItem = items.find(i => i.itemType === "ticket");
+    const isAddonOnlyOrder = !primaryItem;
+
+    let registration: { id: number };
+    let regCode: string;
+
+    if (isAddonOnlyOrder) {
+      // ── Addon-only order: use existing registration ────
+      const existingReg = await findConfirmedRegistrationForEvent(
+        tx,
+        order.userId,
+        orderEventId,
+        fastify.log
+      );
+
+      if (!existingReg) {
+        fastify.log.error(
+          `Addon-only order ${orderId} but no confirmed registration exists for user ${order.userId} in event ${orderEventId}`
+        );
+        return null;
+      }
+
+      registration = { id: existingReg.id };
+      regCode = existingReg.regCode;
+      fastify.log.info(`Addon-only order ${orderId}: using existing registration ${existingReg.id}`);
+    } else {
+      // ── Full order: create new registration ────────────
+      const [primaryTicket] = await tx
+        .select({ eventId: ticketTypes.eventId })
+        .from(ticketTypes)
+        .where(eq(ticketTypes.id, primaryItem.ticketTypeId))
+        .limit(1);
+
+      if (!primaryTicket?.eventId || primaryTicket.eventId !== orderEventId) {
+        fastify.log.error(
+          `Primary ticket event mismatch for order ${orderId}: orderEventId=${orderEventId}, ticketEventId=${primaryTicket?.eventId ?? "null"}`
+        );
+        return null;
+      }
+
+      regCode = generateRegCode();
+      const [newReg] = await tx.insert(registrations).values({
+        regCode,
+        orderId,
+        eventId: orderEventId,
+        ticketTypeId: primaryItem.ticketTypeId,
+        userId: order.userId,
+        email: user.email,
+        firstName: user.firstName,
+        middleName: user.middleName,
+        lastName: user.lastName,
+        status: "confirmed",
+      }).returning();
+
+      registration = { id: newReg.id };
+    }
+
+    // Create registration_sessions for each order item
+    let totalSessionLinks = 0;
+    const linkedSessionIds: number[] = [];
+    for (const item of items) {
+      const [ticket] = await tx
+        .select({ groupName: ticketTypes.groupName, eventId: ticketTypes.eventId })
+        .from(ticketTypes)
+        .where(eq(ticketTypes.id, item.ticketTypeId))
+        .limit(1);
+
+      if (!ticket || ticket.eventId !== orderEventId) {
+        fastify.log.error(
+          `[PROCESS-PAYMENT] Skipping item: ticket ${item.ticketTypeId} is outside order event scope (order ${orderId}, orderEventId=${orderEventId}, ticketEventId=${ticket?.eventId ?? "null"})`
+        );
+        continue;
+      }
+
+      // Determine which session(s) to link
+      let sessionIdsToLink: number[] = [];
+
+      // Check if this addon item is THE workshop the user chose.
+      // Use ticketSessions junction as source of truth (more reliable than groupName string match).
+      let isUserChosenWorkshop = false;
+      if (item.itemType === "addon" && workshopSessionId) {
+        const [linkedWorkshop] = await tx
+          .select({ id: ticketSessions.id })
+          .from(ticketSessions)
+          .innerJoin(sessions, eq(ticketSessions.sessionId, sessions.id))
+          .where(
+            and(
+              eq(ticketSessions.ticketTypeId, item.ticketTypeId),
+              eq(ticketSessions.sessionId, workshopSessionId),
+              eq(sessions.eventId, orderEventId)
+            )
+          )
+          .limit(1);
+        isUserChosenWorkshop = !!linkedWorkshop;
+      }
+
+      if (isUserChosenWorkshop) {
+        // User explicitly chose this workshop session at checkout
+        sessionIdsToLink = [workshopSessionId!];
+        fastify.log.info(
+          `[PROCESS-PAYMENT] Order ${orderId} item ${item.id} (ticket ${item.ticketTypeId}) → linking user-chosen workshop session ${workshopSessionId}`
+        );
+      } else {
+        // Primary or other addon → lookup sessions from ticketSessions junction
+        const linkedSessions = await tx
+          .select({ sessionId: ticketSessions.sessionId })
+          .from(ticketSessions)
+          .innerJoin(sessions, eq(ticketSessions.sessionId, sessions.id))
+          .where(
+            and(
+              eq(ticketSessions.ticketTypeId, item.ticketTypeId),
+              eq(sessions.eventId, orderEventId)
+            )
+          );
+
+        sessionIdsToLink = linkedSessions.map(ls => ls.sessionId);
+
+        // Fallback for primary tickets: if no ticket_sessions rows, auto-link to main session(s)
+        if (sessionIdsToLink.length === 0 && item.itemType === "ticket") {
+          const mainSessions = await tx
+            .select({ id: sessions.id })
+            .from(sessions)
+            .where(
+              and(
+                eq(sessions.eventId, orderEventId),
+                eq(sessions.isMainSession, true)
+              )
+            );
+          sessionIdsToLink = mainSessions.map(s => s.id);
+
+          // Backfill ticket_sessions so future lookups work
+          if (sessionIdsToLink.length > 0) {
+            await tx.insert(ticketSessions).values(
+              sessionIdsToLink.map(sid => ({
+                ticketTypeId: item.ticketTypeId,
+                sessionId: sid,
+              }))
+            );
+            fastify.log.info(`Backfilled ticket_sessions for primary ticket ${item.ticketTypeId} → ${sessionIdsToLink.length} main sessions`);
+          }
+        }
+      }
+
+      // Insert registration_sessions rows
+      for (const sid of sessionIdsToLink) {
+        await tx.insert(registrationSessions).values({
+          registrationId: registration.id,
+          sessionId: sid,
+          ticketTypeId: item.ticketTypeId,
+        });
+        linkedSessionIds.push(sid);
+        totalSessionLinks++;
+      }
+
+      // Update soldCount (unchanged)
+      await tx
+        .update(ticketTypes)
+        .set({
+          soldCount: sql`${ticketTypes.soldCount} + ${item.quantity}`,
+        })
+        .where(eq(ticketTypes.id, item.ticketTypeId));
+    }
+
+    // The seats held at checkout are now counted by soldCount / registrations
+    await convertOrderSeatHolds(tx, orderId);
+
+    // Close the buyer's waitlist entries (and their holds) for what was just bought
+    await markWaitlistPurchased(tx, order.userId, orderId, {
+      ticketTypeIds: items.map((i) => i.ticketTypeId),
+      sessionIds: linkedSessionIds,
+    });
+
+    fastify.log.info(`${isAddonOnlyOrder ? "Addon-only" : "Created 1 registration"} + ${totalSessionLinks} session links + updated soldCount for order ${orderId}`);
+
+    return { order: { ...order, status: "paid" as string }, user, regCode };
+  });
+
+  if (result?.order.needTaxInvoice && Number(result.order.totalAmount) > 0) {
+    try {
+      const taxInvoice = await issuePaidOrderTaxInvoice(orderId, eventContext.staffId);
+      if (taxInvoice) {
+        fastify.log.info(`Order ${orderId}: tax invoice ${taxInvoice.documentNumber} issued`);
+        sendTaxInvoice(taxInvoice.id).catch((error) =>
+          fastify.log.error(`Tax invoice email failed for order ${orderId} (invoice ${taxInvoice.id}): ${error}`)
+        );
+      }
+    } catch (error) {
+      fastify.log.error(`Tax invoice not issued for paid order ${orderId}: ${error}`);
+    }
+  }
+
+  return result;
+}
+
@@ -0,0 +1,597 @@
+import { db } from "../database/index.js";
+import {
+    orders,
+    paymentReconciliationItems,
+    paymentReconciliationRuns,
+    payments,
+    type NewPaymentReconciliationItem,
+    type Payment,
+    type PaymentReconciliationRun,
+} from "../database/schema.js";
+import { and, asc, desc, eq, gte, inArray, lte, sql } from "drizzle-orm";
+import type Stripe from "stripe";
+import { stripe } from "./stripe.js";
+import {
+    inquiryPayment,
+    isPaySolutionsFailedStatus,
+    isPaySolutionsPaidStatus,
+    isPaySolutionsRefundStatus,
+    normalizePaySolutionsChannel,
+    normalizePaySolutionsPayload,
+} from "./paySolutions.js";
+import {
+    isKtbPaymentCancelled,
+    isKtbPaymentFailed,
+    isKtbPaymentSuccess,
+    normalizeKtbPayMethod,
+} from "./ktbFastpay.js";
+import { parseWorkshopSessionIdFromDetails, processSuccessfulPayment } from "./paymentProcessing.js";
+import { sendOrderReceiptEmail } from "./manualOfflineOrder.js";
+import { settlePromoUsageSuccess } from "../utils/promoEngine.js";
+import type { LogContext } from "../types/index.js";
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Pause between provider API calls so a large run does not hit rate limits. */
+const PROVIDER_CALL_DELAY_MS = 300;
+const DEFAULT_LOOKBACK_DAYS = 30;
+const AMOUNT_TOLERANCE = 0.01;
+
+export type ReconciliationProvider = "stripe" | "pay_solutions" | "ktb_fastpay";
+
+export type ReconciliationKind =
+    | "paid_not_recorded"
+    | "status_mismatch"
+    | "amount_mismatch"
+    | "currency_mismatch"
+    | "missing_at_provider"
+    | "orphaned_provider_payment"
+    | "provider_error";
+
+export interface ReconciliationOptions {
+    /** Orders created from (default: 30 days ago) */
+    since?: Date;
+    until?: Date;
+    providers?: ReconciliationProvider[];
+    /** Run the success processor for payments the provider captured but we never recorded */
+    autoHeal?: boolean;
+}
+
+type ProviderState = "paid" | "pending" | "failed" | "cancelled" | "refunded";
+
+/** What the provider says about one local payment. */
+interface ProviderView {
+    state: ProviderState;
+    rawStatus: string;
+    amount: number | null;
+    currency: string | null;
+    providerRef: string;
+    /** Arguments for processSuccessfulPayment when healing */
+    channel: string;
+    receiptUrl: string | null;
+    workshopSessionId: number | null;
+    paymentDetails: Record<string, unknown> | null;
+    details: Record<string, unknown>;
+}
+
+function toPlainObject(value: unknown): Record<string, unknown> {
+    return value && typeof value === "object" && !Array.isArray(value)
+        ? (value as Record<string, unknown>)
+        : {};
+}
+
+function toAmount(value: unknown): number | null {
+    if (value === undefined || value === null || value === "") return null;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? Math.round(parsed * 100) / 100 : null;
+}
+
+// Pay Solutions reports "00" / "01", KTB ISO 4217 numeric codes
+const PROVIDER_CURRENCY_CODES: Record<string, string> = {
+    "00": "THB",
+    "01": "USD",
+    "764": "THB",
+    "840": "USD",
+};
+
+function normalizeCurrency(value: unknown): string | null {
+    const raw = String(value ?? "").trim().toUpperCase();
+    if (!raw) return null;
+    return PROVIDER_CURRENCY_CODES[raw] ?? raw;
+}
+
+async function inspectStripePayment(payment: Payment): Promise<ProviderView | null> {
+    if (!payment.stripeSessionId) return null;
+    let pi: Stripe.PaymentIntent;
+    try {
+        pi = await stripe.paymentIntents.retrieve(payment.stripeSessionId);
+    } catch (error: any) {
+        if (error?.code === "resource_missing") return null;
+        throw error;
+    }
+
+    const state: ProviderState =
+        pi.status === "succeeded"
+            ? "paid"
+            : pi.status === "canceled"
+              ? "cancelled"
+              : "pending";
+
+    let receiptUrl: string | null = null;
+    if (state === "paid" && typeof pi.latest_charge === "string") {
+        try {
+            const charge = await stripe.charges.retrieve(pi.latest_charge);
+            receiptUrl = charge.receipt_url || null;
+            if (charge.refunded) {
+                return { ...buildStripeView(pi, "refunded", receiptUrl, payment), rawStatus: "refunded" };
+            }
+        } catch {
+            // Non-critical
+        }
+    }
+
+    return buildStripeView(pi, state, receiptUrl, payment);
+}
+
+function buildStripeView(
+    pi: Stripe.PaymentIntent,
+    state: ProviderState,
+    receiptUrl: string | null,
+    payment: Payment
+): ProviderView {
+    const metadataSessionId = pi.metadata?.workshopSessionId ? parseInt(pi.metadata.workshopSessionId, 10) : NaN;
+    return {
+        state,
+        rawStatus: pi.status,
+        amount: state === "paid" || state === "refunded" ? pi.amount_received / 100 : pi.amount / 100,
+        currency: normalizeCurrency(pi.currency),
+        providerRef: pi.id,
+        channel: pi.payment_method_types?.[0] || "card",
+        receiptUrl,
+        workshopSessionId: Number.isInteger(metadataSessionId)
+            ? metadataSessionId
+            : parseWorkshopSessionIdFromDetails(payment.paymentDetails),
+        paymentDetails: null,
+        details: { paymentIntentId: pi.id, metadata: pi.metadata },
+    };
+}
+
+async function inspectPaySolutionsPayment(payment: Payment): Promise<ProviderView | null> {
+    if (!payment.paySolutionsRefno) return null;
+    const inquiry = await inquiryPayment(payment.paySolutionsRefno);
+    if (!inquiry) return null;
+
+    const normalized = normalizePaySolutionsPayload(inquiry as Record<string, unknown>);
+    const state: ProviderState = isPaySolutionsRefundStatus(normalized.status, normalized.statusName)
+        ? "refunded"
+        : isPaySolutionsPaidStatus(normalized.status, normalized.statusName)
+          ? "paid"
+          : isPaySolutionsFailedStatus(normalized.status, normalized.statusName)
+            ? "failed"
+            : "pending";
+
+    return {
+        state,
+        rawStatus: normalized.status || normalized.statusName || "UNKNOWN",
+        amount: toAmount(normalized.total),
+        currency: normalizeCurrency(normalized.currencyCode),
+        providerRef: normalized.orderNo || normalized.referenceNo || payment.paySolutionsRefno,
+        channel: normalizePaySolutionsChannel(
+            normalized.cardType,
+            payment.paySolutionsChannel || payment.paymentChannel
+        ),
+        receiptUrl: null,
+        workshopSessionId: parseWorkshopSessionIdFromDetails(payment.paymentDetails),
+        paymentDetails: {
+            ...toPlainObject(payment.paymentDetails),
+            inquiryRaw: normalized.raw,
+            latestStatus: normalized.status,
+            latestStatusName: normalized.statusName,
+        },
+        details: { inquiry: normalized.raw },
+    };
+}
+
+/**
+ * KTB has no inquiry API; the provider's view is the last datafeed we stored
+ * on the payment. Datafeeds for unknown orderRefs are not kept, so KTB orphans
+ * cannot be detected here.
+ */
+async function inspectKtbPayment(payment: Payment): Promise<ProviderView | null> {
+    const details = toPlainObject(payment.paymentDetails);
+    const feed = toPlainObject(details.lastDataFeed);
+    const successcode = String(feed.successcode ?? "").trim();
+    if (!successcode) return null;
+
+    const state: ProviderState = isKtbPaymentSuccess(successcode)
+        ? "paid"
+        : isKtbPaymentCancelled(successcode)
+          ? "cancelled"
+          : isKtbPaymentFailed(successcode)
+            ? "failed"
+            : "pending";
+
+    return {
+        state,
+        rawStatus: successcode,
+        amount: toAmount(feed.amt),
+        currency: normalizeCurrency(feed.cur),
+        providerRef: payment.providerRef || String(feed.orderRef ?? ""),
+        channel: normalizeKtbPayMethod(String(feed.payMethod ?? "")) || payment.paymentChannel || "card",
+        receiptUrl: null,
+        workshopSessionId: parseWorkshopSessionIdFromDetails(payment.paymentDetails),
+        paymentDetails: details,
+        details: { dataFeed: feed },
+    };
+}
+
+function inspectPayment(payment: Payment): Promise<ProviderView | null> {
+    switch (payment.paymentProvider) {
+        case "stripe":
+            return inspectStripePayment(payment);
+        case "pay_solutions":
+            return inspectPaySolutionsPayment(payment);
+        case "ktb_fastpay":
+            return inspectKtbPayment(payment);
+        default:
+            return Promise.resolve(null);
+    }
+}
+
+function expectedCurrency(payment: Payment, orderCurrency: string): string {
+    const chargeCurrency = toPlainObject(payment.paymentDetails).chargeCurrency;
+    return typeof chargeCurrency === "string" && chargeCurrency ? chargeCurrency.toUpperCase() : orderCurrency;
+}
+
+/** Mismatches between a local payment and the provider's view of it. */
+function compare(
+    payment: Payment,
+    currency: string,
+    view: ProviderView | null
+): Array<{ kind: ReconciliationKind; details?: Record<string, unknown> }> {
+    if (!view) {
+        // Unpaid pending checkouts are often never created at the provider
+        return payment.status === "paid" ? [{ kind: "missing_at_provider" }] : [];
+    }
+
+    const found: Array<{ kind: ReconciliationKind; details?: Record<string, unknown> }> = [];
+    if (view.state === "paid" && payment.status !== "paid") {
+        found.push({ kind: "paid_not_recorded" });
+    } else if (view.state !== "paid" && view.state !== "pending" && payment.status !== view.state) {
+        found.push({ kind: "status_mismatch" });
+    } else if (view.state === "pending" && payment.status === "paid") {
+        found.push({ kind: "status_mismatch" });
+    }
+
+    if (view.state === "paid" || view.state === "refunded") {
+        if (view.amount != null && Math.abs(view.amount - Number(payment.amount)) > AMOUNT_TOLERANCE) {
+            found.push({ kind: "amount_mismatch" });
+        }
+        if (view.currency && view.currency !== currency) {
+            found.push({ kind: "currency_mismatch", details: { expectedCurrency: currency } });
+        }
+    }
+    return found;
+}
+
+async function healPayment(fastify: LogContext, payment: Payment, view: ProviderView, runId: number): Promise<void> {
+    const result = await processSuccessfulPayment(
+        fastify,
+        payment.orderId,
+        view.providerRef,
+        view.workshopSessionId,
+        view.receiptUrl,
+        view.channel,
+        payment.paymentProvider as ReconciliationProvider,
+        view.rawStatus,
+        view.paymentDetails,
+        {
+            source: "reconciliation",
+            paymentId: payment.id,
+            payloadRef: view.providerRef,
+            note: `Payment reconciliation run #${runId}`,
+        }
+    );
+    if (!result) throw new Error("ORDER_NOT_HEALABLE");
+
+    await settlePromoUsageSuccess(payment.orderId);
+    try {
+        await sendOrderReceiptEmail(payment.orderId, result.regCode);
+    } catch (error) {
+        fastify.log.error(`[RECONCILIATION] Failed to send receipt for order ${payment.orderId}: ${error}`);
+    }
+}
+
+/** Succeeded Stripe PaymentIntents in the window with no local payment row. */
+async function findStripeOrphans(since: Date, until: Date | undefined): Promise<NewPaymentReconciliationItem[]> {
+    const succeeded: Stripe.PaymentIntent[] = [];
+    const created: Stripe.RangeQueryParam = { gte: Math.floor(since.getTime() / 1000) };
+    if (until) created.lte = Math.floor(until.getTime() / 1000);
+
+    for await (const pi of stripe.paymentIntents.list({ created, limit: 100 })) {
+        if (pi.status === "succeeded") succeeded.push(pi);
+    }
+    if (succeeded.length === 0) return [];
+
+    const known = await db
+        .select({ stripeSessionId: payments.stripeSessionId })
+        .from(payments)
+        .where(inArray(payments.stripeSessionId, succeeded.map((pi) => pi.id)));
+    const knownIds = new Set(known.map((row) => row.stripeSessionId));
+
+    return succeeded
+        .filter((pi) => !knownIds.has(pi.id))
+        .map((pi) => ({
+            runId: 0,
+            paymentId: null,
+            orderId: Number.parseInt(pi.metadata?.orderId ?? "", 10) || null,
+            paymentProvider: "stripe",
+            providerRef: pi.id,
+            kind: "orphaned_provider_payment",
+            localStatus: null,
+            providerStatus: pi.status,
+            providerAmount: String(pi.amount_received / 100),
+            currency: normalizeCurrency(pi.currency),
+            details: { metadata: pi.metadata, created: new Date(pi.created * 1000).toISOString() },
+        }));
+}
+
+export async function startReconciliationRun(
+    options: ReconciliationOptions,
+    trigger: "manual" | "script",
+    staffId?: number
+): Promise<PaymentReconciliationRun> {
+    const [run] = await db
+        .insert(paymentReconciliationRuns)
+        .values({
+            trigger,
+            triggeredBy: staffId ?? null,
+            autoHeal: options.autoHeal ?? false,
+            filters: {
+                since: options.since?.toISOString() ?? null,
+                until: options.until?.toISOString() ?? null,
+                providers: options.providers ?? null,
+            },
+        })
+        .returning();
+    return run;
+}
+
+/**
+ * Compare pending and paid payments with the providers and store every
+ * mismatch on the run. With autoHeal, payments captured at the provider but
+ * still pending here go through the same success processor as the webhooks
+ * (amount/currency mismatches are left for finance to look at).
+ */
+export async function executeReconciliationRun(
+    fastify: LogContext,
+    run: PaymentReconciliationRun,
+    options: ReconciliationOptions
+): Promise<PaymentReconciliationRun> {
+    const since = options.since ?? new Date(Date.now() - DEFAULT_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    const providers = options.providers?.length
+        ? options.providers
+        : (["stripe", "pay_solutions", "ktb_fastpay"] as ReconciliationProvider[]);
+    let checkedCount = 0;
+    let mismatchCount = 0;
+    let healedCount = 0;
+
+    const saveItems = async (items: NewPaymentReconciliationItem[]) => {
+        if (items.length === 0) return;
+        mismatchCount += items.length;
+        await db.insert(paymentReconciliationItems).values(items.map((item) => ({ ...item, runId: run.id })));
+    };
+
+    try {
+        const rows = await db
+            .select({ payment: payments, orderCurrency: orders.currency })
+            .from(payments)
+            .innerJoin(orders, eq(payments.orderId, orders.id))
+            .where(
+                and(
+                    inArray(payments.status, ["pending", "paid"]),
+                    inArray(payments.paymentProvider, providers),
+                    gte(orders.createdAt, since),
+                    options.until ? lte(orders.createdAt, options.until) : undefined
+                )
+            )
+            .orderBy(asc(payments.id));
+
+        for (const { payment, orderCurrency } of rows) {
+            // Free registrations are recorded against pay_solutions without a refno
+            if (payment.paymentChannel === "free") continue;
+            checkedCount++;
+
+            const currency = expectedCurrency(payment, orderCurrency);
+            const base = {
+                runId: run.id,
+                paymentId: payment.id,
+                orderId: payment.orderId,
+                paymentProvider: payment.paymentProvider,
+                providerRef: payment.providerRef || payment.paySolutionsRefno || payment.stripeSessionId,
+                localStatus: payment.status,
+                localAmount: payment.amount,
+                currency,
+            };
+
+            let view: ProviderView | null;
+            try {
+                view = await inspectPayment(payment);
+            } catch (error) {
+                await saveItems([
+                    {
+                        ...base,
+                        kind: "provider_error",
+                        details: { message: error instanceof Error ? error.message : String(error) },
+                    },
+                ]);
+                continue;
+            } finally {
+                if (payment.paymentProvider !== "ktb_fastpay") await delay(PROVIDER_CALL_DELAY_MS);
+            }
+
+            const mismatches = compare(payment, currency, view);
+            if (mismatches.length === 0 || !view) {
+                await saveItems(mismatches.map((m) => ({ ...base, kind: m.kind, details: m.details ?? null })));
+                continue;
+            }
+
+            const kinds = new Set(mismatches.map((m) => m.kind));
+            let healed = false;
+            let healError: string | null = null;
+            if (
+                options.autoHeal &&
+                kinds.has("paid_not_recorded") &&
+                !kinds.has("amount_mismatch") &&
+                !kinds.has("currency_mismatch")
+            ) {
+                try {
+                    await healPayment(fastify, payment, view, run.id);
+                    healed = true;
+                    healedCount++;
+                } catch (error) {
+                    healError = error instanceof Error ? error.message : String(error);
+                    fastify.log.error(`[RECONCILIATION] Failed to heal payment ${payment.id}: ${error}`);
+                }
+            }
+
+            await saveItems(
+                mismatches.map((m) => ({
+                    ...base,
+                    providerRef: view.providerRef || base.providerRef,
+                    kind: m.kind,
+                    providerStatus: view.rawStatus,
+                    providerAmount: view.amount != null ? String(view.amount) : null,
+                    details: { ...view.details, ...m.details },
+                    healed: m.kind === "paid_not_recorded" && healed,
+                    healError: m.kind === "paid_not_recorded" ? healError : null,
+                }))
+            );
+        }
+
+        if (providers.includes("stripe")) {
+            try {
+                await saveItems(await findStripeOrphans(since, options.until));
+            } catch (error) {
+                await saveItems([
+                    {
+                        runId: run.id,
+                        paymentProvider: "stripe",
+                        kind: "provider_error",
+                        details: {
+                            message: error instanceof Error ? error.message : String(error),
+                            step: "orphan_scan",
+                        },
+                    },
+                ]);
+            }
+        }
+
+        const [finished] = await db
+            .update(paymentReconciliationRuns)
+            .set({ status: "completed", checkedCount, mismatchCount, healedCount, finishedAt: new Date() })
+            .where(eq(paymentReconciliationRuns.id, run.id))
+            .returning();
+        return finished;
+    } catch (error) {
+        fastify.log.error(`[RECONCILIATION] Run ${run.id} failed: ${error}`);
+        const [failed] = await db
+            .update(paymentReconciliationRuns)
+            .set({
+                status: "failed",
+                checkedCount,
+                mismatchCount,
+                healedCount,
+                error: error instanceof Error ? error.message : String(error),
+                finishedAt: new Date(),
+            })
+            .where(eq(paymentReconciliationRuns.id, run.id))
+            .returning();
+        return failed;
+    }
+}
+
+export async function runPaymentReconciliation(
+    fastify: LogContext,
+    options: ReconciliationOptions,
+    trigger: "manual" | "script",
+    staffId?: number
+): Promise<PaymentReconciliationRun> {
+    const run = await startReconciliationRun(options, trigger, staffId);
+    return executeReconciliationRun(fastify, run, options);
+}
+
+/**
+ * Heal one paid_not_recorded finding after the fact. The provider is asked
+ * again so a payment that was fixed (or refunded) in the meantime is left alone.
+ */
+export async function healReconciliationItem(fastify: LogContext, itemId: number) {
+    const [item] = await db
+        .select()
+        .from(paymentReconciliationItems)
+        .where(eq(paymentReconciliationItems.id, itemId))
+        .limit(1);
+    if (!item) throw new Error("ITEM_NOT_FOUND");
+    if (item.healed) throw new Error("ITEM_ALREADY_HEALED");
+    if (item.kind !== "paid_not_recorded" || !item.paymentId) throw new Error("ITEM_NOT_HEALABLE");
+
+    const [payment] = await db.select().from(payments).where(eq(payments.id, item.paymentId)).limit(1);
+    if (!payment) throw new Error("ITEM_NOT_HEALABLE");
+    if (payment.status === "paid") throw new Error("PAYMENT_ALREADY_PAID");
+
+    const view = await inspectPayment(payment);
+    if (!view || view.state !== "paid") throw new Error("PROVIDER_NOT_PAID");
+    // A capture for a different amount needs a person, not an automatic "paid"
+    if (view.amount != null && Math.abs(view.amount - Number(payment.amount)) > AMOUNT_TOLERANCE) {
+        throw new Error("ITEM_NOT_HEALABLE");
+    }
+
+    try {
+        await healPayment(fastify, payment, view, item.runId);
+    } catch (error) {
+        await db
+            .update(paymentReconciliationItems)
+            .set({ healError: error instanceof Error ? error.message : String(error) })
+            .where(eq(paymentReconciliationItems.id, itemId));
+        throw error;
+    }
+
+    const [updated] = await db
+        .update(paymentReconciliationItems)
+        .set({ healed: true, healError: null })
+        .where(eq(paymentReconciliationItems.id, itemId))
+        .returning();
+    await db
+        .update(paymentReconciliationRuns)
+        .set({ healedCount: sql`${paymentReconciliationRuns.healedCount} + 1` })
+        .where(eq(paymentReconciliationRuns.id, item.runId));
+    return updated;
+}
+
+export async function listReconciliationRuns(limit = 50) {
+    return db
+        .select()
+        .from(paymentReconciliationRuns)
+        .orderBy(desc(paymentReconciliationRuns.startedAt))
+        .limit(limit);
+}
+
+export async function getReconciliationRun(runId: number) {
+    const [run] = await db
+        .select()
+        .from(paymentReconciliationRuns)
+        .where(eq(paymentReconciliationRuns.id, runId))
+        .limit(1);
+    if (!run) return null;
+
+    const items = await db
+        .select()
+        .from(paymentReconciliationItems)
+        .where(eq(paymentReconciliationItems.runId, runId))
+        .orderBy(asc(paymentReconciliationItems.id));
+
+    const summary: Record<string, number> = {};
+    for (const item of items) summary[item.kind] = (summary[item.kind] ?? 0) + 1;
+
+    return { run, items, summary };
+}
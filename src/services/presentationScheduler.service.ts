@@ -0,0 +1,608 @@
+import { db } from "../database/index.js";
+import {
+    abstracts,
+    presentationScheduleBlocks,
+    users,
+    type PresentationScheduleBlock,
+} from "../database/schema.js";
+import { and, asc, eq, inArray } from "drizzle-orm";
+import { formatScheduleDate } from "../utils/abstractSchedule.js";
+
+/** The abstracts columns the scheduler owns. */
+export interface SchedulePlacement {
+    presentationDate: string | null;
+    presentationRoom: string | null;
+    presentationStartTime: string | null;
+    presentationEndTime: string | null;
+    posterBoardNumber: string | null;
+    posterInstallationStart: string | null;
+    posterInstallationEnd: string | null;
+    posterRemovalStart: string | null;
+    posterRemovalEnd: string | null;
+}
+
+export interface ScheduleAbstract {
+    id: number;
+    trackingId: string | null;
+    title: string;
+    category: string;
+    presentationType: "oral" | "poster";
+    /** Presenting (submitting) author */
+    userId: number | null;
+    placement: SchedulePlacement | null;
+}
+
+export interface ScheduleSlot {
+    key: string;
+    blockId: number;
+    presentationType: "oral" | "poster";
+    categories: string[];
+    placement: SchedulePlacement;
+}
+
+export type ScheduleMode = "fill" | "rebuild";
+
+export interface ScheduleAssignment {
+    abstractId: number;
+    trackingId: string | null;
+    category: string;
+    presentationType: "oral" | "poster";
+    userId: number | null;
+    before: SchedulePlacement | null;
+    after: SchedulePlacement | null;
+    /** Existing placement kept as-is (fill mode) */
+    kept: boolean;
+    /** Placement does not match any slot of the grid (manual edit) */
+    offGrid: boolean;
+    changed: boolean;
+}
+
+export interface ScheduleConflict {
+    type: "presenter_overlap" | "room_overlap" | "duplicate_board";
+    abstractIds: number[];
+    trackingIds: (string | null)[];
+    detail: string;
+}
+
+export interface SchedulePlan {
+    mode: ScheduleMode;
+    assignments: ScheduleAssignment[];
+    unscheduled: { abstractId: number; trackingId: string | null; category: string; reason: string }[];
+    conflicts: ScheduleConflict[];
+    stats: { slots: number; scheduled: number; unscheduled: number; changed: number };
+}
+
+const PLACEMENT_FIELDS = [
+    "presentationDate",
+    "presentationRoom",
+    "presentationStartTime",
+    "presentationEndTime",
+    "posterBoardNumber",
+    "posterInstallationStart",
+    "posterInstallationEnd",
+    "posterRemovalStart",
+    "posterRemovalEnd",
+] as const;
+
+const EMPTY_PLACEMENT: SchedulePlacement = {
+    presentationDate: null,
+    presentationRoom: null,
+    presentationStartTime: null,
+    presentationEndTime: null,
+    posterBoardNumber: null,
+    posterInstallationStart: null,
+    posterInstallationEnd: null,
+    posterRemovalStart: null,
+    posterRemovalEnd: null,
+};
+
+// ---------------------------------------------------------------------------
+// Time helpers ("HH:MM")
+// ---------------------------------------------------------------------------
+
+export function toMinutes(time: string): number {
+    const [h, m] = time.split(":").map((part) => parseInt(part, 10));
+    return h * 60 + (m || 0);
+}
+
+function fromMinutes(total: number): string {
+    const h = Math.floor(total / 60);
+    const m = total % 60;
+    return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`;
+}
+
+function rangesOverlap(aStart: string, aEnd: string, bStart: string, bEnd: string): boolean {
+    return toMinutes(aStart) < toMinutes(bEnd) && toMinutes(bStart) < toMinutes(aEnd);
+}
+
+function padBoardNumber(n: number): string {
+    return String(n).padStart(3, "0");
+}
+
+function normalizeKeyPart(value: string | null | undefined): string {
+    return (value ?? "").trim().toLowerCase();
+}
+
+// ---------------------------------------------------------------------------
+// Slot grid
+// ---------------------------------------------------------------------------
+
+function slotKey(presentationType: "oral" | "poster", placement: SchedulePlacement): string {
+    return presentationType === "oral"
+        ? `oral|${placement.presentationDate}|${normalizeKeyPart(placement.presentationRoom)}|${placement.presentationStartTime}`
+        : `poster|${placement.presentationDate}|${normalizeKeyPart(placement.posterBoardNumber)}`;
+}
+
+/** Whether the abstract currently has a room (oral) / board (poster). */
+export function hasPlacement(abstract: Pick<ScheduleAbstract, "presentationType" | "placement">): boolean {
+    if (!abstract.placement) return false;
+    return abstract.presentationType === "oral"
+        ? Boolean(abstract.placement.presentationRoom?.trim())
+        : Boolean(abstract.placement.posterBoardNumber?.trim());
+}
+
+/** Expand blocks into individual slots, in block order. */
+export function expandScheduleBlocks(blocks: PresentationScheduleBlock[]): ScheduleSlot[] {
+    const slots: ScheduleSlot[] = [];
+    const ordered = [...blocks].sort(
+        (a, b) =>
+            a.sortOrder - b.sortOrder ||
+            a.date.localeCompare(b.date) ||
+            toMinutes(a.startTime) - toMinutes(b.startTime) ||
+            a.id - b.id
+    );
+
+    for (const block of ordered) {
+        const categories = block.categories ?? [];
+        if (block.presentationType === "oral") {
+            if (!block.room || !block.slotMinutes) continue;
+            const end = toMinutes(block.endTime);
+            for (let start = toMinutes(block.startTime); start + block.slotMinutes <= end; start += block.slotMinutes) {
+                const placement: SchedulePlacement = {
+                    ...EMPTY_PLACEMENT,
+                    presentationDate: block.date,
+                    presentationRoom: block.room,
+                    presentationStartTime: fromMinutes(start),
+                    presentationEndTime: fromMinutes(start + block.slotMinutes),
+                };
+                slots.push({
+                    key: slotKey("oral", placement),
+                    blockId: block.id,
+                    presentationType: "oral",
+                    categories,
+                    placement,
+                });
+            }
+        } else {
+            if (block.boardFrom == null || block.boardTo == null) continue;
+            for (let board = block.boardFrom; board <= block.boardTo; board++) {
+                const placement: SchedulePlacement = {
+                    presentationDate: block.date,
+                    presentationRoom: null,
+                    presentationStartTime: block.startTime,
+                    presentationEndTime: block.endTime,
+                    posterBoardNumber: padBoardNumber(board),
+                    posterInstallationStart: block.installationStart,
+                    posterInstallationEnd: block.installationEnd,
+                    posterRemovalStart: block.removalStart,
+                    posterRemovalEnd: block.removalEnd,
+                };
+                slots.push({
+                    key: slotKey("poster", placement),
+                    blockId: block.id,
+                    presentationType: "poster",
+                    categories,
+                    placement,
+                });
+            }
+        }
+    }
+    return slots;
+}
+
+/**
+ * Config-level problems with a set of blocks: missing fields, oral blocks
+ * overlapping in the same room, poster board ranges overlapping on a date.
+ */
+export function validateScheduleBlocks(
+    blocks: Pick<
+        PresentationScheduleBlock,
+        "presentationType" | "date" | "room" | "startTime" | "endTime" | "slotMinutes" | "boardFrom" | "boardTo"
+    >[]
+): string[] {
+    const errors: string[] = [];
+
+    blocks.forEach((block, index) => {
+        const label = `Block ${index + 1}`;
+        if (toMinutes(block.endTime) <= toMinutes(block.startTime)) {
+            errors.push(`${label}: end time must be after start time`);
+        }
+        if (block.presentationType === "oral") {
+            if (!block.room?.trim()) errors.push(`${label}: oral blocks need a room`);
+            if (!block.slotMinutes) errors.push(`${label}: oral blocks need slotMinutes`);
+        } else if (block.boardFrom == null || block.boardTo == null || block.boardTo < block.boardFrom) {
+            errors.push(`${label}: poster blocks need a valid board range`);
+        }
+    });
+
+    for (let i = 0; i < blocks.length; i++) {
+        for (let j = i + 1; j < blocks.length; j++) {
+            const a = blocks[i];
+            const b = blocks[j];
+            if (a.presentationType !== b.presentationType || a.date !== b.date) continue;
+            if (
+                a.presentationType === "oral" &&
+                normalizeKeyPart(a.room) === normalizeKeyPart(b.room) &&
+                rangesOverlap(a.startTime, a.endTime, b.startTime, b.endTime)
+            ) {
+                errors.push(`Blocks ${i + 1} and ${j + 1} overlap in room "${a.room}" on ${a.date}`);
+            }
+            if (
+                a.presentationType === "poster" &&
+                a.boardFrom != null &&
+                a.boardTo != null &&
+                b.boardFrom != null &&
+                b.boardTo != null &&
+                a.boardFrom <= b.boardTo &&
+                b.boardFrom <= a.boardTo
+            ) {
+                errors.push(`Blocks ${i + 1} and ${j + 1} share poster board numbers on ${a.date}`);
+            }
+        }
+    }
+
+    return errors;
+}
+
+// ---------------------------------------------------------------------------
+// Conflict detection
+// ---------------------------------------------------------------------------
+
+type PlacedEntry = {
+    abstractId: number;
+    trackingId: string | null;
+    userId: number | null;
+    presentationType: "oral" | "poster";
+    placement: SchedulePlacement;
+};
+
+function entryLabel(entry: PlacedEntry): string {
+    return entry.trackingId ?? `#${entry.abstractId}`;
+}
+
+function timesOverlap(a: SchedulePlacement, b: SchedulePlacement): boolean {
+    if (!a.presentationDate || a.presentationDate !== b.presentationDate) return false;
+    if (!a.presentationStartTime || !a.presentationEndTime) return false;
+    if (!b.presentationStartTime || !b.presentationEndTime) return false;
+    return rangesOverlap(
+        a.presentationStartTime,
+        a.presentationEndTime,
+        b.presentationStartTime,
+        b.presentationEndTime
+    );
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string | null): Map<string, T[]> {
+    const groups = new Map<string, T[]>();
+    for (const item of items) {
+        const k = key(item);
+        if (k == null) continue;
+        if (!groups.has(k)) groups.set(k, []);
+        groups.get(k)!.push(item);
+    }
+    return groups;
+}
+
+/** Presenter double-booking, overlapping talks in a room, and shared poster boards. */
+export function detectScheduleConflicts(entries: PlacedEntry[]): ScheduleConflict[] {
+    const conflicts: ScheduleConflict[] = [];
+    const pairConflict = (type: ScheduleConflict["type"], a: PlacedEntry, b: PlacedEntry, detail: string) =>
+        conflicts.push({
+            type,
+            abstractIds: [a.abstractId, b.abstractId],
+            trackingIds: [a.trackingId, b.trackingId],
+            detail,
+        });
+
+    const byPresenter = groupBy(entries, (e) => (e.userId == null ? null : String(e.userId)));
+    for (const group of byPresenter.values()) {
+        for (let i = 0; i < group.length; i++) {
+            for (let j = i + 1; j < group.length; j++) {
+                if (timesOverlap(group[i].placement, group[j].placement)) {
+                    pairConflict(
+                        "presenter_overlap",
+                        group[i],
+                        group[j],
+                        `Same presenting author for ${entryLabel(group[i])} and ${entryLabel(group[j])} at overlapping times on ${group[i].placement.presentationDate}`
+                    );
+                }
+            }
+        }
+    }
+
+    const byRoom = groupBy(
+        entries.filter((e) => e.presentationType === "oral" && e.placement.presentationRoom?.trim()),
+        (e) => `${e.placement.presentationDate}|${normalizeKeyPart(e.placement.presentationRoom)}`
+    );
+    for (const group of byRoom.values()) {
+        for (let i = 0; i < group.length; i++) {
+            for (let j = i + 1; j < group.length; j++) {
+                if (timesOverlap(group[i].placement, group[j].placement)) {
+                    pairConflict(
+                        "room_overlap",
+                        group[i],
+                        group[j],
+                        `${entryLabel(group[i])} and ${entryLabel(group[j])} overlap in ${group[i].placement.presentationRoom} on ${group[i].placement.presentationDate}`
+                    );
+                }
+            }
+        }
+    }
+
+    const byBoard = groupBy(
+        entries.filter((e) => e.presentationType === "poster" && e.placement.posterBoardNumber?.trim()),
+        (e) => `${e.placement.presentationDate}|${normalizeKeyPart(e.placement.posterBoardNumber)}`
+    );
+    for (const group of byBoard.values()) {
+        for (let i = 1; i < group.length; i++) {
+            pairConflict(
+                "duplicate_board",
+                group[0],
+                group[i],
+                `${entryLabel(group[0])} and ${entryLabel(group[i])} share poster board #${group[0].placement.posterBoardNumber} on ${group[0].placement.presentationDate}`
+            );
+        }
+    }
+
+    return conflicts;
+}
+
+// ---------------------------------------------------------------------------
+// Planner
+// ---------------------------------------------------------------------------
+
+export function placementsEqual(a: SchedulePlacement | null, b: SchedulePlacement | null): boolean {
+    const left = a ?? EMPTY_PLACEMENT;
+    const right = b ?? EMPTY_PLACEMENT;
+    return PLACEMENT_FIELDS.every((field) => (left[field] ?? null) === (right[field] ?? null));
+}
+
+/**
+ * Assign accepted abstracts to slots.
+ *
+ * - fill:    abstracts that already have a room/board keep it; only the rest
+ *            are placed into free slots.
+ * - rebuild: every abstract is placed from scratch.
+ *
+ * Abstracts are taken category by category (then by tracking ID) so a
+ * category fills consecutive slots. For each abstract the first free slot is
+ * chosen from, in order: blocks reserved for its category, blocks already
+ * holding that category, empty open blocks, other open blocks. Slots where the
+ * presenting author is already busy at that time are skipped.
+ */
+export function planPresentationSchedule(
+    abstractList: ScheduleAbstract[],
+    blocks: PresentationScheduleBlock[],
+    mode: ScheduleMode
+): SchedulePlan {
+    const slots = expandScheduleBlocks(blocks);
+    const slotKeys = new Set(slots.map((s) => s.key));
+    const occupied = new Set<string>();
+    const blockCategories = new Map<number, Set<string>>();
+    const slotBlock = new Map(slots.map((s) => [s.key, s.blockId]));
+    const presenterBusy = new Map<number, SchedulePlacement[]>();
+    const result = new Map<number, { after: SchedulePlacement | null; kept: boolean }>();
+    const unscheduled: SchedulePlan["unscheduled"] = [];
+
+    const markPlaced = (abstract: ScheduleAbstract, placement: SchedulePlacement) => {
+        const key = slotKey(abstract.presentationType, placement);
+        occupied.add(key);
+        const blockId = slotBlock.get(key);
+        if (blockId != null) {
+            if (!blockCategories.has(blockId)) blockCategories.set(blockId, new Set());
+            blockCategories.get(blockId)!.add(abstract.category);
+        }
+        if (abstract.userId != null) {
+            if (!presenterBusy.has(abstract.userId)) presenterBusy.set(abstract.userId, []);
+            presenterBusy.get(abstract.userId)!.push(placement);
+        }
+    };
+
+    if (mode === "fill") {
+        for (const abstract of abstractList) {
+            if (!hasPlacement(abstract)) continue;
+            result.set(abstract.id, { after: abstract.placement, kept: true });
+            markPlaced(abstract, abstract.placement!);
+        }
+    }
+
+    const toPlace = abstractList
+        .filter((a) => !result.has(a.id))
+        .sort(
+            (a, b) =>
+                a.category.localeCompare(b.category) ||
+                (a.trackingId ?? "").localeCompare(b.trackingId ?? "") ||
+                a.id - b.id
+        );
+
+    for (const abstract of toPlace) {
+        const busy = abstract.userId != null ? presenterBusy.get(abstract.userId) ?? [] : [];
+        let best: ScheduleSlot | null = null;
+        let bestRank = Infinity;
+        let blockedByPresenter = false;
+
+        for (const slot of slots) {
+            if (slot.presentationType !== abstract.presentationType || occupied.has(slot.key)) continue;
+            if (slot.categories.length > 0 && !slot.categories.includes(abstract.category)) continue;
+
+            const held = blockCategories.get(slot.blockId);
+            const rank =
+                slot.categories.length > 0
+                    ? 0
+                    : held?.has(abstract.category)
+                      ? 1
+                      : !held || held.size === 0
+                        ? 2
+                        : 3;
+            if (rank >= bestRank) continue;
+
+            if (busy.some((placement) => timesOverlap(placement, slot.placement))) {
+                blockedByPresenter = true;
+                continue;
+            }
+
+            best = slot;
+            bestRank = rank;
+            if (rank === 0) break;
+        }
+
+        if (!best) {
+            result.set(abstract.id, { after: null, kept: false });
+            unscheduled.push({
+                abstractId: abstract.id,
+                trackingId: abstract.trackingId,
+                category: abstract.category,
+                reason: blockedByPresenter
+                    ? "Every free slot clashes with another presentation by the same author"
+                    : `No free ${abstract.presentationType} slot for this category`,
+            });
+            continue;
+        }
+
+        result.set(abstract.id, { after: best.placement, kept: false });
+        markPlaced(abstract, best.placement);
+    }
+
+    const assignments: ScheduleAssignment[] = abstractList.map((abstract) => {
+        const { after, kept } = result.get(abstract.id)!;
+        const before = hasPlacement(abstract) ? abstract.placement : null;
+        return {
+            abstractId: abstract.id,
+            trackingId: abstract.trackingId,
+            category: abstract.category,
+            presentationType: abstract.presentationType,
+            userId: abstract.userId,
+            before,
+            after,
+            kept,
+            offGrid: Boolean(after && !slotKeys.has(slotKey(abstract.presentationType, after))),
+            changed: !placementsEqual(before, after),
+        };
+    });
+
+    const conflicts = detectScheduleConflicts(
+        assignments
+            .filter((a) => a.after)
+            .map((a) => ({
+                abstractId: a.abstractId,
+                trackingId: a.trackingId,
+                userId: a.userId,
+                presentationType: a.presentationType,
+                placement: a.after!,
+            }))
+    );
+
+    return {
+        mode,
+        assignments,
+        unscheduled,
+        conflicts,
+        stats: {
+            slots: slots.length,
+            scheduled: assignments.filter((a) => a.after).length,
+            unscheduled: unscheduled.length,
+            changed: assignments.filter((a) => a.changed).length,
+        },
+    };
+}
+
+// ---------------------------------------------------------------------------
+// Loaders / persistence
+// ---------------------------------------------------------------------------
+
+export async function loadScheduleBlocks(eventId: number): Promise<PresentationScheduleBlock[]> {
+    return db
+        .select()
+        .from(presentationScheduleBlocks)
+        .where(eq(presentationScheduleBlocks.eventId, eventId))
+        .orderBy(asc(presentationScheduleBlocks.sortOrder), asc(presentationScheduleBlocks.id));
+}
+
+/** Accepted abstracts of an event with their current placement. */
+export async function loadSchedulableAbstracts(eventId: number): Promise<ScheduleAbstract[]> {
+    const rows = await db
+        .select({
+            id: abstracts.id,
+            trackingId: abstracts.trackingId,
+            title: abstracts.title,
+            category: abstracts.category,
+            presentationType: abstracts.presentationType,
+            userId: abstracts.userId,
+            presentationDate: abstracts.presentationDate,
+            presentationRoom: abstracts.presentationRoom,
+            presentationStartTime: abstracts.presentationStartTime,
+            presentationEndTime: abstracts.presentationEndTime,
+            posterBoardNumber: abstracts.posterBoardNumber,
+            posterInstallationStart: abstracts.posterInstallationStart,
+            posterInstallationEnd: abstracts.posterInstallationEnd,
+            posterRemovalStart: abstracts.posterRemovalStart,
+            posterRemovalEnd: abstracts.posterRemovalEnd,
+        })
+        .from(abstracts)
+        .where(and(eq(abstracts.eventId, eventId), eq(abstracts.status, "accepted")))
+        .orderBy(asc(abstracts.id));
+
+    return rows.map((row) => ({
+        id: row.id,
+        trackingId: row.trackingId,
+        title: row.title,
+        category: row.category,
+        presentationType: row.presentationType,
+        userId: row.userId,
+        placement: {
+            presentationDate: formatScheduleDate(row.presentationDate),
+            presentationRoom: row.presentationRoom,
+            presentationStartTime: row.presentationStartTime,
+            presentationEndTime: row.presentationEndTime,
+            posterBoardNumber: row.posterBoardNumber,
+            posterInstallationStart: row.posterInstallationStart,
+            posterInstallationEnd: row.posterInstallationEnd,
+            posterRemovalStart: row.posterRemovalStart,
+            posterRemovalEnd: row.posterRemovalEnd,
+        },
+    }));
+}
+
+/** Write every changed placement; returns the changed assignments. */
+export async function applySchedulePlan(plan: SchedulePlan): Promise<ScheduleAssignment[]> {
+    const changed = plan.assignments.filter((a) => a.changed);
+    if (changed.length === 0) return changed;
+
+    await db.transaction(async (tx) => {
+        const now = new Date();
+        for (const assignment of changed) {
+            await tx
+                .update(abstracts)
+                .set({ ...(assignment.after ?? EMPTY_PLACEMENT), updatedAt: now })
+                .where(eq(abstracts.id, assignment.abstractId));
+        }
+    });
+
+    return changed;
+}
+
+/** Presenting author contact details for a set of abstracts. */
+export async function loadPresenterContacts(userIds: number[]) {
+    if (userIds.length === 0) return new Map<number, { email: string; firstName: string; middleName: string | null; lastName: string }>();
+    const rows = await db
+        .select({
+            id: users.id,
+            email: users.email,
+            firstName: users.firstName,
+            middleName: users.middleName,
+            lastName: users.lastName,
+        })
+        .from(users)
+        .where(inArray(users.id, userIds));
+    return new Map(rows.map(({ id, ...contact }) => [id, contact]));
+}
@@ -0,0 +1,295 @@
+import { db } from "../database/index.js";
+import { abstracts, eventSpeakers, sessions, speakers, users } from "../database/schema.js";
+import { and, asc, eq } from "drizzle-orm";
+import {
+    buildAbstractScheduleResponse,
+    formatScheduleDate,
+    scheduledAbstractLocationCondition,
+    type AbstractScheduleResponse,
+} from "../utils/abstractSchedule.js";
+import { getFullName } from "../utils/name.js";
+
+/** Room label used for poster boards (posters have no room of their own). */
+export const POSTER_ROOM_LABEL = "Poster Exhibition";
+
+const PROGRAMME_TIME_ZONE = "Asia/Bangkok";
+
+export type ProgrammeItemType = "session" | "oral" | "poster";
+
+export interface ProgrammeSpeaker {
+    id: number;
+    name: string;
+    organization: string | null;
+    position: string | null;
+    photoUrl: string | null;
+    speakerType: string;
+    topic: string | null;
+}
+
+interface ProgrammeItemBase {
+    type: ProgrammeItemType;
+    id: number;
+    title: string;
+    /** Abstract category for abstracts, session type for sessions */
+    track: string | null;
+    date: string | null;
+    room: string | null;
+    startTime: string | null;
+    endTime: string | null;
+}
+
+export interface ProgrammeSessionItem extends ProgrammeItemBase {
+    type: "session";
+    sessionCode: string;
+    sessionType: string | null;
+    isMainSession: boolean;
+    description: string | null;
+    agenda: { time: string; topic: string }[];
+    speakers: ProgrammeSpeaker[];
+}
+
+export interface ProgrammeAbstractItem extends ProgrammeItemBase {
+    type: "oral" | "poster";
+    trackingId: string | null;
+    presenterName: string;
+    institution: string | null;
+    country: string | null;
+    boardNumber: string | null;
+    schedule: AbstractScheduleResponse | null;
+}
+
+export type ProgrammeItem = ProgrammeSessionItem | ProgrammeAbstractItem;
+
+export interface ProgrammeFilters {
+    day?: string;
+    room?: string;
+    tracks?: string[];
+    types?: ProgrammeItemType[];
+}
+
+export interface ProgrammeTree {
+    days: {
+        date: string | null;
+        rooms: {
+            room: string | null;
+            slots: { startTime: string | null; endTime: string | null; items: ProgrammeItem[] }[];
+        }[];
+    }[];
+    /** Event speakers not attached to a session (e.g. keynotes listed separately) */
+    speakers: ProgrammeSpeaker[];
+    /** Values available for the filters, before filtering */
+    available: { days: string[]; rooms: string[]; tracks: string[]; types: ProgrammeItemType[] };
+    total: number;
+}
+
+const dateFormatter = new Intl.DateTimeFormat("en-CA", {
+    timeZone: PROGRAMME_TIME_ZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+});
+
+const timeFormatter = new Intl.DateTimeFormat("en-GB", {
+    timeZone: PROGRAMME_TIME_ZONE,
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+});
+
+/** Conference-local YYYY-MM-DD of a timestamp. */
+export function toProgrammeDate(value: Date): string {
+    return dateFormatter.format(value);
+}
+
+/** Conference-local HH:MM of a timestamp. */
+export function toProgrammeTime(value: Date): string {
+    return timeFormatter.format(value);
+}
+
+/** Every programme item of an event: active sessions plus scheduled accepted abstracts. */
+export async function loadProgrammeItems(
+    eventId: number
+): Promise<{ items: ProgrammeItem[]; unattachedSpeakers: ProgrammeSpeaker[] }> {
+    const [sessionRows, speakerRows, abstractRows] = await Promise.all([
+        db
+            .select()
+            .from(sessions)
+            .where(and(eq(sessions.eventId, eventId), eq(sessions.isActive, true)))
+            .orderBy(asc(sessions.startTime)),
+        db
+            .select({
+                id: speakers.id,
+                firstName: speakers.firstName,
+                lastName: speakers.lastName,
+                organization: speakers.organization,
+                position: speakers.position,
+                photoUrl: speakers.photoUrl,
+                sessionId: eventSpeakers.sessionId,
+                speakerType: eventSpeakers.speakerType,
+                topic: eventSpeakers.topic,
+            })
+            .from(eventSpeakers)
+            .innerJoin(speakers, eq(eventSpeakers.speakerId, speakers.id))
+            .where(eq(eventSpeakers.eventId, eventId))
+            .orderBy(asc(eventSpeakers.sortOrder)),
+        db
+            .select({
+                id: abstracts.id,
+                trackingId: abstracts.trackingId,
+                title: abstracts.title,
+                category: abstracts.category,
+                presentationType: abstracts.presentationType,
+                presentationDate: abstracts.presentationDate,
+                presentationRoom: abstracts.presentationRoom,
+                presentationStartTime: abstracts.presentationStartTime,
+                presentationEndTime: abstracts.presentationEndTime,
+                posterBoardNumber: abstracts.posterBoardNumber,
+                posterInstallationStart: abstracts.posterInstallationStart,
+                posterInstallationEnd: abstracts.posterInstallationEnd,
+                posterRemovalStart: abstracts.posterRemovalStart,
+                posterRemovalEnd: abstracts.posterRemovalEnd,
+                firstName: users.firstName,
+                middleName: users.middleName,
+                lastName: users.lastName,
+                institution: users.institution,
+                country: users.country,
+            })
+            .from(abstracts)
+            .leftJoin(users, eq(abstracts.userId, users.id))
+            .where(and(eq(abstracts.eventId, eventId), scheduledAbstractLocationCondition()))
+            .orderBy(asc(abstracts.trackingId)),
+    ]);
+
+    const speakersBySession = new Map<number, ProgrammeSpeaker[]>();
+    const unattachedSpeakers: ProgrammeSpeaker[] = [];
+    for (const row of speakerRows) {
+        const speaker: ProgrammeSpeaker = {
+            id: row.id,
+            name: `${row.firstName} ${row.lastName}`.trim(),
+            organization: row.organization,
+            position: row.position,
+            photoUrl: row.photoUrl,
+            speakerType: row.speakerType,
+            topic: row.topic,
+        };
+        if (row.sessionId == null) {
+            unattachedSpeakers.push(speaker);
+            continue;
+        }
+        if (!speakersBySession.has(row.sessionId)) speakersBySession.set(row.sessionId, []);
+        speakersBySession.get(row.sessionId)!.push(speaker);
+    }
+
+    const items: ProgrammeItem[] = sessionRows.map((session) => ({
+        type: "session",
+        id: session.id,
+        title: session.sessionName,
+        track: session.sessionType,
+        date: toProgrammeDate(session.startTime),
+        room: session.room?.trim() || null,
+        startTime: toProgrammeTime(session.startTime),
+        endTime: toProgrammeTime(session.endTime),
+        sessionCode: session.sessionCode,
+        sessionType: session.sessionType,
+        isMainSession: session.isMainSession,
+        description: session.description,
+        agenda: session.agenda ?? [],
+        speakers: speakersBySession.get(session.id) ?? [],
+    }));
+
+    for (const row of abstractRows) {
+        const schedule = buildAbstractScheduleResponse(row);
+        const isOral = row.presentationType === "oral";
+        items.push({
+            type: isOral ? "oral" : "poster",
+            id: row.id,
+            title: row.title,
+            track: row.category,
+            date: formatScheduleDate(row.presentationDate),
+            room: isOral ? row.presentationRoom?.trim() || null : POSTER_ROOM_LABEL,
+            startTime: row.presentationStartTime,
+            endTime: row.presentationEndTime,
+            trackingId: row.trackingId,
+            presenterName: row.firstName ? getFullName(row.firstName, row.middleName, row.lastName ?? "") : "",
+            institution: row.institution,
+            country: row.country,
+            boardNumber: isOral ? null : row.posterBoardNumber,
+            schedule,
+        });
+    }
+
+    return { items, unattachedSpeakers };
+}
+
+export function filterProgrammeItems(items: ProgrammeItem[], filters: ProgrammeFilters): ProgrammeItem[] {
+    const room = filters.room?.trim().toLowerCase();
+    return items.filter(
+        (item) =>
+            (!filters.day || item.date === filters.day) &&
+            (!room || (item.room ?? "").toLowerCase() === room) &&
+            (!filters.tracks?.length || (item.track != null && filters.tracks.includes(item.track))) &&
+            (!filters.types?.length || filters.types.includes(item.type))
+    );
+}
+
+const compareNullableLast = (a: string | null, b: string | null) =>
+    a === b ? 0 : a == null ? 1 : b == null ? -1 : a.localeCompare(b);
+
+/** day → room → time slot. Posters sort after real rooms; undated items come last. */
+export function buildProgrammeTree(items: ProgrammeItem[]): ProgrammeTree["days"] {
+    const days = new Map<string | null, Map<string | null, Map<string, ProgrammeItem[]>>>();
+
+    for (const item of items) {
+        if (!days.has(item.date)) days.set(item.date, new Map());
+        const rooms = days.get(item.date)!;
+        if (!rooms.has(item.room)) rooms.set(item.room, new Map());
+        const slots = rooms.get(item.room)!;
+        const slotKey = `${item.startTime ?? ""}|${item.endTime ?? ""}`;
+        if (!slots.has(slotKey)) slots.set(slotKey, []);
+        slots.get(slotKey)!.push(item);
+    }
+
+    const roomOrder = (room: string | null) => (room === POSTER_ROOM_LABEL ? 1 : 0);
+
+    return [...days.entries()]
+        .sort(([a], [b]) => compareNullableLast(a, b))
+        .map(([date, rooms]) => ({
+            date,
+            rooms: [...rooms.entries()]
+                .sort(([a], [b]) => roomOrder(a) - roomOrder(b) || compareNullableLast(a, b))
+                .map(([room, slots]) => ({
+                    room,
+                    slots: [...slots.values()]
+                        .map((slotItems) => ({
+                            startTime: slotItems[0].startTime,
+                            endTime: slotItems[0].endTime,
+                            items: slotItems,
+                        }))
+                        .sort(
+                            (a, b) =>
+                                compareNullableLast(a.startTime, b.startTime) ||
+                                compareNullableLast(a.endTime, b.endTime)
+                        ),
+                })),
+        }));
+}
+
+export async function buildEventProgramme(eventId: number, filters: ProgrammeFilters): Promise<ProgrammeTree> {
+    const { items, unattachedSpeakers } = await loadProgrammeItems(eventId);
+    const filtered = filterProgrammeItems(items, filters);
+
+    const distinct = (values: (string | null)[]) =>
+        [...new Set(values.filter((v): v is string => Boolean(v)))].sort();
+
+    return {
+        days: buildProgrammeTree(filtered),
+        speakers: unattachedSpeakers,
+        available: {
+            days: distinct(items.map((i) => i.date)),
+            rooms: distinct(items.map((i) => i.room)),
+            tracks: distinct(items.map((i) => i.track)),
+            types: [...new Set(items.map((i) => i.type))],
+        },
+        total: filtered.length,
+    };
+}
@@ -28,7 +28,8 @@ function getChromiumExecutablePath(): string | undefined {
 export type ReceiptPaymentChannel =
   | "promptpay"
   | "card"
-  | "alipay";
+  | "alipay"
+  | "bank_transfer";
 
 export interface ReceiptItem {
   name: string;
@@ -62,6 +63,34 @@ export interface ReceiptData {
   eventName?: string;
 }
 
+/** Account an invoice is paid into (INVOICE_BANK_* env vars). */
+export interface InvoiceBankAccount {
+  bankName: string;
+  accountName: string;
+  accountNumber: string;
+  branch?: string | null;
+  swiftCode?: string | null;
+}
+
+export interface ProformaInvoiceData extends Omit<ReceiptData, "paidAt" | "paymentChannel"> {
+  issuedAt: Date;
+  dueAt: Date;
+  bankAccount: InvoiceBankAccount | null;
+}
+
+type OrderDocumentData = Omit<ReceiptData, "paidAt" | "paymentChannel">;
+
+/** Wording of one kind of order document; the PDFKit page layout is shared. */
+interface OrderDocumentLayout {
+  documentName: string;
+  title: string;
+  numberLabel: string;
+  details: { label: string; value: string }[];
+  totalLabel: string;
+  notes?: { heading: string; lines: string[] };
+  footer: string;
+}
+
 function fmtMoney(amount: number, currency: string): string {
   const sym = currency === "THB" ? "THB\u00a0" : "USD\u00a0";
   return `${sym}${amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
@@ -81,9 +110,14 @@ function fmtDateTime(d: Date): string {
   return `${datePart} at ${timePart}`;
 }
 
-function paymentChannelLabel(ch: ReceiptPaymentChannel): string {
+function fmtDate(d: Date): string {
+  return d.toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric", timeZone: "Asia/Bangkok" });
+}
+
+export function paymentChannelLabel(ch: ReceiptPaymentChannel): string {
   if (ch === "promptpay") return "PromptPay (QR)";
   if (ch === "alipay") return "Alipay";
+  if (ch === "bank_transfer") return "Bank Transfer";
   return "Credit / Debit Card";
 }
 
@@ -92,6 +126,7 @@ export function resolveReceiptPaymentChannel(
 ): ReceiptPaymentChannel {
   if (channel === "promptpay" || channel === "qr") return "promptpay";
   if (channel === "alipay") return "alipay";
+  if (channel === "bank_transfer") return "bank_transfer";
   return "card";
 }
 
@@ -259,11 +294,68 @@ export async function generateReceiptPdfPuppeteer(data: ReceiptData): Promise<Pa
  * Returns a readable stream — does NOT write to disk.
  */
 export async function generateReceiptPdf(data: ReceiptData): Promise<PassThrough> {
+  return renderOrderDocumentPdf(data, {
+    documentName: "Receipt",
+    title: "PAYMENT RECEIPT",
+    numberLabel: "RECEIPT NUMBER",
+    details: [
+      { label: "DATE PAID", value: fmtDateTime(data.paidAt) },
+      { label: "PAYMENT METHOD", value: paymentChannelLabel(data.paymentChannel) },
+    ],
+    totalLabel: "Total Paid",
+    footer: "This receipt was generated by the ACCP 2026 Conference System.",
+  });
+}
+
+/**
+ * Proforma invoice for an order paid by bank transfer: same layout as the
+ * receipt, with the due date and the account to transfer to. Not a tax
+ * document — the receipt is issued once staff confirm the transfer.
+ */
+export async function generateProformaInvoicePdf(data: ProformaInvoiceData): Promise<PassThrough> {
+  const bank = data.bankAccount;
+  const instructions = bank
+    ? [
+        `Bank: ${bank.bankName}${bank.branch ? ` (${bank.branch} branch)` : ""}`,
+        `Account name: ${bank.accountName}`,
+        `Account number: ${bank.accountNumber}`,
+        ...(bank.swiftCode ? [`SWIFT code: ${bank.swiftCode}`] : []),
+      ]
+    : ["Bank account details will be sent by the conference secretariat."];
+
+  return renderOrderDocumentPdf(data, {
+    documentName: "Proforma Invoice",
+    title: "PROFORMA INVOICE",
+    numberLabel: "INVOICE NUMBER",
+    details: [
+      { label: "ISSUE DATE", value: fmtDate(data.issuedAt) },
+      { label: "DUE DATE", value: fmtDate(data.dueAt) },
+      { label: "PAYMENT METHOD", value: paymentChannelLabel("bank_transfer") },
+    ],
+    totalLabel: "Amount Due",
+    notes: {
+      heading: "PAYMENT INSTRUCTIONS",
+      lines: [
+        ...instructions,
+        "",
+        `Please quote ${data.orderNumber} as the transfer reference and pay by ${fmtDate(data.dueAt)}.`,
+        "Unpaid invoices are cancelled after the due date and the reserved seats are released.",
+        "This is not a receipt. A receipt is issued once the transfer has been confirmed.",
+      ],
+    },
+    footer: "This proforma invoice was generated by the ACCP 2026 Conference System.",
+  });
+}
+
+async function renderOrderDocumentPdf(
+  data: OrderDocumentData,
+  layout: OrderDocumentLayout,
+): Promise<PassThrough> {
   const doc = new PDFDocument({
     size: "A4",
     margin: 0,
     info: {
-      Title: `ACCP 2026 Receipt - ${data.orderNumber}`,
+      Title: `ACCP 2026 ${layout.documentName} - ${data.orderNumber}`,
       Author: "ACCP 2026 Conference",
     },
   });
@@ -319,7 +411,7 @@ export async function generateReceiptPdf(data: ReceiptData): Promise<PassThrough
 
   // ── Title ─────────────────────────────────────────────────────────────
   doc.font("Sarabun-Bold").fontSize(13).fillColor(C_BLACK); // HTML h3 ≈ 13pt
-  doc.text("PAYMENT RECEIPT", MARGIN_X, y, {
+  doc.text(layout.title, MARGIN_X, y, {
     width: CONTENT_W,
     align: "center",
     characterSpacing: 1,
@@ -346,7 +438,7 @@ export async function generateReceiptPdf(data: ReceiptData): Promise<PassThrough
 
   // Left column
   let leftY = gridStartY;
-  leftY = drawLabel("RECEIPT NUMBER", leftX, leftY) + 3;
+  leftY = drawLabel(layout.numberLabel, leftX, leftY) + 3;
   leftY = drawValue(data.orderNumber, leftX, leftY) + 15;
   leftY = drawLabel("CUSTOMER", leftX, leftY) + 3;
   leftY = drawValue(data.taxInvoice?.taxName || data.customerName, leftX, leftY);
@@ -360,10 +452,11 @@ export async function generateReceiptPdf(data: ReceiptData): Promise<PassThrough
 
   // Right column
   let rightY = gridStartY;
-  rightY = drawLabel("DATE PAID", rightX, rightY) + 3;
-  rightY = drawValue(fmtDateTime(data.paidAt), rightX, rightY) + 15;
-  rightY = drawLabel("PAYMENT METHOD", rightX, rightY) + 3;
-  rightY = drawValue(paymentChannelLabel(data.paymentChannel), rightX, rightY);
+  layout.details.forEach((detail, index) => {
+    if (index > 0) rightY += 15;
+    rightY = drawLabel(detail.label, rightX, rightY) + 3;
+    rightY = drawValue(detail.value, rightX, rightY);
+  });
 
   y = Math.max(leftY, rightY) + 30;
 
@@ -450,7 +543,7 @@ export async function generateReceiptPdf(data: ReceiptData): Promise<PassThrough
   doc.strokeColor(C_BLACK).lineWidth(1);
   doc.moveTo(totalsValueX, y).lineTo(MARGIN_X + CONTENT_W, y).stroke();
   y += 8; // HTML padding-top: 10px = 7.5pt between border and text
-  printTotalRow("Total Paid", fmtMoney(data.total, data.currency), true);
+  printTotalRow(layout.totalLabel, fmtMoney(data.total, data.currency), true);
   // Double bottom border under Total Paid (3px double on amount cell only)
   doc.strokeColor(C_BLACK).lineWidth(0.75);
   doc.moveTo(totalsValueX, y).lineTo(MARGIN_X + CONTENT_W, y).stroke();
@@ -461,6 +554,20 @@ export async function generateReceiptPdf(data: ReceiptData): Promise<PassThrough
     y += 10;
     doc.font("Sarabun").fontSize(9).fillColor(C_MUTED);
     doc.text(data.chargeNote, MARGIN_X, y, { width: CONTENT_W, align: "right" });
+    y = doc.y;
+  }
+
+  // Optional instructions block (bank transfer details on a proforma invoice)
+  if (layout.notes) {
+    y += 30;
+    doc.font("Sarabun-Bold").fontSize(10).fillColor(C_BLACK);
+    doc.text(layout.notes.heading, MARGIN_X, y, { width: CONTENT_W });
+    y = doc.y + 3;
+    doc.font("Sarabun").fontSize(10).fillColor(C_MUTED);
+    for (const line of layout.notes.lines) {
+      doc.text(line || " ", MARGIN_X, y, { width: CONTENT_W });
+      y = doc.y;
+    }
   }
 
   // ── Footer (pinned near bottom of page) ───────────────────────────────
@@ -470,7 +577,7 @@ export async function generateReceiptPdf(data: ReceiptData): Promise<PassThrough
 
   doc.font("Sarabun").fontSize(9).fillColor(C_FOOTER);
   doc.text(
-    "This receipt was generated by the ACCP 2026 Conference System.",
+    layout.footer,
     MARGIN_X,
     footerY + 12,
     { width: CONTENT_W, align: "center" },
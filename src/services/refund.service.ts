@@ -0,0 +1,632 @@
+import { db } from "../database/index.js";
+import {
+    orderItems,
+    orders,
+    payments,
+    refunds,
+    registrations,
+    registrationSessions,
+    taxInvoices,
+    ticketTypes,
+    users,
+    type NewPayment,
+    type Refund,
+} from "../database/schema.js";
+import { and, asc, eq, inArray, sql } from "drizzle-orm";
+import Stripe from "stripe";
+import { stripe } from "./stripe.js";
+import { refundPromoUsage } from "../utils/promoEngine.js";
+import { releaseWaitlistSeats, type WaitlistTarget } from "./waitlist.service.js";
+import { generateCreditNotePdf } from "./creditNotePdf.js";
+import type { TaxDocumentMarking } from "./taxInvoicePdf.js";
+import {
+    allocateTaxDocumentNumber,
+    findIssuedTaxInvoice,
+    getSellerInfo,
+    splitVat,
+    TAX_VAT_RATE,
+} from "./taxInvoice.service.js";
+import { sendRefundConfirmationEmail } from "./emailService.js";
+import { getFullName } from "../utils/name.js";
+import {
+    recordOrderEvent,
+    transitionOrder,
+    type OrderEventContext,
+    type OrderTransitionResult,
+} from "./orderEvents.service.js";
+import { cancelOpenGroupSeats } from "./groupOrder.service.js";
+import type { LogContext } from "../types/index.js";
+
+export type RefundRegistrationAction = "cancel" | "keep";
+
+export interface RefundOrderInput {
+    orderId: number;
+    /** Defaults to everything not yet refunded */
+    amount?: number;
+    /**
+     * Order items whose access is withdrawn. Defaults to every item on a full
+     * refund and none on a partial one.
+     */
+    orderItemIds?: number[];
+    registrationAction: RefundRegistrationAction;
+    reason: string;
+    /** Bank transfer / provider dashboard reference, required for manual refunds */
+    reference?: string;
+    staffId: number;
+}
+
+export interface RefundSummary {
+    paidAmount: number;
+    refundedAmount: number;
+    refundableAmount: number;
+    currency: string;
+}
+
+// Refunds still in flight count as refunded so the same money cannot go out twice
+const COUNTED_REFUND_STATUSES = ["pending", "succeeded"];
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+const stripeRefundStatus = (status: string | null) =>
+    status === "succeeded" ? "succeeded" : status === "failed" || status === "canceled" ? "failed" : "pending";
+
+function refundMethodLabel(refund: Pick<Refund, "method" | "paymentProvider">): string {
+    if (refund.method === "stripe") return "Card refund (Stripe)";
+    if (refund.paymentProvider === "ktb_fastpay") return "Bank transfer (KTB)";
+    return "Bank transfer (Pay Solutions)";
+}
+
+async function loadRefundablePayment(executor: any, orderId: number) {
+    const [payment] = await executor
+        .select()
+        .from(payments)
+        .where(and(eq(payments.orderId, orderId), inArray(payments.status, ["paid", "refunded"])))
+        .limit(1);
+    return payment ?? null;
+}
+
+async function sumRefunded(executor: any, orderId: number): Promise<number> {
+    const [row] = await executor
+        .select({ total: sql<string>`coalesce(sum(${refunds.amount}), 0)` })
+        .from(refunds)
+        .where(and(eq(refunds.orderId, orderId), inArray(refunds.status, COUNTED_REFUND_STATUSES)));
+    return Number(row?.total ?? 0);
+}
+
+/**
+ * Take back what the withdrawn items gave access to: the primary ticket
+ * cancels the order's registration(s) and any unclaimed group seats, an
+ * add-on loses its session links.
+ * soldCount is decremented for each withdrawn item. Returns the freed seats.
+ */
+async function withdrawOrderItems(
+    tx: any,
+    order: { id: number; userId: number; eventId: number | null },
+    items: { id: number; itemType: string; ticketTypeId: number; quantity: number }[]
+): Promise<WaitlistTarget[]> {
+    const freed: WaitlistTarget[] = [];
+
+    for (const item of items) {
+        await tx
+            .update(ticketTypes)
+            .set({ soldCount: sql`GREATEST(${ticketTypes.soldCount} - ${item.quantity}, 0)` })
+            .where(eq(ticketTypes.id, item.ticketTypeId));
+        freed.push({ ticketTypeId: item.ticketTypeId });
+
+        if (item.itemType === "ticket") {
+            await cancelOpenGroupSeats(tx, order.id);
+            const cancelled = await tx
+                .update(registrations)
+                .set({ status: "cancelled" })
+                .where(and(eq(registrations.orderId, order.id), eq(registrations.status, "confirmed")))
+                .returning({ id: registrations.id });
+            if (cancelled.length > 0) {
+                const links = await tx
+                    .select({ sessionId: registrationSessions.sessionId })
+                    .from(registrationSessions)
+                    .where(inArray(registrationSessions.registrationId, cancelled.map((r: { id: number }) => r.id)));
+                freed.push(...links.map((link: { sessionId: number }) => ({ sessionId: link.sessionId })));
+            }
+            continue;
+        }
+
+        // Add-ons hang off the user's registration for the event (possibly from another order)
+        const userRegistrations = await tx
+            .select({ id: registrations.id })
+            .from(registrations)
+            .where(
+                and(
+                    eq(registrations.userId, order.userId),
+                    order.eventId ? eq(registrations.eventId, order.eventId) : undefined
+                )
+            );
+        if (userRegistrations.length === 0) continue;
+
+        const removed = await tx
+            .delete(registrationSessions)
+            .where(
+                and(
+                    inArray(registrationSessions.registrationId, userRegistrations.map((r: { id: number }) => r.id)),
+                    eq(registrationSessions.ticketTypeId, item.ticketTypeId)
+                )
+            )
+            .returning({ sessionId: registrationSessions.sessionId });
+        freed.push(...removed.map((link: { sessionId: number }) => ({ sessionId: link.sessionId })));
+    }
+
+    return freed;
+}
+
+export async function getOrderRefundSummary(orderId: number): Promise<RefundSummary | null> {
+    const [order] = await db
+        .select({ currency: orders.currency })
+        .from(orders)
+        .where(eq(orders.id, orderId))
+        .limit(1);
+    if (!order) return null;
+
+    const payment = await loadRefundablePayment(db, orderId);
+    const paidAmount = payment ? Number(payment.amount) : 0;
+    const refundedAmount = await sumRefunded(db, orderId);
+    return {
+        paidAmount,
+        refundedAmount,
+        refundableAmount: Math.max(0, paidAmount - refundedAmount),
+        currency: order.currency,
+    };
+}
+
+export async function listOrderRefunds(orderId: number) {
+    return db
+        .select()
+        .from(refunds)
+        .where(eq(refunds.orderId, orderId))
+        .orderBy(asc(refunds.createdAt));
+}
+
+/**
+ * Put a refund into effect once its money has actually gone out: withdraw the
+ * refunded items and, when the succeeded refunds now cover the whole payment,
+ * move the order and payment to refunded. Returns the order status and the
+ * freed seats.
+ */
+async function applyRefund(tx: any, refund: Refund): Promise<{ orderStatus: string; freed: WaitlistTarget[] }> {
+    const [order] = await tx.select().from(orders).where(eq(orders.id, refund.orderId)).for("update");
+    const [payment] = await tx.select().from(payments).where(eq(payments.id, refund.paymentId)).limit(1);
+
+    const items = refund.orderItemIds.length === 0
+        ? []
+        : await tx
+              .select({
+                  id: orderItems.id,
+                  itemType: orderItems.itemType,
+                  ticketTypeId: orderItems.ticketTypeId,
+                  quantity: orderItems.quantity,
+              })
+              .from(orderItems)
+              .where(inArray(orderItems.id, refund.orderItemIds));
+    const freed = await withdrawOrderItems(tx, order, items);
+
+    const eventContext: OrderEventContext = {
+        source: "refund",
+        staffId: refund.refundedBy,
+        paymentId: payment.id,
+        providerRef: refund.providerRefundId,
+        note: `${refund.creditNoteNumber}: ${refund.amount} ${refund.currency}`,
+    };
+
+    const [settled] = await tx
+        .select({ total: sql<string>`coalesce(sum(${refunds.amount}), 0)` })
+        .from(refunds)
+        .where(and(eq(refunds.orderId, order.id), eq(refunds.status, "succeeded")));
+    const isFull = toCents(Number(settled?.total ?? 0)) >= toCents(Number(payment.amount));
+
+    let orderStatus: string = order.status;
+    if (isFull && order.status === "paid") {
+        orderStatus = "refunded";
+        await transitionOrder(tx, order.id, "refunded", { ...eventContext, paymentStatus: "refunded" });
+        await tx.update(payments).set({ status: "refunded" }).where(eq(payments.id, payment.id));
+        await refundPromoUsage(order.id, tx);
+    } else {
+        await recordOrderEvent(tx, order.id, { type: "note" }, eventContext);
+    }
+
+    return { orderStatus, freed };
+}
+
+/**
+ * Undo a refund that had gone through and then failed at the provider: the
+ * order and payment are paid again and the withdrawn tickets' registrations
+ * are confirmed again. Session picks and group seats stay released, as their
+ * seats may already have been offered to the waitlist.
+ */
+async function revertRefund(tx: any, refund: Refund): Promise<string> {
+    const [order] = await tx.select().from(orders).where(eq(orders.id, refund.orderId)).for("update");
+
+    const items = refund.orderItemIds.length === 0
+        ? []
+        : await tx
+              .select({
+                  itemType: orderItems.itemType,
+                  ticketTypeId: orderItems.ticketTypeId,
+                  quantity: orderItems.quantity,
+              })
+              .from(orderItems)
+              .where(inArray(orderItems.id, refund.orderItemIds));
+    for (const item of items) {
+        await tx
+            .update(ticketTypes)
+            .set({ soldCount: sql`${ticketTypes.soldCount} + ${item.quantity}` })
+            .where(eq(ticketTypes.id, item.ticketTypeId));
+    }
+    if (items.some((item: { itemType: string }) => item.itemType === "ticket")) {
+        await tx
+            .update(registrations)
+            .set({ status: "confirmed" })
+            .where(and(eq(registrations.orderId, order.id), eq(registrations.status, "cancelled")));
+    }
+
+    const eventContext: OrderEventContext = {
+        source: "refund",
+        paymentId: refund.paymentId,
+        providerRef: refund.providerRefundId,
+        note: `${refund.creditNoteNumber} failed at the provider and was reverted`,
+    };
+
+    // refunded → paid is not a move the state machine allows for anything else
+    const restored = await tx
+        .update(orders)
+        .set({ status: "paid" })
+        .where(and(eq(orders.id, order.id), eq(orders.status, "refunded")))
+        .returning({ id: orders.id });
+    if (restored.length > 0) {
+        await tx.update(payments).set({ status: "paid" }).where(eq(payments.id, refund.paymentId));
+        await recordOrderEvent(
+            tx,
+            order.id,
+            { type: "status_changed", fromStatus: "refunded", toStatus: "paid" },
+            { ...eventContext, paymentStatus: "paid" }
+        );
+        return "paid";
+    }
+
+    await recordOrderEvent(tx, order.id, { type: "note" }, eventContext);
+    return order.status;
+}
+
+/**
+ * Record the final state of a refund. A refund becoming succeeded is put into
+ * effect, one that fails after having succeeded is reverted. Returns null if
+ * the refund does not exist.
+ */
+async function finalizeRefund(
+    fastify: LogContext,
+    refundId: number,
+    status: string,
+    providerRefundId: string | null
+): Promise<{ refund: Refund; orderStatus: string } | null> {
+    const result = await db.transaction(async (tx) => {
+        const [current] = await tx.select().from(refunds).where(eq(refunds.id, refundId)).for("update");
+        if (!current) return null;
+
+        const [refund] = await tx
+            .update(refunds)
+            .set({ status, providerRefundId: providerRefundId ?? current.providerRefundId })
+            .where(eq(refunds.id, refundId))
+            .returning();
+
+        let freed: WaitlistTarget[] = [];
+        let orderStatus: string;
+        if (status === "succeeded" && current.status !== "succeeded") {
+            ({ orderStatus, freed } = await applyRefund(tx, refund));
+        } else if (status === "failed" && current.status === "succeeded") {
+            orderStatus = await revertRefund(tx, refund);
+        } else {
+            const [order] = await tx.select({ status: orders.status }).from(orders).where(eq(orders.id, refund.orderId));
+            orderStatus = order.status;
+        }
+        return { refund, orderStatus, freed };
+    });
+    if (!result) return null;
+
+    if (result.freed.length > 0) {
+        releaseWaitlistSeats(fastify, result.freed).catch((error) =>
+            fastify.log.error(`[REFUND] Failed to release seats for order ${result.refund.orderId}: ${error}`)
+        );
+    }
+    return { refund: result.refund, orderStatus: result.orderStatus };
+}
+
+/**
+ * The provider reports a payment as refunded on its side (Pay Solutions
+ * postback or status check): the order and payment become refunded and the
+ * sale is reversed like a full staff refund. Items a succeeded refund has
+ * already withdrawn are skipped. Returns the transition and the freed seats
+ * for the waitlist.
+ */
+export async function applyProviderRefund(
+    orderId: number,
+    paymentId: number,
+    paymentUpdate: Partial<NewPayment>,
+    eventContext: OrderEventContext
+): Promise<{ transition: OrderTransitionResult; freed: WaitlistTarget[] }> {
+    return db.transaction(async (tx) => {
+        const transition = await transitionOrder(tx, orderId, "refunded", {
+            ...eventContext,
+            paymentId,
+            paymentStatus: "refunded",
+        });
+        if (!transition.allowed) return { transition, freed: [] };
+
+        await tx
+            .update(payments)
+            .set({ ...paymentUpdate, status: "refunded" })
+            .where(eq(payments.id, paymentId));
+        if (!transition.applied) return { transition, freed: [] };
+
+        const [order] = await tx.select().from(orders).where(eq(orders.id, orderId));
+        const previous = await tx
+            .select({ orderItemIds: refunds.orderItemIds })
+            .from(refunds)
+            .where(and(eq(refunds.orderId, orderId), eq(refunds.status, "succeeded")));
+        const alreadyWithdrawn = new Set(previous.flatMap((r) => r.orderItemIds));
+        const items = await tx
+            .select({
+                id: orderItems.id,
+                itemType: orderItems.itemType,
+                ticketTypeId: orderItems.ticketTypeId,
+                quantity: orderItems.quantity,
+            })
+            .from(orderItems)
+            .where(eq(orderItems.orderId, orderId));
+
+        const freed = await withdrawOrderItems(tx, order, items.filter((item) => !alreadyWithdrawn.has(item.id)));
+        await refundPromoUsage(orderId, tx);
+        return { transition, freed };
+    });
+}
+
+/**
+ * Refund a paid order in full or in part. Stripe payments are refunded
+ * through the Stripe API; Pay Solutions / KTB refunds are paid out by bank
+ * transfer and only recorded. With registrationAction "cancel" the refunded
+ * items lose their registration / sessions and their seats are released.
+ *
+ * A Stripe refund is recorded as pending (which reserves the amount and the
+ * items) and committed before Stripe is called with the refund id as the
+ * idempotency key; it takes effect once Stripe reports it succeeded, here or
+ * through charge.refund.updated.
+ */
+export async function refundOrder(
+    fastify: LogContext,
+    input: RefundOrderInput
+): Promise<{ refund: Refund; orderStatus: string }> {
+    const { refund, isStripe, stripeSessionId, orderNumber } = await db.transaction(async (tx) => {
+        const [order] = await tx.select().from(orders).where(eq(orders.id, input.orderId)).for("update");
+        if (!order) throw new Error("ORDER_NOT_FOUND");
+        if (order.status !== "paid") throw new Error("ORDER_NOT_REFUNDABLE");
+
+        const payment = await loadRefundablePayment(tx, order.id);
+        if (!payment) throw new Error("PAYMENT_NOT_FOUND");
+
+        const refundedSoFar = await sumRefunded(tx, order.id);
+        const refundable = Number(payment.amount) - refundedSoFar;
+        if (toCents(refundable) <= 0) throw new Error("NOTHING_TO_REFUND");
+
+        const amount = input.amount ?? refundable;
+        if (toCents(amount) > toCents(refundable)) throw new Error("REFUND_EXCEEDS_PAID");
+        const isFull = toCents(amount) === toCents(refundable);
+
+        const isStripe = payment.paymentProvider === "stripe";
+        if (!isStripe && !input.reference?.trim()) throw new Error("MANUAL_REFERENCE_REQUIRED");
+        if (isStripe && !payment.stripeSessionId) throw new Error("PAYMENT_NOT_FOUND");
+
+        // Items to withdraw; each item can only be withdrawn once
+        const items = await tx
+            .select({ id: orderItems.id })
+            .from(orderItems)
+            .where(eq(orderItems.orderId, order.id));
+        const previous = await tx
+            .select({ orderItemIds: refunds.orderItemIds })
+            .from(refunds)
+            .where(and(eq(refunds.orderId, order.id), inArray(refunds.status, COUNTED_REFUND_STATUSES)));
+        const alreadyWithdrawn = new Set(previous.flatMap((r) => r.orderItemIds));
+
+        let itemIds = input.orderItemIds ?? (isFull ? items.map((i) => i.id).filter((id) => !alreadyWithdrawn.has(id)) : []);
+        if (input.registrationAction === "keep") itemIds = [];
+        if (itemIds.some((id) => !items.some((i) => i.id === id))) throw new Error("INVALID_ORDER_ITEMS");
+        if (itemIds.some((id) => alreadyWithdrawn.has(id))) throw new Error("ITEM_ALREADY_REFUNDED");
+
+        // Credit notes share the fiscal-year numbering of the tax documents and adjust the invoice in force
+        const { documentNumber: creditNoteNumber } = await allocateTaxDocumentNumber(tx, "credit_note", new Date());
+        const taxInvoice = await findIssuedTaxInvoice(tx, order.id);
+
+        const [refund] = await tx
+            .insert(refunds)
+            .values({
+                orderId: order.id,
+                paymentId: payment.id,
+                amount: amount.toFixed(2),
+                currency: order.currency,
+                paymentProvider: payment.paymentProvider,
+                method: isStripe ? "stripe" : "manual",
+                status: "pending",
+                reference: input.reference?.trim() || null,
+                reason: input.reason,
+                registrationAction: input.registrationAction,
+                orderItemIds: itemIds,
+                creditNoteNumber,
+                taxInvoiceId: taxInvoice?.id ?? null,
+                refundedBy: input.staffId,
+            })
+            .returning();
+
+        return { refund, isStripe, stripeSessionId: payment.stripeSessionId, orderNumber: order.orderNumber };
+    });
+
+    // Manual refunds have been paid out by the time they are recorded
+    if (!isStripe) return (await finalizeRefund(fastify, refund.id, "succeeded", null))!;
+
+    let status: string;
+    let providerRefundId: string | null = null;
+    try {
+        const stripeRefund = await stripe.refunds.create(
+            {
+                payment_intent: stripeSessionId!,
+                amount: toCents(Number(refund.amount)),
+                metadata: { orderId: String(refund.orderId), orderNumber, refundId: String(refund.id) },
+            },
+            { idempotencyKey: `refund-${refund.id}` }
+        );
+        providerRefundId = stripeRefund.id;
+        status = stripeRefundStatus(stripeRefund.status);
+    } catch (error) {
+        if (error instanceof Stripe.errors.StripeConnectionError) {
+            // Stripe may have created it anyway; charge.refund.updated settles it
+            fastify.log.error(`[REFUND] No answer from Stripe for refund ${refund.id}, left pending: ${error}`);
+            status = "pending";
+        } else {
+            fastify.log.error(`[REFUND] Stripe refund failed for order ${refund.orderId}: ${error}`);
+            status = "failed";
+        }
+    }
+
+    const finalized = (await finalizeRefund(fastify, refund.id, status, providerRefundId))!;
+    if (status === "failed") throw new Error("STRIPE_REFUND_FAILED");
+    return finalized;
+}
+
+/**
+ * Credit note PDF of a refund; null if the refund does not exist. The buyer
+ * gets the original, backoffice downloads are marked as copies.
+ */
+export async function buildRefundCreditNote(
+    refundId: number,
+    marking: TaxDocumentMarking = "original"
+): Promise<{ refund: Refund; pdf: Buffer } | null> {
+    const [row] = await db
+        .select({ refund: refunds, order: orders, user: users, taxInvoice: taxInvoices })
+        .from(refunds)
+        .innerJoin(orders, eq(refunds.orderId, orders.id))
+        .innerJoin(users, eq(orders.userId, users.id))
+        .leftJoin(taxInvoices, eq(refunds.taxInvoiceId, taxInvoices.id))
+        .where(eq(refunds.id, refundId))
+        .limit(1);
+    if (!row) return null;
+
+    const { refund, order, user, taxInvoice } = row;
+    const vatRate = taxInvoice ? Number(taxInvoice.vatRate) : TAX_VAT_RATE;
+    const { amountBeforeVat, vatAmount } = splitVat(Number(refund.amount), vatRate);
+    const [items, [payment], [previous]] = await Promise.all([
+        refund.orderItemIds.length === 0
+            ? []
+            : db
+                  .select({ name: ticketTypes.name, price: orderItems.price, quantity: orderItems.quantity })
+                  .from(orderItems)
+                  .innerJoin(ticketTypes, eq(orderItems.ticketTypeId, ticketTypes.id))
+                  .where(inArray(orderItems.id, refund.orderItemIds)),
+        db.select({ amount: payments.amount }).from(payments).where(eq(payments.id, refund.paymentId)).limit(1),
+        db
+            .select({ total: sql<string>`coalesce(sum(${refunds.amount}), 0)` })
+            .from(refunds)
+            .where(
+                and(
+                    eq(refunds.orderId, order.id),
+                    inArray(refunds.status, COUNTED_REFUND_STATUSES),
+                    sql`${refunds.id} < ${refund.id}`
+                )
+            ),
+    ]);
+
+    const pdf = await generateCreditNotePdf({
+        creditNoteNumber: refund.creditNoteNumber,
+        orderNumber: order.orderNumber,
+        issuedAt: refund.createdAt,
+        marking,
+        seller: getSellerInfo(),
+        originalInvoice: taxInvoice
+            ? {
+                  documentNumber: taxInvoice.documentNumber,
+                  issuedAt: taxInvoice.issuedAt,
+                  total: Number(taxInvoice.totalAmount),
+              }
+            : null,
+        currency: refund.currency,
+        items: items.map((item) => ({ name: item.name, price: Number(item.price), quantity: item.quantity })),
+        originalTotal: Number(payment?.amount ?? order.totalAmount),
+        refundAmount: Number(refund.amount),
+        refundBeforeVat: amountBeforeVat,
+        vatRate,
+        refundVat: vatAmount,
+        previouslyRefunded: Number(previous?.total ?? 0),
+        reason: refund.reason,
+        refundMethod: refundMethodLabel(refund),
+        customerName: getFullName(user.firstName, user.middleName, user.lastName),
+        customerEmail: user.email,
+        // The buyer as printed on the invoice being adjusted, else as entered at checkout
+        taxName: taxInvoice ? taxInvoice.buyerName : order.needTaxInvoice ? order.taxName : null,
+        taxId: taxInvoice ? taxInvoice.buyerTaxId : order.needTaxInvoice ? order.taxId : null,
+        taxFullAddress: taxInvoice ? taxInvoice.buyerAddress : order.needTaxInvoice ? order.taxFullAddress : null,
+        taxBranchCode: taxInvoice ? taxInvoice.buyerBranchCode : order.needTaxInvoice ? order.taxBranchCode : null,
+    });
+
+    return { refund, pdf };
+}
+
+/** Email the refund confirmation with its credit note. */
+export async function sendRefundConfirmation(refundId: number): Promise<void> {
+    const creditNote = await buildRefundCreditNote(refundId);
+    if (!creditNote) return;
+    const { refund, pdf } = creditNote;
+
+    const [row] = await db
+        .select({
+            orderNumber: orders.orderNumber,
+            email: users.email,
+            firstName: users.firstName,
+            middleName: users.middleName,
+            lastName: users.lastName,
+        })
+        .from(orders)
+        .innerJoin(users, eq(orders.userId, users.id))
+        .where(eq(orders.id, refund.orderId))
+        .limit(1);
+    if (!row) return;
+
+    await sendRefundConfirmationEmail(
+        row.email,
+        row.firstName,
+        row.middleName,
+        row.lastName,
+        row.orderNumber,
+        refund.creditNoteNumber,
+        Number(refund.amount),
+        refund.currency,
+        refund.registrationAction === "cancel" && refund.orderItemIds.length > 0,
+        { content: pdf, fileName: `ACCP2026-${refund.creditNoteNumber}.pdf` }
+    );
+}
+
+/**
+ * Stripe reported a new state for a refund (charge.refund.updated). The refund
+ * is found by its Stripe id, or by the refund id in the metadata when the API
+ * call that created it did not return.
+ */
+export async function updateStripeRefundStatus(
+    fastify: LogContext,
+    stripeRefund: {
+        id: string;
+        status: string | null;
+        metadata?: Record<string, string> | null;
+    }
+): Promise<void> {
+    const [byProviderId] = await db
+        .select({ id: refunds.id })
+        .from(refunds)
+        .where(eq(refunds.providerRefundId, stripeRefund.id))
+        .limit(1);
+    const refundId = byProviderId?.id ?? Number(stripeRefund.metadata?.refundId);
+    if (!Number.isInteger(refundId) || refundId <= 0) return;
+
+    await finalizeRefund(fastify, refundId, stripeRefundStatus(stripeRefund.status), stripeRefund.id);
+}
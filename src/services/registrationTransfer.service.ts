@@ -0,0 +1,249 @@
+import { db } from "../database/index.js";
+import {
+    checkIns,
+    events,
+    registrations,
+    registrationSessions,
+    registrationTransfers,
+    sessions,
+    ticketTypes,
+    users,
+    type Registration,
+    type RegistrationTransfer,
+} from "../database/schema.js";
+import { and, asc, desc, eq, isNotNull, ne, sql } from "drizzle-orm";
+import { getFullName } from "../utils/name.js";
+import { sendRegistrationTransferEmail, sendRegistrationTransferredAwayEmail } from "./emailService.js";
+import type { LogContext } from "../types/index.js";
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function generateRegCode(): string {
+    const ts = Date.now().toString(36).toUpperCase();
+    const rand = Math.random().toString(36).substring(2, 8).toUpperCase();
+    return `REG-${ts}${rand}`;
+}
+
+/** New attendee: an existing account, or an email (+ name when no account exists). */
+export type TransferTarget =
+    | { userId: number }
+    | { email: string; firstName?: string; middleName?: string; lastName?: string };
+
+export interface TransferRegistrationInput {
+    registrationId: number;
+    target: TransferTarget;
+    /** Backoffice user performing the transfer */
+    staffId?: number;
+    /** Attendee giving away their own registration (self-service) */
+    requestedByUserId?: number;
+    note?: string;
+}
+
+interface ResolvedAttendee {
+    userId: number | null;
+    email: string;
+    firstName: string;
+    middleName: string | null;
+    lastName: string;
+}
+
+async function resolveTarget(target: TransferTarget): Promise<ResolvedAttendee> {
+    const [user] = await db
+        .select({
+            id: users.id,
+            email: users.email,
+            firstName: users.firstName,
+            middleName: users.middleName,
+            lastName: users.lastName,
+        })
+        .from(users)
+        .where(
+            "userId" in target
+                ? eq(users.id, target.userId)
+                : sql`lower(${users.email}) = ${target.email.toLowerCase()}`
+        )
+        .limit(1);
+
+    if (user) {
+        return {
+            userId: user.id,
+            email: user.email,
+            firstName: user.firstName,
+            middleName: user.middleName,
+            lastName: user.lastName,
+        };
+    }
+    if ("userId" in target) throw new Error("TARGET_USER_NOT_FOUND");
+    if (!target.firstName || !target.lastName) throw new Error("TARGET_NAME_REQUIRED");
+
+    return {
+        userId: null,
+        email: target.email.toLowerCase(),
+        firstName: target.firstName,
+        middleName: target.middleName || null,
+        lastName: target.lastName,
+    };
+}
+
+/**
+ * Hand a confirmed registration to another attendee. The row keeps its id,
+ * orderId (revenue stays with the buyer) and session access; the regCode is
+ * re-issued so the previous attendee's QR can no longer be checked in.
+ */
+export async function transferRegistration(
+    input: TransferRegistrationInput
+): Promise<{ registration: Registration; transfer: RegistrationTransfer }> {
+    const [registration] = await db
+        .select()
+        .from(registrations)
+        .where(eq(registrations.id, input.registrationId))
+        .limit(1);
+    if (!registration) throw new Error("REGISTRATION_NOT_FOUND");
+    if (input.requestedByUserId != null && registration.userId !== input.requestedByUserId) {
+        throw new Error("REGISTRATION_NOT_FOUND");
+    }
+    if (registration.status !== "confirmed") throw new Error("REGISTRATION_NOT_ACTIVE");
+
+    const attendee = await resolveTarget(input.target);
+    const isSamePerson =
+        (attendee.userId != null && attendee.userId === registration.userId) ||
+        attendee.email.toLowerCase() === registration.email.toLowerCase();
+    if (isSamePerson) throw new Error("TRANSFER_SAME_ATTENDEE");
+
+    // Once someone has been checked in on this registration it cannot change hands
+    const [checkedIn] = await db
+        .select({ id: registrationSessions.id })
+        .from(registrationSessions)
+        .where(
+            and(
+                eq(registrationSessions.registrationId, registration.id),
+                isNotNull(registrationSessions.checkedInAt)
+            )
+        )
+        .limit(1);
+    const [legacyCheckIn] = await db
+        .select({ id: checkIns.id })
+        .from(checkIns)
+        .where(eq(checkIns.registrationId, registration.id))
+        .limit(1);
+    if (checkedIn || legacyCheckIn) throw new Error("REGISTRATION_CHECKED_IN");
+
+    const [existing] = await db
+        .select({ id: registrations.id })
+        .from(registrations)
+        .where(
+            and(
+                eq(registrations.eventId, registration.eventId),
+                eq(registrations.status, "confirmed"),
+                ne(registrations.id, registration.id),
+                attendee.userId != null
+                    ? eq(registrations.userId, attendee.userId)
+                    : sql`lower(${registrations.email}) = ${attendee.email}`
+            )
+        )
+        .limit(1);
+    if (existing) throw new Error("TARGET_ALREADY_REGISTERED");
+
+    const newRegCode = generateRegCode();
+
+    return db.transaction(async (tx) => {
+        const [updated] = await tx
+            .update(registrations)
+            .set({
+                userId: attendee.userId,
+                email: attendee.email,
+                firstName: attendee.firstName,
+                middleName: attendee.middleName,
+                lastName: attendee.lastName,
+                regCode: newRegCode,
+            })
+            .where(and(eq(registrations.id, registration.id), eq(registrations.regCode, registration.regCode)))
+            .returning();
+        // Someone else transferred or edited it in the meantime
+        if (!updated) throw new Error("REGISTRATION_NOT_ACTIVE");
+
+        const [transfer] = await tx
+            .insert(registrationTransfers)
+            .values({
+                registrationId: registration.id,
+                fromUserId: registration.userId,
+                fromEmail: registration.email,
+                fromName: getFullName(registration.firstName, registration.middleName, registration.lastName),
+                toUserId: attendee.userId,
+                toEmail: attendee.email,
+                toName: getFullName(attendee.firstName, attendee.middleName, attendee.lastName),
+                previousRegCode: registration.regCode,
+                newRegCode,
+                transferredBy: input.staffId ?? null,
+                requestedByUserId: input.requestedByUserId ?? null,
+                note: input.note || null,
+            })
+            .returning();
+
+        return { registration: updated, transfer };
+    });
+}
+
+/** Confirmation (with QR) to the new attendee, then a notice to the previous one. */
+export async function sendRegistrationTransferEmails(
+    fastify: LogContext,
+    transfer: RegistrationTransfer
+): Promise<void> {
+    const [row] = await db
+        .select({
+            firstName: registrations.firstName,
+            middleName: registrations.middleName,
+            lastName: registrations.lastName,
+            eventName: events.eventName,
+            ticketName: ticketTypes.name,
+        })
+        .from(registrations)
+        .innerJoin(events, eq(registrations.eventId, events.id))
+        .innerJoin(ticketTypes, eq(registrations.ticketTypeId, ticketTypes.id))
+        .where(eq(registrations.id, transfer.registrationId))
+        .limit(1);
+    if (!row) return;
+
+    const sessionRows = await db
+        .select({ sessionName: sessions.sessionName, startTime: sessions.startTime, endTime: sessions.endTime })
+        .from(registrationSessions)
+        .innerJoin(sessions, eq(registrationSessions.sessionId, sessions.id))
+        .where(eq(registrationSessions.registrationId, transfer.registrationId))
+        .orderBy(asc(sessions.startTime));
+
+    try {
+        await sendRegistrationTransferEmail(
+            transfer.toEmail,
+            row.firstName,
+            row.middleName,
+            row.lastName,
+            transfer.newRegCode,
+            row.eventName,
+            row.ticketName,
+            transfer.fromName,
+            sessionRows
+        );
+    } catch (error) {
+        fastify.log.error(`[TRANSFER] Failed to email new attendee for transfer ${transfer.id}: ${error}`);
+    }
+    await delay(800);
+    try {
+        await sendRegistrationTransferredAwayEmail(
+            transfer.fromEmail,
+            transfer.fromName,
+            transfer.previousRegCode,
+            row.eventName,
+            transfer.toName
+        );
+    } catch (error) {
+        fastify.log.error(`[TRANSFER] Failed to email previous attendee for transfer ${transfer.id}: ${error}`);
+    }
+}
+
+export async function listRegistrationTransfers(registrationId: number) {
+    return db
+        .select()
+        .from(registrationTransfers)
+        .where(eq(registrationTransfers.registrationId, registrationId))
+        .orderBy(desc(registrationTransfers.createdAt));
+}
@@ -0,0 +1,415 @@
+import { db } from "../database/index.js";
+import {
+    abstracts,
+    abstractCoAuthors,
+    abstractReviewerAssignments,
+    abstractReviews,
+    backofficeUsers,
+    users,
+} from "../database/schema.js";
+import { and, eq, inArray, notInArray, sql } from "drizzle-orm";
+import { isAbstractInReviewerScope } from "./abstractReview.service.js";
+
+/**
+ * Free-mail providers: sharing one of these domains is not a conflict of interest.
+ */
+const PUBLIC_EMAIL_DOMAINS = new Set([
+    "gmail.com",
+    "googlemail.com",
+    "hotmail.com",
+    "outlook.com",
+    "live.com",
+    "msn.com",
+    "yahoo.com",
+    "yahoo.co.th",
+    "icloud.com",
+    "me.com",
+    "aol.com",
+    "proton.me",
+    "protonmail.com",
+    "qq.com",
+    "163.com",
+    "126.com",
+    "naver.com",
+]);
+
+export interface AssignmentReviewer {
+    id: number;
+    email: string;
+    firstName: string;
+    lastName: string;
+    institution: string | null;
+    assignedCategories: string[] | null;
+    assignedPresentationTypes: string[] | null;
+}
+
+export interface AssignmentAbstract {
+    id: number;
+    trackingId: string | null;
+    category: string;
+    presentationType: string;
+    reviewersLocked: boolean;
+    /** Submitter + co-authors */
+    authors: { email: string | null; institution: string | null }[];
+}
+
+export interface ExistingAssignment {
+    abstractId: number;
+    reviewerId: number;
+    source: string;
+    hasReview: boolean;
+}
+
+export interface ConflictOfInterest {
+    type: "institution" | "email_domain";
+    value: string;
+}
+
+export interface PlannedAbstractAssignment {
+    abstractId: number;
+    trackingId: string | null;
+    locked: boolean;
+    /** Assignments kept from before (locked, manual or already reviewed) */
+    keptReviewerIds: number[];
+    /** Assignments proposed by this run */
+    addedReviewerIds: number[];
+    /** Reviewer slots that could not be filled */
+    shortfall: number;
+}
+
+export interface AssignmentPlan {
+    reviewersPerAbstract: number;
+    abstracts: PlannedAbstractAssignment[];
+    /** Assignments per reviewer after the plan is applied */
+    load: { reviewerId: number; name: string; assigned: number }[];
+}
+
+function normalizeInstitution(value: string | null | undefined): string | null {
+    if (!value) return null;
+    const normalized = value
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}]+/gu, " ")
+        .trim();
+    return normalized || null;
+}
+
+function institutionalEmailDomain(email: string | null | undefined): string | null {
+    const domain = email?.split("@")[1]?.trim().toLowerCase();
+    if (!domain || PUBLIC_EMAIL_DOMAINS.has(domain)) return null;
+    return domain;
+}
+
+/** Conflicts between a reviewer and an abstract's submitter/co-authors. */
+export function detectConflicts(
+    reviewer: Pick<AssignmentReviewer, "email" | "institution">,
+    abstract: Pick<AssignmentAbstract, "authors">
+): ConflictOfInterest[] {
+    const conflicts: ConflictOfInterest[] = [];
+    const reviewerInstitution = normalizeInstitution(reviewer.institution);
+    const reviewerDomain = institutionalEmailDomain(reviewer.email);
+
+    for (const author of abstract.authors) {
+        if (
+            reviewerInstitution &&
+            normalizeInstitution(author.institution) === reviewerInstitution &&
+            !conflicts.some((c) => c.type === "institution")
+        ) {
+            conflicts.push({ type: "institution", value: author.institution! });
+        }
+        if (
+            reviewerDomain &&
+            institutionalEmailDomain(author.email) === reviewerDomain &&
+            !conflicts.some((c) => c.type === "email_domain")
+        ) {
+            conflicts.push({ type: "email_domain", value: reviewerDomain });
+        }
+    }
+    return conflicts;
+}
+
+/** Reviewer's categories/presentation types cover the abstract (same rule as the list endpoint). */
+export function reviewerCoversAbstract(
+    reviewer: Pick<AssignmentReviewer, "assignedCategories" | "assignedPresentationTypes">,
+    abstract: Pick<AssignmentAbstract, "category" | "presentationType">
+): boolean {
+    const categories = reviewer.assignedCategories ?? [];
+    if (!categories.includes(abstract.category)) return false;
+    const types = reviewer.assignedPresentationTypes ?? [];
+    return types.length === 0 || types.includes(abstract.presentationType);
+}
+
+/**
+ * Distribute abstracts to reviewers, N per abstract, balancing load.
+ * Locked abstracts are left untouched; manual and already-reviewed assignments
+ * are kept and count towards N. Abstracts with the fewest eligible reviewers
+ * are placed first so they are not starved by easier ones.
+ */
+export function planReviewerAssignments(
+    abstractList: AssignmentAbstract[],
+    reviewers: AssignmentReviewer[],
+    existing: ExistingAssignment[],
+    reviewersPerAbstract: number
+): AssignmentPlan {
+    const load = new Map<number, number>(reviewers.map((r) => [r.id, 0]));
+    const existingByAbstract = new Map<number, ExistingAssignment[]>();
+    for (const a of existing) {
+        if (!existingByAbstract.has(a.abstractId)) existingByAbstract.set(a.abstractId, []);
+        existingByAbstract.get(a.abstractId)!.push(a);
+    }
+
+    const lockedIds = new Set(abstractList.filter((a) => a.reviewersLocked).map((a) => a.id));
+    const isLocked = (abstractId: number) => lockedIds.has(abstractId);
+    const isKept = (a: ExistingAssignment) =>
+        isLocked(a.abstractId) || a.source === "manual" || a.hasReview;
+
+    // Kept assignments always count towards reviewer load
+    for (const a of existing) {
+        if (isKept(a) && load.has(a.reviewerId)) {
+            load.set(a.reviewerId, load.get(a.reviewerId)! + 1);
+        }
+    }
+
+    const eligibleFor = (abstract: AssignmentAbstract) =>
+        reviewers.filter(
+            (r) => reviewerCoversAbstract(r, abstract) && detectConflicts(r, abstract).length === 0
+        );
+
+    const ordered = abstractList
+        .map((abstract) => ({ abstract, eligible: eligibleFor(abstract) }))
+        .sort((a, b) => a.eligible.length - b.eligible.length || a.abstract.id - b.abstract.id);
+
+    const planned: PlannedAbstractAssignment[] = [];
+    for (const { abstract, eligible } of ordered) {
+        const current = existingByAbstract.get(abstract.id) ?? [];
+        const locked = isLocked(abstract.id);
+        const keptReviewerIds = current.filter(isKept).map((a) => a.reviewerId);
+
+        if (locked) {
+            planned.push({
+                abstractId: abstract.id,
+                trackingId: abstract.trackingId,
+                locked,
+                keptReviewerIds,
+                addedReviewerIds: [],
+                shortfall: 0,
+            });
+            continue;
+        }
+
+        const needed = Math.max(0, reviewersPerAbstract - keptReviewerIds.length);
+        const picked = eligible
+            .filter((r) => !keptReviewerIds.includes(r.id))
+            .sort((a, b) => load.get(a.id)! - load.get(b.id)! || a.id - b.id)
+            .slice(0, needed)
+            .map((r) => r.id);
+
+        for (const reviewerId of picked) {
+            load.set(reviewerId, load.get(reviewerId)! + 1);
+        }
+
+        planned.push({
+            abstractId: abstract.id,
+            trackingId: abstract.trackingId,
+            locked,
+            keptReviewerIds,
+            addedReviewerIds: picked,
+            shortfall: needed - picked.length,
+        });
+    }
+
+    planned.sort((a, b) => a.abstractId - b.abstractId);
+
+    return {
+        reviewersPerAbstract,
+        abstracts: planned,
+        load: reviewers
+            .map((r) => ({
+                reviewerId: r.id,
+                name: `${r.firstName} ${r.lastName}`.trim(),
+                assigned: load.get(r.id) ?? 0,
+            }))
+            .sort((a, b) => b.assigned - a.assigned || a.reviewerId - b.reviewerId),
+    };
+}
+
+/** Active reviewers with the fields needed for assignment and COI checks. */
+export async function loadAssignmentReviewers(): Promise<AssignmentReviewer[]> {
+    return db
+        .select({
+            id: backofficeUsers.id,
+            email: backofficeUsers.email,
+            firstName: backofficeUsers.firstName,
+            lastName: backofficeUsers.lastName,
+            institution: backofficeUsers.institution,
+            assignedCategories: backofficeUsers.assignedCategories,
+            assignedPresentationTypes: backofficeUsers.assignedPresentationTypes,
+        })
+        .from(backofficeUsers)
+        .where(and(eq(backofficeUsers.role, "reviewer"), eq(backofficeUsers.isActive, true)));
+}
+
+/** Abstracts with submitter + co-author affiliations. */
+export async function loadAssignmentAbstracts(abstractIds: number[]): Promise<AssignmentAbstract[]> {
+    if (abstractIds.length === 0) return [];
+
+    const rows = await db
+        .select({
+            id: abstracts.id,
+            trackingId: abstracts.trackingId,
+            category: abstracts.category,
+            presentationType: abstracts.presentationType,
+            reviewersLocked: abstracts.reviewersLocked,
+            submitterEmail: users.email,
+            submitterInstitution: users.institution,
+        })
+        .from(abstracts)
+        .leftJoin(users, eq(abstracts.userId, users.id))
+        .where(inArray(abstracts.id, abstractIds));
+
+    const coAuthors = await db
+        .select({
+            abstractId: abstractCoAuthors.abstractId,
+            email: abstractCoAuthors.email,
+            institution: abstractCoAuthors.institution,
+        })
+        .from(abstractCoAuthors)
+        .where(inArray(abstractCoAuthors.abstractId, abstractIds));
+
+    return rows.map((row) => ({
+        id: row.id,
+        trackingId: row.trackingId,
+        category: row.category,
+        presentationType: row.presentationType,
+        reviewersLocked: row.reviewersLocked,
+        authors: [
+            { email: row.submitterEmail, institution: row.submitterInstitution },
+            ...coAuthors
+                .filter((ca) => ca.abstractId === row.id)
+                .map((ca) => ({ email: ca.email, institution: ca.institution })),
+        ],
+    }));
+}
+
+/** Current assignments for the given abstracts, flagged with whether the reviewer already reviewed. */
+export async function loadExistingAssignments(abstractIds: number[]): Promise<ExistingAssignment[]> {
+    if (abstractIds.length === 0) return [];
+
+    const [assignmentRows, reviewRows] = await Promise.all([
+        db
+            .select({
+                abstractId: abstractReviewerAssignments.abstractId,
+                reviewerId: abstractReviewerAssignments.reviewerId,
+                source: abstractReviewerAssignments.source,
+            })
+            .from(abstractReviewerAssignments)
+            .where(inArray(abstractReviewerAssignments.abstractId, abstractIds)),
+        db
+            .select({ abstractId: abstractReviews.abstractId, reviewerId: abstractReviews.reviewerId })
+            .from(abstractReviews)
+            .where(inArray(abstractReviews.abstractId, abstractIds)),
+    ]);
+
+    const reviewed = new Set(reviewRows.map((r) => `${r.abstractId}:${r.reviewerId}`));
+    return assignmentRows.map((a) => ({
+        ...a,
+        hasReview: reviewed.has(`${a.abstractId}:${a.reviewerId}`),
+    }));
+}
+
+/**
+ * Apply a plan: drop replaceable (auto, unreviewed) assignments on the planned
+ * abstracts and insert the newly proposed ones. Abstracts locked since the
+ * plan was made are skipped.
+ */
+export async function applyAssignmentPlan(
+    plan: AssignmentPlan,
+    staffId: number
+): Promise<{ added: number; removed: number }> {
+    let added = 0;
+    let removed = 0;
+
+    await db.transaction(async (tx) => {
+        for (const item of plan.abstracts) {
+            if (item.locked) continue;
+            const [current] = await tx
+                .select({ reviewersLocked: abstracts.reviewersLocked })
+                .from(abstracts)
+                .where(eq(abstracts.id, item.abstractId))
+                .for("update");
+            if (!current || current.reviewersLocked) continue;
+
+            const deleted = await tx
+                .delete(abstractReviewerAssignments)
+                .where(
+                    and(
+                        eq(abstractReviewerAssignments.abstractId, item.abstractId),
+                        eq(abstractReviewerAssignments.source, "auto"),
+                        item.keptReviewerIds.length > 0
+                            ? notInArray(abstractReviewerAssignments.reviewerId, item.keptReviewerIds)
+                            : undefined
+                    )
+                )
+                .returning({ id: abstractReviewerAssignments.id });
+            removed += deleted.length;
+
+            if (item.addedReviewerIds.length > 0) {
+                await tx.insert(abstractReviewerAssignments).values(
+                    item.addedReviewerIds.map((reviewerId) => ({
+                        abstractId: item.abstractId,
+                        reviewerId,
+                        source: "auto",
+                        assignedBy: staffId,
+                    }))
+                );
+                added += item.addedReviewerIds.length;
+            }
+        }
+    });
+
+    return { added, removed };
+}
+
+/**
+ * Assignment state of a reviewer on one abstract. Abstracts without any
+ * assignment fall back to category scoping (pre-assignment behaviour).
+ */
+export async function getReviewerAssignmentState(
+    abstractId: number,
+    reviewerId: number
+): Promise<{ hasAssignments: boolean; isAssigned: boolean }> {
+    const rows = await db
+        .select({ reviewerId: abstractReviewerAssignments.reviewerId })
+        .from(abstractReviewerAssignments)
+        .where(eq(abstractReviewerAssignments.abstractId, abstractId));
+    return {
+        hasAssignments: rows.length > 0,
+        isAssigned: rows.some((r) => r.reviewerId === reviewerId),
+    };
+}
+
+/**
+ * Whether a staff member may open/review an abstract: category scope for
+ * reviewers, narrowed to the assigned reviewers once an abstract has any.
+ */
+export async function canStaffAccessAbstract(
+    staff: { id: number; role: string; assignedCategories?: string[]; assignedPresentationTypes?: string[] },
+    abstract: { id: number; category: string; presentationType: string }
+): Promise<boolean> {
+    if (staff.role !== "reviewer") return true;
+    if (!isAbstractInReviewerScope(staff, abstract)) return false;
+    const { hasAssignments, isAssigned } = await getReviewerAssignmentState(abstract.id, staff.id);
+    return !hasAssignments || isAssigned;
+}
+
+/** SQL condition for list queries: abstract is unassigned or assigned to this reviewer. */
+export const visibleToReviewerCondition = (reviewerId: number) => sql`(
+    not exists (
+        select 1 from ${abstractReviewerAssignments}
+        where ${abstractReviewerAssignments.abstractId} = ${abstracts.id}
+    )
+    or exists (
+        select 1 from ${abstractReviewerAssignments}
+        where ${abstractReviewerAssignments.abstractId} = ${abstracts.id}
+          and ${abstractReviewerAssignments.reviewerId} = ${reviewerId}
+    )
+)`;
@@ -0,0 +1,245 @@
+import { db } from "../database/index.js";
+import { orders, payments, seatHolds, sessions, ticketTypes, users } from "../database/schema.js";
+import { and, asc, eq, gt, inArray, isNull, lt, ne, not, or, sql } from "drizzle-orm";
+import { cancelPromoUsage } from "../utils/promoEngine.js";
+import { transitionOrder } from "./orderEvents.service.js";
+
+// TTL for seat holds of pending orders (configurable via env, default 30 min)
+export const SEAT_HOLD_TTL_MS = parseInt(process.env.SEAT_HOLD_TTL_MINUTES || "30", 10) * 60 * 1000;
+
+export type SeatHoldTarget = { ticketTypeId: number } | { sessionId: number };
+
+export type SeatHoldReleaseReason = "cancelled" | "failed" | "superseded";
+
+const holdTargetCondition = (target: SeatHoldTarget) =>
+    "ticketTypeId" in target
+        ? eq(seatHolds.ticketTypeId, target.ticketTypeId)
+        : eq(seatHolds.sessionId, target.sessionId);
+
+const activeHoldCondition = (now: Date) =>
+    and(eq(seatHolds.status, "active"), gt(seatHolds.expiresAt, now));
+
+// Holds of the user's own card checkouts, which a newer checkout replaces (needs a join on orders).
+// Group and invoice orders are live until their own deadline and are never replaced.
+const supersedableHoldCondition = (userId: number) =>
+    and(eq(seatHolds.userId, userId), eq(orders.isGroupOrder, false), isNull(orders.invoiceDueAt))!;
+
+const holdTargetKey = (target: SeatHoldTarget) =>
+    "ticketTypeId" in target ? `ticket:${target.ticketTypeId}` : `session:${target.sessionId}`;
+
+/**
+ * Seats held by unpaid orders for a ticket type / session. The card checkouts
+ * of excludeUserId are left out so a user retrying checkout does not compete
+ * with their own previous attempt (createSeatHolds cancels it).
+ */
+export async function countActiveSeatHolds(
+    target: SeatHoldTarget,
+    excludeUserId: number | null = null,
+    now: Date = new Date(),
+    executor: any = db
+): Promise<number> {
+    const [row] = await executor
+        .select({ total: sql<number>`coalesce(sum(${seatHolds.quantity}), 0)::int` })
+        .from(seatHolds)
+        .innerJoin(orders, eq(seatHolds.orderId, orders.id))
+        .where(
+            and(
+                holdTargetCondition(target),
+                activeHoldCondition(now),
+                excludeUserId != null ? not(supersedableHoldCondition(excludeUserId)) : undefined
+            )
+        );
+    return Number(row?.total ?? 0);
+}
+
+/** Active held seats per ticket type and per session, for availability listings. */
+export async function loadActiveSeatHoldCounts(
+    ticketTypeIds: number[],
+    sessionIds: number[],
+    now: Date = new Date()
+): Promise<{ byTicketType: Map<number, number>; bySession: Map<number, number> }> {
+    const [ticketRows, sessionRows] = await Promise.all([
+        ticketTypeIds.length === 0
+            ? []
+            : db
+                  .select({ id: seatHolds.ticketTypeId, total: sql<number>`sum(${seatHolds.quantity})::int` })
+                  .from(seatHolds)
+                  .where(and(inArray(seatHolds.ticketTypeId, ticketTypeIds), activeHoldCondition(now)))
+                  .groupBy(seatHolds.ticketTypeId),
+        sessionIds.length === 0
+            ? []
+            : db
+                  .select({ id: seatHolds.sessionId, total: sql<number>`sum(${seatHolds.quantity})::int` })
+                  .from(seatHolds)
+                  .where(and(inArray(seatHolds.sessionId, sessionIds), activeHoldCondition(now)))
+                  .groupBy(seatHolds.sessionId),
+    ]);
+
+    return {
+        byTicketType: new Map(ticketRows.map((r) => [r.id!, Number(r.total)])),
+        bySession: new Map(sessionRows.map((r) => [r.id!, Number(r.total)])),
+    };
+}
+
+/**
+ * Cancel an older card checkout of the same user in the transaction that
+ * takes its seats over, so it cannot be paid for on top of the new order.
+ * Returns the targets whose holds were released.
+ */
+async function supersedeOrder(tx: any, orderId: number, supersededBy: number, userId: number): Promise<SeatHoldTarget[]> {
+    const transition = await transitionOrder(tx, orderId, "cancelled", {
+        source: "checkout",
+        userId,
+        paymentStatus: "cancelled",
+        note: `Superseded by order ${supersededBy}`,
+    });
+    if (!transition.allowed) return [];
+
+    await tx
+        .update(payments)
+        .set({ status: "cancelled", providerStatus: "CANCELLED" })
+        .where(and(eq(payments.orderId, orderId), eq(payments.status, "pending")));
+    await cancelPromoUsage(orderId, tx);
+    return releaseOrderSeatHolds(orderId, "superseded", tx);
+}
+
+/**
+ * Insert the holds of a new pending order. The user's older card checkouts
+ * holding the same targets are abandoned attempts and get cancelled; group
+ * and invoice orders stay live and keep their holds, so an invoice keeps its
+ * seats until the due date whatever else the buyer opens. Group orders hold
+ * `quantity` seats per target; invoice orders hold them until `holdUntil`
+ * (the invoice due date) instead of the checkout TTL. Returns the targets
+ * the cancelled orders gave back that the new order does not take.
+ */
+export async function createSeatHolds(
+    tx: any,
+    order: { orderId: number; userId: number; eventId: number; quantity?: number; holdUntil?: Date },
+    targets: SeatHoldTarget[],
+    now: Date = new Date()
+): Promise<SeatHoldTarget[]> {
+    if (targets.length === 0) return [];
+
+    const superseded: { orderId: number }[] = await tx
+        .selectDistinct({ orderId: seatHolds.orderId })
+        .from(seatHolds)
+        .innerJoin(orders, eq(seatHolds.orderId, orders.id))
+        .where(
+            and(
+                or(...targets.map(holdTargetCondition)),
+                eq(seatHolds.status, "active"),
+                supersedableHoldCondition(order.userId),
+                ne(seatHolds.orderId, order.orderId)
+            )
+        );
+
+    const taken = new Set(targets.map(holdTargetKey));
+    const freed = new Map<string, SeatHoldTarget>();
+    for (const { orderId } of superseded) {
+        for (const target of await supersedeOrder(tx, orderId, order.orderId, order.userId)) {
+            if (!taken.has(holdTargetKey(target))) freed.set(holdTargetKey(target), target);
+        }
+    }
+
+    const expiresAt = order.holdUntil ?? new Date(now.getTime() + SEAT_HOLD_TTL_MS);
+    await tx.insert(seatHolds).values(
+        targets.map((target) => ({
+            orderId: order.orderId,
+            userId: order.userId,
+            eventId: order.eventId,
+            ticketTypeId: "ticketTypeId" in target ? target.ticketTypeId : null,
+            sessionId: "sessionId" in target ? target.sessionId : null,
+            quantity: order.quantity ?? 1,
+            status: "active",
+            expiresAt,
+        }))
+    );
+    return [...freed.values()];
+}
+
+const toTargets = (rows: { ticketTypeId: number | null; sessionId: number | null }[]): SeatHoldTarget[] =>
+    rows.map((row) => (row.ticketTypeId != null ? { ticketTypeId: row.ticketTypeId } : { sessionId: row.sessionId! }));
+
+/** Release the active holds of an order; returns the targets that got seats back. */
+export async function releaseOrderSeatHolds(
+    orderId: number,
+    reason: SeatHoldReleaseReason,
+    executor: any = db
+): Promise<SeatHoldTarget[]> {
+    const released = await executor
+        .update(seatHolds)
+        .set({ status: "released", releasedAt: new Date(), releaseReason: reason })
+        .where(and(eq(seatHolds.orderId, orderId), eq(seatHolds.status, "active")))
+        .returning({ ticketTypeId: seatHolds.ticketTypeId, sessionId: seatHolds.sessionId });
+    return toTargets(released);
+}
+
+/** Payment succeeded: the held seats are now sold (counted by soldCount / registrations). */
+export async function convertOrderSeatHolds(tx: any, orderId: number): Promise<void> {
+    await tx
+        .update(seatHolds)
+        .set({ status: "converted", releasedAt: new Date() })
+        .where(and(eq(seatHolds.orderId, orderId), inArray(seatHolds.status, ["active", "expired"])));
+}
+
+/** Mark holds past their TTL expired (on-request cleanup); returns the freed targets. */
+export async function expireSeatHolds(now: Date = new Date()): Promise<SeatHoldTarget[]> {
+    const expired = await db
+        .update(seatHolds)
+        .set({ status: "expired", releasedAt: now })
+        .where(and(eq(seatHolds.status, "active"), lt(seatHolds.expiresAt, now)))
+        .returning({ ticketTypeId: seatHolds.ticketTypeId, sessionId: seatHolds.sessionId });
+    return toTargets(expired);
+}
+
+/** Backoffice view: who is holding seats right now (or historically, by status). */
+export async function listSeatHolds(filters: {
+    eventId?: number;
+    ticketTypeId?: number;
+    sessionId?: number;
+    status?: string;
+}) {
+    const now = new Date();
+    const conditions = [];
+    if (filters.eventId) conditions.push(eq(seatHolds.eventId, filters.eventId));
+    if (filters.ticketTypeId) conditions.push(eq(seatHolds.ticketTypeId, filters.ticketTypeId));
+    if (filters.sessionId) conditions.push(eq(seatHolds.sessionId, filters.sessionId));
+    if (!filters.status || filters.status === "active") {
+        conditions.push(activeHoldCondition(now));
+    } else {
+        conditions.push(eq(seatHolds.status, filters.status));
+    }
+
+    return db
+        .select({
+            id: seatHolds.id,
+            orderId: seatHolds.orderId,
+            orderNumber: orders.orderNumber,
+            orderStatus: orders.status,
+            eventId: seatHolds.eventId,
+            ticketTypeId: seatHolds.ticketTypeId,
+            ticketName: ticketTypes.name,
+            sessionId: seatHolds.sessionId,
+            sessionName: sessions.sessionName,
+            quantity: seatHolds.quantity,
+            status: seatHolds.status,
+            expiresAt: seatHolds.expiresAt,
+            releasedAt: seatHolds.releasedAt,
+            releaseReason: seatHolds.releaseReason,
+            createdAt: seatHolds.createdAt,
+            user: {
+                id: users.id,
+                email: users.email,
+                firstName: users.firstName,
+                middleName: users.middleName,
+                lastName: users.lastName,
+            },
+        })
+        .from(seatHolds)
+        .innerJoin(orders, eq(seatHolds.orderId, orders.id))
+        .innerJoin(users, eq(seatHolds.userId, users.id))
+        .leftJoin(ticketTypes, eq(seatHolds.ticketTypeId, ticketTypes.id))
+        .leftJoin(sessions, eq(seatHolds.sessionId, sessions.id))
+        .where(and(...conditions))
+        .orderBy(asc(seatHolds.expiresAt));
+}
@@ -0,0 +1,362 @@
+import { db } from "../database/index.js";
+import {
+    orders,
+    payments,
+    settlementImports,
+    settlementLines,
+    type NewSettlementLine,
+    type Payment,
+    type SettlementImport,
+} from "../database/schema.js";
+import { and, asc, desc, eq, gte, inArray, lte, or } from "drizzle-orm";
+import type { SettlementCsvLine, SettlementProvider } from "../utils/settlementCsv.js";
+import { estimateStripeFeeFromGross, type FeeMethod } from "../utils/stripeFee.js";
+import {
+    calculatePaySolutionsFeeFromGross,
+    type PaySolutionsFeeMethod,
+} from "../utils/paySolutionsFee.js";
+
+const PAY_SOLUTIONS_FEE_METHODS: PaySolutionsFeeMethod[] = ["promptpay", "card", "usd_card", "alipay"];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function toPlainObject(value: unknown): Record<string, unknown> {
+    return value && typeof value === "object" && !Array.isArray(value)
+        ? (value as Record<string, unknown>)
+        : {};
+}
+
+/**
+ * Fee we expected the provider to deduct. The fee quoted to the buyer at
+ * checkout (stored on the payment) wins; otherwise it is derived from the
+ * provider tariff. KTB has no tariff in the code base, so null there.
+ */
+export function computeExpectedFee(payment: Payment, currency: string, gross: number): number | null {
+    if (gross <= 0) return 0;
+
+    const details = toPlainObject(payment.paymentDetails);
+    const quotedFee = Number(details.processingFee ?? NaN);
+    const quotedVat = Number(details.processingVat ?? 0);
+    if (Number.isFinite(quotedFee) && quotedFee > 0) {
+        return round2(quotedFee + (Number.isFinite(quotedVat) ? quotedVat : 0));
+    }
+
+    const channel = (payment.paySolutionsChannel || payment.paymentChannel || "").toLowerCase();
+    if (payment.paymentProvider === "stripe") {
+        const method: FeeMethod =
+            currency === "USD" ? "international_card" : channel === "promptpay" ? "promptpay" : "thai_card";
+        return estimateStripeFeeFromGross(gross, method);
+    }
+    if (payment.paymentProvider === "pay_solutions") {
+        const stored = details.feeMethod as PaySolutionsFeeMethod | undefined;
+        const method: PaySolutionsFeeMethod =
+            stored && PAY_SOLUTIONS_FEE_METHODS.includes(stored)
+                ? stored
+                : channel === "alipay"
+                  ? "alipay"
+                  : channel === "promptpay"
+                    ? "promptpay"
+                    : currency === "USD"
+                      ? "usd_card"
+                      : "card";
+        return calculatePaySolutionsFeeFromGross(gross, method).fee;
+    }
+    return null;
+}
+
+/**
+ * Identity of a settlement line across uploads: its own provider id and date.
+ * Exports without a per-line id fall back to the matched reference and amount.
+ */
+function settlementLineKey(line: {
+    lineReference: string | null;
+    reference: string;
+    gross: number;
+    transactionDate: Date | null;
+}): string {
+    const id = line.lineReference ?? `${line.reference}:${line.gross.toFixed(2)}`;
+    return `${id}@${line.transactionDate?.toISOString() ?? ""}`;
+}
+
+/**
+ * Store the lines of an uploaded settlement file and match each one to a
+ * payment of the same provider by providerRef / Stripe PaymentIntent /
+ * Pay Solutions refno or order number. A line already matched by an earlier
+ * upload (same provider line id and date) is marked duplicate so a
+ * re-uploaded file does not count twice in the report; further charges or
+ * refunds of the same payment are separate lines and still count.
+ */
+export async function importSettlementLines(input: {
+    provider: SettlementProvider;
+    fileName: string;
+    lines: SettlementCsvLine[];
+    staffId?: number;
+}): Promise<SettlementImport> {
+    const references = [...new Set(input.lines.flatMap((line) => line.references))];
+    const orderIds = [...new Set(input.lines.map((line) => line.orderId).filter((id): id is number => id != null))];
+
+    const candidates = references.length === 0 && orderIds.length === 0
+        ? []
+        : await db
+            .select()
+            .from(payments)
+            .where(
+                and(
+                    eq(payments.paymentProvider, input.provider),
+                    or(
+                        references.length ? inArray(payments.providerRef, references) : undefined,
+                        references.length ? inArray(payments.stripeSessionId, references) : undefined,
+                        references.length ? inArray(payments.paySolutionsRefno, references) : undefined,
+                        references.length ? inArray(payments.paySolutionsOrderNo, references) : undefined,
+                        orderIds.length ? inArray(payments.orderId, orderIds) : undefined
+                    )
+                )
+            );
+
+    const byReference = new Map<string, Payment>();
+    const byOrderId = new Map<number, Payment>();
+    for (const payment of candidates) {
+        for (const ref of [
+            payment.providerRef,
+            payment.stripeSessionId,
+            payment.paySolutionsRefno,
+            payment.paySolutionsOrderNo,
+        ]) {
+            if (ref) byReference.set(ref, payment);
+        }
+        byOrderId.set(payment.orderId, payment);
+    }
+
+    const settled = new Set<string>();
+    if (candidates.length > 0) {
+        const existing = await db
+            .select({
+                lineReference: settlementLines.lineReference,
+                reference: settlementLines.reference,
+                grossAmount: settlementLines.grossAmount,
+                transactionDate: settlementLines.transactionDate,
+            })
+            .from(settlementLines)
+            .where(
+                and(
+                    eq(settlementLines.matchStatus, "matched"),
+                    inArray(settlementLines.paymentId, candidates.map((p) => p.id))
+                )
+            );
+        for (const row of existing) {
+            settled.add(settlementLineKey({ ...row, gross: Number(row.grossAmount) }));
+        }
+    }
+
+    return db.transaction(async (tx) => {
+        const [settlementImport] = await tx
+            .insert(settlementImports)
+            .values({
+                paymentProvider: input.provider,
+                fileName: input.fileName,
+                uploadedBy: input.staffId ?? null,
+                lineCount: input.lines.length,
+            })
+            .returning();
+
+        let matchedCount = 0;
+        let unmatchedCount = 0;
+        let duplicateCount = 0;
+        const rows: NewSettlementLine[] = input.lines.map((line) => {
+            const payment =
+                line.references.map((ref) => byReference.get(ref)).find(Boolean) ??
+                (line.orderId != null ? byOrderId.get(line.orderId) : undefined);
+
+            const reference = line.references[0].slice(0, 255);
+            const lineReference = line.lineReference?.slice(0, 255) ?? null;
+
+            let matchStatus = "unmatched";
+            if (payment) {
+                const key = settlementLineKey({ ...line, reference, lineReference });
+                matchStatus = settled.has(key) ? "duplicate" : "matched";
+                settled.add(key);
+            }
+            if (matchStatus === "matched") matchedCount++;
+            else if (matchStatus === "duplicate") duplicateCount++;
+            else unmatchedCount++;
+
+            return {
+                importId: settlementImport.id,
+                paymentProvider: input.provider,
+                rowNumber: line.row,
+                reference,
+                lineReference,
+                transactionDate: line.transactionDate,
+                channel: line.channel?.slice(0, 50) ?? null,
+                currency: line.currency?.slice(0, 3) ?? null,
+                grossAmount: String(line.gross),
+                feeAmount: String(line.fee),
+                netAmount: String(line.net),
+                paymentId: payment?.id ?? null,
+                matchStatus,
+                raw: line.raw,
+            };
+        });
+
+        for (let i = 0; i < rows.length; i += 500) {
+            await tx.insert(settlementLines).values(rows.slice(i, i + 500));
+        }
+
+        const [updated] = await tx
+            .update(settlementImports)
+            .set({ matchedCount, unmatchedCount, duplicateCount })
+            .where(eq(settlementImports.id, settlementImport.id))
+            .returning();
+        return updated;
+    });
+}
+
+export async function listSettlementImports() {
+    return db.select().from(settlementImports).orderBy(desc(settlementImports.createdAt));
+}
+
+export async function getSettlementImport(importId: number) {
+    const [settlementImport] = await db
+        .select()
+        .from(settlementImports)
+        .where(eq(settlementImports.id, importId))
+        .limit(1);
+    if (!settlementImport) return null;
+
+    const lines = await db
+        .select()
+        .from(settlementLines)
+        .where(eq(settlementLines.importId, importId))
+        .orderBy(asc(settlementLines.rowNumber));
+    return { import: settlementImport, lines };
+}
+
+/** Drop a wrongly uploaded file; its lines go with it. */
+export async function deleteSettlementImport(importId: number): Promise<boolean> {
+    const deleted = await db
+        .delete(settlementImports)
+        .where(eq(settlementImports.id, importId))
+        .returning({ id: settlementImports.id });
+    return deleted.length > 0;
+}
+
+export interface SettlementReportFilters {
+    provider?: SettlementProvider;
+    from?: Date;
+    to?: Date;
+}
+
+export interface SettlementReportRow {
+    date: string;
+    provider: string;
+    channel: string;
+    currency: string;
+    count: number;
+    gross: number;
+    expectedFee: number;
+    actualFee: number;
+    feeDifference: number;
+    net: number;
+    /** Lines whose expected fee could not be derived (KTB without a quoted fee) */
+    unknownExpectedFee: number;
+}
+
+/** Calendar day in conference time (Bangkok). */
+function toBangkokDate(date: Date): string {
+    return date.toLocaleDateString("en-CA", { timeZone: "Asia/Bangkok" });
+}
+
+/**
+ * Gross, expected fee, actual fee and net per day, provider, channel and
+ * currency for matched settlement lines, plus every unmatched line.
+ */
+export async function getSettlementReport(filters: SettlementReportFilters) {
+    const conditions = [
+        filters.provider ? eq(settlementLines.paymentProvider, filters.provider) : undefined,
+        filters.from ? gte(settlementLines.transactionDate, filters.from) : undefined,
+        filters.to ? lte(settlementLines.transactionDate, filters.to) : undefined,
+    ];
+
+    const matched = await db
+        .select({ line: settlementLines, payment: payments, orderCurrency: orders.currency })
+        .from(settlementLines)
+        .innerJoin(payments, eq(settlementLines.paymentId, payments.id))
+        .innerJoin(orders, eq(payments.orderId, orders.id))
+        .where(and(eq(settlementLines.matchStatus, "matched"), ...conditions))
+        .orderBy(asc(settlementLines.transactionDate));
+
+    const groups = new Map<string, SettlementReportRow>();
+    for (const { line, payment, orderCurrency } of matched) {
+        const when = line.transactionDate ?? payment.paidAt;
+        const date = when ? toBangkokDate(when) : "unknown";
+        const channel = payment.paymentChannel || line.channel || "unknown";
+        const currency = line.currency || orderCurrency;
+        const key = [date, line.paymentProvider, channel, currency].join("|");
+
+        const row = groups.get(key) ?? {
+            date,
+            provider: line.paymentProvider,
+            channel,
+            currency,
+            count: 0,
+            gross: 0,
+            expectedFee: 0,
+            actualFee: 0,
+            feeDifference: 0,
+            net: 0,
+            unknownExpectedFee: 0,
+        };
+
+        const gross = Number(line.grossAmount);
+        const actualFee = Number(line.feeAmount);
+        const expectedFee = computeExpectedFee(payment, currency, gross);
+        row.count++;
+        row.gross = round2(row.gross + gross);
+        row.actualFee = round2(row.actualFee + actualFee);
+        row.net = round2(row.net + Number(line.netAmount));
+        if (expectedFee == null) {
+            row.unknownExpectedFee++;
+        } else {
+            row.expectedFee = round2(row.expectedFee + expectedFee);
+            row.feeDifference = round2(row.feeDifference + actualFee - expectedFee);
+        }
+        groups.set(key, row);
+    }
+
+    const rows = [...groups.values()].sort(
+        (a, b) =>
+            a.date.localeCompare(b.date) ||
+            a.provider.localeCompare(b.provider) ||
+            a.channel.localeCompare(b.channel)
+    );
+
+    // Per currency: Stripe USD and THB payouts are never added together
+    const totals: Record<string, Omit<SettlementReportRow, "date" | "provider" | "channel" | "currency">> = {};
+    for (const row of rows) {
+        const sum = totals[row.currency] ?? {
+            count: 0,
+            gross: 0,
+            expectedFee: 0,
+            actualFee: 0,
+            feeDifference: 0,
+            net: 0,
+            unknownExpectedFee: 0,
+        };
+        sum.count += row.count;
+        sum.gross = round2(sum.gross + row.gross);
+        sum.expectedFee = round2(sum.expectedFee + row.expectedFee);
+        sum.actualFee = round2(sum.actualFee + row.actualFee);
+        sum.feeDifference = round2(sum.feeDifference + row.feeDifference);
+        sum.net = round2(sum.net + row.net);
+        sum.unknownExpectedFee += row.unknownExpectedFee;
+        totals[row.currency] = sum;
+    }
+
+    const unmatched = await db
+        .select()
+        .from(settlementLines)
+        .where(and(eq(settlementLines.matchStatus, "unmatched"), ...conditions))
+        .orderBy(asc(settlementLines.transactionDate), asc(settlementLines.id));
+
+    return { rows, totals, unmatched };
+}
@@ -0,0 +1,373 @@
+import { db } from "../database/index.js";
+import {
+    orderItems,
+    orders,
+    payments,
+    taxDocumentSequences,
+    taxInvoices,
+    ticketTypes,
+    users,
+    type Order,
+    type TaxInvoice,
+} from "../database/schema.js";
+import { and, asc, desc, eq, inArray, sql } from "drizzle-orm";
+import { buildChargeNote, resolveChargeDisplay } from "../utils/alipayCharge.js";
+import { paymentChannelLabel, resolveReceiptPaymentChannel } from "./receiptPdf.js";
+import { generateTaxInvoicePdf, type TaxDocumentMarking, type TaxSellerInfo } from "./taxInvoicePdf.js";
+import { sendTaxInvoiceEmail } from "./emailService.js";
+import { recordOrderEvent } from "./orderEvents.service.js";
+
+export type TaxDocumentType = "tax_invoice" | "credit_note";
+
+const DOCUMENT_PREFIXES: Record<TaxDocumentType, string> = {
+    tax_invoice: "TI",
+    credit_note: "CN",
+};
+
+// VAT rate (percent) included in every ticket price (configurable via env, default 7)
+export const TAX_VAT_RATE = Number(process.env.TAX_VAT_RATE || "7");
+
+// Month (1-12) in which document numbering restarts (configurable via env, default January)
+const FISCAL_YEAR_START_MONTH = parseInt(process.env.TAX_FISCAL_YEAR_START_MONTH || "1", 10);
+
+const BANGKOK_OFFSET_MS = 7 * 60 * 60 * 1000;
+
+const PAID_STATUSES = ["paid", "refunded"];
+
+export interface TaxBuyerCorrection {
+    taxName?: string;
+    taxId?: string;
+    taxBranchCode?: string;
+    taxAddress?: string;
+    taxSubDistrict?: string;
+    taxDistrict?: string;
+    taxProvince?: string;
+    taxPostalCode?: string;
+}
+
+const round2 = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+
+/** Seller printed on tax documents; null until TAX_SELLER_* is configured. */
+export function getSellerInfo(): TaxSellerInfo | null {
+    const name = process.env.TAX_SELLER_NAME?.trim();
+    const taxId = process.env.TAX_SELLER_TAX_ID?.trim();
+    const address = process.env.TAX_SELLER_ADDRESS?.trim();
+    if (!name || !taxId || !address) return null;
+
+    return {
+        name,
+        taxId,
+        address,
+        branchCode: process.env.TAX_SELLER_BRANCH_CODE?.trim() || "00000",
+    };
+}
+
+/** Split a VAT-inclusive amount into its net and VAT parts. */
+export function splitVat(total: number, vatRate: number): { amountBeforeVat: number; vatAmount: number } {
+    const vatAmount = round2((total * vatRate) / (100 + vatRate));
+    return { amountBeforeVat: round2(total - vatAmount), vatAmount };
+}
+
+/**
+ * Fiscal year of a document date in Bangkok time. With a start month other
+ * than January the year is named after the calendar year it ends in.
+ */
+export function getFiscalYear(date: Date): number {
+    const local = new Date(date.getTime() + BANGKOK_OFFSET_MS);
+    const year = local.getUTCFullYear();
+    const month = local.getUTCMonth() + 1;
+    return FISCAL_YEAR_START_MONTH > 1 && month >= FISCAL_YEAR_START_MONTH ? year + 1 : year;
+}
+
+/**
+ * Take the next number of a document type, e.g. TI2026-000042. Must run in the
+ * transaction that stores the document: the sequence row stays locked until it
+ * commits, and a rollback hands the number out again.
+ */
+export async function allocateTaxDocumentNumber(
+    tx: any,
+    documentType: TaxDocumentType,
+    issuedAt: Date
+): Promise<{ documentNumber: string; fiscalYear: number }> {
+    const fiscalYear = getFiscalYear(issuedAt);
+    const [row] = await tx
+        .insert(taxDocumentSequences)
+        .values({ documentType, fiscalYear, lastNumber: 1 })
+        .onConflictDoUpdate({
+            target: [taxDocumentSequences.documentType, taxDocumentSequences.fiscalYear],
+            set: { lastNumber: sql`${taxDocumentSequences.lastNumber} + 1`, updatedAt: new Date() },
+        })
+        .returning({ lastNumber: taxDocumentSequences.lastNumber });
+
+    return {
+        documentNumber: `${DOCUMENT_PREFIXES[documentType]}${fiscalYear}-${String(row.lastNumber).padStart(6, "0")}`,
+        fiscalYear,
+    };
+}
+
+/** The tax invoice currently in force for an order (a replaced one is cancelled). */
+export async function findIssuedTaxInvoice(executor: any, orderId: number): Promise<TaxInvoice | null> {
+    const [invoice] = await executor
+        .select()
+        .from(taxInvoices)
+        .where(and(eq(taxInvoices.orderId, orderId), eq(taxInvoices.status, "issued")))
+        .orderBy(desc(taxInvoices.id))
+        .limit(1);
+    return invoice ?? null;
+}
+
+export async function listOrderTaxInvoices(orderId: number) {
+    return db
+        .select()
+        .from(taxInvoices)
+        .where(eq(taxInvoices.orderId, orderId))
+        .orderBy(asc(taxInvoices.id));
+}
+
+/** Items and amounts of a paid order in the order currency, as on the receipt. */
+async function loadInvoiceLines(executor: any, order: Pick<Order, "id" | "currency" | "discountAmount">) {
+    const [payment] = await executor
+        .select({
+            amount: payments.amount,
+            paymentChannel: payments.paymentChannel,
+            paymentDetails: payments.paymentDetails,
+        })
+        .from(payments)
+        .where(and(eq(payments.orderId, order.id), inArray(payments.status, PAID_STATUSES)))
+        .limit(1);
+    if (!payment) return null;
+
+    const items: { name: string; price: string; quantity: number }[] = await executor
+        .select({ name: ticketTypes.name, price: orderItems.price, quantity: orderItems.quantity })
+        .from(orderItems)
+        .innerJoin(ticketTypes, eq(orderItems.ticketTypeId, ticketTypes.id))
+        .where(eq(orderItems.orderId, order.id))
+        .orderBy(asc(orderItems.id));
+
+    const subtotal = items.reduce((sum, item) => sum + Number(item.price) * item.quantity, 0);
+    const discount = Number(order.discountAmount || 0);
+    const charge = resolveChargeDisplay(order.currency, payment.amount, subtotal - discount, payment.paymentDetails);
+
+    return {
+        items: items.map((item) => ({ name: item.name, price: Number(item.price), quantity: item.quantity })),
+        discount,
+        fee: charge.fee,
+        total: charge.totalPaid,
+        chargeNote: buildChargeNote(charge),
+        paymentMethod: paymentChannelLabel(resolveReceiptPaymentChannel(payment.paymentChannel)),
+    };
+}
+
+/**
+ * Issue the full tax invoice of a paid order that asked for one. Returns the
+ * invoice already in force unless a cancelled one is being replaced.
+ */
+export async function issueOrderTaxInvoice(
+    tx: any,
+    orderId: number,
+    options: { staffId?: number | null; replaces?: TaxInvoice } = {}
+): Promise<TaxInvoice> {
+    const [order] = await tx.select().from(orders).where(eq(orders.id, orderId)).limit(1);
+    if (!order) throw new Error("ORDER_NOT_FOUND");
+    if (!PAID_STATUSES.includes(order.status)) throw new Error("TAX_INVOICE_ORDER_NOT_PAID");
+    if (!order.needTaxInvoice || !order.taxName) throw new Error("TAX_INVOICE_NOT_REQUESTED");
+
+    if (!options.replaces) {
+        const existing = await findIssuedTaxInvoice(tx, orderId);
+        if (existing) return existing;
+    }
+
+    const lines = await loadInvoiceLines(tx, order);
+    if (!lines) throw new Error("TAX_INVOICE_ORDER_NOT_PAID");
+    if (lines.total <= 0) throw new Error("TAX_INVOICE_ZERO_AMOUNT");
+
+    const issuedAt = new Date();
+    const { documentNumber, fiscalYear } = await allocateTaxDocumentNumber(tx, "tax_invoice", issuedAt);
+    const { amountBeforeVat, vatAmount } = splitVat(lines.total, TAX_VAT_RATE);
+
+    const [invoice] = await tx
+        .insert(taxInvoices)
+        .values({
+            orderId,
+            documentNumber,
+            fiscalYear,
+            buyerName: order.taxName,
+            buyerTaxId: order.taxId,
+            buyerBranchCode: order.taxBranchCode,
+            buyerAddress: order.taxFullAddress,
+            currency: order.currency,
+            amountBeforeVat: amountBeforeVat.toFixed(2),
+            vatRate: TAX_VAT_RATE.toFixed(2),
+            vatAmount: vatAmount.toFixed(2),
+            totalAmount: lines.total.toFixed(2),
+            replacesInvoiceId: options.replaces?.id ?? null,
+            issuedBy: options.staffId ?? null,
+            issuedAt,
+        })
+        .returning();
+    return invoice;
+}
+
+/** Backoffice: issue the invoice of a paid order that does not have one yet. */
+export async function issueTaxInvoiceForOrder(orderId: number, staffId: number): Promise<TaxInvoice> {
+    return db.transaction(async (tx) => {
+        await tx.select({ id: orders.id }).from(orders).where(eq(orders.id, orderId)).for("update");
+        return issueOrderTaxInvoice(tx, orderId, { staffId });
+    });
+}
+
+/**
+ * Issue the invoice of an order that has just been paid. Returns null when one
+ * is already in force (a replayed callback), so it is only emailed once.
+ */
+export async function issuePaidOrderTaxInvoice(orderId: number, staffId?: number | null): Promise<TaxInvoice | null> {
+    return db.transaction(async (tx) => {
+        await tx.select({ id: orders.id }).from(orders).where(eq(orders.id, orderId)).for("update");
+        if (await findIssuedTaxInvoice(tx, orderId)) return null;
+        return issueOrderTaxInvoice(tx, orderId, { staffId });
+    });
+}
+
+function joinTaxAddress(order: Pick<Order, "taxAddress" | "taxSubDistrict" | "taxDistrict" | "taxProvince" | "taxPostalCode">): string | null {
+    const values = [order.taxAddress, order.taxSubDistrict, order.taxDistrict, order.taxProvince, order.taxPostalCode]
+        .filter((value): value is string => Boolean(value));
+    return values.length > 0 ? values.join(" ") : null;
+}
+
+/**
+ * Correct the buyer details of an issued tax invoice: the order is updated,
+ * the invoice is cancelled and a new number is issued in its place. Credit
+ * notes already issued keep referencing the invoice they adjusted.
+ */
+export async function reissueTaxInvoice(input: {
+    orderId: number;
+    staffId: number;
+    reason: string;
+    correction: TaxBuyerCorrection;
+}): Promise<{ previous: TaxInvoice; invoice: TaxInvoice }> {
+    return db.transaction(async (tx) => {
+        const [order] = await tx.select().from(orders).where(eq(orders.id, input.orderId)).for("update");
+        if (!order) throw new Error("ORDER_NOT_FOUND");
+
+        const previous = await findIssuedTaxInvoice(tx, order.id);
+        if (!previous) throw new Error("TAX_INVOICE_NOT_FOUND");
+
+        const corrected = { ...order, ...input.correction };
+        await tx
+            .update(orders)
+            .set({
+                taxName: corrected.taxName,
+                taxId: corrected.taxId,
+                taxBranchCode: corrected.taxBranchCode,
+                taxAddress: corrected.taxAddress,
+                taxSubDistrict: corrected.taxSubDistrict,
+                taxDistrict: corrected.taxDistrict,
+                taxProvince: corrected.taxProvince,
+                taxPostalCode: corrected.taxPostalCode,
+                taxFullAddress: joinTaxAddress(corrected),
+            })
+            .where(eq(orders.id, order.id));
+
+        const [cancelled] = await tx
+            .update(taxInvoices)
+            .set({ status: "cancelled", cancelReason: input.reason, cancelledAt: new Date() })
+            .where(eq(taxInvoices.id, previous.id))
+            .returning();
+
+        const invoice = await issueOrderTaxInvoice(tx, order.id, { staffId: input.staffId, replaces: cancelled });
+
+        await recordOrderEvent(tx, order.id, { type: "note" }, {
+            source: "staff",
+            staffId: input.staffId,
+            note: `Tax invoice ${previous.documentNumber} cancelled and replaced by ${invoice.documentNumber}: ${input.reason}`,
+        });
+
+        return { previous: cancelled, invoice };
+    });
+}
+
+/** PDF of a tax invoice; null if it does not exist. */
+export async function buildTaxInvoicePdf(
+    invoiceId: number,
+    marking: TaxDocumentMarking
+): Promise<{ invoice: TaxInvoice; order: Order; user: typeof users.$inferSelect; pdf: Buffer } | null> {
+    const [row] = await db
+        .select({ invoice: taxInvoices, order: orders, user: users })
+        .from(taxInvoices)
+        .innerJoin(orders, eq(taxInvoices.orderId, orders.id))
+        .innerJoin(users, eq(orders.userId, users.id))
+        .where(eq(taxInvoices.id, invoiceId))
+        .limit(1);
+    if (!row) return null;
+
+    const seller = getSellerInfo();
+    if (!seller) throw new Error("TAX_SELLER_NOT_CONFIGURED");
+
+    const { invoice, order, user } = row;
+    const lines = await loadInvoiceLines(db, order);
+    if (!lines) throw new Error("TAX_INVOICE_ORDER_NOT_PAID");
+
+    const [replaced] = invoice.replacesInvoiceId
+        ? await db
+              .select({ documentNumber: taxInvoices.documentNumber, issuedAt: taxInvoices.issuedAt })
+              .from(taxInvoices)
+              .where(eq(taxInvoices.id, invoice.replacesInvoiceId))
+              .limit(1)
+        : [];
+
+    const pdf = await generateTaxInvoicePdf({
+        documentNumber: invoice.documentNumber,
+        issuedAt: invoice.issuedAt,
+        marking,
+        seller,
+        buyer: {
+            name: invoice.buyerName,
+            email: user.email,
+            taxId: invoice.buyerTaxId,
+            branchCode: invoice.buyerBranchCode,
+            address: invoice.buyerAddress,
+        },
+        orderNumber: order.orderNumber,
+        paymentMethod: lines.paymentMethod,
+        currency: invoice.currency,
+        items: lines.items,
+        discount: lines.discount,
+        promoCode: order.promoCode,
+        fee: lines.fee,
+        amountBeforeVat: Number(invoice.amountBeforeVat),
+        vatRate: Number(invoice.vatRate),
+        vatAmount: Number(invoice.vatAmount),
+        total: Number(invoice.totalAmount),
+        replaces: replaced ?? null,
+        chargeNote: lines.chargeNote,
+    });
+
+    return { invoice, order, user, pdf };
+}
+
+/** Email the original of a tax invoice to the buyer. */
+export async function sendTaxInvoice(invoiceId: number): Promise<void> {
+    const built = await buildTaxInvoicePdf(invoiceId, "original");
+    if (!built) return;
+    const { invoice, order, user, pdf } = built;
+
+    const [replaced] = invoice.replacesInvoiceId
+        ? await db
+              .select({ documentNumber: taxInvoices.documentNumber })
+              .from(taxInvoices)
+              .where(eq(taxInvoices.id, invoice.replacesInvoiceId))
+              .limit(1)
+        : [];
+
+    await sendTaxInvoiceEmail(
+        user.email,
+        user.firstName,
+        user.middleName,
+        user.lastName,
+        order.orderNumber,
+        invoice.documentNumber,
+        replaced?.documentNumber ?? null,
+        { content: pdf, fileName: `ACCP2026-${invoice.documentNumber}.pdf` }
+    );
+}
+
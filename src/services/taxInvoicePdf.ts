@@ -0,0 +1,270 @@
+import PDFDocument from "pdfkit";
+import path from "path";
+
+/** Printed on every tax document; only the copy handed to the buyer is the original. */
+export type TaxDocumentMarking = "original" | "copy";
+
+/** Issuer of the tax documents (TAX_SELLER_* env vars). */
+export interface TaxSellerInfo {
+  name: string;
+  taxId: string;
+  branchCode: string;
+  address: string;
+}
+
+export interface TaxBuyerInfo {
+  name: string;
+  email: string;
+  taxId: string | null;
+  branchCode: string | null;
+  address: string | null;
+}
+
+export interface TaxInvoiceItem {
+  name: string;
+  price: number;
+  quantity: number;
+}
+
+export interface TaxInvoicePdfData {
+  documentNumber: string;
+  issuedAt: Date;
+  marking: TaxDocumentMarking;
+  seller: TaxSellerInfo;
+  buyer: TaxBuyerInfo;
+  orderNumber: string;
+  paymentMethod: string;
+  currency: string;
+  items: TaxInvoiceItem[];
+  discount: number;
+  promoCode?: string | null;
+  fee: number;
+  amountBeforeVat: number;
+  vatRate: number;
+  vatAmount: number;
+  total: number;
+  /** Invoice cancelled and replaced by this one (buyer details corrected) */
+  replaces?: { documentNumber: string; issuedAt: Date } | null;
+  chargeNote?: string;
+}
+
+function fmtMoney(amount: number, currency: string): string {
+  const sym = currency === "THB" ? "THB " : "USD ";
+  return `${sym}${amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function fmtDate(d: Date): string {
+  return d.toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric", timeZone: "Asia/Bangkok" });
+}
+
+/** "00000" is the head office; anything else is a numbered branch. */
+export function taxBranchLabel(code: string | null | undefined): string {
+  if (!code || code === "00000") return "Head office (สำนักงานใหญ่)";
+  return `Branch ${code} (สาขาที่ ${code})`;
+}
+
+export function taxMarkingLabel(marking: TaxDocumentMarking): string {
+  return marking === "original" ? "ORIGINAL / ต้นฉบับ" : "COPY / สำเนา";
+}
+
+/**
+ * Render a full tax invoice / receipt via PDFKit. Unlike the payment receipt it
+ * carries the seller's tax ID and branch, the buyer's branch, the VAT split and
+ * an original / copy marking, as required for a full-form Thai tax invoice.
+ */
+export async function generateTaxInvoicePdf(data: TaxInvoicePdfData): Promise<Buffer> {
+  const doc = new PDFDocument({
+    size: "A4",
+    margin: 0,
+    info: {
+      Title: `ACCP 2026 Tax Invoice - ${data.documentNumber}`,
+      Author: "ACCP 2026 Conference",
+    },
+  });
+
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const fontDir = path.join(process.cwd(), "public", "Font", "sarabun");
+  doc.registerFont("Sarabun", path.join(fontDir, "Sarabun-Regular.ttf"));
+  doc.registerFont("Sarabun-Bold", path.join(fontDir, "Sarabun-Bold.ttf"));
+
+  const PAGE_W = doc.page.width;
+  const PAGE_H = doc.page.height;
+  const MARGIN_X = 48;
+  const CONTENT_W = PAGE_W - MARGIN_X * 2;
+  const C_BLACK = "#000000";
+  const C_BODY = "#333333";
+  const C_MUTED = "#555555";
+  const C_FOOTER = "#666666";
+  const C_BORDER_LIGHT = "#cccccc";
+  const C_BORDER_FAINT = "#eeeeee";
+
+  // ── Original / copy marking (top right) ───────────────────────────────
+  const markW = 130;
+  doc.strokeColor(C_BLACK).lineWidth(1);
+  doc.rect(MARGIN_X + CONTENT_W - markW, 24, markW, 22).stroke();
+  doc.font("Sarabun-Bold").fontSize(10).fillColor(C_BLACK);
+  doc.text(taxMarkingLabel(data.marking), MARGIN_X + CONTENT_W - markW, 29, { width: markW, align: "center" });
+
+  let y = 40;
+
+  // ── Header ────────────────────────────────────────────────────────────
+  doc.font("Sarabun-Bold").fontSize(22).fillColor(C_BLACK);
+  doc.text("ACCP 2026", MARGIN_X, y, { width: CONTENT_W, align: "center" });
+  y = doc.y + 4;
+  doc.font("Sarabun").fontSize(16).fillColor(C_BLACK);
+  doc.text("25th Asian Conference on Clinical Pharmacy", MARGIN_X, y, { width: CONTENT_W, align: "center" });
+  y = doc.y + 4;
+  doc.font("Sarabun").fontSize(10).fillColor(C_BODY);
+  doc.text("July 9-11, 2026 | Centara Grand, Bangkok, Thailand", MARGIN_X, y, { width: CONTENT_W, align: "center" });
+  y = doc.y + 18;
+
+  doc.font("Sarabun-Bold").fontSize(13).fillColor(C_BLACK);
+  doc.text("TAX INVOICE / RECEIPT", MARGIN_X, y, { width: CONTENT_W, align: "center", characterSpacing: 1 });
+  y = doc.y + 2;
+  doc.font("Sarabun-Bold").fontSize(12).fillColor(C_BLACK);
+  doc.text("ใบกำกับภาษี / ใบเสร็จรับเงิน", MARGIN_X, y, { width: CONTENT_W, align: "center" });
+  y = doc.y + 18;
+
+  // ── Information grid ──────────────────────────────────────────────────
+  const colGap = 20;
+  const colW = (CONTENT_W - colGap) / 2;
+  const leftX = MARGIN_X;
+  const rightX = MARGIN_X + colW + colGap;
+
+  const drawLabel = (text: string, x: number, yy: number) => {
+    doc.font("Sarabun-Bold").fontSize(10).fillColor(C_BLACK);
+    doc.text(text, x, yy, { width: colW });
+    return doc.y;
+  };
+  const drawValue = (text: string, x: number, yy: number) => {
+    doc.font("Sarabun").fontSize(10).fillColor(C_MUTED);
+    doc.text(text, x, yy, { width: colW });
+    return doc.y;
+  };
+
+  let leftY = y;
+  leftY = drawLabel("SELLER / ผู้ขาย", leftX, leftY) + 3;
+  leftY = drawValue(data.seller.name, leftX, leftY);
+  leftY = drawValue(data.seller.address, leftX, leftY);
+  leftY = drawValue(`Tax ID: ${data.seller.taxId}`, leftX, leftY);
+  leftY = drawValue(taxBranchLabel(data.seller.branchCode), leftX, leftY) + 15;
+  leftY = drawLabel("BUYER / ผู้ซื้อ", leftX, leftY) + 3;
+  leftY = drawValue(data.buyer.name, leftX, leftY);
+  if (data.buyer.address) leftY = drawValue(data.buyer.address, leftX, leftY);
+  if (data.buyer.taxId) leftY = drawValue(`Tax ID: ${data.buyer.taxId}`, leftX, leftY);
+  if (data.buyer.taxId) leftY = drawValue(taxBranchLabel(data.buyer.branchCode), leftX, leftY);
+  leftY = drawValue(data.buyer.email, leftX, leftY);
+
+  let rightY = y;
+  rightY = drawLabel("DOCUMENT NUMBER / เลขที่", rightX, rightY) + 3;
+  rightY = drawValue(data.documentNumber, rightX, rightY) + 15;
+  rightY = drawLabel("DATE ISSUED / วันที่", rightX, rightY) + 3;
+  rightY = drawValue(fmtDate(data.issuedAt), rightX, rightY) + 15;
+  rightY = drawLabel("ORDER", rightX, rightY) + 3;
+  rightY = drawValue(data.orderNumber, rightX, rightY) + 15;
+  rightY = drawLabel("PAYMENT METHOD", rightX, rightY) + 3;
+  rightY = drawValue(data.paymentMethod, rightX, rightY);
+  if (data.replaces) {
+    rightY += 15;
+    rightY = drawLabel("REPLACES / ยกเลิกและออกแทนฉบับเดิม", rightX, rightY) + 3;
+    rightY = drawValue(`${data.replaces.documentNumber} dated ${fmtDate(data.replaces.issuedAt)}`, rightX, rightY);
+  }
+
+  y = Math.max(leftY, rightY) + 26;
+
+  // ── Items ─────────────────────────────────────────────────────────────
+  const tbl = {
+    desc: { x: MARGIN_X, w: CONTENT_W * 0.45 },
+    qty: { x: MARGIN_X + CONTENT_W * 0.45, w: CONTENT_W * 0.15 },
+    unit: { x: MARGIN_X + CONTENT_W * 0.6, w: CONTENT_W * 0.2 },
+    amount: { x: MARGIN_X + CONTENT_W * 0.8, w: CONTENT_W * 0.2 },
+  };
+
+  doc.font("Sarabun-Bold").fontSize(10).fillColor(C_BLACK);
+  doc.text("DESCRIPTION", tbl.desc.x, y, { width: tbl.desc.w });
+  doc.text("QTY", tbl.qty.x, y, { width: tbl.qty.w, align: "center" });
+  doc.text("UNIT PRICE", tbl.unit.x, y, { width: tbl.unit.w, align: "right" });
+  doc.text("AMOUNT", tbl.amount.x, y, { width: tbl.amount.w, align: "right" });
+  y = doc.y + 7;
+  doc.strokeColor(C_BLACK).lineWidth(1.5);
+  doc.moveTo(MARGIN_X, y).lineTo(MARGIN_X + CONTENT_W, y).stroke();
+  y += 10;
+
+  doc.font("Sarabun").fontSize(10).fillColor(C_BLACK);
+  for (const item of data.items) {
+    const rowY = y;
+    doc.text(item.name, tbl.desc.x, rowY, { width: tbl.desc.w - 5 });
+    const descEndY = doc.y;
+    doc.text(String(item.quantity), tbl.qty.x, rowY, { width: tbl.qty.w, align: "center" });
+    doc.text(fmtMoney(item.price, data.currency), tbl.unit.x, rowY, { width: tbl.unit.w, align: "right" });
+    doc.text(fmtMoney(item.price * item.quantity, data.currency), tbl.amount.x, rowY, { width: tbl.amount.w, align: "right" });
+    y = descEndY + 12;
+  }
+
+  doc.strokeColor(C_BORDER_LIGHT).lineWidth(0.5);
+  doc.moveTo(MARGIN_X, y).lineTo(MARGIN_X + CONTENT_W, y).stroke();
+  y += 15;
+
+  // ── Totals with VAT breakdown (prices are VAT inclusive) ──────────────
+  const labelW = CONTENT_W * 0.7;
+  const valueX = MARGIN_X + labelW;
+  const valueW = CONTENT_W * 0.3;
+  const printRow = (label: string, value: string, isTotal = false) => {
+    doc.font(isTotal ? "Sarabun-Bold" : "Sarabun").fontSize(isTotal ? 12 : 10).fillColor(C_BLACK);
+    const rowY = y;
+    doc.text(label, MARGIN_X, rowY, { width: labelW, align: "right" });
+    doc.text(value, valueX, rowY, { width: valueW, align: "right" });
+    y = doc.y + (isTotal ? 7 : 4);
+  };
+
+  if (data.discount > 0) {
+    printRow(`Discount${data.promoCode ? ` (${data.promoCode})` : ""}`, `-${fmtMoney(data.discount, data.currency)}`);
+  }
+  if (data.fee > 0) {
+    printRow("Processing Fee", fmtMoney(data.fee, data.currency));
+  }
+  printRow("Amount before VAT / มูลค่าก่อนภาษี", fmtMoney(data.amountBeforeVat, data.currency));
+  printRow(`VAT ${data.vatRate}% / ภาษีมูลค่าเพิ่ม`, fmtMoney(data.vatAmount, data.currency));
+
+  y += 4;
+  doc.strokeColor(C_BLACK).lineWidth(1);
+  doc.moveTo(valueX, y).lineTo(MARGIN_X + CONTENT_W, y).stroke();
+  y += 8;
+  printRow("Total / รวมทั้งสิ้น", fmtMoney(data.total, data.currency), true);
+  doc.strokeColor(C_BLACK).lineWidth(0.75);
+  doc.moveTo(valueX, y).lineTo(MARGIN_X + CONTENT_W, y).stroke();
+  doc.moveTo(valueX, y + 1.5).lineTo(MARGIN_X + CONTENT_W, y + 1.5).stroke();
+
+  if (data.chargeNote) {
+    y += 10;
+    doc.font("Sarabun").fontSize(9).fillColor(C_MUTED);
+    doc.text(data.chargeNote, MARGIN_X, y, { width: CONTENT_W, align: "right" });
+  }
+
+  // ── Footer ────────────────────────────────────────────────────────────
+  const footerY = PAGE_H - 70;
+  doc.strokeColor(C_BORDER_FAINT).lineWidth(0.5);
+  doc.moveTo(MARGIN_X, footerY).lineTo(MARGIN_X + CONTENT_W, footerY).stroke();
+  doc.font("Sarabun").fontSize(9).fillColor(C_FOOTER);
+  doc.text("This tax invoice was generated by the ACCP 2026 Conference System.", MARGIN_X, footerY + 12, {
+    width: CONTENT_W,
+    align: "center",
+  });
+  doc.text("For questions, contact accpbangkok2026@gmail.com", MARGIN_X, doc.y + 2, {
+    width: CONTENT_W,
+    align: "center",
+  });
+  doc.text("25th Asian Conference on Clinical Pharmacy | Bangkok, Thailand", MARGIN_X, doc.y + 2, {
+    width: CONTENT_W,
+    align: "center",
+  });
+
+  doc.end();
+  return done;
+}
@@ -0,0 +1,336 @@
+import crypto from "crypto";
+import QRCode from "qrcode";
+import { and, eq, isNull, lt, or, sql } from "drizzle-orm";
+import { db } from "../database/index.js";
+import { backofficeUsers, staffRoleEnum, staffTwoFactorPolicies } from "../database/schema.js";
+import type { StaffRole } from "../types/index.js";
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from "../utils/totp.js";
+
+const TWO_FACTOR_ISSUER = process.env.TWO_FACTOR_ISSUER || "ACCP Backoffice";
+const LOGIN_CHALLENGE_PREFIX = "staff-2fa";
+const LOGIN_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const RECOVERY_CODE_COUNT = 10;
+
+/** An authenticator code or, failing that, a recovery code */
+export interface SecondFactor {
+    code?: string;
+    recoveryCode?: string;
+}
+
+export interface TwoFactorEnrolment {
+    secret: string;
+    otpauthUri: string;
+    qrCodeDataUrl: string;
+}
+
+/**
+ * AES-256 key for the stored TOTP secrets. Falls back to JWT_SECRET so a
+ * deployment works without extra setup, but a dedicated key means a leaked
+ * JWT secret does not also expose every authenticator seed.
+ */
+function encryptionKey(): Buffer {
+    const secret = process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.JWT_SECRET;
+    if (!secret) throw new Error("TWO_FACTOR_ENCRYPTION_KEY is not configured");
+    return crypto.createHash("sha256").update(secret).digest();
+}
+
+/** Stored as iv.tag.ciphertext (base64url) */
+function encryptSecret(secret: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv("aes-256-gcm", encryptionKey(), iv);
+    const encrypted = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+    return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString("base64url")).join(".");
+}
+
+function decryptSecret(stored: string): string {
+    const [iv, tag, encrypted] = stored.split(".").map((part) => Buffer.from(part, "base64url"));
+    const decipher = crypto.createDecipheriv("aes-256-gcm", encryptionKey(), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8");
+}
+
+function normalizeRecoveryCode(code: string): string {
+    return code.toLowerCase().replace(/[\s-]/g, "");
+}
+
+function hashRecoveryCode(code: string): string {
+    return crypto.createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+}
+
+/** Ten single-use codes like `3f9a1-c07be`, shown to the staff member once */
+function generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+        const raw = crypto.randomBytes(5).toString("hex");
+        return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+}
+
+function signChallenge(payload: string): string {
+    const secret = process.env.JWT_SECRET;
+    if (!secret) throw new Error("JWT_SECRET is not configured");
+    return crypto.createHmac("sha256", secret).update(`${LOGIN_CHALLENGE_PREFIX}:${payload}`).digest("hex");
+}
+
+async function loadTwoFactorState(staffId: number) {
+    const [staff] = await db
+        .select({
+            id: backofficeUsers.id,
+            email: backofficeUsers.email,
+            role: backofficeUsers.role,
+            totpSecret: backofficeUsers.totpSecret,
+            totpEnabledAt: backofficeUsers.totpEnabledAt,
+            totpLastUsedStep: backofficeUsers.totpLastUsedStep,
+            totpRecoveryCodes: backofficeUsers.totpRecoveryCodes,
+        })
+        .from(backofficeUsers)
+        .where(eq(backofficeUsers.id, staffId))
+        .limit(1);
+    if (!staff) throw new Error("STAFF_NOT_FOUND");
+    return staff;
+}
+
+/**
+ * Accept a TOTP code once: the step it matched is recorded and any code from
+ * the same or an earlier step is refused afterwards.
+ */
+async function consumeTotpCode(staffId: number, encryptedSecret: string, code: string): Promise<boolean> {
+    const step = verifyTotp(decryptSecret(encryptedSecret), code);
+    if (step === null) return false;
+
+    const [updated] = await db
+        .update(backofficeUsers)
+        .set({ totpLastUsedStep: step })
+        .where(
+            and(
+                eq(backofficeUsers.id, staffId),
+                or(isNull(backofficeUsers.totpLastUsedStep), lt(backofficeUsers.totpLastUsedStep, step))
+            )
+        )
+        .returning({ id: backofficeUsers.id });
+    return !!updated;
+}
+
+async function consumeRecoveryCode(staffId: number, code: string): Promise<boolean> {
+    const hash = hashRecoveryCode(code);
+    // Only succeeds while the hash is still in the list, so a code works once
+    const [updated] = await db
+        .update(backofficeUsers)
+        .set({ totpRecoveryCodes: sql`${backofficeUsers.totpRecoveryCodes} - ${hash}::text` })
+        .where(
+            and(
+                eq(backofficeUsers.id, staffId),
+                sql`${backofficeUsers.totpRecoveryCodes} @> ${JSON.stringify([hash])}::jsonb`
+            )
+        )
+        .returning({ id: backofficeUsers.id });
+    return !!updated;
+}
+
+// ============================================================================
+// Role policies
+// ============================================================================
+
+export async function isTwoFactorRequired(role: StaffRole): Promise<boolean> {
+    const [policy] = await db
+        .select({ required: staffTwoFactorPolicies.required })
+        .from(staffTwoFactorPolicies)
+        .where(eq(staffTwoFactorPolicies.role, role))
+        .limit(1);
+    return policy?.required ?? false;
+}
+
+/** One entry per staff role; roles without a stored policy do not require 2FA */
+export async function listTwoFactorPolicies() {
+    const rows = await db.select().from(staffTwoFactorPolicies);
+    return staffRoleEnum.enumValues.map((role) => {
+        const policy = rows.find((row) => row.role === role);
+        return {
+            role,
+            required: policy?.required ?? false,
+            updatedBy: policy?.updatedBy ?? null,
+            updatedAt: policy?.updatedAt ?? null,
+        };
+    });
+}
+
+export async function setTwoFactorPolicy(role: StaffRole, required: boolean, staffId: number) {
+    const [policy] = await db
+        .insert(staffTwoFactorPolicies)
+        .values({ role, required, updatedBy: staffId })
+        .onConflictDoUpdate({
+            target: staffTwoFactorPolicies.role,
+            set: { required, updatedBy: staffId, updatedAt: new Date() },
+        })
+        .returning();
+    return policy;
+}
+
+// ============================================================================
+// Enrolment
+// ============================================================================
+
+export async function getTwoFactorStatus(staffId: number) {
+    const staff = await loadTwoFactorState(staffId);
+    return {
+        enabled: !!staff.totpEnabledAt,
+        enabledAt: staff.totpEnabledAt,
+        enrolmentPending: !staff.totpEnabledAt && !!staff.totpSecret,
+        required: await isTwoFactorRequired(staff.role),
+        recoveryCodesRemaining: staff.totpEnabledAt ? (staff.totpRecoveryCodes ?? []).length : 0,
+    };
+}
+
+/**
+ * Generate a new secret for the authenticator app. It is stored right away
+ * but only takes effect once a code from it is confirmed, so starting over
+ * simply replaces it.
+ */
+export async function beginEnrolment(staffId: number): Promise<TwoFactorEnrolment> {
+    const staff = await loadTwoFactorState(staffId);
+    if (staff.totpEnabledAt) throw new Error("TWO_FACTOR_ALREADY_ENABLED");
+
+    const secret = generateTotpSecret();
+    await db
+        .update(backofficeUsers)
+        .set({ totpSecret: encryptSecret(secret), totpLastUsedStep: null, totpRecoveryCodes: [] })
+        .where(eq(backofficeUsers.id, staffId));
+
+    const otpauthUri = buildOtpauthUri(TWO_FACTOR_ISSUER, staff.email, secret);
+    return {
+        secret,
+        otpauthUri,
+        qrCodeDataUrl: await QRCode.toDataURL(otpauthUri),
+    };
+}
+
+/** Turn 2FA on with a first valid code. Returns the recovery codes in plain text. */
+export async function confirmEnrolment(staffId: number, code: string): Promise<string[]> {
+    const staff = await loadTwoFactorState(staffId);
+    if (staff.totpEnabledAt) throw new Error("TWO_FACTOR_ALREADY_ENABLED");
+    if (!staff.totpSecret) throw new Error("TWO_FACTOR_NOT_STARTED");
+
+    if (!(await consumeTotpCode(staffId, staff.totpSecret, code))) {
+        throw new Error("TWO_FACTOR_CODE_INVALID");
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await db
+        .update(backofficeUsers)
+        .set({
+            totpEnabledAt: new Date(),
+            totpRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+            updatedAt: new Date(),
+        })
+        .where(eq(backofficeUsers.id, staffId));
+    return recoveryCodes;
+}
+
+/**
+ * Check the second factor at sign-in (or before a sensitive change).
+ * A recovery code is used up by a successful check.
+ */
+export async function verifySecondFactor(staffId: number, factor: SecondFactor): Promise<"totp" | "recovery_code"> {
+    const staff = await loadTwoFactorState(staffId);
+    if (!staff.totpEnabledAt || !staff.totpSecret) throw new Error("TWO_FACTOR_NOT_ENABLED");
+
+    if (factor.code) {
+        if (await consumeTotpCode(staffId, staff.totpSecret, factor.code)) return "totp";
+    } else if (factor.recoveryCode) {
+        if (await consumeRecoveryCode(staffId, factor.recoveryCode)) return "recovery_code";
+    }
+    throw new Error("TWO_FACTOR_CODE_INVALID");
+}
+
+/** Replace every recovery code (after a valid authenticator code) */
+export async function regenerateRecoveryCodes(staffId: number, code: string): Promise<string[]> {
+    await verifySecondFactor(staffId, { code });
+
+    const recoveryCodes = generateRecoveryCodes();
+    await db
+        .update(backofficeUsers)
+        .set({ totpRecoveryCodes: recoveryCodes.map(hashRecoveryCode), updatedAt: new Date() })
+        .where(eq(backofficeUsers.id, staffId));
+    return recoveryCodes;
+}
+
+async function clearTwoFactor(staffId: number) {
+    await db
+        .update(backofficeUsers)
+        .set({
+            totpSecret: null,
+            totpEnabledAt: null,
+            totpLastUsedStep: null,
+            totpRecoveryCodes: [],
+            updatedAt: new Date(),
+        })
+        .where(eq(backofficeUsers.id, staffId));
+}
+
+/** Staff turning their own 2FA off; not allowed while their role requires it */
+export async function disableTwoFactor(staffId: number, factor: SecondFactor): Promise<void> {
+    const staff = await loadTwoFactorState(staffId);
+    if (await isTwoFactorRequired(staff.role)) throw new Error("TWO_FACTOR_REQUIRED_BY_ROLE");
+
+    await verifySecondFactor(staffId, factor);
+    await clearTwoFactor(staffId);
+}
+
+/**
+ * Admin reset for a staff member who lost their authenticator and recovery
+ * codes. If their role requires 2FA they enrol again at the next sign-in.
+ * Returns whether 2FA had been enabled.
+ */
+export async function resetTwoFactor(staffId: number): Promise<boolean> {
+    const staff = await loadTwoFactorState(staffId);
+    await clearTwoFactor(staffId);
+    return !!staff.totpEnabledAt;
+}
+
+// ============================================================================
+// Login challenge (password verified, second step pending)
+// ============================================================================
+
+/**
+ * Short-lived token proving the password step passed:
+ * {staffId}.{expiresAt}.{nonce}.{hmac}. The nonce is stored on the staff row,
+ * so only the latest challenge is open and it stops working once it is used.
+ */
+export async function createLoginChallenge(staffId: number): Promise<string> {
+    const nonce = crypto.randomBytes(16).toString("hex");
+    await db.update(backofficeUsers).set({ loginChallengeNonce: nonce }).where(eq(backofficeUsers.id, staffId));
+
+    const payload = `${staffId}.${Date.now() + LOGIN_CHALLENGE_TTL_MS}.${nonce}`;
+    return `${payload}.${signChallenge(payload)}`;
+}
+
+/** Staff id and nonce of a correctly signed, unexpired challenge, or null */
+export function readLoginChallenge(token: string): { staffId: number; nonce: string } | null {
+    const parts = token.split(".");
+    if (parts.length !== 4) return null;
+
+    const [idStr, expiresStr, nonce, signature] = parts;
+    const staffId = parseInt(idStr, 10);
+    const expiresAt = parseInt(expiresStr, 10);
+    if (isNaN(staffId) || isNaN(expiresAt) || expiresAt < Date.now()) return null;
+
+    const expectedSignature = signChallenge(`${idStr}.${expiresStr}.${nonce}`);
+    if (signature.length !== expectedSignature.length) return null;
+    const presented = Buffer.from(signature, "hex");
+    const expected = Buffer.from(expectedSignature, "hex");
+    if (presented.length !== expected.length || !crypto.timingSafeEqual(presented, expected)) return null;
+
+    return { staffId, nonce };
+}
+
+/**
+ * Close a challenge after its second step passed. Returns false when it was
+ * already used (or replaced by a newer sign-in), so it cannot sign in twice.
+ */
+export async function consumeLoginChallenge(staffId: number, nonce: string): Promise<boolean> {
+    const consumed = await db
+        .update(backofficeUsers)
+        .set({ loginChallengeNonce: null })
+        .where(and(eq(backofficeUsers.id, staffId), eq(backofficeUsers.loginChallengeNonce, nonce)))
+        .returning({ id: backofficeUsers.id });
+    return consumed.length > 0;
+}
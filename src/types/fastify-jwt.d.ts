@@ -1,4 +1,5 @@
 import "@fastify/jwt";
+import type { ImpersonatedBy } from "./index.js";
 
 declare module "@fastify/jwt" {
   interface FastifyJWT {
@@ -6,15 +7,23 @@ declare module "@fastify/jwt" {
       id: number;
       email: string;
       role: string;
+      // auth_sessions.id the token was issued for
+      sid: number;
       assignedCategories?: string[];
       assignedPresentationTypes?: string[];
+      // Set on attendee tokens while a staff member is impersonating the attendee
+      impersonatedBy?: ImpersonatedBy;
     };
     user: {
       id: number;
       email: string;
       role: string;
+      // auth_sessions.id the token was issued for
+      sid: number;
       assignedCategories?: string[];
       assignedPresentationTypes?: string[];
+      // Set on attendee tokens while a staff member is impersonating the attendee
+      impersonatedBy?: ImpersonatedBy;
     };
   }
 }
@@ -1,6 +1,8 @@
 // ACCP Shared Types
 // เพิ่ม shared types ที่ใช้ร่วมกันระหว่าง apps
 
+import type { FastifyBaseLogger } from 'fastify';
+
 // API Response Types
 export interface ApiResponse<T = unknown> {
   success: boolean;
@@ -43,6 +45,21 @@ export interface BackofficeUser {
   isActive: boolean;
 }
 
+// Staff signed in as an attendee (carried in the attendee JWT for the web app banner)
+export interface ImpersonatedBy {
+  impersonationId: number;
+  staffId: number;
+  staffEmail: string;
+  staffName: string;
+  // ISO timestamp at which the impersonation session ends
+  expiresAt: string;
+}
+
+// Where services log to: the Fastify instance (or request) in the API, { log: console } in CLI scripts
+export interface LogContext {
+  log: Pick<FastifyBaseLogger, 'info' | 'warn' | 'error'>;
+}
+
 // Event Types
 export type EventStatus = 'draft' | 'published' | 'cancelled' | 'completed';
 export type EventType = 'single_room' | 'multi_session';
@@ -83,7 +100,7 @@ export type AbstractCategory =
   | 'digital_pharmacy';
 
 export type PresentationType = 'oral' | 'poster';
-export type AbstractStatus = 'pending' | 'accepted' | 'rejected';
+export type AbstractStatus = 'pending' | 'accepted' | 'rejected' | 'revision_requested';
 
 export interface Abstract {
   id: number;
@@ -140,6 +157,11 @@ export interface EventUpdatePayload {
   status?: EventStatus;
   abstractStartDate?: Date | string;
   abstractEndDate?: Date | string;
+  blindReview?: boolean;
+  maxAbstractsPerAuthor?: number | null;
+  maxOralAbstractsPerAuthor?: number | null;
+  maxPosterAbstractsPerAuthor?: number | null;
+  abstractValidationProfile?: Record<string, unknown> | null;
   earlyBirdEndDate?: Date | string;
   registrationStartDate?: Date | string;
   registrationEndDate?: Date | string;
@@ -1,7 +1,10 @@
 export const INTERNATIONAL_ROLES = ["interstd", "interpro"] as const;
 
-/** Official ACCP international USD→THB rate for Alipay (1 USD = 34 THB). */
-export const ALIPAY_USD_TO_THB_RATE = 34;
+/**
+ * USD→THB rate Alipay orders were charged at before the rate was stored with
+ * the payment. New orders use the exchange_rates table (see exchangeRate.service).
+ */
+export const LEGACY_ALIPAY_USD_TO_THB_RATE = 34;
 
 export type InternationalRole = (typeof INTERNATIONAL_ROLES)[number];
 
@@ -13,14 +16,14 @@ function round2(value: number): number {
   return Math.round((value + Number.EPSILON) * 100) / 100;
 }
 
-/** Convert USD ticket price to THB charge base per official rate table. */
-export function convertUsdToThb(usdAmount: number): number {
+/** Convert USD ticket price to THB charge base at the given USD→THB rate. */
+export function convertUsdToThb(usdAmount: number, exchangeRate: number): number {
   if (usdAmount <= 0) return 0;
-  return round2(usdAmount * ALIPAY_USD_TO_THB_RATE);
+  return round2(usdAmount * exchangeRate);
 }
 
-export function convertUsdDiscountToThb(usdDiscount: number): number {
-  return convertUsdToThb(usdDiscount);
+export function convertUsdDiscountToThb(usdDiscount: number, exchangeRate: number): number {
+  return convertUsdToThb(usdDiscount, exchangeRate);
 }
 
 export interface ChargeDisplayInfo {
@@ -28,13 +31,18 @@ export interface ChargeDisplayInfo {
   totalPaid: number;
   /** Fee expressed in the order (ticket) currency */
   fee: number;
+  /** Order (presented) currency the amounts above are expressed in */
+  currency: string;
   /** Set when the actual charge currency differs from the order currency (Alipay USD orders charged in THB) */
-  chargeCurrency: "THB" | null;
+  chargeCurrency: string | null;
   chargeAmount: number | null;
+  /** 1 unit of the order currency in the charge currency */
+  exchangeRate: number | null;
 }
 
 /**
- * Alipay orders are priced in USD but charged in THB (1 USD = ALIPAY_USD_TO_THB_RATE).
+ * Alipay orders are priced in USD but charged in THB at the rate stored in
+ * paymentDetails.exchangeRate (LEGACY_ALIPAY_USD_TO_THB_RATE for older orders).
  * payments.amount / orders.totalAmount store the THB charge, while order items,
  * subtotal, and discount stay in USD. For display we convert the THB charge back
  * to USD so all receipt lines share one currency, and expose the real THB charge
@@ -54,17 +62,33 @@ export function resolveChargeDisplay(
   const chargeCurrency =
     typeof details.chargeCurrency === "string" ? details.chargeCurrency : orderCurrency;
 
-  if (orderCurrency === "USD" && chargeCurrency === "THB") {
-    const totalPaid = round2(amount / ALIPAY_USD_TO_THB_RATE);
+  if (chargeCurrency !== orderCurrency) {
+    const storedRate = Number(details.exchangeRate);
+    const exchangeRate = storedRate > 0 ? storedRate : LEGACY_ALIPAY_USD_TO_THB_RATE;
+    const totalPaid = round2(amount / exchangeRate);
     const fee = round2(totalPaid - netAmount);
-    return { totalPaid, fee: fee > 0 ? fee : 0, chargeCurrency: "THB", chargeAmount: amount };
+    return {
+      totalPaid,
+      fee: fee > 0 ? fee : 0,
+      currency: orderCurrency,
+      chargeCurrency,
+      chargeAmount: amount,
+      exchangeRate,
+    };
   }
 
   const fee = round2(amount - netAmount);
-  return { totalPaid: amount, fee: fee > 0 ? fee : 0, chargeCurrency: null, chargeAmount: null };
+  return {
+    totalPaid: amount,
+    fee: fee > 0 ? fee : 0,
+    currency: orderCurrency,
+    chargeCurrency: null,
+    chargeAmount: null,
+    exchangeRate: null,
+  };
 }
 
 export function buildChargeNote(info: ChargeDisplayInfo): string | undefined {
-  if (!info.chargeCurrency || info.chargeAmount === null) return undefined;
-  return `Charged as THB ${info.chargeAmount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })} via Alipay (1 USD = ${ALIPAY_USD_TO_THB_RATE} THB)`;
+  if (!info.chargeCurrency || info.chargeAmount === null || info.exchangeRate === null) return undefined;
+  return `Charged as ${info.chargeCurrency} ${info.chargeAmount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })} (1 ${info.currency} = ${info.exchangeRate} ${info.chargeCurrency})`;
 }
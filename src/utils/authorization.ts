@@ -0,0 +1,219 @@
+import type { FastifyReply, FastifyRequest, RouteOptions } from "fastify";
+import { eq } from "drizzle-orm";
+import type { PgColumn, PgTable } from "drizzle-orm/pg-core";
+import { db } from "../database/index.js";
+import {
+  abstractSubmissionOverrides,
+  abstracts,
+  memberImpersonations,
+  orders,
+  promoCodes,
+  registrations,
+  sessions,
+  staffEventAssignments,
+  waitlistEntries,
+} from "../database/schema.js";
+import {
+  PERMISSIONS,
+  hasPermission,
+  isEventScoped,
+  seesAllEvents,
+  type Permission,
+} from "../constants/permissions.js";
+
+/**
+ * Resolves the event(s) of the resource a request addresses by id. Returns []
+ * when the resource does not exist (the handler answers 404) and null when it
+ * exists but belongs to no event, which only staff who see all events may touch.
+ */
+export type EventResolver = (request: FastifyRequest) => Promise<number[] | null>;
+
+declare module "fastify" {
+  interface FastifyContextConfig {
+    /** Permission required to call the route (mandatory under /api/backoffice) */
+    permission?: Permission;
+    /** Route param holding the event id when it is not named `eventId` */
+    eventParam?: string;
+    /** Event(s) of the resource addressed by a non-event route param (e.g. an order id) */
+    eventOf?: EventResolver;
+  }
+}
+
+export async function getAssignedEventIds(staffId: number): Promise<number[]> {
+  const assignments = await db
+    .select({ eventId: staffEventAssignments.eventId })
+    .from(staffEventAssignments)
+    .where(eq(staffEventAssignments.staffId, staffId));
+  return assignments.map((a) => a.eventId);
+}
+
+function toId(value: unknown): number | null {
+  if (typeof value !== "string" && typeof value !== "number") return null;
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+function routeParamNames(url: string): string[] {
+  return [...url.matchAll(/:(\w+)/g)].map((match) => match[1]);
+}
+
+/**
+ * onRoute hook for the backoffice scope: a route without a known permission
+ * fails at startup instead of being reachable by every staff role, and so
+ * does an event-scoped route that addresses a resource by id without an
+ * `eventOf` resolver (it would skip the event assignment check).
+ */
+export function requireRoutePermission(routeOptions: RouteOptions): void {
+  const methods = Array.isArray(routeOptions.method)
+    ? routeOptions.method.join(",")
+    : routeOptions.method;
+  const { permission, eventParam = "eventId", eventOf } = routeOptions.config ?? {};
+
+  if (!permission || !PERMISSIONS.includes(permission)) {
+    throw new Error(
+      `Backoffice route ${methods} ${routeOptions.url} must declare a valid config.permission`
+    );
+  }
+
+  const params = routeParamNames(routeOptions.url);
+  if (isEventScoped(permission) && !eventOf && !params.includes(eventParam) && params.length > 0) {
+    throw new Error(
+      `Backoffice route ${methods} ${routeOptions.url} is event-scoped and must declare config.eventOf`
+    );
+  }
+}
+
+function eventOfRow(
+  table: PgTable,
+  idColumn: PgColumn,
+  eventIdColumn: PgColumn,
+  param: string
+): EventResolver {
+  return async (request) => {
+    const id = toId((request.params as Record<string, unknown>)[param]);
+    if (id === null) return [];
+    const [row] = await db
+      .select({ eventId: eventIdColumn })
+      .from(table)
+      .where(eq(idColumn, id))
+      .limit(1);
+    if (!row) return [];
+    return row.eventId === null ? null : [row.eventId as number];
+  };
+}
+
+export const eventOfOrder = (param = "id") => eventOfRow(orders, orders.id, orders.eventId, param);
+
+export const eventOfRegistration = (param = "id") =>
+  eventOfRow(registrations, registrations.id, registrations.eventId, param);
+
+export const eventOfAbstract = (param = "id") =>
+  eventOfRow(abstracts, abstracts.id, abstracts.eventId, param);
+
+export const eventOfSubmissionOverride = (param = "id") =>
+  eventOfRow(
+    abstractSubmissionOverrides,
+    abstractSubmissionOverrides.id,
+    abstractSubmissionOverrides.eventId,
+    param
+  );
+
+export const eventOfPromoCode = (param = "id") =>
+  eventOfRow(promoCodes, promoCodes.id, promoCodes.eventId, param);
+
+export const eventOfSession = (param = "id") =>
+  eventOfRow(sessions, sessions.id, sessions.eventId, param);
+
+export const eventOfWaitlistEntry = (param = "id") =>
+  eventOfRow(waitlistEntries, waitlistEntries.id, waitlistEntries.eventId, param);
+
+async function memberEventIds(userId: number): Promise<number[]> {
+  const rows = await db
+    .selectDistinct({ eventId: registrations.eventId })
+    .from(registrations)
+    .where(eq(registrations.userId, userId));
+  return rows.map((row) => row.eventId);
+}
+
+/** Every event the member is registered for */
+export const eventOfMember =
+  (param = "id"): EventResolver =>
+  async (request) => {
+    const userId = toId((request.params as Record<string, unknown>)[param]);
+    return userId === null ? [] : memberEventIds(userId);
+  };
+
+/** Every event the impersonated member is registered for */
+export const eventOfImpersonation =
+  (param = "id"): EventResolver =>
+  async (request) => {
+    const id = toId((request.params as Record<string, unknown>)[param]);
+    if (id === null) return [];
+    const [impersonation] = await db
+      .select({ userId: memberImpersonations.userId })
+      .from(memberImpersonations)
+      .where(eq(memberImpersonations.id, id))
+      .limit(1);
+    return impersonation?.userId ? memberEventIds(impersonation.userId) : [];
+  };
+
+/** Event ids the request targets: the event route param, `?eventId=` and body `eventId` */
+function requestedEventIds(request: FastifyRequest, eventParam = "eventId"): number[] {
+  const params = (request.params ?? {}) as Record<string, unknown>;
+  const query = (request.query ?? {}) as Record<string, unknown>;
+  const body =
+    request.body && typeof request.body === "object" && !Array.isArray(request.body)
+      ? (request.body as Record<string, unknown>)
+      : {};
+
+  const ids = [toId(params[eventParam]), toId(query.eventId), toId(body.eventId)];
+  return [...new Set(ids.filter((id): id is number => id !== null))];
+}
+
+/**
+ * preHandler for the backoffice scope (after authenticateStaff): checks the
+ * route's declared permission against the role matrix, then makes sure
+ * non-admin staff only address events they are assigned to, including the
+ * event of a resource addressed by id (see `eventOf`).
+ */
+export async function authorizeStaffRequest(request: FastifyRequest, reply: FastifyReply) {
+  const { permission, eventParam, eventOf } = request.routeOptions.config;
+  const { id: staffId, role } = request.user;
+
+  if (!permission || !hasPermission(role, permission)) {
+    return reply.status(403).send({
+      success: false,
+      code: "FORBIDDEN",
+      error: "You do not have permission to perform this action",
+    });
+  }
+
+  if (seesAllEvents(role)) return;
+
+  const resourceEventIds = eventOf ? await eventOf(request) : [];
+  const eventIds = [...requestedEventIds(request, eventParam), ...(resourceEventIds ?? [])];
+  if (resourceEventIds !== null && eventIds.length === 0) return;
+
+  const assigned = await getAssignedEventIds(staffId);
+  if (resourceEventIds === null || eventIds.some((eventId) => !assigned.includes(eventId))) {
+    return reply.status(403).send({
+      success: false,
+      code: "EVENT_ACCESS_DENIED",
+      error: "You are not assigned to this event",
+    });
+  }
+}
+
+/**
+ * preHandler (after authenticate) for attendee actions a staff member must not
+ * take while impersonating: payments, registrations, transfers, submissions
+ * and account/session changes.
+ */
+export async function forbidImpersonation(request: FastifyRequest, reply: FastifyReply) {
+  if (!request.user.impersonatedBy) return;
+  return reply.status(403).send({
+    success: false,
+    code: "IMPERSONATION_FORBIDDEN",
+    error: "This action is not available while signed in as a member",
+  });
+}
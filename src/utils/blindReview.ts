@@ -0,0 +1,97 @@
+/**
+ * Double-blind review helpers.
+ *
+ * When an event has `blindReview` enabled, staff with the `reviewer` role must
+ * not see who submitted an abstract: author details and co-authors are removed,
+ * and the full paper link is neutralised if it could identify the authors.
+ */
+
+type IdentityPerson = {
+  firstName?: string | null;
+  middleName?: string | null;
+  lastName?: string | null;
+  email?: string | null;
+};
+
+const DRIVE_VIEW_LINK = /^https:\/\/drive\.google\.com\/file\/d\/([^/?#]+)/;
+
+function getPublicApiBaseUrl(): string {
+  const raw = (process.env.API_BASE_URL || "http://localhost:3002")
+    .trim()
+    .replace(/^['"]|['"]$/g, "");
+  return raw.replace(/\/+$/, "");
+}
+
+export function isBlindReviewFor(
+  staffRole: string,
+  event: { blindReview?: boolean | null } | null | undefined,
+): boolean {
+  return staffRole === "reviewer" && Boolean(event?.blindReview);
+}
+
+/** Name parts and email local parts long enough to be meaningful in a URL. */
+function identityTokens(people: IdentityPerson[]): string[] {
+  const tokens = new Set<string>();
+  for (const person of people) {
+    for (const part of [person.firstName, person.middleName, person.lastName]) {
+      for (const word of (part ?? "").toLowerCase().split(/\s+/)) {
+        if (word.length >= 3) tokens.add(word);
+      }
+    }
+    const local = person.email?.split("@")[0]?.toLowerCase();
+    if (local && local.length >= 3) tokens.add(local);
+  }
+  return [...tokens];
+}
+
+/**
+ * Blind version of a full paper URL.
+ * - Google Drive viewer links show the uploaded file name (usually the
+ *   author's), so they are swapped for the content-only /api/files proxy.
+ * - Any other link is dropped when it contains an author's name or email.
+ */
+export function blindFullPaperUrl(
+  url: string | null | undefined,
+  people: IdentityPerson[],
+): string | null {
+  if (!url) return null;
+
+  const driveMatch = url.match(DRIVE_VIEW_LINK);
+  if (driveMatch) {
+    return `${getPublicApiBaseUrl()}/api/files/${driveMatch[1]}`;
+  }
+
+  let decoded = url;
+  try {
+    decoded = decodeURIComponent(url);
+  } catch {
+    // keep the raw url
+  }
+  const haystack = decoded.toLowerCase();
+  const reveals = identityTokens(people).some((token) => haystack.includes(token));
+  return reveals ? null : url;
+}
+
+/** Strip author identity from an abstract payload for blind review. */
+export function redactAbstractForBlindReview<
+  T extends {
+    author: IdentityPerson | null;
+    coAuthors: IdentityPerson[];
+    fullPaperUrl: string | null;
+  },
+>(abstract: T): Omit<T, "author" | "coAuthors"> & {
+  author: null;
+  coAuthors: [];
+  blindReview: true;
+} {
+  return {
+    ...abstract,
+    author: null,
+    coAuthors: [],
+    fullPaperUrl: blindFullPaperUrl(abstract.fullPaperUrl, [
+      ...(abstract.author ? [abstract.author] : []),
+      ...abstract.coAuthors,
+    ]),
+    blindReview: true,
+  };
+}
@@ -0,0 +1,114 @@
+/**
+ * Minimal iCalendar (RFC 5545) writer for programme / registration / presenter feeds.
+ * Times are written in UTC (`...Z`) so no VTIMEZONE block is needed.
+ */
+
+export type IcsEvent = {
+  uid: string;
+  summary: string;
+  start: Date;
+  end: Date;
+  /** Room (or poster board) — also prefixed to LOCATION */
+  room?: string | null;
+  /** Venue of the event (events.location) */
+  location?: string | null;
+  description?: string | null;
+  url?: string | null;
+  categories?: string[];
+};
+
+const CRLF = "\r\n";
+const BANGKOK_OFFSET = "+07:00";
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/** 20260709T023000Z */
+export const formatIcsDateTime = (value: Date): string =>
+  `${value.getUTCFullYear()}${pad(value.getUTCMonth() + 1)}${pad(value.getUTCDate())}` +
+  `T${pad(value.getUTCHours())}${pad(value.getUTCMinutes())}${pad(value.getUTCSeconds())}Z`;
+
+/**
+ * Conference-local date ("2026-07-09") and time ("09:30") to an instant.
+ * Abstract slots are stored as local Bangkok wall-clock values.
+ */
+export const bangkokDateTime = (date: string, time: string): Date | null => {
+  const parsed = new Date(`${date}T${time.length === 5 ? `${time}:00` : time}${BANGKOK_OFFSET}`);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+};
+
+export const escapeIcsText = (value: string): string =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+/** Fold content lines longer than 75 octets (continuation lines start with a space). */
+const foldLine = (line: string): string => {
+  if (Buffer.byteLength(line, "utf8") <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char, "utf8");
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + size > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += size;
+  }
+  parts.push(current);
+  return parts.join(`${CRLF} `);
+};
+
+export const buildIcsLocation = (
+  room: string | null | undefined,
+  location: string | null | undefined,
+): string | null => {
+  const parts = [room?.trim(), location?.trim()].filter((part): part is string => Boolean(part));
+  return parts.length > 0 ? parts.join(", ") : null;
+};
+
+export const buildIcsCalendar = (
+  calendarName: string,
+  icsEvents: IcsEvent[],
+  now: Date = new Date(),
+): string => {
+  const lines: string[] = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//ACCP 2026//Conference Programme//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcsText(calendarName)}`,
+    "X-WR-TIMEZONE:Asia/Bangkok",
+  ];
+
+  const stamp = formatIcsDateTime(now);
+  for (const event of icsEvents) {
+    const location = buildIcsLocation(event.room, event.location);
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatIcsDateTime(event.start)}`,
+      `DTEND:${formatIcsDateTime(event.end)}`,
+      `SUMMARY:${escapeIcsText(event.summary)}`,
+    );
+    if (location) lines.push(`LOCATION:${escapeIcsText(location)}`);
+    if (event.room) lines.push(`X-ROOM:${escapeIcsText(event.room)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+    if (event.url) lines.push(`URL:${event.url}`);
+    if (event.categories?.length) {
+      lines.push(`CATEGORIES:${event.categories.map(escapeIcsText).join(",")}`);
+    }
+    lines.push("END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join(CRLF) + CRLF;
+};
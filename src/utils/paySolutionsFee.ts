@@ -120,6 +120,14 @@ export function calculatePaySolutionsFeeExact(
   return buildBreakdown(maxGross, method);
 }
 
+/** Fee (incl. VAT) Pay Solutions deducts from an amount actually charged. */
+export function calculatePaySolutionsFeeFromGross(
+  grossAmount: number,
+  method: PaySolutionsFeeMethod
+): PaySolutionsFeeBreakdown {
+  return buildBreakdown(toSatang(grossAmount), method);
+}
+
 export function resolvePaySolutionsFeeMethod(
   paymentMethod: PaySolutionsPaymentMethod,
   currency: "THB" | "USD"
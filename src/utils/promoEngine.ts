@@ -5,7 +5,8 @@ import {
   promoCodeRuleItems,
   promoCodeUsages,
 } from "../database/schema.js";
-import { eq, and, or, count, lt } from "drizzle-orm";
+import { eq, and, or, count, lt, sql } from "drizzle-orm";
+import { findExchangeRate } from "../services/exchangeRate.service.js";
 
 // TTL for pending promo reservations (configurable via env, default 15 min)
 const PROMO_PENDING_TTL_MS = parseInt(process.env.PROMO_PENDING_TTL_MINUTES || "15", 10) * 60 * 1000;
@@ -175,11 +176,19 @@ export async function validatePromoCode(
       }
     }
   } else {
-    // fixed discount — use currency-specific value
-    if (currency === "THB") {
-      discountValue = Number(promo.fixedValueThb || promo.discountValue || 0);
+    // fixed discount — use the value set for the order currency; when only the
+    // other currency's value is set, convert it at the current exchange rate
+    const ownValue = currency === "THB" ? promo.fixedValueThb : promo.fixedValueUsd;
+    const otherValue = currency === "THB" ? promo.fixedValueUsd : promo.fixedValueThb;
+    if (Number(ownValue) > 0) {
+      discountValue = Number(ownValue);
+    } else if (Number(otherValue) > 0) {
+      const rate = await findExchangeRate(currency === "THB" ? "USD" : "THB", currency);
+      discountValue = rate
+        ? Math.round(Number(otherValue) * rate * 100) / 100
+        : Number(promo.discountValue || 0);
     } else {
-      discountValue = Number(promo.fixedValueUsd || promo.discountValue || 0);
+      discountValue = Number(promo.discountValue || 0);
     }
     discountAmount = discountValue;
   }
@@ -273,9 +282,9 @@ export async function settlePromoUsageSuccess(orderId: number): Promise<void> {
 /**
  * Cancel a promo code usage (when order is cancelled/failed).
  */
-export async function cancelPromoUsage(orderId: number): Promise<void> {
+export async function cancelPromoUsage(orderId: number, executor: any = db): Promise<void> {
   const now = new Date();
-  await db
+  await executor
     .update(promoCodeUsages)
     .set({ status: "cancelled", cancelledAt: now })
     .where(
@@ -288,3 +297,27 @@ export async function cancelPromoUsage(orderId: number): Promise<void> {
       )
     );
 }
+
+/**
+ * Give back a settled promo code usage when its order is fully refunded.
+ * Decrements usedCount so the code can be used again.
+ */
+export async function refundPromoUsage(orderId: number, executor: any = db): Promise<void> {
+  const refunded = await executor
+    .update(promoCodeUsages)
+    .set({ status: "refunded", cancelledAt: new Date() })
+    .where(
+      and(
+        eq(promoCodeUsages.orderId, orderId),
+        eq(promoCodeUsages.status, "used")
+      )
+    )
+    .returning({ promoCodeId: promoCodeUsages.promoCodeId });
+
+  for (const usage of refunded) {
+    await executor
+      .update(promoCodes)
+      .set({ usedCount: sql`GREATEST(${promoCodes.usedCount} - 1, 0)` })
+      .where(eq(promoCodes.id, usage.promoCodeId));
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * Parse settlement / payout CSV exports from Stripe, Pay Solutions and KTB into
+ * one line shape. Column names differ between providers (and between export
+ * types of the same provider), so each field is looked up by a list of aliases.
+ */
+
+export type SettlementProvider = "stripe" | "pay_solutions" | "ktb_fastpay";
+
+export interface SettlementCsvLine {
+  row: number;
+  /** Candidate references to match against payments, most specific first */
+  references: string[];
+  /** The line's own id at the provider (balance transaction, refund, transaction id) when exported */
+  lineReference: string | null;
+  /** Stripe metadata orderId when exported */
+  orderId: number | null;
+  transactionDate: Date | null;
+  channel: string | null;
+  currency: string | null;
+  gross: number;
+  /** Total fee including VAT, as a positive number */
+  fee: number;
+  net: number;
+  raw: Record<string, string>;
+}
+
+const REFERENCE_HEADERS: Record<SettlementProvider, string[]> = {
+  stripe: ["payment intent id", "payment_intent_id", "payment intent", "source", "source id", "source_id", "charge id", "id"],
+  pay_solutions: ["reference no", "referenceno", "ref no", "refno", "order no", "orderno", "transaction id"],
+  ktb_fastpay: ["order ref", "orderref", "merchant ref", "merchant reference", "order reference", "ref no", "pay ref", "payref"],
+};
+
+const LINE_REFERENCE_HEADERS: Record<SettlementProvider, string[]> = {
+  stripe: ["balance transaction id", "balance_transaction_id", "refund id", "refund_id", "id"],
+  pay_solutions: ["transaction id", "refund no", "refund id"],
+  ktb_fastpay: ["transaction id", "trans id", "trace no"],
+};
+
+const ORDER_ID_HEADERS = ["orderid (metadata)", "payment metadata[orderid]", "metadata orderid", "order id"];
+const DATE_HEADERS = [
+  "created (utc)",
+  "created_utc",
+  "created",
+  "transaction date",
+  "trans date",
+  "payment date",
+  "settlement date",
+  "date",
+  "วันที่",
+];
+const CHANNEL_HEADERS = ["payment method", "payment_method_type", "card type", "cardtype", "channel", "pay method", "type"];
+const CURRENCY_HEADERS = ["currency", "currency code", "cur", "สกุลเงิน"];
+const GROSS_HEADERS = ["gross", "amount", "total", "transaction amount", "gross amount", "จำนวนเงิน"];
+const FEE_HEADERS = ["fee", "fees", "mdr", "fee amount", "processing fee", "ค่าธรรมเนียม"];
+const VAT_HEADERS = ["vat", "fee vat", "vat amount", "ภาษีมูลค่าเพิ่ม"];
+const NET_HEADERS = ["net", "net amount", "settlement amount", "net settlement", "ยอดสุทธิ"];
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[_\s]+/g, " ");
+}
+
+function parseCsvLine(line: string): string[] {
+  const values: string[] = [];
+  let current = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (ch === "," && !inQuotes) {
+      values.push(current);
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  values.push(current);
+  return values.map((v) => v.trim());
+}
+
+function pick(record: Record<string, string>, aliases: string[]): string {
+  for (const alias of aliases) {
+    const value = record[normalizeHeader(alias)];
+    if (value) return value;
+  }
+  return "";
+}
+
+/** "1,234.50", "(12.00)", "฿ 99" → number; null when not a number. */
+export function parseSettlementAmount(value: string): number | null {
+  if (!value) return null;
+  const negative = /^\(.*\)$/.test(value.trim()) || value.trim().startsWith("-");
+  const cleaned = value.replace(/[^0-9.]/g, "");
+  if (!cleaned) return null;
+  const parsed = Number(cleaned);
+  if (!Number.isFinite(parsed)) return null;
+  return Math.round((negative ? -parsed : parsed) * 100) / 100;
+}
+
+/**
+ * ISO timestamps, "YYYY-MM-DD HH:mm[:ss]" and day-first "DD/MM/YYYY [HH:mm[:ss]]"
+ * (Thai exports may use Buddhist-era years).
+ */
+export function parseSettlementDate(value: string): Date | null {
+  if (!value) return null;
+
+  const dayFirst = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+  if (dayFirst) {
+    const [, d, m, y, hh = "0", mm = "0", ss = "0"] = dayFirst;
+    let year = Number(y);
+    if (year > 2400) year -= 543;
+    const date = new Date(year, Number(m) - 1, Number(d), Number(hh), Number(mm), Number(ss));
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const date = new Date(value.replace(" ", "T"));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export function parseSettlementCsv(
+  content: string,
+  provider: SettlementProvider
+): {
+  lines: SettlementCsvLine[];
+  errors: Array<{ row: number; message: string }>;
+} {
+  const rows = content
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n/)
+    .filter((l) => l.trim());
+
+  if (rows.length === 0) {
+    return { lines: [], errors: [{ row: 0, message: "File is empty" }] };
+  }
+
+  const headers = parseCsvLine(rows[0]).map(normalizeHeader);
+  const hasGross = GROSS_HEADERS.some((h) => headers.includes(normalizeHeader(h)));
+  const hasReference = REFERENCE_HEADERS[provider].some((h) => headers.includes(normalizeHeader(h)));
+  if (!hasGross || !hasReference) {
+    return {
+      lines: [],
+      errors: [{ row: 1, message: "Missing reference or amount column for this provider" }],
+    };
+  }
+
+  const lines: SettlementCsvLine[] = [];
+  const errors: Array<{ row: number; message: string }> = [];
+
+  for (let i = 1; i < rows.length; i++) {
+    const rowNumber = i + 1;
+    const values = parseCsvLine(rows[i]);
+    const record: Record<string, string> = {};
+    headers.forEach((header, idx) => {
+      if (header && record[header] === undefined) record[header] = values[idx] ?? "";
+    });
+
+    const references = REFERENCE_HEADERS[provider]
+      .map((alias) => record[normalizeHeader(alias)])
+      .filter((v): v is string => Boolean(v));
+    const gross = parseSettlementAmount(pick(record, GROSS_HEADERS));
+    if (references.length === 0 || gross == null) {
+      errors.push({ row: rowNumber, message: "Missing reference or amount" });
+      continue;
+    }
+
+    const fee = Math.abs(parseSettlementAmount(pick(record, FEE_HEADERS)) ?? 0);
+    const vat = Math.abs(parseSettlementAmount(pick(record, VAT_HEADERS)) ?? 0);
+    // Stripe fees already include VAT; providers exporting VAT separately get it added
+    const totalFee = Math.round((fee + vat) * 100) / 100;
+    const net = parseSettlementAmount(pick(record, NET_HEADERS)) ?? Math.round((gross - totalFee) * 100) / 100;
+    const orderId = provider === "stripe" ? parseInt(pick(record, ORDER_ID_HEADERS), 10) : NaN;
+
+    lines.push({
+      row: rowNumber,
+      references: [...new Set(references)],
+      lineReference: pick(record, LINE_REFERENCE_HEADERS[provider]) || null,
+      orderId: Number.isInteger(orderId) && orderId > 0 ? orderId : null,
+      transactionDate: parseSettlementDate(pick(record, DATE_HEADERS)),
+      channel: pick(record, CHANNEL_HEADERS) || null,
+      currency: pick(record, CURRENCY_HEADERS).toUpperCase() || null,
+      gross,
+      fee: totalFee,
+      net,
+      raw: record,
+    });
+  }
+
+  return { lines, errors };
+}
@@ -60,3 +60,13 @@ export function resolveFeeMethod(
   if (paymentMethod === "qr") return "promptpay";
   return "thai_card";
 }
+
+/**
+ * Fee Stripe is expected to deduct from an amount actually charged
+ * (the inverse of calculateStripeFee, used when reconciling settlements).
+ */
+export function estimateStripeFeeFromGross(grossAmount: number, method: FeeMethod): number {
+  const config = FEE_CONFIG[method];
+  const vatMultiplier = 1 + config.vat;
+  return Math.round((grossAmount * config.rate + config.fixedFee) * vatMultiplier * 100) / 100;
+}
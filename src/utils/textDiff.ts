@@ -0,0 +1,78 @@
+/**
+ * Word-level text diff used to compare abstract versions.
+ *
+ * Classic LCS over whitespace-separated tokens; abstracts are a few hundred
+ * words so the O(n*m) table is cheap. Whitespace stays attached to the
+ * preceding word, so joining the equal + added segments gives the new text.
+ */
+
+export type DiffSegment = {
+  type: "equal" | "added" | "removed";
+  text: string;
+};
+
+// Above this many cells (~4M) fall back to a whole-text replace
+const MAX_LCS_CELLS = 4_000_000;
+
+function tokenize(text: string): string[] {
+  return text.match(/\S+\s*|\s+/g) ?? [];
+}
+
+function pushSegment(segments: DiffSegment[], type: DiffSegment["type"], text: string) {
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+}
+
+export function diffWords(before: string | null | undefined, after: string | null | undefined): DiffSegment[] {
+  const a = tokenize(before ?? "");
+  const b = tokenize(after ?? "");
+  const segments: DiffSegment[] = [];
+
+  if ((a.length + 1) * (b.length + 1) > MAX_LCS_CELLS) {
+    if (before) pushSegment(segments, "removed", before);
+    if (after) pushSegment(segments, "added", after);
+    return segments;
+  }
+
+  // Compare words without their trailing whitespace
+  const ka = a.map((t) => t.trim());
+  const kb = b.map((t) => t.trim());
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        ka[i] === kb[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (ka[i] === kb[j]) {
+      pushSegment(segments, "equal", b[j]);
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      pushSegment(segments, "removed", a[i++]);
+    } else {
+      pushSegment(segments, "added", b[j++]);
+    }
+  }
+  while (i < a.length) pushSegment(segments, "removed", a[i++]);
+  while (j < b.length) pushSegment(segments, "added", b[j++]);
+
+  return segments;
+}
+
+export function hasChanges(segments: DiffSegment[]): boolean {
+  return segments.some((segment) => segment.type !== "equal");
+}
@@ -0,0 +1,99 @@
+import crypto from "crypto";
+
+/**
+ * Time-based one-time passwords (RFC 6238, HMAC-SHA1, 30 s steps, 6 digits)
+ * as produced by Google Authenticator, 1Password, Authy and friends.
+ * Everything is computed locally — no network call is involved.
+ */
+
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/[\s=-]/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Invalid base32 character: ${char}`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/** New random shared secret, base32 encoded (160 bits, as RFC 4226 recommends) */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+/** Time step number for a moment in time */
+export function totpStep(at: Date = new Date()): number {
+  return Math.floor(at.getTime() / 1000 / TOTP_STEP_SECONDS);
+}
+
+/** Code for a given time step (HOTP with the step as counter) */
+export function generateTotp(secret: string, step: number = totpStep()): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac("sha1", base32Decode(secret)).update(counter).digest();
+
+  // Dynamic truncation (RFC 4226 §5.3)
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+  return binary.toString().padStart(TOTP_DIGITS, "0");
+}
+
+/**
+ * Check a code against the current step and `window` steps either side to
+ * allow for clock drift. Returns the matching step, or null.
+ */
+export function verifyTotp(secret: string, code: string, window = 1, at: Date = new Date()): number | null {
+  const normalized = code.replace(/\s/g, "");
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) return null;
+
+  const current = totpStep(at);
+  const presented = Buffer.from(normalized);
+  for (let offset = -window; offset <= window; offset++) {
+    const expected = Buffer.from(generateTotp(secret, current + offset));
+    if (crypto.timingSafeEqual(presented, expected)) return current + offset;
+  }
+  return null;
+}
+
+/** otpauth:// URI encoded into the enrolment QR code */
+export function buildOtpauthUri(issuer: string, accountName: string, secret: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
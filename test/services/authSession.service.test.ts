@@ -0,0 +1,73 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { FastifyInstance, FastifyRequest } from "fastify";
+import { eq } from "drizzle-orm";
+
+vi.mock("../../src/database/index.js", () => import("../support/database.js"));
+
+import { authSessions, backofficeUsers, db, resetDatabase } from "../support/database.js";
+import { createStaff } from "../support/fixtures.js";
+import { isSessionActive, refreshSession, startSession } from "../../src/services/authSession.service.js";
+
+const fastify = { jwt: { sign: vi.fn(() => "access-token") } } as unknown as FastifyInstance;
+const request = { ip: "203.0.113.7", headers: { "user-agent": "vitest" } } as unknown as FastifyRequest;
+
+let staff: Awaited<ReturnType<typeof createStaff>>;
+
+async function sessionRow() {
+    const [session] = await db.select().from(authSessions).where(eq(authSessions.staffId, staff.id));
+    return session;
+}
+
+beforeEach(async () => {
+    await resetDatabase();
+    staff = await createStaff();
+});
+
+async function signIn() {
+    return startSession(fastify, request, "backoffice", { id: staff.id, email: staff.email, role: staff.role });
+}
+
+describe("refreshSession", () => {
+    it("rotates the refresh token", async () => {
+        const first = await signIn();
+
+        const second = await refreshSession(fastify, "backoffice", first.refreshToken);
+
+        expect(second.refreshToken).not.toBe(first.refreshToken);
+        await expect(refreshSession(fastify, "backoffice", second.refreshToken)).resolves.toBeDefined();
+    });
+
+    it("revokes the session when a replaced refresh token is presented again", async () => {
+        const first = await signIn();
+        const second = await refreshSession(fastify, "backoffice", first.refreshToken);
+
+        await expect(refreshSession(fastify, "backoffice", first.refreshToken)).rejects.toThrow("REFRESH_TOKEN_REUSED");
+
+        const session = await sessionRow();
+        expect(session.revokedReason).toBe("refresh_token_reused");
+        expect(await isSessionActive(session.id, "backoffice")).toBe(false);
+        // The copy taken by whoever rotated it is dead too
+        await expect(refreshSession(fastify, "backoffice", second.refreshToken)).rejects.toThrow("REFRESH_TOKEN_INVALID");
+    });
+
+    it("rejects an unknown token", async () => {
+        await signIn();
+
+        await expect(refreshSession(fastify, "backoffice", "not-a-token")).rejects.toThrow("REFRESH_TOKEN_INVALID");
+        expect((await sessionRow()).revokedAt).toBeNull();
+    });
+
+    it("rejects a token of the other audience", async () => {
+        const { refreshToken } = await signIn();
+
+        await expect(refreshSession(fastify, "attendee", refreshToken)).rejects.toThrow("REFRESH_TOKEN_INVALID");
+    });
+
+    it("ends the session of a deactivated staff member", async () => {
+        const { refreshToken } = await signIn();
+        await db.update(backofficeUsers).set({ isActive: false }).where(eq(backofficeUsers.id, staff.id));
+
+        await expect(refreshSession(fastify, "backoffice", refreshToken)).rejects.toThrow("ACCOUNT_INACTIVE");
+        expect((await sessionRow()).revokedReason).toBe("deactivated");
+    });
+});
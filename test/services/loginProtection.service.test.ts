@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { FastifyRequest } from "fastify";
+import { eq } from "drizzle-orm";
+
+vi.mock("../../src/database/index.js", () => import("../support/database.js"));
+vi.mock("../../src/services/emailService.js", () => ({
+    sendAccountLockedEmail: vi.fn(async () => {}),
+    sendNewDeviceLoginEmail: vi.fn(async () => {}),
+}));
+
+import { backofficeUsers, db, loginHistory, resetDatabase } from "../support/database.js";
+import { createStaff } from "../support/fixtures.js";
+import {
+    activeLockUntil,
+    recordLoginFailure,
+    recordLoginSuccess,
+    type LoginAccount,
+} from "../../src/services/loginProtection.service.js";
+import { sendAccountLockedEmail } from "../../src/services/emailService.js";
+import { LOGIN_LOCKOUT_BASE_MS, LOGIN_MAX_FAILED_ATTEMPTS } from "../../src/constants/auth.js";
+
+const request = {
+    ip: "203.0.113.7",
+    headers: { "user-agent": "vitest" },
+    log: { error: vi.fn() },
+} as unknown as FastifyRequest;
+
+let account: LoginAccount;
+
+async function lockState() {
+    const [staff] = await db
+        .select({
+            failedLoginAttempts: backofficeUsers.failedLoginAttempts,
+            lockoutCount: backofficeUsers.lockoutCount,
+            lockedUntil: backofficeUsers.lockedUntil,
+        })
+        .from(backofficeUsers)
+        .where(eq(backofficeUsers.id, (account.owner as { staffId: number }).staffId));
+    return staff;
+}
+
+async function failRepeatedly(times: number, reason: "invalid_password" | "invalid_second_factor" = "invalid_password") {
+    let lockedUntil: Date | null = null;
+    for (let i = 0; i < times; i++) {
+        lockedUntil = await recordLoginFailure(request, "backoffice", account.email, account, reason);
+    }
+    return lockedUntil;
+}
+
+beforeEach(async () => {
+    await resetDatabase();
+    vi.mocked(sendAccountLockedEmail).mockClear();
+    const staff = await createStaff();
+    account = { owner: { staffId: staff.id }, email: staff.email, firstName: staff.firstName };
+});
+
+describe("recordLoginFailure", () => {
+    it("locks the account on the last allowed attempt and emails the owner", async () => {
+        expect(await failRepeatedly(LOGIN_MAX_FAILED_ATTEMPTS - 1)).toBeNull();
+        expect(await lockState()).toMatchObject({ failedLoginAttempts: LOGIN_MAX_FAILED_ATTEMPTS - 1, lockedUntil: null });
+
+        const before = Date.now();
+        const lockedUntil = await failRepeatedly(1, "invalid_second_factor");
+
+        expect(lockedUntil!.getTime()).toBeGreaterThanOrEqual(before + LOGIN_LOCKOUT_BASE_MS);
+        expect(activeLockUntil((await lockState()).lockedUntil)).not.toBeNull();
+        expect(await lockState()).toMatchObject({ failedLoginAttempts: 0, lockoutCount: 1 });
+        expect(sendAccountLockedEmail).toHaveBeenCalledWith(account.email, account.firstName, lockedUntil, true);
+    });
+
+    it("doubles the lockout for each lockout in a row", async () => {
+        const before = Date.now();
+        await failRepeatedly(LOGIN_MAX_FAILED_ATTEMPTS);
+        const second = await failRepeatedly(LOGIN_MAX_FAILED_ATTEMPTS);
+
+        expect(second!.getTime()).toBeGreaterThanOrEqual(before + 2 * LOGIN_LOCKOUT_BASE_MS);
+        expect((await lockState()).lockoutCount).toBe(2);
+    });
+
+    it("does not count refusals of a locked account", async () => {
+        for (let i = 0; i < LOGIN_MAX_FAILED_ATTEMPTS; i++) {
+            await recordLoginFailure(request, "backoffice", account.email, account, "locked");
+        }
+
+        expect(await lockState()).toMatchObject({ failedLoginAttempts: 0, lockoutCount: 0, lockedUntil: null });
+        const history = await db.select().from(loginHistory);
+        expect(history).toHaveLength(LOGIN_MAX_FAILED_ATTEMPTS);
+        expect(history.every((row) => !row.success && row.failureReason === "locked")).toBe(true);
+    });
+
+    it("records attempts against unknown accounts without counting them", async () => {
+        expect(await recordLoginFailure(request, "backoffice", "nobody@example.com", null, "unknown_account")).toBeNull();
+
+        const [row] = await db.select().from(loginHistory);
+        expect(row).toMatchObject({ identifier: "nobody@example.com", staffId: null, success: false });
+    });
+});
+
+describe("recordLoginSuccess", () => {
+    it("clears the failure counters and the lock", async () => {
+        await failRepeatedly(LOGIN_MAX_FAILED_ATTEMPTS + 2);
+
+        await recordLoginSuccess(request, "backoffice", account.email, account);
+
+        expect(await lockState()).toEqual({ failedLoginAttempts: 0, lockoutCount: 0, lockedUntil: null });
+    });
+});
@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+
+vi.mock("../../src/database/index.js", () => import("../support/database.js"));
+
+import { db, orderEvents, orders, resetDatabase } from "../support/database.js";
+import { createEvent, createOrder, createUser } from "../support/fixtures.js";
+import { canTransitionOrder, transitionOrder } from "../../src/services/orderEvents.service.js";
+
+async function orderStatus(orderId: number) {
+    const [order] = await db.select({ status: orders.status }).from(orders).where(eq(orders.id, orderId));
+    return order.status;
+}
+
+async function eventsOf(orderId: number) {
+    return db.select().from(orderEvents).where(eq(orderEvents.orderId, orderId)).orderBy(orderEvents.id);
+}
+
+describe("canTransitionOrder", () => {
+    it("follows the order state machine", () => {
+        expect(canTransitionOrder("pending", "paid")).toBe(true);
+        expect(canTransitionOrder("pending", "cancelled")).toBe(true);
+        expect(canTransitionOrder("cancelled", "paid")).toBe(true);
+        expect(canTransitionOrder("paid", "refunded")).toBe(true);
+
+        expect(canTransitionOrder("paid", "pending")).toBe(false);
+        expect(canTransitionOrder("paid", "cancelled")).toBe(false);
+        expect(canTransitionOrder("refunded", "paid")).toBe(false);
+    });
+});
+
+describe("transitionOrder", () => {
+    let orderId: number;
+
+    beforeEach(async () => {
+        await resetDatabase();
+        const user = await createUser();
+        const event = await createEvent();
+        orderId = (await createOrder(user.id, event.id)).id;
+    });
+
+    it("applies a legal move and records it", async () => {
+        const result = await transitionOrder(db, orderId, "paid", { source: "stripe_webhook", paymentStatus: "paid" });
+
+        expect(result).toEqual({ applied: true, allowed: true, from: "pending" });
+        expect(await orderStatus(orderId)).toBe("paid");
+        const [event] = await eventsOf(orderId);
+        expect(event).toMatchObject({
+            type: "status_changed",
+            fromStatus: "pending",
+            toStatus: "paid",
+            source: "stripe_webhook",
+            paymentStatus: "paid",
+        });
+    });
+
+    it("refuses an illegal move and logs it as rejected", async () => {
+        await transitionOrder(db, orderId, "paid", { source: "verify" });
+
+        const result = await transitionOrder(db, orderId, "cancelled", { source: "cancel_intent" });
+
+        expect(result).toEqual({ applied: false, allowed: false, from: "paid", reason: "illegal" });
+        expect(await orderStatus(orderId)).toBe("paid");
+        const rejected = (await eventsOf(orderId)).at(-1);
+        expect(rejected).toMatchObject({ type: "transition_rejected", fromStatus: "paid", toStatus: "cancelled" });
+    });
+
+    it("allows the caller to go on when the order already has the status", async () => {
+        await transitionOrder(db, orderId, "paid", { source: "stripe_webhook" });
+
+        const result = await transitionOrder(db, orderId, "paid", { source: "status_poll" });
+
+        expect(result).toEqual({ applied: false, allowed: true, from: "paid", reason: "unchanged" });
+        expect(await eventsOf(orderId)).toHaveLength(1);
+    });
+
+    it("skips a callback whose idempotency key was already recorded", async () => {
+        const context = { source: "stripe_webhook" as const, idempotencyKey: "evt_1" };
+        await transitionOrder(db, orderId, "cancelled", context);
+
+        const result = await transitionOrder(db, orderId, "paid", context);
+
+        expect(result).toEqual({ applied: false, allowed: false, from: "cancelled", reason: "duplicate" });
+        expect(await orderStatus(orderId)).toBe("cancelled");
+    });
+
+    it("lets a late capture pay a cancelled order", async () => {
+        await transitionOrder(db, orderId, "cancelled", { source: "cancel_intent" });
+
+        const result = await transitionOrder(db, orderId, "paid", { source: "stripe_webhook" });
+
+        expect(result).toMatchObject({ applied: true, from: "cancelled" });
+        expect(await orderStatus(orderId)).toBe("paid");
+    });
+
+    it("reports a missing order", async () => {
+        const result = await transitionOrder(db, orderId + 1, "paid", { source: "verify" });
+
+        expect(result).toEqual({ applied: false, allowed: false, from: null, reason: "not_found" });
+    });
+});
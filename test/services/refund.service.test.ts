@@ -0,0 +1,229 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+
+vi.mock("../../src/database/index.js", () => import("../support/database.js"));
+vi.mock("../../src/services/waitlist.service.js", async (importOriginal) => ({
+    ...(await importOriginal<typeof import("../../src/services/waitlist.service.js")>()),
+    releaseWaitlistSeats: vi.fn(async () => []),
+}));
+
+import {
+    db,
+    orderEvents,
+    orderItems,
+    orders,
+    payments,
+    refunds,
+    registrations,
+    resetDatabase,
+    ticketTypes,
+    type Order,
+    type Payment,
+    type TicketType,
+} from "../support/database.js";
+import {
+    createEvent,
+    createOrder,
+    createOrderItem,
+    createPayment,
+    createRegistration,
+    createStaff,
+    createTicketType,
+    createUser,
+} from "../support/fixtures.js";
+import { applyProviderRefund, refundOrder, updateStripeRefundStatus } from "../../src/services/refund.service.js";
+import { releaseWaitlistSeats } from "../../src/services/waitlist.service.js";
+
+const fastify = { log: { info: vi.fn(), warn: vi.fn(), error: vi.fn() } };
+
+let staffId: number;
+let ticket: TicketType;
+let order: Order;
+let item: typeof orderItems.$inferSelect;
+
+async function paidOrder(payment: Partial<Payment>): Promise<Payment> {
+    const user = await createUser();
+    const event = await createEvent();
+    ticket = await createTicketType(event.id, { quota: 10, soldCount: 1 });
+    order = await createOrder(user.id, event.id, { status: "paid" });
+    item = await createOrderItem(order.id, ticket.id);
+    await createRegistration(order, ticket.id);
+    return createPayment(order.id, { status: "paid", ...payment });
+}
+
+async function current() {
+    const [orderRow] = await db.select().from(orders).where(eq(orders.id, order.id));
+    const [paymentRow] = await db.select().from(payments).where(eq(payments.orderId, order.id));
+    const [registration] = await db.select().from(registrations).where(eq(registrations.orderId, order.id));
+    const [ticketRow] = await db.select().from(ticketTypes).where(eq(ticketTypes.id, ticket.id));
+    return {
+        orderStatus: orderRow.status,
+        paymentStatus: paymentRow.status,
+        registrationStatus: registration.status,
+        soldCount: ticketRow.soldCount,
+    };
+}
+
+beforeEach(async () => {
+    await resetDatabase();
+    vi.mocked(releaseWaitlistSeats).mockClear();
+    staffId = (await createStaff()).id;
+});
+
+describe("refundOrder (manual refunds)", () => {
+    beforeEach(async () => {
+        await paidOrder({ paymentProvider: "pay_solutions" });
+    });
+
+    it("applies a full refund: withdraws the ticket and moves order and payment to refunded", async () => {
+        const result = await refundOrder(fastify, {
+            orderId: order.id,
+            registrationAction: "cancel",
+            reason: "Cannot attend",
+            reference: "TRF-001",
+            staffId,
+        });
+
+        expect(result.orderStatus).toBe("refunded");
+        expect(result.refund).toMatchObject({ status: "succeeded", amount: "1000.00", orderItemIds: [item.id] });
+        expect(await current()).toEqual({
+            orderStatus: "refunded",
+            paymentStatus: "refunded",
+            registrationStatus: "cancelled",
+            soldCount: 0,
+        });
+        expect(releaseWaitlistSeats).toHaveBeenCalledWith(fastify, [{ ticketTypeId: ticket.id }]);
+    });
+
+    it("keeps the order paid and the registration on a partial refund", async () => {
+        const result = await refundOrder(fastify, {
+            orderId: order.id,
+            amount: 400,
+            registrationAction: "keep",
+            reason: "Goodwill",
+            reference: "TRF-002",
+            staffId,
+        });
+
+        expect(result.orderStatus).toBe("paid");
+        expect(await current()).toEqual({
+            orderStatus: "paid",
+            paymentStatus: "paid",
+            registrationStatus: "confirmed",
+            soldCount: 1,
+        });
+        const events = await db.select().from(orderEvents).where(eq(orderEvents.orderId, order.id));
+        expect(events).toEqual([expect.objectContaining({ type: "note", source: "refund" })]);
+        expect(releaseWaitlistSeats).not.toHaveBeenCalled();
+    });
+
+    it("refuses more than what is left to refund", async () => {
+        await refundOrder(fastify, {
+            orderId: order.id,
+            amount: 600,
+            registrationAction: "keep",
+            reason: "Goodwill",
+            reference: "TRF-003",
+            staffId,
+        });
+
+        await expect(
+            refundOrder(fastify, {
+                orderId: order.id,
+                amount: 500,
+                registrationAction: "keep",
+                reason: "Goodwill",
+                reference: "TRF-004",
+                staffId,
+            })
+        ).rejects.toThrow("REFUND_EXCEEDS_PAID");
+    });
+
+    it("requires a transfer reference", async () => {
+        await expect(
+            refundOrder(fastify, { orderId: order.id, registrationAction: "cancel", reason: "Cannot attend", staffId })
+        ).rejects.toThrow("MANUAL_REFERENCE_REQUIRED");
+    });
+});
+
+describe("updateStripeRefundStatus", () => {
+    beforeEach(async () => {
+        const payment = await paidOrder({ paymentProvider: "stripe", stripeSessionId: "pi_test" });
+        await db.insert(refunds).values({
+            orderId: order.id,
+            paymentId: payment.id,
+            amount: "1000.00",
+            currency: "THB",
+            paymentProvider: "stripe",
+            method: "stripe",
+            status: "pending",
+            providerRefundId: "re_test",
+            reason: "Cannot attend",
+            registrationAction: "cancel",
+            orderItemIds: [item.id],
+            creditNoteNumber: "CN2026-000001",
+            refundedBy: staffId,
+        });
+    });
+
+    it("applies the refund once Stripe reports it succeeded", async () => {
+        await updateStripeRefundStatus(fastify, { id: "re_test", status: "succeeded" });
+
+        expect(await current()).toEqual({
+            orderStatus: "refunded",
+            paymentStatus: "refunded",
+            registrationStatus: "cancelled",
+            soldCount: 0,
+        });
+    });
+
+    it("reverts a succeeded refund that later failed", async () => {
+        await updateStripeRefundStatus(fastify, { id: "re_test", status: "succeeded" });
+
+        await updateStripeRefundStatus(fastify, { id: "re_test", status: "failed" });
+
+        expect(await current()).toEqual({
+            orderStatus: "paid",
+            paymentStatus: "paid",
+            registrationStatus: "confirmed",
+            soldCount: 1,
+        });
+        const [refund] = await db.select().from(refunds).where(eq(refunds.providerRefundId, "re_test"));
+        expect(refund.status).toBe("failed");
+        const restored = (await db.select().from(orderEvents).where(eq(orderEvents.orderId, order.id))).at(-1);
+        expect(restored).toMatchObject({ type: "status_changed", fromStatus: "refunded", toStatus: "paid" });
+    });
+
+    it("leaves the order alone when a pending refund fails", async () => {
+        await updateStripeRefundStatus(fastify, { id: "re_test", status: "failed" });
+
+        expect(await current()).toEqual({
+            orderStatus: "paid",
+            paymentStatus: "paid",
+            registrationStatus: "confirmed",
+            soldCount: 1,
+        });
+    });
+});
+
+describe("applyProviderRefund", () => {
+    it("reverses the sale of a payment refunded at the provider", async () => {
+        const payment = await paidOrder({ paymentProvider: "pay_solutions" });
+
+        const { transition, freed } = await applyProviderRefund(
+            order.id,
+            payment.id,
+            { providerStatus: "REFUNDED" },
+            { source: "pay_solutions_postback" }
+        );
+
+        expect(transition).toMatchObject({ applied: true, from: "paid" });
+        expect(freed).toEqual([{ ticketTypeId: ticket.id }]);
+        expect(await current()).toEqual({
+            orderStatus: "refunded",
+            paymentStatus: "refunded",
+            registrationStatus: "cancelled",
+            soldCount: 0,
+        });
+    });
+});
@@ -0,0 +1,158 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+
+vi.mock("../../src/database/index.js", () => import("../support/database.js"));
+
+import { db, orders, payments, resetDatabase, seatHolds } from "../support/database.js";
+import {
+    createEvent,
+    createOrder,
+    createPayment,
+    createSeatHold,
+    createSession,
+    createTicketType,
+    createUser,
+} from "../support/fixtures.js";
+import { createSeatHolds } from "../../src/services/seatHold.service.js";
+import { reserveOrderSeats } from "../../src/services/waitlist.service.js";
+
+async function orderStatus(orderId: number) {
+    const [order] = await db.select({ status: orders.status }).from(orders).where(eq(orders.id, orderId));
+    return order.status;
+}
+
+async function holdsOf(orderId: number) {
+    return db.select().from(seatHolds).where(eq(seatHolds.orderId, orderId)).orderBy(seatHolds.id);
+}
+
+let userId: number;
+let eventId: number;
+
+beforeEach(async () => {
+    await resetDatabase();
+    userId = (await createUser()).id;
+    eventId = (await createEvent()).id;
+});
+
+describe("createSeatHolds", () => {
+    it("cancels the user's older card checkout and returns the seats the new order does not take", async () => {
+        const ticket = await createTicketType(eventId);
+        const session = await createSession(eventId, 10);
+        const previous = await createOrder(userId, eventId);
+        await createPayment(previous.id);
+        await createSeatHold(previous, { ticketTypeId: ticket.id });
+        await createSeatHold(previous, { sessionId: session.id });
+        const order = await createOrder(userId, eventId);
+
+        const freed = await db.transaction((tx) =>
+            createSeatHolds(tx, { orderId: order.id, userId, eventId }, [{ ticketTypeId: ticket.id }])
+        );
+
+        expect(freed).toEqual([{ sessionId: session.id }]);
+        expect(await orderStatus(previous.id)).toBe("cancelled");
+        const [payment] = await db.select().from(payments).where(eq(payments.orderId, previous.id));
+        expect(payment.status).toBe("cancelled");
+        expect(await holdsOf(previous.id)).toEqual([
+            expect.objectContaining({ status: "released", releaseReason: "superseded" }),
+            expect.objectContaining({ status: "released", releaseReason: "superseded" }),
+        ]);
+        expect(await holdsOf(order.id)).toEqual([
+            expect.objectContaining({ ticketTypeId: ticket.id, status: "active", quantity: 1 }),
+        ]);
+    });
+
+    it("leaves invoice and group orders of the same user live", async () => {
+        const ticket = await createTicketType(eventId);
+        const invoice = await createOrder(userId, eventId, { invoiceDueAt: new Date(Date.now() + 86_400_000) });
+        const group = await createOrder(userId, eventId, { isGroupOrder: true });
+        await createSeatHold(invoice, { ticketTypeId: ticket.id });
+        await createSeatHold(group, { ticketTypeId: ticket.id });
+        const order = await createOrder(userId, eventId);
+
+        const freed = await db.transaction((tx) =>
+            createSeatHolds(tx, { orderId: order.id, userId, eventId }, [{ ticketTypeId: ticket.id }])
+        );
+
+        expect(freed).toEqual([]);
+        expect(await orderStatus(invoice.id)).toBe("pending");
+        expect(await orderStatus(group.id)).toBe("pending");
+        expect((await holdsOf(invoice.id))[0].status).toBe("active");
+        expect((await holdsOf(group.id))[0].status).toBe("active");
+    });
+
+    it("holds group seats per target until the given date", async () => {
+        const ticket = await createTicketType(eventId);
+        const order = await createOrder(userId, eventId, { isGroupOrder: true });
+        const holdUntil = new Date("2026-06-30T00:00:00Z");
+
+        await db.transaction((tx) =>
+            createSeatHolds(tx, { orderId: order.id, userId, eventId, quantity: 5, holdUntil }, [
+                { ticketTypeId: ticket.id },
+            ])
+        );
+
+        expect(await holdsOf(order.id)).toEqual([expect.objectContaining({ quantity: 5, expiresAt: holdUntil })]);
+    });
+});
+
+describe("reserveOrderSeats", () => {
+    it("refuses the last seat while another user's checkout holds it", async () => {
+        const ticket = await createTicketType(eventId, { quota: 1 });
+        const other = await createUser();
+        await createSeatHold(await createOrder(other.id, eventId), { ticketTypeId: ticket.id });
+        const order = await createOrder(userId, eventId);
+
+        await expect(
+            reserveOrderSeats({ orderId: order.id, userId, eventId }, [{ ticketTypeId: ticket.id }])
+        ).rejects.toThrow("SEAT_UNAVAILABLE");
+        expect(await holdsOf(order.id)).toEqual([]);
+    });
+
+    it("ignores an expired hold", async () => {
+        const ticket = await createTicketType(eventId, { quota: 1 });
+        const other = await createUser();
+        await createSeatHold(await createOrder(other.id, eventId), { ticketTypeId: ticket.id }, new Date(Date.now() - 1000));
+        const order = await createOrder(userId, eventId);
+
+        await reserveOrderSeats({ orderId: order.id, userId, eventId }, [{ ticketTypeId: ticket.id }]);
+
+        expect(await holdsOf(order.id)).toHaveLength(1);
+    });
+
+    it("lets a user retrying checkout take over the seat of their previous attempt", async () => {
+        const ticket = await createTicketType(eventId, { quota: 1 });
+        const previous = await createOrder(userId, eventId);
+        await createSeatHold(previous, { ticketTypeId: ticket.id });
+        const order = await createOrder(userId, eventId);
+
+        const freed = await reserveOrderSeats({ orderId: order.id, userId, eventId }, [{ ticketTypeId: ticket.id }]);
+
+        expect(freed).toEqual([]);
+        expect(await orderStatus(previous.id)).toBe("cancelled");
+        expect((await holdsOf(order.id))[0].status).toBe("active");
+    });
+
+    it("counts the user's own invoice order against the seats", async () => {
+        const ticket = await createTicketType(eventId, { quota: 1 });
+        const invoice = await createOrder(userId, eventId, { invoiceDueAt: new Date(Date.now() + 86_400_000) });
+        await createSeatHold(invoice, { ticketTypeId: ticket.id });
+        const order = await createOrder(userId, eventId);
+
+        await expect(
+            reserveOrderSeats({ orderId: order.id, userId, eventId }, [{ ticketTypeId: ticket.id }])
+        ).rejects.toThrow("SEAT_UNAVAILABLE");
+        expect(await orderStatus(invoice.id)).toBe("pending");
+    });
+
+    it("refuses a group order larger than the seats left", async () => {
+        const ticket = await createTicketType(eventId, { quota: 10, soldCount: 7 });
+        const order = await createOrder(userId, eventId, { isGroupOrder: true });
+
+        await expect(
+            reserveOrderSeats({ orderId: order.id, userId, eventId, quantity: 4 }, [{ ticketTypeId: ticket.id }])
+        ).rejects.toThrow("SEAT_UNAVAILABLE");
+
+        await reserveOrderSeats({ orderId: order.id, userId, eventId, quantity: 3 }, [{ ticketTypeId: ticket.id }]);
+        expect(await holdsOf(order.id)).toEqual([expect.objectContaining({ quantity: 3 })]);
+    });
+});
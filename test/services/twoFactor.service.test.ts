@@ -0,0 +1,85 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../../src/database/index.js", () => import("../support/database.js"));
+
+import { resetDatabase } from "../support/database.js";
+import { createStaff } from "../support/fixtures.js";
+import {
+    beginEnrolment,
+    confirmEnrolment,
+    consumeLoginChallenge,
+    createLoginChallenge,
+    readLoginChallenge,
+    verifySecondFactor,
+} from "../../src/services/twoFactor.service.js";
+import { generateTotp, totpStep } from "../../src/utils/totp.js";
+
+let staffId: number;
+
+beforeEach(async () => {
+    await resetDatabase();
+    staffId = (await createStaff()).id;
+});
+
+describe("second factor", () => {
+    let secret: string;
+    let recoveryCodes: string[];
+
+    beforeEach(async () => {
+        ({ secret } = await beginEnrolment(staffId));
+        recoveryCodes = await confirmEnrolment(staffId, generateTotp(secret, totpStep() - 1));
+    });
+
+    it("accepts a TOTP code once", async () => {
+        const code = generateTotp(secret);
+
+        await expect(verifySecondFactor(staffId, { code })).resolves.toBe("totp");
+        await expect(verifySecondFactor(staffId, { code })).rejects.toThrow("TWO_FACTOR_CODE_INVALID");
+    });
+
+    it("refuses a code from a step before the last one used", async () => {
+        await verifySecondFactor(staffId, { code: generateTotp(secret) });
+
+        await expect(
+            verifySecondFactor(staffId, { code: generateTotp(secret, totpStep() - 1) })
+        ).rejects.toThrow("TWO_FACTOR_CODE_INVALID");
+    });
+
+    it("refuses a wrong code", async () => {
+        const wrong = generateTotp(secret) === "000000" ? "111111" : "000000";
+
+        await expect(verifySecondFactor(staffId, { code: wrong })).rejects.toThrow("TWO_FACTOR_CODE_INVALID");
+    });
+
+    it("accepts each recovery code once", async () => {
+        const [recoveryCode] = recoveryCodes;
+
+        await expect(verifySecondFactor(staffId, { recoveryCode })).resolves.toBe("recovery_code");
+        await expect(verifySecondFactor(staffId, { recoveryCode })).rejects.toThrow("TWO_FACTOR_CODE_INVALID");
+    });
+});
+
+describe("login challenge", () => {
+    it("can be used once", async () => {
+        const challenge = readLoginChallenge(await createLoginChallenge(staffId))!;
+
+        expect(challenge.staffId).toBe(staffId);
+        expect(await consumeLoginChallenge(staffId, challenge.nonce)).toBe(true);
+        expect(await consumeLoginChallenge(staffId, challenge.nonce)).toBe(false);
+    });
+
+    it("is replaced by a newer sign-in", async () => {
+        const first = readLoginChallenge(await createLoginChallenge(staffId))!;
+        const second = readLoginChallenge(await createLoginChallenge(staffId))!;
+
+        expect(await consumeLoginChallenge(staffId, first.nonce)).toBe(false);
+        expect(await consumeLoginChallenge(staffId, second.nonce)).toBe(true);
+    });
+
+    it("rejects a tampered token", async () => {
+        const [id, expiresAt, nonce, signature] = (await createLoginChallenge(staffId)).split(".");
+
+        expect(readLoginChallenge([id, Number(expiresAt) + 60_000, nonce, signature].join("."))).toBeNull();
+        expect(readLoginChallenge([staffId + 1, expiresAt, nonce, signature].join("."))).toBeNull();
+    });
+});
@@ -0,0 +1,28 @@
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { generateDrizzleJson, generateMigration } from "drizzle-kit/api";
+import * as schema from "../../src/database/schema.js";
+
+/**
+ * Stand-in for src/database/index.ts: an in-memory Postgres (PGlite) with the
+ * current schema. Test files swap it in with
+ * `vi.mock("../../src/database/index.js", () => import("../support/database.js"))`.
+ */
+
+const client = new PGlite();
+const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+await client.exec(statements.join(";\n"));
+
+export const db = drizzle(client, { schema });
+
+export type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/** Empty every table and restart the id sequences */
+export async function resetDatabase(): Promise<void> {
+    const { rows } = await client.query<{ tablename: string }>(
+        "select tablename from pg_tables where schemaname = 'public'"
+    );
+    await client.exec(`truncate ${rows.map((r) => `"${r.tablename}"`).join(", ")} restart identity cascade`);
+}
+
+export * from "../../src/database/schema.js";
@@ -0,0 +1,152 @@
+import {
+    backofficeUsers,
+    db,
+    events,
+    orderItems,
+    orders,
+    payments,
+    registrations,
+    seatHolds,
+    sessions,
+    ticketTypes,
+    users,
+    type NewOrder,
+    type NewPayment,
+    type NewTicketType,
+} from "./database.js";
+
+let sequence = 0;
+const next = () => ++sequence;
+
+export async function createUser() {
+    const n = next();
+    const [user] = await db
+        .insert(users)
+        .values({
+            email: `user${n}@example.com`,
+            passwordHash: "hash",
+            role: "general",
+            firstName: "Test",
+            lastName: `User ${n}`,
+        })
+        .returning();
+    return user;
+}
+
+export async function createStaff() {
+    const n = next();
+    const [staff] = await db
+        .insert(backofficeUsers)
+        .values({
+            email: `staff${n}@example.com`,
+            passwordHash: "hash",
+            role: "admin",
+            firstName: "Test",
+            lastName: `Staff ${n}`,
+        })
+        .returning();
+    return staff;
+}
+
+export async function createEvent() {
+    const n = next();
+    const [event] = await db
+        .insert(events)
+        .values({
+            eventCode: `EVT-${n}`,
+            eventName: `Event ${n}`,
+            eventType: "single_room",
+            startDate: new Date("2026-07-01T09:00:00Z"),
+            endDate: new Date("2026-07-03T17:00:00Z"),
+        })
+        .returning();
+    return event;
+}
+
+export async function createTicketType(eventId: number, values: Partial<NewTicketType> = {}) {
+    const [ticket] = await db
+        .insert(ticketTypes)
+        .values({ eventId, category: "primary", name: `Ticket ${next()}`, price: "1000.00", quota: 0, ...values })
+        .returning();
+    return ticket;
+}
+
+export async function createSession(eventId: number, maxCapacity: number | null = null) {
+    const n = next();
+    const [session] = await db
+        .insert(sessions)
+        .values({
+            eventId,
+            sessionCode: `WS-${n}`,
+            sessionName: `Workshop ${n}`,
+            maxCapacity,
+            startTime: new Date("2026-07-01T09:00:00Z"),
+            endTime: new Date("2026-07-01T12:00:00Z"),
+        })
+        .returning();
+    return session;
+}
+
+export async function createOrder(userId: number, eventId: number, values: Partial<NewOrder> = {}) {
+    const [order] = await db
+        .insert(orders)
+        .values({ userId, eventId, orderNumber: `ORD-${next()}`, totalAmount: "1000.00", ...values })
+        .returning();
+    return order;
+}
+
+export async function createOrderItem(orderId: number, ticketTypeId: number, itemType: "ticket" | "addon" = "ticket") {
+    const [item] = await db
+        .insert(orderItems)
+        .values({ orderId, ticketTypeId, itemType, price: "1000.00" })
+        .returning();
+    return item;
+}
+
+export async function createPayment(orderId: number, values: Partial<NewPayment> = {}) {
+    const [payment] = await db
+        .insert(payments)
+        .values({ orderId, amount: "1000.00", status: "pending", ...values })
+        .returning();
+    return payment;
+}
+
+export async function createRegistration(
+    order: { id: number; userId: number; eventId: number | null },
+    ticketTypeId: number
+) {
+    const n = next();
+    const [registration] = await db
+        .insert(registrations)
+        .values({
+            regCode: `REG-${n}`,
+            orderId: order.id,
+            eventId: order.eventId!,
+            ticketTypeId,
+            userId: order.userId,
+            email: `user${n}@example.com`,
+            firstName: "Test",
+            lastName: "User",
+        })
+        .returning();
+    return registration;
+}
+
+export async function createSeatHold(
+    order: { id: number; userId: number; eventId: number | null },
+    target: { ticketTypeId: number } | { sessionId: number },
+    expiresAt: Date = new Date(Date.now() + 30 * 60 * 1000)
+) {
+    const [hold] = await db
+        .insert(seatHolds)
+        .values({
+            orderId: order.id,
+            userId: order.userId,
+            eventId: order.eventId!,
+            ticketTypeId: "ticketTypeId" in target ? target.ticketTypeId : null,
+            sessionId: "sessionId" in target ? target.sessionId : null,
+            expiresAt,
+        })
+        .returning();
+    return hold;
+}
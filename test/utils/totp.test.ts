@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { base32Encode, generateTotp, totpStep, verifyTotp } from "../../src/utils/totp.js";
+
+// RFC 6238 appendix B, SHA-1 seed
+const SECRET = base32Encode(Buffer.from("12345678901234567890"));
+const AT = new Date(59 * 1000);
+
+describe("generateTotp", () => {
+    it("matches the RFC 6238 test vectors (last six digits)", () => {
+        expect(generateTotp(SECRET, totpStep(new Date(59 * 1000)))).toBe("287082");
+        expect(generateTotp(SECRET, totpStep(new Date(1111111109 * 1000)))).toBe("081804");
+        expect(generateTotp(SECRET, totpStep(new Date(1234567890 * 1000)))).toBe("005924");
+    });
+});
+
+describe("verifyTotp", () => {
+    it("returns the step of a current code", () => {
+        expect(verifyTotp(SECRET, "287082", 1, AT)).toBe(1);
+    });
+
+    it("accepts a code one step either side for clock drift", () => {
+        const step = totpStep(AT);
+        expect(verifyTotp(SECRET, generateTotp(SECRET, step - 1), 1, AT)).toBe(step - 1);
+        expect(verifyTotp(SECRET, generateTotp(SECRET, step + 1), 1, AT)).toBe(step + 1);
+    });
+
+    it("rejects a code outside the window", () => {
+        const step = totpStep(AT);
+        expect(verifyTotp(SECRET, generateTotp(SECRET, step + 2), 1, AT)).toBeNull();
+        expect(verifyTotp(SECRET, generateTotp(SECRET, step + 1), 0, AT)).toBeNull();
+    });
+
+    it("ignores spaces but rejects malformed codes", () => {
+        expect(verifyTotp(SECRET, "287 082", 1, AT)).toBe(1);
+        expect(verifyTotp(SECRET, "28708", 1, AT)).toBeNull();
+        expect(verifyTotp(SECRET, "2870820", 1, AT)).toBeNull();
+        expect(verifyTotp(SECRET, "28708a", 1, AT)).toBeNull();
+        expect(verifyTotp(SECRET, "", 1, AT)).toBeNull();
+    });
+});
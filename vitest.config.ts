@@ -0,0 +1,14 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    include: ["test/**/*.test.ts"],
+    // Every test file starts its own in-memory Postgres; run them one at a time
+    fileParallelism: false,
+    hookTimeout: 60_000,
+    env: {
+      JWT_SECRET: "test-jwt-secret",
+      STRIPE_SECRET_KEY: "sk_test_dummy",
+    },
+  },
+});